@@ -0,0 +1,292 @@
+/**
+ * Technical Indicators Test Suite
+ *
+ * Streaming indicators against direct recomputation and worked examples,
+ * and the cached per-series engine over stored OHLCV.
+ */
+
+import {
+  ATR,
+  BollingerBands,
+  EMA,
+  IndicatorCandle,
+  IndicatorConfigError,
+  IndicatorSet,
+  MACD,
+  OBV,
+  RSI,
+  SMA,
+  VWAP,
+  WMA,
+  ZScore,
+  computeIndicators,
+  hurstExponent,
+  toTechnicalIndicators
+} from '../../analytics/technical-indicators';
+import { IndicatorEngine } from '../../analytics/indicator-engine';
+import { TimeSeriesDB } from '../../data/storage/timeseries-db';
+import { PriceOHLCV } from '../../entities/analytics';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+jest.mock('../../config/database', () => ({
+  getDataSource: jest.fn()
+}));
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+// Deterministic standard normal draws
+function normalSource(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform() + 1e-12)) * Math.cos(2 * Math.PI * uniform());
+}
+
+function randomCandles(count: number, seed = 7): IndicatorCandle[] {
+  const normal = normalSource(seed);
+  let close = 0.02;
+  return Array.from({ length: count }, (_, i) => {
+    const open = close;
+    close = open * Math.exp(0.01 * normal());
+    return {
+      timestamp: T0 + i * HOUR,
+      open,
+      high: Math.max(open, close) * 1.002,
+      low: Math.min(open, close) * 0.998,
+      close,
+      volume: 1000 + 500 * Math.abs(normal())
+    };
+  });
+}
+
+describe('Streaming indicators', () => {
+  it('should match moving averages recomputed over each window', () => {
+    const closes = randomCandles(500).map(candle => candle.close);
+    const sma = new SMA(20);
+    const ema = new EMA(10);
+    const wma = new WMA(15);
+    let expectedEma: number | null = null;
+
+    closes.forEach((close, i) => {
+      const smaValue = sma.update(close);
+      const emaValue = ema.update(close);
+      const wmaValue = wma.update(close);
+
+      if (i < 19) {
+        expect(smaValue).toBeNull();
+      } else {
+        const window = closes.slice(i - 19, i + 1);
+        expect(smaValue).toBeCloseTo(window.reduce((a, b) => a + b, 0) / 20, 15);
+      }
+
+      if (i === 9) expectedEma = closes.slice(0, 10).reduce((a, b) => a + b, 0) / 10;
+      if (i > 9) expectedEma = expectedEma! + (2 / 11) * (close - expectedEma!);
+      expect(emaValue === null ? null : emaValue - expectedEma!).toBe(i < 9 ? null : 0);
+
+      if (i >= 14) {
+        const window = closes.slice(i - 14, i + 1);
+        expect(wmaValue).toBeCloseTo(window.reduce((sum, value, k) => sum + value * (k + 1), 0) / 120, 15);
+      }
+    });
+  });
+
+  it('should smooth RSI and ATR the Wilder way', () => {
+    const rsi = new RSI(2);
+    expect([1, 2, 1, 3].map(close => rsi.update(close))).toEqual([null, null, 50, expect.closeTo(83.333333, 5)]);
+
+    const rising = new RSI(14);
+    const flat = new RSI(14);
+    for (let i = 0; i < 30; i++) {
+      rising.update(1 + i);
+      flat.update(1);
+    }
+    expect(rising.value).toBe(100);
+    expect(flat.value).toBe(50);
+
+    // True ranges 2, 2, 2, then a gap up from 11 to a 14-15 candle: max(1, 4, 3) = 4
+    const atr = new ATR(2);
+    const values = [[10, 8, 9], [11, 9, 10], [12, 10, 11], [15, 14, 14.5]].map(([high, low, close]) => atr.update({ high, low, close }));
+    expect(values).toEqual([null, 2, 2, 3]);
+  });
+
+  it('should derive MACD, Bollinger Bands and z-scores from their windows', () => {
+    const closes = randomCandles(120).map(candle => candle.close);
+    const macd = new MACD(12, 26, 9);
+    const fast = new EMA(12);
+    const slow = new EMA(26);
+    const signal = new EMA(9);
+
+    closes.forEach(close => {
+      const value = macd.update(close);
+      const line = (fast.update(close) ?? NaN) - (slow.update(close) ?? NaN);
+      const signalValue = Number.isNaN(line) ? null : signal.update(line);
+      expect(value).toEqual(signalValue === null ? null : { macd: line, signal: signalValue, histogram: line - signalValue });
+    });
+    expect(macd.value).not.toBeNull();
+
+    const bands = new BollingerBands(3, 2);
+    [1, 2, 3].forEach(close => bands.update(close));
+    const sd = Math.sqrt(2 / 3);
+    expect(bands.value).toEqual({
+      upper: 2 + 2 * sd,
+      middle: 2,
+      lower: 2 - 2 * sd,
+      bandwidth: (4 * sd) / 2,
+      percentB: expect.closeTo((3 - (2 - 2 * sd)) / (4 * sd), 12)
+    });
+    [5, 5, 5].forEach(close => bands.update(close));
+    expect(bands.value).toMatchObject({ upper: 5, lower: 5, percentB: 0.5 });
+
+    const zScore = new ZScore(3);
+    expect([1, 2, 3].map(value => zScore.update(value))).toEqual([null, null, expect.closeTo(1 / sd, 12)]);
+
+    expect(() => new MACD(26, 12, 9)).toThrow(IndicatorConfigError);
+    expect(() => new SMA(0)).toThrow('SMA period must be an integer of at least 1');
+  });
+
+  it('should weight VWAP by volume and accumulate OBV by close direction', () => {
+    const vwap = new VWAP(2);
+    expect(vwap.update({ high: 11, low: 9, close: 10, volume: 1 })).toBe(10);
+    expect(vwap.update({ high: 21, low: 19, close: 20, volume: 3 })).toBe(17.5);
+    expect(vwap.update({ high: 31, low: 29, close: 30, volume: 1 })).toBe(22.5); // First candle left the window
+
+    const empty = new VWAP(0);
+    expect(empty.update({ high: 1, low: 1, close: 1, volume: 0 })).toBeNull();
+
+    const obv = new OBV();
+    expect([[10, 100], [11, 50], [11, 70], [9, 30]].map(([close, volume]) => obv.update({ close, volume }))).toEqual([0, 50, 50, 20]);
+  });
+
+  it('should separate mean-reverting, random and trending returns with the Hurst exponent', () => {
+    const normal = normalSource(42);
+    const randomWalk = Array.from({ length: 256 }, normal);
+    const alternating = Array.from({ length: 256 }, (_, i) => (i % 2 ? 1 : -1) * (1 + 0.1 * normal()));
+    let previous = 0;
+    const persistent = Array.from({ length: 256 }, () => (previous = 0.8 * previous + normal()));
+
+    expect(hurstExponent(alternating)).toBeLessThan(0.35);
+    expect(hurstExponent(randomWalk)).toBeGreaterThan(0.35);
+    expect(hurstExponent(randomWalk)).toBeLessThan(0.75);
+    expect(hurstExponent(persistent)).toBeGreaterThan(0.7);
+    expect(hurstExponent([1, 2, 3])).toBeNull();
+  });
+
+  it('should fill the TechnicalIndicators shape once every indicator has warmed up', () => {
+    const candles = randomCandles(200);
+    const set = new IndicatorSet();
+
+    candles.slice(0, 49).forEach(candle => set.update(candle));
+    expect(toTechnicalIndicators(set.snapshot)).toBeNull(); // SMA 50 still missing
+
+    candles.slice(49).forEach(candle => set.update(candle));
+    const snapshot = set.snapshot!;
+    expect(snapshot).toMatchObject({ candles: 200, timestamp: candles[199].timestamp, close: candles[199].close });
+    expect(snapshot.hurst).not.toBeNull();
+    expect(toTechnicalIndicators(snapshot)).toEqual({
+      sma20: snapshot.sma[20],
+      sma50: snapshot.sma[50],
+      ema12: snapshot.ema[12],
+      ema26: snapshot.ema[26],
+      macd: snapshot.macd!.macd,
+      macdSignal: snapshot.macd!.signal,
+      macdHistogram: snapshot.macd!.histogram,
+      rsi: snapshot.rsi,
+      bbUpper: snapshot.bollinger!.upper,
+      bbMiddle: snapshot.bollinger!.middle,
+      bbLower: snapshot.bollinger!.lower,
+      atr: snapshot.atr,
+      obv: snapshot.obv
+    });
+    expect(computeIndicators(candles)).toEqual(snapshot);
+  });
+});
+
+describe('IndicatorEngine', () => {
+  const candles = randomCandles(400);
+  let stored: PriceOHLCV[];
+  let now: number;
+  let db: { getOHLCV: jest.Mock };
+  let engine: IndicatorEngine;
+
+  function store(candle: IndicatorCandle): PriceOHLCV {
+    const entity = new PriceOHLCV();
+    entity.token = 'GALA';
+    entity.interval_start = String(candle.timestamp) as unknown as number; // bigint columns come back as strings
+    entity.interval_type = '1h';
+    entity.setOpenPrice(candle.open);
+    entity.setHighPrice(candle.high);
+    entity.setLowPrice(candle.low);
+    entity.setClosePrice(candle.close);
+    entity.setVolume(candle.volume);
+    return entity;
+  }
+
+  function toOHLCVData(candle: IndicatorCandle) {
+    return { token: 'GALA', intervalType: '1h' as const, intervalStart: candle.timestamp, ...candle };
+  }
+
+  beforeEach(() => {
+    stored = candles.slice(0, 300).map(store);
+    now = T0 + 300 * HOUR + 5 * 60 * 1000; // Hour 300 is in progress, hour 299 the last closed
+    db = {
+      getOHLCV: jest.fn(async (_token: string, options: { startTime?: number; endTime?: number; orderBy?: 'ASC' | 'DESC'; limit?: number }) => {
+        const inRange = stored.filter(candle =>
+          Number(candle.interval_start) >= (options.startTime ?? 0) &&
+          Number(candle.interval_start) <= (options.endTime ?? Infinity));
+        const ordered = options.orderBy === 'DESC' ? inRange.reverse() : inRange;
+        return ordered.slice(0, options.limit);
+      })
+    };
+    engine = new IndicatorEngine({ warmupCandles: 250 }, db as unknown as TimeSeriesDB, () => now);
+  });
+
+  it('should warm up from the most recent stored candles and serve reads from cache', async () => {
+    const [first, second] = await Promise.all([engine.getIndicators('gala', '1h'), engine.getIndicators('GALA', '1h')]);
+
+    expect(first).toEqual(computeIndicators(candles.slice(50, 300)));
+    expect(second).toBe(first);
+    expect(db.getOHLCV).toHaveBeenCalledTimes(1);
+    expect(db.getOHLCV).toHaveBeenCalledWith('GALA', { intervalType: '1h', endTime: T0 + 299 * HOUR, orderBy: 'DESC', limit: 250 });
+
+    await engine.getIndicators('GALA', '1h');
+    expect(db.getOHLCV).toHaveBeenCalledTimes(1);
+    expect(await engine.getTechnicalIndicators('GALA', '1h')).toEqual(toTechnicalIndicators(first));
+  });
+
+  it('should extend the series with pushed candles once they close and catch up from the database otherwise', async () => {
+    await engine.getIndicators('GALA', '1h');
+
+    engine.ingest(toOHLCVData(candles[300])); // Still in progress
+    expect((await engine.getIndicators('GALA', '1h'))!.timestamp).toBe(candles[299].timestamp);
+
+    now += HOUR;
+    engine.ingest(toOHLCVData(candles[300]));
+    engine.ingest(toOHLCVData(candles[299])); // Already applied
+    expect((await engine.getIndicators('GALA', '1h'))!.timestamp).toBe(candles[300].timestamp);
+    expect(db.getOHLCV).toHaveBeenCalledTimes(1);
+
+    // Two more hours close without a push: one catch-up query for just the newer candles
+    stored.push(...candles.slice(300, 303).map(store));
+    now += 2 * HOUR;
+    const caughtUp = await engine.getIndicators('GALA', '1h');
+
+    expect(db.getOHLCV).toHaveBeenLastCalledWith('GALA', { intervalType: '1h', startTime: T0 + 301 * HOUR, endTime: T0 + 302 * HOUR, orderBy: 'ASC' });
+    expect(caughtUp).toEqual(computeIndicators(candles.slice(50, 303)));
+
+    // Backfilled history is only picked up after the series is invalidated
+    engine.invalidate('GALA');
+    expect(engine.getCachedSeries()).toEqual([]);
+    expect(await engine.getIndicators('GALA', '1h')).toEqual(computeIndicators(candles.slice(53, 303)));
+  });
+});
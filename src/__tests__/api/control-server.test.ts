@@ -0,0 +1,310 @@
+/**
+ * Control Server Tests
+ * Read/write routes, API key authentication and rate limiting against a server on a free port
+ */
+
+import {
+  ControlEngine,
+  ControlOrchestrator,
+  ControlServer,
+  ControlServerConfig,
+  controlServerConfigFromEnv,
+  requestControlApi
+} from '../../api/control-server';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const API_KEY = 'test-control-key';
+
+const createEngine = () => {
+  const emergencyStatus = { isActive: false, reason: null as string | null };
+  const defaultPolicy = { enabled: false, minNetProfitUSD: 1, maxGasRatio: 0.5, minSwapFraction: 0.01, slippageTolerance: 0.01 };
+  const policies = new Map<string, Record<string, unknown>>();
+  return {
+    getStatus: jest.fn().mockReturnValue({ isRunning: true, uptime: 1000 }),
+    getPortfolio: jest.fn().mockResolvedValue({
+      positions: [],
+      balances: [{ token: 'GALA', amount: '100' }],
+      totalValue: 42,
+      pnl: 1.5,
+      liquidityPositions: [{ id: 'lp-1' }],
+      rangeOrders: [{ id: 'ro-1' }],
+      marketMakingPositions: []
+    }),
+    getRangeOrderBook: jest.fn().mockReturnValue([
+      { orderId: 'ro_b1_abc', pair: 'GALA/GUSDC', direction: 'buy', targetPrice: 0.055, fillPercentage: 25, timeInForce: 'GTC' }
+    ]),
+    getRiskStatus: jest.fn(() => ({ emergencyStatus, riskMonitor: {}, positionLimits: {}, slippageProtection: {} })),
+    emergencyStop: jest.fn(async (reason: string) => {
+      emergencyStatus.isActive = true;
+      emergencyStatus.reason = reason;
+    }),
+    deactivateEmergencyStop: jest.fn(async () => {
+      emergencyStatus.isActive = false;
+      emergencyStatus.reason = null;
+    }),
+    executeManualTrade: jest.fn().mockResolvedValue({ success: true, transactionId: 'tx-1' }),
+    stop: jest.fn().mockResolvedValue(undefined),
+    getFeeCompoundPolicy: jest.fn((id: string) => ({ ...defaultPolicy, ...policies.get(id) })),
+    setFeeCompoundPolicy: jest.fn((id: string, policy: Record<string, unknown>) => {
+      policies.set(id, { ...policies.get(id), ...policy });
+      return { ...defaultPolicy, ...policies.get(id) };
+    }),
+    clearFeeCompoundPolicy: jest.fn((id: string) => {
+      policies.delete(id);
+      return defaultPolicy;
+    }),
+    getFeeCompoundHistory: jest.fn().mockReturnValue([]),
+    hasLiquidityPosition: jest.fn((id: string) => id.startsWith('lp-')),
+    queuePositionSplit: jest.fn(async (positionId: string) => ({ id: 'rebal-1', positionId, actionType: 'split_position' })),
+    queuePositionMerge: jest.fn(async ([positionId]: string[]) => ({ id: 'rebal-2', positionId, actionType: 'merge_positions' }))
+  };
+};
+
+const createOrchestrator = () => {
+  const configs = new Map([['arbitrage', { name: 'Arbitrage', enabled: true, priority: 8 }]]);
+  return {
+    getStats: jest.fn().mockReturnValue({ totalStrategies: 1, activeStrategies: 1 }),
+    getStrategyPerformance: jest.fn().mockReturnValue(new Map([['arbitrage', { totalTrades: 3 }]])),
+    getStrategyConfig: jest.fn((id: string) => configs.get(id)),
+    setStrategyEnabled: jest.fn((id: string, enabled: boolean) => {
+      const config = configs.get(id);
+      if (config) config.enabled = enabled;
+    }),
+    setStrategyPriority: jest.fn((id: string, priority: number) => {
+      const config = configs.get(id);
+      if (config) config.priority = priority;
+    })
+  };
+};
+
+const createConfig = (overrides: Partial<ControlServerConfig> = {}): ControlServerConfig => ({
+  host: '127.0.0.1',
+  port: 0,
+  apiKeys: [API_KEY],
+  authentication: { required: false, providers: ['apikey'], tokenExpiry: 0, refreshTokenExpiry: 0 },
+  rateLimiting: {
+    windowMs: 60000,
+    maxRequests: 100,
+    skipSuccessfulRequests: false,
+    skipFailedRequests: false,
+    keyGenerator: 'ip'
+  },
+  ...overrides
+});
+
+describe('ControlServer', () => {
+  let server: ControlServer;
+  let engine: ReturnType<typeof createEngine>;
+  let orchestrator: ReturnType<typeof createOrchestrator>;
+  let baseUrl: string;
+
+  const startServer = async (config: ControlServerConfig = createConfig()) => {
+    server = new ControlServer(engine as unknown as ControlEngine, config, {
+      orchestrator: orchestrator as unknown as ControlOrchestrator
+    });
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  };
+
+  const post = (path: string, body: unknown, apiKey: string | undefined = API_KEY) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify(body)
+    });
+
+  beforeEach(() => {
+    engine = createEngine();
+    orchestrator = createOrchestrator();
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+  });
+
+  it('should serve read endpoints without a key by default', async () => {
+    await startServer();
+
+    const portfolio = await requestControlApi<{ totalValue: number }>(baseUrl, '/api/portfolio');
+    const positions = await requestControlApi<{ rangeOrders: unknown[] }>(baseUrl, '/api/positions');
+    const orchestratorView = await requestControlApi<{ strategies: unknown[] }>(baseUrl, '/api/orchestrator');
+
+    expect(portfolio.totalValue).toBe(42);
+    expect(positions.rangeOrders).toEqual([{ id: 'ro-1' }]);
+    await expect(requestControlApi(baseUrl, '/api/range-orders')).resolves.toEqual({
+      orders: [expect.objectContaining({ orderId: 'ro_b1_abc', fillPercentage: 25 })]
+    });
+    expect(orchestratorView.strategies).toEqual([
+      { id: 'arbitrage', config: { name: 'Arbitrage', enabled: true, priority: 8 }, performance: { totalTrades: 3 } }
+    ]);
+    await expect(requestControlApi(baseUrl, '/api/emergency')).resolves.toEqual({ isActive: false, reason: null });
+  });
+
+  it('should require a valid key for write endpoints', async () => {
+    await startServer();
+
+    expect((await post('/api/emergency/stop', { reason: 'test' }, '')).status).toBe(401);
+    expect((await post('/api/emergency/stop', { reason: 'test' }, 'wrong-key')).status).toBe(401);
+    expect(engine.emergencyStop).not.toHaveBeenCalled();
+
+    const response = await post('/api/emergency/stop', { reason: 'manual halt', liquidate: true });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ isActive: true, reason: 'manual halt' });
+    expect(engine.emergencyStop).toHaveBeenCalledWith('manual halt', true);
+  });
+
+  it('should disable writes when no keys are configured and protect reads when required', async () => {
+    await startServer(createConfig({ apiKeys: [] }));
+    expect((await post('/api/stop', {})).status).toBe(403);
+    await server.stop();
+
+    await startServer(createConfig({
+      authentication: { required: true, providers: ['apikey'], tokenExpiry: 0, refreshTokenExpiry: 0 }
+    }));
+    await expect(requestControlApi(baseUrl, '/api/status')).rejects.toMatchObject({ status: 401 });
+    await expect(requestControlApi(baseUrl, '/api/status', { apiKey: API_KEY }))
+      .resolves.toEqual({ isRunning: true, uptime: 1000 });
+  });
+
+  it('should manage strategies through the orchestrator', async () => {
+    await startServer();
+
+    expect(await (await post('/api/strategies/arbitrage/disable', {})).json()).toMatchObject({ enabled: false });
+    expect(await (await post('/api/strategies/arbitrage/priority', { priority: 3 })).json()).toMatchObject({ priority: 3 });
+    expect(orchestrator.setStrategyEnabled).toHaveBeenCalledWith('arbitrage', false);
+    expect(orchestrator.setStrategyPriority).toHaveBeenCalledWith('arbitrage', 3);
+
+    expect((await post('/api/strategies/unknown/enable', {})).status).toBe(404);
+    expect((await post('/api/strategies/arbitrage/priority', { priority: 'high' })).status).toBe(400);
+  });
+
+  it('should validate and forward manual trades', async () => {
+    await startServer();
+
+    expect((await post('/api/trades', { tokenIn: 'GALA|Unit|none|none' })).status).toBe(400);
+
+    const response = await post('/api/trades', {
+      tokenIn: 'GALA|Unit|none|none',
+      tokenOut: 'GUSDC|Unit|none|none',
+      amountIn: '10',
+      slippageTolerance: 0.01
+    });
+    expect(await response.json()).toEqual({ success: true, transactionId: 'tx-1' });
+    expect(engine.executeManualTrade).toHaveBeenCalledWith({
+      tokenIn: 'GALA|Unit|none|none',
+      tokenOut: 'GUSDC|Unit|none|none',
+      amountIn: '10',
+      slippageTolerance: 0.01
+    });
+  });
+
+  it('should read, validate and reset per-position compound policies', async () => {
+    await startServer();
+
+    expect(await requestControlApi(baseUrl, '/api/positions/lp-1/compound-policy'))
+      .toMatchObject({ positionId: 'lp-1', policy: { enabled: false }, history: [] });
+
+    expect((await post('/api/positions/lp-1/compound-policy', { enabled: 'yes' })).status).toBe(400);
+    expect((await post('/api/positions/lp-1/compound-policy', { maxGasRatio: 2 })).status).toBe(400);
+    expect((await post('/api/positions/lp-1/compound-policy', {})).status).toBe(400);
+    expect((await post('/api/positions/lp-1/compound-policy', { enabled: true }, '')).status).toBe(401);
+
+    const updated = await (await post('/api/positions/lp-1/compound-policy', { enabled: true, minNetProfitUSD: 5 })).json();
+    expect(updated).toMatchObject({ positionId: 'lp-1', policy: { enabled: true, minNetProfitUSD: 5, maxGasRatio: 0.5 } });
+    expect(engine.setFeeCompoundPolicy).toHaveBeenCalledWith('lp-1', { enabled: true, minNetProfitUSD: 5 });
+
+    const reset = await (await post('/api/positions/lp-1/compound-policy/reset', {})).json();
+    expect(reset).toMatchObject({ policy: { enabled: false, minNetProfitUSD: 1 } });
+    expect(engine.clearFeeCompoundPolicy).toHaveBeenCalledWith('lp-1');
+  });
+
+  it('should validate and queue position splits and merges', async () => {
+    await startServer();
+
+    expect((await post('/api/positions/lp-1/split', { rungs: 1 })).status).toBe(400);
+    expect((await post('/api/positions/lp-1/split', { rungs: 3, weighting: 'edges' })).status).toBe(400);
+    expect((await post('/api/positions/lp-1/split', { rungs: 3, minPrice: 0.03, maxPrice: 0.02 })).status).toBe(400);
+    expect((await post('/api/positions/unknown/split', { rungs: 3 })).status).toBe(404);
+    expect((await post('/api/positions/merge', { positionIds: ['lp-1'] })).status).toBe(400);
+    expect((await post('/api/positions/merge', { positionIds: ['lp-1', 'unknown'] })).status).toBe(404);
+    expect(engine.queuePositionSplit).not.toHaveBeenCalled();
+    expect(engine.queuePositionMerge).not.toHaveBeenCalled();
+
+    const split = await (await post('/api/positions/lp-1/split', { rungs: 3, weighting: 'center', slippageTolerance: 0.005 })).json();
+    expect(split).toMatchObject({ action: { id: 'rebal-1', actionType: 'split_position' } });
+    expect(engine.queuePositionSplit).toHaveBeenCalledWith('lp-1', {
+      rungs: 3, weighting: 'center', minPrice: undefined, maxPrice: undefined, slippageTolerance: 0.005
+    });
+
+    const merge = await (await post('/api/positions/merge', { positionIds: ['lp-1', 'lp-2'], newMaxPrice: 0.03 })).json();
+    expect(merge).toMatchObject({ action: { id: 'rebal-2', actionType: 'merge_positions' } });
+    expect(engine.queuePositionMerge).toHaveBeenCalledWith(['lp-1', 'lp-2'], {
+      newMinPrice: undefined, newMaxPrice: 0.03, slippageTolerance: undefined
+    });
+  });
+
+  it('should return 503 for orchestrator routes when none is attached', async () => {
+    server = new ControlServer(engine as unknown as ControlEngine, createConfig());
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+
+    await expect(requestControlApi(baseUrl, '/api/orchestrator')).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('should rate limit each client per window', async () => {
+    await startServer(createConfig({
+      rateLimiting: { windowMs: 60000, maxRequests: 2, skipSuccessfulRequests: false, skipFailedRequests: false }
+    }));
+
+    await requestControlApi(baseUrl, '/api/health');
+    await requestControlApi(baseUrl, '/api/health');
+    const limited = await fetch(`${baseUrl}/api/health`);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+  });
+
+  it('should forget rate windows of clients that stopped calling', () => {
+    server = new ControlServer(engine as unknown as ControlEngine, createConfig({
+      rateLimiting: { windowMs: 1000, maxRequests: 2, skipSuccessfulRequests: false, skipFailedRequests: false }
+    }));
+    const now = jest.spyOn(Date, 'now').mockReturnValue(5000);
+
+    try {
+      server['checkRateLimit']('10.0.0.1');
+      server['checkRateLimit']('10.0.0.2');
+      now.mockReturnValue(5500);
+      server['checkRateLimit']('10.0.0.3');
+      expect([...server['rateWindows'].keys()]).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+
+      now.mockReturnValue(6000);
+      server['checkRateLimit']('10.0.0.3');
+      expect([...server['rateWindows'].keys()]).toEqual(['10.0.0.3']);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should reject unknown routes and wrong methods', async () => {
+    await startServer();
+
+    expect((await fetch(`${baseUrl}/api/nope`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/stop`)).status).toBe(405);
+  });
+});
+
+describe('controlServerConfigFromEnv', () => {
+  it('should stay disabled without CONTROL_API_PORT and parse keys when set', () => {
+    expect(controlServerConfigFromEnv({})).toBeNull();
+
+    const config = controlServerConfigFromEnv({ CONTROL_API_PORT: '9000', CONTROL_API_KEYS: 'a, b,' });
+    expect(config).toMatchObject({ host: '127.0.0.1', port: 9000, apiKeys: ['a', 'b'] });
+    expect(config?.authentication.required).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * WebSocket Client Tests
+ * Reconnection, heartbeats, resubscription and REST gap backfill against a local mock server
+ */
+
+import { GalaSwapWebSocketClient, BackfillResult } from '../../api/websocket-client';
+import { PoolUpdateEvent, PriceUpdateEvent, TransactionUpdateEvent } from '../../types/galaswap';
+import { MockGalaSwapServer } from '../mocks/mock-galaswap-server';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const GALA = 'GALA$Unit$none$none';
+const GUSDC = 'GUSDC$Unit$none$none';
+
+function waitForEvent<T>(emitter: GalaSwapWebSocketClient, event: string, timeoutMs: number = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), timeoutMs);
+    emitter.once(event, (payload: T) => {
+      clearTimeout(timer);
+      resolve(payload);
+    });
+  });
+}
+
+async function waitUntil(condition: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('GalaSwapWebSocketClient', () => {
+  let server: MockGalaSwapServer;
+  let client: GalaSwapWebSocketClient;
+
+  const createClient = (overrides: Partial<ConstructorParameters<typeof GalaSwapWebSocketClient>[0]> = {}) =>
+    new GalaSwapWebSocketClient({
+      url: server.wsUrl,
+      restBaseUrl: server.restUrl,
+      reconnectAttempts: 5,
+      reconnectDelay: 20,
+      reconnectDelayMax: 100,
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 500,
+      ...overrides
+    });
+
+  beforeEach(async () => {
+    server = new MockGalaSwapServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    await server.stop();
+  });
+
+  it('should connect and send subscriptions registered before connecting', async () => {
+    client = createClient();
+    client.subscribePrices([GALA, GUSDC]);
+    client.subscribePositions('eth|0x0000000000000000000000000000000000000001');
+
+    await client.connect();
+    await waitUntil(() => server.subscriptions.length === 2);
+
+    expect(client.isConnected()).toBe(true);
+    expect(server.subscriptions).toEqual([
+      { type: 'subscribe', channel: 'prices', tokens: [GALA, GUSDC] },
+      { type: 'subscribe', channel: 'positions', user: 'eth|0x0000000000000000000000000000000000000001' }
+    ]);
+  });
+
+  it('should publish typed price updates', async () => {
+    client = createClient();
+    await client.connect();
+
+    const received = waitForEvent<PriceUpdateEvent>(client, 'price_update');
+    server.broadcast({ event: 'price_update', data: { token: GALA, price: '0.0175', change: 1.2, volume: '1000' }, timestamp: Date.now() });
+
+    const event = await received;
+    expect(event.data).toEqual({ token: GALA, price: '0.0175', change: 1.2, volume: '1000' });
+  });
+
+  it('should subscribe to pools and publish typed pool updates', async () => {
+    client = createClient();
+    client.subscribePools(['pool-1']);
+    await client.connect();
+    client.subscribePools(['pool-1', 'pool-2']);
+    await waitUntil(() => server.subscriptions.length === 2);
+
+    expect(server.subscriptions).toEqual([
+      { type: 'subscribe', channel: 'pools', pools: ['pool-1'] },
+      { type: 'subscribe', channel: 'pools', pools: ['pool-2'] }
+    ]);
+
+    const received = waitForEvent<PoolUpdateEvent>(client, 'pool_update');
+    server.broadcast({ event: 'pool_update', data: { poolHash: 'pool-1', token0Price: '0.0175', token1Price: '1' }, timestamp: Date.now() });
+
+    expect((await received).data).toEqual({ poolHash: 'pool-1', token0Price: '0.0175', token1Price: '1' });
+  });
+
+  it('should resolve transaction waiters on a terminal status', async () => {
+    client = createClient();
+    await client.connect();
+
+    const confirmation = client.waitForTransaction('tx-1', 2000);
+    await waitUntil(() => server.subscriptions.some(s => s.channel === 'transactions'));
+
+    server.broadcast({ event: 'transaction_update', data: { transactionId: 'tx-1', status: 'PENDING' }, timestamp: Date.now() });
+    server.broadcast({ event: 'transaction_update', data: { transactionId: 'tx-1', status: 'CONFIRMED', blockNumber: 42 }, timestamp: Date.now() });
+
+    const event: TransactionUpdateEvent = await confirmation;
+    expect(event.data.status).toBe('CONFIRMED');
+    expect(event.data.blockNumber).toBe(42);
+  });
+
+  it('should reject transaction waiters after the timeout', async () => {
+    client = createClient();
+    await client.connect();
+
+    await expect(client.waitForTransaction('tx-slow', 50)).rejects.toThrow('timeout');
+  });
+
+  it('should clear a transaction waiter and its timeout once its signal is aborted', async () => {
+    client = createClient();
+    await client.connect();
+
+    const polled = new AbortController();
+    const pending = client.waitForTransaction('tx-polled', 5000, polled.signal);
+    expect(client.getStats().subscriptions.transactions).toBe(1);
+
+    polled.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(client.getStats().subscriptions.transactions).toBe(0);
+  });
+
+  it('should reconnect, resubscribe and backfill the gap over REST', async () => {
+    client = createClient();
+    client.subscribePrices([GALA]);
+    await client.connect();
+    const pending = client.waitForTransaction('tx-during-outage', 5000);
+    await waitUntil(() => server.subscriptions.length === 2);
+
+    // Outage: the transaction confirms and the price moves while we are disconnected
+    server.setPrice(GALA, '0.02');
+    server.setTransactionStatus('tx-during-outage', 'CONFIRMED');
+
+    const prices: PriceUpdateEvent[] = [];
+    client.on('price_update', (event: PriceUpdateEvent) => prices.push(event));
+    const backfilled = waitForEvent<BackfillResult>(client, 'backfill');
+
+    server.dropConnections();
+
+    const result = await backfilled;
+    expect(result.prices).toBe(1);
+    expect(result.transactions).toBe(1);
+    expect(prices[0].data).toMatchObject({ token: GALA, price: '0.02' });
+    expect((await pending).data.status).toBe('CONFIRMED');
+
+    expect(server.connectionCount).toBe(2);
+    expect(server.subscriptions.filter(s => s.channel === 'prices')).toHaveLength(2);
+    expect(server.restRequests).toEqual(expect.arrayContaining(['/v1/trade/price-multiple', '/v1/trade/transaction-status']));
+    expect(client.getStats().reconnects).toBe(1);
+  });
+
+  it('should force a reconnect when heartbeats go unanswered', async () => {
+    await server.stop();
+    server = new MockGalaSwapServer({ autoPong: false });
+    await server.start();
+
+    client = createClient({ heartbeatInterval: 50, heartbeatTimeout: 50 });
+    await client.connect();
+
+    await waitForEvent(client, 'disconnected');
+    await waitForEvent(client, 'connected');
+    expect(server.connectionCount).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should give up after the configured reconnect attempts', async () => {
+    client = createClient({ reconnectAttempts: 2 });
+    await client.connect();
+
+    const errors: Error[] = [];
+    client.on('error', (error: Error) => errors.push(error));
+
+    await server.stop();
+    await waitUntil(() => errors.some(e => e.message.includes('gave up')), 3000);
+
+    expect(client.getState()).toBe('disconnected');
+  });
+});
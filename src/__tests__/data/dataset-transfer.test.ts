@@ -0,0 +1,182 @@
+/**
+ * Dataset Transfer Tests
+ * CSV/Parquet export of stored price data and OHLCV import with deduplication and gap reporting
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatasetTransfer, findCandleGaps, TimeSeriesDB, OHLCVData, readParquet, writeParquet } from '../../data';
+import { PriceOHLCV } from '../../entities/analytics';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+jest.mock('../../config/database', () => ({
+  getDataSource: jest.fn()
+}));
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+function storedCandle(token: string, intervalStart: number, close: number): PriceOHLCV {
+  const candle = new PriceOHLCV();
+  candle.token = token;
+  candle.interval_start = String(intervalStart) as unknown as number; // bigint columns come back as strings
+  candle.interval_type = '1h';
+  candle.setOpenPrice(close);
+  candle.setHighPrice(close * 1.1);
+  candle.setLowPrice(close * 0.9);
+  candle.setClosePrice(close);
+  candle.setVolume(1000);
+  candle.trade_count = 12;
+  return candle;
+}
+
+describe('DatasetTransfer', () => {
+  let dir: string;
+  let stored: PriceOHLCV[];
+  let db: { getOHLCV: jest.Mock; storeOHLCVBatch: jest.Mock };
+  let transfer: DatasetTransfer;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dataset-transfer-'));
+    stored = [];
+    db = {
+      getOHLCV: jest.fn(async (token: string, options: { startTime?: number; endTime?: number }) => stored.filter(candle =>
+        candle.token === token &&
+        Number(candle.interval_start) >= (options.startTime ?? 0) &&
+        Number(candle.interval_start) <= (options.endTime ?? Infinity))),
+      storeOHLCVBatch: jest.fn(async () => undefined)
+    };
+    transfer = new DatasetTransfer(db as unknown as TimeSeriesDB);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should import an exchange-style CSV, skipping stored, duplicate and invalid candles and reporting gaps', async () => {
+    stored = [storedCandle('GALA', T0 + HOUR, 0.021)];
+    const seconds = (hours: number) => (T0 + hours * HOUR) / 1000;
+    const path = join(dir, 'gala.csv');
+    writeFileSync(path, [
+      'Open Time,Open,High,Low,Close,Volume,Number_Of_Trades',
+      `${seconds(0)},0.020,0.022,0.019,0.021,5000,40`,
+      `${seconds(1)},0.021,0.023,0.020,0.022,6000,41`, // Already stored
+      `${seconds(2) + 30},0.022,0.024,0.021,0.023,7000,42`, // 30s late: realigned to the hour
+      `${seconds(2)},0.022,0.025,0.021,0.024,7100,43`, // Same hour again: the later row wins
+      `${seconds(3)},0.023,0.020,0.022,0.021,100,1`, // High below open
+      `${seconds(5)},0.024,0.026,0.023,0.025,"8,000",44`, // Quoted field, unreadable volume
+      `${seconds(6)},0.025,0.027,0.024,0.026,9000,45`,
+      ''
+    ].join('\r\n'));
+
+    const report = await transfer.importOHLCV(path, { token: 'gala' });
+
+    expect(report).toMatchObject({
+      format: 'csv',
+      rows: 7,
+      imported: 3,
+      skippedExisting: 1,
+      duplicates: 1,
+      realigned: 1,
+      invalid: [{ row: 5, reason: 'high/low do not bracket open and close' }, { row: 6, reason: 'negative or unreadable volume' }],
+      series: [{ token: 'GALA', intervalType: '1h', from: T0, to: T0 + 6 * HOUR, candles: 4 }]
+    });
+    expect(report.gaps).toEqual([{ token: 'GALA', intervalType: '1h', start: T0 + 3 * HOUR, end: T0 + 5 * HOUR, missing: 3 }]);
+
+    const saved: OHLCVData[] = db.storeOHLCVBatch.mock.calls[0][0];
+    expect(saved.map(candle => [candle.intervalStart, candle.close, candle.tradeCount])).toEqual([
+      [T0, 0.021, 40],
+      [T0 + 2 * HOUR, 0.024, 43],
+      [T0 + 6 * HOUR, 0.026, 45]
+    ]);
+  });
+
+  it('should round-trip stored candles through a Parquet export', async () => {
+    stored = [0, 1, 3].map(hours => storedCandle('ETIME', T0 + hours * HOUR, 0.5 + hours / 100));
+    const path = join(dir, 'etime.parquet');
+
+    const result = await transfer.exportDataset(path, { type: 'ohlcv', tokens: ['etime'], intervalType: '1h' });
+
+    expect(result).toEqual({ path, format: 'parquet', rows: 3, rowsByToken: { ETIME: 3 } });
+    expect(db.getOHLCV).toHaveBeenCalledWith('ETIME', expect.objectContaining({ intervalType: '1h', orderBy: 'ASC' }));
+    const table = readParquet(readFileSync(path));
+    expect(table.rows[2]).toEqual({
+      token: 'ETIME', interval: '1h', interval_start: T0 + 3 * HOUR, open: 0.53, high: expect.closeTo(0.583, 9), low: expect.closeTo(0.477, 9),
+      close: 0.53, volume: 1000, trade_count: 12
+    });
+
+    // Importing into another database: nothing stored yet, interval and token come from the file
+    stored = [];
+    const report = await transfer.importOHLCV(path, { dryRun: true });
+
+    expect(report).toMatchObject({ imported: 3, skippedExisting: 0, duplicates: 0, invalid: [], dryRun: true });
+    expect(report.gaps).toEqual([{ token: 'ETIME', intervalType: '1h', start: T0 + 2 * HOUR, end: T0 + 2 * HOUR, missing: 1 }]);
+    expect(db.storeOHLCVBatch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse files it cannot map and ask for the missing option', async () => {
+    const noToken = join(dir, 'candles.csv');
+    writeFileSync(noToken, 'time,open,high,low,close\n2026-01-01 00:00,1,1,1,1\n');
+    await expect(transfer.importOHLCV(noToken)).rejects.toThrow('no token column');
+
+    const noClose = join(dir, 'prices.csv');
+    writeFileSync(noClose, 'symbol,time,price\nGALA,2026-01-01,0.02\n');
+    await expect(transfer.importOHLCV(noClose)).rejects.toThrow('missing columns: open, high, low, close');
+
+    const irregular = join(dir, 'irregular.csv');
+    writeFileSync(irregular, 'symbol,time,open,high,low,close\nGALA,2026-01-01 00:00,1,1,1,1\nGALA,2026-01-01 00:07,1,1,1,1\nGALA,2026-01-01 00:14,1,1,1,1\n');
+    await expect(transfer.importOHLCV(irregular)).rejects.toThrow('Cannot infer the candle interval for GALA');
+
+    await expect(transfer.importOHLCV(join(dir, 'candles.json'))).rejects.toThrow('Cannot tell the format');
+  });
+});
+
+describe('findCandleGaps', () => {
+  it('should report missing interval runs, including at the edges of a requested range', () => {
+    const starts = [2, 3, 6, 7].map(hours => T0 + hours * HOUR);
+
+    expect(findCandleGaps('GALA', '1h', starts)).toEqual([
+      { token: 'GALA', intervalType: '1h', start: T0 + 4 * HOUR, end: T0 + 5 * HOUR, missing: 2 }
+    ]);
+    expect(findCandleGaps('GALA', '1h', starts, { startTime: T0, endTime: T0 + 8 * HOUR }).map(gap => gap.missing)).toEqual([2, 2, 1]);
+  });
+});
+
+describe('Parquet codec', () => {
+  it('should round-trip typed columns with nulls and non-ASCII text', () => {
+    const table = {
+      columns: [
+        { name: 'token', type: 'string' as const },
+        { name: 'timestamp', type: 'timestamp' as const },
+        { name: 'price', type: 'double' as const, optional: true },
+        { name: 'trades', type: 'int64' as const },
+        { name: 'flag', type: 'boolean' as const }
+      ],
+      rows: Array.from({ length: 20 }, (_, i) => ({
+        token: i % 2 ? 'GALA' : 'ÉTIME, "quoted"',
+        timestamp: T0 + i * HOUR,
+        price: i % 3 ? i / 7 : null,
+        trades: i - 10,
+        flag: i % 5 === 0
+      }))
+    };
+
+    for (const compression of ['gzip', 'none'] as const) {
+      const buffer = writeParquet(table, { compression });
+      expect(buffer.subarray(0, 4).toString()).toBe('PAR1');
+      expect(readParquet(buffer)).toEqual({ columns: table.columns.map(column => ({ optional: false, ...column })), rows: table.rows });
+    }
+
+    expect(() => readParquet(Buffer.from('token,price\n'))).toThrow('Not a Parquet file');
+    expect(() => writeParquet({ columns: [{ name: 'token', type: 'string' }], rows: [{ token: null }] })).toThrow('required');
+  });
+});
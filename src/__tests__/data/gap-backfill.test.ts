@@ -0,0 +1,171 @@
+/**
+ * Gap Backfill Tests
+ * Detecting missing OHLCV candles and rebuilding them from pool trades and volume history
+ */
+
+import { GapBackfiller, OHLCVData, TimeSeriesDB, findCandleGaps } from '../../data';
+import { IntervalType, PriceOHLCV } from '../../entities/analytics';
+import type { TransactionHistoryClient } from '../../api/transaction-history-client';
+import type { VolumeGraphClient } from '../../api/volume-graph-client';
+import type { TransactionRecord } from '../../api/types';
+import type { PoolData } from '../../services/pool-discovery';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+jest.mock('../../config/database', () => ({
+  getDataSource: jest.fn()
+}));
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+function storedCandle(token: string, intervalStart: number, open: number, close: number): PriceOHLCV {
+  const candle = new PriceOHLCV();
+  candle.token = token;
+  candle.interval_start = String(intervalStart) as unknown as number; // bigint columns come back as strings
+  candle.interval_type = '1h';
+  candle.setOpenPrice(open);
+  candle.setHighPrice(Math.max(open, close));
+  candle.setLowPrice(Math.min(open, close));
+  candle.setClosePrice(close);
+  candle.setVolume(1000);
+  candle.trade_count = 10;
+  candle.data_quality = 'collected';
+  return candle;
+}
+
+function trade(hours: number, amount0: number, amount1: number, token0 = 'GALA|Unit|none|none', token1 = 'GUSDC|Unit|none|none'): TransactionRecord {
+  return {
+    id: hours,
+    blockNumber: 1,
+    poolHash: 'pool-gala-gusdc',
+    userAddress: 'eth|trader',
+    transactionTime: new Date(T0 + hours * HOUR).toISOString(),
+    token0,
+    token1,
+    amount0,
+    amount1,
+    volume: Math.abs(amount1),
+    createdAt: null,
+    updatedAt: null
+  };
+}
+
+const pools = [
+  { poolHash: 'pool-gala-gweth', token0: 'GALA', token1: 'GWETH', tvl: 5_000_000 },
+  { poolHash: 'pool-gala-gusdc', token0: 'GALA', token1: 'GUSDC', tvl: 400_000 }
+] as PoolData[];
+
+describe('GapBackfiller', () => {
+  let stored: PriceOHLCV[];
+  let db: { getOHLCV: jest.Mock; findOHLCVGaps: jest.Mock; storeOHLCVBatch: jest.Mock };
+  let history: { getPoolTransactions: jest.Mock };
+  let volumeGraph: { getVolumeData: jest.Mock };
+  let backfiller: GapBackfiller;
+
+  beforeEach(() => {
+    stored = [];
+    db = {
+      getOHLCV: jest.fn(async (token: string, options: { startTime?: number; endTime?: number; limit?: number }) => stored
+        .filter(candle =>
+          candle.token === token &&
+          Number(candle.interval_start) >= (options.startTime ?? 0) &&
+          Number(candle.interval_start) <= (options.endTime ?? Infinity))
+        .slice(0, options.limit)),
+      findOHLCVGaps: jest.fn(async (token: string, intervalType: IntervalType, startTime: number, endTime: number) =>
+        findCandleGaps(token, intervalType, stored.filter(candle => candle.token === token).map(candle => Number(candle.interval_start)), { startTime, endTime })),
+      storeOHLCVBatch: jest.fn(async () => undefined)
+    };
+    history = { getPoolTransactions: jest.fn(async () => []) };
+    volumeGraph = { getVolumeData: jest.fn(async () => []) };
+    backfiller = new GapBackfiller(
+      {},
+      db as unknown as TimeSeriesDB,
+      history as unknown as TransactionHistoryClient,
+      volumeGraph as unknown as VolumeGraphClient,
+      async () => pools
+    );
+  });
+
+  it('should only report gaps after the first stored candle of each series', async () => {
+    stored = [0, 1, 4, 5].map(hours => storedCandle('GALA', T0 + hours * HOUR, 0.02, 0.02));
+
+    const gaps = await backfiller.detectGaps(['gala', 'etime'], ['1h'], { startTime: T0 - 10 * HOUR, endTime: T0 + 7 * HOUR });
+
+    expect(gaps).toEqual([
+      { token: 'GALA', intervalType: '1h', start: T0 + 2 * HOUR, end: T0 + 3 * HOUR, missing: 2 },
+      { token: 'GALA', intervalType: '1h', start: T0 + 6 * HOUR, end: T0 + 7 * HOUR, missing: 2 }
+    ]);
+    expect(db.findOHLCVGaps).toHaveBeenCalledTimes(1); // ETIME has never been collected
+  });
+
+  it('should rebuild candles from stablecoin pool trades and interpolate intervals without trades', async () => {
+    stored = [storedCandle('GALA', T0, 0.020, 0.020), storedCandle('GALA', T0 + 5 * HOUR, 0.032, 0.033)];
+    history.getPoolTransactions.mockResolvedValue([
+      trade(1.1, 1000, 21), // token0 amounts, stablecoin counter amounts: 0.021
+      trade(1.5, -500, -12), // 0.024
+      trade(1.9, 2000, 44), // 0.022
+      trade(4.2, 100, 3) // 0.03
+    ]);
+    volumeGraph.getVolumeData.mockResolvedValue([
+      { startTime: (T0 + HOUR) / 1000, endTime: (T0 + 2 * HOUR) / 1000, midTime: 0, volume: 900 },
+      { startTime: (T0 + 2.5 * HOUR) / 1000, endTime: (T0 + 3.5 * HOUR) / 1000, midTime: 0, volume: 200 }
+    ]);
+
+    const report = await backfiller.run(['GALA'], ['1h'], { startTime: T0, endTime: T0 + 5 * HOUR });
+
+    expect(report).toMatchObject({ gaps: 1, missing: 4, reconstructed: 2, interpolated: 2, unfilled: 0, dryRun: false });
+    expect(report.results[0].poolHash).toBe('pool-gala-gusdc'); // Stablecoin pair preferred over the deeper GWETH pool
+    expect(history.getPoolTransactions).toHaveBeenCalledWith('pool-gala-gusdc', expect.objectContaining({
+      fromTime: new Date(T0 + HOUR).toISOString(),
+      toTime: new Date(T0 + 5 * HOUR).toISOString()
+    }));
+    expect(volumeGraph.getVolumeData).toHaveBeenCalledWith('pool-gala-gusdc', '1h', { startTime: (T0 + HOUR) / 1000, endTime: (T0 + 5 * HOUR) / 1000 });
+
+    const saved: OHLCVData[] = db.storeOHLCVBatch.mock.calls[0][0];
+    expect(saved.map(candle => candle.intervalStart)).toEqual([1, 2, 3, 4].map(hours => T0 + hours * HOUR));
+    expect(saved[0]).toMatchObject({ open: 0.021, high: 0.024, low: 0.021, close: 0.022, volume: 900, tradeCount: 3, quality: 'reconstructed' });
+    expect(saved[3]).toMatchObject({ open: 0.03, close: 0.03, volume: 3, tradeCount: 1, quality: 'reconstructed' }); // No graph bucket: trade volume
+
+    // Hours 2 and 3: from the previous close (0.022) to the next open (0.03), volume pro-rated from the graph
+    expect(saved[1]).toMatchObject({ tradeCount: 0, volume: 100, quality: 'interpolated' });
+    expect(saved[1].open).toBeCloseTo(0.022, 10);
+    expect(saved[1].close).toBeCloseTo(0.026, 10);
+    expect(saved[2].open).toBeCloseTo(0.026, 10);
+    expect(saved[2].close).toBeCloseTo(0.03, 10);
+    expect(saved[2]).toMatchObject({ low: saved[2].open, high: saved[2].close, volume: 100, quality: 'interpolated' });
+  });
+
+  it('should leave intervals unfilled without any price to anchor on, and write nothing on a dry run', async () => {
+    const gap = { token: 'GALA', intervalType: '1h' as IntervalType, start: T0, end: T0 + 2 * HOUR, missing: 3 };
+
+    const report = await backfiller.backfill([gap], { dryRun: true });
+
+    expect(report).toMatchObject({ missing: 3, reconstructed: 0, interpolated: 0, unfilled: 3, dryRun: true });
+    expect(db.storeOHLCVBatch).not.toHaveBeenCalled();
+
+    // A trade inside the gap is enough to carry its price flat across the rest
+    history.getPoolTransactions.mockResolvedValue([trade(1.5, 100, 2)]);
+    const filled = await backfiller.backfill([gap], { dryRun: true });
+
+    expect(filled).toMatchObject({ reconstructed: 1, interpolated: 2, unfilled: 0 });
+  });
+
+  it('should report an unavailable history API without failing the backfill', async () => {
+    stored = [storedCandle('GALA', T0, 0.02, 0.02), storedCandle('GALA', T0 + 2 * HOUR, 0.02, 0.02)];
+    history.getPoolTransactions.mockRejectedValue(new Error('503 Service Unavailable'));
+
+    const report = await backfiller.run(['GALA'], ['1h'], { startTime: T0, endTime: T0 + 2 * HOUR });
+
+    expect(report).toMatchObject({ interpolated: 1, unfilled: 0 });
+    expect(report.results[0].error).toBe('503 Service Unavailable');
+    expect(db.storeOHLCVBatch.mock.calls[0][0]).toEqual([expect.objectContaining({ intervalStart: T0 + HOUR, close: 0.02, quality: 'interpolated' })]);
+  });
+});
@@ -26,6 +26,11 @@ jest.mock('../../config/database', () => ({
     create: jest.fn().mockReturnValue({}),
     update: jest.fn().mockResolvedValue({})
   }),
+  getEmergencyStateRepository: jest.fn().mockResolvedValue({
+    findOne: jest.fn().mockResolvedValue(null),
+    create: jest.fn().mockImplementation(record => record),
+    save: jest.fn().mockResolvedValue({})
+  }),
   getTradeRepository: jest.fn().mockReturnValue({
     find: jest.fn().mockResolvedValue([]),
     save: jest.fn().mockResolvedValue({}),
@@ -132,6 +137,7 @@ const mockLiquidityState = {
 
 jest.mock('../../services/liquidity-manager', () => ({
   LiquidityManager: jest.fn().mockImplementation(() => ({
+    setTaxLedger: jest.fn(),
     addLiquidityByPrice: jest.fn().mockImplementation(async (params) => {
       const positionId = `lp_test${++mockLiquidityState.positionCounter}`;
 
@@ -203,7 +209,8 @@ jest.mock('../../strategies/market-making-strategy', () => ({
       totalPositions: 0,
       activeOrders: 0
     }),
-    getActivePositions: jest.fn().mockResolvedValue([])
+    getActivePositions: jest.fn().mockResolvedValue([]),
+    handleRebalanceSignal: jest.fn().mockResolvedValue(null)
   }))
 }));
 
@@ -274,6 +281,7 @@ jest.mock('../../services/rebalance-engine', () => ({
       success: true,
       transactionId: 'rebalance_test123'
     }),
+    executeQueuedRestructures: jest.fn().mockResolvedValue(0),
     getStatus: jest.fn().mockReturnValue({
       isActive: false
     })
@@ -0,0 +1,128 @@
+/**
+ * Mock GalaSwap Server
+ * Local WebSocket + REST server for exercising the real-time feed client
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { ENDPOINTS } from '../../api/endpoints';
+import { TransactionStatus, WebSocketEvent } from '../../types/galaswap';
+
+export interface ReceivedSubscription {
+  type: string;
+  channel: string;
+  tokens?: string[];
+  ids?: string[];
+  user?: string;
+}
+
+export class MockGalaSwapServer {
+  private httpServer: http.Server;
+  private wss: WebSocketServer;
+  private prices: Map<string, string> = new Map();
+  private transactionStatuses: Map<string, TransactionStatus> = new Map();
+
+  readonly subscriptions: ReceivedSubscription[] = [];
+  readonly restRequests: string[] = [];
+  connectionCount = 0;
+  port = 0;
+
+  constructor(options: { autoPong?: boolean } = {}) {
+    this.httpServer = http.createServer((req, res) => this.handleRest(req, res));
+    this.wss = new WebSocketServer({ server: this.httpServer, autoPong: options.autoPong ?? true });
+
+    this.wss.on('connection', socket => {
+      this.connectionCount++;
+      socket.on('message', raw => {
+        try {
+          this.subscriptions.push(JSON.parse(raw.toString()));
+        } catch {
+          // Ignore malformed client messages
+        }
+      });
+    });
+  }
+
+  get wsUrl(): string {
+    return `ws://127.0.0.1:${this.port}`;
+  }
+
+  get restUrl(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  async start(port: number = 0): Promise<void> {
+    await new Promise<void>(resolve => this.httpServer.listen(port, '127.0.0.1', resolve));
+    this.port = (this.httpServer.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    this.dropConnections();
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  /**
+   * Send an event to every connected client
+   */
+  broadcast(event: WebSocketEvent): void {
+    const payload = JSON.stringify(event);
+    this.wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(payload);
+      }
+    });
+  }
+
+  /**
+   * Abruptly terminate all client connections to simulate an outage
+   */
+  dropConnections(): void {
+    this.wss.clients.forEach(client => client.terminate());
+  }
+
+  setPrice(token: string, price: string): void {
+    this.prices.set(token, price);
+  }
+
+  setTransactionStatus(id: string, status: TransactionStatus): void {
+    this.transactionStatuses.set(id, status);
+  }
+
+  private handleRest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', this.restUrl);
+    this.restRequests.push(url.pathname);
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      res.setHeader('content-type', 'application/json');
+
+      if (url.pathname === ENDPOINTS.PRICE_MULTIPLE && req.method === 'POST') {
+        const { tokens } = JSON.parse(body || '{}') as { tokens: string[] };
+        res.end(JSON.stringify({
+          status: 200,
+          error: false,
+          message: 'OK',
+          data: tokens.map(token => this.prices.get(token) ?? null)
+        }));
+        return;
+      }
+
+      if (url.pathname === ENDPOINTS.TRANSACTION_STATUS) {
+        const id = url.searchParams.get('id') || '';
+        res.end(JSON.stringify({
+          status: 200,
+          error: false,
+          message: 'OK',
+          data: { id, method: 'swap', status: this.transactionStatuses.get(id) || 'PENDING' }
+        }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ status: 404, error: true, message: 'Not found' }));
+    });
+  }
+}
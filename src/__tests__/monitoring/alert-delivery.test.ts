@@ -0,0 +1,305 @@
+/**
+ * Alert Delivery Tests
+ * Webhook signing/retry and SMTP delivery against local servers
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import {
+  SmtpSender,
+  WebhookSender,
+  renderAlertTemplate,
+  signWebhookBody,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER
+} from '../../monitoring/alert-delivery';
+import { Alert, AlertSystem } from '../../monitoring/alerts';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const fastRetry = { maxRetries: 2, baseDelay: 5, maxDelay: 10, jitter: false };
+
+function createAlert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: 'alert_1_test',
+    type: 'position_risk',
+    severity: 'critical',
+    title: 'Emergency stop',
+    message: 'Daily loss limit hit',
+    data: { token: 'GALA', loss: 0.12 },
+    timestamp: 1700000000000,
+    acknowledged: false,
+    source: 'risk_manager',
+    tags: ['position_risk', 'critical'],
+    ...overrides
+  };
+}
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+async function startWebhookServer(statuses: number[]): Promise<{ url: string; requests: ReceivedRequest[]; close: () => Promise<void> }> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses[requests.length - 1] ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks/alerts`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+interface CapturedMail {
+  from: string;
+  to: string[];
+  data: string;
+  auth?: string;
+}
+
+/**
+ * Minimal SMTP sink: accepts every message and records the envelope
+ */
+async function startSmtpSink(options: { authRequired?: boolean } = {}): Promise<{ port: number; messages: CapturedMail[]; close: () => Promise<void> }> {
+  const messages: CapturedMail[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let current: CapturedMail = { from: '', to: [], data: '' };
+
+    socket.write('220 sink ESMTP ready\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        current.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        messages.push(current);
+        current = { from: '', to: [], data: '' };
+        socket.write('250 OK queued\r\n');
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (line.startsWith('EHLO')) {
+          socket.write(options.authRequired ? '250-sink\r\n250 AUTH PLAIN\r\n' : '250 sink\r\n');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          current.auth = Buffer.from(line.slice(11), 'base64').toString();
+          socket.write('235 Authenticated\r\n');
+        } else if (line.startsWith('MAIL FROM:')) {
+          current.from = line.slice(10);
+          socket.write('250 OK\r\n');
+        } else if (line.startsWith('RCPT TO:')) {
+          current.to.push(line.slice(8));
+          socket.write('250 OK\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    port,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+describe('Alert Delivery', () => {
+  describe('renderAlertTemplate', () => {
+    it('should substitute alert fields and data values', () => {
+      const rendered = renderAlertTemplate(
+        { title: '{{severity}}: {{title}}', message: '{{token}} lost {{data.loss}} ({{unknown}})', variables: [] },
+        createAlert()
+      );
+
+      expect(rendered.title).toBe('critical: Emergency stop');
+      expect(rendered.message).toBe('GALA lost 0.12 ({{unknown}})');
+    });
+  });
+
+  describe('WebhookSender', () => {
+    it('should POST a signed JSON body', async () => {
+      const server = await startWebhookServer([200]);
+
+      try {
+        await new WebhookSender({ url: server.url, secret: 'shh', retry: fastRetry }).send(createAlert());
+
+        expect(server.requests).toHaveLength(1);
+        const [request] = server.requests;
+        const payload = JSON.parse(request.body);
+        expect(payload).toMatchObject({ id: 'alert_1_test', severity: 'critical', title: 'Emergency stop' });
+        expect(request.headers['content-type']).toBe('application/json');
+
+        const timestamp = request.headers[TIMESTAMP_HEADER] as string;
+        expect(request.headers[SIGNATURE_HEADER]).toBe(signWebhookBody('shh', timestamp, request.body));
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should apply the channel template to title and message', async () => {
+      const server = await startWebhookServer([200]);
+
+      try {
+        await new WebhookSender({
+          url: server.url,
+          template: { title: '[{{source}}] {{title}}', message: '{{token}}: {{message}}', variables: ['token'] },
+          retry: fastRetry
+        }).send(createAlert());
+
+        const payload = JSON.parse(server.requests[0].body);
+        expect(payload.title).toBe('[risk_manager] Emergency stop');
+        expect(payload.message).toBe('GALA: Daily loss limit hit');
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should retry on 5xx responses and succeed', async () => {
+      const server = await startWebhookServer([503, 502, 200]);
+
+      try {
+        await new WebhookSender({ url: server.url, retry: fastRetry }).send(createAlert());
+        expect(server.requests).toHaveLength(3);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should not retry on 4xx responses', async () => {
+      const server = await startWebhookServer([400, 200]);
+
+      try {
+        await expect(
+          new WebhookSender({ url: server.url, retry: fastRetry }).send(createAlert())
+        ).rejects.toThrow('Webhook responded 400');
+        expect(server.requests).toHaveLength(1);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('SmtpSender', () => {
+    it('should deliver an email to the local sink', async () => {
+      const sink = await startSmtpSink();
+
+      try {
+        await new SmtpSender({
+          host: '127.0.0.1',
+          port: sink.port,
+          from: 'Bot <bot@example.com>',
+          to: ['oncall@example.com', 'backup@example.com'],
+          retry: fastRetry
+        }).send(createAlert({ message: '.leading dot line' }));
+
+        expect(sink.messages).toHaveLength(1);
+        const [mail] = sink.messages;
+        expect(mail.from).toBe('<bot@example.com>');
+        expect(mail.to).toEqual(['<oncall@example.com>', '<backup@example.com>']);
+        expect(mail.data).toContain('Subject: [CRITICAL] Emergency stop');
+        expect(mail.data).toContain('\r\n\r\n..leading dot line');
+      } finally {
+        await sink.close();
+      }
+    });
+
+    it('should authenticate with AUTH PLAIN when credentials are set', async () => {
+      const sink = await startSmtpSink({ authRequired: true });
+
+      try {
+        await new SmtpSender({
+          host: '127.0.0.1',
+          port: sink.port,
+          username: 'bot',
+          password: 'secret',
+          from: 'bot@example.com',
+          to: ['oncall@example.com'],
+          retry: fastRetry
+        }).send(createAlert());
+
+        expect(sink.messages[0].auth).toBe('\0bot\0secret');
+      } finally {
+        await sink.close();
+      }
+    });
+
+    it('should fail with a network error when nothing is listening', async () => {
+      const sink = await startSmtpSink();
+      const { port } = sink;
+      await sink.close();
+
+      await expect(
+        new SmtpSender({
+          host: '127.0.0.1',
+          port,
+          from: 'bot@example.com',
+          to: ['oncall@example.com'],
+          retry: { ...fastRetry, maxRetries: 0 }
+        }).send(createAlert())
+      ).rejects.toThrow('SMTP network error');
+    });
+  });
+
+  describe('AlertSystem webhook channel', () => {
+    it('should deliver alerts through a configured webhook channel', async () => {
+      const server = await startWebhookServer([200]);
+      const alertSystem = new AlertSystem(false);
+
+      try {
+        alertSystem.configureChannel({
+          type: 'webhook',
+          config: { url: server.url, secret: 'shh', retry: fastRetry },
+          enabled: true,
+          severityFilter: ['critical'],
+          typeFilter: []
+        });
+
+        await alertSystem.riskAlert('drawdown', { loss: 0.2 }); // warning - filtered out
+        await alertSystem.createAlert('system_error', 'critical', 'Engine down', 'Trading halted');
+
+        expect(server.requests).toHaveLength(1);
+        expect(JSON.parse(server.requests[0].body).title).toBe('Engine down');
+      } finally {
+        alertSystem.destroy();
+        await server.close();
+      }
+    });
+  });
+});
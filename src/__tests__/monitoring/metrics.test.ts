@@ -0,0 +1,179 @@
+/**
+ * Metrics Registry Tests
+ * Prometheus text rendering, histogram buckets and scrape-time collectors
+ */
+
+import { MetricsRegistry, METRICS_CONTENT_TYPE } from '../../monitoring/metrics';
+import { registerBotMetrics } from '../../monitoring/bot-metrics';
+import { CircuitBreaker, CircuitBreakerManager, CircuitState } from '../../utils/circuit-breaker';
+import { RateLimiterManager } from '../../utils/rate-limiter';
+import { ControlEngine, ControlServer } from '../../api/control-server';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters and gauges with escaped labels', async () => {
+    registry.counter('bot_swaps_total', 'Swaps').inc({ result: 'success' });
+    registry.counter('bot_swaps_total', 'Swaps').inc({ result: 'success' }, 2);
+    registry.gauge('bot_pnl_usd', 'PnL').set(-12.5);
+    registry.gauge('bot_strategy_trades', 'Trades').set(3, { strategy: 'say "hi"' });
+
+    const output = await registry.render();
+
+    expect(output).toContain('# TYPE bot_swaps_total counter\nbot_swaps_total{result="success"} 3');
+    expect(output).toContain('# HELP bot_pnl_usd PnL\n# TYPE bot_pnl_usd gauge\nbot_pnl_usd -12.5');
+    expect(output).toContain('bot_strategy_trades{strategy="say \\"hi\\""} 3');
+  });
+
+  it('should render cumulative histogram buckets with sum and count', async () => {
+    const histogram = registry.histogram('bot_latency_seconds', 'Latency', [0.1, 1]);
+    histogram.observe(0.05, { endpoint: '/quote' });
+    histogram.observe(0.5, { endpoint: '/quote' });
+    histogram.observe(3, { endpoint: '/quote' });
+
+    const output = await registry.render();
+
+    expect(output).toContain('bot_latency_seconds_bucket{endpoint="/quote",le="0.1"} 1');
+    expect(output).toContain('bot_latency_seconds_bucket{endpoint="/quote",le="1"} 2');
+    expect(output).toContain('bot_latency_seconds_bucket{endpoint="/quote",le="+Inf"} 3');
+    expect(output).toContain('bot_latency_seconds_sum{endpoint="/quote"} 3.55');
+    expect(output).toContain('bot_latency_seconds_count{endpoint="/quote"} 3');
+  });
+
+  it('should reject conflicting metric types and invalid names', () => {
+    registry.counter('bot_metric', 'A counter');
+
+    expect(() => registry.gauge('bot_metric', 'A gauge')).toThrow('already registered as a counter');
+    expect(() => registry.gauge('bot-metric', 'Bad name')).toThrow('Invalid metric name');
+    expect(() => registry.counter('bot_metric', 'A counter').inc({}, -1)).toThrow('cannot be decreased');
+  });
+
+  it('should run collectors on render and skip ones that fail', async () => {
+    registry.addCollector('broken', () => {
+      throw new Error('source unavailable');
+    });
+    const remove = registry.addCollector('value', reg => reg.gauge('bot_value', 'Value').set(7));
+
+    expect(await registry.render()).toContain('bot_value 7');
+
+    remove();
+    registry.reset();
+    expect(await registry.render()).not.toContain('bot_value 7');
+  });
+});
+
+describe('registerBotMetrics', () => {
+  afterEach(() => {
+    CircuitBreakerManager.resetAll();
+  });
+
+  it('should export engine, orchestrator, gas bidding and circuit breaker stats', async () => {
+    const registry = new MetricsRegistry();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, successThreshold: 1, timeout: 1000, monitoringWindow: 60000 }, 'quotes');
+    CircuitBreakerManager.register('quotes', breaker);
+    breaker.forceState(CircuitState.OPEN);
+
+    const remove = registerBotMetrics({
+      wallets: [{
+        walletId: 'primary',
+        engine: {
+          getStatus: () => ({ isRunning: true, uptime: 30, performance: { totalTrades: 5, successfulTrades: 4 } }),
+          getRiskStatus: () => ({ emergencyStatus: { isActive: false } }),
+          getPortfolio: async () => ({ totalValue: 1500, pnl: 25, liquidityPositions: [{}], rangeOrders: [] })
+        } as never,
+        swapExecutor: {
+          getExecutionStats: () => ({
+            clientHealth: {},
+            rateLimiterStatus: {},
+            gasBidding: { enabled: true, totalBids: 10, successRate: 0.8, averageGasPrice: 2, averageProfitAmount: 1, strategyDistribution: {} }
+          })
+        },
+        orchestrator: {
+          getStats: () => ({ totalProfit: 40, dailyProfit: 5, allocatedCapital: 300, activeTrades: 1 }),
+          getStrategyPerformance: () => new Map([['arbitrage', { winRate: 75, totalTrades: 8, totalProfit: 40 }]]),
+          getStrategyConfig: () => ({ enabled: true })
+        } as never
+      }]
+    }, registry);
+
+    const output = await registry.render();
+
+    expect(output).toContain('billionaire_portfolio_value_usd{wallet="primary"} 1500');
+    expect(output).toContain('billionaire_pnl_usd{wallet="primary"} 25');
+    expect(output).toContain('billionaire_emergency_stop_active{wallet="primary"} 0');
+    expect(output).toContain('billionaire_gas_bid_success_ratio{wallet="primary"} 0.8');
+    expect(output).toContain('billionaire_strategy_win_rate_percent{strategy="arbitrage",wallet="primary"} 75');
+    expect(output).toContain('billionaire_circuit_breaker_state{breaker="quotes"} 2');
+
+    remove();
+  });
+
+  it('should label engine series per wallet and export process performance, rate limiter and API stats', async () => {
+    const registry = new MetricsRegistry();
+    const engine = (totalValue: number) => ({
+      getStatus: () => ({ isRunning: true, uptime: 30 }),
+      getRiskStatus: () => ({ emergencyStatus: { isActive: false } }),
+      getPortfolio: async () => ({ totalValue, pnl: 0, liquidityPositions: [], rangeOrders: [] })
+    }) as never;
+    const rateLimiters = new RateLimiterManager({ requestsPerSecond: 4, burstLimit: 8 });
+    rateLimiters.checkEndpointLimit('quotes');
+
+    const remove = registerBotMetrics({
+      wallets: [{ walletId: 'primary', engine: engine(1500) }, { walletId: 'hedge', engine: engine(300) }],
+      performanceMonitor: {
+        getCurrentMetrics: () => ({ tradeExecutionLatency: 120, apiCallLatency: 80, memoryUsage: 64, eventLoopLag: 2, cacheHitRate: 0.9 }) as never
+      },
+      rateLimiters,
+      apiOptimization: {
+        getOptimizationStats: () => ({
+          cacheHitRate: 70,
+          topEndpoints: [{ endpoint: '/v1/trade/quote', method: 'GET', avgResponseTime: 250, failedCalls: 1 }]
+        }) as never
+      }
+    }, registry);
+
+    const output = await registry.render();
+
+    expect(output).toContain('billionaire_portfolio_value_usd{wallet="primary"} 1500');
+    expect(output).toContain('billionaire_portfolio_value_usd{wallet="hedge"} 300');
+    expect(output).toContain('billionaire_trade_latency_ms 120');
+    expect(output).toContain('billionaire_rate_limiter_window_utilization{endpoint="quotes"} 0.25');
+    expect(output).toContain('billionaire_api_endpoint_failed_calls{endpoint="/v1/trade/quote",method="GET"} 1');
+
+    remove();
+  });
+
+  it('should serve the registry on the control API /metrics route', async () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('bot_up', 'Up').set(1);
+    const server = new ControlServer({} as ControlEngine, {
+      host: '127.0.0.1',
+      port: 0,
+      apiKeys: [],
+      authentication: { required: false, providers: ['apikey'], tokenExpiry: 0, refreshTokenExpiry: 0 },
+      rateLimiting: { windowMs: 60000, maxRequests: 10, skipSuccessfulRequests: false, skipFailedRequests: false }
+    }, { metrics: registry });
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${await server.start()}/metrics`);
+
+      expect(response.headers.get('content-type')).toBe(METRICS_CONTENT_TYPE);
+      expect(await response.text()).toContain('bot_up 1');
+    } finally {
+      await server.stop();
+    }
+  });
+});
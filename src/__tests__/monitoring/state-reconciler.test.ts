@@ -0,0 +1,219 @@
+/**
+ * State Reconciler Tests
+ * Position rows, the liquidity cache and wallet balances diffed against chain and repaired
+ */
+
+import { ChainStateSource, PositionCache, StateReconciler, toBlockchainPosition } from '../../monitoring/state-reconciler';
+import { Position } from '../../entities/Position';
+import { TradeRecord } from '../../entities/TradeRecord';
+import { LiquidityPosition } from '../../services/liquidity-manager';
+import { BlockchainPosition } from '../../types/galaswap';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const mockPositionSaves: Position[] = [];
+const mockPositionFind = jest.fn();
+const mockSnapshotSaves: unknown[] = [];
+const mockSnapshotFindOne = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  getPositionRepository: jest.fn().mockResolvedValue({
+    create: jest.fn(record => ({ ...record })),
+    save: jest.fn(async record => {
+      mockPositionSaves.push({ ...record });
+      return record;
+    }),
+    find: (...args: unknown[]) => mockPositionFind(...args)
+  }),
+  getReconciliationSnapshotRepository: jest.fn().mockResolvedValue({
+    create: jest.fn(record => record),
+    save: jest.fn(async record => {
+      mockSnapshotSaves.push(JSON.parse(JSON.stringify(record)));
+      return record;
+    }),
+    findOne: (...args: unknown[]) => mockSnapshotFindOne(...args)
+  })
+}));
+
+const WALLET = 'eth|' + 'a'.repeat(40);
+const GALA = 'GALA|Unit|none|none';
+const GUSDC = 'GUSDC|Unit|none|none';
+
+function chainPosition(overrides: Partial<BlockchainPosition>): BlockchainPosition {
+  return {
+    positionId: 'pos-1',
+    token0: GALA,
+    token1: GUSDC,
+    fee: 3000,
+    tickLower: -1000,
+    tickUpper: 1000,
+    liquidity: '5000',
+    fees0: '1',
+    fees1: '0.1',
+    ...overrides
+  };
+}
+
+function record(overrides: Partial<Position>): Position {
+  return Object.assign(new Position(), {
+    id: 'pos-1',
+    walletAddress: WALLET,
+    token0: 'GALA$Unit$none$none', // Rows may hold either key format
+    token1: 'GUSDC$Unit$none$none',
+    token0Symbol: 'GALA',
+    token1Symbol: 'GUSDC',
+    fee: 3000,
+    tickLower: -1000,
+    tickUpper: 1000,
+    liquidity: '5000',
+    amount0: '0',
+    amount1: '0',
+    uncollectedFees0: '1',
+    uncollectedFees1: '0.1',
+    isActive: true,
+    ...overrides
+  });
+}
+
+function positionCache(cached: LiquidityPosition[] = []): jest.Mocked<PositionCache> {
+  return {
+    getAllPositions: jest.fn(async () => cached),
+    syncChainPosition: jest.fn(),
+    removeCachedPosition: jest.fn((_positionId: string) => true)
+  };
+}
+
+describe('StateReconciler', () => {
+  const alertSystem = { createAlert: jest.fn(async () => 'alert-1') };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPositionSaves.length = 0;
+    mockSnapshotSaves.length = 0;
+    mockPositionFind.mockResolvedValue([]);
+    mockSnapshotFindOne.mockResolvedValue(null);
+  });
+
+  it('should create, repair and close position records and alert on the unexplained ones', async () => {
+    mockPositionFind.mockResolvedValue([
+      record({ id: 'local-1', liquidity: '4000' }), // Matched on pair, fee and ticks; liquidity removed in the web UI
+      record({ id: 'pos-gone', tickLower: -500, tickUpper: 500 }) // Closed while the bot was down
+    ]);
+    const source: ChainStateSource = {
+      getPositions: async () => [
+        chainPosition({ positionId: undefined }),
+        chainPosition({ positionId: 'pos-new', tickLower: -2000, tickUpper: 2000, liquidity: '700' }),
+        chainPosition({ positionId: 'pos-empty', tickLower: -3000, liquidity: '0' })
+      ],
+      getBalances: async () => []
+    };
+    const cache = positionCache();
+
+    const report = await new StateReconciler(source, { positionCache: cache, alertSystem }, { walletAddress: WALLET }).reconcile();
+
+    const database = report.differences.filter(difference => difference.store === 'database');
+    expect(database.map(difference => [difference.kind, difference.subject, difference.explained])).toEqual([
+      ['liquidity_mismatch', 'local-1', false],
+      ['untracked_position', 'pos-new', false],
+      ['closed_position', 'pos-gone', false]
+    ]);
+    expect(mockPositionFind).toHaveBeenCalledWith({ where: { walletAddress: WALLET, isActive: true } });
+    expect(mockPositionSaves).toEqual([
+      expect.objectContaining({ id: 'local-1', liquidity: '5000', isActive: true }),
+      expect.objectContaining({ id: 'pos-new', walletAddress: WALLET, token0Symbol: 'GALA', liquidity: '700', isActive: true }),
+      expect.objectContaining({ id: 'pos-gone', liquidity: '0', isActive: false })
+    ]);
+
+    // The cache is rebuilt from chain after a restart, so filling it is expected
+    expect(cache.syncChainPosition).toHaveBeenCalledTimes(2);
+    expect(report.differences.filter(difference => difference.store === 'liquidity_manager').every(difference => difference.explained)).toBe(true);
+
+    expect(report).toMatchObject({ chainPositions: 2, unexplained: 3, repaired: 5, balanceBaseline: true });
+    expect(alertSystem.createAlert).toHaveBeenCalledTimes(1);
+    expect(alertSystem.createAlert).toHaveBeenCalledWith('position_risk', 'warning', expect.any(String),
+      expect.stringContaining('no position record'), expect.objectContaining({ walletAddress: WALLET }), 'state_reconciler');
+    expect(mockSnapshotSaves).toEqual([expect.objectContaining({ walletAddress: WALLET, balances: {} })]);
+  });
+
+  it('should explain balance changes with journaled trades and liquidity activity since the last run', async () => {
+    const takenAt = Date.now() - 10 * 60 * 1000;
+    mockSnapshotFindOne.mockResolvedValue({
+      walletAddress: WALLET,
+      takenAt: String(takenAt), // bigint columns come back as strings
+      balances: { GALA: 1000, GUSDC: 50, ETIME: 20, SILK: 300 },
+      positions: {
+        [`${GALA}/${GUSDC}:3000:-1000:1000`]: { token0: 'GALA', token1: 'GUSDC', liquidity: '5000', fees0: '1', fees1: '0.1' },
+        [`ETIME|Unit|none|none/${GUSDC}:10000:-600:600`]: { token0: 'ETIME', token1: 'GUSDC', liquidity: '900', fees0: '0', fees1: '0' }
+      }
+    });
+    const trades = [
+      { status: 'CONFIRMED', tokenIn: GALA, tokenOut: GUSDC, amountIn: '100', amountOut: '4', updatedAt: new Date(takenAt + 60000) },
+      { status: 'CONFIRMED', tokenIn: GALA, tokenOut: GUSDC, amountIn: '999', amountOut: '40', updatedAt: new Date(takenAt - 60000) }
+    ] as TradeRecord[];
+    const tradeJournal = { find: jest.fn(async () => trades) };
+    const source: ChainStateSource = {
+      getPositions: async () => [chainPosition({ amount0: undefined })], // The ETIME position was withdrawn
+      getBalances: async () => [
+        { token: 'GALA', amount: 900.2, valueUSD: 0 }, // Within tolerance of 1000 - 100
+        { token: 'GUSDC', amount: 66, valueUSD: 0 }, // +4 journaled, +12 from the withdrawal
+        { token: 'ETIME', amount: 45, valueUSD: 0 },
+        { token: 'TOWN', amount: 500, valueUSD: 0 } // Bought in the web UI
+      ]
+    };
+
+    const report = await new StateReconciler(source, { tradeJournal, alertSystem }, { walletAddress: WALLET }).reconcile();
+
+    expect(tradeJournal.find).toHaveBeenCalledWith(expect.objectContaining({ status: 'CONFIRMED', walletAddress: WALLET }));
+    const balances = report.differences.filter(difference => difference.kind === 'balance_mismatch');
+    expect(balances.map(difference => [difference.subject, difference.explained])).toEqual([
+      ['GUSDC', true],
+      ['ETIME', true],
+      ['SILK', false],
+      ['TOWN', false]
+    ]);
+    expect(balances[0]).toMatchObject({ local: '54', chain: '66' });
+    expect(report.balanceBaseline).toBe(false);
+    expect(alertSystem.createAlert).toHaveBeenCalledWith('position_risk', 'error', expect.any(String),
+      expect.stringContaining('TOWN'), expect.anything(), 'state_reconciler');
+    expect(mockSnapshotSaves).toEqual([expect.objectContaining({ balances: { GALA: 900.2, GUSDC: 66, ETIME: 45, TOWN: 500 } })]);
+  });
+
+  it('should only report differences on a dry run', async () => {
+    mockPositionFind.mockResolvedValue([record({ id: 'pos-gone' })]);
+    const cache = positionCache([{ ...record({}), id: 'cached-gone', tickLower: -10, minPrice: 0, maxPrice: 0, createdAt: 0, lastUpdate: 0 } as LiquidityPosition]);
+    const source: ChainStateSource = { getPositions: async () => [], getBalances: async () => [] };
+
+    const report = await new StateReconciler(source, { positionCache: cache, alertSystem }, { walletAddress: WALLET }).reconcile({ repair: false });
+
+    expect(report.differences.map(difference => [difference.store, difference.kind, difference.repaired])).toEqual([
+      ['database', 'closed_position', false],
+      ['liquidity_manager', 'closed_position', false]
+    ]);
+    expect(mockPositionSaves).toHaveLength(0);
+    expect(mockSnapshotSaves).toHaveLength(0);
+    expect(cache.removeCachedPosition).not.toHaveBeenCalled();
+    expect(alertSystem.createAlert).not.toHaveBeenCalled();
+  });
+
+  it('should normalize positions API entries to pipe-format token keys', () => {
+    const position = toBlockchainPosition({
+      positionId: 'abc',
+      token0ClassKey: { collection: 'GALA', category: 'Unit', type: 'none', additionalKey: 'none' },
+      token1Symbol: 'GUSDC',
+      fee: 500,
+      tickLower: -10,
+      tickUpper: 10,
+      liquidity: { toString: () => '123.5' },
+      tokensOwed0: 2
+    });
+
+    expect(position).toMatchObject({ id: 'abc', token0: GALA, token0Symbol: 'GALA', token1: 'GUSDC', liquidity: '123.5', fees0: '2' });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Arbitrage Graph Tests
+ * Negative-cycle search over pool edges, hop limits and incremental re-search after price updates
+ */
+
+import { EventEmitter } from 'events';
+import { ArbitrageGraph } from '../../services/arbitrage-graph';
+import { PoolData, PoolDiscoveryService } from '../../services/pool-discovery';
+import type { GalaSwapWebSocketClient } from '../../api/websocket-client';
+import { logger } from '../../utils/logger';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../config/environment', () => ({
+  ENV: { api: { baseUrl: 'https://example.test' } }
+}));
+
+const USD: Record<string, number> = { GALA: 0.04, GUSDC: 1, TOWN: 0.5, GWETH: 2000, SILK: 0.1 };
+
+function pool(token0: string, token1: string, overrides: { price0?: number; fee?: string; tvl?: number } = {}): PoolData {
+  return {
+    poolPair: `${token0}/${token1}`,
+    poolHash: `${token0}-${token1}-${overrides.fee ?? '0.3'}`,
+    token0,
+    token0Image: '',
+    token1,
+    token1Image: '',
+    token0Price: String(overrides.price0 ?? USD[token0]),
+    token1Price: String(USD[token1]),
+    poolName: `${token0}/${token1}`,
+    fee: overrides.fee ?? '0.3',
+    fee24h: 0,
+    token0Tvl: 0,
+    token0TvlUsd: 0,
+    token1Tvl: 0,
+    token1TvlUsd: 0,
+    tvl: overrides.tvl ?? 50000,
+    volume1d: 0,
+    volume30d: 0,
+    dayPerTvl: 0,
+    apr1d: 0
+  };
+}
+
+// Only one cycle exists: GALA → GUSDC → TOWN → GWETH → GALA, where the TOWN/GWETH pool overprices TOWN by 4%
+function gamingPools(): PoolData[] {
+  return [
+    pool('GALA', 'GUSDC'),
+    pool('GALA', 'GUSDC', { fee: '1' }),
+    pool('GUSDC', 'TOWN'),
+    pool('TOWN', 'GWETH', { price0: 0.52 }),
+    pool('GWETH', 'GALA')
+  ];
+}
+
+describe('ArbitrageGraph', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should find a 4-hop cycle after fees and rotate it to the start token', () => {
+    const graph = new ArbitrageGraph(gamingPools());
+
+    const cycles = graph.findCycles({ maxHops: 6, startTokens: ['GALA'] });
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].tokens).toEqual(['GALA', 'GUSDC', 'TOWN', 'GWETH', 'GALA']);
+    expect(cycles[0].edges.map(edge => edge.feeTier)).toEqual([3000, 3000, 3000, 3000]);
+    expect(cycles[0].profitPercent).toBeCloseTo(((0.52 / 0.5) * 0.997 ** 4 - 1) * 100, 8);
+    expect(graph.getStats()).toMatchObject({ tokens: 4, pools: 5, edges: 10 });
+  });
+
+  it('should respect the hop limit, profit threshold and minimum TVL', () => {
+    const graph = new ArbitrageGraph(gamingPools());
+
+    expect(graph.findCycles({ maxHops: 3 })).toEqual([]);
+    expect(graph.findCycles({ maxHops: 4, minProfitPercent: 3 })).toEqual([]);
+    expect(graph.findCycles({ maxHops: 4, minProfitPercent: 2 })).toHaveLength(1);
+
+    graph.updatePool(pool('GUSDC', 'TOWN', { tvl: 500 }));
+    expect(graph.findCycles({ maxHops: 4, minTvl: 1000 })).toEqual([]);
+  });
+
+  it('should only search again from tokens whose edges changed', () => {
+    const graph = new ArbitrageGraph(gamingPools());
+    expect(graph.findCycles({ maxHops: 5 })).toHaveLength(1);
+
+    // Unchanged prices: cached cycles are repriced, nothing is searched
+    graph.loadPools(gamingPools());
+    expect(graph.getStats().dirtyTokens).toBe(0);
+    expect(graph.findCycles({ maxHops: 5 })).toHaveLength(1);
+    expect(logger.debug).toHaveBeenLastCalledWith(expect.stringContaining('searched 0 tokens'));
+
+    // TOWN/GWETH is arbitraged back in line, GWETH/GALA is gone and new SILK pools overprice SILK by 10%
+    const pools = gamingPools().slice(0, 3);
+    pools.push(pool('TOWN', 'GWETH'), pool('GWETH', 'SILK'), pool('SILK', 'GALA', { price0: 0.11 }));
+    graph.loadPools(pools);
+    expect(graph.getStats().dirtyTokens).toBe(4);
+
+    const cycles = graph.findCycles({ maxHops: 5 });
+
+    expect(logger.debug).toHaveBeenLastCalledWith(expect.stringContaining('searched 4 tokens'));
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].hops).toBe(5);
+    expect(new Set(cycles[0].tokens)).toEqual(new Set(['GALA', 'GUSDC', 'TOWN', 'GWETH', 'SILK']));
+    expect(cycles[0].profitPercent).toBeCloseTo((1.1 * 0.997 ** 5 - 1) * 100, 8);
+  });
+});
+
+describe('PoolDiscoveryService live pool prices', () => {
+  it('should reprice cached pools and their graph edges from the feed\'s pool updates', () => {
+    const discovery = new PoolDiscoveryService();
+    const pools = gamingPools();
+    discovery['pools'] = pools;
+    discovery.getArbitrageGraph().loadPools(pools);
+    expect(discovery.findArbitrageCycles({ maxHops: 5 })).toHaveLength(1);
+
+    const feed = Object.assign(new EventEmitter(), { subscribePools: jest.fn() });
+    discovery.attachRealtimeFeed(feed as unknown as GalaSwapWebSocketClient);
+    expect(feed.subscribePools).toHaveBeenCalledWith(pools.map(p => p.poolHash));
+
+    // TOWN/GWETH is arbitraged back in line
+    feed.emit('pool_update', { event: 'pool_update', data: { poolHash: 'TOWN-GWETH-0.3', token0Price: '0.5', token1Price: '2000' }, timestamp: 0 });
+    feed.emit('pool_update', { event: 'pool_update', data: { poolHash: 'GALA-GUSDC-0.3', token0Price: 'bad', token1Price: '1' }, timestamp: 0 });
+
+    expect(pools[3].token0Price).toBe('0.5');
+    expect(pools[0].token0Price).toBe('0.04');
+    expect(discovery.findArbitrageCycles({ maxHops: 5 })).toEqual([]);
+  });
+});
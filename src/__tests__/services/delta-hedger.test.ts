@@ -0,0 +1,197 @@
+/**
+ * Delta Hedger Tests
+ * Position token delta from tick math and band-triggered hedge swaps with separate PnL
+ */
+
+import { DeltaHedger, positionDelta } from '../../services/delta-hedger';
+import { liquidityForAmounts, priceToTick, tickToSqrtPrice } from '../../utils/price-math';
+import type { SwapExecutor, SwapRequest } from '../../trading/execution/swap-executor';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const mockQuoteExactInput = jest.fn();
+jest.mock('../../utils/quote-api', () => ({
+  createQuoteWrapper: () => ({ quoteExactInput: mockQuoteExactInput })
+}));
+
+// Hedge books saved to and loaded from an in-memory table
+const mockHedgeBooks = new Map<string, Record<string, unknown>>();
+jest.mock('../../config/database', () => ({
+  getHedgeBookRepository: jest.fn().mockResolvedValue({
+    find: jest.fn(async ({ where }: { where: { walletAddress: string } }) =>
+      [...mockHedgeBooks.values()].filter(record => record.walletAddress === where.walletAddress)),
+    save: jest.fn(async (record: Record<string, unknown>) => {
+      mockHedgeBooks.set(`${record.walletAddress}:${record.token}`, JSON.parse(JSON.stringify(record)));
+      return record;
+    })
+  })
+}));
+
+const GALA = 'GALA|Unit|none|none';
+const GUSDC = 'GUSDC|Unit|none|none';
+
+// GALA/GUSDC range of roughly 0.018 - 0.022 holding 10,000 GALA at 0.02
+const tickLower = Math.floor(priceToTick(0.018) / 60) * 60;
+const tickUpper = Math.ceil(priceToTick(0.022) / 60) * 60;
+const liquidity = liquidityForAmounts(Math.sqrt(0.02), tickToSqrtPrice(tickLower), tickToSqrtPrice(tickUpper), 10000, 1000);
+const position = { liquidity: String(liquidity), tickLower, tickUpper, uncollectedFees0: '0', uncollectedFees1: '0' };
+
+describe('positionDelta', () => {
+  it('should split a position into token amounts at the current price', () => {
+    const inRange = positionDelta(position, 0.02);
+    expect(inRange.amount0).toBeGreaterThan(0);
+    expect(inRange.amount1).toBeGreaterThan(0);
+    expect(inRange.amount0).toBeCloseTo(10000, 6); // The GALA side binds the liquidity
+
+    const below = positionDelta(position, 0.015);
+    expect(below.amount1).toBe(0);
+    expect(below.amount0).toBeGreaterThan(inRange.amount0);
+
+    const above = positionDelta(position, 0.03);
+    expect(above.amount0).toBe(0);
+    expect(above.amount1).toBeGreaterThan(inRange.amount1);
+  });
+
+  it('should count uncollected fees as exposure', () => {
+    const withFees = positionDelta({ ...position, uncollectedFees0: '25', uncollectedFees1: '1.5' }, 0.02);
+    const without = positionDelta(position, 0.02);
+
+    expect(withFees.amount0 - without.amount0).toBeCloseTo(25, 8);
+    expect(withFees.amount1 - without.amount1).toBeCloseTo(1.5, 8);
+  });
+});
+
+describe('DeltaHedger', () => {
+  let price: number;
+  let executeSwap: jest.Mock;
+  let getBalance: jest.Mock;
+  let hedger: DeltaHedger;
+  const createHedger = () => new DeltaHedger(
+    { executeSwap } as unknown as Pick<SwapExecutor, 'executeSwap'>, 'eth|hedger', { deltaBand: 0.1, minTradeValue: 5 }, getBalance
+  );
+
+  const exposureAt = (currentPrice: number) => {
+    const { amount0, amount1 } = positionDelta(position, currentPrice);
+    return new Map([[GALA, amount0], [GUSDC, amount1]]);
+  };
+
+  beforeEach(() => {
+    price = 0.02;
+    mockQuoteExactInput.mockReset();
+    mockQuoteExactInput.mockImplementation(async () => ({ outTokenAmount: String(price) }));
+    executeSwap = jest.fn(async (request: SwapRequest) => ({
+      success: true,
+      transactionId: `tx-${executeSwap.mock.calls.length}`,
+      amountOut: String(request.tokenIn === GALA ? Number(request.amountIn) * price : Number(request.amountIn) / price),
+      executionTime: 0
+    }));
+    getBalance = jest.fn(async () => 1e9);
+    mockHedgeBooks.clear();
+    hedger = createHedger();
+  });
+
+  it('should sell the LP token exposure against the quote token and leave the quote leg alone', async () => {
+    const exposure = exposureAt(0.02);
+    const trades = await hedger.rebalance(exposure);
+
+    expect(trades).toHaveLength(1);
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({
+      strategy: 'market-making-hedge',
+      tokenIn: GALA,
+      tokenOut: GUSDC,
+      amountIn: String(exposure.get(GALA)),
+      userAddress: 'eth|hedger'
+    }));
+    expect(mockQuoteExactInput).toHaveBeenCalledWith(GALA, GUSDC, 1);
+    expect(mockQuoteExactInput).not.toHaveBeenCalledWith(GUSDC, GUSDC, 1);
+
+    const [delta] = hedger.getDeltas(exposure);
+    expect(delta).toMatchObject({ token: GALA, price: 0.02 });
+    expect(delta.hedgeAmount).toBeCloseTo(-exposure.get(GALA)!, 8);
+    expect(delta.netAmount).toBeCloseTo(0, 8);
+  });
+
+  it('should only re-hedge once delta drifts beyond the band, buying back as the position sells into a rally', async () => {
+    await hedger.rebalance(exposureAt(0.02));
+    const initialHedge = hedger.getDeltas(exposureAt(0.02))[0].hedgeAmount;
+
+    price = 0.0201;
+    expect(await hedger.rebalance(exposureAt(0.0201))).toEqual([]); // Drift under 10% of exposure
+
+    price = 0.021;
+    const [trade] = await hedger.rebalance(exposureAt(0.021));
+
+    expect(trade).toMatchObject({ token: GALA, side: 'buy', price: 0.021 });
+    expect(executeSwap).toHaveBeenLastCalledWith(expect.objectContaining({ tokenIn: GUSDC, tokenOut: GALA }));
+
+    const drift = initialHedge + exposureAt(0.021).get(GALA)!;
+    expect(drift).toBeLessThan(0);
+    expect(trade.amount).toBeCloseTo(-drift, 6);
+    expect(hedger.getDeltas(exposureAt(0.021))[0].netAmount).toBeCloseTo(0, 6);
+  });
+
+  it('should mark hedge PnL separately, losing on the short when price rises', async () => {
+    const exposure = exposureAt(0.02);
+    await hedger.rebalance(exposure);
+    const sold = exposure.get(GALA)!;
+
+    price = 0.025;
+    await hedger.rebalance(exposure); // Same LP exposure: no trade, only a new mark
+
+    const pnl = hedger.getPnL();
+    expect(pnl.trades).toBe(1);
+    expect(pnl.quoteBalance).toBeCloseTo(sold * 0.02, 6);
+    expect(pnl.inventoryValue).toBeCloseTo(-sold * 0.025, 6);
+    expect(pnl.pnl).toBeCloseTo(-sold * 0.005, 6);
+    expect(hedger.getTrades(GALA)).toHaveLength(1);
+  });
+
+  it('should keep the inventory unchanged when a hedge swap fails or cannot be priced', async () => {
+    executeSwap.mockResolvedValueOnce({ success: false, error: 'insufficient balance', executionTime: 0 });
+
+    expect(await hedger.rebalance(exposureAt(0.02))).toEqual([]);
+    expect(hedger.getPnL()).toMatchObject({ pnl: 0, trades: 0 });
+
+    mockQuoteExactInput.mockRejectedValueOnce(new Error('quote unavailable'));
+    expect(await hedger.rebalance(exposureAt(0.02))).toEqual([]);
+    expect(executeSwap).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume from the persisted hedge book after a restart instead of hedging again', async () => {
+    await hedger.open();
+    const exposure = exposureAt(0.02);
+    await hedger.rebalance(exposure);
+    await hedger.flush();
+    expect(mockHedgeBooks.get(`eth|hedger:${GALA}`)).toMatchObject({ walletAddress: 'eth|hedger', token: GALA });
+
+    const restarted = createHedger();
+    await restarted.open();
+
+    expect(await restarted.rebalance(exposure)).toEqual([]);
+    expect(executeSwap).toHaveBeenCalledTimes(1);
+    expect(restarted.getDeltas(exposure)[0].netAmount).toBeCloseTo(0, 8);
+    expect(restarted.getPnL().trades).toBe(1);
+  });
+
+  it('should not sell more of a token than the wallet holds', async () => {
+    getBalance.mockResolvedValue(2000);
+
+    const [trade] = await hedger.rebalance(exposureAt(0.02));
+
+    expect(getBalance).toHaveBeenCalledWith(GALA);
+    expect(trade).toMatchObject({ side: 'sell', amount: 2000 });
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({ amountIn: '2000' }));
+
+    getBalance.mockResolvedValue(100); // Worth 2 GUSDC, under the minimum trade
+    executeSwap.mockClear();
+    expect(await hedger.rebalance(exposureAt(0.02))).toEqual([]);
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,8 @@
 
 import { FeeCalculator } from '../../services/fee-calculator';
 import { LiquidityPosition } from '../../services/liquidity-manager';
+import { getPositionRepository } from '../../config/database';
+import { Position } from '../../entities/Position';
 
 // Mock the database repository
 jest.mock('../../config/database');
@@ -146,6 +148,52 @@ describe('FeeCalculator', () => {
     });
   });
 
+  describe('compounding', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    beforeEach(async () => {
+      const position = {
+        id: 'lp_compound',
+        createdAt: new Date(Date.now() - 365 * DAY),
+        initialValueUSD: 1000,
+        currentValueUSD: 1100,
+        totalFeesCollected0: '100',
+        totalFeesCollected1: '0',
+        uncollectedFees0: '0',
+        uncollectedFees1: '0'
+      } as unknown as Position;
+      (getPositionRepository as jest.Mock).mockResolvedValue({ findOne: jest.fn().mockResolvedValue(position) });
+      await feeCalculator.initialize();
+    });
+
+    it('should report simple APR as the compounded APY until fees are reinvested', async () => {
+      const analytics = await feeCalculator.calculatePositionFeeAnalytics('lp_compound');
+
+      expect(analytics!.annualizedAPR).toBeCloseTo(10, 4);
+      expect(analytics!.compoundedAPY).toBe(analytics!.annualizedAPR);
+      expect(analytics!.compoundCount).toBe(0);
+    });
+
+    it('should total compounded fees and compound the APR at the observed frequency', async () => {
+      for (let month = 0; month < 12; month++) {
+        feeCalculator.recordCompounding({
+          positionId: 'lp_compound',
+          timestamp: Date.now() - (12 - month) * 30 * DAY,
+          amount0: '150',
+          amount1: '0.5',
+          valueUSD: 8,
+          gasCostUSD: 0.25
+        });
+      }
+
+      const analytics = await feeCalculator.calculatePositionFeeAnalytics('lp_compound');
+
+      expect(analytics).toMatchObject({ compoundCount: 12, compoundedFeesToken0: '1800', compoundedFeesToken1: '6', compoundedFeesUSD: 96 });
+      expect(analytics!.compoundedAPY).toBeCloseTo((Math.pow(1 + 0.1 / 12, 12) - 1) * 100, 3);
+      expect(feeCalculator.getCompoundingHistory('lp_compound')).toHaveLength(12);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle database errors gracefully', async () => {
       // Database not initialized, should throw error
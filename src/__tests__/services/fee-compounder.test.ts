@@ -0,0 +1,196 @@
+/**
+ * Fee Compounder Tests
+ * Collecting fees, swapping them to the range's ratio and adding them back, within the gas policy
+ */
+
+import { CompounderLiquidityManager, FeeCompounder, planCompoundSwap } from '../../services/fee-compounder';
+import { amountsForLiquidity } from '../../utils/price-math';
+import type { CollectFeesParams, LiquidityPosition } from '../../services/liquidity-manager';
+import type { SwapExecutor, SwapRequest } from '../../trading/execution/swap-executor';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const mockPolicyRepository = {
+  find: jest.fn(),
+  save: jest.fn(),
+  delete: jest.fn()
+};
+jest.mock('../../config/database', () => ({
+  getCompoundPolicyRepository: jest.fn(async () => mockPolicyRepository)
+}));
+
+const mockQuoteExactInput = jest.fn();
+jest.mock('../../utils/quote-api', () => ({
+  createQuoteWrapper: () => ({ quoteExactInput: mockQuoteExactInput })
+}));
+
+const GALA = 'GALA|Unit|none|none';
+const GUSDC = 'GUSDC|Unit|none|none';
+const PRICE = 0.02;
+
+function makePosition(overrides: Partial<LiquidityPosition> = {}): LiquidityPosition {
+  return {
+    id: 'pos-1',
+    token0: GALA,
+    token1: GUSDC,
+    fee: 3000,
+    tickLower: 0,
+    tickUpper: 0,
+    minPrice: 0.015,
+    maxPrice: 0.025,
+    liquidity: '1000',
+    amount0: '1000',
+    amount1: '20',
+    uncollectedFees0: '1000',
+    uncollectedFees1: '0',
+    inRange: true,
+    createdAt: 0,
+    lastUpdate: 0,
+    ...overrides
+  };
+}
+
+describe('planCompoundSwap', () => {
+  it('should swap the excess token so the remainder matches the range ratio', () => {
+    const plan = planCompoundSwap(1000, 0, PRICE, 0.015, 0.025)!;
+    expect(plan.zeroForOne).toBe(true);
+
+    const unit = amountsForLiquidity(Math.sqrt(PRICE), Math.sqrt(0.015), Math.sqrt(0.025), 1);
+    const amount0 = 1000 - plan.amountIn;
+    const amount1 = plan.amountIn * PRICE;
+    expect(amount1 / amount0).toBeCloseTo(unit.amount1 / unit.amount0, 10);
+  });
+
+  it('should swap token1 into token0 below the range and skip swaps that are already balanced', () => {
+    expect(planCompoundSwap(0, 20, 0.01, 0.015, 0.025)).toEqual({ zeroForOne: false, amountIn: 20 });
+    expect(planCompoundSwap(1000, 0, 0.01, 0.015, 0.025)).toBeNull();
+    expect(planCompoundSwap(0, 0, PRICE, 0.015, 0.025)).toBeNull();
+  });
+});
+
+describe('FeeCompounder', () => {
+  let position: LiquidityPosition;
+  let liquidityManager: jest.Mocked<CompounderLiquidityManager>;
+  let executeSwap: jest.Mock;
+  let recordCompounding: jest.Mock;
+  let compounder: FeeCompounder;
+  const estimateGas = jest.fn(async () => 0.5);
+
+  beforeEach(() => {
+    position = makePosition();
+    mockQuoteExactInput.mockReset();
+    mockPolicyRepository.find.mockReset().mockResolvedValue([]);
+    mockPolicyRepository.save.mockReset().mockResolvedValue(undefined);
+    mockPolicyRepository.delete.mockReset().mockResolvedValue(undefined);
+    mockQuoteExactInput.mockImplementation(async () => ({ outTokenAmount: String(PRICE) }));
+    liquidityManager = {
+      getPosition: jest.fn<LiquidityPosition | null, [string]>(() => position),
+      collectFees: jest.fn<Promise<{ amount0: string; amount1: string }>, [CollectFeesParams]>(async () => ({ amount0: position.uncollectedFees0, amount1: position.uncollectedFees1 })),
+      increaseLiquidity: jest.fn(async params => ({ liquidity: '0', amount0: params.amount0Desired, amount1: params.amount1Desired }))
+    };
+    executeSwap = jest.fn(async (request: SwapRequest) => ({
+      success: true,
+      transactionId: 'tx-1',
+      amountOut: String(Number(request.amountIn) * PRICE),
+      executionTime: 0
+    }));
+    recordCompounding = jest.fn();
+    compounder = new FeeCompounder(
+      liquidityManager,
+      { executeSwap } as unknown as Pick<SwapExecutor, 'executeSwap'>,
+      { recordCompounding },
+      'eth|compounder',
+      { enabled: true },
+      estimateGas
+    );
+  });
+
+  it('should collect, swap to the range ratio and add the fees back to the position', async () => {
+    const result = await compounder.compound('pos-1');
+    const plan = planCompoundSwap(1000, 0, PRICE, 0.015, 0.025)!;
+
+    expect(result).toMatchObject({ status: 'compounded', feesUSD: 20, gasCostUSD: 1.5 });
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({
+      strategy: 'fee-compounding',
+      tokenIn: GALA,
+      tokenOut: GUSDC,
+      amountIn: plan.amountIn.toString(),
+      userAddress: 'eth|compounder'
+    }));
+    expect(liquidityManager.increaseLiquidity).toHaveBeenCalledWith(expect.objectContaining({
+      positionId: 'pos-1',
+      amount0Desired: (1000 - plan.amountIn).toString(),
+      amount1Desired: (plan.amountIn * PRICE).toString()
+    }));
+
+    expect(recordCompounding).toHaveBeenCalledTimes(1);
+    const [event] = recordCompounding.mock.calls[0];
+    expect(event).toMatchObject({ positionId: 'pos-1', gasCostUSD: 1.5 });
+    expect(event.valueUSD).toBeCloseTo(20, 8);
+    expect(compounder.getHistory('pos-1')).toEqual([result]);
+  });
+
+  it('should skip positions without the policy enabled or whose fees do not clear gas', async () => {
+    compounder.setPolicy('pos-1', { enabled: false });
+    expect(await compounder.compound('pos-1')).toMatchObject({ status: 'skipped' });
+
+    compounder.setPolicy('pos-1', { enabled: true });
+    position = makePosition({ uncollectedFees0: '100' }); // $2 of fees against $1.50 of gas
+    const result = await compounder.compound('pos-1');
+
+    expect(result.status).toBe('skipped');
+    expect(result.reason).toContain('do not cover gas');
+    expect(liquidityManager.collectFees).not.toHaveBeenCalled();
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+
+  it('should leave the fees collected in the wallet when the ratio swap fails', async () => {
+    executeSwap.mockResolvedValueOnce({ success: false, error: 'slippage', executionTime: 0 });
+
+    const result = await compounder.compound('pos-1');
+
+    expect(result).toMatchObject({ status: 'collected_only', gasCostUSD: 0.5, collected: { amount0: '1000', amount1: '0' } });
+    expect(result.reason).toContain('slippage');
+    expect(liquidityManager.increaseLiquidity).not.toHaveBeenCalled();
+    expect(recordCompounding).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to collect-only when adding liquidity fails', async () => {
+    liquidityManager.increaseLiquidity.mockRejectedValueOnce(new Error('pool paused'));
+
+    const result = await compounder.compound('pos-1');
+
+    expect(result.status).toBe('collected_only');
+    expect(result.swap).toMatchObject({ tokenIn: GALA, transactionId: 'tx-1' });
+    expect(result.reason).toContain('pool paused');
+    expect(recordCompounding).not.toHaveBeenCalled();
+  });
+
+  it('should restore stored policies on open and persist changes made after it', async () => {
+    compounder.setPolicy('pos-2', { enabled: false }); // Set before the database is attached
+    mockPolicyRepository.find.mockResolvedValue([
+      { walletAddress: 'eth|compounder', positionId: 'pos-1', policy: { enabled: false, minNetProfitUSD: 3 } }
+    ]);
+
+    await compounder.open();
+    expect(mockPolicyRepository.find).toHaveBeenCalledWith({ where: { walletAddress: 'eth|compounder' } });
+    expect(compounder.getPolicy('pos-1')).toMatchObject({ enabled: false, minNetProfitUSD: 3, maxGasRatio: 0.5 });
+
+    expect(compounder.setPolicy('pos-1', { enabled: true })).toMatchObject({ enabled: true, minNetProfitUSD: 3 });
+    compounder.clearPolicy('pos-2');
+    await compounder.flush();
+
+    expect(mockPolicyRepository.save.mock.calls.map(([record]) => record)).toEqual([
+      expect.objectContaining({ positionId: 'pos-2', policy: { enabled: false } }),
+      expect.objectContaining({ walletAddress: 'eth|compounder', positionId: 'pos-1', policy: { enabled: true, minNetProfitUSD: 3 } })
+    ]);
+    expect(mockPolicyRepository.delete).toHaveBeenCalledWith({ walletAddress: 'eth|compounder', positionId: 'pos-2' });
+  });
+});
@@ -33,6 +33,9 @@ describe('LiquidityManager', () => {
         removeLiquidity: jest.fn(),
         collectPositionFees: jest.fn(),
         getPosition: jest.fn(),
+      },
+      positions: {
+        addLiquidityByTicks: jest.fn(),
       }
     };
 
@@ -172,6 +175,66 @@ describe('LiquidityManager', () => {
     });
   });
 
+  describe('increaseLiquidity', () => {
+    const mockPosition = () => ({
+      id: 'lp_test123',
+      token0: TRADING_CONSTANTS.TOKENS.GALA,
+      token1: TRADING_CONSTANTS.TOKENS.GUSDC,
+      fee: TRADING_CONSTANTS.FEE_TIERS.STANDARD,
+      tickLower: -1000,
+      tickUpper: 1000,
+      minPrice: 0.045,
+      maxPrice: 0.055,
+      liquidity: '1000000',
+      amount0: '1000',
+      amount1: '50',
+      uncollectedFees0: '0',
+      uncollectedFees1: '0',
+      inRange: true,
+      createdAt: Date.now(),
+      lastUpdate: Date.now()
+    });
+
+    it('should add to the existing position through the SDK and record what the chain pulled', async () => {
+      liquidityManager['positions'].set('lp_test123', mockPosition());
+      mockGSwap.positions.addLiquidityByTicks.mockResolvedValue({
+        wait: jest.fn().mockResolvedValue({ txId: 'tx-1', Data: { liquidity: '2000', amounts: ['99', '4.9'] } })
+      });
+
+      const result = await liquidityManager.increaseLiquidity({
+        positionId: 'lp_test123',
+        amount0Desired: '100',
+        amount1Desired: '5',
+        slippageTolerance: 0.01
+      });
+
+      expect(mockGSwap.positions.addLiquidityByTicks).toHaveBeenCalledWith(expect.objectContaining({
+        walletAddress: 'eth|test-wallet-address',
+        positionId: 'lp_test123',
+        tickLower: -1000,
+        tickUpper: 1000,
+        amount0Desired: '100',
+        amount1Desired: '5',
+        amount0Min: '99',
+        amount1Min: '4.95'
+      }));
+      expect(result).toEqual({ liquidity: '2000', amount0: '99', amount1: '4.9' });
+      expect(liquidityManager.getPosition('lp_test123')).toMatchObject({ liquidity: '1002000', amount0: '1099', amount1: '54.9' });
+    });
+
+    it('should fail rather than report success when the SDK rejects the addition', async () => {
+      liquidityManager['positions'].set('lp_test123', mockPosition());
+      mockGSwap.positions.addLiquidityByTicks.mockRejectedValue(new Error('insufficient balance'));
+
+      await expect(liquidityManager.increaseLiquidity({
+        positionId: 'lp_test123',
+        amount0Desired: '100',
+        amount1Desired: '5'
+      })).rejects.toThrow('insufficient balance');
+      expect(liquidityManager.getPosition('lp_test123')).toMatchObject({ liquidity: '1000000', amount0: '1000' });
+    });
+  });
+
   describe('collectFees', () => {
     const mockParams = {
       positionId: 'lp_test123'
@@ -0,0 +1,208 @@
+/**
+ * Position Restructurer Tests
+ * Splitting positions into ladders and merging adjacent ranges, with rollback on partial failure
+ */
+
+import { PositionRestructurer, RestructureError, RestructureLiquidityManager, buildLadderRanges } from '../../services/position-restructurer';
+import type { AddLiquidityParams, LiquidityPosition } from '../../services/liquidity-manager';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const GALA = 'GALA|Unit|none|none';
+const GUSDC = 'GUSDC|Unit|none|none';
+
+function makePosition(id: string, minPrice: number, maxPrice: number, overrides: Partial<LiquidityPosition> = {}): LiquidityPosition {
+  return {
+    id,
+    token0: GALA,
+    token1: GUSDC,
+    fee: 3000,
+    tickLower: 0,
+    tickUpper: 0,
+    minPrice,
+    maxPrice,
+    liquidity: '1000',
+    amount0: '1000',
+    amount1: '20',
+    uncollectedFees0: '0',
+    uncollectedFees1: '0',
+    inRange: true,
+    createdAt: 0,
+    lastUpdate: 0,
+    ...overrides
+  };
+}
+
+/**
+ * In-memory liquidity manager: removing returns the position's amounts, adding opens a new position
+ */
+class FakeLiquidityManager implements RestructureLiquidityManager {
+  positions = new Map<string, LiquidityPosition>();
+  added: AddLiquidityParams[] = [];
+  failAddAt?: number; // Index of the add call that throws
+  failRemove = new Set<string>();
+  private nextId = 1;
+
+  constructor(positions: LiquidityPosition[]) {
+    positions.forEach(p => this.positions.set(p.id, p));
+  }
+
+  getPosition(positionId: string): LiquidityPosition | null {
+    return this.positions.get(positionId) ?? null;
+  }
+
+  collectFees = jest.fn(async ({ positionId }: { positionId: string }) => {
+    const position = this.positions.get(positionId)!;
+    return { amount0: position.uncollectedFees0, amount1: position.uncollectedFees1 };
+  });
+
+  removeLiquidity = jest.fn(async ({ positionId }: { positionId: string }) => {
+    const position = this.positions.get(positionId);
+    if (!position || this.failRemove.has(positionId)) throw new Error(`remove failed: ${positionId}`);
+    this.positions.delete(positionId);
+    return { amount0: position.amount0, amount1: position.amount1 };
+  });
+
+  addLiquidityByPrice = jest.fn(async (params: AddLiquidityParams) => {
+    if (this.failAddAt === this.added.length) {
+      this.failAddAt = undefined;
+      throw new Error('add failed');
+    }
+    this.added.push(params);
+    const id = `new-${this.nextId++}`;
+    this.positions.set(id, makePosition(id, params.minPrice, params.maxPrice, { amount0: params.amount0Desired, amount1: params.amount1Desired }));
+    return id;
+  });
+}
+
+describe('PositionRestructurer', () => {
+  const gas = { addLiquidity: 3, removeLiquidity: 2, collectFees: 1 };
+  const estimateGas = jest.fn(async (operation: keyof typeof gas) => gas[operation]);
+
+  it('should split a position across ranges by allocation', async () => {
+    const manager = new FakeLiquidityManager([makePosition('pos-1', 0.015, 0.025, { uncollectedFees0: '5' })]);
+    const restructurer = new PositionRestructurer(manager, estimateGas);
+    const ranges = [{ min: 0.015, max: 0.02, allocation: 0.25 }, { min: 0.02, max: 0.025, allocation: 0.75 }];
+
+    expect(await restructurer.estimateSplitCost('pos-1', ranges)).toBe(1 + 2 + 3 * 2);
+
+    const result = await restructurer.split('pos-1', ranges, 0.005);
+
+    expect(result.createdPositionIds).toEqual(['new-1', 'new-2']);
+    expect(result.steps.map(s => s.type)).toEqual(['collect', 'remove', 'add', 'add']);
+    expect(result.gasCostUSD).toBe(9);
+    expect(manager.added.map(a => [a.minPrice, a.maxPrice, Number(a.amount0Desired), Number(a.amount1Desired)]))
+      .toEqual([[0.015, 0.02, 250, 5], [0.02, 0.025, 750, 15]]);
+    expect(manager.removeLiquidity).toHaveBeenCalledWith(expect.objectContaining({ positionId: 'pos-1', slippageTolerance: 0.005 }));
+    expect(manager.positions.has('pos-1')).toBe(false);
+  });
+
+  it('should remove created ranges and restore the original when a split fails part way', async () => {
+    const manager = new FakeLiquidityManager([makePosition('pos-1', 0.015, 0.025)]);
+    manager.failAddAt = 2; // Third range fails
+    const restructurer = new PositionRestructurer(manager, estimateGas);
+
+    const error = await restructurer.split('pos-1', buildLadderRanges(0.015, 0.025, 3)).catch(e => e);
+
+    expect(error).toBeInstanceOf(RestructureError);
+    expect(error.rolledBack).toBe(true);
+    expect(error.steps.map((s: { type: string; success: boolean }) => `${s.type}:${s.success}`)).toEqual([
+      'remove:true', 'add:true', 'add:true', 'add:false', 'rollback_remove:true', 'rollback_remove:true', 'rollback_add:true'
+    ]);
+    expect(error.restoredPositionIds).toEqual(['new-3']);
+
+    // Only the restored position is left, at the original range with the original tokens
+    expect([...manager.positions.values()]).toEqual([
+      expect.objectContaining({ id: 'new-3', minPrice: 0.015, maxPrice: 0.025 })
+    ]);
+    expect(Number(manager.positions.get('new-3')!.amount0)).toBeCloseTo(1000, 8);
+    expect(error.gasCostUSD).toBe(2 + 3 * 2 + 2 * 2 + 3);
+  });
+
+  it('should not redeploy a withdrawal that returned no tokens', async () => {
+    const manager = new FakeLiquidityManager([makePosition('pos-1', 0.015, 0.025, { amount0: '0', amount1: '0' })]);
+    const restructurer = new PositionRestructurer(manager, estimateGas);
+
+    const error = await restructurer.split('pos-1', buildLadderRanges(0.015, 0.025, 2)).catch(e => e);
+
+    expect(error).toBeInstanceOf(RestructureError);
+    expect(error.message).toContain('Removing liquidity from pos-1 returned no tokens');
+    expect(error.rolledBack).toBe(false);
+    expect(error.steps.map((s: { type: string; success: boolean }) => `${s.type}:${s.success}`)).toEqual(['remove:false']);
+    expect(manager.addLiquidityByPrice).not.toHaveBeenCalled();
+  });
+
+  it('should merge adjacent positions into one range covering them all', async () => {
+    const manager = new FakeLiquidityManager([
+      makePosition('pos-2', 0.02, 0.025, { amount0: '500', amount1: '10' }),
+      makePosition('pos-1', 0.015, 0.02, { amount0: '300', amount1: '6', uncollectedFees1: '0.5' })
+    ]);
+    const restructurer = new PositionRestructurer(manager, estimateGas);
+
+    expect(await restructurer.estimateMergeCost(['pos-1', 'pos-2'])).toBe(1 + 2 * 2 + 3);
+
+    const result = await restructurer.merge(['pos-1', 'pos-2']);
+
+    expect(result.sourcePositionIds).toEqual(['pos-1', 'pos-2']);
+    expect(result.createdPositionIds).toEqual(['new-1']);
+    expect(manager.added).toEqual([expect.objectContaining({ minPrice: 0.015, maxPrice: 0.025, amount0Desired: '800', amount1Desired: '16', fee: 3000 })]);
+    expect([...manager.positions.keys()]).toEqual(['new-1']);
+  });
+
+  it('should restore withdrawn positions when a merge fails', async () => {
+    const manager = new FakeLiquidityManager([makePosition('pos-1', 0.015, 0.02), makePosition('pos-2', 0.02, 0.025)]);
+    manager.failRemove.add('pos-2');
+    const restructurer = new PositionRestructurer(manager, estimateGas);
+
+    const error = await restructurer.merge(['pos-1', 'pos-2']).catch(e => e);
+
+    expect(error).toBeInstanceOf(RestructureError);
+    expect(error.rolledBack).toBe(true);
+    expect(error.steps.map((s: { type: string }) => s.type)).toEqual(['remove', 'remove', 'rollback_add']);
+    expect(manager.added).toEqual([expect.objectContaining({ minPrice: 0.015, maxPrice: 0.02, amount0Desired: '1000' })]);
+    expect(manager.positions.has('pos-2')).toBe(true);
+  });
+
+  it('should reject invalid splits and merges before touching any position', async () => {
+    const manager = new FakeLiquidityManager([
+      makePosition('pos-1', 0.015, 0.02),
+      makePosition('pos-2', 0.03, 0.04),
+      makePosition('pos-3', 0.02, 0.025, { fee: 10000 })
+    ]);
+    const restructurer = new PositionRestructurer(manager, estimateGas);
+
+    await expect(restructurer.split('pos-1', [{ min: 0.015, max: 0.02, allocation: 0.5 }, { min: 0.02, max: 0.025, allocation: 0.4 }]))
+      .rejects.toThrow('Split allocations add up to 0.9');
+    await expect(restructurer.merge(['pos-1', 'pos-2'])).rejects.toThrow('Positions are not adjacent');
+    await expect(restructurer.merge(['pos-1', 'pos-3'])).rejects.toThrow('Only positions in the same pool can be merged');
+    await expect(restructurer.merge(['pos-1', 'missing'])).rejects.toThrow('Position not found: missing');
+
+    expect(manager.removeLiquidity).not.toHaveBeenCalled();
+  });
+});
+
+describe('buildLadderRanges', () => {
+  it('should cover the range with contiguous rungs of equal percentage width', () => {
+    const ladder = buildLadderRanges(0.01, 0.04, 4);
+
+    expect(ladder[0].min).toBe(0.01);
+    expect(ladder[3].max).toBe(0.04);
+    ladder.slice(1).forEach((rung, i) => expect(rung.min).toBe(ladder[i].max));
+    ladder.forEach(rung => expect(rung.max / rung.min).toBeCloseTo(Math.SQRT2, 10));
+    ladder.forEach(rung => expect(rung.allocation).toBe(0.25));
+  });
+
+  it('should weight the middle rungs more with center weighting', () => {
+    const allocations = buildLadderRanges(0.01, 0.04, 5, 'center').map(r => r.allocation);
+
+    expect(allocations).toEqual([1, 2, 3, 2, 1].map(w => w / 9));
+    expect(() => buildLadderRanges(0.04, 0.01, 3)).toThrow();
+  });
+});
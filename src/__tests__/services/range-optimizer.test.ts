@@ -0,0 +1,135 @@
+/**
+ * Range Optimizer Tests
+ * Choosing liquidity ranges from realized volatility, pool volume and fee tier
+ */
+
+import { RangeOptimizer, RangeOptimizationError, RangeMarketInputs } from '../../services/range-optimizer';
+import { TimeSeriesDB } from '../../data/storage/timeseries-db';
+import { PriceOHLCV } from '../../entities/analytics';
+import type { VolumeGraphClient } from '../../api/volume-graph-client';
+import type { PoolData } from '../../services/pool-discovery';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+jest.mock('../../config/database', () => ({
+  getDataSource: jest.fn()
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+function candle(token: string, intervalStart: number, close: number): PriceOHLCV {
+  const stored = new PriceOHLCV();
+  stored.token = token;
+  stored.interval_start = String(intervalStart) as unknown as number; // bigint columns come back as strings
+  stored.interval_type = '1h';
+  stored.setOpenPrice(close);
+  stored.setHighPrice(close);
+  stored.setLowPrice(close);
+  stored.setClosePrice(close);
+  stored.setVolume(0);
+  return stored;
+}
+
+const pools = [
+  { poolHash: 'pool-gala-gusdc-1', token0: 'GALA', token1: 'GUSDC', fee: '1', tvl: 80_000, volume1d: 5_000 },
+  { poolHash: 'pool-gala-gusdc-03', token0: 'GALA', token1: 'GUSDC', fee: '0.3', tvl: 200_000, volume1d: 40_000 }
+] as PoolData[];
+
+const request = { token0: 'GALA|Unit|none|none', token1: 'GUSDC|Unit|none|none', fee: 3000, currentPrice: 0.02, capitalUSD: 1000 };
+
+const market = (overrides: Partial<RangeMarketInputs> = {}): RangeMarketInputs => ({
+  dailyVolatility: 0.05,
+  volatilitySamples: 71,
+  dailyVolumeUSD: 100_000,
+  tvlUSD: 200_000,
+  ...overrides
+});
+
+describe('RangeOptimizer', () => {
+  let db: { getOHLCV: jest.Mock };
+  let volumeGraph: { getVolumeData: jest.Mock };
+  let optimizer: RangeOptimizer;
+
+  beforeEach(() => {
+    db = { getOHLCV: jest.fn(async () => []) };
+    volumeGraph = { getVolumeData: jest.fn(async () => []) };
+    optimizer = new RangeOptimizer({}, db as unknown as TimeSeriesDB, volumeGraph as unknown as VolumeGraphClient, async () => pools);
+  });
+
+  it('should return tick-aligned bounds around the current price', () => {
+    const range = optimizer.selectRange(request, market());
+
+    expect(range.tickSpacing).toBe(60);
+    expect(Math.abs(range.tickLower % 60)).toBe(0);
+    expect(Math.abs(range.tickUpper % 60)).toBe(0);
+    expect(range.minPrice).toBeLessThan(request.currentPrice);
+    expect(range.maxPrice).toBeGreaterThan(request.currentPrice);
+    expect(range.score).toBeCloseTo(range.expectedFees - range.expectedDivergenceLoss - range.expectedRebalanceCost, 10);
+    expect(range.candidatesEvaluated).toBeGreaterThan(10);
+  });
+
+  it('should widen the range as volatility rises and narrow it as volume rises', () => {
+    const calm = optimizer.selectRange(request, market({ dailyVolatility: 0.02 }));
+    const volatile = optimizer.selectRange(request, market({ dailyVolatility: 0.15 }));
+    const busy = optimizer.selectRange(request, market({ dailyVolatility: 0.15, dailyVolumeUSD: 1_000_000 }));
+
+    expect(volatile.tickUpper - volatile.tickLower).toBeGreaterThan(calm.tickUpper - calm.tickLower);
+    expect(busy.tickUpper - busy.tickLower).toBeLessThan(volatile.tickUpper - volatile.tickLower);
+
+    // A range sized for calm markets spends much less time in range once volatility rises
+    const stale = optimizer.evaluateRange(request, market({ dailyVolatility: 0.15 }), calm.tickLower, calm.tickUpper);
+    expect(stale.timeInRange).toBeLessThan(volatile.timeInRange);
+    expect(stale.score).toBeLessThan(volatile.score);
+  });
+
+  it('should charge a narrow range more divergence loss and exits than a wide one', () => {
+    const narrow = optimizer.evaluateRange(request, market(), -39180, -39060);
+    const wide = optimizer.evaluateRange(request, market(), -46200, -32160);
+
+    expect(narrow.capitalEfficiency).toBeGreaterThan(wide.capitalEfficiency);
+    expect(narrow.exitProbability).toBeGreaterThan(0.9);
+    expect(wide.exitProbability).toBeLessThan(0.01);
+    expect(narrow.expectedDivergenceLoss).toBeGreaterThan(wide.expectedDivergenceLoss);
+    expect(wide.timeInRange).toBeCloseTo(1, 3);
+  });
+
+  it('should derive volatility from pair candles and volume from the matching fee tier pool', async () => {
+    const start = Date.now() - 48 * HOUR;
+    db.getOHLCV.mockImplementation(async (token: string) => token === 'GALA'
+      ? Array.from({ length: 48 }, (_, i) => candle('GALA', start + i * HOUR, 0.02 * Math.exp(i % 2 === 0 ? 0 : 0.01)))
+      : []);
+    volumeGraph.getVolumeData.mockResolvedValue(
+      Array.from({ length: 72 }, (_, i) => ({ startTime: 1000 + i * 3600, endTime: 1000 + (i + 1) * 3600, midTime: 0, volume: 1000 })));
+
+    const inputs = await optimizer.getMarketInputs(request);
+
+    expect(db.getOHLCV).toHaveBeenCalledWith('GALA', expect.objectContaining({ intervalType: '1h', orderBy: 'ASC' }));
+    expect(volumeGraph.getVolumeData).toHaveBeenCalledWith('pool-gala-gusdc-03', '1h', expect.any(Object));
+    expect(inputs).toMatchObject({ poolHash: 'pool-gala-gusdc-03', tvlUSD: 200_000, volatilitySamples: 47 });
+    expect(inputs.dailyVolumeUSD).toBeCloseTo(24_000, 6); // 72 hourly buckets of 1000 over 3 days
+
+    // Returns alternate +-1%: the hourly standard deviation is just over 1%, scaled by sqrt(24)
+    expect(inputs.dailyVolatility).toBeGreaterThan(0.01 * Math.sqrt(24));
+    expect(inputs.dailyVolatility).toBeLessThan(0.0102 * Math.sqrt(24));
+  });
+
+  it('should fall back to reported volume and default volatility without history', async () => {
+    volumeGraph.getVolumeData.mockRejectedValue(new Error('503 Service Unavailable'));
+
+    const inputs = await optimizer.getMarketInputs({ ...request, fee: 10000 });
+
+    expect(inputs).toMatchObject({ poolHash: 'pool-gala-gusdc-1', dailyVolumeUSD: 5_000, dailyVolatility: 0.05, volatilitySamples: 0 });
+  });
+
+  it('should reject pairs without a pool at the requested fee tier', async () => {
+    await expect(optimizer.optimize({ ...request, fee: 500 })).rejects.toThrow(RangeOptimizationError);
+    expect(() => optimizer.selectRange({ ...request, capitalUSD: 0 }, market())).toThrow('Current price and capital must be positive');
+  });
+});
@@ -3,7 +3,7 @@
  * Testing limit order functionality using concentrated liquidity
  */
 
-import { RangeOrderStrategy, RangeOrderConfig } from '../../strategies/range-order-strategy';
+import { RangeOrderStrategy, RangeOrderConfig, rangeOrderFill } from '../../strategies/range-order-strategy';
 import { LiquidityManager, LiquidityPosition } from '../../services/liquidity-manager';
 import { TRADING_CONSTANTS } from '../../config/constants';
 
@@ -342,21 +342,30 @@ describe('RangeOrderStrategy', () => {
         amount1: '0'
       });
 
+      // At the target the range is only half crossed, so the order stays open
+      await rangeOrderStrategy.updateOrderStatuses();
+
+      expect(rangeOrderStrategy.getOrderStatus(orderId)?.status).toBe('active');
+      expect(mockLiquidityManager.removeLiquidity).not.toHaveBeenCalled();
+
+      // Past the top of the range it has fully converted
+      mockLiquidityManager.calculateSpotPrice.mockReturnValue(0.057);
       await rangeOrderStrategy.updateOrderStatuses();
 
       const order = rangeOrderStrategy.getOrderStatus(orderId);
       expect(order?.status).toBe('filled');
-      expect(order?.executionPrice).toBe(0.055);
+      expect(order?.fillPercentage).toBe(100);
+      expect(order?.executionPrice).toBe(0.057);
       expect(order?.amountFilled).toBe('1000');
     });
 
     it('should handle execution errors gracefully', async () => {
-      // Mock getCurrentPrice to return target price
+      // Mock getCurrentPrice to return a price past the range
       mockQuoteExactInput.mockResolvedValue({
-        outTokenAmount: '0.055',
+        outTokenAmount: '0.057',
         currentPoolSqrtPrice: '1000000000000000000'
       });
-      mockLiquidityManager.calculateSpotPrice.mockReturnValue(0.055);
+      mockLiquidityManager.calculateSpotPrice.mockReturnValue(0.057);
 
       // Mock execution failing
       mockLiquidityManager.collectFees.mockRejectedValue(new Error('Network error'));
@@ -498,6 +507,116 @@ describe('RangeOrderStrategy', () => {
     });
   });
 
+  describe('Time in Force and Partial Fills', () => {
+    const baseConfig: RangeOrderConfig = {
+      token0: TRADING_CONSTANTS.TOKENS.GALA,
+      token1: TRADING_CONSTANTS.TOKENS.GUSDC,
+      fee: TRADING_CONSTANTS.FEE_TIERS.STANDARD,
+      direction: 'buy',
+      amount: '1000',
+      targetPrice: 0.055,
+      rangeWidth: 0.1,
+      autoExecute: true
+    };
+
+    const setPrice = (price: number) => {
+      mockLiquidityManager.calculateSpotPrice.mockReturnValue(price);
+    };
+
+    beforeEach(() => {
+      mockLiquidityManager.addLiquidityByPrice.mockResolvedValue('lp_ttl');
+      mockLiquidityManager.getPosition.mockReturnValue({
+        id: 'lp_ttl',
+        token0: 'GALA$Unit$none$none',
+        token1: 'GUSDC$Unit$none$none',
+        fee: 3000,
+        tickLower: 100,
+        tickUpper: 200,
+        minPrice: 0.054,
+        maxPrice: 0.056,
+        liquidity: '1000000',
+        amount0: '1000',
+        amount1: '0',
+        uncollectedFees0: '0',
+        uncollectedFees1: '0',
+        inRange: false,
+        createdAt: Date.now(),
+        lastUpdate: Date.now()
+      });
+      setPrice(0.05);
+    });
+
+    it('should reject IOC/FOK and GTT orders without a future expiry', async () => {
+      const ioc = await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, timeInForce: 'IOC' });
+      const gtt = await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, timeInForce: 'GTT', expiresAt: Date.now() - 1000 });
+
+      expect(ioc.error).toContain('not supported for range orders');
+      expect(gtt.error).toBe('GTT orders need an expiry in the future');
+      expect(mockLiquidityManager.addLiquidityByPrice).not.toHaveBeenCalled();
+    });
+
+    it('should track partial fills without withdrawing', async () => {
+      const { orderId } = await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, autoExecute: true, targetPrice: 0.0555 });
+
+      setPrice(0.0545);
+      await rangeOrderStrategy.updateOrderStatuses();
+
+      const order = rangeOrderStrategy.getOrderStatus(orderId!)!;
+      expect(order.status).toBe('active');
+      expect(order.fillPercentage).toBeGreaterThan(20);
+      expect(order.fillPercentage).toBeLessThan(30);
+      expect(order.lastPrice).toBe(0.0545);
+      expect(rangeOrderStrategy.getStatistics().partiallyFilledOrders).toBe(1);
+      expect(mockLiquidityManager.removeLiquidity).not.toHaveBeenCalled();
+    });
+
+    it('should withdraw automatically once the price has crossed the whole range', async () => {
+      const { orderId } = await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, targetPrice: 0.0555 });
+      mockLiquidityManager.removeLiquidity.mockResolvedValue({ amount0: '0', amount1: '55' });
+
+      setPrice(0.057);
+      await rangeOrderStrategy.updateOrderStatuses();
+
+      const order = rangeOrderStrategy.getOrderStatus(orderId!)!;
+      expect(order.status).toBe('filled');
+      expect(order.fillPercentage).toBe(100);
+      expect(mockLiquidityManager.collectFees).toHaveBeenCalledWith({ positionId: 'lp_ttl' });
+      expect(mockLiquidityManager.removeLiquidity).toHaveBeenCalledWith(expect.objectContaining({ positionId: 'lp_ttl' }));
+    });
+
+    it('should withdraw GTT orders at expiry keeping the partial fill', async () => {
+      const expiresAt = Date.now() + 60_000;
+      const { orderId } = await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, timeInForce: 'GTT', expiresAt, targetPrice: 0.0555 });
+
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(expiresAt + 1);
+      try {
+        setPrice(0.0545);
+        await rangeOrderStrategy.updateOrderStatuses();
+      } finally {
+        nowSpy.mockRestore();
+      }
+
+      const order = rangeOrderStrategy.getOrderStatus(orderId!)!;
+      expect(order.status).toBe('expired');
+      expect(order.expiredAt).toBe(expiresAt + 1);
+      expect(order.fillPercentage).toBeGreaterThan(0);
+      expect(mockLiquidityManager.removeLiquidity).toHaveBeenCalledTimes(1);
+      expect(rangeOrderStrategy.getStatistics().expiredOrders).toBe(1);
+    });
+
+    it('should list active orders as a book sorted by target price', async () => {
+      await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, targetPrice: 0.055 });
+      await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, direction: 'sell', targetPrice: 0.045 });
+      await rangeOrderStrategy.placeRangeOrder({ ...baseConfig, targetPrice: 0.06, timeInForce: 'GTT', expiresAt: Date.now() + 60_000 });
+
+      const book = rangeOrderStrategy.getOrderBook();
+
+      expect(book.map(entry => entry.targetPrice)).toEqual([0.06, 0.055, 0.045]);
+      expect(book[0]).toMatchObject({ pair: 'GALA/GUSDC', direction: 'buy', timeInForce: 'GTT', fillPercentage: 0, lastPrice: 0.05 });
+      expect(book[2]).toMatchObject({ direction: 'sell', timeInForce: 'GTC' });
+    });
+  });
+
   describe('Cleanup Operations', () => {
     it('should clean up old orders', async () => {
       // Place orders and manipulate timestamps
@@ -555,4 +674,18 @@ describe('RangeOrderStrategy', () => {
       expect(finalCount).toBeLessThan(initialCount);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('rangeOrderFill', () => {
+  it('should fill buy orders as the price rises through the range', () => {
+    expect(rangeOrderFill('buy', 0.054, 0.056, 0.05)).toBe(0);
+    expect(rangeOrderFill('buy', 0.054, 0.056, 0.055)).toBeCloseTo(0.5, 1);
+    expect(rangeOrderFill('buy', 0.054, 0.056, 0.06)).toBe(1);
+  });
+
+  it('should fill sell orders as the price falls through the range', () => {
+    expect(rangeOrderFill('sell', 0.044, 0.046, 0.05)).toBe(0);
+    expect(rangeOrderFill('sell', 0.044, 0.046, 0.0445)).toBeGreaterThan(0.7);
+    expect(rangeOrderFill('sell', 0.044, 0.046, 0.04)).toBe(1);
+  });
+});
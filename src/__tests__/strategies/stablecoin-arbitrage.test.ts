@@ -54,7 +54,13 @@ const createMockSwapExecutor = () => ({
   executeSwap: jest.fn(),
   monitorTransaction: jest.fn(),
   batchExecuteSwaps: jest.fn(),
-  getExecutionStats: jest.fn()
+  getExecutionStats: jest.fn(),
+  getArbitrageRecovery: jest.fn(() => ({
+    beginAttempt: jest.fn(() => 'attempt-1'),
+    recordHop: jest.fn(),
+    completeAttempt: jest.fn(),
+    failAttempt: jest.fn().mockResolvedValue(undefined)
+  }))
 }) as unknown as jest.Mocked<SwapExecutor>;
 
 const createMockMarketAnalysis = () => ({
@@ -0,0 +1,277 @@
+/**
+ * Strategy Registry Tests
+ * Definition registration, external module loading, parameter validation and orchestrator wiring
+ */
+
+import {
+  StrategyRegistry,
+  StrategyRegistryError,
+  createDefaultStrategyRegistry
+} from '../../trading/strategies/strategy-registry';
+import { StrategyOrchestrator } from '../../trading/strategies/strategy-orchestrator';
+import { StrategyDefinition, TradingStrategy } from '../../trading/strategies/trading-strategy';
+import { GSwap } from '../../services/gswap-simple';
+import { TradingConfig } from '../../config/environment';
+import { SwapExecutor } from '../../trading/execution/swap-executor';
+import { MarketAnalysis } from '../../monitoring/market-analysis';
+import { VolumeAnalyzer } from '../../monitoring/volume-analyzer';
+import { RiskMonitor } from '../../trading/risk/risk-monitor';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+// Built-ins pull in every strategy module; the registry behaviour is tested with test definitions
+jest.mock('../../trading/strategies/builtin-strategies', () => ({
+  BUILTIN_STRATEGIES: [
+    {
+      id: 'builtin-test',
+      configSchema: {
+        defaults: {
+          name: 'Builtin Test',
+          enabled: true,
+          priority: 5,
+          maxCapitalAllocation: 10,
+          riskTolerance: 'low',
+          marketConditions: ['sideways'],
+          minProfitThreshold: 0.5,
+          cooldownPeriod: 1000,
+          maxConcurrentTrades: 1
+        },
+        parameters: {}
+      },
+      create: () => ({})
+    }
+  ]
+}));
+
+jest.mock('private-strategies', () => ({
+  strategies: [
+    {
+      id: 'private-momentum',
+      configSchema: {
+        defaults: {
+          name: 'Private Momentum',
+          enabled: true,
+          priority: 7,
+          maxCapitalAllocation: 5,
+          riskTolerance: 'high',
+          marketConditions: ['volatile'],
+          minProfitThreshold: 2,
+          cooldownPeriod: 60000,
+          maxConcurrentTrades: 1
+        },
+        parameters: {}
+      },
+      create: () => ({})
+    }
+  ]
+}), { virtual: true });
+
+jest.mock('not-a-strategy', () => ({ helper: () => undefined }), { virtual: true });
+
+const createStrategy = (): jest.Mocked<TradingStrategy> => ({
+  initialize: jest.fn().mockResolvedValue(undefined),
+  start: jest.fn().mockResolvedValue(undefined),
+  stop: jest.fn().mockResolvedValue(undefined),
+  isRunning: jest.fn().mockReturnValue(false),
+  scanOpportunities: jest.fn().mockResolvedValue([]),
+  execute: jest.fn().mockResolvedValue(true),
+  getStats: jest.fn().mockReturnValue({ totalTrades: 4, successfulTrades: 3, totalProfit: 12 })
+});
+
+const createDefinition = (create = jest.fn(() => createStrategy())): StrategyDefinition => ({
+  id: 'mean-reversion',
+  configSchema: {
+    defaults: {
+      name: 'Mean Reversion',
+      enabled: false,
+      priority: 6,
+      maxCapitalAllocation: 15,
+      riskTolerance: 'medium',
+      marketConditions: ['sideways', 'stable'],
+      minProfitThreshold: 1,
+      cooldownPeriod: 30000,
+      maxConcurrentTrades: 2
+    },
+    parameters: {
+      lookbackMinutes: { type: 'number', description: 'Window for the moving average', default: 60, min: 5, max: 1440 },
+      token: { type: 'string', description: 'Token class to trade', required: true },
+      shortOnly: { type: 'boolean', description: 'Only take short-side entries', default: false }
+    }
+  },
+  create
+});
+
+describe('StrategyRegistry', () => {
+  let registry: StrategyRegistry;
+
+  beforeEach(() => {
+    registry = new StrategyRegistry();
+  });
+
+  it('should register, look up and list definitions', () => {
+    const definition = createDefinition();
+    registry.register(definition);
+
+    expect(registry.has('mean-reversion')).toBe(true);
+    expect(registry.get('mean-reversion')).toBe(definition);
+    expect(registry.list().map(entry => entry.id)).toEqual(['mean-reversion']);
+  });
+
+  it('should reject duplicate ids and malformed definitions', () => {
+    registry.register(createDefinition());
+
+    expect(() => registry.register(createDefinition())).toThrow('already registered');
+    expect(() => registry.register({ id: 'broken' } as StrategyDefinition)).toThrow(StrategyRegistryError);
+  });
+
+  it('should apply defaults and validate parameters before creating a strategy', () => {
+    const create = jest.fn(() => createStrategy());
+    registry.register(createDefinition(create));
+    const dependencies = {} as Parameters<StrategyDefinition['create']>[0];
+
+    registry.create('mean-reversion', dependencies, { token: 'GALA|Unit|none|none', unknownKey: 1 });
+
+    expect(create).toHaveBeenCalledWith(dependencies, {
+      lookbackMinutes: 60,
+      token: 'GALA|Unit|none|none',
+      shortOnly: false
+    });
+    expect(() => registry.create('mean-reversion', dependencies, {})).toThrow('requires parameter "token"');
+    expect(() => registry.create('mean-reversion', dependencies, { token: 'GALA', lookbackMinutes: '60' }))
+      .toThrow('must be a number');
+    expect(() => registry.create('mean-reversion', dependencies, { token: 'GALA', lookbackMinutes: 1 }))
+      .toThrow('between 5 and 1440');
+    expect(() => registry.create('unknown', dependencies)).toThrow('Unknown strategy "unknown"');
+  });
+
+  it('should load definitions exported by an external module', async () => {
+    const loaded = await registry.loadModule('private-strategies');
+
+    expect(loaded.map(definition => definition.id)).toEqual(['private-momentum']);
+    expect(registry.has('private-momentum')).toBe(true);
+  });
+
+  it('should reject modules that do not export strategy definitions', async () => {
+    await expect(registry.loadModule('not-a-strategy')).rejects.toThrow('must export a strategy definition');
+    await expect(registry.loadModule('./does-not-exist.js')).rejects.toThrow('Failed to load strategy module');
+  });
+
+  it('should preload built-in strategies in the default registry', () => {
+    expect(createDefaultStrategyRegistry().list().map(definition => definition.id)).toEqual(['builtin-test']);
+  });
+});
+
+describe('StrategyOrchestrator with a registry', () => {
+  const createOrchestrator = (config: Partial<TradingConfig>, registry = new StrategyRegistry()): StrategyOrchestrator =>
+    new StrategyOrchestrator(
+      {} as GSwap,
+      { maxPositionSize: 1000, ...config } as TradingConfig,
+      {} as SwapExecutor,
+      {} as MarketAnalysis,
+      {} as VolumeAnalyzer,
+      {} as RiskMonitor,
+      registry
+    );
+
+  it('should build strategies from the registry with config overrides and parameters', () => {
+    const create = jest.fn(() => createStrategy());
+    const registry = new StrategyRegistry();
+    registry.register(createDefinition(create));
+
+    const orchestrator = createOrchestrator({
+      strategies: { 'mean-reversion': { enabled: true, priority: 9, token: 'GALA|Unit|none|none', lookbackMinutes: 30 } }
+    }, registry);
+
+    expect(orchestrator.getStrategyConfig('mean-reversion')).toMatchObject({
+      name: 'Mean Reversion',
+      enabled: true,
+      priority: 9,
+      maxCapitalAllocation: 15
+    });
+    expect(create).toHaveBeenCalledWith(expect.any(Object), {
+      lookbackMinutes: 30,
+      token: 'GALA|Unit|none|none',
+      shortOnly: false
+    });
+  });
+
+  it('should hand the engine wallet and position limits to strategy factories', () => {
+    const create = jest.fn(() => createStrategy());
+    const registry = new StrategyRegistry();
+    registry.register(createDefinition(create));
+    const positionLimits = { getCurrentLimits: () => ({ maxPositionSize: 250 }) };
+
+    new StrategyOrchestrator(
+      {} as GSwap,
+      { maxPositionSize: 1000, strategies: { 'mean-reversion': { token: 'GALA|Unit|none|none' } } } as TradingConfig,
+      {} as SwapExecutor,
+      {} as MarketAnalysis,
+      {} as VolumeAnalyzer,
+      {} as RiskMonitor,
+      registry,
+      { walletAddress: 'eth|engine', positionLimits }
+    );
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ walletAddress: 'eth|engine', positionLimits }), expect.any(Object));
+  });
+
+  it('should hand the engine quote source to strategy factories', () => {
+    const create = jest.fn(() => createStrategy());
+    const registry = new StrategyRegistry();
+    registry.register(createDefinition(create));
+    const quoteSource = { quoteExactInput: jest.fn() };
+
+    new StrategyOrchestrator(
+      {} as GSwap,
+      { maxPositionSize: 1000, strategies: { 'mean-reversion': { token: 'GALA|Unit|none|none' } } } as TradingConfig,
+      {} as SwapExecutor,
+      {} as MarketAnalysis,
+      {} as VolumeAnalyzer,
+      {} as RiskMonitor,
+      registry,
+      {},
+      { quoteSource }
+    );
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ quoteSource }), expect.any(Object));
+  });
+
+  it('should run registered strategies through execute() and read their stats', async () => {
+    const strategy = createStrategy();
+    const orchestrator = createOrchestrator({});
+    orchestrator.registerStrategy(createDefinition(jest.fn(() => strategy)), { token: 'GALA|Unit|none|none' });
+
+    await expect(orchestrator['executeStrategy']('mean-reversion')).resolves.toBe(true);
+    await orchestrator['updateStrategyPerformance']();
+
+    expect(strategy.execute).toHaveBeenCalledTimes(1);
+    expect(orchestrator.getStrategyPerformance().get('mean-reversion')).toMatchObject({
+      totalTrades: 4,
+      successfulTrades: 3,
+      totalProfit: 12,
+      winRate: 75
+    });
+  });
+
+  it('should load strategy modules from config on start', async () => {
+    const orchestrator = createOrchestrator({ strategyModules: ['private-strategies'] });
+    await orchestrator['loadStrategyModules']();
+
+    expect(orchestrator.getStrategyConfig('private-momentum')).toMatchObject({ name: 'Private Momentum', priority: 7 });
+  });
+
+  it('should load strategy modules only once across restarts', async () => {
+    const orchestrator = createOrchestrator({ strategyModules: ['private-strategies'] });
+    await orchestrator['loadStrategyModules']();
+
+    await expect(orchestrator['loadStrategyModules']()).resolves.toBeUndefined();
+    expect(orchestrator.getStrategyConfig('private-momentum')).toBeDefined();
+  });
+});
@@ -54,7 +54,13 @@ const createMockSwapExecutor = () => ({
   executeSwap: jest.fn(),
   monitorTransaction: jest.fn(),
   batchExecuteSwaps: jest.fn(),
-  getExecutionStats: jest.fn()
+  getExecutionStats: jest.fn(),
+  getArbitrageRecovery: jest.fn(() => ({
+    beginAttempt: jest.fn(() => 'attempt-1'),
+    recordHop: jest.fn(),
+    completeAttempt: jest.fn(),
+    failAttempt: jest.fn().mockResolvedValue(undefined)
+  }))
 }) as unknown as jest.Mocked<SwapExecutor>;
 
 const createMockMarketAnalysis = () => ({
@@ -570,6 +576,26 @@ describe('TriangleArbitrageStrategy', () => {
       expect(totalFailures).toBeGreaterThan(0);
     });
 
+    it('should trade from the engine wallet it was given', async () => {
+      const engineStrategy = new TriangleArbitrageStrategy(mockGSwap, mockConfig, mockSwapExecutor, mockMarketAnalysis, {
+        walletAddress: 'eth|engine'
+      });
+      mockSwapExecutor.executeSwap.mockResolvedValue({ success: false, error: 'Insufficient liquidity', executionTime: 50 });
+
+      const executeTriangle = engineStrategy['executeTriangleArbitrage'].bind(engineStrategy);
+      await expect(executeTriangle({
+        tokenA: 'GALA|Unit|none|none',
+        tokenB: 'GUSDC|Unit|none|none',
+        tokenC: 'GWETH|Unit|none|none',
+        pathName: 'GALA→GUSDC→GWETH→GALA',
+        inputAmount: 100,
+        netProfit: 1,
+        netProfitPercent: 1
+      } as Parameters<typeof executeTriangle>[0])).resolves.toBe(false);
+
+      expect(mockSwapExecutor.executeSwap).toHaveBeenCalledWith(expect.objectContaining({ userAddress: 'eth|engine' }));
+    });
+
     it('should handle partial execution failure', async () => {
       // Mock position size to use realistic trading amounts
       jest.spyOn(strategy as any, 'calculateOptimalPositionSize').mockReturnValue(50000); // 50,000 GALA tokens (~$1000)
@@ -666,6 +692,22 @@ describe('TriangleArbitrageStrategy', () => {
     });
   });
 
+  describe('Scanning', () => {
+    it('should report opportunities from scanOpportunities without executing them', async () => {
+      const opportunity = { pathName: 'GALA→GUSDC→GWETH→GALA', netProfitPercent: 4.8, isExecutable: true };
+      const internals = strategy as unknown as Record<string, () => Promise<unknown>>;
+      strategy['isActive'] = true;
+      jest.spyOn(internals, 'findOpportunities').mockResolvedValue([opportunity]);
+      const execute = jest.spyOn(internals, 'executeTriangleArbitrage').mockResolvedValue(true);
+
+      await expect(strategy.scanOpportunities()).resolves.toEqual([opportunity]);
+      expect(execute).not.toHaveBeenCalled();
+
+      await strategy.scanForOpportunities();
+      expect(execute).toHaveBeenCalledWith(opportunity);
+    });
+  });
+
   describe('Statistics and Performance', () => {
     it('should track execution statistics', async () => {
       const initialStats = strategy.getStats();
@@ -0,0 +1,197 @@
+/**
+ * Paper GSwap Tests
+ * V3 tick math, virtual balances, paper liquidity positions and recorded quote replay
+ */
+
+import { PaperGSwap, PaperPool, RecordedQuote, recordedQuotesFromJournal } from '../../testing/paper-gswap';
+import { TradeRecord } from '../../entities/TradeRecord';
+import { sqrtPriceToTick, tickToSqrtPrice } from '../../utils/price-math';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const WALLET = 'eth|0x0000000000000000000000000000000000000001';
+
+function paperExchange(balances: Record<string, number> = { GALA: 10000, GUSDC: 1000 }): PaperGSwap {
+  return new PaperGSwap({
+    walletAddress: WALLET,
+    balances,
+    pools: [{ token0: 'GALA', token1: 'GUSDC', fee: 3000, price: 0.04, liquidity: 50000 }]
+  });
+}
+
+describe('price-math tick helpers', () => {
+  it('should round-trip ticks through decimal sqrt prices', () => {
+    for (const tick of [-887272, -200000, -60, 0, 1, 32190, 887271]) {
+      expect(sqrtPriceToTick(tickToSqrtPrice(tick))).toBe(tick);
+    }
+    expect(sqrtPriceToTick(Math.sqrt(0.04))).toBe(-32191);
+  });
+});
+
+describe('PaperGSwap', () => {
+  it('should fill swaps with constant-liquidity V3 math and move virtual balances', async () => {
+    const paper = paperExchange();
+    const pool = paper.getPool('GALA', 'GUSDC', 3000)!;
+    const sqrtBefore = pool.getSqrtPrice();
+
+    const quote = await paper.quoting.quoteExactInput('GALA|Unit|none|none', 'GUSDC|Unit|none|none', 1000);
+
+    // Exact input of token0 within one range: 1/√P' = 1/√P + Δx/L
+    const netIn = 1000 * (1 - 0.003);
+    const sqrtAfter = 1 / (1 / sqrtBefore + netIn / 50000);
+    expect(Number(quote.outTokenAmount)).toBeCloseTo(50000 * (sqrtBefore - sqrtAfter), 8);
+    expect(quote.feeTier).toBe(3000);
+
+    const tx = await paper.swaps.swap('GALA|Unit|none|none', 'GUSDC|Unit|none|none', 3000, { exactIn: '1000', amountOutMinimum: '0' }, WALLET);
+    await expect(tx.wait()).resolves.toMatchObject({ status: 'CONFIRMED' });
+
+    expect(paper.getBalance('GALA')).toBe(9000);
+    expect(paper.getBalance('GUSDC')).toBeCloseTo(1000 + Number(quote.outTokenAmount), 8);
+    expect(pool.getSqrtPrice()).toBeCloseTo(sqrtAfter, 12);
+    await expect(paper.events.wait(tx.transactionId)).resolves.toMatchObject({ txId: tx.transactionId });
+
+    const assets = await paper.assets.getUserAssets(WALLET, 1, 20);
+    expect(assets.tokens.map(token => token.symbol).sort()).toEqual(['GALA', 'GUSDC']);
+  });
+
+  it('should fail swaps on slippage and insufficient balance without touching balances', async () => {
+    const paper = paperExchange({ GALA: 100 });
+
+    const slipped = await paper.swaps.swap('GALA', 'GUSDC', 3000, { exactIn: 50, amountOutMinimum: 10 });
+    await expect(slipped.wait()).rejects.toThrow('below minimum');
+
+    const overdrawn = await paper.swaps.swap('GALA', 'GUSDC', 3000, { exactIn: 500 });
+    await expect(overdrawn.wait()).rejects.toThrow('Insufficient GALA balance');
+
+    expect(paper.getBalance('GALA')).toBe(100);
+    expect(paper.getBalance('GUSDC')).toBe(0);
+    expect(paper.getFills().filter(fill => !fill.success)).toHaveLength(2);
+  });
+
+  it('should fill a paper range order across ticks and pay it fees', async () => {
+    const paper = paperExchange({ GALA: 10000, GUSDC: 5000 });
+    const pool = paper.getPool('GALA', 'GUSDC', 3000)!;
+    const tick = pool.getTick();
+
+    // Sell GALA just above the current price: a range holding only token0
+    const tickLower = Math.ceil((tick + 1) / 60) * 60;
+    const minted = await paper.positions.addLiquidityByTicks({
+      token0: 'GALA', token1: 'GUSDC', fee: 3000, tickLower, tickUpper: tickLower + 120,
+      amount0Desired: 1000, amount1Desired: 0
+    });
+    expect(Number(minted.amount0)).toBeCloseTo(1000, 6);
+    expect(Number(minted.amount1)).toBe(0);
+    expect(paper.getBalance('GALA')).toBeCloseTo(9000, 6);
+
+    // Buy enough GALA to push the price through the whole range
+    const tx = await paper.swaps.swap('GUSDC', 'GALA', 3000, { exactIn: 2000 });
+    await tx.wait();
+    expect(pool.getTick()).toBeGreaterThanOrEqual(tickLower + 120);
+
+    const position = await paper.positions.getPositionById(WALLET, minted.positionId);
+    expect(position).toMatchObject({ token0Symbol: 'GALA', token1Symbol: 'GUSDC', inRange: false });
+    expect(Number(position!.amount0)).toBeCloseTo(0, 9);
+    expect(Number(position!.amount1)).toBeGreaterThan(40); // ~1000 GALA sold near 0.04
+    expect(Number(position!.tokensOwed1)).toBeGreaterThan(0);
+
+    await paper.positions.removeLiquidity({ positionId: minted.positionId, amount: position!.liquidity });
+    await paper.positions.collectPositionFees({ positionId: minted.positionId });
+
+    const { positions } = await paper.positions.getUserPositions(WALLET);
+    expect(positions).toHaveLength(0);
+    expect(paper.getBalance('GUSDC')).toBeGreaterThan(5000 - 2000 + 40);
+  });
+
+  it('should reject ranges off the fee tier tick spacing', async () => {
+    const paper = paperExchange();
+    await expect(paper.positions.addLiquidityByTicks({
+      token0: 'GALA', token1: 'GUSDC', fee: 3000, tickLower: -32190, tickUpper: -32100,
+      amount0Desired: 10, amount1Desired: 1
+    })).rejects.toThrow('Invalid tick range');
+  });
+
+  it('should rebuild pool price and liquidity from recorded quotes', () => {
+    const reference = new PaperPool({ token0: 'GALA', token1: 'GUSDC', fee: 3000, price: 0.05, liquidity: 80000 });
+    const observed = reference.quote('GUSDC', 25);
+    const quotes: RecordedQuote[] = [{
+      timestamp: 2000,
+      tokenIn: 'GUSDC|Unit|none|none',
+      tokenOut: 'GALA|Unit|none|none',
+      amountIn: 25,
+      amountOut: observed.amountOut,
+      fee: 3000,
+      currentSqrtPrice: observed.sqrtPriceBefore,
+      newSqrtPrice: observed.sqrtPriceAfter
+    }, {
+      timestamp: 1000,
+      tokenIn: 'GALA',
+      tokenOut: 'GUSDC',
+      amountIn: 100,
+      amountOut: 3.9,
+      fee: 3000
+    }];
+
+    const paper = new PaperGSwap({ balances: { GUSDC: 100 } });
+    paper.loadRecordedQuotes(quotes);
+
+    expect(paper.advanceTo(1500)).toBe(1);
+    expect(paper.getPool('GALA', 'GUSDC', 3000)!.getPrice()).toBeCloseTo(3.9 / (100 * 0.997), 8);
+
+    expect(paper.advanceTo(2500)).toBe(1);
+    const pool = paper.getPool('GALA', 'GUSDC', 3000)!;
+    expect(pool.getPrice()).toBeCloseTo(0.05, 10);
+    expect(pool.getMarketLiquidity()).toBeCloseTo(80000, 4);
+    expect(pool.quote('GUSDC', 25).amountOut).toBeCloseTo(observed.amountOut, 6);
+  });
+
+  it('should anchor to live quotes and record them for replay', async () => {
+    const reference = new PaperPool({ token0: 'GALA', token1: 'GUSDC', fee: 10000, price: 0.02, liquidity: 20000 });
+    const quoteSource = {
+      quoteExactInput: jest.fn(async (_tokenIn: string, _tokenOut: string, amountIn: number | string) => {
+        const quote = reference.quote('GALA', Number(amountIn));
+        return {
+          outTokenAmount: quote.amountOut.toString(),
+          feeTier: 10000,
+          currentPoolSqrtPrice: quote.sqrtPriceBefore.toString(),
+          newPoolSqrtPrice: quote.sqrtPriceAfter.toString()
+        };
+      })
+    };
+    const paper = new PaperGSwap({ balances: { GALA: 500 }, quoteSource });
+
+    const quote = await paper.quoteWrapper().quoteExactInput('GALA$Unit$none$none', 'GUSDC$Unit$none$none', 200);
+
+    expect(quoteSource.quoteExactInput).toHaveBeenCalledWith('GALA$Unit$none$none', 'GUSDC$Unit$none$none', 200);
+    expect(Number(quote.outTokenAmount)).toBeCloseTo(reference.quote('GALA', 200).amountOut, 6);
+    expect(paper.getRecordedQuotes()).toEqual([expect.objectContaining({ tokenIn: 'GALA', tokenOut: 'GUSDC', amountIn: 200, fee: 10000 })]);
+  });
+
+  it('should turn journaled quotes into a replay tape', () => {
+    const record = Object.assign(new TradeRecord(), {
+      tokenIn: 'GALA|Unit|none|none',
+      tokenOut: 'GUSDC|Unit|none|none',
+      amountIn: '100',
+      quote: { amountOut: '3.9', fee: 3000, currentSqrtPrice: '0.2', newSqrtPrice: '0.1999' },
+      transitions: [{ status: 'REQUESTED', timestamp: 10 }, { status: 'QUOTED', timestamp: 20 }],
+      createdAt: new Date(10)
+    });
+
+    expect(recordedQuotesFromJournal([record, Object.assign(new TradeRecord(), { quote: null })])).toEqual([{
+      timestamp: 20,
+      tokenIn: 'GALA',
+      tokenOut: 'GUSDC',
+      amountIn: 100,
+      amountOut: 3.9,
+      fee: 3000,
+      currentSqrtPrice: 0.2,
+      newSqrtPrice: 0.1999
+    }]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Replay Backtest Tests
+ * Simulated GSwap fills and tick-by-tick replay of real strategy classes
+ */
+
+import { BacktestEngine, ReplayBacktestConfig } from '../../testing/backtest-engine';
+import { ReplayGSwap, ReplayMarket, ReplaySwapExecutor } from '../../testing/replay-gswap';
+import { ReplayStrategyContext } from '../../testing/replay-strategies';
+import { TimeSeriesDB } from '../../data/storage/timeseries-db';
+import { PriceHistory } from '../../entities/analytics';
+import { TradingConfig } from '../../config/environment';
+import { poolDiscovery } from '../../services/pool-discovery';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../config/environment', () => {
+  const config = {
+    trading: { maxPositionSize: 1000, defaultSlippageTolerance: 0.01 },
+    api: { baseUrl: 'http://replay.invalid', wsUrl: 'ws://replay.invalid' },
+    wallet: { address: 'eth|0x0000000000000000000000000000000000000001' },
+    development: {}
+  };
+  return { getConfig: jest.fn(() => config), ENV: config };
+});
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+function priceRow(token: string, timestamp: number, price: number): PriceHistory {
+  const row = new PriceHistory();
+  row.token = token;
+  row.timestamp = timestamp;
+  row.setPriceUsd(price);
+  row.setVolume24h(100000);
+  return row;
+}
+
+function createTimeSeriesDB(series: Record<string, number[]>): TimeSeriesDB {
+  return {
+    getPriceHistory: jest.fn(async (token: string) =>
+      (series[token] || []).map((price, i) => priceRow(token, START + i * HOUR, price))
+    ),
+    getOHLCV: jest.fn(async () => [])
+  } as unknown as TimeSeriesDB;
+}
+
+function replayConfig(overrides: Partial<ReplayBacktestConfig> = {}): ReplayBacktestConfig {
+  return {
+    startTime: START,
+    endTime: START + 24 * HOUR,
+    initialCapital: 1000,
+    tokens: ['GALA', 'GUSDC', 'GWETH'],
+    defaultLiquidityUsd: 100000,
+    includeGasCosts: false,
+    strategies: [],
+    riskFreeRate: 0,
+    ...overrides
+  };
+}
+
+/**
+ * Minimal strategy with the production lifecycle: buys GALA with GUSDC whenever GALA dips
+ */
+class DipBuyer {
+  scans: number[] = [];
+  wallTimes: number[] = [];
+  private lastPrice = 0;
+
+  constructor(private context: ReplayStrategyContext) {}
+
+  async start(): Promise<void> {
+    await this.scanForOpportunities();
+  }
+
+  async stop(): Promise<void> {}
+
+  async scanForOpportunities(): Promise<void> {
+    this.scans.push(this.context.clock.now());
+    this.wallTimes.push(Date.now());
+    const quote = await this.context.quoteSource.quoteExactInput('GUSDC|Unit|none|none', 'GALA|Unit|none|none', 1);
+    const price = 1 / parseFloat(quote.outTokenAmount);
+
+    if (this.lastPrice > 0 && price < this.lastPrice * 0.95) {
+      await this.context.swapExecutor.executeSwap({
+        tokenIn: 'GUSDC$Unit$none$none',
+        tokenOut: 'GALA$Unit$none$none',
+        amountIn: '100',
+        userAddress: 'replay',
+        slippageTolerance: 0.02
+      });
+    }
+    this.lastPrice = price;
+  }
+}
+
+describe('Replay Backtest', () => {
+  describe('ReplayMarket', () => {
+    const market = () => {
+      const m = new ReplayMarket(
+        new Map([
+          ['GALA', [{ timestamp: START, price: 0.02, volume: 0 }, { timestamp: START + HOUR, price: 0.04, volume: 0 }]],
+          ['GUSDC', [{ timestamp: START, price: 1, volume: 0 }]]
+        ]),
+        [{ token0: 'GALA', token1: 'GUSDC', fee: 3000, liquidityUsd: 20000 }]
+      );
+      m.advanceTo(START);
+      return m;
+    };
+
+    it('should quote constant-product fills with fee and size-dependent impact', () => {
+      const m = market();
+      const small = m.quote('GUSDC', 'GALA', 10);
+      const large = m.quote('GUSDC$Unit$none$none', 'GALA|Unit|none|none', 5000);
+
+      expect(small.midAmountOut).toBeCloseTo(500);
+      expect(small.amountOut).toBeLessThan(500 * 0.997);
+      expect(small.priceImpact).toBeLessThan(0.005);
+      expect(large.priceImpact).toBeGreaterThan(0.3);
+    });
+
+    it('should move reserves within a tick and re-anchor them on the next tick', () => {
+      const m = market();
+      const before = m.quote('GUSDC', 'GALA', 100).amountOut;
+      m.swap('GUSDC', 'GALA', 5000);
+      expect(m.quote('GUSDC', 'GALA', 100).amountOut).toBeLessThan(before);
+
+      m.advanceTo(START + HOUR);
+      expect(m.getPriceUsd('GALA')).toBe(0.04);
+      expect(m.quote('GUSDC', 'GALA', 100).midAmountOut).toBeCloseTo(2500);
+    });
+
+    it('should reject swaps with no pool or below the minimum output', () => {
+      const gswap = new ReplayGSwap(market(), { GUSDC: 50 });
+
+      expect(gswap.executeSwap('GUSDC', 'GWETH', 10).failureReason).toContain('No pools found');
+      expect(gswap.executeSwap('GUSDC', 'GALA', 100).failureReason).toContain('Insufficient GUSDC');
+      expect(gswap.executeSwap('GUSDC', 'GALA', 10, 1000).failureReason).toContain('below minimum');
+
+      const fill = gswap.executeSwap('GUSDC', 'GALA', 10);
+      expect(fill.success).toBe(true);
+      expect(gswap.getBalance('GUSDC')).toBe(40);
+      expect(gswap.getBalance('GALA')).toBeCloseTo(fill.amountOut);
+    });
+
+    it('should fill executor requests in the requested fee tier', async () => {
+      const m = new ReplayMarket(
+        new Map([
+          ['GALA', [{ timestamp: START, price: 0.02, volume: 0 }]],
+          ['GUSDC', [{ timestamp: START, price: 1, volume: 0 }]]
+        ]),
+        [
+          { token0: 'GALA', token1: 'GUSDC', fee: 500, liquidityUsd: 20000 },
+          { token0: 'GALA', token1: 'GUSDC', fee: 10000, liquidityUsd: 20000 }
+        ]
+      );
+      m.advanceTo(START);
+      const fills: number[] = [];
+      const executor = new ReplaySwapExecutor(new ReplayGSwap(m), 'fee-tier', fill => fills.push(fill.fee));
+
+      await executor.executeSwap({ tokenIn: 'GUSDC', tokenOut: 'GALA', amountIn: '10', userAddress: 'replay', feeTier: 10000 });
+      await executor.executeSwap({ tokenIn: 'GUSDC', tokenOut: 'GALA', amountIn: '10', userAddress: 'replay' });
+
+      expect(fills).toEqual([10000, 500]);
+    });
+  });
+
+  describe('BacktestEngine.runReplayBacktest', () => {
+    it('should drive a strategy tick by tick with the replay clock set to each row', async () => {
+      const db = createTimeSeriesDB({
+        GALA: [0.02, 0.021, 0.019, 0.0195, 0.018],
+        GUSDC: [1, 1, 1, 1, 1],
+        GWETH: [3000, 3000, 3000, 3000, 3000]
+      });
+      let strategy: DipBuyer | null = null;
+
+      const results = await new BacktestEngine(db).runReplayBacktest(replayConfig({
+        strategies: [{ strategyName: 'dip-buyer', enabled: true, capitalAllocation: 100, parameters: {}, priority: 1 }],
+        strategyFactories: { 'dip-buyer': context => (strategy = new DipBuyer(context)) }
+      }));
+
+      expect(strategy!.scans).toEqual([0, 1, 2, 3, 4].map(i => START + i * HOUR));
+      strategy!.wallTimes.forEach(time => expect(time).toBeGreaterThan(START + 24 * HOUR)); // Date.now() is left alone
+
+      expect(results.totalTrades).toBe(2);
+      const [trade] = results.trades;
+      expect(trade).toMatchObject({ strategyName: 'dip-buyer', tokenIn: 'GUSDC', tokenOut: 'GALA', success: true });
+      expect(trade.timestamp).toBe(START + 2 * HOUR);
+      expect(trade.amountIn).toBeCloseTo(100);
+      // Marked at the fill tick's oracle price, a buy loses exactly the fee plus price impact
+      expect(trade.actualProfit).toBeLessThan(-0.003);
+      expect(trade.actualProfit).toBeGreaterThan(-0.01);
+      expect(results.trades[1].timestamp).toBe(START + 4 * HOUR);
+      expect(results.strategyResults[0]).toMatchObject({ strategyName: 'dip-buyer', trades: 2 });
+    });
+
+    it('should run the production TriangleArbitrageStrategy against the simulated pools', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('network disabled in replay'));
+      const quoteSpy = jest.spyOn(ReplayMarket.prototype, 'quote');
+
+      try {
+        const db = createTimeSeriesDB({
+          GALA: [0.02, 0.021, 0.022],
+          GUSDC: [1, 1, 1],
+          GWETH: [3000, 3050, 3100]
+        });
+
+        const results = await new BacktestEngine(db).runReplayBacktest(replayConfig({
+          tradingConfig: { maxPositionSize: 1000 } as TradingConfig,
+          strategies: [{ strategyName: 'triangle-arbitrage', enabled: true, capitalAllocation: 100, parameters: {}, priority: 1 }]
+        }));
+
+        // 3 ticks × 1 discovered GALA/GUSDC/GWETH cycle × 3 hops, all quoted from the replay pools
+        expect(quoteSpy.mock.calls.length).toBe(3 * 3);
+        expect(fetchSpy).not.toHaveBeenCalled();
+
+        // Pools track the oracle, so every cycle pays three fees and none clears the profit threshold
+        expect(results.totalTrades).toBe(0);
+        expect(poolDiscovery.getCachedPools()).toEqual([]); // The live discovery never sees the replay pools
+      } finally {
+        fetchSpy.mockRestore();
+        quoteSpy.mockRestore();
+      }
+    });
+
+    it('should quote the production MultiPathArbitrageStrategy from the simulated pools', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('network disabled in replay'));
+      const quoteSpy = jest.spyOn(ReplayMarket.prototype, 'quote');
+
+      try {
+        const db = createTimeSeriesDB({
+          GALA: [0.02, 0.021],
+          GUSDC: [1, 1],
+          GWETH: [3000, 3050]
+        });
+
+        const results = await new BacktestEngine(db).runReplayBacktest(replayConfig({
+          tradingConfig: { maxPositionSize: 1000 } as TradingConfig,
+          strategies: [{ strategyName: 'multi-path-arbitrage', enabled: true, capitalAllocation: 100, parameters: {}, priority: 1 }]
+        }));
+
+        expect(quoteSpy).toHaveBeenCalled();
+        expect(fetchSpy).not.toHaveBeenCalled();
+        expect(results.totalTrades).toBe(0);
+      } finally {
+        fetchSpy.mockRestore();
+        quoteSpy.mockRestore();
+      }
+    });
+
+    it('should fail fast when no stored rows cover the replay window', async () => {
+      await expect(
+        new BacktestEngine(createTimeSeriesDB({})).runReplayBacktest(replayConfig())
+      ).rejects.toThrow('No stored price data');
+    });
+  });
+});
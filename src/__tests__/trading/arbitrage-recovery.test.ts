@@ -0,0 +1,231 @@
+/**
+ * Arbitrage Recovery Journal Tests
+ * Attempts and recovery actions persisted around each step, and reconciliation on restart
+ */
+
+import { ArbitrageRecovery, RecoveryReconciler } from '../../trading/recovery/arbitrage-recovery';
+import { ArbitrageAttemptRecord } from '../../entities/ArbitrageAttemptRecord';
+import { GSwap } from '../../services/gswap-simple';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../services/gswap-simple', () => ({ GSwap: jest.fn() }));
+
+const mockSaves: ArbitrageAttemptRecord[] = [];
+const mockFind = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  getArbitrageAttemptRepository: jest.fn().mockResolvedValue({
+    create: jest.fn(record => record),
+    save: jest.fn(async record => {
+      mockSaves.push(JSON.parse(JSON.stringify(record)));
+      return record;
+    }),
+    find: (...args: unknown[]) => mockFind(...args)
+  })
+}));
+
+const GALA = 'GALA|Unit|none|none';
+const TOWN = 'TOWN|Unit|none|none';
+
+function record(overrides: Partial<ArbitrageAttemptRecord>): ArbitrageAttemptRecord {
+  return Object.assign(new ArbitrageAttemptRecord(), {
+    id: 'arb-1',
+    status: 'pending',
+    timestamp: '1700000000000', // bigint columns come back as strings
+    tokenIn: GALA,
+    tokenOut: TOWN,
+    amountIn: '1000',
+    expectedProfit: '12.5',
+    transactionIds: [],
+    actualResult: null,
+    recoveryActions: [],
+    ...overrides
+  });
+}
+
+function reconciler(balances: Record<string, number>, statuses: Record<string, string>): RecoveryReconciler {
+  return {
+    walletAddress: 'eth|wallet',
+    getBalance: jest.fn(async (token: string) => balances[token] ?? 0),
+    getTransactionStatus: jest.fn(async (id: string) => (statuses[id] ?? 'UNKNOWN') as 'CONFIRMED')
+  };
+}
+
+describe('ArbitrageRecovery journal', () => {
+  let recovery: ArbitrageRecovery;
+  let executeSwap: jest.Mock;
+  let createAlert: jest.Mock;
+
+  beforeEach(() => {
+    mockSaves.length = 0;
+    mockFind.mockReset().mockResolvedValue([]);
+    executeSwap = jest.fn().mockResolvedValue({ success: true, transactionId: 'tx-unwind', executionTime: 1 });
+    createAlert = jest.fn().mockResolvedValue('alert-1');
+    recovery = new ArbitrageRecovery({} as GSwap, { cooldownPeriodMs: 0 }, {
+      swapExecutor: { executeSwap },
+      alertSystem: { createAlert }
+    });
+  });
+
+  it('should persist the attempt and each recovery action before and after it runs', async () => {
+    await recovery.resumeUnfinished(reconciler({ [TOWN]: 250 }, {}));
+
+    const id = recovery.beginAttempt(GALA, '1000', 12.5);
+    recovery.recordHop(id, 'tx-1', TOWN);
+    await recovery.failAttempt(id, 'insufficient liquidity');
+    await recovery.flush();
+
+    expect(mockSaves.map(save => save.status)).toEqual(['pending', 'pending', 'failed', 'failed', 'failed', 'recovered']);
+    expect(mockSaves[1]).toMatchObject({ tokenOut: TOWN, transactionIds: ['tx-1'] });
+
+    // The action is journaled as running, then with its outcome
+    expect(mockSaves[3].recoveryActions).toEqual([expect.objectContaining({ type: 'EMERGENCY_EXIT', success: false })]);
+    expect(mockSaves[3].recoveryActions[0].completedAt).toBeUndefined();
+    expect(mockSaves[4].recoveryActions[0]).toMatchObject({ type: 'EMERGENCY_EXIT', success: true, completedAt: expect.any(Number) });
+
+    // The held TOWN balance is swapped back to the input token
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({
+      tokenIn: TOWN,
+      tokenOut: GALA,
+      amountIn: '250',
+      userAddress: 'eth|wallet'
+    }));
+    expect(mockSaves[5]).toMatchObject({ tokenOut: GALA, transactionIds: ['tx-1', 'tx-unwind'] });
+  });
+
+  it('should leave the attempt failed and raise an alert when the held token cannot be swapped back', async () => {
+    executeSwap.mockResolvedValue({ success: false, error: 'no liquidity', executionTime: 1 });
+    await recovery.resumeUnfinished(reconciler({ [TOWN]: 250 }, {}));
+
+    const id = recovery.beginAttempt(GALA, '1000', 12.5);
+    recovery.recordHop(id, 'tx-1', TOWN);
+    await recovery.failAttempt(id, 'insufficient liquidity');
+    await recovery.flush();
+
+    const last = mockSaves[mockSaves.length - 1];
+    expect(last).toMatchObject({ id, status: 'failed', tokenOut: TOWN });
+    expect(last.recoveryActions.map(action => [action.type, action.success])).toEqual([
+      ['EMERGENCY_EXIT', false],
+      ['LIQUIDATE_POSITION', false]
+    ]);
+    expect(createAlert).toHaveBeenCalledWith(
+      'position_risk',
+      'critical',
+      expect.any(String),
+      expect.stringContaining(id),
+      expect.objectContaining({ attemptId: id, heldToken: TOWN }),
+      'arbitrage_recovery'
+    );
+  });
+
+  it('should not report recovery without a swap executor to unwind through', async () => {
+    recovery = new ArbitrageRecovery({} as GSwap, { cooldownPeriodMs: 0 }, { alertSystem: { createAlert } });
+    await recovery.resumeUnfinished(reconciler({ [TOWN]: 250 }, {}));
+
+    const id = recovery.beginAttempt(GALA, '1000', 12.5);
+    recovery.recordHop(id, 'tx-1', TOWN);
+    await recovery.failAttempt(id, 'network error');
+    await recovery.flush();
+
+    expect(mockSaves[mockSaves.length - 1]).toMatchObject({ id, status: 'failed' });
+    expect(createAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close a failed attempt without recovery when no hop landed', async () => {
+    await recovery.resumeUnfinished(reconciler({}, {}));
+
+    const id = recovery.beginAttempt(GALA, '1000', 12.5);
+    await recovery.failAttempt(id, 'quote expired');
+    await recovery.flush();
+
+    expect(mockSaves[mockSaves.length - 1]).toMatchObject({ status: 'recovered', recoveryActions: [] });
+    expect(recovery.getRecoveryStatus().consecutiveFailures).toBe(1);
+  });
+
+  it('should reconcile unfinished attempts on restart and resume only what is still held', async () => {
+    mockFind.mockResolvedValue([
+      // Every hop landed before the crash and nothing is held
+      record({ id: 'arb-done', tokenOut: GALA, transactionIds: ['tx-a', 'tx-b', 'tx-c'] }),
+      // Crashed between hops while an emergency exit was running; TOWN is still held
+      record({
+        id: 'arb-stuck',
+        status: 'failed',
+        transactionIds: ['tx-d'],
+        actualResult: { success: false, error: 'network error' },
+        recoveryActions: [{ type: 'EMERGENCY_EXIT', executedAt: 1700000001000, success: false, details: '' }]
+      }),
+      // Never got past the first hop; the GALA in the wallet is not the attempt's to unwind
+      record({ id: 'arb-empty', status: 'failed', tokenOut: GALA, actualResult: { success: false, error: 'timeout' } })
+    ]);
+
+    const summary = await recovery.resumeUnfinished(reconciler(
+      { [TOWN]: 250, [GALA]: 5000 },
+      { 'tx-a': 'CONFIRMED', 'tx-b': 'CONFIRMED', 'tx-c': 'CONFIRMED', 'tx-d': 'CONFIRMED' }
+    ));
+    await recovery.flush();
+
+    expect(mockFind).toHaveBeenCalledWith(expect.objectContaining({ order: { timestamp: 'ASC' } }));
+    expect(summary).toEqual({ unfinished: 3, completed: 1, nothingHeld: 1, recovered: 1, unresolved: 0 });
+
+    const last = (id: string) => mockSaves.filter(save => save.id === id).pop()!;
+    expect(last('arb-done').status).toBe('successful');
+    expect(last('arb-empty').status).toBe('recovered');
+
+    // The interrupted emergency exit is retried first and replaces its unfinished entry
+    expect(last('arb-stuck')).toMatchObject({ status: 'recovered', timestamp: 1700000000000 });
+    expect(last('arb-stuck').recoveryActions).toEqual([
+      expect.objectContaining({ type: 'EMERGENCY_EXIT', success: true, completedAt: expect.any(Number) })
+    ]);
+    expect(executeSwap).toHaveBeenCalledTimes(1);
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({ tokenIn: TOWN, tokenOut: GALA, amountIn: '250' }));
+  });
+
+  it('should wait for unsettled hops before unwinding', async () => {
+    mockFind.mockResolvedValue([record({ id: 'arb-pending', transactionIds: ['tx-e'] })]);
+    const checks = reconciler({}, { 'tx-e': 'PENDING' });
+
+    const summary = await recovery.resumeUnfinished(checks);
+    await recovery.flush();
+
+    const actions = mockSaves.filter(save => save.id === 'arb-pending').pop()!.recoveryActions;
+    expect(actions.map(action => action.type)).toEqual(['WAIT_AND_RETRY', 'REVERSE_SWAP']);
+    expect(summary.recovered).toBe(1);
+  });
+
+  it('should write attempts begun before the journal opened and leave them to their caller on resume', async () => {
+    const id = recovery.beginAttempt(GALA, '1000', 12.5);
+    recovery.recordHop(id, 'tx-1', TOWN);
+    expect(mockSaves).toHaveLength(0);
+
+    // The live attempt is also in the table as pending, like one a crashed run left behind
+    mockFind.mockImplementation(async () => [record({ id, transactionIds: ['tx-1'] })]);
+    const checks = reconciler({ [TOWN]: 40 }, { 'tx-1': 'CONFIRMED' });
+
+    const summary = await recovery.resumeUnfinished(checks);
+
+    expect(mockSaves[0]).toMatchObject({ id, status: 'pending', tokenOut: TOWN, transactionIds: ['tx-1'] });
+    expect(summary.unfinished).toBe(0);
+    expect(checks.getBalance).not.toHaveBeenCalled();
+  });
+
+  it('should close an attempt the caller unwound itself without running recovery actions', async () => {
+    await recovery.open();
+    const id = recovery.beginAttempt(GALA, '1000', 12.5);
+    recovery.recordHop(id, 'tx-1', TOWN);
+
+    recovery.resolveAttempt(id, 'hop 2 failed');
+    await recovery.flush();
+
+    const last = mockSaves[mockSaves.length - 1];
+    expect(last).toMatchObject({ id, status: 'recovered', tokenOut: GALA, recoveryActions: [] });
+    expect(last.actualResult).toEqual({ success: false, error: 'hop 2 failed' });
+  });
+});
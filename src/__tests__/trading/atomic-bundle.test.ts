@@ -0,0 +1,144 @@
+/**
+ * Atomic Bundle Tests
+ * Per-hop minimum outputs, batch payload shape and the sequential fallback signal
+ */
+
+import {
+  AtomicBundleError,
+  AtomicBundleExecutor,
+  BundleNotSupportedError,
+  BundleRejectedError,
+  buildBatchSwapPayload,
+  planAtomicHops
+} from '../../trading/execution/atomic-bundle';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+const GALA = 'GALA|Unit|none|none';
+const GUSDC = 'GUSDC|Unit|none|none';
+const TOWN = 'TOWN|Unit|none|none';
+const WALLET = 'eth|' + '1'.repeat(40);
+
+// GALA → GUSDC → TOWN → GALA at a 3% edge
+const RATES: Record<string, number> = { [`${GALA}>${GUSDC}`]: 0.04, [`${GUSDC}>${TOWN}`]: 2, [`${TOWN}>${GALA}`]: 12.875 };
+const quoteHop = jest.fn(async (tokenIn: string, tokenOut: string, amountIn: number) => amountIn * RATES[`${tokenIn}>${tokenOut}`]);
+
+function jsonResponse(status: number, body: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    json: async () => body
+  } as Response;
+}
+
+describe('planAtomicHops', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should feed each hop the previous quoted output and floor the last hop at the input', async () => {
+    const hops = await planAtomicHops([GALA, GUSDC, TOWN, GALA], [3000, 3000, 10000], 1000, quoteHop, {
+      hopSlippagePercent: 0.5,
+      minFinalOutput: 1000
+    });
+
+    expect(hops).toHaveLength(3);
+    expect(hops![0]).toMatchObject({ amountIn: 1000, expectedOutput: 40, amountOutMinimum: 40 });
+    expect(hops![1]).toMatchObject({ amountIn: 40, expectedOutput: 80, amountOutMinimum: 80 });
+    expect(hops![2].amountIn).toBe(80);
+    expect(hops![2].amountOutMinimum).toBeCloseTo(1030 * 0.995, 6);
+    expect(hops![2].feeTier).toBe(10000);
+    expect(hops![2].amountOutMinimum).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should refuse a cycle whose live output no longer clears the floor', async () => {
+    const hops = await planAtomicHops([GALA, GUSDC, TOWN, GALA], [3000, 3000, 10000], 1000, quoteHop, {
+      hopSlippagePercent: 0.5,
+      minFinalOutput: 1040
+    });
+
+    expect(hops).toBeNull();
+  });
+});
+
+describe('AtomicBundleExecutor', () => {
+  const originalFetch = global.fetch;
+  const signer = { signBundleRequest: jest.fn(async () => ({ signature: '0xsig' })) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    AtomicBundleExecutor.resetSupport();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  async function plannedHops() {
+    return (await planAtomicHops([GALA, GUSDC, GALA], [3000, 3000], 1000, async (_in, _out, amount) => amount, {}))!;
+  }
+
+  it('should sign every hop into one batchSwap bundle and return the transaction id', async () => {
+    const fetchMock = jest.fn(async () => jsonResponse(200, { error: false, data: { data: 'tx-1', message: 'ok', error: false } }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const executor = new AtomicBundleExecutor(signer, { baseUrl: 'https://dex.test/', walletAddress: WALLET });
+
+    const txId = await executor.submit(await plannedHops());
+
+    expect(txId).toBe('tx-1');
+    expect(signer.signBundleRequest).toHaveBeenCalledWith(expect.objectContaining({ atomic: true }), 'batchSwap');
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://dex.test/v1/trade/bundle');
+    const request = JSON.parse(init.body as string);
+    expect(request).toMatchObject({ type: 'batchSwap', signature: '0xsig', user: WALLET });
+    expect(request.payload.operations).toHaveLength(2);
+    expect(request.payload.operations[1]).toMatchObject({ fee: 3000, recipient: WALLET, tokenIn: { collection: 'GUSDC' } });
+  });
+
+  it('should signal a fallback and stop trying once the backend rejects batched swaps', async () => {
+    global.fetch = jest.fn(async () => jsonResponse(400, { error: true, message: 'Unknown bundle type batchSwap' })) as unknown as typeof fetch;
+    const executor = new AtomicBundleExecutor(signer, { baseUrl: 'https://dex.test', walletAddress: WALLET });
+
+    await expect(executor.submit(await plannedHops())).rejects.toThrow(BundleNotSupportedError);
+    expect(executor.isSupported()).toBe(false);
+    await expect(executor.submit(await plannedHops())).rejects.toThrow(BundleNotSupportedError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should signal a fallback for other rejections without giving up on bundles', async () => {
+    global.fetch = jest.fn(async () => jsonResponse(400, { error: true, message: 'amountOutMinimum must be positive' })) as unknown as typeof fetch;
+    const executor = new AtomicBundleExecutor(signer, { baseUrl: 'https://dex.test', walletAddress: WALLET });
+
+    const submission = executor.submit(await plannedHops());
+
+    await expect(submission).rejects.toThrow(BundleRejectedError);
+    await expect(submission).rejects.not.toThrow(BundleNotSupportedError);
+    expect(executor.isSupported()).toBe(true);
+  });
+
+  it('should not fall back once the backend accepted a bundle without a transaction id', async () => {
+    global.fetch = jest.fn(async () => jsonResponse(200, { error: false, data: { message: 'queued', error: false } })) as unknown as typeof fetch;
+    const executor = new AtomicBundleExecutor(signer, { baseUrl: 'https://dex.test', walletAddress: WALLET });
+
+    const submission = executor.submit(await plannedHops());
+
+    await expect(submission).rejects.toThrow(AtomicBundleError);
+    await expect(submission).rejects.not.toThrow(BundleRejectedError);
+  });
+
+  it('should build a unique payload per bundle', () => {
+    const hop = { tokenIn: GALA, tokenOut: GUSDC, feeTier: 3000, amountIn: 1.123456789, expectedOutput: 0.04, amountOutMinimum: 0.039 };
+
+    const first = buildBatchSwapPayload([hop], WALLET);
+    const second = buildBatchSwapPayload([hop], WALLET);
+
+    expect(first.uniqueKey).not.toBe(second.uniqueKey);
+    expect(first.operations[0].amount).toBe('1.12345678');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * EmergencyControls Persistence Tests
+ * Emergency state, history and liquidation progress survive a restart
+ */
+
+import { TradingConfig } from '../../config/environment';
+import { GSwap } from '../../services/gswap-simple';
+import { SwapExecutor } from '../../trading/execution/swap-executor';
+import { EmergencyControls, EmergencyStopActiveError } from '../../trading/risk/emergency-controls';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+// Rows are JSON round-tripped like the json columns in the real table
+const mockRows = new Map<string, string>();
+
+jest.mock('../../config/database', () => ({
+  getEmergencyStateRepository: jest.fn().mockResolvedValue({
+    findOne: jest.fn(async ({ where }) => {
+      const row = mockRows.get(where.walletAddress);
+      return row ? JSON.parse(row) : null;
+    }),
+    create: jest.fn(record => record),
+    save: jest.fn(async record => {
+      mockRows.set(record.walletAddress, JSON.stringify(record));
+      return record;
+    })
+  })
+}));
+
+jest.mock('../../monitoring/alerts', () => ({
+  AlertSystem: jest.fn().mockImplementation(() => ({
+    createAlert: jest.fn().mockResolvedValue(undefined),
+    systemAlert: jest.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+const WALLET = 'eth|0x0000000000000000000000000000000000000001';
+
+describe('EmergencyControls persistence', () => {
+  const createControls = (): EmergencyControls =>
+    new EmergencyControls(
+      { wallet: { address: WALLET } } as unknown as TradingConfig,
+      {} as GSwap,
+      {} as SwapExecutor,
+      WALLET
+    );
+
+  beforeEach(() => {
+    mockRows.clear();
+  });
+
+  it('should stay in memory until restoreState attaches the database', async () => {
+    const controls = createControls();
+    await controls.activateEmergencyStop('MANUAL_STOP', 'no persistence yet');
+
+    const restarted = createControls();
+    expect(await restarted.restoreState()).toBe(false);
+    expect(restarted.isEmergencyStopEnabled()).toBe(false);
+  });
+
+  it('should restore an active stop, its history and trigger counters after a restart', async () => {
+    const controls = createControls();
+    await controls.restoreState();
+    await controls.activateEmergencyStop('PORTFOLIO_LOSS', 'Portfolio down 25%');
+    controls.recordApiFailure('timeout');
+    controls.recordSystemError('boom');
+
+    const restarted = createControls();
+    expect(await restarted.restoreState()).toBe(true);
+    expect(restarted.isEmergencyStopEnabled()).toBe(true);
+
+    const status = restarted.getEmergencyStatus();
+    expect(status).toMatchObject({
+      isActive: true,
+      type: 'PORTFOLIO_LOSS',
+      reason: 'Portfolio down 25%',
+      apiFailureCount: 1,
+      errorCount: 1,
+      consecutiveFailures: 2
+    });
+    expect(status.activatedAt).toBeGreaterThan(0);
+    expect(status.actionsExecuted.map(action => action.type)).toEqual(['STOP_TRADING', 'ALERT_ADMIN', 'SAFE_MODE']);
+    expect(restarted.getEmergencyHistory()).toEqual([
+      expect.objectContaining({ action: 'ACTIVATE_EMERGENCY_STOP', type: 'PORTFOLIO_LOSS' })
+    ]);
+  });
+
+  it('should persist liquidation progress per position', async () => {
+    const controls = createControls();
+    await controls.restoreState();
+    const internals = controls as unknown as Record<string, () => Promise<unknown>>;
+    jest.spyOn(internals, 'getCurrentPositions').mockResolvedValue([
+      { token: 'GALA|Unit|none|none', amount: 50000, valueUSD: 1000, percentOfPortfolio: 0.6, age: 0 },
+      { token: 'TOWN|Unit|none|none', amount: 1000, valueUSD: 30, percentOfPortfolio: 0.1, age: 0 }
+    ]);
+    jest.spyOn(internals, 'executeLiquidation')
+      .mockResolvedValueOnce({ success: true, value: 950 })
+      .mockResolvedValueOnce({ success: false, value: 0, error: 'No route' });
+
+    await controls.activateEmergencyStop('MARKET_CRASH', 'GALA -40%', true);
+
+    const restarted = createControls();
+    await restarted.restoreState();
+
+    expect(restarted.getLiquidationProgress()).toEqual([
+      expect.objectContaining({ token: 'GALA|Unit|none|none', status: 'COMPLETED', value: 950 }),
+      expect.objectContaining({ token: 'TOWN|Unit|none|none', status: 'FAILED', error: 'No route' })
+    ]);
+    expect(restarted.getEmergencyStatus()).toMatchObject({
+      totalPositionsLiquidated: 1,
+      totalValueLiquidated: 950
+    });
+  });
+
+  it('should only clear a persisted stop through deactivateEmergencyStop', async () => {
+    const controls = createControls();
+    await controls.restoreState();
+    await controls.activateEmergencyStop('SYSTEM_ERROR', 'Crash loop');
+
+    const afterCrash = createControls();
+    expect(await afterCrash.restoreState()).toBe(true);
+    await afterCrash.deactivateEmergencyStop('Root cause fixed');
+
+    const afterRecovery = createControls();
+    expect(await afterRecovery.restoreState()).toBe(false);
+    expect(afterRecovery.isEmergencyStopEnabled()).toBe(false);
+    expect(afterRecovery.getEmergencyStatus().recoveryMode).toBe(true);
+    expect(afterRecovery.getEmergencyHistory().map(entry => entry.action)).toEqual([
+      'ACTIVATE_EMERGENCY_STOP',
+      'DEACTIVATE_EMERGENCY_STOP'
+    ]);
+  });
+
+  it('should describe the persisted stop in EmergencyStopActiveError', () => {
+    const error = new EmergencyStopActiveError('DAILY_LOSS', 'Daily loss 12%', Date.UTC(2025, 0, 1));
+
+    expect(error.name).toBe('EmergencyStopActiveError');
+    expect(error.message).toContain('DAILY_LOSS: Daily loss 12%');
+    expect(error.message).toContain('2025-01-01T00:00:00.000Z');
+    expect(error.message).toContain('deactivateEmergencyStop');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tax-Lot Accounting Tests
+ * Lot matching per cost-basis method, liquidity basis carry-over, fee income and tax export rows
+ */
+
+import { LedgerEvent, LedgerLeg, TaxLedger, buildTaxReport, disposalsToTaxRows } from '../../trading/accounting/tax-lots';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../services/pool-discovery', () => ({
+  poolDiscovery: { getCachedPools: () => [] }
+}));
+
+const mockSave = jest.fn(async (record: unknown) => record);
+
+jest.mock('../../config/database', () => ({
+  getTaxLedgerRepository: jest.fn().mockResolvedValue({
+    create: jest.fn(record => record),
+    save: (record: unknown) => mockSave(record)
+  })
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+function leg(token: string, amount: number, valueUSD: number | null): LedgerLeg {
+  return { token, amount, valueUSD };
+}
+
+function swap(id: string, day: number, sent: LedgerLeg, received: LedgerLeg): LedgerEvent {
+  return { id, kind: 'swap', timestamp: T0 + day * DAY, sent: [sent], received: [received] };
+}
+
+// Two GALA buys at different prices, then a partial sale
+const EVENTS: LedgerEvent[] = [
+  swap('buy-1', 0, leg('GUSDC', 100, 100), leg('GALA', 1000, 100)), // $0.10
+  swap('buy-2', 10, leg('GUSDC', 300, 300), leg('GALA', 1000, 300)), // $0.30
+  swap('sell', 400, leg('GALA', 1500, 375), leg('GUSDC', 375, 375)) // $0.25
+];
+
+describe('buildTaxReport', () => {
+  it.each([
+    ['fifo', [[1000, 100, 'long'], [500, 150, 'long']], 125],
+    ['lifo', [[1000, 300, 'long'], [500, 50, 'long']], 25],
+    ['hifo', [[1000, 300, 'long'], [500, 50, 'long']], 25],
+    ['average', [[1000, 200, 'long'], [500, 100, 'long']], 75]
+  ] as const)('should match the sale to lots with %s', (method, slices, realized) => {
+    const report = buildTaxReport(EVENTS, method);
+
+    const galaDisposals = report.disposals.filter(disposal => disposal.token === 'GALA');
+    expect(galaDisposals.map(disposal => [disposal.amount, disposal.costBasisUSD, disposal.term]))
+      .toEqual(slices.map(([amount, basis, term]) => [amount, expect.closeTo(basis, 6), term]));
+    expect(galaDisposals.reduce((sum, disposal) => sum + disposal.proceedsUSD, 0)).toBeCloseTo(375, 6);
+    expect(galaDisposals.reduce((sum, disposal) => sum + disposal.gainUSD, 0)).toBeCloseTo(realized, 6);
+
+    // 500 GALA stay open at $0.40: unrealized PnL against what is left of the basis
+    const report2 = buildTaxReport(EVENTS, method, { priceUSD: token => (token === 'GALA' ? 0.4 : 1) });
+    const gala = report2.holdings.find(holding => holding.token === 'GALA')!;
+    expect(gala.amount).toBeCloseTo(500, 6);
+    expect(gala.unrealizedUSD).toBeCloseTo(200 - (400 - (375 - realized)), 6);
+  });
+
+  it('should carry basis through a liquidity position and book collected fees as income', () => {
+    const events: LedgerEvent[] = [
+      swap('buy', 0, leg('GUSDC', 100, 100), leg('GALA', 1000, 100)),
+      { id: 'add', kind: 'liquidity_add', timestamp: T0 + DAY, positionId: 'pos-1', sent: [leg('GALA', 1000, 150), leg('GUSDC', 50, 50)], received: [] },
+      { id: 'fees', kind: 'fee_collection', timestamp: T0 + 2 * DAY, positionId: 'pos-1', sent: [], received: [leg('GALA', 20, 4), leg('GUSDC', 0, 0)] },
+      // Half the liquidity comes back as 400 GALA ($80) and 40 GUSDC ($40)
+      { id: 'remove', kind: 'liquidity_remove', timestamp: T0 + 3 * DAY, positionId: 'pos-1', liquidityFraction: 0.5, sent: [], received: [leg('GALA', 400, 80), leg('GUSDC', 40, 40)] }
+    ];
+
+    const report = buildTaxReport(events, 'fifo');
+
+    // Depositing is not a disposal; the 50 GUSDC had no lot, carries no basis and dates the position to the deposit
+    expect(report.disposals.filter(disposal => disposal.eventId === 'add')).toEqual([]);
+    expect(report.income).toEqual([expect.objectContaining({ token: 'GALA', amount: 20, valueUSD: 4, positionId: 'pos-1' })]);
+    expect(report.incomeUSD).toBe(4);
+    expect(report.liquidity).toEqual([{ positionId: 'pos-1', costBasisUSD: 50, acquiredAt: T0 + DAY }]);
+
+    const gala = report.holdings.find(holding => holding.token === 'GALA')!;
+    expect(gala.lots.map(lot => [lot.amount, lot.costBasisUSD, lot.acquiredAt])).toEqual([
+      [20, 4, T0 + 2 * DAY],
+      [400, expect.closeTo(50 * 80 / 120, 6), T0 + DAY] // Withdrawn tokens keep the position's holding period
+    ]);
+  });
+
+  it('should report disposals with no lot and limit rows to the period', () => {
+    const events = [...EVENTS, swap('sell-untracked', 401, leg('TOWN', 10, 5), leg('GUSDC', 5, 5))];
+
+    const report = buildTaxReport(events, 'fifo', { from: new Date(T0 + 401 * DAY) });
+
+    expect(report.disposals).toEqual([
+      expect.objectContaining({ eventId: 'sell-untracked', token: 'TOWN', acquiredAt: null, costBasisUSD: 0, gainUSD: 5, unmatched: true })
+    ]);
+    expect(disposalsToTaxRows(report.disposals)).toEqual([{
+      'Description': '10 TOWN',
+      'Date Acquired': 'VARIOUS',
+      'Date Sold': '2026-02-06',
+      'Proceeds': '5.00',
+      'Cost Basis': '0.00',
+      'Gain or Loss': '5.00',
+      'Term': 'Short-term',
+      'Notes': 'no acquisition lot'
+    }]);
+  });
+});
+
+describe('TaxLedger', () => {
+  it('should value swaps at what was received and liquidity legs at their own prices', async () => {
+    const prices: Record<string, number> = { GUSDC: 1, GALA: 0.02 };
+    const ledger = new TaxLedger(token => prices[token] ?? null);
+
+    ledger.recordSwap({ tokenIn: 'GUSDC|Unit|none|none', amountIn: 20, tokenOut: 'GALA$Unit$none$none', amountOut: 990, transactionId: 'tx-1' });
+    ledger.recordSwap({ tokenIn: 'GALA|Unit|none|none', amountIn: 100, tokenOut: 'TOWN|Unit|none|none', amountOut: 7 });
+    ledger.recordLiquidityAdd({ positionId: 'pos-1', tokens: [{ token: 'GALA|Unit|none|none', amount: 500 }, { token: 'TOWN|Unit|none|none', amount: 7 }] });
+
+    const [buy, unpricedOut, add] = await ledger.find();
+    expect(buy).toMatchObject({ kind: 'swap', reference: 'tx-1', sent: [leg('GUSDC', 20, 19.8)], received: [leg('GALA', 990, 19.8)] });
+    expect(unpricedOut.received).toEqual([leg('TOWN', 7, 2)]); // Falls back to the GALA sent
+    expect(add).toMatchObject({ kind: 'liquidity_add', positionId: 'pos-1', sent: [leg('GALA', 500, 10), leg('TOWN', 7, null)] });
+  });
+
+  it('should hold events in memory only until the database is attached', async () => {
+    const ledger = new TaxLedger(() => 1);
+    ledger.recordSwap({ tokenIn: 'GUSDC|Unit|none|none', amountIn: 20, tokenOut: 'GALA|Unit|none|none', amountOut: 990, transactionId: 'tx-1' });
+
+    await ledger.open();
+    ledger.recordSwap({ tokenIn: 'GALA|Unit|none|none', amountIn: 990, tokenOut: 'GUSDC|Unit|none|none', amountOut: 21, transactionId: 'tx-2' });
+    await ledger.flush();
+
+    expect(mockSave.mock.calls.map(([record]) => (record as LedgerEvent).reference)).toEqual(['tx-1', 'tx-2']);
+    expect(ledger['events']).toHaveLength(0);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Trade Journal Tests
+ * Lifecycle transitions, ordered persistence and journal queries
+ */
+
+import { TradeJournal, hashPayload } from '../../trading/execution/trade-journal';
+import { SwapRequest } from '../../trading/execution/swap-executor';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+// Every save is recorded as a JSON snapshot, like a json column round-trip
+const mockSaves: Array<{ id: string; status: string; transitions: unknown[] }> = [];
+const mockFind = jest.fn().mockResolvedValue([]);
+
+jest.mock('../../config/database', () => ({
+  getTradeRepository: jest.fn().mockResolvedValue({
+    create: jest.fn(record => record),
+    save: jest.fn(async record => {
+      await new Promise(resolve => setTimeout(resolve, Math.random() * 5));
+      mockSaves.push(JSON.parse(JSON.stringify(record)));
+      return record;
+    }),
+    find: (...args: unknown[]) => mockFind(...args)
+  })
+}));
+
+const request: SwapRequest = {
+  tokenIn: 'GALA|Unit|none|none',
+  tokenOut: { collection: 'GUSDC', category: 'Unit', type: 'none', additionalKey: 'none' },
+  amountIn: '100',
+  userAddress: 'eth|0x0000000000000000000000000000000000000001',
+  strategy: 'triangle-arbitrage'
+};
+
+describe('TradeJournal', () => {
+  let journal: TradeJournal;
+
+  beforeEach(() => {
+    mockSaves.length = 0;
+    mockFind.mockClear();
+    journal = new TradeJournal();
+  });
+
+  it('should persist every transition in order with attribution', async () => {
+    await journal.open();
+
+    const id = journal.begin(request);
+    journal.transition(id, 'QUOTED', { quotedAmountOut: '2.5', quotedSlippage: 0.001 });
+    journal.transition(id, 'SUBMITTED', { payloadHash: hashPayload({ swap: 1 }), transactionId: 'tx-1' });
+    journal.transition(id, 'CONFIRMED', { amountOut: '2.49', executionTime: 1200 });
+    await journal.flush();
+
+    expect(mockSaves.map(save => save.status)).toEqual(['REQUESTED', 'QUOTED', 'SUBMITTED', 'CONFIRMED']);
+    expect(mockSaves[3]).toMatchObject({
+      id,
+      strategy: 'triangle-arbitrage',
+      tokenIn: 'GALA|Unit|none|none',
+      tokenOut: 'GUSDC|Unit|none|none',
+      quotedAmountOut: '2.5',
+      transactionId: 'tx-1',
+      amountOut: '2.49'
+    });
+    expect(mockSaves[3].transitions).toHaveLength(4);
+    expect(journal.getOpenTrade(id)).toBeUndefined();
+  });
+
+  it('should ignore transitions on closed trades', async () => {
+    await journal.open();
+
+    const id = journal.begin(request);
+    journal.transition(id, 'REJECTED', { error: 'Slippage too high' }, 'Slippage too high');
+    journal.transition(id, 'CONFIRMED');
+    await journal.flush();
+
+    expect(mockSaves.map(save => save.status)).toEqual(['REQUESTED', 'REJECTED']);
+    expect(mockSaves[1].transitions[1]).toMatchObject({ status: 'REJECTED', note: 'Slippage too high' });
+  });
+
+  it('should write trades still open when the database is attached', async () => {
+    const id = journal.begin(request);
+    journal.transition(id, 'QUOTED');
+    expect(mockSaves).toHaveLength(0);
+
+    await journal.open();
+    await journal.flush();
+
+    expect(mockSaves).toHaveLength(1);
+    expect(mockSaves[0]).toMatchObject({ id, status: 'QUOTED' });
+  });
+
+  it('should write trades that finished before the database was attached', async () => {
+    const id = journal.begin(request);
+    journal.transition(id, 'SUBMITTED', { transactionId: 'tx-1' });
+    journal.transition(id, 'CONFIRMED', { amountOut: '2.49' });
+
+    await journal.open();
+    await journal.open();
+    await journal.flush();
+
+    expect(mockSaves).toHaveLength(1);
+    expect(mockSaves[0]).toMatchObject({ id, status: 'CONFIRMED', transactionId: 'tx-1', amountOut: '2.49' });
+    expect(mockSaves[0].transitions).toHaveLength(3);
+  });
+
+  it('should query trades newest first with filters', async () => {
+    await journal.find({ strategy: 'arbitrage', from: new Date('2026-01-01'), limit: 10 });
+
+    expect(mockFind).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ strategy: 'arbitrage', createdAt: expect.anything() }),
+      order: { createdAt: 'DESC' },
+      take: 10
+    }));
+  });
+
+  it('should hash payloads deterministically', () => {
+    expect(hashPayload({ a: 1 })).toBe(hashPayload({ a: 1 }));
+    expect(hashPayload({ a: 1 })).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashPayload({ a: 2 })).not.toBe(hashPayload({ a: 1 }));
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Trade Sizer Tests
+ * Golden-section size search over a route's quote curve and the position/wallet size cap
+ */
+
+import { getTradeSizeCap, optimizeTradeSize, routeQuoter } from '../../trading/execution/trade-sizer';
+import { getMaxSafeTradeSize } from '../../utils/wallet-balance';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../utils/wallet-balance', () => ({
+  getMaxSafeTradeSize: jest.fn()
+}));
+
+jest.mock('../../services/pool-discovery', () => ({
+  poolDiscovery: { getCachedPools: () => [] }
+}));
+
+// Constant-product pool of depth `reserve` that pays a 2% edge: out = 1.02 x R / (R + x)
+function edgeCurve(reserve: number) {
+  return async (amountIn: number) => (1.02 * amountIn * reserve) / (reserve + amountIn);
+}
+
+describe('optimizeTradeSize', () => {
+  it('should find the size with the highest net profit on a concave curve', async () => {
+    const quote = jest.fn(edgeCurve(100000));
+
+    const result = await optimizeTradeSize(quote, { minAmount: 10, maxAmount: 50000, gasCost: 1, slippageBuffer: 0 });
+
+    // Net profit x(1.02R/(R+x) - 1) - gas peaks at x = R(sqrt(1.02) - 1)
+    const peak = 100000 * (Math.sqrt(1.02) - 1);
+    expect(result).not.toBeNull();
+    expect(result!.amountIn).toBeGreaterThan(peak * 0.97);
+    expect(result!.amountIn).toBeLessThan(peak * 1.03);
+    expect(result!.netProfit).toBeCloseTo(peak * (1.02 * 100000 / (100000 + peak) - 1) - 1, 0);
+    expect(result!.limitedByCap).toBe(false);
+    expect(quote.mock.calls.length).toBeLessThanOrEqual(20);
+  });
+
+  it('should stop at the cap when more size would still pay', async () => {
+    const result = await optimizeTradeSize(edgeCurve(100000), { minAmount: 10, maxAmount: 200, gasCost: 1, slippageBuffer: 0 });
+
+    expect(result!.amountIn).toBeCloseTo(200, 6);
+    expect(result!.limitedByCap).toBe(true);
+  });
+
+  it('should return null when gas and the slippage buffer eat every size', async () => {
+    const unprofitable = await optimizeTradeSize(edgeCurve(100000), { minAmount: 10, maxAmount: 50000, gasCost: 500 });
+    const unquotable = await optimizeTradeSize(async () => null, { minAmount: 10, maxAmount: 50000, gasCost: 0 });
+
+    expect(unprofitable).toBeNull();
+    expect(unquotable).toBeNull();
+  });
+
+  it('should chain hop quotes through a closed route', async () => {
+    const quoteHop = jest.fn(async (tokenIn: string, _tokenOut: string, amountIn: number) =>
+      tokenIn === 'GALA' ? amountIn * 0.04 : amountIn / 0.039);
+
+    const output = await routeQuoter(['GALA', 'GUSDC', 'GALA'], quoteHop)(1000);
+
+    expect(output).toBeCloseTo(1000 * 0.04 / 0.039, 8);
+    expect(quoteHop).toHaveBeenCalledWith('GUSDC', 'GALA', expect.closeTo(40, 8));
+  });
+});
+
+describe('getTradeSizeCap', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should take the smallest of the configured, position-limit and wallet caps', async () => {
+    (getMaxSafeTradeSize as jest.Mock).mockResolvedValue(750);
+    const positionLimits = { getCurrentLimits: () => ({ maxPositionSize: 1000 }) };
+
+    const cap = await getTradeSizeCap({ tokenSymbol: 'GALA', configuredMax: 5000, positionLimits, walletAddress: 'eth|abc' });
+
+    expect(cap).toBe(750);
+    expect(getMaxSafeTradeSize).toHaveBeenCalledWith('eth|abc', 'GALA', 0.5);
+    expect(await getTradeSizeCap({ tokenSymbol: 'GALA', configuredMax: 5000, positionLimits })).toBe(1000);
+    expect(await getTradeSizeCap({ tokenSymbol: 'GALA' })).toBe(0);
+  });
+});
@@ -26,6 +26,11 @@ jest.mock('../../config/database', () => ({
     create: jest.fn().mockReturnValue({}),
     update: jest.fn().mockResolvedValue({})
   }),
+  getEmergencyStateRepository: jest.fn().mockResolvedValue({
+    findOne: jest.fn().mockResolvedValue(null),
+    create: jest.fn().mockImplementation(record => record),
+    save: jest.fn().mockResolvedValue({})
+  }),
   getTradeRepository: jest.fn().mockReturnValue({
     find: jest.fn().mockResolvedValue([]),
     save: jest.fn().mockResolvedValue({}),
@@ -53,6 +58,7 @@ const mockRangeOrderState = {
 // Mock LiquidityManager with proper state tracking
 jest.mock('../../services/liquidity-manager', () => ({
   LiquidityManager: jest.fn().mockImplementation(() => ({
+    setTaxLedger: jest.fn(),
     addLiquidityByPrice: jest.fn().mockImplementation(async (params) => {
       const positionId = `lp_test${++mockLiquidityState.positionCounter}`;
 
@@ -177,7 +183,8 @@ jest.mock('../../strategies/market-making-strategy', () => ({
       totalPositions: 0,
       activeOrders: 0
     }),
-    getActivePositions: jest.fn().mockResolvedValue([])
+    getActivePositions: jest.fn().mockResolvedValue([]),
+    handleRebalanceSignal: jest.fn().mockResolvedValue(null)
   }))
 }));
 
@@ -191,6 +198,8 @@ jest.mock('../../services/rebalance-engine', () => ({
       success: true,
       transactionId: 'rebalance_test123'
     }),
+    cancelPendingActions: jest.fn().mockReturnValue(0),
+    executeQueuedRestructures: jest.fn().mockResolvedValue(0),
     getStatus: jest.fn().mockReturnValue({
       isActive: false
     })
@@ -500,6 +509,29 @@ describe('TradingEngine Liquidity Integration', () => {
       // Medium urgency signal should only execute in low risk conditions (not validated in this simplified test)
     });
 
+    it('should leave positions market making has moved to it alone', async () => {
+      const signal = {
+        positionId: 'lp_test123',
+        signalType: 'price_deviation' as const,
+        strength: 0.8,
+        confidence: 0.9,
+        urgency: 'high' as const,
+        trigger: { currentPrice: 0.048, thresholdBreached: 0.02 },
+        timestamp: Date.now()
+      };
+
+      const rebalanceEngine = tradingEngine['rebalanceEngine'];
+      const marketMakingStrategy = tradingEngine['marketMakingStrategy'];
+      (rebalanceEngine.checkRebalanceSignals as jest.Mock).mockResolvedValueOnce([signal]);
+      (rebalanceEngine.executeRebalance as jest.Mock).mockClear();
+      (marketMakingStrategy.handleRebalanceSignal as jest.Mock).mockResolvedValueOnce({ type: 'adjust', positionId: 'lp_test123' });
+
+      await tradingEngine['executeTradingCycle']();
+
+      expect(rebalanceEngine.cancelPendingActions).toHaveBeenCalledWith('lp_test123');
+      expect(rebalanceEngine.executeRebalance).not.toHaveBeenCalled();
+    });
+
     it('should collect optimal fees during trading cycle', async () => {
       // Add some positions
       const mockPositions = [
@@ -0,0 +1,225 @@
+/**
+ * Wallet Fleet Tests
+ * Per-wallet configuration parsing and portfolio/risk aggregation across wallet engines
+ */
+
+import { BotConfig, configForWallet, parseAdditionalWallets } from '../../config/environment';
+import { FleetEngine, WalletFleet } from '../../trading/wallet-fleet';
+import { TradingMode } from '../../types/trading';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../trading/TradingEngine', () => ({
+  TradingEngine: jest.fn()
+}));
+
+const PRIMARY = 'eth|0x0000000000000000000000000000000000000001';
+const SANDBOX = 'eth|0x0000000000000000000000000000000000000002';
+const KEY = '0x' + 'ab'.repeat(32);
+
+function fakeEngine(walletId: string, address: string, overrides: {
+  totalValue?: number;
+  pnl?: number;
+  balances?: Array<{ token: string; amount: number; valueUSD: number }>;
+  emergencyActive?: boolean;
+  totalTrades?: number;
+  rangeOrders?: Array<{ orderId: string; pair: string; targetPrice: number }>;
+} = {}) {
+  return {
+    getWalletId: () => walletId,
+    getWalletAddress: () => address,
+    start: jest.fn().mockResolvedValue(undefined),
+    stop: jest.fn().mockResolvedValue(undefined),
+    getPortfolio: jest.fn().mockResolvedValue({
+      positions: [{ id: `${walletId}-lp` }],
+      balances: overrides.balances ?? [],
+      totalValue: overrides.totalValue ?? 0,
+      pnl: overrides.pnl ?? 0,
+      liquidityPositions: [{ id: `${walletId}-lp` }],
+      rangeOrders: [],
+      marketMakingPositions: []
+    }),
+    getRangeOrderBook: jest.fn().mockReturnValue(overrides.rangeOrders ?? []),
+    getStatus: jest.fn().mockReturnValue({
+      isRunning: true,
+      uptime: 10,
+      apiHealth: true,
+      strategies: {},
+      performance: { totalTrades: overrides.totalTrades ?? 0, successfulTrades: overrides.totalTrades ?? 0, totalVolume: 0, totalProfit: 0 },
+      market: {},
+      positions: {},
+      risk: { emergencyStop: overrides.emergencyActive ?? false }
+    }),
+    getRiskStatus: jest.fn().mockReturnValue({
+      emergencyStatus: { isActive: overrides.emergencyActive ?? false, walletId },
+      riskMonitor: {},
+      positionLimits: {},
+      slippageProtection: {}
+    }),
+    emergencyStop: jest.fn().mockResolvedValue(undefined),
+    deactivateEmergencyStop: jest.fn().mockResolvedValue(undefined),
+    executeManualTrade: jest.fn().mockResolvedValue({ success: true, transactionId: `${walletId}-tx` }),
+    hasLiquidityPosition: jest.fn((positionId: string) => positionId === `${walletId}-lp`),
+    getFeeCompoundPolicy: jest.fn().mockReturnValue({ enabled: false, walletId }),
+    setFeeCompoundPolicy: jest.fn().mockReturnValue({ enabled: true, walletId }),
+    clearFeeCompoundPolicy: jest.fn().mockReturnValue({ enabled: false, walletId }),
+    getFeeCompoundHistory: jest.fn().mockReturnValue([]),
+    queuePositionSplit: jest.fn(async (positionId: string) => ({ positionId, walletId })),
+    queuePositionMerge: jest.fn(async ([positionId]: string[]) => ({ positionId, walletId })),
+    getStrategyOrchestrator: jest.fn().mockReturnValue(null)
+  };
+}
+
+describe('parseAdditionalWallets', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('should read per-wallet addresses, keys, strategies and risk budgets', () => {
+    process.env.WALLETS = 'sandbox';
+    process.env.WALLET_SANDBOX_ADDRESS = SANDBOX;
+    process.env.WALLET_SANDBOX_PRIVATE_KEY = KEY;
+    process.env.WALLET_SANDBOX_STRATEGIES = 'market-making, liquidity';
+    process.env.WALLET_SANDBOX_RISK_MODE = 'market_making';
+    process.env.WALLET_SANDBOX_MAX_POSITION_SIZE = '250';
+    process.env.WALLET_SANDBOX_MAX_DAILY_LOSS_PERCENT = '0.02';
+
+    const [sandbox] = parseAdditionalWallets();
+
+    expect(sandbox).toEqual({
+      id: 'sandbox',
+      address: SANDBOX,
+      privateKeyEnv: 'WALLET_SANDBOX_PRIVATE_KEY',
+      strategies: ['market-making', 'liquidity'],
+      riskMode: TradingMode.MARKET_MAKING,
+      trading: { maxPositionSize: 250, maxDailyLossPercent: 0.02 },
+      maxPositionSize: 250
+    });
+
+    const config = { trading: { maxPositionSize: 10000, maxDailyVolume: 5000 }, wallet: { address: PRIMARY } } as BotConfig;
+    expect(configForWallet(config, sandbox).trading).toEqual({ maxPositionSize: 250, maxDailyVolume: 5000, maxDailyLossPercent: 0.02 });
+  });
+
+  it('should reject wallets with missing keys or unknown strategies', () => {
+    process.env.WALLETS = 'sandbox';
+    process.env.WALLET_SANDBOX_ADDRESS = SANDBOX;
+    expect(() => parseAdditionalWallets()).toThrow('WALLET_SANDBOX_PRIVATE_KEY');
+
+    process.env.WALLET_SANDBOX_PRIVATE_KEY = KEY;
+    process.env.WALLET_SANDBOX_STRATEGIES = 'yolo';
+    expect(() => parseAdditionalWallets()).toThrow('unknown strategy "yolo"');
+
+    process.env.WALLETS = 'primary';
+    expect(() => parseAdditionalWallets()).toThrow('reserved');
+  });
+});
+
+describe('WalletFleet', () => {
+  it('should aggregate portfolios across wallets and sum balances per token', async () => {
+    const fleet = new WalletFleet([
+      fakeEngine('primary', PRIMARY, { totalValue: 100, pnl: 5, balances: [{ token: 'GALA', amount: 1000, valueUSD: 40 }] }),
+      fakeEngine('sandbox', SANDBOX, { totalValue: 20, pnl: -1, balances: [{ token: 'GALA', amount: 100, valueUSD: 4 }, { token: 'GUSDC', amount: 16, valueUSD: 16 }] })
+    ] as unknown as FleetEngine[]);
+
+    const portfolio = await fleet.getPortfolio();
+
+    expect(portfolio.totalValue).toBe(120);
+    expect(portfolio.pnl).toBe(4);
+    expect(portfolio.balances).toEqual([
+      { token: 'GALA', amount: 1100, valueUSD: 44 },
+      { token: 'GUSDC', amount: 16, valueUSD: 16 }
+    ]);
+    expect(portfolio.liquidityPositions).toHaveLength(2);
+    expect(portfolio.wallets).toEqual([
+      { walletId: 'primary', address: PRIMARY, totalValue: 100, pnl: 5 },
+      { walletId: 'sandbox', address: SANDBOX, totalValue: 20, pnl: -1 }
+    ]);
+  });
+
+  it('should merge range order books across wallets by price', () => {
+    const fleet = new WalletFleet([
+      fakeEngine('primary', PRIMARY, { rangeOrders: [{ orderId: 'ro_b1', pair: 'GALA/GUSDC', targetPrice: 0.05 }] }),
+      fakeEngine('sandbox', SANDBOX, { rangeOrders: [{ orderId: 'ro_b2', pair: 'GALA/GUSDC', targetPrice: 0.06 }] })
+    ] as unknown as FleetEngine[]);
+
+    expect(fleet.getRangeOrderBook().map(entry => [entry.orderId, entry.walletId])).toEqual([['ro_b2', 'sandbox'], ['ro_b1', 'primary']]);
+  });
+
+  it('should surface a sandbox emergency stop and route trades to the chosen wallet', async () => {
+    const primary = fakeEngine('primary', PRIMARY, { totalTrades: 3 });
+    const sandbox = fakeEngine('sandbox', SANDBOX, { emergencyActive: true, totalTrades: 1 });
+    const fleet = new WalletFleet([primary, sandbox] as unknown as FleetEngine[]);
+
+    expect(fleet.getRiskStatus().emergencyStatus).toMatchObject({ isActive: true, walletId: 'sandbox' });
+    expect(fleet.getStatus()).toMatchObject({ risk: { emergencyStop: true }, performance: { totalTrades: 4, successRate: '100.00%' } });
+
+    await expect(fleet.executeManualTrade({ tokenIn: 'GALA', tokenOut: 'GUSDC', amountIn: '10', walletId: 'sandbox' }))
+      .resolves.toMatchObject({ transactionId: 'sandbox-tx' });
+    expect(sandbox.executeManualTrade).toHaveBeenCalledWith({ tokenIn: 'GALA', tokenOut: 'GUSDC', amountIn: '10' });
+    expect(primary.executeManualTrade).not.toHaveBeenCalled();
+    await expect(fleet.executeManualTrade({ tokenIn: 'GALA', tokenOut: 'GUSDC', amountIn: '10', walletId: 'nope' }))
+      .resolves.toEqual({ success: false, error: 'Unknown wallet: nope' });
+
+    await fleet.emergencyStop('drill');
+    expect(primary.emergencyStop).toHaveBeenCalledWith('drill', false);
+    expect(sandbox.emergencyStop).toHaveBeenCalledWith('drill', false);
+  });
+
+  it('should route compound policies to the wallet holding the position', () => {
+    const primary = fakeEngine('primary', PRIMARY);
+    const sandbox = fakeEngine('sandbox', SANDBOX);
+    sandbox.getFeeCompoundHistory.mockReturnValue([{ positionId: 'sandbox-lp', timestamp: 1 }]);
+    primary.getFeeCompoundHistory.mockReturnValue([{ positionId: 'primary-lp', timestamp: 2 }]);
+    const fleet = new WalletFleet([primary, sandbox] as unknown as FleetEngine[]);
+
+    expect(fleet.setFeeCompoundPolicy('sandbox-lp', { enabled: true })).toEqual({ enabled: true, walletId: 'sandbox' });
+    expect(sandbox.setFeeCompoundPolicy).toHaveBeenCalledWith('sandbox-lp', { enabled: true });
+    expect(primary.setFeeCompoundPolicy).not.toHaveBeenCalled();
+
+    expect(fleet.getFeeCompoundPolicy('unknown-lp')).toMatchObject({ walletId: 'primary' });
+    expect(fleet.getFeeCompoundHistory().map(result => result.positionId)).toEqual(['sandbox-lp', 'primary-lp']);
+  });
+
+  it('should queue splits and merges on the wallet holding the positions', async () => {
+    const primary = fakeEngine('primary', PRIMARY);
+    const sandbox = fakeEngine('sandbox', SANDBOX);
+    const fleet = new WalletFleet([primary, sandbox] as unknown as FleetEngine[]);
+
+    expect(fleet.hasLiquidityPosition('sandbox-lp')).toBe(true);
+    expect(fleet.hasLiquidityPosition('unknown-lp')).toBe(false);
+
+    expect(await fleet.queuePositionSplit('sandbox-lp', { rungs: 3 })).toMatchObject({ walletId: 'sandbox' });
+    expect(await fleet.queuePositionMerge(['primary-lp', 'primary-lp-2'])).toMatchObject({ walletId: 'primary' });
+    expect(sandbox.queuePositionMerge).not.toHaveBeenCalled();
+  });
+
+  it('should expose the orchestrator of the first wallet that runs one', () => {
+    const primary = fakeEngine('primary', PRIMARY);
+    const sandbox = fakeEngine('sandbox', SANDBOX);
+    const orchestrator = { getStats: jest.fn() };
+    const fleet = new WalletFleet([primary, sandbox] as unknown as FleetEngine[]);
+
+    expect(fleet.getStrategyOrchestrator()).toBeNull();
+    sandbox.getStrategyOrchestrator.mockReturnValue(orchestrator);
+    expect(fleet.getStrategyOrchestrator()).toBe(orchestrator);
+  });
+
+  it('should stop already started wallets when one refuses to start', async () => {
+    const primary = fakeEngine('primary', PRIMARY);
+    const sandbox = fakeEngine('sandbox', SANDBOX);
+    sandbox.start.mockRejectedValue(new Error('emergency stop active'));
+    const fleet = new WalletFleet([primary, sandbox] as unknown as FleetEngine[]);
+
+    await expect(fleet.start()).rejects.toThrow('emergency stop active');
+    expect(primary.stop).toHaveBeenCalled();
+  });
+});
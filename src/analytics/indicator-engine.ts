@@ -0,0 +1,182 @@
+/**
+ * Indicator Engine
+ *
+ * Keeps one indicator set per token and candle interval, warmed up from stored OHLCV
+ * and extended as new candles close:
+ * - Candles pushed by the PriceCollector are applied as soon as their interval closes
+ * - Reads catch up from TimeSeriesDB only when a newer closed candle is due
+ * - Rewritten history (backfill, imports) invalidates the series so it is rebuilt
+ */
+
+import { timeSeriesDB, TimeSeriesDB, OHLCVData, INTERVAL_MS } from '../data/storage/timeseries-db';
+import { IntervalType, PriceOHLCV } from '../entities/analytics';
+import { logger } from '../utils/logger';
+import { TechnicalIndicators } from '../types/trading';
+import {
+  IndicatorCandle,
+  IndicatorConfig,
+  IndicatorSet,
+  IndicatorSnapshot,
+  toTechnicalIndicators
+} from './technical-indicators';
+
+export interface IndicatorEngineConfig {
+  indicators: Partial<IndicatorConfig>;
+  warmupCandles: number; // Stored candles replayed when a series is first read; 0 uses the longest indicator window x3
+}
+
+interface IndicatorSeries {
+  set: IndicatorSet;
+  lastStart: number | null; // Interval start of the last candle applied
+  checkedThrough: number | null; // Latest closed interval already looked up in the database
+}
+
+export class IndicatorEngine {
+  private config: IndicatorEngineConfig;
+  private series: Map<string, IndicatorSeries> = new Map();
+  private pending: Map<string, Promise<IndicatorSeries>> = new Map();
+
+  constructor(
+    config: Partial<IndicatorEngineConfig> = {},
+    private readonly db: TimeSeriesDB = timeSeriesDB,
+    private readonly now: () => number = Date.now
+  ) {
+    this.config = {
+      indicators: {},
+      warmupCandles: 0,
+      ...config
+    };
+  }
+
+  /**
+   * Latest indicator values for a token's closed candles, or null when none are stored
+   */
+  async getIndicators(token: string, intervalType: IntervalType): Promise<IndicatorSnapshot | null> {
+    const key = this.key(token, intervalType);
+
+    // Concurrent readers share one warm-up or catch-up query
+    let load = this.pending.get(key);
+    if (!load) {
+      load = this.sync(token.toUpperCase(), intervalType).finally(() => this.pending.delete(key));
+      this.pending.set(key, load);
+    }
+
+    const series = await load;
+    return series.set.snapshot;
+  }
+
+  /**
+   * Indicators in the TechnicalIndicators shape, null until every field has warmed up
+   */
+  async getTechnicalIndicators(token: string, intervalType: IntervalType): Promise<TechnicalIndicators | null> {
+    return toTechnicalIndicators(await this.getIndicators(token, intervalType));
+  }
+
+  /**
+   * Apply a freshly stored candle to a series that is already loaded.
+   * Candles still in progress are left for a later read; earlier or repeated candles are ignored.
+   */
+  ingest(candle: OHLCVData): void {
+    const series = this.series.get(this.key(candle.token, candle.intervalType));
+    if (!series) return;
+
+    const intervalMs = INTERVAL_MS[candle.intervalType];
+    if (candle.intervalStart + intervalMs > this.now()) return;
+    if (series.lastStart !== null && candle.intervalStart <= series.lastStart) return;
+
+    this.apply(series, {
+      timestamp: candle.intervalStart,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume
+    });
+  }
+
+  /**
+   * Drop cached series so they are rebuilt from the database on the next read
+   */
+  invalidate(token?: string, intervalType?: IntervalType): void {
+    for (const key of [...this.series.keys()]) {
+      const [seriesToken, seriesInterval] = key.split(':');
+      if (token && seriesToken !== token.toUpperCase()) continue;
+      if (intervalType && seriesInterval !== intervalType) continue;
+      this.series.delete(key);
+    }
+  }
+
+  /**
+   * Series currently held in memory
+   */
+  getCachedSeries(): Array<{ token: string; intervalType: IntervalType; candles: number; lastStart: number | null }> {
+    return [...this.series.entries()].map(([key, series]) => {
+      const [token, intervalType] = key.split(':');
+      return { token, intervalType: intervalType as IntervalType, candles: series.set.candles, lastStart: series.lastStart };
+    });
+  }
+
+  private async sync(token: string, intervalType: IntervalType): Promise<IndicatorSeries> {
+    const key = this.key(token, intervalType);
+    const intervalMs = INTERVAL_MS[intervalType];
+    const lastClosed = Math.floor(this.now() / intervalMs) * intervalMs - intervalMs;
+
+    let series = this.series.get(key);
+    if (!series) {
+      const set = new IndicatorSet(this.config.indicators);
+      const limit = this.config.warmupCandles || set.warmupCandles * 3;
+      const recent = await this.db.getOHLCV(token, { intervalType, endTime: lastClosed, orderBy: 'DESC', limit });
+
+      series = { set, lastStart: null, checkedThrough: lastClosed };
+      for (const candle of recent.reverse()) {
+        this.apply(series, toIndicatorCandle(candle));
+      }
+      this.series.set(key, series);
+      logger.debug(`Indicators for ${token} ${intervalType} warmed up from ${recent.length} candles`);
+      return series;
+    }
+
+    // Only query when a candle has closed since the last look and has not been pushed already
+    const behind = series.lastStart === null || series.lastStart < lastClosed;
+    if (behind && series.checkedThrough !== lastClosed) {
+      const newer = await this.db.getOHLCV(token, {
+        intervalType,
+        startTime: series.lastStart === null ? undefined : series.lastStart + intervalMs,
+        endTime: lastClosed,
+        orderBy: 'ASC'
+      });
+      for (const candle of newer) {
+        const indicatorCandle = toIndicatorCandle(candle);
+        if (series.lastStart === null || indicatorCandle.timestamp > series.lastStart) {
+          this.apply(series, indicatorCandle);
+        }
+      }
+      series.checkedThrough = lastClosed;
+    }
+
+    return series;
+  }
+
+  private apply(series: IndicatorSeries, candle: IndicatorCandle): void {
+    series.set.update(candle);
+    series.lastStart = candle.timestamp;
+  }
+
+  private key(token: string, intervalType: IntervalType): string {
+    return `${token.toUpperCase()}:${intervalType}`;
+  }
+}
+
+function toIndicatorCandle(candle: PriceOHLCV): IndicatorCandle {
+  return {
+    timestamp: Number(candle.interval_start),
+    open: candle.getOpenPrice(),
+    high: candle.getHighPrice(),
+    low: candle.getLowPrice(),
+    close: candle.getClosePrice(),
+    volume: candle.getVolume()
+  };
+}
+
+// Export singleton instance
+export const indicatorEngine = new IndicatorEngine();
@@ -12,6 +12,7 @@
 import { timeSeriesDB } from '../data/storage/timeseries-db';
 import { PriceHistory } from '../entities/analytics';
 import { logger } from '../utils/logger';
+import { Clock, systemClock } from '../utils/clock';
 // safeParseFloat import removed - not used
 
 export interface PairStatistics {
@@ -67,6 +68,7 @@ export interface CorrelationWindow {
 }
 
 export class PairsCorrelation {
+  private clock: Clock; // End of the correlation windows; a replay passes the tick being replayed
   private correlationCache: Map<string, PairStatistics> = new Map();
   private correlationWindow: CorrelationWindow = {
     shortTerm: 7 * 24 * 60 * 60 * 1000, // 7 days
@@ -91,7 +93,8 @@ export class PairsCorrelation {
   private readonly MIN_DATA_POINTS = 100; // Minimum data points for analysis
   private readonly COINTEGRATION_P_VALUE = 0.05; // 5% significance level
 
-  constructor() {
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
     logger.info('PairsCorrelation initialized for GalaSwap gaming tokens');
   }
 
@@ -127,7 +130,7 @@ export class PairsCorrelation {
   async updatePairStatistics(token1: string, token2: string): Promise<PairStatistics> {
     try {
       const _pairKey = this.getPairKey(token1, token2);
-      const endTime = Date.now();
+      const endTime = this.clock.now();
       const startTime = endTime - this.correlationWindow.longTerm; // 90 days
 
       // Fetch historical data for both tokens
@@ -204,7 +207,7 @@ export class PairsCorrelation {
           current: currentSpread,
           zScore: (currentSpread - spreadStats.mean) / spreadStats.std
         },
-        lastUpdated: Date.now(),
+        lastUpdated: this.clock.now(),
         dataPoints: alignedData.length,
         confidence
       };
@@ -320,7 +323,7 @@ export class PairsCorrelation {
       priceRatio: stats.priceRatio.current,
       expectedReturn,
       riskLevel,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       metadata: {
         token1Price: currentPrice1,
         token2Price: currentPrice2,
@@ -705,7 +708,7 @@ export class PairsCorrelation {
       priceRatio: stats.priceRatio.current,
       expectedReturn: 0,
       riskLevel: 'high',
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       metadata: {
         token1Price: 0,
         token2Price: 0,
@@ -0,0 +1,634 @@
+/**
+ * Technical Indicators
+ *
+ * Streaming indicators over OHLCV candles:
+ * - Moving averages (SMA, EMA, WMA)
+ * - Oscillators (RSI, MACD)
+ * - Volatility (Bollinger Bands, ATR)
+ * - Volume (VWAP, OBV)
+ * - Statistics (rolling z-score, Hurst exponent)
+ *
+ * Each indicator keeps only the state it needs, so a series is extended one candle at a time
+ * instead of being recomputed from its full history. Values are null until enough candles
+ * have been seen.
+ */
+
+import { TechnicalIndicators } from '../types/trading';
+
+export interface IndicatorCandle {
+  timestamp: number; // Interval start (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  bandwidth: number; // (upper - lower) / middle
+  percentB: number; // Position of the close within the bands, 0 = lower, 1 = upper
+}
+
+export interface IndicatorConfig {
+  smaPeriods: number[];
+  emaPeriods: number[];
+  wmaPeriods: number[];
+  rsiPeriod: number;
+  macd: { fast: number; slow: number; signal: number };
+  bollinger: { period: number; stdDev: number };
+  atrPeriod: number;
+  vwapPeriod: number; // Rolling window in candles, 0 for cumulative since the first candle
+  zScorePeriod: number;
+  hurstWindow: number; // Returns per Hurst estimate
+}
+
+export interface IndicatorSnapshot {
+  timestamp: number;
+  close: number;
+  candles: number; // Candles seen by the series
+  sma: Record<number, number | null>;
+  ema: Record<number, number | null>;
+  wma: Record<number, number | null>;
+  rsi: number | null;
+  macd: MACDValue | null;
+  bollinger: BollingerValue | null;
+  atr: number | null;
+  vwap: number | null;
+  obv: number;
+  zScore: number | null;
+  hurst: number | null;
+}
+
+export const DEFAULT_INDICATOR_CONFIG: IndicatorConfig = {
+  smaPeriods: [20, 50],
+  emaPeriods: [12, 26],
+  wmaPeriods: [20],
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  bollinger: { period: 20, stdDev: 2 },
+  atrPeriod: 14,
+  vwapPeriod: 20,
+  zScorePeriod: 20,
+  hurstWindow: 100
+};
+
+export class IndicatorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndicatorConfigError';
+  }
+}
+
+function assertPeriod(name: string, period: number, min = 1): void {
+  if (!Number.isInteger(period) || period < min) {
+    throw new IndicatorConfigError(`${name} period must be an integer of at least ${min}, got ${period}`);
+  }
+}
+
+/**
+ * Fixed-size FIFO over the most recent values
+ */
+class RollingWindow {
+  private readonly values: number[] = [];
+  private head = 0;
+
+  constructor(readonly capacity: number) {}
+
+  /**
+   * Append a value, returning the one it displaced once the window is full
+   */
+  push(value: number): number | undefined {
+    if (this.values.length < this.capacity) {
+      this.values.push(value);
+      return undefined;
+    }
+    const evicted = this.values[this.head];
+    this.values[this.head] = value;
+    this.head = (this.head + 1) % this.capacity;
+    return evicted;
+  }
+
+  get isFull(): boolean {
+    return this.values.length === this.capacity;
+  }
+
+  get wrapped(): boolean {
+    return this.isFull && this.head === 0;
+  }
+
+  /**
+   * Values oldest first
+   */
+  toArray(): number[] {
+    return [...this.values.slice(this.head), ...this.values.slice(0, this.head)];
+  }
+
+  sum(): number {
+    return this.values.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+function meanAndStdDev(values: number[]): { mean: number; stdDev: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+export class SMA {
+  private readonly window: RollingWindow;
+  private sum = 0;
+  value: number | null = null;
+
+  constructor(readonly period: number) {
+    assertPeriod('SMA', period);
+    this.window = new RollingWindow(period);
+  }
+
+  update(value: number): number | null {
+    const evicted = this.window.push(value);
+    // Re-add the window once per cycle so rounding in the running sum cannot accumulate
+    this.sum = this.window.wrapped ? this.window.sum() : this.sum + value - (evicted ?? 0);
+    this.value = this.window.isFull ? this.sum / this.period : null;
+    return this.value;
+  }
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of its first period
+ */
+export class EMA {
+  private readonly seed: SMA;
+  private readonly alpha: number;
+  value: number | null = null;
+
+  constructor(readonly period: number) {
+    assertPeriod('EMA', period);
+    this.seed = new SMA(period);
+    this.alpha = 2 / (period + 1);
+  }
+
+  update(value: number): number | null {
+    this.value = this.value === null ? this.seed.update(value) : this.value + this.alpha * (value - this.value);
+    return this.value;
+  }
+}
+
+/**
+ * Linearly weighted moving average, the newest value weighted by the period
+ */
+export class WMA {
+  private readonly window: RollingWindow;
+  private readonly divisor: number;
+  private count = 0;
+  private sum = 0;
+  private weightedSum = 0;
+  value: number | null = null;
+
+  constructor(readonly period: number) {
+    assertPeriod('WMA', period);
+    this.window = new RollingWindow(period);
+    this.divisor = (period * (period + 1)) / 2;
+  }
+
+  update(value: number): number | null {
+    const evicted = this.window.push(value);
+
+    if (this.count < this.period) {
+      this.count++;
+      this.sum += value;
+      this.weightedSum += value * this.count;
+    } else if (this.window.wrapped) {
+      const values = this.window.toArray();
+      this.sum = this.window.sum();
+      this.weightedSum = values.reduce((sum, v, i) => sum + v * (i + 1), 0);
+    } else {
+      // Every older value loses one weight step and the new one enters at full weight
+      this.weightedSum += this.period * value - this.sum;
+      this.sum += value - (evicted ?? 0);
+    }
+
+    this.value = this.window.isFull ? this.weightedSum / this.divisor : null;
+    return this.value;
+  }
+}
+
+/**
+ * Relative strength index with Wilder smoothing
+ */
+export class RSI {
+  private previous: number | null = null;
+  private changes = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  value: number | null = null;
+
+  constructor(readonly period = 14) {
+    assertPeriod('RSI', period);
+  }
+
+  update(close: number): number | null {
+    if (this.previous === null) {
+      this.previous = close;
+      return null;
+    }
+
+    const change = close - this.previous;
+    this.previous = close;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.changes++;
+
+    if (this.changes <= this.period) {
+      this.avgGain += gain / this.period;
+      this.avgLoss += loss / this.period;
+      if (this.changes < this.period) return null;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    if (this.avgLoss === 0) {
+      this.value = this.avgGain === 0 ? 50 : 100;
+    } else {
+      this.value = 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    }
+    return this.value;
+  }
+}
+
+export class MACD {
+  private readonly fastEma: EMA;
+  private readonly slowEma: EMA;
+  private readonly signalEma: EMA;
+  value: MACDValue | null = null;
+
+  constructor(readonly fast = 12, readonly slow = 26, readonly signal = 9) {
+    if (fast >= slow) {
+      throw new IndicatorConfigError(`MACD fast period (${fast}) must be shorter than the slow period (${slow})`);
+    }
+    this.fastEma = new EMA(fast);
+    this.slowEma = new EMA(slow);
+    this.signalEma = new EMA(signal);
+  }
+
+  update(close: number): MACDValue | null {
+    const fastValue = this.fastEma.update(close);
+    const slowValue = this.slowEma.update(close);
+    if (fastValue === null || slowValue === null) return null;
+
+    const macd = fastValue - slowValue;
+    const signal = this.signalEma.update(macd);
+    this.value = signal === null ? null : { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+}
+
+/**
+ * Bollinger Bands: SMA with bands at a multiple of the population standard deviation
+ */
+export class BollingerBands {
+  private readonly window: RollingWindow;
+  value: BollingerValue | null = null;
+
+  constructor(readonly period = 20, readonly stdDevMultiplier = 2) {
+    assertPeriod('Bollinger', period, 2);
+    this.window = new RollingWindow(period);
+  }
+
+  update(close: number): BollingerValue | null {
+    this.window.push(close);
+    if (!this.window.isFull) return null;
+
+    const { mean, stdDev } = meanAndStdDev(this.window.toArray());
+    const upper = mean + this.stdDevMultiplier * stdDev;
+    const lower = mean - this.stdDevMultiplier * stdDev;
+    this.value = {
+      upper,
+      middle: mean,
+      lower,
+      bandwidth: mean === 0 ? 0 : (upper - lower) / mean,
+      percentB: upper === lower ? 0.5 : (close - lower) / (upper - lower)
+    };
+    return this.value;
+  }
+}
+
+/**
+ * Average true range with Wilder smoothing
+ */
+export class ATR {
+  private previousClose: number | null = null;
+  private ranges = 0;
+  private seedSum = 0;
+  value: number | null = null;
+
+  constructor(readonly period = 14) {
+    assertPeriod('ATR', period);
+  }
+
+  update(candle: Pick<IndicatorCandle, 'high' | 'low' | 'close'>): number | null {
+    const trueRange = this.previousClose === null
+      ? candle.high - candle.low
+      : Math.max(candle.high - candle.low, Math.abs(candle.high - this.previousClose), Math.abs(candle.low - this.previousClose));
+    this.previousClose = candle.close;
+    this.ranges++;
+
+    if (this.ranges < this.period) {
+      this.seedSum += trueRange;
+      return null;
+    }
+
+    this.value = this.value === null
+      ? (this.seedSum + trueRange) / this.period
+      : (this.value * (this.period - 1) + trueRange) / this.period;
+    return this.value;
+  }
+}
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3
+ */
+export class VWAP {
+  private readonly priceVolume: RollingWindow | null;
+  private readonly volume: RollingWindow | null;
+  private cumulativePriceVolume = 0;
+  private cumulativeVolume = 0;
+  value: number | null = null;
+
+  /**
+   * @param period Rolling window in candles; 0 accumulates from the first candle
+   */
+  constructor(readonly period = 0) {
+    if (period !== 0) assertPeriod('VWAP', period);
+    this.priceVolume = period > 0 ? new RollingWindow(period) : null;
+    this.volume = period > 0 ? new RollingWindow(period) : null;
+  }
+
+  update(candle: Pick<IndicatorCandle, 'high' | 'low' | 'close' | 'volume'>): number | null {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const priceVolume = typicalPrice * candle.volume;
+
+    if (this.priceVolume && this.volume) {
+      this.priceVolume.push(priceVolume);
+      this.volume.push(candle.volume);
+      this.cumulativePriceVolume = this.priceVolume.sum();
+      this.cumulativeVolume = this.volume.sum();
+    } else {
+      this.cumulativePriceVolume += priceVolume;
+      this.cumulativeVolume += candle.volume;
+    }
+
+    // Without any volume in the window there is nothing to weight by
+    this.value = this.cumulativeVolume > 0 ? this.cumulativePriceVolume / this.cumulativeVolume : null;
+    return this.value;
+  }
+}
+
+/**
+ * On-balance volume: running volume, added on up closes and subtracted on down closes
+ */
+export class OBV {
+  private previousClose: number | null = null;
+  value = 0;
+
+  update(candle: Pick<IndicatorCandle, 'close' | 'volume'>): number {
+    if (this.previousClose !== null) {
+      if (candle.close > this.previousClose) this.value += candle.volume;
+      else if (candle.close < this.previousClose) this.value -= candle.volume;
+    }
+    this.previousClose = candle.close;
+    return this.value;
+  }
+}
+
+/**
+ * Standard deviations of the latest value from the rolling mean
+ */
+export class ZScore {
+  private readonly window: RollingWindow;
+  value: number | null = null;
+
+  constructor(readonly period = 20) {
+    assertPeriod('Z-score', period, 2);
+    this.window = new RollingWindow(period);
+  }
+
+  update(value: number): number | null {
+    this.window.push(value);
+    if (!this.window.isFull) return null;
+
+    const { mean, stdDev } = meanAndStdDev(this.window.toArray());
+    this.value = stdDev === 0 ? 0 : (value - mean) / stdDev;
+    return this.value;
+  }
+}
+
+/**
+ * Rolling Hurst exponent of log returns: around 0.5 for a random walk,
+ * above for trending and below for mean-reverting series
+ */
+export class Hurst {
+  private readonly returns: RollingWindow;
+  private previousClose: number | null = null;
+  value: number | null = null;
+
+  constructor(readonly window = 100) {
+    assertPeriod('Hurst', window, 16);
+    this.returns = new RollingWindow(window);
+  }
+
+  update(close: number): number | null {
+    const previous = this.previousClose;
+    this.previousClose = close;
+    if (previous === null || previous <= 0 || close <= 0) return this.value;
+
+    this.returns.push(Math.log(close / previous));
+    if (!this.returns.isFull) return null;
+
+    this.value = hurstExponent(this.returns.toArray());
+    return this.value;
+  }
+}
+
+/**
+ * Hurst exponent by rescaled range analysis: the slope of log(R/S) against log(chunk size)
+ * over chunk sizes 8, 16, 32, ... up to the series length
+ */
+export function hurstExponent(series: number[]): number | null {
+  const points: Array<{ x: number; y: number }> = [];
+
+  for (let size = 8; size <= series.length; size *= 2) {
+    const ratios: number[] = [];
+    for (let start = 0; start + size <= series.length; start += size) {
+      const chunk = series.slice(start, start + size);
+      const { mean, stdDev } = meanAndStdDev(chunk);
+      if (stdDev === 0) continue;
+
+      let cumulative = 0;
+      let max = 0;
+      let min = 0;
+      for (const value of chunk) {
+        cumulative += value - mean;
+        max = Math.max(max, cumulative);
+        min = Math.min(min, cumulative);
+      }
+      ratios.push((max - min) / stdDev);
+    }
+    if (ratios.length > 0) {
+      points.push({ x: Math.log(size), y: Math.log(ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length) });
+    }
+  }
+
+  if (points.length < 2) return null;
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const varianceX = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  return covariance / varianceX;
+}
+
+/**
+ * All configured indicators for one candle series
+ */
+export class IndicatorSet {
+  readonly config: IndicatorConfig;
+  private readonly sma: SMA[];
+  private readonly ema: EMA[];
+  private readonly wma: WMA[];
+  private readonly rsi: RSI;
+  private readonly macd: MACD;
+  private readonly bollinger: BollingerBands;
+  private readonly atr: ATR;
+  private readonly vwap: VWAP;
+  private readonly obv = new OBV();
+  private readonly zScore: ZScore;
+  private readonly hurst: Hurst;
+  private count = 0;
+  private latest: IndicatorSnapshot | null = null;
+
+  constructor(config: Partial<IndicatorConfig> = {}) {
+    this.config = { ...DEFAULT_INDICATOR_CONFIG, ...config };
+    this.sma = this.config.smaPeriods.map(period => new SMA(period));
+    this.ema = this.config.emaPeriods.map(period => new EMA(period));
+    this.wma = this.config.wmaPeriods.map(period => new WMA(period));
+    this.rsi = new RSI(this.config.rsiPeriod);
+    this.macd = new MACD(this.config.macd.fast, this.config.macd.slow, this.config.macd.signal);
+    this.bollinger = new BollingerBands(this.config.bollinger.period, this.config.bollinger.stdDev);
+    this.atr = new ATR(this.config.atrPeriod);
+    this.vwap = new VWAP(this.config.vwapPeriod);
+    this.zScore = new ZScore(this.config.zScorePeriod);
+    this.hurst = new Hurst(this.config.hurstWindow);
+  }
+
+  /**
+   * Feed the next candle; candles must arrive in time order
+   */
+  update(candle: IndicatorCandle): IndicatorSnapshot {
+    const { close } = candle;
+    this.count++;
+
+    this.latest = {
+      timestamp: candle.timestamp,
+      close,
+      candles: this.count,
+      sma: byPeriod(this.sma, indicator => indicator.update(close)),
+      ema: byPeriod(this.ema, indicator => indicator.update(close)),
+      wma: byPeriod(this.wma, indicator => indicator.update(close)),
+      rsi: this.rsi.update(close),
+      macd: this.macd.update(close),
+      bollinger: this.bollinger.update(close),
+      atr: this.atr.update(candle),
+      vwap: this.vwap.update(candle),
+      obv: this.obv.update(candle),
+      zScore: this.zScore.update(close),
+      hurst: this.hurst.update(close)
+    };
+    return this.latest;
+  }
+
+  get snapshot(): IndicatorSnapshot | null {
+    return this.latest;
+  }
+
+  get candles(): number {
+    return this.count;
+  }
+
+  /**
+   * Candles needed before every indicator has a value
+   */
+  get warmupCandles(): number {
+    return Math.max(
+      ...this.config.smaPeriods,
+      ...this.config.emaPeriods,
+      ...this.config.wmaPeriods,
+      this.config.rsiPeriod + 1,
+      this.config.macd.slow + this.config.macd.signal - 1,
+      this.config.bollinger.period,
+      this.config.atrPeriod,
+      this.config.zScorePeriod,
+      this.config.hurstWindow + 1
+    );
+  }
+}
+
+function byPeriod<T extends { period: number }>(indicators: T[], update: (indicator: T) => number | null): Record<number, number | null> {
+  const values: Record<number, number | null> = {};
+  for (const indicator of indicators) {
+    values[indicator.period] = update(indicator);
+  }
+  return values;
+}
+
+/**
+ * Run a candle history through a fresh indicator set and return the final snapshot
+ */
+export function computeIndicators(candles: IndicatorCandle[], config: Partial<IndicatorConfig> = {}): IndicatorSnapshot | null {
+  const set = new IndicatorSet(config);
+  for (const candle of candles) {
+    set.update(candle);
+  }
+  return set.snapshot;
+}
+
+/**
+ * The legacy TechnicalIndicators shape (SMA 20/50, EMA 12/26); null until all of them are available
+ */
+export function toTechnicalIndicators(snapshot: IndicatorSnapshot | null): TechnicalIndicators | null {
+  if (!snapshot) return null;
+
+  const { sma, ema, rsi, macd, bollinger, atr } = snapshot;
+  const sma20 = sma[20];
+  const sma50 = sma[50];
+  const ema12 = ema[12];
+  const ema26 = ema[26];
+  if (sma20 == null || sma50 == null || ema12 == null || ema26 == null || rsi === null || !macd || !bollinger || atr === null) {
+    return null;
+  }
+
+  return {
+    sma20,
+    sma50,
+    ema12,
+    ema26,
+    macd: macd.macd,
+    macdSignal: macd.signal,
+    macdHistogram: macd.histogram,
+    rsi,
+    bbUpper: bollinger.upper,
+    bbMiddle: bollinger.middle,
+    bbLower: bollinger.lower,
+    atr,
+    obv: snapshot.obv
+  };
+}
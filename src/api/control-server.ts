@@ -0,0 +1,583 @@
+/**
+ * Control Server
+ * Embedded HTTP API for inspecting and steering a running bot process
+ *
+ * Read endpoints (API key required only when authentication.required is set):
+ *   GET  /api/health, /api/status, /api/portfolio, /api/positions, /api/range-orders,
+ *        /api/positions/:id/compound-policy, /api/risk, /api/emergency, /api/orchestrator,
+ *        /metrics (Prometheus)
+ * Write endpoints (API key always required):
+ *   POST /api/emergency/stop, /api/emergency/deactivate, /api/stop, /api/trades,
+ *        /api/strategies/:id/enable, /api/strategies/:id/disable, /api/strategies/:id/priority,
+ *        /api/positions/:id/compound-policy, /api/positions/:id/compound-policy/reset,
+ *        /api/positions/:id/split, /api/positions/merge
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { timingSafeEqual } from 'crypto';
+import { logger } from '../utils/logger';
+import { safeParseInt } from '../utils/safe-parse';
+import { AuthConfig, RateLimitConfig } from '../types/config';
+import { MetricsRegistry, METRICS_CONTENT_TYPE } from '../monitoring/metrics';
+import type { TradingEngine } from '../trading/TradingEngine';
+import type { StrategyOrchestrator } from '../trading/strategies/strategy-orchestrator';
+import type { CompoundPolicy } from '../services/fee-compounder';
+import type { MergeOptions, SplitLadder } from '../services/position-restructurer';
+
+export interface ControlServerConfig {
+  host: string;
+  port: number; // 0 picks a free port
+  apiKeys: string[];
+  authentication: AuthConfig;
+  rateLimiting: RateLimitConfig; // keyGenerator: 'ip' (default) or 'apikey'
+}
+
+export type ControlEngine = Pick<TradingEngine,
+  'getStatus' | 'getPortfolio' | 'getRangeOrderBook' | 'getRiskStatus' | 'emergencyStop' |
+  'deactivateEmergencyStop' | 'executeManualTrade' | 'stop' |
+  'getFeeCompoundPolicy' | 'setFeeCompoundPolicy' | 'clearFeeCompoundPolicy' | 'getFeeCompoundHistory' |
+  'hasLiquidityPosition' | 'queuePositionSplit' | 'queuePositionMerge'>;
+
+export type ControlOrchestrator = Pick<StrategyOrchestrator,
+  'getStats' | 'getStrategyPerformance' | 'getStrategyConfig' | 'setStrategyEnabled' | 'setStrategyPriority'>;
+
+export interface ControlServerOptions {
+  orchestrator?: ControlOrchestrator;
+  onStop?: () => void | Promise<void>; // Called after POST /api/stop has stopped the engine
+  metrics?: MetricsRegistry; // Served as Prometheus text on GET /metrics
+}
+
+/**
+ * Error carrying the HTTP status returned to the caller
+ */
+export class ControlApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ControlApiError';
+  }
+}
+
+export const API_KEY_HEADER = 'x-api-key';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  write: boolean;
+  contentType?: string; // Handler returns a string body instead of JSON
+  handler: (params: string[], body: Record<string, unknown>) => Promise<unknown>;
+}
+
+/**
+ * Build the server config from CONTROL_API_* variables; null when CONTROL_API_PORT is unset
+ */
+export function controlServerConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ControlServerConfig | null {
+  if (!env.CONTROL_API_PORT) return null;
+
+  return {
+    host: env.CONTROL_API_HOST || '127.0.0.1',
+    port: safeParseInt(env.CONTROL_API_PORT, 8787),
+    apiKeys: (env.CONTROL_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+    authentication: {
+      required: env.CONTROL_API_AUTH_REQUIRED === 'true',
+      providers: ['apikey'],
+      tokenExpiry: 0,
+      refreshTokenExpiry: 0
+    },
+    rateLimiting: {
+      windowMs: safeParseInt(env.CONTROL_API_RATE_WINDOW_MS, 60000),
+      maxRequests: safeParseInt(env.CONTROL_API_RATE_MAX, 120),
+      skipSuccessfulRequests: false,
+      skipFailedRequests: false,
+      keyGenerator: 'ip'
+    }
+  };
+}
+
+export class ControlServer {
+  private server: Server | null = null;
+  private orchestrator?: ControlOrchestrator;
+  private onStop?: () => void | Promise<void>;
+  private metrics?: MetricsRegistry;
+  private routes: Route[];
+  private rateWindows: Map<string, { windowStart: number; count: number }> = new Map();
+  private lastRateSweep = 0;
+
+  constructor(
+    private engine: ControlEngine,
+    private config: ControlServerConfig,
+    options: ControlServerOptions = {}
+  ) {
+    this.orchestrator = options.orchestrator;
+    this.onStop = options.onStop;
+    this.metrics = options.metrics;
+    this.routes = this.buildRoutes();
+
+    const unsupported = config.authentication.providers.filter(provider => provider !== 'apikey');
+    if (unsupported.length > 0) {
+      logger.warn(`Control API only supports API key authentication; ignoring ${unsupported.join(', ')}`);
+    }
+  }
+
+  /**
+   * Attach (or replace) the strategy orchestrator behind the /api/orchestrator and /api/strategies routes
+   */
+  attachOrchestrator(orchestrator: ControlOrchestrator): void {
+    this.orchestrator = orchestrator;
+  }
+
+  /**
+   * Start listening; resolves with the bound port
+   */
+  async start(): Promise<number> {
+    if (this.server) return this.getPort();
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('Control API request failed:', error);
+        if (!res.headersSent) this.sendJson(res, 500, { error: 'Internal server error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const port = this.getPort();
+
+    if (this.config.apiKeys.length === 0) {
+      logger.warn('Control API has no CONTROL_API_KEYS configured - write endpoints are disabled');
+    }
+    logger.info(`🛰️  Control API listening on http://${this.config.host}:${port}`);
+
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeAllConnections();
+    logger.info('Control API stopped');
+  }
+
+  getPort(): number {
+    return (this.server?.address() as AddressInfo | null)?.port ?? 0;
+  }
+
+  private buildRoutes(): Route[] {
+    const read = (path: RegExp, handler: Route['handler']): Route =>
+      ({ method: 'GET', pattern: path, write: false, handler });
+    const write = (path: RegExp, handler: Route['handler']): Route =>
+      ({ method: 'POST', pattern: path, write: true, handler });
+
+    const routes: Route[] = [
+      read(/^\/api\/health$/, async () => ({ status: 'ok', timestamp: Date.now() })),
+      read(/^\/api\/status$/, async () => this.engine.getStatus()),
+      read(/^\/api\/portfolio$/, async () => this.engine.getPortfolio()),
+      read(/^\/api\/positions$/, async () => {
+        const portfolio = await this.engine.getPortfolio();
+        return {
+          liquidityPositions: portfolio.liquidityPositions,
+          rangeOrders: portfolio.rangeOrders,
+          marketMakingPositions: portfolio.marketMakingPositions
+        };
+      }),
+      read(/^\/api\/range-orders$/, async () => ({ orders: this.engine.getRangeOrderBook() })),
+      read(/^\/api\/positions\/([^/]+)\/compound-policy$/, async ([id]) => {
+        const positionId = decodeURIComponent(id);
+        return {
+          positionId,
+          policy: this.engine.getFeeCompoundPolicy(positionId),
+          history: this.engine.getFeeCompoundHistory(positionId)
+        };
+      }),
+      read(/^\/api\/risk$/, async () => this.engine.getRiskStatus()),
+      read(/^\/api\/emergency$/, async () => this.engine.getRiskStatus().emergencyStatus),
+      read(/^\/api\/orchestrator$/, async () => {
+        const orchestrator = this.requireOrchestrator();
+        return {
+          stats: orchestrator.getStats(),
+          strategies: Array.from(orchestrator.getStrategyPerformance().entries()).map(([id, performance]) => ({
+            id,
+            config: orchestrator.getStrategyConfig(id),
+            performance
+          }))
+        };
+      }),
+
+      write(/^\/api\/emergency\/stop$/, async (_params, body) => {
+        const reason = optionalString(body, 'reason') || 'Emergency stop via control API';
+        await this.engine.emergencyStop(reason, body.liquidate === true);
+        return this.engine.getRiskStatus().emergencyStatus;
+      }),
+      write(/^\/api\/emergency\/deactivate$/, async (_params, body) => {
+        await this.engine.deactivateEmergencyStop(requireString(body, 'reason'));
+        return this.engine.getRiskStatus().emergencyStatus;
+      }),
+      write(/^\/api\/stop$/, async () => {
+        await this.engine.stop();
+        if (this.onStop) {
+          // Let the response flush before the host process shuts down
+          setImmediate(() => {
+            Promise.resolve(this.onStop?.()).catch(error => logger.error('Control API stop handler failed:', error));
+          });
+        }
+        return { stopped: true };
+      }),
+      write(/^\/api\/trades$/, async (_params, body) => {
+        const slippageTolerance = body.slippageTolerance;
+        if (slippageTolerance !== undefined && typeof slippageTolerance !== 'number') {
+          throw new ControlApiError('"slippageTolerance" must be a number', 400);
+        }
+        return this.engine.executeManualTrade({
+          tokenIn: requireString(body, 'tokenIn'),
+          tokenOut: requireString(body, 'tokenOut'),
+          amountIn: requireString(body, 'amountIn'),
+          slippageTolerance
+        });
+      }),
+      write(/^\/api\/strategies\/([\w-]+)\/(enable|disable)$/, async ([id, action]) => {
+        const orchestrator = this.requireStrategy(id);
+        orchestrator.setStrategyEnabled(id, action === 'enable');
+        return orchestrator.getStrategyConfig(id);
+      }),
+      write(/^\/api\/strategies\/([\w-]+)\/priority$/, async ([id], body) => {
+        const orchestrator = this.requireStrategy(id);
+        const priority = body.priority;
+        if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+          throw new ControlApiError('"priority" must be a number between 1 and 10', 400);
+        }
+        orchestrator.setStrategyPriority(id, priority);
+        return orchestrator.getStrategyConfig(id);
+      }),
+      write(/^\/api\/positions\/([^/]+)\/compound-policy$/, async ([id], body) => {
+        const positionId = decodeURIComponent(id);
+        return { positionId, policy: this.engine.setFeeCompoundPolicy(positionId, parseCompoundPolicy(body)) };
+      }),
+      write(/^\/api\/positions\/([^/]+)\/compound-policy\/reset$/, async ([id]) => {
+        const positionId = decodeURIComponent(id);
+        return { positionId, policy: this.engine.clearFeeCompoundPolicy(positionId) };
+      }),
+      write(/^\/api\/positions\/merge$/, async (_params, body) => {
+        const positionIds = body.positionIds;
+        if (!Array.isArray(positionIds) || positionIds.length < 2 || !positionIds.every(id => typeof id === 'string')) {
+          throw new ControlApiError('"positionIds" must list at least two positions', 400);
+        }
+        positionIds.forEach(id => this.requirePosition(id));
+        return { action: await this.engine.queuePositionMerge(positionIds, parseMergeOptions(body)) };
+      }),
+      write(/^\/api\/positions\/([^/]+)\/split$/, async ([id], body) => {
+        const positionId = this.requirePosition(decodeURIComponent(id));
+        return { action: await this.engine.queuePositionSplit(positionId, parseSplitLadder(body)) };
+      })
+    ];
+
+    const registry = this.metrics;
+    if (registry) {
+      routes.push({ ...read(/^\/metrics$/, async () => registry.render()), contentType: METRICS_CONTENT_TYPE });
+    }
+
+    return routes;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const apiKey = this.extractApiKey(req);
+    const rateKey = this.config.rateLimiting.keyGenerator === 'apikey' && apiKey
+      ? `key:${apiKey}`
+      : `ip:${req.socket.remoteAddress}`;
+
+    const retryAfter = this.checkRateLimit(rateKey);
+    if (retryAfter !== null) {
+      res.setHeader('Retry-After', Math.ceil(retryAfter / 1000).toString());
+      this.sendJson(res, 429, { error: 'Too many requests' });
+      return;
+    }
+
+    res.once('finish', () => this.recordRequest(rateKey, res.statusCode));
+
+    const matches = this.routes.filter(route => route.pattern.test(path));
+    const route = matches.find(candidate => candidate.method === req.method);
+    if (!route) {
+      this.sendJson(res, matches.length > 0 ? 405 : 404, { error: matches.length > 0 ? 'Method not allowed' : 'Not found' });
+      return;
+    }
+
+    try {
+      this.authorize(route, apiKey);
+      const body = route.method === 'POST' ? await readJsonBody(req) : {};
+      const params = (route.pattern.exec(path) || []).slice(1);
+
+      if (route.write) {
+        logger.warn(`Control API ${req.method} ${path}`, { remoteAddress: req.socket.remoteAddress });
+      }
+
+      const result = await route.handler(params, body);
+      if (route.contentType) {
+        res.writeHead(200, { 'Content-Type': route.contentType });
+        res.end(String(result));
+        return;
+      }
+      this.sendJson(res, 200, result ?? {});
+
+    } catch (error) {
+      if (error instanceof ControlApiError) {
+        this.sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      logger.error(`Control API ${req.method} ${path} failed:`, error);
+      this.sendJson(res, 500, { error: error instanceof Error ? error.message : 'Internal server error' });
+    }
+  }
+
+  private authorize(route: Route, apiKey: string | null): void {
+    if (!route.write && !this.config.authentication.required) return;
+
+    if (this.config.apiKeys.length === 0) {
+      throw new ControlApiError('Control API has no API keys configured', 403);
+    }
+    if (!apiKey || !this.config.apiKeys.some(key => safeEqual(key, apiKey))) {
+      throw new ControlApiError('Invalid or missing API key', 401);
+    }
+  }
+
+  private extractApiKey(req: IncomingMessage): string | null {
+    const header = req.headers[API_KEY_HEADER];
+    if (typeof header === 'string' && header.length > 0) return header;
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+
+    return null;
+  }
+
+  /**
+   * Fixed-window limiter; returns ms until the window resets when the caller is over the limit.
+   * Expired windows are swept at most once per window so clients that stop calling are forgotten.
+   */
+  private checkRateLimit(key: string): number | null {
+    const { windowMs, maxRequests } = this.config.rateLimiting;
+    const now = Date.now();
+
+    if (now - this.lastRateSweep >= windowMs) {
+      this.lastRateSweep = now;
+      for (const [windowKey, expired] of this.rateWindows) {
+        if (now - expired.windowStart >= windowMs) this.rateWindows.delete(windowKey);
+      }
+    }
+
+    const window = this.rateWindows.get(key);
+
+    if (!window || now - window.windowStart >= windowMs) {
+      this.rateWindows.set(key, { windowStart: now, count: 0 });
+      return null;
+    }
+
+    return window.count >= maxRequests ? windowMs - (now - window.windowStart) : null;
+  }
+
+  private recordRequest(key: string, status: number): void {
+    const { skipSuccessfulRequests, skipFailedRequests } = this.config.rateLimiting;
+    if ((status < 400 && skipSuccessfulRequests) || (status >= 400 && skipFailedRequests)) return;
+
+    const window = this.rateWindows.get(key);
+    if (window) window.count++;
+  }
+
+  private requireOrchestrator(): ControlOrchestrator {
+    if (!this.orchestrator) {
+      throw new ControlApiError('Strategy orchestrator is not running in this process', 503);
+    }
+    return this.orchestrator;
+  }
+
+  private requireStrategy(id: string): ControlOrchestrator {
+    const orchestrator = this.requireOrchestrator();
+    if (!orchestrator.getStrategyConfig(id)) {
+      throw new ControlApiError(`Unknown strategy "${id}"`, 404);
+    }
+    return orchestrator;
+  }
+
+  private requirePosition(positionId: string): string {
+    if (!this.engine.hasLiquidityPosition(positionId)) {
+      throw new ControlApiError(`Unknown position "${positionId}"`, 404);
+    }
+    return positionId;
+  }
+
+  private sendJson(res: ServerResponse, status: number, payload: unknown): void {
+    const body = JSON.stringify(payload, (_key, value) => {
+      if (value instanceof Map) return Object.fromEntries(value);
+      if (typeof value === 'bigint') return value.toString();
+      return value;
+    });
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(body).toString()
+    });
+    res.end(body);
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ControlApiError('Request body too large', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  if (size === 0) return {};
+
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed as Record<string, unknown>;
+  } catch {
+    throw new ControlApiError('Request body must be a JSON object', 400);
+  }
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new ControlApiError(`"${field}" is required`, 400);
+  }
+  return value;
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  return typeof value === 'string' && value.trim().length > 0 ? value : undefined;
+}
+
+/**
+ * Validate a partial auto-compound policy; ratios must lie in 0-1 and amounts must not be negative
+ */
+function parseCompoundPolicy(body: Record<string, unknown>): Partial<CompoundPolicy> {
+  const policy: Partial<CompoundPolicy> = {};
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') throw new ControlApiError('"enabled" must be a boolean', 400);
+    policy.enabled = body.enabled;
+  }
+
+  const numbers: Array<[Exclude<keyof CompoundPolicy, 'enabled'>, number]> = [
+    ['minNetProfitUSD', Infinity], ['maxGasRatio', 1], ['minSwapFraction', 1], ['slippageTolerance', 1]
+  ];
+  for (const [field, max] of numbers) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+      throw new ControlApiError(`"${field}" must be a number${max === 1 ? ' between 0 and 1' : ' of at least 0'}`, 400);
+    }
+    policy[field] = value;
+  }
+
+  if (Object.keys(policy).length === 0) {
+    throw new ControlApiError('No policy fields given', 400);
+  }
+  return policy;
+}
+
+function optionalPrice(body: Record<string, unknown>, field: string): number | undefined {
+  const value = body[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new ControlApiError(`"${field}" must be a price above 0`, 400);
+  }
+  return value;
+}
+
+function optionalSlippage(body: Record<string, unknown>): number | undefined {
+  const value = body.slippageTolerance;
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new ControlApiError('"slippageTolerance" must be a number between 0 and 1', 400);
+  }
+  return value;
+}
+
+/**
+ * Validate a split ladder; prices left out default to the position's own range
+ */
+function parseSplitLadder(body: Record<string, unknown>): SplitLadder {
+  const { rungs, weighting } = body;
+  if (typeof rungs !== 'number' || !Number.isInteger(rungs) || rungs < 2) {
+    throw new ControlApiError('"rungs" must be a whole number of at least 2', 400);
+  }
+  if (weighting !== undefined && weighting !== 'uniform' && weighting !== 'center') {
+    throw new ControlApiError('"weighting" must be "uniform" or "center"', 400);
+  }
+
+  const ladder: SplitLadder = {
+    rungs,
+    weighting,
+    minPrice: optionalPrice(body, 'minPrice'),
+    maxPrice: optionalPrice(body, 'maxPrice'),
+    slippageTolerance: optionalSlippage(body)
+  };
+  if (ladder.minPrice !== undefined && ladder.maxPrice !== undefined && ladder.minPrice >= ladder.maxPrice) {
+    throw new ControlApiError('"minPrice" must be below "maxPrice"', 400);
+  }
+  return ladder;
+}
+
+function parseMergeOptions(body: Record<string, unknown>): Omit<MergeOptions, 'maxGap'> {
+  const options = {
+    newMinPrice: optionalPrice(body, 'newMinPrice'),
+    newMaxPrice: optionalPrice(body, 'newMaxPrice'),
+    slippageTolerance: optionalSlippage(body)
+  };
+  if (options.newMinPrice !== undefined && options.newMaxPrice !== undefined && options.newMinPrice >= options.newMaxPrice) {
+    throw new ControlApiError('"newMinPrice" must be below "newMaxPrice"', 400);
+  }
+  return options;
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Call the control API of a running bot (used by the `status` and `stop` CLI commands)
+ */
+export async function requestControlApi<T = unknown>(
+  baseUrl: string,
+  path: string,
+  options: { method?: 'GET' | 'POST'; body?: Record<string, unknown>; apiKey?: string } = {}
+): Promise<T> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) headers[API_KEY_HEADER] = options.apiKey;
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+    method: options.method || 'GET',
+    headers,
+    body: options.body ? JSON.stringify(options.body) : undefined
+  });
+
+  const payload = await response.json().catch(() => ({})) as { error?: string };
+  if (!response.ok) {
+    throw new ControlApiError(payload.error || `${response.status} ${response.statusText}`, response.status);
+  }
+  return payload as T;
+}
@@ -0,0 +1,628 @@
+/**
+ * GalaSwap WebSocket Client
+ *
+ * Reconnecting real-time feed for price, transaction and position events.
+ * Keeps subscriptions across reconnects and backfills the gap over REST
+ * so consumers never silently miss updates while the socket was down.
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { logger } from '../utils/logger';
+import { WEBSOCKET_CONSTANTS, TRADING_CONSTANTS } from '../config/constants';
+import { ENDPOINTS, EndpointPath, buildQueryUrl, getEndpointConfig } from './endpoints';
+import {
+  WebSocketConfig,
+  WebSocketEvent,
+  PriceUpdateEvent,
+  PoolUpdateEvent,
+  TransactionUpdateEvent,
+  PositionUpdateEvent,
+  PricesResponse,
+  TransactionStatusResponse,
+  TransactionStatus
+} from '../types/galaswap';
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface WebSocketClientOptions extends WebSocketConfig {
+  url: string;
+  restBaseUrl: string;
+  heartbeatTimeout: number; // Max wait for a pong before the socket is considered dead
+  reconnectDelayMax: number;
+  connectTimeout: number;
+}
+
+export interface BackfillResult {
+  gapMs: number;
+  prices: number;
+  transactions: number;
+  positionsStale: boolean;
+}
+
+export interface WebSocketClientStats {
+  state: ConnectionState;
+  connectedAt: number | null;
+  lastMessageAt: number | null;
+  reconnects: number;
+  messagesReceived: number;
+  backfills: number;
+  subscriptions: {
+    prices: number;
+    transactions: number;
+    positions: number;
+  };
+}
+
+/**
+ * Error class for WebSocket client failures
+ */
+export class WebSocketClientError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'WebSocketClientError';
+  }
+}
+
+const TERMINAL_TRANSACTION_STATUSES: TransactionStatus[] = ['CONFIRMED', 'FAILED', 'REJECTED', 'TIMEOUT'];
+
+interface TransactionWaiter {
+  resolve: (event: TransactionUpdateEvent) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * GalaSwap WebSocket Client
+ *
+ * Emits typed events:
+ * - `price_update` (PriceUpdateEvent)
+ * - `transaction_update` (TransactionUpdateEvent)
+ * - `position_update` (PositionUpdateEvent)
+ * - `pool_update` (PoolUpdateEvent)
+ * - `connected`, `disconnected`, `reconnecting`, `backfill`, `error`
+ *
+ * @example
+ * ```typescript
+ * const feed = createWebSocketClient();
+ * feed.on('price_update', (event) => tracker.applyPriceUpdate(event));
+ * feed.subscribePrices(['GALA$Unit$none$none']);
+ * await feed.connect();
+ * ```
+ */
+export class GalaSwapWebSocketClient extends EventEmitter {
+  private options: WebSocketClientOptions;
+  private socket: WebSocket | null = null;
+  private state: ConnectionState = 'disconnected';
+  private manualClose: boolean = false;
+
+  private priceTokens: Set<string> = new Set();
+  private transactionIds: Set<string> = new Set();
+  private positionUsers: Set<string> = new Set();
+  private poolHashes: Set<string> = new Set();
+  private transactionWaiters: Map<string, TransactionWaiter[]> = new Map();
+
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeatDeadline: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt: number = 0;
+
+  private connectedAt: number | null = null;
+  private disconnectedAt: number | null = null;
+  private lastMessageAt: number | null = null;
+  private reconnects: number = 0;
+  private messagesReceived: number = 0;
+  private backfills: number = 0;
+
+  constructor(options: Partial<WebSocketClientOptions> & Pick<WebSocketClientOptions, 'url' | 'restBaseUrl'>) {
+    super();
+    this.options = {
+      reconnectAttempts: WEBSOCKET_CONSTANTS.CONNECTION.RECONNECTION_ATTEMPTS,
+      reconnectDelay: WEBSOCKET_CONSTANTS.CONNECTION.RECONNECTION_DELAY,
+      reconnectDelayMax: WEBSOCKET_CONSTANTS.CONNECTION.RECONNECTION_DELAY_MAX,
+      heartbeatInterval: TRADING_CONSTANTS.HEARTBEAT_INTERVAL,
+      heartbeatTimeout: 10000,
+      connectTimeout: WEBSOCKET_CONSTANTS.CONNECTION.TIMEOUT,
+      maxMessageSize: 1024 * 1024,
+      ...options,
+      restBaseUrl: options.restBaseUrl.replace(/\/+$/, '')
+    };
+
+    // Prevent unhandled 'error' events from crashing the process
+    this.on('error', () => undefined);
+  }
+
+  /**
+   * Open the connection. Resolves once connected; rejects if the first attempt fails,
+   * in which case reconnection continues in the background like any later drop.
+   */
+  async connect(): Promise<void> {
+    if (this.state !== 'disconnected') {
+      return;
+    }
+
+    this.manualClose = false;
+    this.reconnectAttempt = 0;
+    await this.openSocket('connecting');
+  }
+
+  /**
+   * Close the connection and stop reconnecting. Pending transaction waiters are rejected.
+   */
+  disconnect(): void {
+    this.manualClose = true;
+    this.clearTimers();
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => undefined);
+      this.socket.terminate();
+      this.socket = null;
+    }
+
+    for (const [transactionId, waiters] of this.transactionWaiters) {
+      waiters.forEach(waiter => {
+        clearTimeout(waiter.timer);
+        waiter.reject(new WebSocketClientError(`Feed disconnected while waiting for ${transactionId}`, 'DISCONNECTED'));
+      });
+    }
+    this.transactionWaiters.clear();
+
+    if (this.state !== 'disconnected') {
+      this.state = 'disconnected';
+      this.emit('disconnected', { manual: true });
+      logger.info('WebSocket feed disconnected');
+    }
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to price updates for token class keys
+   */
+  subscribePrices(tokens: string[]): void {
+    const added = tokens.filter(token => !this.priceTokens.has(token));
+    added.forEach(token => this.priceTokens.add(token));
+    if (added.length > 0) {
+      this.sendSubscription(WEBSOCKET_CONSTANTS.CHANNELS.PRICES, { tokens: added });
+    }
+  }
+
+  /**
+   * Subscribe to position updates for a wallet
+   */
+  subscribePositions(user: string): void {
+    if (this.positionUsers.has(user)) return;
+    this.positionUsers.add(user);
+    this.sendSubscription(WEBSOCKET_CONSTANTS.CHANNELS.POSITIONS, { user });
+  }
+
+  /**
+   * Subscribe to price updates for pools by pool hash
+   */
+  subscribePools(poolHashes: string[]): void {
+    const added = poolHashes.filter(poolHash => !this.poolHashes.has(poolHash));
+    added.forEach(poolHash => this.poolHashes.add(poolHash));
+    if (added.length > 0) {
+      this.sendSubscription(WEBSOCKET_CONSTANTS.CHANNELS.POOLS, { pools: added });
+    }
+  }
+
+  /**
+   * Subscribe to status updates for a transaction until it reaches a terminal status
+   */
+  trackTransaction(transactionId: string): void {
+    if (this.transactionIds.has(transactionId)) return;
+    this.transactionIds.add(transactionId);
+    this.sendSubscription(WEBSOCKET_CONSTANTS.CHANNELS.TRANSACTIONS, { ids: [transactionId] });
+  }
+
+  /**
+   * Wait for a transaction to reach a terminal status via the feed; aborting the signal
+   * (e.g. once polling has answered) clears the timeout and rejects with CANCELLED
+   */
+  waitForTransaction(transactionId: string, timeoutMs: number, signal?: AbortSignal): Promise<TransactionUpdateEvent> {
+    if (signal?.aborted) {
+      return Promise.reject(new WebSocketClientError(`Stopped waiting for ${transactionId}`, 'CANCELLED'));
+    }
+    this.trackTransaction(transactionId);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.removeWaiter(transactionId, waiter);
+        reject(new WebSocketClientError(`Transaction ${transactionId} timeout after ${timeoutMs}ms`, 'TIMEOUT'));
+      }, timeoutMs);
+
+      const waiter: TransactionWaiter = { resolve, reject, timer };
+      const waiters = this.transactionWaiters.get(transactionId) || [];
+      waiters.push(waiter);
+      this.transactionWaiters.set(transactionId, waiters);
+
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        this.removeWaiter(transactionId, waiter);
+        if (!this.transactionWaiters.has(transactionId)) {
+          this.transactionIds.delete(transactionId); // Not re-subscribed on reconnect
+        }
+        reject(new WebSocketClientError(`Stopped waiting for ${transactionId}`, 'CANCELLED'));
+      }, { once: true });
+    });
+  }
+
+  getStats(): WebSocketClientStats {
+    return {
+      state: this.state,
+      connectedAt: this.connectedAt,
+      lastMessageAt: this.lastMessageAt,
+      reconnects: this.reconnects,
+      messagesReceived: this.messagesReceived,
+      backfills: this.backfills,
+      subscriptions: {
+        prices: this.priceTokens.size,
+        transactions: this.transactionIds.size,
+        positions: this.positionUsers.size
+      }
+    };
+  }
+
+  /**
+   * Create the socket and wire its handlers
+   */
+  private openSocket(state: 'connecting' | 'reconnecting'): Promise<void> {
+    this.state = state;
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.url, {
+        handshakeTimeout: this.options.connectTimeout,
+        maxPayload: this.options.maxMessageSize
+      });
+      this.socket = socket;
+      let opened = false;
+
+      socket.on('open', () => {
+        opened = true;
+        const isReconnect = state === 'reconnecting';
+        this.state = 'connected';
+        this.connectedAt = Date.now();
+        this.reconnectAttempt = 0;
+        this.startHeartbeat();
+        this.resubscribeAll();
+
+        logger.info(`✅ WebSocket feed connected: ${this.options.url}`);
+        this.emit('connected', { reconnect: isReconnect });
+
+        if (isReconnect) {
+          this.reconnects++;
+          this.backfillGap().catch(error => {
+            logger.warn('WebSocket gap backfill failed:', error);
+            this.emit('error', error);
+          });
+        }
+
+        resolve();
+      });
+
+      socket.on('message', (raw: WebSocket.RawData) => this.handleMessage(raw));
+      socket.on('pong', () => this.clearHeartbeatDeadline());
+
+      socket.on('error', (error: Error) => {
+        logger.debug('WebSocket feed error:', error.message);
+        if (!opened) {
+          reject(new WebSocketClientError(`WebSocket connection failed: ${error.message}`, 'CONNECT_FAILED'));
+        } else {
+          this.emit('error', error);
+        }
+      });
+
+      socket.on('close', (code: number) => {
+        this.handleClose(code);
+        if (!opened) {
+          reject(new WebSocketClientError(`WebSocket closed before open (code ${code})`, 'CONNECT_FAILED'));
+        }
+      });
+    });
+  }
+
+  private handleClose(code: number): void {
+    this.clearTimers();
+    this.socket = null;
+
+    if (this.manualClose) return;
+
+    const wasConnected = this.state === 'connected';
+    if (wasConnected) {
+      this.disconnectedAt = Date.now();
+      logger.warn(`⚠️ WebSocket feed dropped (code ${code}), reconnecting...`);
+      this.emit('disconnected', { manual: false, code });
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const { reconnectAttempts, reconnectDelay, reconnectDelayMax } = this.options;
+
+    if (this.reconnectAttempt >= reconnectAttempts) {
+      this.state = 'disconnected';
+      const error = new WebSocketClientError(
+        `WebSocket reconnection gave up after ${reconnectAttempts} attempts`,
+        'RECONNECT_EXHAUSTED'
+      );
+      logger.error(`❌ ${error.message} - consumers fall back to polling`);
+      this.emit('error', error);
+      return;
+    }
+
+    const delay = Math.min(reconnectDelay * Math.pow(2, this.reconnectAttempt), reconnectDelayMax);
+    this.reconnectAttempt++;
+    this.state = 'reconnecting';
+    this.emit('reconnecting', { attempt: this.reconnectAttempt, delay });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket('reconnecting').catch(error => {
+        logger.debug(`WebSocket reconnect attempt ${this.reconnectAttempt} failed: ${error.message}`);
+        // 'close' fires after a failed attempt and schedules the next one
+      });
+    }, delay);
+  }
+
+  /**
+   * Parse and dispatch an incoming message
+   */
+  private handleMessage(raw: WebSocket.RawData): void {
+    this.lastMessageAt = Date.now();
+    this.messagesReceived++;
+
+    let message: WebSocketEvent;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (error) {
+      logger.warn('Ignoring malformed WebSocket message');
+      return;
+    }
+
+    if (!message || typeof message.event !== 'string') return;
+
+    switch (message.event) {
+      case WEBSOCKET_CONSTANTS.MESSAGE_TYPES.PRICE_UPDATE:
+        this.emit('price_update', message as PriceUpdateEvent);
+        break;
+      case WEBSOCKET_CONSTANTS.MESSAGE_TYPES.TRANSACTION_UPDATE:
+        this.dispatchTransactionUpdate(message as TransactionUpdateEvent);
+        break;
+      case WEBSOCKET_CONSTANTS.MESSAGE_TYPES.POSITION_UPDATE:
+        this.emit('position_update', message as PositionUpdateEvent);
+        break;
+      case WEBSOCKET_CONSTANTS.MESSAGE_TYPES.POOL_UPDATE:
+        this.emit('pool_update', message as PoolUpdateEvent);
+        break;
+      case WEBSOCKET_CONSTANTS.MESSAGE_TYPES.ERROR:
+        logger.warn('WebSocket server error:', message.data);
+        this.emit('error', new WebSocketClientError(String(message.data?.message || 'Server error'), 'SERVER_ERROR'));
+        break;
+      default:
+        logger.debug(`Unhandled WebSocket event: ${message.event}`);
+    }
+  }
+
+  private dispatchTransactionUpdate(event: TransactionUpdateEvent): void {
+    this.emit('transaction_update', event);
+
+    const { transactionId, status } = event.data;
+    if (!TERMINAL_TRANSACTION_STATUSES.includes(status)) return;
+
+    this.transactionIds.delete(transactionId);
+    const waiters = this.transactionWaiters.get(transactionId) || [];
+    this.transactionWaiters.delete(transactionId);
+    waiters.forEach(waiter => {
+      clearTimeout(waiter.timer);
+      waiter.resolve(event);
+    });
+  }
+
+  private removeWaiter(transactionId: string, waiter: TransactionWaiter): void {
+    const waiters = (this.transactionWaiters.get(transactionId) || []).filter(w => w !== waiter);
+    if (waiters.length > 0) {
+      this.transactionWaiters.set(transactionId, waiters);
+    } else {
+      this.transactionWaiters.delete(transactionId);
+    }
+  }
+
+  private sendSubscription(channel: string, params: Record<string, unknown>): void {
+    if (!this.socket || this.state !== 'connected') return; // Sent on (re)connect instead
+
+    this.socket.send(JSON.stringify({
+      type: WEBSOCKET_CONSTANTS.MESSAGE_TYPES.SUBSCRIBE,
+      channel,
+      ...params
+    }));
+  }
+
+  private resubscribeAll(): void {
+    const { CHANNELS } = WEBSOCKET_CONSTANTS;
+
+    if (this.priceTokens.size > 0) {
+      this.sendSubscription(CHANNELS.PRICES, { tokens: Array.from(this.priceTokens) });
+    }
+    if (this.transactionIds.size > 0) {
+      this.sendSubscription(CHANNELS.TRANSACTIONS, { ids: Array.from(this.transactionIds) });
+    }
+    this.positionUsers.forEach(user => this.sendSubscription(CHANNELS.POSITIONS, { user }));
+    if (this.poolHashes.size > 0) {
+      this.sendSubscription(CHANNELS.POOLS, { pools: Array.from(this.poolHashes) });
+    }
+  }
+
+  /**
+   * Fill the outage window over REST: current prices for subscribed tokens and
+   * status of every tracked transaction. Positions have no REST delta, so
+   * consumers are told to resync.
+   */
+  private async backfillGap(): Promise<void> {
+    const gapMs = this.disconnectedAt ? Date.now() - this.disconnectedAt : 0;
+    const result: BackfillResult = {
+      gapMs,
+      prices: 0,
+      transactions: 0,
+      positionsStale: this.positionUsers.size > 0
+    };
+
+    const [prices, transactions] = await Promise.allSettled([
+      this.backfillPrices(),
+      this.backfillTransactions()
+    ]);
+
+    if (prices.status === 'fulfilled') {
+      result.prices = prices.value;
+    } else {
+      logger.warn('Price backfill failed:', prices.reason);
+    }
+
+    if (transactions.status === 'fulfilled') {
+      result.transactions = transactions.value;
+    } else {
+      logger.warn('Transaction backfill failed:', transactions.reason);
+    }
+
+    this.backfills++;
+    logger.info(`WebSocket gap backfilled (${gapMs}ms): ${result.prices} prices, ${result.transactions} transactions`);
+    this.emit('backfill', result);
+  }
+
+  private async backfillPrices(): Promise<number> {
+    const tokens = Array.from(this.priceTokens);
+    if (tokens.length === 0) return 0;
+
+    const response = await this.fetchJson<PricesResponse>(
+      ENDPOINTS.PRICE_MULTIPLE,
+      `${this.options.restBaseUrl}${ENDPOINTS.PRICE_MULTIPLE}`,
+      { method: 'POST', body: JSON.stringify({ tokens }) }
+    );
+
+    const timestamp = Date.now();
+    let emitted = 0;
+    tokens.forEach((token, index) => {
+      const price = response.data?.[index];
+      if (price === undefined || price === null) return;
+
+      const event: PriceUpdateEvent = {
+        event: 'price_update',
+        data: { token, price: String(price), change: 0, volume: '0' },
+        timestamp
+      };
+      this.emit('price_update', event);
+      emitted++;
+    });
+
+    return emitted;
+  }
+
+  private async backfillTransactions(): Promise<number> {
+    const ids = Array.from(this.transactionIds);
+    let emitted = 0;
+
+    for (const id of ids) {
+      try {
+        const response = await this.fetchJson<TransactionStatusResponse>(
+          ENDPOINTS.TRANSACTION_STATUS,
+          buildQueryUrl(ENDPOINTS.TRANSACTION_STATUS, { id }, this.options.restBaseUrl)
+        );
+
+        if (!response.data?.status || response.data.status === 'PENDING') continue;
+
+        this.dispatchTransactionUpdate({
+          event: 'transaction_update',
+          data: {
+            transactionId: id,
+            status: response.data.status,
+            blockNumber: response.data.blockNumber,
+            hash: response.data.transactionHash,
+            error: response.data.errorMessage
+              ? {
+                  code: response.data.errorCode || 0,
+                  key: response.data.errorKey || '',
+                  message: response.data.errorMessage
+                }
+              : undefined
+          },
+          timestamp: Date.now()
+        });
+        emitted++;
+      } catch (error) {
+        logger.debug(`Transaction status backfill failed for ${id}:`, error);
+      }
+    }
+
+    return emitted;
+  }
+
+  private async fetchJson<T>(endpoint: EndpointPath, url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'content-type': 'application/json', accept: 'application/json' },
+      signal: AbortSignal.timeout(getEndpointConfig(endpoint).timeout)
+    });
+
+    if (!response.ok) {
+      throw new WebSocketClientError(`Backfill request failed: ${response.status} ${response.statusText}`, 'BACKFILL_FAILED');
+    }
+
+    return await response.json() as T;
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+      if (this.heartbeatDeadline) return; // Still waiting on the previous pong
+
+      this.socket.ping();
+      this.heartbeatDeadline = setTimeout(() => {
+        logger.warn('WebSocket heartbeat missed, forcing reconnect');
+        this.heartbeatDeadline = null;
+        this.socket?.terminate();
+      }, this.options.heartbeatTimeout);
+    }, this.options.heartbeatInterval);
+  }
+
+  private clearHeartbeatDeadline(): void {
+    if (this.heartbeatDeadline) {
+      clearTimeout(this.heartbeatDeadline);
+      this.heartbeatDeadline = null;
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearHeartbeatDeadline();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+/**
+ * Create a WebSocket client with default configuration
+ */
+export function createWebSocketClient(
+  url?: string,
+  restBaseUrl?: string,
+  options: Partial<WebSocketClientOptions> = {}
+): GalaSwapWebSocketClient {
+  return new GalaSwapWebSocketClient({
+    ...options,
+    url: url || process.env.GALASWAP_WS_URL || 'wss://bundle-backend-prod1.defi.gala.com',
+    restBaseUrl: restBaseUrl || process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com'
+  });
+}
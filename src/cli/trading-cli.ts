@@ -8,6 +8,8 @@ import { TradingEngine } from '../trading/TradingEngine';
 import { validateEnvironment } from '../config/environment';
 import { logger } from '../utils/logger';
 import { TradingMode } from '../types/trading';
+import { TradeJournalQuery } from '../trading/execution/trade-journal';
+import { COST_BASIS_METHODS, CostBasisMethod, disposalsToTaxRows } from '../trading/accounting/tax-lots';
 // safeParseFloat removed - not used in CLI anymore
 import dotenv from 'dotenv';
 
@@ -145,26 +147,34 @@ program
 program
   .command('export')
   .description('Export trading data and performance reports')
-  .option('-t, --type <type>', 'Export type (trades, performance, positions)', 'trades')
+  .option('-t, --type <type>', 'Export type (trades, performance, positions, tax-lots, income, holdings)', 'trades')
   .option('-f, --format <format>', 'Export format (json, csv)', 'csv')
   .option('-o, --output <output>', 'Output file path', './export.csv')
+  .option('--from <date>', 'Only trades at or after this date (ISO 8601)')
+  .option('--to <date>', 'Only trades at or before this date (ISO 8601)')
+  .option('--strategy <id>', 'Only trades attributed to this strategy')
+  .option('-m, --method <method>', `Cost-basis method for tax exports (${COST_BASIS_METHODS.join(', ')})`, 'fifo')
   .action(async (options) => {
     try {
       logger.info('📤 Starting data export...');
 
-      const tradingEngine = await initializeTradingEngine();
+      // Exports only read the stores, so they skip the trading start and work through an emergency stop
+      const tradingEngine = new TradingEngine(validateEnvironment());
+      await tradingEngine.openStores();
       const exportType = options.type;
       const format = options.format;
       const outputPath = options.output;
 
       logger.info(`Exporting ${exportType} data in ${format} format to ${outputPath}`);
 
-      const exportData = await generateRealExportData(tradingEngine, exportType);
+      const exportData = await generateRealExportData(tradingEngine, exportType, {
+        from: options.from ? parseDateOption(options.from, '--from') : undefined,
+        to: options.to ? parseDateOption(options.to, '--to') : undefined,
+        strategy: options.strategy
+      }, parseMethodOption(options.method));
       await saveExportData(exportData, format, outputPath);
 
       logger.info(`✅ Export completed: ${outputPath}`);
-
-      await tradingEngine.stop();
       process.exit(0);
 
     } catch (error) {
@@ -201,21 +211,111 @@ program
     }
   });
 
+/**
+ * Reconcile command - Compare local positions and balances with chain state
+ */
+program
+  .command('reconcile')
+  .description('Diff local positions and balances against chain state and repair local records')
+  .option('--dry-run', 'Print the differences without repairing anything')
+  .action(async (options) => {
+    try {
+      // Reconcile without starting the engine, whose startup run would repair before printing
+      const tradingEngine = new TradingEngine(validateEnvironment());
+      const report = await tradingEngine.reconcileState({ repair: !options.dryRun });
+
+      logger.info(`🔎 Reconciliation for ${report.walletAddress}${options.dryRun ? ' (dry run)' : ''}:`);
+      logger.info(`Chain: ${report.chainPositions} open positions, ${report.chainBalances} token balances`);
+      if (report.balanceBaseline) {
+        logger.info('Balances: no earlier reconciliation for this wallet, recorded as the baseline');
+      }
+
+      for (const difference of report.differences) {
+        const marker = difference.explained ? '·' : '⚠️ ';
+        const values = difference.local !== undefined || difference.chain !== undefined
+          ? ` (local ${difference.local ?? '-'}, chain ${difference.chain ?? '-'})`
+          : '';
+        logger.info(`${marker} [${difference.store}] ${difference.kind} ${difference.subject}: ${difference.description}${values}${difference.repaired ? ' → repaired' : ''}`);
+      }
+
+      logger.info(`${report.differences.length} differences, ${report.unexplained} unexplained, ${report.repaired} repaired`);
+      process.exit(0);
+
+    } catch (error) {
+      logger.error('❌ Reconciliation failed:', error);
+      process.exit(1);
+    }
+  });
+
 // Backtest function removed - mock implementations not allowed
 
 /**
  * Helper function to generate real export data from TradingEngine
  */
-async function generateRealExportData(tradingEngine: TradingEngine, exportType: string): Promise<any[]> { // eslint-disable-line @typescript-eslint/no-explicit-any
+async function generateRealExportData(
+  tradingEngine: TradingEngine,
+  exportType: string,
+  filter: TradeJournalQuery = {},
+  method: CostBasisMethod = 'fifo'
+): Promise<any[]> { // eslint-disable-line @typescript-eslint/no-explicit-any
   const status = tradingEngine.getStatus();
   const portfolio = await tradingEngine.getPortfolio();
 
   switch (exportType) {
-    case 'trades':
-      // Note: Trade history tracking will be implemented in future versions
-      // For now, return empty array as no mock data is allowed
-      logger.warn('Trade export not yet implemented - no trade history tracking in current TradingEngine');
-      return [];
+    case 'trades': {
+      // Trade journal is the authoritative record of every swap the executor ran
+      const trades = await tradingEngine.getSwapExecutor().getTradeJournal().find(filter);
+      return trades.map(trade => ({
+        id: trade.id,
+        created_at: new Date(trade.createdAt).toISOString(),
+        status: trade.status,
+        strategy: trade.strategy ?? '',
+        token_in: trade.tokenIn,
+        token_out: trade.tokenOut,
+        amount_in: trade.amountIn,
+        quoted_amount_out: trade.quotedAmountOut ?? '',
+        amount_out: trade.amountOut ?? '',
+        quoted_slippage: trade.quotedSlippage ?? '',
+        actual_slippage: trade.actualSlippage ?? '',
+        gas_cost: trade.actualGasCost ?? '',
+        transaction_id: trade.transactionId ?? '',
+        payload_hash: trade.payloadHash ?? '',
+        execution_time_ms: trade.executionTime ?? '',
+        error: trade.error ?? ''
+      }));
+    }
+
+    case 'tax-lots': {
+      // One row per lot matched to a disposal, in tax software import layout
+      const report = await tradingEngine.getSwapExecutor().getTaxLedger().report(method, filter);
+      return disposalsToTaxRows(report.disposals);
+    }
+
+    case 'income': {
+      const report = await tradingEngine.getSwapExecutor().getTaxLedger().report(method, filter);
+      return report.income.map(entry => ({
+        'Date': new Date(entry.receivedAt).toISOString(),
+        'Type': 'Liquidity fees',
+        'Asset': entry.token,
+        'Amount': entry.amount,
+        'Value (USD)': entry.valueUSD.toFixed(2),
+        'Position': entry.positionId ?? '',
+        'Notes': entry.unpriced ? 'unpriced' : ''
+      }));
+    }
+
+    case 'holdings': {
+      const report = await tradingEngine.getSwapExecutor().getTaxLedger().report(method, { to: filter.to });
+      return report.holdings.map(holding => ({
+        token: holding.token,
+        amount: holding.amount,
+        lots: holding.lots.length,
+        cost_basis_usd: holding.costBasisUSD.toFixed(2),
+        price_usd: holding.priceUSD ?? '',
+        market_value_usd: holding.marketValueUSD?.toFixed(2) ?? '',
+        unrealized_pnl_usd: holding.unrealizedUSD?.toFixed(2) ?? ''
+      }));
+    }
 
     case 'performance':
       return [
@@ -266,7 +366,7 @@ async function saveExportData(data: any[], format: string, outputPath: string):
     if (data.length === 0) return;
 
     const headers = Object.keys(data[0]).join(',');
-    const rows = data.map(row => Object.values(row).join(','));
+    const rows = data.map(row => Object.values(row).map(csvField).join(','));
     const csv = [headers, ...rows].join('\n');
 
     fs.writeFileSync(outputPath, csv);
@@ -275,6 +375,30 @@ async function saveExportData(data: any[], format: string, outputPath: string):
   }
 }
 
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseMethodOption(value: string): CostBasisMethod {
+  const method = value.toLowerCase() as CostBasisMethod;
+  if (!COST_BASIS_METHODS.includes(method)) {
+    throw new Error(`Unknown cost-basis method: ${value} (use ${COST_BASIS_METHODS.join(', ')})`);
+  }
+  return method;
+}
+
+function parseDateOption(value: string, option: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${option}: ${value}`);
+  }
+  return date;
+}
+
 // Configure program
 program
   .name('billionaire-bot')
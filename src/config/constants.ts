@@ -312,6 +312,18 @@ export const STRATEGY_CONSTANTS = {
     FEE_COLLECTION_THRESHOLD: 0.01,         // Collect fees when > 1%
     AUTO_REBALANCE: true,                   // Enable automatic rebalancing
     UTILIZATION_TARGET: 0.8,                // 80% capital utilization target
+    HEDGE_ENABLED: false,                   // Hedged LP mode when LP_HEDGE_* is not configured
+    HEDGE_QUOTE_TOKEN: 'GUSDC|Unit|none|none', // Token hedge swaps trade against
+    HEDGE_DELTA_BAND: 0.1,                  // Re-hedge when net delta exceeds 10% of LP exposure
+    HEDGE_MIN_TRADE_VALUE: 5,               // Skip hedge swaps worth less than 5 quote tokens
+  },
+
+  // Auto-compounding of collected LP fees
+  FEE_COMPOUNDING: {
+    ENABLED: false,              // Default policy for positions without one of their own
+    MIN_NET_PROFIT_USD: 1,       // Fees left after gas before compounding is worth it
+    MAX_GAS_RATIO: 0.5,          // Gas may take at most 50% of the fees
+    MIN_SWAP_FRACTION: 0.01,     // Skip ratio swaps moving less than 1% of the fees
   },
 
   // Risk management
@@ -5,6 +5,13 @@
 
 import { DataSource, DataSourceOptions } from 'typeorm';
 import { Position } from '../entities/Position';
+import { EmergencyStateRecord } from '../entities/EmergencyStateRecord';
+import { TradeRecord } from '../entities/TradeRecord';
+import { ArbitrageAttemptRecord } from '../entities/ArbitrageAttemptRecord';
+import { ReconciliationSnapshotRecord } from '../entities/ReconciliationSnapshotRecord';
+import { TaxLedgerEventRecord } from '../entities/TaxLedgerEventRecord';
+import { HedgeBookRecord } from '../entities/HedgeBookRecord';
+import { CompoundPolicyRecord } from '../entities/CompoundPolicyRecord';
 import { AnalyticsEntities } from '../entities/analytics';
 import { logger } from '../utils/logger';
 import path from 'path';
@@ -31,7 +38,7 @@ export const getDatabaseConfig = (): DataSourceOptions => {
     return {
       type: 'sqlite',
       database: ':memory:', // In-memory database for tests
-      entities: [Position, ...AnalyticsEntities],
+      entities: [Position, EmergencyStateRecord, TradeRecord, ArbitrageAttemptRecord, ReconciliationSnapshotRecord, TaxLedgerEventRecord, HedgeBookRecord, CompoundPolicyRecord, ...AnalyticsEntities],
       synchronize: true, // Auto-create tables in tests
       logging: false, // Disable logging in tests
       migrations: [],
@@ -45,7 +52,7 @@ export const getDatabaseConfig = (): DataSourceOptions => {
     return {
       type: 'sqlite',
       database: path.join(basePath, 'data/billionaire-bot.db'),
-      entities: [Position, ...AnalyticsEntities],
+      entities: [Position, EmergencyStateRecord, TradeRecord, ArbitrageAttemptRecord, ReconciliationSnapshotRecord, TaxLedgerEventRecord, HedgeBookRecord, CompoundPolicyRecord, ...AnalyticsEntities],
       synchronize: true, // Auto-create tables in development
       logging: process.env.LOG_LEVEL === 'debug',
       migrations: [path.join(basePath, 'src/migrations/*.ts')],
@@ -58,7 +65,7 @@ export const getDatabaseConfig = (): DataSourceOptions => {
     return {
       type: 'postgres',
       url: process.env.DATABASE_URL,
-      entities: [Position, ...AnalyticsEntities],
+      entities: [Position, EmergencyStateRecord, TradeRecord, ArbitrageAttemptRecord, ReconciliationSnapshotRecord, TaxLedgerEventRecord, HedgeBookRecord, CompoundPolicyRecord, ...AnalyticsEntities],
       synchronize: false, // Never auto-sync in production
       logging: false,
       migrations: [path.join(process.cwd(), 'src/migrations/*.ts')],
@@ -75,7 +82,7 @@ export const getDatabaseConfig = (): DataSourceOptions => {
     username: process.env.DB_USERNAME || 'postgres',
     password: process.env.DB_PASSWORD || '',
     database: process.env.DB_DATABASE || 'billionaire_bot',
-    entities: [Position, ...AnalyticsEntities],
+    entities: [Position, EmergencyStateRecord, TradeRecord, ArbitrageAttemptRecord, ReconciliationSnapshotRecord, TaxLedgerEventRecord, HedgeBookRecord, CompoundPolicyRecord, ...AnalyticsEntities],
     synchronize: false,
     logging: process.env.LOG_LEVEL === 'debug',
     migrations: [path.join(process.cwd(), 'src/migrations/*.ts')],
@@ -129,6 +136,41 @@ export const getPositionRepository = async () => {
   return ds.getRepository(Position);
 };
 
+export const getEmergencyStateRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(EmergencyStateRecord);
+};
+
+export const getTradeRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(TradeRecord);
+};
+
+export const getArbitrageAttemptRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(ArbitrageAttemptRecord);
+};
+
+export const getReconciliationSnapshotRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(ReconciliationSnapshotRecord);
+};
+
+export const getTaxLedgerRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(TaxLedgerEventRecord);
+};
+
+export const getHedgeBookRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(HedgeBookRecord);
+};
+
+export const getCompoundPolicyRepository = async () => {
+  const ds = await getDataSource();
+  return ds.getRepository(CompoundPolicyRecord);
+};
+
 // Database health check
 export const checkDatabaseHealth = async (): Promise<boolean> => {
   try {
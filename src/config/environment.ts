@@ -5,11 +5,13 @@
 
 import { logger } from '../utils/logger';
 import { safeParseFloat } from '../utils/safe-parse';
+import { TradingMode } from '../types/trading';
 
 export interface BotConfig {
   trading: TradingConfig;
   api: ApiConfig;
   wallet: WalletConfig;
+  wallets?: WalletConfig[]; // Every wallet run by this process, primary first (set when WALLETS is configured)
   development: DevelopmentConfig;
 }
 
@@ -23,6 +25,7 @@ export interface TradingConfig {
   maxSlippage?: number;
   maxPortfolioConcentration?: number;
   emergencyStopLoss?: number;
+  maxDailyLossPercent?: number; // Overrides MAX_DAILY_LOSS_PERCENT for this config's RiskMonitor
   riskLevel?: 'low' | 'medium' | 'high';
   wallet?: {
     address?: string;
@@ -33,6 +36,9 @@ export interface TradingConfig {
   strategies?: {
     [key: string]: any; // eslint-disable-line @typescript-eslint/no-explicit-any
   };
+  strategyModules?: string[]; // External strategy modules loaded by StrategyOrchestrator
+  strategyOrchestrator?: boolean; // Run the StrategyOrchestrator strategies alongside the engine's own loop
+  lpHedge?: LpHedgeConfig; // Hedged LP mode for market making (unset fields use the strategy constants)
   // ✅ FIX: Configurable exploration limits to prevent performance issues
   explorationLimits?: {
     triangular?: number;
@@ -43,6 +49,13 @@ export interface TradingConfig {
   };
 }
 
+export interface LpHedgeConfig {
+  enabled: boolean;
+  quoteToken?: string;
+  deltaBand?: number;
+  minTradeValue?: number;
+}
+
 export interface ApiConfig {
   baseUrl: string;
   wsUrl: string;
@@ -53,8 +66,17 @@ export interface ApiConfig {
 export interface WalletConfig {
   address: string;
   maxPositionSize?: number;
+  id?: string; // Wallet identifier ('primary' for WALLET_ADDRESS)
+  privateKeyEnv?: string; // Name of the env var holding this wallet's key (default WALLET_PRIVATE_KEY)
+  strategies?: WalletStrategy[]; // Engine strategies this wallet may run (default: all)
+  riskMode?: TradingMode; // Pins the wallet's RiskProfile instead of auto-detecting it
+  trading?: Partial<TradingConfig>; // Per-wallet overrides of position limits and loss thresholds
 }
 
+export type WalletStrategy = 'arbitrage' | 'market-making' | 'liquidity';
+
+export const WALLET_STRATEGIES: readonly WalletStrategy[] = ['arbitrage', 'market-making', 'liquidity'];
+
 export interface DevelopmentConfig {
   nodeEnv: string;
   logLevel: string;
@@ -93,13 +115,7 @@ export function validateEnvironment(): BotConfig {
   const nodeEnv = process.env.NODE_ENV || 'development';
 
   // Validate private key format (hex or base64)
-  const privateKey = process.env.WALLET_PRIVATE_KEY!;
-  const isHexKey = privateKey.startsWith('0x') && /^0x[a-fA-F0-9]{64}$/.test(privateKey);
-  const isBase64Key = !isHexKey && /^[A-Za-z0-9+/]{43}=$/.test(privateKey);
-
-  if (!isHexKey && !isBase64Key) {
-    throw new Error('WALLET_PRIVATE_KEY must be a valid hex (0x...) or base64 encoded private key');
-  }
+  validatePrivateKeyFormat('WALLET_PRIVATE_KEY');
 
   // Production test mode safety validations
   if (productionTestMode) {
@@ -145,6 +161,12 @@ export function validateEnvironment(): BotConfig {
         multiHop5: safeParseFloat(process.env.EXPLORATION_LIMIT_MULTIHOP5, 200),
         multiHop6: safeParseFloat(process.env.EXPLORATION_LIMIT_MULTIHOP6, 250),
       },
+      strategyModules: (process.env.STRATEGY_MODULES || '')
+        .split(',')
+        .map(specifier => specifier.trim())
+        .filter(specifier => specifier.length > 0),
+      strategyOrchestrator: process.env.STRATEGY_ORCHESTRATOR_ENABLED === 'true',
+      lpHedge: parseLpHedgeConfig(),
     },
     api: {
       baseUrl: process.env.GALASWAP_API_URL!,
@@ -161,6 +183,16 @@ export function validateEnvironment(): BotConfig {
     }
   };
 
+  const additionalWallets = parseAdditionalWallets();
+  if (additionalWallets.length > 0) {
+    config.wallet.id = 'primary';
+    config.wallets = [config.wallet, ...additionalWallets];
+    const addresses = new Set(config.wallets.map(wallet => wallet.address));
+    if (addresses.size !== config.wallets.length) {
+      throw new Error('Each wallet in WALLETS must use a distinct address');
+    }
+  }
+
   logger.info('Configuration validated successfully');
 
   // Log non-sensitive configuration for debugging
@@ -168,6 +200,7 @@ export function validateEnvironment(): BotConfig {
     trading: config.trading,
     api: { baseUrl: config.api.baseUrl, wsUrl: config.api.wsUrl },
     wallet: { address: config.wallet.address.substring(0, 10) + '...' },
+    wallets: config.wallets?.map(wallet => ({ id: wallet.id, address: wallet.address.substring(0, 10) + '...', strategies: wallet.strategies })),
     development: config.development
   });
 
@@ -183,6 +216,147 @@ export function validateEnvironment(): BotConfig {
   return config;
 }
 
+/**
+ * Validate that an env var holds a hex (0x...) or base64 encoded private key
+ */
+function validatePrivateKeyFormat(envVar: string): void {
+  const privateKey = process.env[envVar]!;
+  const isHexKey = privateKey.startsWith('0x') && /^0x[a-fA-F0-9]{64}$/.test(privateKey);
+  const isBase64Key = !isHexKey && /^[A-Za-z0-9+/]{43}=$/.test(privateKey);
+
+  if (!isHexKey && !isBase64Key) {
+    throw new Error(`${envVar} must be a valid hex (0x...) or base64 encoded private key`);
+  }
+}
+
+/**
+ * Parse hedged LP mode from LP_HEDGE_ENABLED and optional LP_HEDGE_QUOTE_TOKEN,
+ * LP_HEDGE_DELTA_BAND and LP_HEDGE_MIN_TRADE_VALUE
+ */
+export function parseLpHedgeConfig(): LpHedgeConfig {
+  const hedge: LpHedgeConfig = { enabled: process.env.LP_HEDGE_ENABLED === 'true' };
+
+  if (process.env.LP_HEDGE_QUOTE_TOKEN) {
+    hedge.quoteToken = process.env.LP_HEDGE_QUOTE_TOKEN;
+  }
+
+  const numericSettings: Array<['deltaBand' | 'minTradeValue', string]> = [
+    ['deltaBand', 'LP_HEDGE_DELTA_BAND'],
+    ['minTradeValue', 'LP_HEDGE_MIN_TRADE_VALUE']
+  ];
+  for (const [key, envVar] of numericSettings) {
+    const raw = process.env[envVar];
+    if (raw !== undefined) {
+      hedge[key] = safeParseFloat(raw, NaN);
+      if (!Number.isFinite(hedge[key]) || hedge[key]! < 0) {
+        throw new Error(`${envVar} must be a non-negative number`);
+      }
+    }
+  }
+
+  return hedge;
+}
+
+/**
+ * Parse the extra wallets listed in WALLETS=<id>,<id>,...
+ * Each id is configured through WALLET_<ID>_ADDRESS, WALLET_<ID>_PRIVATE_KEY and optional
+ * WALLET_<ID>_STRATEGIES, _RISK_MODE, _MAX_POSITION_SIZE, _MAX_DAILY_VOLUME,
+ * _CONCENTRATION_LIMIT, _EMERGENCY_STOP_LOSS and _MAX_DAILY_LOSS_PERCENT overrides
+ */
+export function parseAdditionalWallets(): WalletConfig[] {
+  const ids = (process.env.WALLETS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(id => id.length > 0);
+
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('WALLETS contains duplicate wallet ids');
+  }
+
+  return ids.map(id => {
+    if (id === 'primary' || !/^[a-z0-9_]+$/.test(id)) {
+      throw new Error(`Invalid wallet id "${id}" in WALLETS (use letters, digits and underscores; "primary" is reserved)`);
+    }
+
+    const prefix = `WALLET_${id.toUpperCase()}_`;
+    const addressEnv = `${prefix}ADDRESS`;
+    const privateKeyEnv = `${prefix}PRIVATE_KEY`;
+
+    const missingVars = [addressEnv, privateKeyEnv].filter(varName => !process.env[varName]);
+    if (missingVars.length > 0) {
+      throw new Error(`Missing environment variables for wallet "${id}": ${missingVars.join(', ')}`);
+    }
+
+    const address = process.env[addressEnv]!;
+    if (!address.startsWith('eth|')) {
+      throw new Error(`${addressEnv} must start with "eth|" for Ethereum address`);
+    }
+    validatePrivateKeyFormat(privateKeyEnv);
+
+    const wallet: WalletConfig = { id, address, privateKeyEnv };
+
+    const strategies = process.env[`${prefix}STRATEGIES`];
+    if (strategies !== undefined) {
+      wallet.strategies = strategies
+        .split(',')
+        .map(strategy => strategy.trim())
+        .filter(strategy => strategy.length > 0)
+        .map(strategy => {
+          if (!WALLET_STRATEGIES.includes(strategy as WalletStrategy)) {
+            throw new Error(`${prefix}STRATEGIES contains unknown strategy "${strategy}" (expected ${WALLET_STRATEGIES.join(', ')})`);
+          }
+          return strategy as WalletStrategy;
+        });
+    }
+
+    const riskMode = process.env[`${prefix}RISK_MODE`];
+    if (riskMode !== undefined) {
+      const modes = Object.values(TradingMode) as string[];
+      if (!modes.includes(riskMode)) {
+        throw new Error(`${prefix}RISK_MODE must be one of ${modes.join(', ')}`);
+      }
+      wallet.riskMode = riskMode as TradingMode;
+    }
+
+    const overrides: Partial<TradingConfig> = {};
+    const numericOverrides: Array<[keyof TradingConfig, string]> = [
+      ['maxPositionSize', 'MAX_POSITION_SIZE'],
+      ['maxDailyVolume', 'MAX_DAILY_VOLUME'],
+      ['concentrationLimit', 'CONCENTRATION_LIMIT'],
+      ['emergencyStopLoss', 'EMERGENCY_STOP_LOSS'],
+      ['maxDailyLossPercent', 'MAX_DAILY_LOSS_PERCENT']
+    ];
+    for (const [key, suffix] of numericOverrides) {
+      const raw = process.env[`${prefix}${suffix}`];
+      if (raw !== undefined) {
+        (overrides as Record<string, number>)[key] = safeParseFloat(raw, NaN);
+        if (!Number.isFinite(overrides[key] as number)) {
+          throw new Error(`${prefix}${suffix} must be a number`);
+        }
+      }
+    }
+    if (Object.keys(overrides).length > 0) {
+      wallet.trading = overrides;
+      wallet.maxPositionSize = overrides.maxPositionSize;
+    }
+
+    return wallet;
+  });
+}
+
+/**
+ * Build the config a single wallet's engine runs with: shared API/trading settings,
+ * the wallet's own address and key, and its per-wallet trading overrides
+ */
+export function configForWallet(config: BotConfig, wallet: WalletConfig): BotConfig {
+  return {
+    ...config,
+    trading: { ...config.trading, ...wallet.trading },
+    wallet,
+    wallets: undefined
+  };
+}
+
 /**
  * Get configuration (assumes validation has been done)
  */
@@ -211,12 +385,13 @@ export const ENV = new Proxy({} as BotConfig, {
 
 /**
  * Securely get private key from environment - never store in memory
+ * @param envVar - Env var holding the key (per-wallet keys use WALLET_<ID>_PRIVATE_KEY)
  * @returns Private key as Buffer
  */
-export function getPrivateKey(): Buffer {
-  const privateKey = process.env.WALLET_PRIVATE_KEY;
+export function getPrivateKey(envVar: string = 'WALLET_PRIVATE_KEY'): Buffer {
+  const privateKey = process.env[envVar];
   if (!privateKey) {
-    throw new Error('WALLET_PRIVATE_KEY environment variable is not set');
+    throw new Error(`${envVar} environment variable is not set`);
   }
 
   try {
@@ -227,6 +402,6 @@ export function getPrivateKey(): Buffer {
     // Handle base64 format
     return Buffer.from(privateKey, 'base64');
   } catch (error) {
-    throw new Error('WALLET_PRIVATE_KEY must be a valid hex (0x...) or base64 encoded private key');
+    throw new Error(`${envVar} must be a valid hex (0x...) or base64 encoded private key`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,357 @@
+/**
+ * Candle Gap Backfill
+ * Finds intervals with no stored candle (collector downtime) and rebuilds them from pool trades
+ * and pool volume history, interpolating the price where no trade happened
+ */
+
+import { logger } from '../utils/logger';
+import { CandleGap, INTERVAL_MS, OHLCVData, TimeSeriesDB, timeSeriesDB } from './storage/timeseries-db';
+import { IntervalType } from '../entities/analytics';
+import { indicatorEngine } from '../analytics/indicator-engine';
+import type { TransactionHistoryClient } from '../api/transaction-history-client';
+import type { VolumeGraphClient } from '../api/volume-graph-client';
+import type { TransactionRecord, VolumeDataPoint, VolumeResolution } from '../api/types';
+import type { PoolData } from '../services/pool-discovery';
+import { tokenSymbol } from '../utils/token-format';
+import { defaultPoolSource } from '../services/pool-source';
+
+export interface BackfillConfig {
+  lookbackHours: number; // How far back to look for gaps
+  maxTradesPerToken: number; // Cap on pool trades fetched per token and run
+  stableTokens: string[]; // Counter tokens whose amount is taken as USD
+}
+
+export interface BackfillOptions {
+  startTime?: number;
+  endTime?: number; // Defaults to the start of the last complete interval
+  dryRun?: boolean;
+}
+
+export interface GapBackfillResult {
+  gap: CandleGap;
+  reconstructed: number; // Candles rebuilt from trades in the interval
+  interpolated: number; // Candles with no trades, price interpolated between neighbours
+  unfilled: number; // No trades and no neighbouring price to anchor on
+  poolHash?: string;
+  error?: string;
+}
+
+export interface BackfillReport {
+  gaps: number;
+  missing: number;
+  reconstructed: number;
+  interpolated: number;
+  unfilled: number;
+  results: GapBackfillResult[];
+  dryRun: boolean;
+}
+
+interface TradePrice {
+  timestamp: number;
+  price: number;
+  volumeUSD: number;
+}
+
+const TRADE_PAGE_SIZE = 1000;
+
+export class GapBackfiller {
+  private config: BackfillConfig;
+  private historyClient: TransactionHistoryClient | null;
+  private volumeGraphClient: VolumeGraphClient | null;
+
+  constructor(
+    config: Partial<BackfillConfig> = {},
+    private readonly db: TimeSeriesDB = timeSeriesDB,
+    historyClient?: TransactionHistoryClient,
+    volumeGraphClient?: VolumeGraphClient,
+    private readonly loadPools: () => Promise<PoolData[]> = defaultPoolSource
+  ) {
+    this.config = {
+      lookbackHours: 48,
+      maxTradesPerToken: 5000,
+      stableTokens: ['GUSDC', 'GUSDT', 'GUSD'],
+      ...config
+    };
+    this.historyClient = historyClient || null;
+    this.volumeGraphClient = volumeGraphClient || null;
+  }
+
+  /**
+   * Find missing candles per token and interval, starting no earlier than each series' first candle
+   */
+  async detectGaps(tokens: string[], intervals: IntervalType[], options: BackfillOptions = {}): Promise<CandleGap[]> {
+    const gaps: CandleGap[] = [];
+
+    for (const intervalType of intervals) {
+      const intervalMs = INTERVAL_MS[intervalType];
+      const endTime = options.endTime ?? Math.floor(Date.now() / intervalMs) * intervalMs - intervalMs;
+      const lookbackStart = options.startTime ?? endTime - this.config.lookbackHours * 60 * 60 * 1000;
+
+      for (const token of tokens.map(symbol => symbol.toUpperCase())) {
+        // A token that was never collected has no gaps, just no data
+        const [first] = await this.db.getOHLCV(token, { intervalType, orderBy: 'ASC', limit: 1 });
+        if (!first) continue;
+
+        const startTime = Math.max(lookbackStart, Number(first.interval_start));
+        if (startTime > endTime) continue;
+
+        gaps.push(...await this.db.findOHLCVGaps(token, intervalType, startTime, endTime));
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Detect gaps and fill them
+   */
+  async run(tokens: string[], intervals: IntervalType[], options: BackfillOptions = {}): Promise<BackfillReport> {
+    const gaps = await this.detectGaps(tokens, intervals, options);
+    return this.backfill(gaps, options);
+  }
+
+  /**
+   * Rebuild the candles of each gap; trades and volume history are fetched once per token
+   */
+  async backfill(gaps: CandleGap[], options: Pick<BackfillOptions, 'dryRun'> = {}): Promise<BackfillReport> {
+    const report: BackfillReport = {
+      gaps: gaps.length,
+      missing: gaps.reduce((sum, gap) => sum + gap.missing, 0),
+      reconstructed: 0,
+      interpolated: 0,
+      unfilled: 0,
+      results: [],
+      dryRun: options.dryRun === true
+    };
+    if (gaps.length === 0) return report;
+
+    const pools = await this.loadPools();
+    const byToken = new Map<string, CandleGap[]>();
+    for (const gap of gaps) {
+      if (!byToken.has(gap.token)) byToken.set(gap.token, []);
+      byToken.get(gap.token)!.push(gap);
+    }
+
+    for (const [token, tokenGaps] of byToken) {
+      const pool = this.selectPool(token, pools);
+      let trades: TradePrice[] = [];
+      const volumes = new Map<VolumeResolution, VolumeDataPoint[]>();
+      let sourceError: string | undefined;
+
+      if (pool) {
+        const from = Math.min(...tokenGaps.map(gap => gap.start));
+        const to = Math.max(...tokenGaps.map(gap => gap.end + INTERVAL_MS[gap.intervalType]));
+        try {
+          trades = await this.fetchTradePrices(token, pool.poolHash, from, to);
+          for (const resolution of new Set(tokenGaps.map(gap => volumeResolutionFor(gap.intervalType)))) {
+            volumes.set(resolution, await this.fetchVolumes(pool.poolHash, resolution, from, to));
+          }
+        } catch (error) {
+          sourceError = error instanceof Error ? error.message : String(error);
+          logger.warn(`Backfill sources unavailable for ${token}: ${sourceError}`);
+        }
+      }
+
+      for (const gap of tokenGaps) {
+        const result = await this.fillGap(gap, trades, volumes.get(volumeResolutionFor(gap.intervalType)) ?? [], options.dryRun === true);
+        result.poolHash = pool?.poolHash;
+        result.error = sourceError;
+        report.results.push(result);
+        report.reconstructed += result.reconstructed;
+        report.interpolated += result.interpolated;
+        report.unfilled += result.unfilled;
+      }
+    }
+
+    logger.info(`${report.dryRun ? '🔍 Would backfill' : '✅ Backfilled'} ${report.gaps} gaps (${report.missing} candles): ${report.reconstructed} reconstructed, ${report.interpolated} interpolated, ${report.unfilled} unfilled`);
+    return report;
+  }
+
+  private async fillGap(gap: CandleGap, trades: TradePrice[], volumes: VolumeDataPoint[], dryRun: boolean): Promise<GapBackfillResult> {
+    const intervalMs = INTERVAL_MS[gap.intervalType];
+    const result: GapBackfillResult = { gap, reconstructed: 0, interpolated: 0, unfilled: 0 };
+
+    // Neighbouring stored candles anchor the interpolation at both ends
+    const neighbours = await this.db.getOHLCV(gap.token, {
+      intervalType: gap.intervalType,
+      startTime: gap.start - intervalMs,
+      endTime: gap.end + intervalMs,
+      orderBy: 'ASC'
+    });
+    const before = neighbours.find(candle => Number(candle.interval_start) === gap.start - intervalMs);
+    const after = neighbours.find(candle => Number(candle.interval_start) === gap.end + intervalMs);
+
+    const slots: Array<OHLCVData | null> = [];
+    for (let start = gap.start; start <= gap.end; start += intervalMs) {
+      const inInterval = trades.filter(trade => trade.timestamp >= start && trade.timestamp < start + intervalMs);
+      const graphVolume = volumeWithin(volumes, start, start + intervalMs);
+      if (inInterval.length === 0) {
+        slots.push(null);
+        continue;
+      }
+      const prices = inInterval.map(trade => trade.price);
+      slots.push({
+        token: gap.token,
+        intervalStart: start,
+        intervalType: gap.intervalType,
+        open: prices[0],
+        high: Math.max(...prices),
+        low: Math.min(...prices),
+        close: prices[prices.length - 1],
+        volume: graphVolume ?? inInterval.reduce((sum, trade) => sum + trade.volumeUSD, 0),
+        tradeCount: inInterval.length,
+        quality: 'reconstructed'
+      });
+    }
+
+    // Interpolate each run of empty slots between the closest known prices on either side
+    let index = 0;
+    while (index < slots.length) {
+      if (slots[index]) {
+        index++;
+        continue;
+      }
+      let runEnd = index;
+      while (runEnd < slots.length && !slots[runEnd]) runEnd++;
+
+      const left = index > 0 ? slots[index - 1]!.close : before?.getClosePrice();
+      const right = runEnd < slots.length ? slots[runEnd]!.open : after?.getOpenPrice();
+      const from = left ?? right;
+      const to = right ?? left;
+      const length = runEnd - index;
+
+      for (let k = 0; k < length; k++) {
+        if (from === undefined || to === undefined) {
+          result.unfilled++;
+          continue;
+        }
+        const start = gap.start + (index + k) * intervalMs;
+        const open = from + (to - from) * (k / length);
+        const close = from + (to - from) * ((k + 1) / length);
+        slots[index + k] = {
+          token: gap.token,
+          intervalStart: start,
+          intervalType: gap.intervalType,
+          open,
+          high: Math.max(open, close),
+          low: Math.min(open, close),
+          close,
+          volume: volumeWithin(volumes, start, start + intervalMs) ?? 0,
+          tradeCount: 0,
+          quality: 'interpolated'
+        };
+      }
+      index = runEnd;
+    }
+
+    const candles = slots.filter((slot): slot is OHLCVData => slot !== null);
+    result.reconstructed = candles.filter(candle => candle.quality === 'reconstructed').length;
+    result.interpolated = candles.filter(candle => candle.quality === 'interpolated').length;
+
+    if (!dryRun && candles.length > 0) {
+      await this.db.storeOHLCVBatch(candles);
+      // Cached indicators were computed without these candles
+      indicatorEngine.invalidate(gap.token, gap.intervalType);
+    }
+    return result;
+  }
+
+  /**
+   * The deepest pool pairing the token with a stablecoin, else its deepest pool
+   */
+  private selectPool(token: string, pools: PoolData[]): PoolData | null {
+    const candidates = pools.filter(pool => tokenSymbol(pool.token0) === token || tokenSymbol(pool.token1) === token);
+    if (candidates.length === 0) return null;
+
+    const stable = candidates.filter(pool => this.isStable(tokenSymbol(pool.token0) === token ? pool.token1 : pool.token0));
+    return (stable.length > 0 ? stable : candidates).reduce((best, pool) => (pool.tvl > best.tvl ? pool : best));
+  }
+
+  private async fetchTradePrices(token: string, poolHash: string, from: number, to: number): Promise<TradePrice[]> {
+    const client = await this.getHistoryClient();
+    const records: TransactionRecord[] = [];
+
+    for (let offset = 0; offset < this.config.maxTradesPerToken; offset += TRADE_PAGE_SIZE) {
+      const page = await client.getPoolTransactions(poolHash, {
+        limit: TRADE_PAGE_SIZE,
+        offset,
+        fromTime: new Date(from).toISOString(),
+        toTime: new Date(to).toISOString()
+      });
+      records.push(...page);
+      if (page.length < TRADE_PAGE_SIZE) break;
+    }
+
+    return records
+      .map(record => this.toTradePrice(token, record))
+      .filter((trade): trade is TradePrice => trade !== null && trade.timestamp >= from && trade.timestamp < to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Price of the token in one trade: the stablecoin leg per token, or the trade's USD volume per token
+   */
+  private toTradePrice(token: string, record: TransactionRecord): TradePrice | null {
+    const isToken0 = tokenSymbol(record.token0) === token;
+    const tokenAmount = Math.abs(isToken0 ? record.amount0 : record.amount1);
+    const counterAmount = Math.abs(isToken0 ? record.amount1 : record.amount0);
+    const counter = isToken0 ? record.token1 : record.token0;
+    const timestamp = new Date(record.transactionTime).getTime();
+    if (!tokenAmount || !Number.isFinite(timestamp)) return null;
+
+    const price = this.isStable(counter) ? counterAmount / tokenAmount : Math.abs(record.volume) / tokenAmount;
+    if (!Number.isFinite(price) || price <= 0) return null;
+
+    return { timestamp, price, volumeUSD: Math.abs(record.volume) };
+  }
+
+  private async fetchVolumes(poolHash: string, resolution: VolumeResolution, from: number, to: number): Promise<VolumeDataPoint[]> {
+    const client = await this.getVolumeGraphClient();
+    return client.getVolumeData(poolHash, resolution, {
+      startTime: Math.floor(from / 1000),
+      endTime: Math.ceil(to / 1000)
+    });
+  }
+
+  private isStable(token: string): boolean {
+    return this.config.stableTokens.includes(tokenSymbol(token));
+  }
+
+  private async getHistoryClient(): Promise<TransactionHistoryClient> {
+    if (!this.historyClient) {
+      const { createTransactionHistoryClient } = await import('../api/transaction-history-client');
+      this.historyClient = createTransactionHistoryClient();
+    }
+    return this.historyClient;
+  }
+
+  private async getVolumeGraphClient(): Promise<VolumeGraphClient> {
+    if (!this.volumeGraphClient) {
+      const { createVolumeGraphClient } = await import('../api/volume-graph-client');
+      this.volumeGraphClient = createVolumeGraphClient();
+    }
+    return this.volumeGraphClient;
+  }
+}
+
+function volumeResolutionFor(intervalType: IntervalType): VolumeResolution {
+  const intervalMs = INTERVAL_MS[intervalType];
+  return intervalMs < INTERVAL_MS['1h'] ? '5m' : intervalMs < INTERVAL_MS['1d'] ? '1h' : '24h';
+}
+
+/**
+ * Pool volume over [start, end), pro-rating buckets that only partly overlap; undefined when no bucket covers it
+ */
+function volumeWithin(points: VolumeDataPoint[], start: number, end: number): number | undefined {
+  let total = 0;
+  let covered = false;
+  for (const point of points) {
+    const bucketStart = point.startTime * 1000;
+    const bucketEnd = point.endTime * 1000;
+    const overlap = Math.min(end, bucketEnd) - Math.max(start, bucketStart);
+    if (overlap <= 0 || bucketEnd <= bucketStart) continue;
+    total += point.volume * (overlap / (bucketEnd - bucketStart));
+    covered = true;
+  }
+  return covered ? total : undefined;
+}
@@ -32,8 +32,39 @@ export type {
   StatisticData,
   PriceQueryOptions,
   OHLCVQueryOptions,
-  StatisticsQueryOptions
+  StatisticsQueryOptions,
+  CandleGap
 } from './storage/timeseries-db';
+export { INTERVAL_MS, findCandleGaps } from './storage/timeseries-db';
+
+// Bulk CSV/Parquet import and export
+export {
+  DatasetTransfer,
+  datasetTransfer,
+  DatasetFormatError,
+  INTERVAL_TYPES,
+  parseOHLCVRows,
+  resolveFormat
+} from './storage/dataset-transfer';
+export type {
+  DatasetType,
+  DatasetFormat,
+  DatasetExportOptions,
+  DatasetExportResult,
+  OHLCVImportOptions,
+  OHLCVImportReport
+} from './storage/dataset-transfer';
+export { readParquet, writeParquet, ParquetError } from './storage/parquet';
+export type { ParquetColumn, ParquetTable, ParquetValue } from './storage/parquet';
+
+// Candle gap detection and backfill
+export { GapBackfiller } from './gap-backfill';
+export type {
+  BackfillConfig,
+  BackfillOptions,
+  BackfillReport,
+  GapBackfillResult
+} from './gap-backfill';
 
 // Re-export entities for convenience
 export {
@@ -44,6 +75,7 @@ export {
 
 export type {
   IntervalType,
+  CandleQuality,
   StatisticType,
   StatisticPeriod
 } from '../entities/analytics';
\ No newline at end of file
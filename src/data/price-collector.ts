@@ -5,9 +5,11 @@
 
 import { logger } from '../utils/logger';
 import { createQuoteWrapper } from '../utils/quote-api';
-import { RateLimiter } from '../utils/rate-limiter';
+import { RateLimiter, apiRateLimiters } from '../utils/rate-limiter';
 import { timeSeriesDB, PricePoint, OHLCVData } from './storage/timeseries-db';
 import { IntervalType } from '../entities/analytics';
+import { BackfillReport, GapBackfiller } from './gap-backfill';
+import { indicatorEngine } from '../analytics/indicator-engine';
 
 export interface CollectorConfig {
   collectionInterval: number; // Collection interval in milliseconds
@@ -16,6 +18,8 @@ export interface CollectorConfig {
   ohlcvIntervals: IntervalType[]; // OHLCV intervals to generate
   maxRetries: number; // Maximum retries per token
   rateLimitRequests: number; // Rate limit (requests per second)
+  backfillGapsOnStart: boolean; // Rebuild candles missed while the collector was down
+  backfillLookbackHours: number; // How far back the startup backfill looks for gaps
 }
 
 export interface CollectionStats {
@@ -77,6 +81,8 @@ export class PriceCollector {
       ohlcvIntervals: ['1m', '5m', '15m', '1h', '1d'] as IntervalType[],
       maxRetries: 3,
       rateLimitRequests: 10, // 10 requests per second
+      backfillGapsOnStart: true,
+      backfillLookbackHours: 48,
       ...config
     };
 
@@ -91,7 +97,7 @@ export class PriceCollector {
     };
 
     // Initialize rate limiter for respectful API usage
-    this.rateLimiter = new RateLimiter({
+    this.rateLimiter = apiRateLimiters.getLimiter('price-collector', {
       requestsPerSecond: this.config.rateLimitRequests,
       burstLimit: this.config.rateLimitRequests * 2
     });
@@ -141,6 +147,11 @@ export class PriceCollector {
       this.isRunning = true;
       logger.info('✅ Price Collection System started successfully');
 
+      // Backfill runs in the background so a slow history API does not delay collection
+      if (this.config.enableOHLCVAggregation && this.config.backfillGapsOnStart) {
+        this.backfillGaps().catch(error => logger.error('❌ Gap backfill failed:', error));
+      }
+
     } catch (error) {
       logger.error('❌ Failed to start Price Collection System:', error);
       throw error;
@@ -481,6 +492,7 @@ export class PriceCollector {
         };
 
         await timeSeriesDB.storeOHLCV(ohlcvData);
+        indicatorEngine.ingest(ohlcvData);
       }
 
     } catch (error) {
@@ -558,6 +570,15 @@ export class PriceCollector {
     }
   }
 
+  /**
+   * Detect missing OHLCV candles for tracked tokens and rebuild them from pool trades
+   */
+  async backfillGaps(options: { lookbackHours?: number; dryRun?: boolean } = {}): Promise<BackfillReport> {
+    const backfiller = new GapBackfiller({ lookbackHours: options.lookbackHours ?? this.config.backfillLookbackHours });
+    logger.info('🔎 Checking OHLCV history for gaps...');
+    return await backfiller.run(this.TOKENS_TO_TRACK, this.config.ohlcvIntervals, { dryRun: options.dryRun });
+  }
+
   /**
    * Get collection statistics
    */
@@ -0,0 +1,455 @@
+/**
+ * Dataset Transfer
+ * Bulk export of stored price data to CSV/Parquet and import of external OHLCV files,
+ * with deduplication and gap reporting
+ */
+
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import { IntervalType } from '../../entities/analytics';
+import { logger } from '../../utils/logger';
+import { CandleGap, INTERVAL_MS, OHLCVData, TimeSeriesDB, findCandleGaps, timeSeriesDB } from './timeseries-db';
+import { ParquetColumn, ParquetTable, ParquetValue, readParquet, writeParquet } from './parquet';
+
+export type DatasetType = 'prices' | 'ohlcv' | 'statistics';
+
+export type DatasetFormat = 'csv' | 'parquet';
+
+export const INTERVAL_TYPES = Object.keys(INTERVAL_MS) as IntervalType[];
+
+export interface DatasetExportOptions {
+  type: DatasetType;
+  tokens: string[];
+  intervalType?: IntervalType; // OHLCV only, defaults to 1h
+  startTime?: number;
+  endTime?: number;
+  format?: DatasetFormat; // Defaults to the output file extension
+}
+
+export interface DatasetExportResult {
+  path: string;
+  format: DatasetFormat;
+  rows: number;
+  rowsByToken: Record<string, number>;
+}
+
+export interface OHLCVImportOptions {
+  token?: string; // Used when the file has no token column
+  intervalType?: IntervalType; // Used when the file has no interval column; inferred from spacing otherwise
+  format?: DatasetFormat;
+  overwrite?: boolean; // Replace candles already stored instead of skipping them
+  dryRun?: boolean;
+}
+
+export interface OHLCVImportReport {
+  path: string;
+  format: DatasetFormat;
+  rows: number;
+  imported: number;
+  duplicates: number; // Repeated intervals within the file (last one wins)
+  skippedExisting: number; // Already stored and not overwritten
+  realigned: number; // Timestamps moved to the start of their interval
+  invalid: Array<{ row: number; reason: string }>;
+  series: Array<{ token: string; intervalType: IntervalType; from: number; to: number; candles: number }>;
+  gaps: CandleGap[]; // Holes left in the stored series over the imported range
+  dryRun: boolean;
+}
+
+export class DatasetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetFormatError';
+  }
+}
+
+// Header aliases accepted on import in priority order, matched ignoring case and with spaces read as underscores
+const OHLCV_COLUMN_ALIASES = {
+  token: ['token', 'symbol', 'asset'],
+  interval: ['interval', 'interval_type', 'timeframe'],
+  timestamp: ['interval_start', 'timestamp', 'open_time', 'time', 'datetime', 'date', 'ts', 't'],
+  open: ['open', 'open_price', 'o'],
+  high: ['high', 'high_price', 'h'],
+  low: ['low', 'low_price', 'l'],
+  close: ['close', 'close_price', 'c'],
+  volume: ['volume', 'vol', 'v'],
+  trades: ['trade_count', 'trades', 'number_of_trades', 'count', 'n']
+};
+
+const EXPORT_COLUMNS: Record<DatasetType, ParquetColumn[]> = {
+  prices: [
+    { name: 'token', type: 'string' },
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'price_usd', type: 'double' },
+    { name: 'volume_24h', type: 'double', optional: true },
+    { name: 'market_cap', type: 'double', optional: true },
+    { name: 'price_change_24h', type: 'double', optional: true },
+    { name: 'source', type: 'string' }
+  ],
+  ohlcv: [
+    { name: 'token', type: 'string' },
+    { name: 'interval', type: 'string' },
+    { name: 'interval_start', type: 'timestamp' },
+    { name: 'open', type: 'double' },
+    { name: 'high', type: 'double' },
+    { name: 'low', type: 'double' },
+    { name: 'close', type: 'double' },
+    { name: 'volume', type: 'double' },
+    { name: 'trade_count', type: 'int64' }
+  ],
+  statistics: [
+    { name: 'token', type: 'string' },
+    { name: 'statistic_type', type: 'string' },
+    { name: 'period', type: 'string' },
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'value', type: 'double' },
+    { name: 'secondary_value', type: 'double', optional: true },
+    { name: 'tertiary_value', type: 'double', optional: true },
+    { name: 'metadata', type: 'string', optional: true }
+  ]
+};
+
+export class DatasetTransfer {
+  constructor(private readonly db: TimeSeriesDB = timeSeriesDB) {}
+
+  /**
+   * Export stored price history, OHLCV candles or statistics for a date range
+   */
+  async exportDataset(path: string, options: DatasetExportOptions): Promise<DatasetExportResult> {
+    const format = resolveFormat(path, options.format);
+    const columns = EXPORT_COLUMNS[options.type];
+    const rows: Array<Record<string, ParquetValue>> = [];
+    const rowsByToken: Record<string, number> = {};
+
+    for (const token of options.tokens.map(symbol => symbol.toUpperCase())) {
+      const tokenRows = await this.loadRows(token, options);
+      rowsByToken[token] = tokenRows.length;
+      rows.push(...tokenRows);
+    }
+
+    const table = { columns, rows };
+    await fs.writeFile(path, format === 'parquet' ? writeParquet(table) : toCSV(table));
+
+    logger.info(`✅ Exported ${rows.length} ${options.type} rows to ${path}`);
+    return { path, format, rows: rows.length, rowsByToken };
+  }
+
+  /**
+   * Import an external OHLCV file, skipping candles already stored unless told to overwrite
+   */
+  async importOHLCV(path: string, options: OHLCVImportOptions = {}): Promise<OHLCVImportReport> {
+    const format = resolveFormat(path, options.format);
+    const content = await fs.readFile(path);
+    const table = format === 'parquet' ? readParquet(content) : parseCSV(content.toString('utf8'));
+    const parsed = parseOHLCVRows(table, options);
+
+    const report: OHLCVImportReport = {
+      path,
+      format,
+      rows: table.rows.length,
+      imported: 0,
+      duplicates: parsed.duplicates,
+      skippedExisting: 0,
+      realigned: parsed.realigned,
+      invalid: parsed.invalid,
+      series: [],
+      gaps: [],
+      dryRun: options.dryRun === true
+    };
+
+    const toStore: OHLCVData[] = [];
+    for (const candles of groupSeries(parsed.candles)) {
+      const { token, intervalType } = candles[0];
+      const from = candles[0].intervalStart;
+      const to = candles[candles.length - 1].intervalStart;
+      report.series.push({ token, intervalType, from, to, candles: candles.length });
+
+      const stored = await this.db.getOHLCV(token, { intervalType, startTime: from, endTime: to, orderBy: 'ASC' });
+      const storedStarts = new Set(stored.map(candle => Number(candle.interval_start)));
+
+      const fresh = options.overwrite ? candles : candles.filter(candle => !storedStarts.has(candle.intervalStart));
+      report.skippedExisting += candles.length - fresh.length;
+      toStore.push(...fresh);
+
+      const covered = [...storedStarts, ...candles.map(candle => candle.intervalStart)];
+      report.gaps.push(...findCandleGaps(token, intervalType, covered, { startTime: from, endTime: to }));
+    }
+
+    if (!report.dryRun) {
+      await this.db.storeOHLCVBatch(toStore);
+    }
+    report.imported = toStore.length;
+
+    logger.info(`${report.dryRun ? '🔍 Would import' : '✅ Imported'} ${report.imported} OHLCV candles from ${path} (${report.skippedExisting} already stored, ${report.duplicates} duplicates, ${report.invalid.length} invalid, ${report.gaps.length} gaps)`);
+    return report;
+  }
+
+  private async loadRows(token: string, options: DatasetExportOptions): Promise<Array<Record<string, ParquetValue>>> {
+    const range = { startTime: options.startTime, endTime: options.endTime, orderBy: 'ASC' as const };
+
+    switch (options.type) {
+      case 'prices':
+        return (await this.db.getPriceHistory(token, range)).map(point => ({
+          token: point.token,
+          timestamp: Number(point.timestamp),
+          price_usd: point.getPriceUsd(),
+          volume_24h: point.getVolume24h(),
+          market_cap: point.getMarketCap(),
+          price_change_24h: point.getPriceChange24h(),
+          source: point.source
+        }));
+
+      case 'ohlcv': {
+        const intervalType = options.intervalType ?? '1h';
+        return (await this.db.getOHLCV(token, { ...range, intervalType })).map(candle => ({
+          token: candle.token,
+          interval: candle.interval_type,
+          interval_start: Number(candle.interval_start),
+          open: candle.getOpenPrice(),
+          high: candle.getHighPrice(),
+          low: candle.getLowPrice(),
+          close: candle.getClosePrice(),
+          volume: candle.getVolume(),
+          trade_count: candle.trade_count
+        }));
+      }
+
+      case 'statistics':
+        return (await this.db.getStatistics(token, range)).map(statistic => ({
+          token: statistic.token,
+          statistic_type: statistic.statistic_type,
+          period: statistic.period,
+          timestamp: Number(statistic.timestamp),
+          value: statistic.getValue(),
+          secondary_value: statistic.getSecondaryValue(),
+          tertiary_value: statistic.getTertiaryValue(),
+          metadata: statistic.metadata ? JSON.stringify(statistic.metadata) : null
+        }));
+    }
+  }
+}
+
+/**
+ * Pick the file format from an explicit option or the file extension
+ */
+export function resolveFormat(path: string, format?: string): DatasetFormat {
+  const resolved = (format ?? extname(path).slice(1)).toLowerCase();
+  if (resolved === 'csv' || resolved === 'parquet') return resolved;
+  if (resolved === 'pq') return 'parquet';
+  throw new DatasetFormatError(`Cannot tell the format of ${path}; use a .csv or .parquet file or pass the format`);
+}
+
+/**
+ * Map an external OHLCV table onto candles, dropping rows that fail validation
+ */
+export function parseOHLCVRows(
+  table: ParquetTable,
+  options: Pick<OHLCVImportOptions, 'token' | 'intervalType'> = {}
+): { candles: OHLCVData[]; duplicates: number; realigned: number; invalid: Array<{ row: number; reason: string }> } {
+  const headers = table.columns.map(column => column.name);
+  const column = (field: keyof typeof OHLCV_COLUMN_ALIASES): string | undefined => {
+    const lower = headers.map(header => header.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    for (const alias of OHLCV_COLUMN_ALIASES[field]) {
+      const index = lower.indexOf(alias);
+      if (index !== -1) return headers[index];
+    }
+    return undefined;
+  };
+
+  const tokenColumn = column('token');
+  const intervalColumn = column('interval');
+  const timestampColumn = column('timestamp');
+  const priceColumns = { open: column('open'), high: column('high'), low: column('low'), close: column('close') };
+  const volumeColumn = column('volume');
+  const tradesColumn = column('trades');
+
+  const missing = Object.entries({ timestamp: timestampColumn, ...priceColumns }).filter(([, name]) => !name).map(([field]) => field);
+  if (missing.length > 0) {
+    throw new DatasetFormatError(`OHLCV file is missing columns: ${missing.join(', ')} (found ${headers.join(', ') || 'none'})`);
+  }
+  if (!tokenColumn && !options.token) {
+    throw new DatasetFormatError('OHLCV file has no token column; pass the token');
+  }
+  if (options.intervalType && !INTERVAL_MS[options.intervalType]) {
+    throw new DatasetFormatError(`Unknown interval ${options.intervalType} (use ${INTERVAL_TYPES.join(', ')})`);
+  }
+
+  const invalid: Array<{ row: number; reason: string }> = [];
+  const parsed: Array<Omit<OHLCVData, 'intervalType'> & { intervalType?: IntervalType }> = [];
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const token = String((tokenColumn ? row[tokenColumn] : null) ?? options.token ?? '').trim().toUpperCase();
+    const interval = intervalColumn && row[intervalColumn] !== null ? String(row[intervalColumn]).trim() as IntervalType : options.intervalType;
+    const timestamp = parseTimestamp(row[timestampColumn!]);
+    const [open, high, low, close] = [priceColumns.open, priceColumns.high, priceColumns.low, priceColumns.close].map(name => toNumber(row[name!]));
+    const volume = volumeColumn ? toNumber(row[volumeColumn]) : 0;
+    const trades = tradesColumn ? toNumber(row[tradesColumn]) : 0;
+
+    const reason = !token ? 'missing token'
+      : interval && !INTERVAL_MS[interval] ? `unknown interval ${interval}`
+        : timestamp === null ? 'unreadable timestamp'
+          : [open, high, low, close].some(price => price === null || price <= 0) ? 'missing or non-positive price'
+            : high! < Math.max(open!, close!, low!) || low! > Math.min(open!, close!) ? 'high/low do not bracket open and close'
+              : volume === null || volume < 0 ? 'negative or unreadable volume'
+                : null;
+    if (reason) {
+      invalid.push({ row: rowNumber, reason });
+      return;
+    }
+
+    parsed.push({
+      token,
+      intervalType: interval,
+      intervalStart: timestamp!,
+      open: open!,
+      high: high!,
+      low: low!,
+      close: close!,
+      volume: volume!,
+      tradeCount: Math.max(0, Math.round(trades ?? 0))
+    });
+  });
+
+  // Files without an interval column get one inferred per token from the typical spacing
+  const inferred = new Map<string, IntervalType>();
+  for (const candle of parsed.filter(candle => !candle.intervalType)) {
+    if (!inferred.has(candle.token)) {
+      inferred.set(candle.token, inferIntervalType(parsed.filter(other => other.token === candle.token && !other.intervalType).map(other => other.intervalStart), candle.token));
+    }
+    candle.intervalType = inferred.get(candle.token);
+  }
+
+  const byKey = new Map<string, OHLCVData>();
+  let duplicates = 0;
+  let realigned = 0;
+  for (const candle of parsed) {
+    const intervalType = candle.intervalType!;
+    const intervalMs = INTERVAL_MS[intervalType];
+    const intervalStart = Math.floor(candle.intervalStart / intervalMs) * intervalMs;
+    if (intervalStart !== candle.intervalStart) realigned++;
+
+    const key = `${candle.token}|${intervalType}|${intervalStart}`;
+    if (byKey.has(key)) duplicates++;
+    byKey.set(key, { ...candle, intervalType, intervalStart });
+  }
+
+  return { candles: [...byKey.values()], duplicates, realigned, invalid };
+}
+
+/**
+ * Render a table as CSV, with timestamp columns in ISO 8601
+ */
+export function toCSV(table: ParquetTable): string {
+  const header = table.columns.map(column => csvField(column.name)).join(',');
+  const lines = table.rows.map(row => table.columns.map(column => {
+    const value = row[column.name];
+    if (value === null || value === undefined) return '';
+    return csvField(column.type === 'timestamp' ? new Date(Number(value)).toISOString() : value);
+  }).join(','));
+  return [header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into string columns; empty fields become null
+ */
+export function parseCSV(text: string): ParquetTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(fields => fields.some(value => value.trim() !== ''));
+  const [header = [], ...body] = nonEmpty;
+  const names = header.map(name => name.replace(/^\uFEFF/, '').trim());
+
+  return {
+    columns: names.map(name => ({ name, type: 'string', optional: true })),
+    rows: body.map(fields => Object.fromEntries(names.map((name, index) => {
+      const value = fields[index]?.trim() ?? '';
+      return [name, value === '' ? null : value];
+    })))
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function groupSeries(candles: OHLCVData[]): OHLCVData[][] {
+  const series = new Map<string, OHLCVData[]>();
+  for (const candle of candles) {
+    const key = `${candle.token}|${candle.intervalType}`;
+    if (!series.has(key)) series.set(key, []);
+    series.get(key)!.push(candle);
+  }
+  return [...series.values()].map(group => group.sort((a, b) => a.intervalStart - b.intervalStart));
+}
+
+function inferIntervalType(timestamps: number[], token: string): IntervalType {
+  const sorted = [...new Set(timestamps)].sort((a, b) => a - b);
+  const spacings = sorted.slice(1).map((timestamp, index) => timestamp - sorted[index]).sort((a, b) => a - b);
+  const typical = spacings[Math.floor(spacings.length / 2)];
+  const match = INTERVAL_TYPES.find(intervalType => INTERVAL_MS[intervalType] === typical);
+  if (!match) {
+    throw new DatasetFormatError(`Cannot infer the candle interval for ${token}; pass the interval`);
+  }
+  return match;
+}
+
+/**
+ * Read numeric epochs in seconds, milliseconds, microseconds or nanoseconds, or date strings
+ */
+function parseTimestamp(value: ParquetValue | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = typeof value === 'number' ? value : /^-?\d+(\.\d+)?$/.test(String(value).trim()) ? Number(value) : null;
+  if (numeric !== null) {
+    if (!Number.isFinite(numeric)) return null;
+    const abs = Math.abs(numeric);
+    return Math.round(abs < 1e11 ? numeric * 1000 : abs < 1e14 ? numeric : abs < 1e17 ? numeric / 1e3 : numeric / 1e6);
+  }
+  const text = String(value).trim();
+  // Bare date-times without a zone are taken as UTC, like most exchange exports
+  const parsed = Date.parse(/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text) ? `${text.replace(' ', 'T')}Z` : text);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function toNumber(value: ParquetValue | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Export singleton instance
+export const datasetTransfer = new DatasetTransfer();
@@ -0,0 +1,793 @@
+/**
+ * Parquet Codec
+ * Minimal reader and writer for flat Parquet files - enough to exchange price datasets with
+ * pandas, polars, DuckDB and Spark without pulling in a native dependency
+ *
+ * Writer: one row group, PLAIN encoded data page v1 per column, uncompressed or gzip.
+ * Reader: flat schemas with required/optional columns; PLAIN, dictionary, RLE and
+ * DELTA_BINARY_PACKED encodings; data pages v1 and v2; uncompressed, snappy and gzip codecs.
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+
+export type ParquetColumnType = 'boolean' | 'int32' | 'int64' | 'double' | 'string' | 'timestamp';
+
+export type ParquetValue = boolean | number | string | null;
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType; // 'timestamp' is Unix milliseconds (UTC)
+  optional?: boolean;
+}
+
+export interface ParquetTable {
+  columns: ParquetColumn[];
+  rows: Array<Record<string, ParquetValue>>;
+}
+
+export interface ParquetWriteOptions {
+  compression?: 'none' | 'gzip';
+}
+
+export class ParquetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParquetError';
+  }
+}
+
+const MAGIC = Buffer.from('PAR1', 'ascii');
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, INT32: 1, INT64: 2, INT96: 3, FLOAT: 4, DOUBLE: 5, BYTE_ARRAY: 6, FIXED_LEN_BYTE_ARRAY: 7 };
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9, TIMESTAMP_MICROS: 10 };
+const Repetition = { REQUIRED: 0, OPTIONAL: 1, REPEATED: 2 };
+const Encoding = { PLAIN: 0, PLAIN_DICTIONARY: 2, RLE: 3, BIT_PACKED: 4, DELTA_BINARY_PACKED: 5, RLE_DICTIONARY: 8 };
+const Codec = { UNCOMPRESSED: 0, SNAPPY: 1, GZIP: 2 };
+const PageType = { DATA_PAGE: 0, INDEX_PAGE: 1, DICTIONARY_PAGE: 2, DATA_PAGE_V2: 3 };
+
+// Thrift compact protocol field types
+const CT = { STOP: 0, TRUE: 1, FALSE: 2, BYTE: 3, I16: 4, I32: 5, I64: 6, DOUBLE: 7, BINARY: 8, LIST: 9, SET: 10, MAP: 11, STRUCT: 12 };
+
+const JULIAN_UNIX_EPOCH = 2440588;
+const MS_PER_DAY = 86400000;
+
+/**
+ * Encode a table as a Parquet file
+ */
+export function writeParquet(table: ParquetTable, options: ParquetWriteOptions = {}): Buffer {
+  const codec = options.compression === 'none' ? Codec.UNCOMPRESSED : Codec.GZIP;
+  const chunks: Buffer[] = [MAGIC];
+  let offset = MAGIC.length;
+
+  const columnChunks: ThriftStruct[] = [];
+  let totalByteSize = 0;
+
+  for (const column of table.columns) {
+    const values = table.rows.map(row => row[column.name] ?? null);
+    if (!column.optional && values.some(value => value === null)) {
+      throw new ParquetError(`Column ${column.name} is required but has missing values`);
+    }
+
+    const body = Buffer.concat([
+      column.optional ? encodeDefinitionLevels(values) : Buffer.alloc(0),
+      encodePlain(column.type, values.filter((value): value is Exclude<ParquetValue, null> => value !== null))
+    ]);
+    const compressed = codec === Codec.GZIP ? gzipSync(body) : body;
+
+    const header = encodeStruct([
+      [1, 'i32', PageType.DATA_PAGE],
+      [2, 'i32', body.length],
+      [3, 'i32', compressed.length],
+      [5, 'struct', [
+        [1, 'i32', values.length],
+        [2, 'i32', Encoding.PLAIN],
+        [3, 'i32', Encoding.RLE],
+        [4, 'i32', Encoding.RLE]
+      ]]
+    ]);
+
+    const physicalType = physicalTypeOf(column.type);
+    columnChunks.push([
+      [2, 'i64', offset],
+      [3, 'struct', [
+        [1, 'i32', physicalType],
+        [2, 'list-i32', [Encoding.PLAIN, Encoding.RLE]],
+        [3, 'list-string', [column.name]],
+        [4, 'i32', codec],
+        [5, 'i64', values.length],
+        [6, 'i64', header.length + body.length],
+        [7, 'i64', header.length + compressed.length],
+        [9, 'i64', offset]
+      ]]
+    ]);
+
+    chunks.push(header, compressed);
+    offset += header.length + compressed.length;
+    totalByteSize += header.length + body.length;
+  }
+
+  const metadata = encodeStruct([
+    [1, 'i32', 1],
+    [2, 'list-struct', [
+      [[4, 'string', 'schema'], [5, 'i32', table.columns.length]],
+      ...table.columns.map(schemaElement)
+    ]],
+    [3, 'i64', table.rows.length],
+    [4, 'list-struct', [[
+      [1, 'list-struct', columnChunks],
+      [2, 'i64', totalByteSize],
+      [3, 'i64', table.rows.length]
+    ]]],
+    [6, 'string', 'billionaire-bot']
+  ]);
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(metadata.length, 0);
+  chunks.push(metadata, length, MAGIC);
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Decode a flat Parquet file
+ */
+export function readParquet(buffer: Buffer): ParquetTable {
+  if (buffer.length < 12 || !buffer.subarray(0, 4).equals(MAGIC) || !buffer.subarray(buffer.length - 4).equals(MAGIC)) {
+    throw new ParquetError('Not a Parquet file');
+  }
+
+  const metadataLength = buffer.readUInt32LE(buffer.length - 8);
+  const metadata = new CompactReader(buffer, buffer.length - 8 - metadataLength).readStruct();
+
+  const schema = (metadata[2] as ThriftRecord[]) ?? [];
+  const root = schema[0];
+  const leaves = schema.slice(1);
+  if (!root || leaves.length !== Number(root[5] ?? 0) || leaves.some(element => element[5] !== undefined || element[3] === Repetition.REPEATED)) {
+    throw new ParquetError('Nested Parquet schemas are not supported');
+  }
+
+  const columns = leaves.map(element => columnOf(element));
+  const values: ParquetValue[][] = columns.map(() => []);
+
+  for (const rowGroup of (metadata[4] as ThriftRecord[]) ?? []) {
+    const chunks = rowGroup[1] as ThriftRecord[];
+    chunks.forEach((chunk, index) => {
+      const meta = chunk[3] as ThriftRecord | undefined;
+      if (!meta) {
+        throw new ParquetError('Column chunks stored in external files are not supported');
+      }
+      values[index].push(...readColumnChunk(buffer, meta, leaves[index]));
+    });
+  }
+
+  const numRows = Number(metadata[3] ?? 0);
+  const rows: Array<Record<string, ParquetValue>> = [];
+  for (let row = 0; row < numRows; row++) {
+    const record: Record<string, ParquetValue> = {};
+    columns.forEach((column, index) => {
+      record[column.name] = values[index][row] ?? null;
+    });
+    rows.push(record);
+  }
+
+  return { columns, rows };
+}
+
+// -----------------------------------------------------------------------------------------
+// Column chunks
+// -----------------------------------------------------------------------------------------
+
+function readColumnChunk(buffer: Buffer, meta: ThriftRecord, element: ThriftRecord): ParquetValue[] {
+  const codec = Number(meta[4]);
+  const numValues = Number(meta[5]);
+  const dictionaryOffset = meta[11] !== undefined ? Number(meta[11]) : 0;
+  const dataOffset = Number(meta[9]);
+  const maxDefinition = element[3] === Repetition.OPTIONAL ? 1 : 0;
+
+  let position = dictionaryOffset > 0 && dictionaryOffset < dataOffset ? dictionaryOffset : dataOffset;
+  let dictionary: ParquetValue[] = [];
+  const output: ParquetValue[] = [];
+
+  while (output.length < numValues) {
+    const reader = new CompactReader(buffer, position);
+    const header = reader.readStruct();
+    const pageStart = reader.position;
+    const compressedSize = Number(header[3]);
+    const uncompressedSize = Number(header[2]);
+    const page = buffer.subarray(pageStart, pageStart + compressedSize);
+    position = pageStart + compressedSize;
+
+    switch (Number(header[1])) {
+      case PageType.DICTIONARY_PAGE: {
+        const dictionaryHeader = header[7] as ThriftRecord;
+        dictionary = decodePlain(decompress(codec, page, uncompressedSize), element, Number(dictionaryHeader[1]));
+        break;
+      }
+      case PageType.DATA_PAGE: {
+        const pageHeader = header[5] as ThriftRecord;
+        const count = Number(pageHeader[1]);
+        const data = decompress(codec, page, uncompressedSize);
+        let cursor = 0;
+        let levels: number[] | null = null;
+        if (maxDefinition > 0) {
+          if (Number(pageHeader[3]) !== Encoding.RLE) {
+            throw new ParquetError('Only RLE definition levels are supported');
+          }
+          const length = data.readUInt32LE(0);
+          levels = decodeHybrid(data.subarray(4, 4 + length), 1, count);
+          cursor = 4 + length;
+        }
+        output.push(...assemble(levels, decodeValues(data.subarray(cursor), Number(pageHeader[2]), element, dictionary, countPresent(levels, count))));
+        break;
+      }
+      case PageType.DATA_PAGE_V2: {
+        const pageHeader = header[8] as ThriftRecord;
+        const count = Number(pageHeader[1]);
+        const definitionLength = Number(pageHeader[5]);
+        const repetitionLength = Number(pageHeader[6]);
+        const levelsEnd = repetitionLength + definitionLength;
+        const levels = maxDefinition > 0 ? decodeHybrid(page.subarray(repetitionLength, levelsEnd), 1, count) : null;
+        const compressed = pageHeader[7] !== false;
+        const data = compressed
+          ? decompress(codec, page.subarray(levelsEnd), uncompressedSize - levelsEnd)
+          : page.subarray(levelsEnd);
+        output.push(...assemble(levels, decodeValues(data, Number(pageHeader[4]), element, dictionary, countPresent(levels, count))));
+        break;
+      }
+      case PageType.INDEX_PAGE:
+        break;
+      default:
+        throw new ParquetError(`Unknown page type ${header[1]}`);
+    }
+  }
+
+  return output;
+}
+
+function countPresent(levels: number[] | null, count: number): number {
+  return levels ? levels.filter(level => level === 1).length : count;
+}
+
+function assemble(levels: number[] | null, present: ParquetValue[]): ParquetValue[] {
+  if (!levels) return present;
+  let next = 0;
+  return levels.map(level => (level === 1 ? present[next++] : null));
+}
+
+function decodeValues(data: Buffer, encoding: number, element: ThriftRecord, dictionary: ParquetValue[], count: number): ParquetValue[] {
+  switch (encoding) {
+    case Encoding.PLAIN:
+      return decodePlain(data, element, count);
+    case Encoding.PLAIN_DICTIONARY:
+    case Encoding.RLE_DICTIONARY: {
+      if (count === 0) return [];
+      const indices = decodeHybrid(data.subarray(1), data[0], count);
+      return indices.map(index => dictionary[index] ?? null);
+    }
+    case Encoding.DELTA_BINARY_PACKED:
+      return decodeDeltaBinaryPacked(data, count).map(value => convertInteger(value, element));
+    case Encoding.RLE:
+      if (Number(element[1]) === PhysicalType.BOOLEAN) {
+        return decodeHybrid(data.subarray(4), 1, count).map(bit => bit === 1);
+      }
+      break;
+  }
+  throw new ParquetError(`Unsupported encoding ${encoding} for column ${element[4]}`);
+}
+
+function decompress(codec: number, data: Buffer, uncompressedSize: number): Buffer {
+  switch (codec) {
+    case Codec.UNCOMPRESSED:
+      return data;
+    case Codec.SNAPPY:
+      return snappyDecompress(data, uncompressedSize);
+    case Codec.GZIP:
+      return gunzipSync(data);
+    default:
+      throw new ParquetError(`Unsupported compression codec ${codec} (write with snappy, gzip or none)`);
+  }
+}
+
+// -----------------------------------------------------------------------------------------
+// Schema
+// -----------------------------------------------------------------------------------------
+
+function physicalTypeOf(type: ParquetColumnType): number {
+  switch (type) {
+    case 'boolean': return PhysicalType.BOOLEAN;
+    case 'int32': return PhysicalType.INT32;
+    case 'int64':
+    case 'timestamp': return PhysicalType.INT64;
+    case 'double': return PhysicalType.DOUBLE;
+    case 'string': return PhysicalType.BYTE_ARRAY;
+  }
+}
+
+function schemaElement(column: ParquetColumn): ThriftStruct {
+  const fields: ThriftStruct = [
+    [1, 'i32', physicalTypeOf(column.type)],
+    [3, 'i32', column.optional ? Repetition.OPTIONAL : Repetition.REQUIRED],
+    [4, 'string', column.name]
+  ];
+  if (column.type === 'string') {
+    fields.push([6, 'i32', ConvertedType.UTF8], [10, 'struct', [[1, 'struct', []]]]);
+  } else if (column.type === 'timestamp') {
+    fields.push([6, 'i32', ConvertedType.TIMESTAMP_MILLIS], [10, 'struct', [[8, 'struct', [[1, 'bool', true], [2, 'struct', [[1, 'struct', []]]]]]]]);
+  }
+  return fields;
+}
+
+function columnOf(element: ThriftRecord): ParquetColumn {
+  const name = String(element[4]);
+  const optional = element[3] === Repetition.OPTIONAL;
+  switch (Number(element[1])) {
+    case PhysicalType.BOOLEAN: return { name, type: 'boolean', optional };
+    case PhysicalType.INT32: return { name, type: 'int32', optional };
+    case PhysicalType.INT64: return { name, type: timestampUnit(element) ? 'timestamp' : 'int64', optional };
+    case PhysicalType.INT96: return { name, type: 'timestamp', optional };
+    case PhysicalType.FLOAT:
+    case PhysicalType.DOUBLE: return { name, type: 'double', optional };
+    case PhysicalType.BYTE_ARRAY: return { name, type: 'string', optional };
+    default: throw new ParquetError(`Unsupported type for column ${name}`);
+  }
+}
+
+/**
+ * Divisor from the column's timestamp unit to milliseconds, or null for plain integers
+ */
+function timestampUnit(element: ThriftRecord): number | null {
+  const logical = element[10] as ThriftRecord | undefined;
+  const timestamp = logical?.[8] as ThriftRecord | undefined;
+  if (timestamp) {
+    const unit = (timestamp[2] ?? {}) as ThriftRecord;
+    return unit[3] !== undefined ? 1e6 : unit[2] !== undefined ? 1e3 : 1;
+  }
+  if (element[6] === ConvertedType.TIMESTAMP_MILLIS) return 1;
+  if (element[6] === ConvertedType.TIMESTAMP_MICROS) return 1e3;
+  return null;
+}
+
+function convertInteger(value: bigint, element: ThriftRecord): number {
+  const unit = Number(element[1]) === PhysicalType.INT64 ? timestampUnit(element) : null;
+  return unit ? Number(value / BigInt(unit)) : Number(value);
+}
+
+// -----------------------------------------------------------------------------------------
+// Value encodings
+// -----------------------------------------------------------------------------------------
+
+function encodePlain(type: ParquetColumnType, values: Array<Exclude<ParquetValue, null>>): Buffer {
+  switch (type) {
+    case 'boolean': {
+      const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, index) => {
+        if (value) buffer[index >> 3] |= 1 << (index & 7);
+      });
+      return buffer;
+    }
+    case 'int32': {
+      const buffer = Buffer.alloc(values.length * 4);
+      values.forEach((value, index) => buffer.writeInt32LE(Math.trunc(Number(value)), index * 4));
+      return buffer;
+    }
+    case 'int64':
+    case 'timestamp': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, index) => buffer.writeBigInt64LE(BigInt(Math.trunc(Number(value))), index * 8));
+      return buffer;
+    }
+    case 'double': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, index) => buffer.writeDoubleLE(Number(value), index * 8));
+      return buffer;
+    }
+    case 'string':
+      return Buffer.concat(values.flatMap(value => {
+        const bytes = Buffer.from(String(value), 'utf8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(bytes.length, 0);
+        return [length, bytes];
+      }));
+  }
+}
+
+function decodePlain(data: Buffer, element: ThriftRecord, count: number): ParquetValue[] {
+  const values: ParquetValue[] = [];
+  let offset = 0;
+  switch (Number(element[1])) {
+    case PhysicalType.BOOLEAN:
+      for (let i = 0; i < count; i++) values.push(((data[i >> 3] >> (i & 7)) & 1) === 1);
+      return values;
+    case PhysicalType.INT32:
+      for (let i = 0; i < count; i++) values.push(data.readInt32LE(i * 4));
+      return values;
+    case PhysicalType.INT64:
+      for (let i = 0; i < count; i++) values.push(convertInteger(data.readBigInt64LE(i * 8), element));
+      return values;
+    case PhysicalType.INT96:
+      for (let i = 0; i < count; i++) {
+        const nanos = data.readBigUInt64LE(i * 12);
+        const julianDay = data.readUInt32LE(i * 12 + 8);
+        values.push((julianDay - JULIAN_UNIX_EPOCH) * MS_PER_DAY + Number(nanos / 1000000n));
+      }
+      return values;
+    case PhysicalType.FLOAT:
+      for (let i = 0; i < count; i++) values.push(data.readFloatLE(i * 4));
+      return values;
+    case PhysicalType.DOUBLE:
+      for (let i = 0; i < count; i++) values.push(data.readDoubleLE(i * 8));
+      return values;
+    case PhysicalType.BYTE_ARRAY:
+      for (let i = 0; i < count; i++) {
+        const length = data.readUInt32LE(offset);
+        values.push(data.toString('utf8', offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+      return values;
+    default:
+      throw new ParquetError(`Unsupported type for column ${element[4]}`);
+  }
+}
+
+/**
+ * Encode 0/1 definition levels as length-prefixed RLE runs
+ */
+function encodeDefinitionLevels(values: ParquetValue[]): Buffer {
+  const bytes: number[] = [];
+  let index = 0;
+  while (index < values.length) {
+    const level = values[index] === null ? 0 : 1;
+    let run = 1;
+    while (index + run < values.length && (values[index + run] === null ? 0 : 1) === level) run++;
+    writeVarint(bytes, run * 2);
+    bytes.push(level);
+    index += run;
+  }
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length, 0);
+  return Buffer.concat([length, Buffer.from(bytes)]);
+}
+
+/**
+ * Decode the RLE / bit-packed hybrid encoding used for levels and dictionary indices
+ */
+function decodeHybrid(data: Buffer, bitWidth: number, count: number): number[] {
+  const values: number[] = [];
+  const byteWidth = Math.ceil(bitWidth / 8);
+  let offset = 0;
+
+  while (values.length < count && offset < data.length) {
+    const [header, next] = readVarint(data, offset);
+    offset = next;
+    if (header & 1) {
+      const groups = header >>> 1;
+      values.push(...unpackBits(data, offset, groups * 8, bitWidth));
+      offset += groups * bitWidth;
+    } else {
+      let value = 0;
+      for (let i = 0; i < byteWidth; i++) value += data[offset + i] * 2 ** (8 * i);
+      offset += byteWidth;
+      for (let i = header >>> 1; i > 0; i--) values.push(value);
+    }
+  }
+
+  return values.slice(0, count);
+}
+
+function unpackBits(data: Buffer, offset: number, count: number, bitWidth: number): number[] {
+  const values: number[] = [];
+  let bit = offset * 8;
+  for (let i = 0; i < count; i++) {
+    let value = 0;
+    for (let b = 0; b < bitWidth; b++, bit++) {
+      if ((data[bit >> 3] >> (bit & 7)) & 1) value += 2 ** b;
+    }
+    values.push(value);
+  }
+  return values;
+}
+
+function decodeDeltaBinaryPacked(data: Buffer, count: number): bigint[] {
+  let offset = 0;
+  const read = (): number => {
+    const [value, next] = readVarint(data, offset);
+    offset = next;
+    return value;
+  };
+  const readZigZag = (): bigint => {
+    const [value, next] = readVarintBig(data, offset);
+    offset = next;
+    return (value >> 1n) ^ -(value & 1n);
+  };
+
+  const blockSize = read();
+  const miniblocks = read();
+  const total = read();
+  const valuesPerMiniblock = blockSize / miniblocks;
+  let previous = readZigZag();
+  const values: bigint[] = total > 0 ? [previous] : [];
+
+  while (values.length < Math.min(total, count)) {
+    const minDelta = readZigZag();
+    const widths = Array.from(data.subarray(offset, offset + miniblocks));
+    offset += miniblocks;
+    for (const width of widths) {
+      if (values.length >= total) break;
+      let bit = offset * 8;
+      for (let i = 0; i < valuesPerMiniblock; i++) {
+        let delta = 0n;
+        for (let b = 0; b < width; b++, bit++) {
+          if ((data[bit >> 3] >> (bit & 7)) & 1) delta |= 1n << BigInt(b);
+        }
+        if (values.length < total) {
+          previous = BigInt.asIntN(64, previous + minDelta + delta);
+          values.push(previous);
+        }
+      }
+      offset += (valuesPerMiniblock * width) / 8;
+    }
+  }
+
+  return values.slice(0, count);
+}
+
+function snappyDecompress(data: Buffer, expectedSize: number): Buffer {
+  const [length, start] = readVarint(data, 0);
+  const output = Buffer.alloc(length || expectedSize);
+  let offset = start;
+  let written = 0;
+
+  while (offset < data.length) {
+    const tag = data[offset++];
+    const kind = tag & 3;
+    if (kind === 0) {
+      let literal = tag >>> 2;
+      if (literal >= 60) {
+        const bytes = literal - 59;
+        literal = 0;
+        for (let i = 0; i < bytes; i++) literal += data[offset + i] * 2 ** (8 * i);
+        offset += bytes;
+      }
+      literal += 1;
+      data.copy(output, written, offset, offset + literal);
+      offset += literal;
+      written += literal;
+      continue;
+    }
+
+    let copyLength: number;
+    let distance: number;
+    if (kind === 1) {
+      copyLength = ((tag >>> 2) & 7) + 4;
+      distance = ((tag >>> 5) << 8) | data[offset++];
+    } else if (kind === 2) {
+      copyLength = (tag >>> 2) + 1;
+      distance = data.readUInt16LE(offset);
+      offset += 2;
+    } else {
+      copyLength = (tag >>> 2) + 1;
+      distance = data.readUInt32LE(offset);
+      offset += 4;
+    }
+    if (distance === 0 || distance > written) {
+      throw new ParquetError('Corrupt snappy page');
+    }
+    for (let i = 0; i < copyLength; i++, written++) {
+      output[written] = output[written - distance]; // Copies may overlap their own output
+    }
+  }
+
+  return output.subarray(0, written);
+}
+
+// -----------------------------------------------------------------------------------------
+// Thrift compact protocol
+// -----------------------------------------------------------------------------------------
+
+type ThriftRecord = { [field: number]: unknown };
+
+type ThriftField =
+  | [number, 'i32' | 'i64', number]
+  | [number, 'bool', boolean]
+  | [number, 'string', string]
+  | [number, 'struct', ThriftStruct]
+  | [number, 'list-i32', number[]]
+  | [number, 'list-string', string[]]
+  | [number, 'list-struct', ThriftStruct[]];
+
+type ThriftStruct = ThriftField[];
+
+function encodeStruct(fields: ThriftStruct): Buffer {
+  const bytes: number[] = [];
+  writeStruct(bytes, fields);
+  return Buffer.from(bytes);
+}
+
+function writeStruct(bytes: number[], fields: ThriftStruct): void {
+  let lastId = 0;
+  for (const [id, kind, value] of fields) {
+    const type = kind === 'i32' ? CT.I32
+      : kind === 'i64' ? CT.I64
+        : kind === 'bool' ? (value ? CT.TRUE : CT.FALSE)
+          : kind === 'string' ? CT.BINARY
+            : kind === 'struct' ? CT.STRUCT
+              : CT.LIST;
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) {
+      bytes.push((delta << 4) | type);
+    } else {
+      bytes.push(type);
+      writeVarint(bytes, zigzag(id));
+    }
+    lastId = id;
+
+    switch (kind) {
+      case 'i32':
+      case 'i64':
+        writeVarint(bytes, zigzag(value as number));
+        break;
+      case 'bool':
+        break;
+      case 'string':
+        writeBinary(bytes, value as string);
+        break;
+      case 'struct':
+        writeStruct(bytes, value as ThriftStruct);
+        break;
+      case 'list-i32':
+        writeListHeader(bytes, (value as number[]).length, CT.I32);
+        (value as number[]).forEach(item => writeVarint(bytes, zigzag(item)));
+        break;
+      case 'list-string':
+        writeListHeader(bytes, (value as string[]).length, CT.BINARY);
+        (value as string[]).forEach(item => writeBinary(bytes, item));
+        break;
+      case 'list-struct':
+        writeListHeader(bytes, (value as ThriftStruct[]).length, CT.STRUCT);
+        (value as ThriftStruct[]).forEach(item => writeStruct(bytes, item));
+        break;
+    }
+  }
+  bytes.push(CT.STOP);
+}
+
+function writeListHeader(bytes: number[], size: number, type: number): void {
+  if (size < 15) {
+    bytes.push((size << 4) | type);
+  } else {
+    bytes.push(0xf0 | type);
+    writeVarint(bytes, size);
+  }
+}
+
+function writeBinary(bytes: number[], value: string): void {
+  const encoded = Buffer.from(value, 'utf8');
+  writeVarint(bytes, encoded.length);
+  bytes.push(...encoded);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+}
+
+function readVarint(data: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  let position = offset;
+  for (;;) {
+    const byte = data[position++];
+    if (byte === undefined) throw new ParquetError('Unexpected end of Parquet data');
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return [value, position];
+    shift += 7;
+  }
+}
+
+function readVarintBig(data: Buffer, offset: number): [bigint, number] {
+  let value = 0n;
+  let shift = 0n;
+  let position = offset;
+  for (;;) {
+    const byte = data[position++];
+    if (byte === undefined) throw new ParquetError('Unexpected end of Parquet data');
+    value |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) return [value, position];
+    shift += 7n;
+  }
+}
+
+/**
+ * Reads compact-protocol structs into records keyed by field id
+ */
+class CompactReader {
+  constructor(private readonly data: Buffer, public position: number) {}
+
+  readStruct(): ThriftRecord {
+    const record: ThriftRecord = {};
+    let lastId = 0;
+    for (;;) {
+      const header = this.data[this.position++];
+      if (header === undefined) throw new ParquetError('Unexpected end of Parquet metadata');
+      if (header === CT.STOP) return record;
+      const type = header & 0x0f;
+      const delta = header >>> 4;
+      const id = delta !== 0 ? lastId + delta : this.readZigZag32();
+      lastId = id;
+      record[id] = this.readValue(type);
+    }
+  }
+
+  private readValue(type: number): unknown {
+    switch (type) {
+      case CT.TRUE: return true;
+      case CT.FALSE: return false;
+      case CT.BYTE: return this.data.readInt8(this.position++);
+      case CT.I16:
+      case CT.I32: return this.readZigZag32();
+      case CT.I64: {
+        const [value, next] = readVarintBig(this.data, this.position);
+        this.position = next;
+        return Number((value >> 1n) ^ -(value & 1n));
+      }
+      case CT.DOUBLE: {
+        const value = this.data.readDoubleLE(this.position);
+        this.position += 8;
+        return value;
+      }
+      case CT.BINARY: {
+        const length = this.readUnsigned();
+        const value = this.data.toString('utf8', this.position, this.position + length);
+        this.position += length;
+        return value;
+      }
+      case CT.LIST:
+      case CT.SET: {
+        const header = this.data[this.position++];
+        const size = (header >>> 4) === 15 ? this.readUnsigned() : header >>> 4;
+        const elementType = header & 0x0f;
+        const items: unknown[] = [];
+        for (let i = 0; i < size; i++) {
+          items.push(elementType === CT.TRUE || elementType === CT.FALSE
+            ? this.data[this.position++] === 1
+            : this.readValue(elementType));
+        }
+        return items;
+      }
+      case CT.MAP: {
+        const size = this.readUnsigned();
+        const map = new Map<unknown, unknown>();
+        if (size === 0) return map;
+        const types = this.data[this.position++];
+        for (let i = 0; i < size; i++) {
+          map.set(this.readValue(types >>> 4), this.readValue(types & 0x0f));
+        }
+        return map;
+      }
+      case CT.STRUCT:
+        return this.readStruct();
+      default:
+        throw new ParquetError(`Unknown thrift type ${type} in Parquet metadata`);
+    }
+  }
+
+  private readUnsigned(): number {
+    const [value, next] = readVarint(this.data, this.position);
+    this.position = next;
+    return value;
+  }
+
+  private readZigZag32(): number {
+    const value = this.readUnsigned();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+}
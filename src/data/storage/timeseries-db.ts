@@ -5,10 +5,21 @@
 
 import { Repository } from 'typeorm';
 import { getDataSource } from '../../config/database';
-import { PriceHistory, PriceOHLCV, PriceStatistics, IntervalType, StatisticType, StatisticPeriod } from '../../entities/analytics';
+import { PriceHistory, PriceOHLCV, PriceStatistics, IntervalType, CandleQuality, StatisticType, StatisticPeriod } from '../../entities/analytics';
 import { logger } from '../../utils/logger';
 import { safeParseFloat } from '../../utils/safe-parse';
 
+export const INTERVAL_MS: Record<IntervalType, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
 export interface PricePoint {
   token: string;
   timestamp: number;
@@ -19,6 +30,14 @@ export interface PricePoint {
   source?: string;
 }
 
+export interface CandleGap {
+  token: string;
+  intervalType: IntervalType;
+  start: number; // First missing interval start
+  end: number; // Last missing interval start
+  missing: number;
+}
+
 export interface OHLCVData {
   token: string;
   intervalStart: number;
@@ -29,6 +48,7 @@ export interface OHLCVData {
   close: number;
   volume: number;
   tradeCount?: number;
+  quality?: CandleQuality; // Defaults to 'collected'
 }
 
 export interface StatisticData {
@@ -221,6 +241,7 @@ export class TimeSeriesDB {
       entity.setClosePrice(ohlcvData.close);
       entity.setVolume(ohlcvData.volume);
       entity.trade_count = ohlcvData.tradeCount || 0;
+      entity.data_quality = ohlcvData.quality || 'collected';
 
       await this.priceOHLCVRepo.save(entity);
 
@@ -238,6 +259,45 @@ export class TimeSeriesDB {
     }
   }
 
+  /**
+   * Store multiple OHLCV candles in batch, replacing candles already stored for the same interval
+   */
+  async storeOHLCVBatch(candles: OHLCVData[]): Promise<void> {
+    if (!this.isInitialized) await this.initialize();
+
+    if (candles.length === 0) return;
+
+    try {
+      const entities = candles.map(candle => {
+        const entity = new PriceOHLCV();
+        entity.token = candle.token;
+        entity.interval_start = candle.intervalStart;
+        entity.interval_type = candle.intervalType;
+        entity.setOpenPrice(candle.open);
+        entity.setHighPrice(candle.high);
+        entity.setLowPrice(candle.low);
+        entity.setClosePrice(candle.close);
+        entity.setVolume(candle.volume);
+        entity.trade_count = candle.tradeCount || 0;
+        entity.data_quality = candle.quality || 'collected';
+        return entity;
+      });
+
+      // Keep each statement well under SQLite's bound-parameter limit
+      for (let i = 0; i < entities.length; i += 500) {
+        await this.priceOHLCVRepo.upsert(entities.slice(i, i + 500), {
+          conflictPaths: ['token', 'interval_start', 'interval_type']
+        });
+      }
+
+      logger.info(`✅ Stored ${entities.length} OHLCV candles in batch`);
+
+    } catch (error) {
+      logger.error('❌ Failed to store OHLCV batch:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get OHLCV data for a token
    */
@@ -278,6 +338,30 @@ export class TimeSeriesDB {
     }
   }
 
+  /**
+   * Find missing candles for a token and interval between two times
+   */
+  async findOHLCVGaps(token: string, intervalType: IntervalType, startTime: number, endTime: number): Promise<CandleGap[]> {
+    if (!this.isInitialized) await this.initialize();
+
+    try {
+      const starts = await this.priceOHLCVRepo
+        .createQueryBuilder('ohlcv')
+        .select('ohlcv.interval_start', 'interval_start')
+        .where('ohlcv.token = :token', { token: token.toUpperCase() })
+        .andWhere('ohlcv.interval_type = :intervalType', { intervalType })
+        .andWhere('ohlcv.interval_start >= :startTime', { startTime })
+        .andWhere('ohlcv.interval_start <= :endTime', { endTime })
+        .getRawMany<{ interval_start: number | string }>();
+
+      return findCandleGaps(token.toUpperCase(), intervalType, starts.map(row => Number(row.interval_start)), { startTime, endTime });
+
+    } catch (error) {
+      logger.error(`❌ Failed to find OHLCV gaps for ${token} (${intervalType}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Store statistical data
    */
@@ -582,18 +666,42 @@ export class TimeSeriesDB {
    * Get interval duration in milliseconds
    */
   private getIntervalMs(intervalType: IntervalType): number {
-    switch (intervalType) {
-      case '1m': return 60 * 1000;
-      case '5m': return 5 * 60 * 1000;
-      case '15m': return 15 * 60 * 1000;
-      case '30m': return 30 * 60 * 1000;
-      case '1h': return 60 * 60 * 1000;
-      case '4h': return 4 * 60 * 60 * 1000;
-      case '1d': return 24 * 60 * 60 * 1000;
-      case '1w': return 7 * 24 * 60 * 60 * 1000;
-      default: return 60 * 1000;
+    return INTERVAL_MS[intervalType] ?? 60 * 1000;
+  }
+}
+
+/**
+ * Missing interval starts between the first and last candle (or across the given range), as runs
+ */
+export function findCandleGaps(
+  token: string,
+  intervalType: IntervalType,
+  intervalStarts: number[],
+  range: { startTime?: number; endTime?: number } = {}
+): CandleGap[] {
+  const intervalMs = INTERVAL_MS[intervalType];
+  const present = new Set(intervalStarts.map(start => Math.floor(start / intervalMs) * intervalMs));
+  // With no candles at all, only a fully bounded range can be called missing
+  if (present.size === 0 && (range.startTime === undefined || range.endTime === undefined)) return [];
+
+  const sorted = [...present].sort((a, b) => a - b);
+  const first = range.startTime !== undefined ? Math.ceil(range.startTime / intervalMs) * intervalMs : sorted[0];
+  const last = range.endTime !== undefined ? Math.floor(range.endTime / intervalMs) * intervalMs : sorted[sorted.length - 1];
+
+  const gaps: CandleGap[] = [];
+  let gapStart: number | null = null;
+  for (let start = first; start <= last + intervalMs; start += intervalMs) {
+    const missing = start <= last && !present.has(start);
+    if (missing && gapStart === null) {
+      gapStart = start;
+    } else if (!missing && gapStart !== null) {
+      const end = start - intervalMs;
+      gaps.push({ token, intervalType, start: gapStart, end, missing: (end - gapStart) / intervalMs + 1 });
+      gapStart = null;
     }
   }
+
+  return gaps;
 }
 
 // Export singleton instance
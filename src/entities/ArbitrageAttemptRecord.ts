@@ -0,0 +1,49 @@
+/**
+ * Arbitrage Attempt Entity
+ * Database schema for the arbitrage recovery journal - one row per attempt, written before and
+ * after the attempt and each of its recovery actions so unfinished attempts survive a crash
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import type { ArbitrageAttempt, RecoveryAction } from '../trading/recovery/arbitrage-recovery';
+
+@Entity('arbitrage_attempts')
+@Index(['status'])
+@Index(['timestamp'])
+export class ArbitrageAttemptRecord {
+  @PrimaryColumn('varchar', { length: 120 })
+  id!: string;
+
+  @Column('varchar', { length: 20 })
+  status!: ArbitrageAttempt['status'];
+
+  @Column('bigint')
+  timestamp!: number; // Unix timestamp in milliseconds
+
+  @Column('varchar', { length: 200 })
+  tokenIn!: string;
+
+  @Column('varchar', { length: 200 })
+  tokenOut!: string; // Intermediate token held if the attempt stops part-way
+
+  @Column('varchar', { length: 100 })
+  amountIn!: string;
+
+  @Column('decimal', { precision: 20, scale: 8, default: 0 })
+  expectedProfit!: number;
+
+  @Column('json')
+  transactionIds!: string[];
+
+  @Column('json', { nullable: true })
+  actualResult?: ArbitrageAttempt['actualResult'] | null;
+
+  @Column('json')
+  recoveryActions!: RecoveryAction[];
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,23 @@
+/**
+ * Compound Policy Entity
+ * Database schema for per-position auto-compound policy overrides, so positions set to compound
+ * (or excluded from it) keep that setting across restarts
+ */
+
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import type { CompoundPolicy } from '../services/fee-compounder';
+
+@Entity('compound_policies')
+export class CompoundPolicyRecord {
+  @PrimaryColumn('varchar', { length: 100 })
+  walletAddress!: string;
+
+  @PrimaryColumn('varchar', { length: 100 })
+  positionId!: string;
+
+  @Column('json')
+  policy!: Partial<CompoundPolicy>; // Only the fields overridden for this position
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,60 @@
+/**
+ * Emergency State Entity
+ * Database schema for persisting EmergencyControls state across restarts
+ */
+
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import type {
+  EmergencyAction,
+  EmergencyHistoryEntry,
+  EmergencyType,
+  LiquidationProgress
+} from '../trading/risk/emergency-controls';
+
+@Entity('emergency_state')
+export class EmergencyStateRecord {
+  @PrimaryColumn('varchar', { length: 100 })
+  walletAddress!: string;
+
+  @Column('boolean', { default: false })
+  isEmergencyActive!: boolean;
+
+  @Column('varchar', { length: 30 })
+  emergencyType!: EmergencyType;
+
+  @Column('bigint', { default: 0 })
+  triggerTime!: number; // Unix timestamp in milliseconds
+
+  @Column('text', { default: '' })
+  triggerReason!: string;
+
+  @Column('boolean', { default: false })
+  recoveryMode!: boolean;
+
+  @Column('integer', { default: 0 })
+  totalPositionsLiquidated!: number;
+
+  @Column('decimal', { precision: 20, scale: 8, default: 0 })
+  totalValueLiquidated!: number;
+
+  @Column('integer', { default: 0 })
+  systemErrorCount!: number;
+
+  @Column('integer', { default: 0 })
+  apiFailureCount!: number;
+
+  @Column('integer', { default: 0 })
+  consecutiveFailures!: number;
+
+  @Column('json')
+  actionsExecuted!: EmergencyAction[];
+
+  @Column('json')
+  history!: EmergencyHistoryEntry[];
+
+  @Column('json')
+  liquidationProgress!: LiquidationProgress[];
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
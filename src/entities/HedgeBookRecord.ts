@@ -0,0 +1,32 @@
+/**
+ * Hedge Book Entity
+ * Database schema for DeltaHedger inventory - one row per wallet and hedged token, so a restart
+ * resumes from the hedges already on instead of hedging the same exposure again
+ */
+
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import type { HedgeTrade } from '../services/delta-hedger';
+
+@Entity('hedge_books')
+export class HedgeBookRecord {
+  @PrimaryColumn('varchar', { length: 100 })
+  walletAddress!: string;
+
+  @PrimaryColumn('varchar', { length: 200 })
+  token!: string;
+
+  @Column('varchar', { length: 100, default: '0' })
+  inventory!: string; // Negative when the token has been sold against the positions
+
+  @Column('varchar', { length: 100, default: '0' })
+  quoteBalance!: string;
+
+  @Column('varchar', { length: 100, default: '0' })
+  lastPrice!: string;
+
+  @Column('json')
+  trades!: HedgeTrade[]; // Most recent hedge swaps, oldest first
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,26 @@
+/**
+ * Reconciliation Snapshot Entity
+ * Database schema for the chain balances and position state seen by a wallet's last state
+ * reconciliation - the baseline the next run explains balance changes against
+ */
+
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import type { ChainPositionState } from '../monitoring/state-reconciler';
+
+@Entity('reconciliation_snapshots')
+export class ReconciliationSnapshotRecord {
+  @PrimaryColumn('varchar', { length: 100 })
+  walletAddress!: string;
+
+  @Column('bigint')
+  takenAt!: number; // Unix timestamp in milliseconds
+
+  @Column('json')
+  balances!: Record<string, number>; // Token symbol -> wallet balance
+
+  @Column('json')
+  positions!: Record<string, ChainPositionState>; // Position key -> liquidity and owed fees
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,42 @@
+/**
+ * Tax Ledger Event Entity
+ * Database schema for the tax-lot ledger - one row per swap, liquidity add/remove or fee
+ * collection with the USD value of every token leg at the time it happened
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import type { LedgerEventKind, LedgerLeg } from '../trading/accounting/tax-lots';
+
+@Entity('tax_ledger_events')
+@Index(['walletAddress', 'timestamp'])
+export class TaxLedgerEventRecord {
+  @PrimaryColumn('varchar', { length: 120 })
+  id!: string;
+
+  @Column('varchar', { length: 100, nullable: true })
+  walletAddress?: string | null;
+
+  @Column('varchar', { length: 20 })
+  kind!: LedgerEventKind;
+
+  @Column('bigint')
+  timestamp!: number; // Unix timestamp in milliseconds
+
+  @Column('varchar', { length: 120, nullable: true })
+  positionId?: string | null; // Liquidity position the event belongs to
+
+  @Column('varchar', { length: 200, nullable: true })
+  reference?: string | null; // Transaction id or hash
+
+  @Column('float', { nullable: true })
+  liquidityFraction?: number | null; // Share of the position's liquidity removed
+
+  @Column('json')
+  sent!: LedgerLeg[]; // Tokens leaving the wallet
+
+  @Column('json')
+  received!: LedgerLeg[]; // Tokens arriving in the wallet
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,101 @@
+/**
+ * Trade Record Entity
+ * Database schema for the trade journal - one row per swap, updated at every lifecycle transition
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * Lifecycle of a swap:
+ * REQUESTED → QUOTED → SUBMITTED → CONFIRMED
+ * with REJECTED (stopped before submission) or FAILED (submission or confirmation failed) as terminal states
+ */
+export type TradeStatus = 'REQUESTED' | 'QUOTED' | 'REJECTED' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED';
+
+export interface TradeStatusTransition {
+  status: TradeStatus;
+  timestamp: number;
+  note?: string;
+}
+
+@Entity('trade_records')
+@Index(['walletAddress', 'createdAt'])
+@Index(['strategy', 'createdAt'])
+@Index(['status'])
+@Index(['transactionId'])
+export class TradeRecord {
+  @PrimaryColumn('varchar', { length: 50 })
+  id!: string;
+
+  @Column('varchar', { length: 20 })
+  status!: TradeStatus;
+
+  @Column('varchar', { length: 100, nullable: true })
+  strategy?: string | null; // Strategy id, 'manual' or 'emergency-liquidation'
+
+  @Column('varchar', { length: 100 })
+  walletAddress!: string;
+
+  @Column('varchar', { length: 200 })
+  tokenIn!: string;
+
+  @Column('varchar', { length: 200 })
+  tokenOut!: string;
+
+  @Column('varchar', { length: 100 })
+  amountIn!: string;
+
+  @Column('json')
+  request!: Record<string, unknown>;
+
+  @Column('json', { nullable: true })
+  quote?: Record<string, unknown> | null;
+
+  @Column('varchar', { length: 100, nullable: true })
+  quotedAmountOut?: string | null;
+
+  @Column('decimal', { precision: 12, scale: 8, nullable: true })
+  quotedSlippage?: number | null; // Fraction of price
+
+  @Column('varchar', { length: 64, nullable: true })
+  payloadHash?: string | null; // SHA-256 of the signed payload sent to the bundler
+
+  @Column('json', { nullable: true })
+  gasBid?: Record<string, unknown> | null;
+
+  @Column('varchar', { length: 200, nullable: true })
+  transactionId?: string | null;
+
+  @Column('varchar', { length: 200, nullable: true })
+  transactionHash?: string | null;
+
+  @Column('json', { nullable: true })
+  monitoringResult?: Record<string, unknown> | null;
+
+  @Column('varchar', { length: 100, nullable: true })
+  amountOut?: string | null; // Realized output
+
+  @Column('decimal', { precision: 12, scale: 8, nullable: true })
+  actualSlippage?: number | null;
+
+  @Column('decimal', { precision: 20, scale: 8, nullable: true })
+  actualGasCost?: number | null;
+
+  @Column('text', { nullable: true })
+  error?: string | null;
+
+  @Column('varchar', { length: 20, nullable: true })
+  failureReason?: string | null;
+
+  @Column('integer', { nullable: true })
+  executionTime?: number | null; // ms
+
+  @Column('json')
+  transitions!: TradeStatusTransition[];
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
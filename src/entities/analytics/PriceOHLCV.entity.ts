@@ -7,6 +7,8 @@ import { Entity, Column, Index, PrimaryColumn, Unique } from 'typeorm';
 
 export type IntervalType = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w';
 
+export type CandleQuality = 'collected' | 'reconstructed' | 'interpolated';
+
 @Entity('price_ohlcv')
 @Index(['token', 'interval_start', 'interval_type'])
 @Unique(['token', 'interval_start', 'interval_type'])
@@ -38,6 +40,9 @@ export class PriceOHLCV {
   @Column('integer')
   trade_count!: number; // Number of trades in interval
 
+  @Column('varchar', { length: 12, default: 'collected' })
+  data_quality!: CandleQuality; // Collected live, reconstructed from pool trades, or interpolated across a gap
+
   @Column('datetime', { default: () => 'CURRENT_TIMESTAMP' })
   created_at!: Date;
 
@@ -85,6 +90,11 @@ export class PriceOHLCV {
     this.volume = volume.toString();
   }
 
+  // Check if this candle was filled in without any trades behind it
+  isInterpolated(): boolean {
+    return this.data_quality === 'interpolated';
+  }
+
   // Calculate price change percentage for the interval
   getPriceChangePercent(): number {
     const open = this.getOpenPrice();
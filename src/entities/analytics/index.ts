@@ -24,7 +24,7 @@ export type { PatternType, PatternStatus, MarketRegime } from './VolumePattern.e
 export type { SnapshotType } from './AnalyticsSnapshot.entity.js';
 
 // Price data types
-export type { IntervalType } from './PriceOHLCV.entity.js';
+export type { IntervalType, CandleQuality } from './PriceOHLCV.entity.js';
 export type { StatisticType, StatisticPeriod } from './PriceStatistics.entity.js';
 
 // Import entities for the array
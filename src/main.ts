@@ -9,10 +9,23 @@ import { Command } from 'commander';
 
 // Load environment variables
 dotenv.config();
-import { validateEnvironment } from './config/environment';
-import { TradingEngine } from './trading/TradingEngine';
+import { BotConfig, validateEnvironment } from './config/environment';
+import { TradingEngine, TradingEngineOptions } from './trading/TradingEngine';
+import { FleetPortfolio, WalletFleet } from './trading/wallet-fleet';
+import { closeDatabase } from './config/database';
 import { logger } from './utils/logger';
-import { safeParseFloat } from './utils/safe-parse';
+import { safeParseFloat, safeParseInt } from './utils/safe-parse';
+import { ControlServer, controlServerConfigFromEnv, requestControlApi } from './api/control-server';
+import { metrics } from './monitoring/metrics';
+import { registerBotMetrics } from './monitoring/bot-metrics';
+import { PerformanceMonitor } from './performance/PerformanceMonitor';
+import { apiOptimization } from './performance/api-optimization';
+import { apiRateLimiters } from './utils/rate-limiter';
+import { PaperGSwap, RecordedQuote } from './testing/paper-gswap';
+import { createQuoteWrapper } from './utils/quote-api';
+import type { RangeOrderBookEntry } from './strategies/range-order-strategy';
+import type { RebalanceAction } from './services/rebalance-engine';
+import { promises as fs } from 'fs';
 
 const program = new Command();
 
@@ -24,7 +37,9 @@ program
 program
   .command('start')
   .description('Start the trading bot')
-  .option('-d, --dry-run', 'Run in dry-run mode (no actual trades)')
+  .option('-d, --dry-run', 'Paper trade: live quotes, simulated fills and virtual balances')
+  .option('--paper-balances <list>', 'Starting paper balances for --dry-run, e.g. GALA=10000,GUSDC=500', 'GALA=10000,GUSDC=500')
+  .option('--record-quotes <file>', 'Write the live quotes seen during --dry-run to a JSON file for replay')
   .option('-c, --config <path>', 'Path to configuration file')
   .action(async (options) => {
     try {
@@ -33,19 +48,70 @@ program
       // Load and validate configuration
       const config = validateEnvironment();
 
-      if (options.dryRun) {
-        logger.warn('⚠️  Running in DRY-RUN mode - no actual trades will be executed');
-        // Note: Dry-run configuration will be implemented in future versions
+      // Dry-run trades against paper pools anchored to live quotes, one paper wallet per configured wallet
+      const wallets = config.wallets ?? [config.wallet];
+      const papers = options.dryRun
+        ? new Map(wallets.map(wallet => [wallet.address, new PaperGSwap({
+          walletAddress: wallet.address,
+          balances: parsePaperBalances(options.paperBalances),
+          quoteSource: createQuoteWrapper(config.api.baseUrl)
+        })]))
+        : undefined;
+
+      if (papers) {
+        logger.warn('⚠️  Running in DRY-RUN mode - trades fill against paper pools with virtual balances');
       }
 
-      // Initialize trading engine
-      const tradingEngine = new TradingEngine(config);
+      const engineOptions = (walletConfig: BotConfig): TradingEngineOptions => {
+        const paper = papers?.get(walletConfig.wallet.address);
+        return paper ? { gswap: paper.asGSwap(), quoteSource: paper.quoteWrapper() } : {};
+      };
+
+      // Initialize trading engine (a fleet of engines when WALLETS adds more wallets)
+      const tradingEngine = config.wallets
+        ? WalletFleet.withOptions(config, engineOptions)
+        : new TradingEngine(config, engineOptions(config));
+
+      if (tradingEngine instanceof WalletFleet) {
+        logger.info(`👛 Trading ${tradingEngine.getWalletIds().length} wallets: ${tradingEngine.getWalletIds().join(', ')}`);
+      }
+
+      // Control API is optional; enabled by CONTROL_API_PORT
+      const controlConfig = controlServerConfigFromEnv();
+      const controlServer = controlConfig
+        ? new ControlServer(tradingEngine, controlConfig, {
+          orchestrator: tradingEngine.getStrategyOrchestrator() ?? undefined,
+          onStop: () => shutdown(0),
+          metrics
+        })
+        : undefined;
+
+      // Metrics are collected whether or not the control API serves them; engine series carry a wallet label
+      const performanceMonitor = new PerformanceMonitor();
+      const engines = tradingEngine instanceof WalletFleet ? tradingEngine.getEngines() : [tradingEngine];
+      registerBotMetrics({
+        wallets: engines.map(engine => ({
+          walletId: engine.getWalletId(),
+          engine,
+          swapExecutor: engine.getSwapExecutor(),
+          orchestrator: engine.getStrategyOrchestrator() ?? undefined
+        })),
+        performanceMonitor,
+        rateLimiters: apiRateLimiters,
+        apiOptimization
+      });
 
       // Setup graceful shutdown
-      setupGracefulShutdown(tradingEngine);
+      const shutdown = setupGracefulShutdown(
+        tradingEngine,
+        controlServer,
+        papers ? () => reportPaperSessions(papers, options.recordQuotes) : undefined
+      );
 
       // Start the engine
       await tradingEngine.start();
+      await controlServer?.start();
+      performanceMonitor.startMonitoring();
 
       logger.info('✅ Billionaire Bot is now running!');
       logger.info('💡 Use Ctrl+C to stop the bot gracefully');
@@ -62,10 +128,17 @@ program
 program
   .command('status')
   .description('Get current status of the trading bot')
-  .action(async () => {
+  .option('-u, --url <url>', 'Control API base URL', defaultControlApiUrl())
+  .option('-k, --api-key <key>', 'Control API key (defaults to CONTROL_API_KEY)')
+  .action(async (options) => {
     try {
-      // Note: Remote status monitoring will be implemented in future versions
-      logger.info('Status check not yet implemented');
+      const apiKey = options.apiKey || process.env.CONTROL_API_KEY;
+      const [status, risk] = await Promise.all([
+        requestControlApi(options.url, '/api/status', { apiKey }),
+        requestControlApi(options.url, '/api/risk', { apiKey })
+      ]);
+
+      logger.info('Bot status:', { status, risk });
     } catch (error) {
       logger.error('Failed to get status:', error);
       process.exit(1);
@@ -75,16 +148,107 @@ program
 program
   .command('stop')
   .description('Stop the trading bot')
-  .action(async () => {
+  .option('-u, --url <url>', 'Control API base URL', defaultControlApiUrl())
+  .option('-k, --api-key <key>', 'Control API key (defaults to CONTROL_API_KEY)')
+  .action(async (options) => {
     try {
-      // Note: Remote shutdown will be implemented in future versions
-      logger.info('Remote stop not yet implemented');
+      await requestControlApi(options.url, '/api/stop', {
+        method: 'POST',
+        apiKey: options.apiKey || process.env.CONTROL_API_KEY
+      });
+      logger.info('✅ Stop requested - the bot is shutting down');
     } catch (error) {
       logger.error('Failed to stop bot:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('range-orders')
+  .description('List open range orders as a limit order book with fill percentages')
+  .option('-u, --url <url>', 'Control API base URL', defaultControlApiUrl())
+  .option('-k, --api-key <key>', 'Control API key (defaults to CONTROL_API_KEY)')
+  .option('-p, --pair <pair>', 'Only show one pair, e.g. GALA/GUSDC')
+  .action(async (options) => {
+    try {
+      const { orders } = await requestControlApi<{ orders: RangeOrderBookEntry[] }>(options.url, '/api/range-orders', {
+        apiKey: options.apiKey || process.env.CONTROL_API_KEY
+      });
+      const shown = options.pair
+        ? orders.filter(order => order.pair.toUpperCase() === String(options.pair).toUpperCase())
+        : orders;
+
+      if (shown.length === 0) {
+        logger.info('No open range orders');
+        return;
+      }
+
+      for (const line of formatRangeOrderBook(shown)) {
+        logger.info(line);
+      }
+    } catch (error) {
+      logger.error('Failed to list range orders:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('split <positionId>')
+  .description('Queue splitting a liquidity position into a ladder of ranges on the running bot')
+  .option('-u, --url <url>', 'Control API base URL', defaultControlApiUrl())
+  .option('-k, --api-key <key>', 'Control API key (defaults to CONTROL_API_KEY)')
+  .option('-r, --rungs <count>', 'Number of ranges in the ladder', '3')
+  .option('-w, --weighting <weighting>', 'uniform, or center to put more in the middle rungs', 'uniform')
+  .option('--min <price>', 'Ladder lower price (default: the position\'s lower bound)')
+  .option('--max <price>', 'Ladder upper price (default: the position\'s upper bound)')
+  .option('-s, --slippage <percent>', 'Slippage tolerance (default: 1%)', '1')
+  .action(async (positionId: string, options) => {
+    try {
+      const { action } = await requestControlApi<{ action: RebalanceAction }>(options.url, `/api/positions/${encodeURIComponent(positionId)}/split`, {
+        method: 'POST',
+        apiKey: options.apiKey || process.env.CONTROL_API_KEY,
+        body: {
+          rungs: safeParseInt(options.rungs, 0),
+          weighting: options.weighting,
+          minPrice: options.min === undefined ? undefined : safeParseFloat(options.min, 0),
+          maxPrice: options.max === undefined ? undefined : safeParseFloat(options.max, 0),
+          slippageTolerance: safeParseFloat(options.slippage, 1) / 100
+        }
+      });
+      logger.info(`✅ Split queued as ${action.id} (est. gas $${action.estimatedCost.toFixed(2)}); it runs on the next liquidity cycle`);
+    } catch (error) {
+      logger.error('Failed to queue split:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('merge <positionIds...>')
+  .description('Queue merging adjacent liquidity positions in one pool on the running bot')
+  .option('-u, --url <url>', 'Control API base URL', defaultControlApiUrl())
+  .option('-k, --api-key <key>', 'Control API key (defaults to CONTROL_API_KEY)')
+  .option('--min <price>', 'Merged range lower price (default: the lowest bound of the positions)')
+  .option('--max <price>', 'Merged range upper price (default: the highest bound of the positions)')
+  .option('-s, --slippage <percent>', 'Slippage tolerance (default: 1%)', '1')
+  .action(async (positionIds: string[], options) => {
+    try {
+      const { action } = await requestControlApi<{ action: RebalanceAction }>(options.url, '/api/positions/merge', {
+        method: 'POST',
+        apiKey: options.apiKey || process.env.CONTROL_API_KEY,
+        body: {
+          positionIds,
+          newMinPrice: options.min === undefined ? undefined : safeParseFloat(options.min, 0),
+          newMaxPrice: options.max === undefined ? undefined : safeParseFloat(options.max, 0),
+          slippageTolerance: safeParseFloat(options.slippage, 1) / 100
+        }
+      });
+      logger.info(`✅ Merge queued as ${action.id} (est. gas $${action.estimatedCost.toFixed(2)}); it runs on the next liquidity cycle`);
+    } catch (error) {
+      logger.error('Failed to queue merge:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('trade')
   .description('Execute a manual trade')
@@ -105,6 +269,8 @@ program
         amountIn: options.amount,
         slippageTolerance: safeParseFloat(options.slippage, 0.01) / 100
       });
+      await tradingEngine.getSwapExecutor().getTradeJournal().flush();
+      await tradingEngine.getSwapExecutor().getTaxLedger().flush();
 
       if (result.success) {
         logger.info(`✅ Trade executed successfully!`);
@@ -124,7 +290,7 @@ program
   .command('portfolio')
   .description('Show current portfolio')
   .action(async () => {
-    let tradingEngine: TradingEngine | null = null;
+    let tradingEngine: TradingEngine | WalletFleet | null = null;
     let signalCount = 0;
 
     // Setup double Ctrl+C handler
@@ -147,13 +313,19 @@ program
       logger.info('📊 Getting portfolio...');
 
       const config = validateEnvironment();
-      tradingEngine = new TradingEngine(config);
+      tradingEngine = config.wallets ? WalletFleet.fromConfig(config) : new TradingEngine(config);
 
       const portfolio = await tradingEngine.getPortfolio();
 
       logger.info('Portfolio Summary:');
       logger.info(`💰 Total Value: $${portfolio.totalValue.toFixed(2)}`);
 
+      if (tradingEngine instanceof WalletFleet) {
+        for (const wallet of (portfolio as FleetPortfolio).wallets) {
+          logger.info(`  👛 ${wallet.walletId} (${wallet.address.substring(0, 10)}...): $${wallet.totalValue.toFixed(2)}`);
+        }
+      }
+
       // Calculate P&L percentage if we have a meaningful total value
       const pnlPercent = portfolio.totalValue > 0 ? (portfolio.pnl / portfolio.totalValue) * 100 : 0;
       logger.info(`📈 P&L: $${portfolio.pnl.toFixed(2)} (${pnlPercent >= 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)`);
@@ -355,16 +527,124 @@ program
     }
   });
 
+program
+  .command('clear-emergency')
+  .description('Deactivate a persisted emergency stop so the bot can start again')
+  .requiredOption('-r, --reason <reason>', 'Why the emergency stop is being cleared')
+  .action(async (options) => {
+    try {
+      const config = validateEnvironment();
+      const tradingEngine = new TradingEngine(config);
+
+      await tradingEngine.deactivateEmergencyStop(options.reason);
+      await closeDatabase();
+
+      logger.info('✅ Emergency stop cleared - the bot can be started again');
+      process.exit(0);
+
+    } catch (error) {
+      logger.error('❌ Failed to clear emergency stop:', error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Base URL of the local control API, from CONTROL_API_HOST/CONTROL_API_PORT
+ */
+function defaultControlApiUrl(): string {
+  return `http://${process.env.CONTROL_API_HOST || '127.0.0.1'}:${process.env.CONTROL_API_PORT || '8787'}`;
+}
+
+/**
+ * Render range orders per pair, highest price first, with the last checked price marked between them
+ */
+function formatRangeOrderBook(orders: RangeOrderBookEntry[]): string[] {
+  const lines: string[] = [];
+  const pairs = [...new Set(orders.map(order => order.pair))];
+
+  for (const pair of pairs) {
+    const book = orders.filter(order => order.pair === pair).sort((a, b) => b.targetPrice - a.targetPrice);
+    const lastPrice = book.find(order => order.lastPrice !== undefined)?.lastPrice;
+
+    lines.push(`📖 ${pair}`);
+    lines.push(`  ${'SIDE'.padEnd(5)}${'TARGET'.padStart(14)}${'RANGE'.padStart(26)}${'AMOUNT'.padStart(14)}${'FILLED'.padStart(9)}  EXPIRES`);
+
+    const marker = lastPrice !== undefined ? `  ${'─'.repeat(20)} last ${lastPrice.toPrecision(6)} ${'─'.repeat(20)}` : null;
+    let marked = false;
+    for (const order of book) {
+      if (marker && !marked && lastPrice !== undefined && lastPrice > order.targetPrice) {
+        lines.push(marker);
+        marked = true;
+      }
+
+      const range = `${order.minPrice.toPrecision(6)} - ${order.maxPrice.toPrecision(6)}`;
+      const expires = order.timeInForce === 'GTT' && order.expiresAt
+        ? `${Math.max(0, Math.round((order.expiresAt - Date.now()) / 60000))}m`
+        : 'GTC';
+      lines.push(`  ${order.direction.toUpperCase().padEnd(5)}${order.targetPrice.toPrecision(6).padStart(14)}${range.padStart(26)}` +
+        `${order.amount.padStart(14)}${`${order.fillPercentage.toFixed(1)}%`.padStart(9)}  ${expires}  ${order.orderId}`);
+    }
+
+    if (marker && !marked) {
+      lines.push(marker);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Parse "GALA=10000,GUSDC=500" into starting paper balances
+ */
+function parsePaperBalances(list: string): Record<string, number> {
+  const balances: Record<string, number> = {};
+  for (const entry of list.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [token, amount] = entry.split('=');
+    balances[token.trim()] = safeParseFloat(amount, 0);
+  }
+  return balances;
+}
+
+/**
+ * Log how each paper wallet ended up and optionally save the live quotes for replay
+ */
+async function reportPaperSessions(papers: Map<string, PaperGSwap>, recordFile?: string): Promise<void> {
+  const recordedQuotes: RecordedQuote[] = [];
+  for (const [walletAddress, paper] of papers) {
+    const fills = paper.getFills();
+    logger.info('📝 Paper trading session:', {
+      wallet: walletAddress.substring(0, 10) + '...',
+      balances: paper.getBalances(),
+      swaps: fills.length,
+      failedSwaps: fills.filter(fill => !fill.success).length
+    });
+    recordedQuotes.push(...paper.getRecordedQuotes());
+  }
+
+  if (recordFile) {
+    recordedQuotes.sort((a, b) => a.timestamp - b.timestamp);
+    await fs.writeFile(recordFile, JSON.stringify(recordedQuotes, null, 2));
+    logger.info(`📼 Recorded ${recordedQuotes.length} quotes to ${recordFile}`);
+  }
+}
+
 /**
  * Setup graceful shutdown handlers
+ * Returns a shutdown function for callers (the control API) that stop the engine themselves
  */
-function setupGracefulShutdown(tradingEngine: TradingEngine): void {
+function setupGracefulShutdown(
+  tradingEngine: Pick<TradingEngine, 'stop'>,
+  controlServer?: ControlServer,
+  afterStop?: () => Promise<void>
+): (code: number) => Promise<void> {
   const gracefulShutdown = async (signal: string) => {
     logger.info(`\n🛑 Received ${signal}, shutting down gracefully...`);
 
     try {
+      await controlServer?.stop();
       await tradingEngine.stop();
       logger.info('✅ Trading engine stopped successfully');
+      await afterStop?.();
       process.exit(0);
     } catch (error) {
       logger.error('❌ Error during shutdown:', error);
@@ -393,6 +673,13 @@ function setupGracefulShutdown(tradingEngine: TradingEngine): void {
     logger.error('💥 Unhandled Rejection:', reason);
     gracefulShutdown('UNHANDLED_REJECTION');
   });
+
+  return async (code: number) => {
+    await controlServer?.stop();
+    await afterStop?.();
+    await closeDatabase();
+    process.exit(code);
+  };
 }
 
 // Parse command line arguments (ESM compatible)
@@ -0,0 +1,411 @@
+/**
+ * Alert Delivery
+ * Outbound transports for AlertSystem: signed webhooks and SMTP email
+ */
+
+import { createHmac } from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as os from 'os';
+import { logger } from '../utils/logger';
+import { RetryHelper, RetryOptions } from '../utils/retry-helper';
+import { Alert, AlertTemplate } from './alerts';
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string; // HMAC-SHA256 key; requests are unsigned when omitted
+  headers?: Record<string, string>;
+  timeout?: number; // milliseconds
+  template?: AlertTemplate;
+  retry?: Partial<RetryOptions>;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS (port 465)
+  startTls?: boolean; // Upgrade with STARTTLS when the server offers it (default true)
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  clientName?: string;
+  timeout?: number; // milliseconds
+  template?: AlertTemplate;
+  retry?: Partial<RetryOptions>;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: Alert['type'];
+  severity: Alert['severity'];
+  title: string;
+  message: string;
+  timestamp: number;
+  source?: string;
+  tags?: string[];
+  data?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+/**
+ * Error raised by alert transports. `status` is read by RetryHelper to decide retryability.
+ */
+export class AlertDeliveryError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+  }
+}
+
+export const SIGNATURE_HEADER = 'x-billionaire-signature';
+export const TIMESTAMP_HEADER = 'x-billionaire-timestamp';
+
+const DEFAULT_WEBHOOK_TIMEOUT = 10000;
+const DEFAULT_SMTP_TIMEOUT = 15000;
+
+/**
+ * Render an alert template. Placeholders use `{{name}}` and resolve against the
+ * alert itself first (`{{title}}`, `{{severity}}`) and then its data (`{{token}}`,
+ * `{{data.pool.fee}}`). Unknown placeholders are left untouched.
+ */
+export function renderAlertTemplate(template: AlertTemplate, alert: Alert): { title: string; message: string } {
+  const render = (text: string): string =>
+    text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => {
+      const value = resolveTemplateValue(alert, key);
+      if (value === undefined || value === null) return match;
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+
+  return {
+    title: render(template.title),
+    message: render(template.message)
+  };
+}
+
+function resolveTemplateValue(alert: Alert, key: string): unknown {
+  const lookup = (root: unknown, path: string[]): unknown =>
+    path.reduce<unknown>((value, segment) =>
+      value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined,
+    root);
+
+  const path = key.split('.');
+  if (key === 'time') return new Date(alert.timestamp).toISOString();
+
+  const fromAlert = lookup(alert, path);
+  return fromAlert !== undefined ? fromAlert : lookup(alert.data, path);
+}
+
+/**
+ * Compute the webhook signature for a request body.
+ * Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare.
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Webhook Sender
+ *
+ * POSTs alerts as JSON, signed with HMAC-SHA256 when a secret is configured,
+ * and retries transient failures with exponential backoff.
+ */
+export class WebhookSender {
+  constructor(private config: WebhookChannelConfig) {
+    if (!config.url) {
+      throw new AlertDeliveryError('Webhook channel requires a url');
+    }
+  }
+
+  /**
+   * Build the JSON payload for an alert, applying the channel template if any
+   */
+  buildPayload(alert: Alert): WebhookPayload {
+    const rendered = this.config.template
+      ? renderAlertTemplate(this.config.template, alert)
+      : { title: alert.title, message: alert.message };
+
+    return {
+      id: alert.id,
+      type: alert.type,
+      severity: alert.severity,
+      title: rendered.title,
+      message: rendered.message,
+      timestamp: alert.timestamp,
+      source: alert.source,
+      tags: alert.tags,
+      data: alert.data
+    };
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const body = JSON.stringify(this.buildPayload(alert));
+
+    await RetryHelper.withRetry(
+      () => this.post(body),
+      { ...RetryHelper.getApiRetryOptions('standard'), ...this.config.retry },
+      `webhook:${alert.id}`
+    );
+
+    logger.debug(`Webhook delivered: ${alert.id}`, { url: this.config.url });
+  }
+
+  private async post(body: string): Promise<void> {
+    // Timestamp is re-generated per attempt so receivers can reject stale replays
+    const timestamp = Date.now().toString();
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      'user-agent': 'billionaire-bot/1.0.0',
+      [TIMESTAMP_HEADER]: timestamp,
+      ...this.config.headers
+    };
+
+    if (this.config.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookBody(this.config.secret, timestamp, body);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.config.timeout ?? DEFAULT_WEBHOOK_TIMEOUT)
+      });
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new AlertDeliveryError('Webhook request timeout');
+      }
+      const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+      const detail = cause?.code || cause?.message || (error instanceof Error ? error.message : String(error));
+      throw new AlertDeliveryError(`Webhook network error: ${detail}`);
+    }
+
+    if (!response.ok) {
+      throw new AlertDeliveryError(
+        `Webhook responded ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+  }
+}
+
+/**
+ * SMTP Sender
+ *
+ * Minimal SMTP client (RFC 5321) supporting implicit TLS, STARTTLS and
+ * AUTH PLAIN. Sufficient for relays and local sinks such as MailHog.
+ */
+export class SmtpSender {
+  constructor(private config: EmailChannelConfig) {
+    if (!config.host || !config.port) {
+      throw new AlertDeliveryError('Email channel requires host and port');
+    }
+    if (!config.from || !config.to || config.to.length === 0) {
+      throw new AlertDeliveryError('Email channel requires from and at least one recipient');
+    }
+  }
+
+  /**
+   * Build the RFC 5322 message for an alert
+   */
+  buildMessage(alert: Alert): string {
+    const rendered = this.config.template
+      ? renderAlertTemplate(this.config.template, alert)
+      : {
+          title: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+          message: [
+            alert.message,
+            '',
+            `Type: ${alert.type}`,
+            `Severity: ${alert.severity}`,
+            `Source: ${alert.source || 'unknown'}`,
+            `Time: ${new Date(alert.timestamp).toISOString()}`,
+            `Alert ID: ${alert.id}`,
+            ...(alert.data !== undefined ? ['', 'Data:', JSON.stringify(alert.data, null, 2)] : [])
+          ].join('\n')
+        };
+
+    const headers = [
+      `From: ${this.config.from}`,
+      `To: ${this.config.to.join(', ')}`,
+      `Subject: ${this.encodeHeader(rendered.title)}`,
+      `Date: ${new Date(alert.timestamp).toUTCString()}`,
+      `Message-ID: <${alert.id}@${this.config.clientName || os.hostname()}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      `X-Alert-Severity: ${alert.severity}`
+    ];
+
+    return `${headers.join('\r\n')}\r\n\r\n${rendered.message.replace(/\r?\n/g, '\r\n')}`;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const message = this.buildMessage(alert);
+
+    await RetryHelper.withRetry(
+      () => this.deliver(message),
+      { ...RetryHelper.getApiRetryOptions('standard'), ...this.config.retry },
+      `email:${alert.id}`
+    );
+
+    logger.debug(`Email delivered: ${alert.id}`, { to: this.config.to });
+  }
+
+  private async deliver(message: string): Promise<void> {
+    const session = await SmtpSession.open(this.config);
+
+    try {
+      await session.expect(220);
+      const clientName = this.config.clientName || os.hostname();
+      let capabilities = await session.command(`EHLO ${clientName}`, 250);
+
+      if (!this.config.secure && this.config.startTls !== false && /\bSTARTTLS\b/i.test(capabilities)) {
+        await session.command('STARTTLS', 220);
+        await session.upgrade(this.config.host);
+        capabilities = await session.command(`EHLO ${clientName}`, 250);
+      }
+
+      if (this.config.username) {
+        if (!/\bAUTH\b[^\n]*\bPLAIN\b/i.test(capabilities)) {
+          throw new AlertDeliveryError('SMTP server does not support AUTH PLAIN');
+        }
+        const credentials = Buffer.from(`\0${this.config.username}\0${this.config.password || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${this.extractAddress(this.config.from)}>`, 250);
+      for (const recipient of this.config.to) {
+        await session.command(`RCPT TO:<${this.extractAddress(recipient)}>`, [250, 251]);
+      }
+      await session.command('DATA', 354);
+
+      // Dot-stuff lines beginning with '.' (RFC 5321 §4.5.2)
+      const stuffed = message.replace(/^\./gm, '..');
+      await session.command(`${stuffed}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+
+  private extractAddress(mailbox: string): string {
+    const match = mailbox.match(/<([^>]+)>/);
+    return (match ? match[1] : mailbox).trim();
+  }
+
+  private encodeHeader(value: string): string {
+    return /^[\x00-\x7F]*$/.test(value)
+      ? value
+      : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+}
+
+/**
+ * Line-oriented SMTP conversation over a single socket
+ */
+class SmtpSession {
+  private buffer = '';
+  private pending: Array<{ resolve: (reply: { code: number; text: string }) => void; reject: (error: Error) => void }> = [];
+  private replies: Array<{ code: number; text: string }> = [];
+  private failure?: Error;
+
+  private constructor(private socket: net.Socket, private timeout: number) {
+    this.attach(socket);
+  }
+
+  static open(config: EmailChannelConfig): Promise<SmtpSession> {
+    const timeout = config.timeout ?? DEFAULT_SMTP_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) =>
+        reject(new AlertDeliveryError(`SMTP network error: ${(error as NodeJS.ErrnoException).code || error.message}`));
+
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+
+      socket.setTimeout(timeout, () => socket.destroy(new Error('SMTP connection timeout')));
+      socket.once('error', onError);
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        resolve(new SmtpSession(socket, timeout));
+      });
+    });
+  }
+
+  async expect(codes: number | number[]): Promise<string> {
+    const reply = await this.nextReply();
+    const accepted = Array.isArray(codes) ? codes : [codes];
+    if (!accepted.includes(reply.code)) {
+      // 4xx replies are transient per RFC 5321; the wording lets RetryHelper retry them
+      const kind = reply.code >= 400 && reply.code < 500 ? 'temporary failure' : 'error';
+      throw new AlertDeliveryError(`SMTP ${kind} ${reply.code}: ${reply.text}`);
+    }
+    return reply.text;
+  }
+
+  async command(line: string, codes: number | number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername }, () => resolve(upgraded));
+      upgraded.once('error', error => reject(new AlertDeliveryError(`SMTP TLS upgrade failed: ${error.message}`)));
+    });
+
+    secure.setTimeout(this.timeout, () => secure.destroy(new Error('SMTP connection timeout')));
+    this.socket = secure;
+    this.buffer = '';
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', chunk => this.onData(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(new AlertDeliveryError(`SMTP network error: ${error.message}`)));
+    socket.on('close', () => this.fail(new AlertDeliveryError('SMTP network error: connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    // A reply is complete once a line has a space (not '-') after the code
+    let match: RegExpMatchArray | null;
+    while ((match = this.buffer.match(/^((?:\d{3}-[^\r\n]*\r?\n)*)(\d{3}) ([^\r\n]*)\r?\n/))) {
+      const continuation = match[1].split(/\r?\n/).filter(Boolean).map(line => line.slice(4));
+      const reply = { code: parseInt(match[2], 10), text: [...continuation, match[3]].join('\n') };
+      this.buffer = this.buffer.slice(match[0].length);
+
+      const waiter = this.pending.shift();
+      if (waiter) {
+        waiter.resolve(reply);
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.pending.splice(0).forEach(waiter => waiter.reject(error));
+  }
+
+  private nextReply(): Promise<{ code: number; text: string }> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.pending.push({ resolve, reject }));
+  }
+}
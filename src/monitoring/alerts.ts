@@ -4,6 +4,8 @@
  */
 
 import { logger } from '../utils/logger';
+import { safeParseInt } from '../utils/safe-parse';
+import { EmailChannelConfig, SmtpSender, WebhookChannelConfig, WebhookSender } from './alert-delivery';
 
 export type AlertType =
   | 'price_movement'
@@ -391,6 +393,41 @@ export class AlertSystem {
       severityFilter: ['warning', 'error', 'critical'],
       typeFilter: [],
     });
+
+    // Webhook channel (enabled when ALERT_WEBHOOK_URL is set)
+    if (process.env.ALERT_WEBHOOK_URL) {
+      const webhookConfig: WebhookChannelConfig = {
+        url: process.env.ALERT_WEBHOOK_URL,
+        secret: process.env.ALERT_WEBHOOK_SECRET,
+      };
+      this.configureChannel({
+        type: 'webhook',
+        config: webhookConfig,
+        enabled: true,
+        severityFilter: ['warning', 'error', 'critical'],
+        typeFilter: [],
+      });
+    }
+
+    // Email channel (enabled when ALERT_SMTP_HOST and ALERT_EMAIL_TO are set)
+    if (process.env.ALERT_SMTP_HOST && process.env.ALERT_EMAIL_TO) {
+      const emailConfig: EmailChannelConfig = {
+        host: process.env.ALERT_SMTP_HOST,
+        port: safeParseInt(process.env.ALERT_SMTP_PORT, 587),
+        secure: process.env.ALERT_SMTP_SECURE === 'true',
+        username: process.env.ALERT_SMTP_USER,
+        password: process.env.ALERT_SMTP_PASSWORD,
+        from: process.env.ALERT_EMAIL_FROM || 'billionaire-bot@localhost',
+        to: process.env.ALERT_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean),
+      };
+      this.configureChannel({
+        type: 'email',
+        config: emailConfig,
+        enabled: true,
+        severityFilter: ['error', 'critical'],
+        typeFilter: [],
+      });
+    }
   }
 
   /**
@@ -541,16 +578,16 @@ export class AlertSystem {
   /**
    * Send email notification
    */
-  private async sendEmailNotification(alert: Alert, config: any): Promise<void> { // eslint-disable-line @typescript-eslint/no-explicit-any
-    // This would send an email in a real implementation
+  private async sendEmailNotification(alert: Alert, config: EmailChannelConfig): Promise<void> {
+    await new SmtpSender(config).send(alert);
     logger.info(`Email notification: ${alert.title}`, { to: config.to });
   }
 
   /**
    * Send webhook notification
    */
-  private async sendWebhookNotification(alert: Alert, config: any): Promise<void> { // eslint-disable-line @typescript-eslint/no-explicit-any
-    // This would send a webhook in a real implementation
+  private async sendWebhookNotification(alert: Alert, config: WebhookChannelConfig): Promise<void> {
+    await new WebhookSender(config).send(alert);
     logger.info(`Webhook notification: ${alert.title}`, { url: config.url });
   }
 
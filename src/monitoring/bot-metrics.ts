@@ -0,0 +1,213 @@
+/**
+ * Bot Metrics
+ * Metric definitions shared by instrumented code, and collectors that export the stats
+ * the engine, executor, orchestrator and infrastructure components already keep
+ */
+
+import { metrics, MetricsRegistry, LATENCY_BUCKETS, SLIPPAGE_BUCKETS } from './metrics';
+import { CircuitBreakerManager, CircuitState } from '../utils/circuit-breaker';
+import type { TradingEngine } from '../trading/TradingEngine';
+import type { SwapExecutor } from '../trading/execution/swap-executor';
+import type { StrategyOrchestrator } from '../trading/strategies/strategy-orchestrator';
+import type { PerformanceMonitor } from '../performance/PerformanceMonitor';
+import type { RateLimiterManager } from '../utils/rate-limiter';
+import type { APIOptimizationService } from '../performance/api-optimization';
+
+const PREFIX = 'billionaire';
+
+// Recorded directly by SwapExecutor
+export const swapMetrics = {
+  swaps: metrics.counter(`${PREFIX}_swaps_total`, 'Swaps attempted by the executor, by result'),
+  duration: metrics.histogram(`${PREFIX}_swap_duration_seconds`, 'End-to-end swap execution time in seconds', LATENCY_BUCKETS),
+  slippage: metrics.histogram(
+    `${PREFIX}_swap_slippage_ratio`,
+    'Swap slippage as a fraction of price, by stage (quoted before execution, executed after confirmation)',
+    SLIPPAGE_BUCKETS
+  )
+};
+
+// Recorded by API clients
+export const apiRequestDuration = metrics.histogram(
+  `${PREFIX}_api_request_duration_seconds`,
+  'Upstream API request latency in seconds, by endpoint and outcome',
+  LATENCY_BUCKETS
+);
+
+export interface WalletMetricsSources {
+  walletId: string; // Exported as the wallet label
+  engine?: Pick<TradingEngine, 'getStatus' | 'getPortfolio' | 'getRiskStatus'>;
+  swapExecutor?: Pick<SwapExecutor, 'getExecutionStats'>;
+  orchestrator?: Pick<StrategyOrchestrator, 'getStats' | 'getStrategyPerformance' | 'getStrategyConfig'>;
+}
+
+export interface BotMetricsSources {
+  wallets?: WalletMetricsSources[];
+  performanceMonitor?: Pick<PerformanceMonitor, 'getCurrentMetrics'>;
+  rateLimiters?: Pick<RateLimiterManager, 'getAllStatus'>;
+  apiOptimization?: Pick<APIOptimizationService, 'getOptimizationStats'>;
+}
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = {
+  [CircuitState.CLOSED]: 0,
+  [CircuitState.HALF_OPEN]: 1,
+  [CircuitState.OPEN]: 2
+};
+
+/**
+ * Register scrape-time collectors for the given sources; returns a function that removes them.
+ * Circuit breakers are always exported from the global CircuitBreakerManager.
+ */
+export function registerBotMetrics(sources: BotMetricsSources, registry: MetricsRegistry = metrics): () => void {
+  const removers: (() => void)[] = [];
+
+  removers.push(registry.addCollector('circuit-breakers', reg => {
+    const state = reg.gauge(`${PREFIX}_circuit_breaker_state`, 'Circuit breaker state (0 closed, 1 half-open, 2 open)');
+    const failures = reg.gauge(`${PREFIX}_circuit_breaker_failures_in_window`, 'Failures inside the breaker monitoring window');
+    state.reset();
+    failures.reset();
+
+    for (const [name, status] of Object.entries(CircuitBreakerManager.getAllStatus())) {
+      state.set(CIRCUIT_STATE_VALUES[status.state], { breaker: name });
+      failures.set(status.failuresInWindow, { breaker: name });
+    }
+  }));
+
+  const { wallets = [], performanceMonitor, rateLimiters, apiOptimization } = sources;
+
+  if (wallets.some(wallet => wallet.engine)) {
+    removers.push(registry.addCollector('engine', async reg => {
+      const gauges = {
+        running: reg.gauge(`${PREFIX}_engine_running`, 'Whether the trading engine is running'),
+        uptime: reg.gauge(`${PREFIX}_engine_uptime_seconds`, 'Trading engine uptime in seconds'),
+        trades: reg.gauge(`${PREFIX}_engine_trades`, 'Trades executed by the engine since start'),
+        successfulTrades: reg.gauge(`${PREFIX}_engine_successful_trades`, 'Successful trades executed by the engine since start'),
+        emergency: reg.gauge(`${PREFIX}_emergency_stop_active`, 'Whether an emergency stop is active'),
+        portfolioValue: reg.gauge(`${PREFIX}_portfolio_value_usd`, 'Total portfolio value in USD'),
+        pnl: reg.gauge(`${PREFIX}_pnl_usd`, 'Portfolio profit and loss in USD'),
+        liquidityPositions: reg.gauge(`${PREFIX}_open_liquidity_positions`, 'Open liquidity positions'),
+        rangeOrders: reg.gauge(`${PREFIX}_open_range_orders`, 'Open range orders')
+      };
+      Object.values(gauges).forEach(gauge => gauge.reset());
+
+      for (const { walletId, engine } of wallets) {
+        if (!engine) continue;
+        const labels = { wallet: walletId };
+        const status = engine.getStatus();
+        gauges.running.set(status.isRunning ? 1 : 0, labels);
+        gauges.uptime.set(status.uptime, labels);
+        gauges.trades.set(status.performance?.totalTrades ?? 0, labels);
+        gauges.successfulTrades.set(status.performance?.successfulTrades ?? 0, labels);
+        gauges.emergency.set(engine.getRiskStatus().emergencyStatus?.isActive ? 1 : 0, labels);
+
+        const portfolio = await engine.getPortfolio();
+        gauges.portfolioValue.set(portfolio.totalValue, labels);
+        gauges.pnl.set(portfolio.pnl, labels);
+        gauges.liquidityPositions.set(portfolio.liquidityPositions.length, labels);
+        gauges.rangeOrders.set(portfolio.rangeOrders.length, labels);
+      }
+    }));
+  }
+
+  if (wallets.some(wallet => wallet.swapExecutor)) {
+    removers.push(registry.addCollector('gas-bidding', reg => {
+      const gauges = {
+        enabled: reg.gauge(`${PREFIX}_gas_bidding_enabled`, 'Whether gas bidding is enabled'),
+        bids: reg.gauge(`${PREFIX}_gas_bids_recent`, 'Gas bids in the recent bidding window'),
+        successRatio: reg.gauge(`${PREFIX}_gas_bid_success_ratio`, 'Share of recent gas bids that landed'),
+        averagePrice: reg.gauge(`${PREFIX}_gas_price_average`, 'Average recent gas bid price')
+      };
+      Object.values(gauges).forEach(gauge => gauge.reset());
+
+      for (const { walletId, swapExecutor } of wallets) {
+        if (!swapExecutor) continue;
+        const labels = { wallet: walletId };
+        const { gasBidding } = swapExecutor.getExecutionStats();
+        gauges.enabled.set(gasBidding.enabled ? 1 : 0, labels);
+        gauges.bids.set(gasBidding.totalBids, labels);
+        gauges.successRatio.set(gasBidding.successRate, labels);
+        gauges.averagePrice.set(gasBidding.averageGasPrice, labels);
+      }
+    }));
+  }
+
+  if (wallets.some(wallet => wallet.orchestrator)) {
+    removers.push(registry.addCollector('orchestrator', reg => {
+      const gauges = {
+        totalProfit: reg.gauge(`${PREFIX}_orchestrator_total_profit_usd`, 'Profit across orchestrated strategies'),
+        dailyProfit: reg.gauge(`${PREFIX}_orchestrator_daily_profit_usd`, 'Profit across orchestrated strategies today'),
+        allocatedCapital: reg.gauge(`${PREFIX}_orchestrator_allocated_capital_usd`, 'Capital allocated to strategies'),
+        activeTrades: reg.gauge(`${PREFIX}_orchestrator_active_trades`, 'Trades in flight across strategies'),
+        winRate: reg.gauge(`${PREFIX}_strategy_win_rate_percent`, 'Strategy win rate in percent'),
+        trades: reg.gauge(`${PREFIX}_strategy_trades`, 'Trades executed per strategy'),
+        profit: reg.gauge(`${PREFIX}_strategy_profit_usd`, 'Profit per strategy'),
+        enabled: reg.gauge(`${PREFIX}_strategy_enabled`, 'Whether the strategy is enabled')
+      };
+      Object.values(gauges).forEach(gauge => gauge.reset());
+
+      for (const { walletId, orchestrator } of wallets) {
+        if (!orchestrator) continue;
+        const stats = orchestrator.getStats();
+        const walletLabels = { wallet: walletId };
+        gauges.totalProfit.set(stats.totalProfit, walletLabels);
+        gauges.dailyProfit.set(stats.dailyProfit, walletLabels);
+        gauges.allocatedCapital.set(stats.allocatedCapital, walletLabels);
+        gauges.activeTrades.set(stats.activeTrades, walletLabels);
+
+        for (const [id, performance] of orchestrator.getStrategyPerformance()) {
+          const labels = { wallet: walletId, strategy: id };
+          gauges.winRate.set(performance.winRate, labels);
+          gauges.trades.set(performance.totalTrades, labels);
+          gauges.profit.set(performance.totalProfit, labels);
+          gauges.enabled.set(orchestrator.getStrategyConfig(id)?.enabled ? 1 : 0, labels);
+        }
+      }
+    }));
+  }
+
+  if (performanceMonitor) {
+    removers.push(registry.addCollector('performance', reg => {
+      const current = performanceMonitor.getCurrentMetrics();
+      if (!current) return;
+
+      reg.gauge(`${PREFIX}_trade_latency_ms`, 'Average trade execution latency in ms').set(current.tradeExecutionLatency);
+      reg.gauge(`${PREFIX}_api_latency_ms`, 'Average API call latency in ms').set(current.apiCallLatency);
+      reg.gauge(`${PREFIX}_memory_heap_mb`, 'Heap used in MB').set(current.memoryUsage);
+      reg.gauge(`${PREFIX}_event_loop_lag_ms`, 'Event loop lag in ms').set(current.eventLoopLag);
+      reg.gauge(`${PREFIX}_price_cache_hit_rate`, 'Price cache hit rate').set(current.cacheHitRate);
+    }));
+  }
+
+  if (rateLimiters) {
+    removers.push(registry.addCollector('rate-limiters', reg => {
+      const tokens = reg.gauge(`${PREFIX}_rate_limiter_tokens_available`, 'Rate limiter tokens available, by endpoint');
+      const utilization = reg.gauge(`${PREFIX}_rate_limiter_window_utilization`, 'Rate limiter window utilization, by endpoint');
+      tokens.reset();
+      utilization.reset();
+
+      for (const [endpoint, status] of Object.entries(rateLimiters.getAllStatus())) {
+        tokens.set(status.tokensAvailable, { endpoint });
+        utilization.set(status.windowUtilization, { endpoint });
+      }
+    }));
+  }
+
+  if (apiOptimization) {
+    removers.push(registry.addCollector('api-optimization', reg => {
+      const stats = apiOptimization.getOptimizationStats();
+      reg.gauge(`${PREFIX}_api_cache_hit_rate_percent`, 'API response cache hit rate in percent').set(stats.cacheHitRate);
+
+      const avgResponse = reg.gauge(`${PREFIX}_api_endpoint_avg_response_ms`, 'Average API response time in ms, by endpoint');
+      const failures = reg.gauge(`${PREFIX}_api_endpoint_failed_calls`, 'Failed API calls, by endpoint');
+      avgResponse.reset();
+      failures.reset();
+
+      for (const endpoint of stats.topEndpoints) {
+        const labels = { endpoint: endpoint.endpoint, method: endpoint.method };
+        avgResponse.set(endpoint.avgResponseTime, labels);
+        failures.set(endpoint.failedCalls, labels);
+      }
+    }));
+  }
+
+  return () => removers.forEach(remove => remove());
+}
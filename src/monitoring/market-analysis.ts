@@ -9,8 +9,9 @@ import { logger } from '../utils/logger';
 import { TRADING_CONSTANTS } from '../config/constants';
 // calculatePriceFromSqrtPriceX96 removed - not used in this file
 import { safeParseFloat } from '../utils/safe-parse';
-import { createQuoteWrapper, QuoteResult } from '../utils/quote-api';
-import { poolDiscovery } from '../services/pool-discovery';
+import { createQuoteWrapper, QuoteSource } from '../utils/quote-api';
+import { Clock, RuntimeSources, systemClock } from '../utils/clock';
+import { poolDiscovery, PoolDiscoveryService } from '../services/pool-discovery';
 
 export interface MarketCondition {
   overall: MarketTrend;
@@ -94,7 +95,9 @@ export interface LiquidityAnalysis {
 export class MarketAnalysis {
   private priceTracker: PriceTracker;
   private gswap: GSwap;
-  private quoteWrapper: { quoteExactInput: (tokenIn: string, tokenOut: string, amountIn: number | string) => Promise<QuoteResult> }; // Working quote API wrapper
+  private quoteWrapper: QuoteSource; // Working quote API wrapper
+  private clock: Clock;
+  private poolDiscovery: PoolDiscoveryService;
   private marketCondition: MarketCondition | null = null;
   private tokenAnalyses: Map<string, TokenAnalysis> = new Map();
   private liquidityAnalyses: Map<string, LiquidityAnalysis> = new Map();
@@ -103,12 +106,14 @@ export class MarketAnalysis {
   private readonly ANALYSIS_INTERVAL = 30000; // 30 seconds
   private readonly TOKENS_TO_ANALYZE = Object.values(TRADING_CONSTANTS.TOKENS);
 
-  constructor(priceTracker: PriceTracker, gswap: GSwap) {
+  constructor(priceTracker: PriceTracker, gswap: GSwap, sources: RuntimeSources = {}) {
     this.priceTracker = priceTracker;
     this.gswap = gswap;
+    this.clock = sources.clock ?? systemClock;
+    this.poolDiscovery = sources.poolDiscovery ?? poolDiscovery;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     logger.info('Market Analysis initialized');
   }
@@ -130,7 +135,7 @@ export class MarketAnalysis {
       await this.analyzeLiquidity();
 
       this.marketCondition = condition;
-      this.lastAnalysisTime = Date.now();
+      this.lastAnalysisTime = this.clock.now();
 
       logger.debug('Market analysis completed', {
         trend: condition.overall,
@@ -150,7 +155,7 @@ export class MarketAnalysis {
         liquidity: 'fair',
         sentiment: 'neutral',
         confidence: 0,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       };
     }
   }
@@ -575,7 +580,7 @@ export class MarketAnalysis {
         liquidity: 'fair',
         sentiment: 'neutral',
         confidence: 0,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       };
     }
 
@@ -612,7 +617,7 @@ export class MarketAnalysis {
       liquidity: 'fair', // Would need more data to determine accurately
       sentiment: this.determineSentiment(tokenAnalyses),
       confidence: avgConfidence,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     };
   }
 
@@ -813,13 +818,13 @@ export class MarketAnalysis {
   private async getPoolsForToken(token: string): Promise<Array<{token0: string, token1: string, fee: number}>> {
     try {
       // Use pool discovery to get real pools
-      const cachedPools = poolDiscovery.getCachedPools();
+      const cachedPools = this.poolDiscovery.getCachedPools();
       if (cachedPools.length === 0) {
         // If no cached pools, fetch them first
-        await poolDiscovery.fetchAllPools();
+        await this.poolDiscovery.fetchAllPools();
       }
 
-      const discoveredPools = poolDiscovery.getCachedPools();
+      const discoveredPools = this.poolDiscovery.getCachedPools();
       const matchingPools: Array<{token0: string, token1: string, fee: number}> = [];
 
       // Find all pools that contain the specified token
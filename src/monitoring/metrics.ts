@@ -0,0 +1,236 @@
+/**
+ * Metrics Registry
+ * Counters, gauges and histograms rendered in the Prometheus text exposition format
+ *
+ * Hot paths (swaps, API calls) record into metrics directly; components that already
+ * keep their own stats are read by collectors when /metrics is scraped.
+ */
+
+import { logger } from '../utils/logger';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type MetricLabels = Record<string, string | number>;
+
+export type MetricsCollector = (registry: MetricsRegistry) => void | Promise<void>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Latency buckets in seconds */
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/** Slippage buckets as a fraction of price (0.01 = 1%) */
+export const SLIPPAGE_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.02, 0.05, 0.1];
+
+abstract class Metric {
+  abstract readonly type: MetricType;
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  abstract reset(): void;
+  abstract render(): string[];
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values: Map<string, number> = new Map();
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  render(): string[] {
+    return Array.from(this.values.entries()).map(([key, value]) => sample(this.name, key, value));
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values: Map<string, number> = new Map();
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  get(labels: MetricLabels = {}): number | undefined {
+    return this.values.get(labelKey(labels));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  render(): string[] {
+    return Array.from(this.values.entries()).map(([key, value]) => sample(this.name, key, value));
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private series: Map<string, { buckets: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, readonly buckets: number[]) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    if (!Number.isFinite(value)) return;
+
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Time an async operation in seconds
+   */
+  async time<T>(operation: () => Promise<T>, labels: MetricLabels = {}): Promise<T> {
+    const start = Date.now();
+    try {
+      return await operation();
+    } finally {
+      this.observe((Date.now() - start) / 1000, labels);
+    }
+  }
+
+  getCount(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.count ?? 0;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(sample(`${this.name}_bucket`, joinLabels(key, `le="${bound}"`), series.buckets[index]));
+      });
+      lines.push(sample(`${this.name}_bucket`, joinLabels(key, 'le="+Inf"'), series.count));
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Map<string, MetricsCollector> = new Map();
+
+  /**
+   * Get or create a counter; names must be unique across metric types
+   */
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.getOrCreate(name, 'gauge', () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[] = LATENCY_BUCKETS): Histogram {
+    return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Register a collector run before every render; returns a function that removes it
+   */
+  addCollector(name: string, collector: MetricsCollector): () => void {
+    this.collectors.set(name, collector);
+    return () => {
+      if (this.collectors.get(name) === collector) this.collectors.delete(name);
+    };
+  }
+
+  /**
+   * Run collectors and render every metric in Prometheus text format.
+   * A failing collector is logged and skipped so one broken source does not blank the scrape.
+   */
+  async render(): Promise<string> {
+    for (const [name, collector] of this.collectors) {
+      try {
+        await collector(this);
+      } catch (error) {
+        logger.warn(`Metrics collector ${name} failed:`, error);
+      }
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear recorded values (metric definitions and collectors are kept)
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private getOrCreate<T extends Metric>(name: string, type: MetricType, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(key => `${key}="${String(labels[key]).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+}
+
+function joinLabels(key: string, extra: string): string {
+  return key ? `${key},${extra}` : extra;
+}
+
+function sample(name: string, key: string, value: number): string {
+  const formatted = Number.isNaN(value) ? 'NaN' : value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+  return key ? `${name}{${key}} ${formatted}` : `${name} ${formatted}`;
+}
+
+// Process-wide registry scraped by the control API's /metrics endpoint
+export const metrics = new MetricsRegistry();
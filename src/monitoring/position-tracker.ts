@@ -13,6 +13,9 @@ import { safeParseFloat } from '../utils/safe-parse';
 import BigNumber from 'bignumber.js';
 import { Repository } from 'typeorm';
 import { createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
+import { GalaSwapWebSocketClient, BackfillResult } from '../api/websocket-client';
+import { PositionUpdateEvent, TokenClassKey } from '../types/galaswap';
 
 export interface PositionUpdate {
   positionId: string;
@@ -57,16 +60,17 @@ export class PositionTracker {
   private updateInterval: NodeJS.Timeout | null = null;
   private alerts: Map<string, PositionAlert[]> = new Map();
   private lastPrices: Map<string, number> = new Map();
+  private realtimeFeed: GalaSwapWebSocketClient | null = null;
 
   private readonly UPDATE_INTERVAL = TRADING_CONSTANTS.PRICE_UPDATE_INTERVAL;
   private readonly ALERT_COOLDOWN = 5 * 60 * 1000; // 5 minutes
   private readonly MAX_ALERTS_PER_POSITION = 10;
 
-  constructor(gswap: GSwap) {
+  constructor(gswap: GSwap, sources: RuntimeSources = {}) {
     this.gswap = gswap;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     logger.info('PositionTracker initialized');
   }
@@ -119,6 +123,12 @@ export class PositionTracker {
         this.updateInterval = null;
       }
 
+      if (this.realtimeFeed) {
+        this.realtimeFeed.off('position_update', this.onFeedPositionUpdate);
+        this.realtimeFeed.off('backfill', this.onFeedBackfill);
+        this.realtimeFeed = null;
+      }
+
       this.isRunning = false;
       logger.info('✅ PositionTracker stopped successfully');
 
@@ -219,6 +229,77 @@ export class PositionTracker {
     });
   }
 
+  /**
+   * Receive position updates for a wallet from the WebSocket feed
+   */
+  attachRealtimeFeed(feed: GalaSwapWebSocketClient, walletAddress: string): void {
+    this.realtimeFeed = feed;
+    feed.on('position_update', this.onFeedPositionUpdate);
+    feed.on('backfill', this.onFeedBackfill);
+    feed.subscribePositions(walletAddress);
+  }
+
+  /**
+   * Apply a position update from the feed to the matching tracked position.
+   * Positions are matched on owner, pair, fee tier and tick range.
+   */
+  async applyPositionUpdate(event: PositionUpdateEvent): Promise<void> {
+    if (!this.positionRepo) return;
+
+    const { user, position: update, action } = event.data;
+    const token0 = this.classKeyToString(update.token0ClassKey);
+    const token1 = this.classKeyToString(update.token1ClassKey);
+
+    const candidates = await this.getPositionsByWallet(user);
+    const position = candidates.find(p =>
+      this.normalizeToken(p.token0) === token0 &&
+      this.normalizeToken(p.token1) === token1 &&
+      p.fee === update.fee &&
+      p.tickLower === update.tickLower &&
+      p.tickUpper === update.tickUpper
+    );
+
+    if (!position) {
+      logger.debug(`Position update (${action}) for untracked position ${token0}/${token1} [${update.tickLower}, ${update.tickUpper}]`);
+      return;
+    }
+
+    if (action === 'closed') {
+      position.isActive = false;
+      position.liquidity = '0';
+      this.lastPrices.delete(position.id);
+      logger.info(`Position closed on chain: ${position.id}`);
+    } else {
+      position.liquidity = update.liquidity?.toString() || position.liquidity;
+      position.uncollectedFees0 = update.tokensOwed0?.toString() || position.uncollectedFees0;
+      position.uncollectedFees1 = update.tokensOwed1?.toString() || position.uncollectedFees1;
+    }
+
+    await this.positionRepo.save(position);
+  }
+
+  private onFeedPositionUpdate = (event: PositionUpdateEvent): void => {
+    this.applyPositionUpdate(event).catch(error =>
+      logger.warn('Failed to apply position update from feed:', error)
+    );
+  };
+
+  private onFeedBackfill = (result: BackfillResult): void => {
+    if (result.positionsStale) {
+      this.syncAllPositions().catch(error =>
+        logger.warn('Position resync after feed gap failed:', error)
+      );
+    }
+  };
+
+  private classKeyToString(key: TokenClassKey): string {
+    return `${key.collection}$${key.category}$${key.type}$${key.additionalKey}`;
+  }
+
+  private normalizeToken(token: string): string {
+    return token.replace(/\|/g, '$');
+  }
+
   /**
    * Get position alerts
    */
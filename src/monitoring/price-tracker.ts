@@ -5,10 +5,12 @@
 
 // GSwapWrapper type imported via IGSwapLike interface
 import { logger } from '../utils/logger';
-import { QuoteResult } from '../utils/quote-api';
 import { TRADING_CONSTANTS } from '../config/constants';
 import { safeParseFloat } from '../utils/safe-parse';
-import { createQuoteWrapper } from '../utils/quote-api';
+import { QuoteSource, createQuoteWrapper } from '../utils/quote-api';
+import { Clock, RuntimeSources, systemClock } from '../utils/clock';
+import { GalaSwapWebSocketClient } from '../api/websocket-client';
+import { PriceUpdateEvent } from '../types/galaswap';
 
 // Interface for GSwap-like objects with quoting service (using working SDK methods)
 interface IGSwapLike {
@@ -47,23 +49,26 @@ export interface PriceHistory {
 
 export class PriceTracker {
   private gswap: IGSwapLike;
-  private quoteWrapper: { quoteExactInput: (tokenIn: string, tokenOut: string, amountIn: number | string) => Promise<QuoteResult> }; // Working quote API wrapper
+  private quoteWrapper: QuoteSource; // Working quote API wrapper
+  private clock: Clock;
   private isRunning: boolean = false;
   private priceData: Map<string, PriceData> = new Map();
   private priceHistory: Map<string, PriceHistory> = new Map();
   private alerts: Map<string, PriceAlert[]> = new Map();
   private updateInterval: NodeJS.Timeout | null = null;
   private wsConnected: boolean = false;
+  private realtimeFeed: GalaSwapWebSocketClient | null = null;
 
   private readonly PRICE_UPDATE_INTERVAL = TRADING_CONSTANTS.PRICE_UPDATE_INTERVAL;
   private readonly MAX_PRICE_HISTORY = 1000;
   private readonly TOKENS_TO_TRACK = Object.values(TRADING_CONSTANTS.TOKENS);
 
-  constructor(gswap: IGSwapLike) {
+  constructor(gswap: IGSwapLike, sources: RuntimeSources = {}) {
     this.gswap = gswap;
+    this.clock = sources.clock ?? systemClock;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     this.initializePriceHistory();
     logger.info('Price Tracker initialized');
@@ -117,11 +122,14 @@ export class PriceTracker {
         this.updateInterval = null;
       }
 
-      // Disconnect WebSocket (handled by SDK)
-      if (this.wsConnected) {
-        // SDK handles WebSocket cleanup internally
-        this.wsConnected = false;
+      // Detach from the real-time feed (the feed itself is owned by the caller)
+      if (this.realtimeFeed) {
+        this.realtimeFeed.off('price_update', this.onFeedPriceUpdate);
+        this.realtimeFeed.off('connected', this.onFeedConnected);
+        this.realtimeFeed.off('disconnected', this.onFeedDisconnected);
+        this.realtimeFeed = null;
       }
+      this.wsConnected = false;
 
       this.isRunning = false;
       logger.info('✅ Price Tracker stopped successfully');
@@ -132,6 +140,25 @@ export class PriceTracker {
     }
   }
 
+  /**
+   * Use a WebSocket feed for real-time price updates. Polling pauses while the
+   * feed is connected and resumes automatically when it drops.
+   */
+  attachRealtimeFeed(feed: GalaSwapWebSocketClient): void {
+    this.realtimeFeed = feed;
+    feed.on('price_update', this.onFeedPriceUpdate);
+    feed.on('connected', this.onFeedConnected);
+    feed.on('disconnected', this.onFeedDisconnected);
+    this.wsConnected = feed.isConnected();
+  }
+
+  /**
+   * Apply a price update received from the real-time feed
+   */
+  applyPriceUpdate(event: PriceUpdateEvent): void {
+    this.handleWebSocketPriceUpdate(event.data);
+  }
+
   /**
    * Get current price for a token
    */
@@ -178,7 +205,7 @@ export class PriceTracker {
       threshold,
       currentValue: 0,
       triggered: false,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     };
 
     alerts.push(alert);
@@ -234,38 +261,45 @@ export class PriceTracker {
    * Setup WebSocket connection for real-time price updates
    */
   private async setupWebSocketConnection(): Promise<void> {
-    try {
-      // Connect to WebSocket using SDK events
-      // SDK handles WebSocket connections internally
-      // Subscribe to price updates for each token (using string format)
-      for (const tokenKey of this.TOKENS_TO_TRACK) {
-        // SDK event system will handle price updates
-        // tokenKey is already in the correct string format
-        logger.debug(`Subscribing to price updates for ${tokenKey}`);
-      }
-
-      this.wsConnected = true;
-      logger.info('WebSocket price monitoring connected');
-
-    } catch (error) {
-      logger.warn('Failed to setup WebSocket connection, using polling only:', error);
+    if (!this.realtimeFeed) {
+      logger.info('No real-time feed attached, using polling only');
       this.wsConnected = false;
+      return;
     }
+
+    this.realtimeFeed.subscribePrices(this.TOKENS_TO_TRACK);
+    this.wsConnected = this.realtimeFeed.isConnected();
+    logger.info(`WebSocket price monitoring ${this.wsConnected ? 'connected' : 'pending connection'}`);
   }
 
+  private onFeedPriceUpdate = (event: PriceUpdateEvent): void => {
+    this.applyPriceUpdate(event);
+  };
+
+  private onFeedConnected = (): void => {
+    this.wsConnected = true;
+  };
+
+  private onFeedDisconnected = (): void => {
+    this.wsConnected = false;
+  };
+
   /**
    * Handle WebSocket price updates
    */
-  private handleWebSocketPriceUpdate(data: any): void { // eslint-disable-line @typescript-eslint/no-explicit-any
+  private handleWebSocketPriceUpdate(data: PriceUpdateEvent['data']): void {
     try {
       if (data.token && data.price) {
+        const price = safeParseFloat(data.price, 0);
+        if (price <= 0 || !isFinite(price)) return;
+
         const priceData: PriceData = {
           token: data.token.toUpperCase(),
-          price: safeParseFloat(data.price, 0),
-          priceUsd: safeParseFloat(data.priceUsd || data.price, 0),
-          change24h: safeParseFloat(data.change24h || 0, 0),
-          volume24h: 0, // Volume tracking disabled
-          timestamp: Date.now(),
+          price,
+          priceUsd: price,
+          change24h: safeParseFloat(data.change || 0, 0),
+          volume24h: safeParseFloat(data.volume || 0, 0),
+          timestamp: this.clock.now(),
         };
 
         this.updatePriceData(priceData);
@@ -282,6 +316,9 @@ export class PriceTracker {
    */
   private startPolling(): void {
     this.updateInterval = setInterval(async () => {
+      // Real-time feed supersedes polling while it is connected
+      if (this.wsConnected) return;
+
       try {
         await this.updateAllPrices();
       } catch (error) {
@@ -314,7 +351,7 @@ export class PriceTracker {
               priceUsd: 1.0,
               change24h: 0,
               volume24h: 0,
-              timestamp: Date.now(),
+              timestamp: this.clock.now(),
             };
             this.updatePriceData(priceData);
             logger.debug(`Updated price for ${tokenSymbol}: $1.00 (hardcoded stable)`);
@@ -339,7 +376,7 @@ export class PriceTracker {
                 priceUsd: calculatedPrice,
                 change24h: 0, // Would need historical data
                 volume24h: 0, // Volume tracking disabled - not reliably available
-                timestamp: Date.now(),
+                timestamp: this.clock.now(),
               };
 
               this.updatePriceData(priceData);
@@ -454,7 +491,7 @@ export class PriceTracker {
       if (shouldTrigger) {
         alert.triggered = true;
         alert.currentValue = currentValue;
-        alert.timestamp = Date.now();
+        alert.timestamp = this.clock.now();
 
         logger.warn(`Price alert triggered: ${token} ${alert.type} - ${currentValue} >= ${alert.threshold}`);
 
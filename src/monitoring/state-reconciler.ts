@@ -0,0 +1,584 @@
+/**
+ * State Reconciler
+ * Compares the positions and balances a wallet holds on chain with the bot's local view - Position
+ * rows, the LiquidityManager cache and the balances seen by the previous run - repairs the local
+ * records and alerts on differences the bot's own activity does not explain, such as a crash
+ * between a transaction and its database write or a manual trade in the web UI.
+ */
+
+import { createHash } from 'crypto';
+import { Repository } from 'typeorm';
+import { logger } from '../utils/logger';
+import { safeParseFloat } from '../utils/safe-parse';
+import { Position } from '../entities/Position';
+import { ReconciliationSnapshotRecord } from '../entities/ReconciliationSnapshotRecord';
+import { getPositionRepository, getReconciliationSnapshotRepository } from '../config/database';
+import { BlockchainPosition, PortfolioBalance, TokenClassKey } from '../types/galaswap';
+import type { AlertSystem } from './alerts';
+import type { LiquidityPosition } from '../services/liquidity-manager';
+import type { TradeRecord } from '../entities/TradeRecord';
+import type { TradeJournalQuery } from '../trading/execution/trade-journal';
+
+export interface ChainStateSource {
+  getPositions(): Promise<BlockchainPosition[]>;
+  getBalances(): Promise<PortfolioBalance[]>; // Throw when the wallet cannot be read; an empty list means an empty wallet
+}
+
+/**
+ * The LiquidityManager surface reconciliation repairs
+ */
+export interface PositionCache {
+  getAllPositions(): Promise<LiquidityPosition[]>;
+  syncChainPosition(position: BlockchainPosition): LiquidityPosition;
+  removeCachedPosition(positionId: string): boolean;
+}
+
+export interface StateReconcilerDependencies {
+  positionCache?: PositionCache;
+  tradeJournal?: { find(query: TradeJournalQuery): Promise<TradeRecord[]> };
+  alertSystem?: Pick<AlertSystem, 'createAlert'>;
+}
+
+export interface StateReconcilerConfig {
+  walletAddress: string;
+  intervalMs?: number; // Periodic reconciliation interval (default 15 minutes)
+  balanceTolerancePercent?: number; // Balance drift ignored as rounding and gas (default 1%)
+  dustThreshold?: number; // Absolute balance drift always ignored (default 0.000001)
+}
+
+/**
+ * Position as returned by the positions API; field names vary between the SDK and the paper client
+ */
+export interface ChainPositionView {
+  id?: string;
+  positionId?: string;
+  token0?: string;
+  token1?: string;
+  token0ClassKey?: TokenClassKey;
+  token1ClassKey?: TokenClassKey;
+  token0Symbol?: string;
+  token1Symbol?: string;
+  fee: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: string | number | { toString(): string };
+  amount0?: string | number;
+  amount1?: string | number;
+  tokensOwed0?: string | number;
+  tokensOwed1?: string | number;
+  inRange?: boolean;
+}
+
+/**
+ * Liquidity and owed fees of a chain position at the last reconciliation
+ */
+export interface ChainPositionState {
+  token0: string;
+  token1: string;
+  liquidity: string;
+  fees0: string;
+  fees1: string;
+}
+
+export type StateDifferenceKind =
+  | 'untracked_position' // Open on chain with no local record
+  | 'closed_position' // Local record for a position no longer on chain
+  | 'liquidity_mismatch'
+  | 'stale_position' // Fees or token amounts behind chain
+  | 'balance_mismatch';
+
+export interface StateDifference {
+  kind: StateDifferenceKind;
+  store: 'database' | 'liquidity_manager' | 'wallet';
+  subject: string; // Position id or token symbol
+  description: string;
+  local?: string;
+  chain?: string;
+  explained: boolean;
+  repaired: boolean;
+}
+
+export interface ReconciliationReport {
+  timestamp: number;
+  walletAddress: string;
+  chainPositions: number;
+  chainBalances: number;
+  differences: StateDifference[];
+  unexplained: number;
+  repaired: number;
+  balanceBaseline: boolean; // No earlier run for this wallet: balances were recorded, not compared
+}
+
+export interface ReconcileOptions {
+  repair?: boolean; // Repair local records, record the new balance baseline and alert (default true)
+}
+
+const JOURNAL_LOOKBACK_MS = 60 * 60 * 1000; // Trades confirm some time after they are journaled
+
+/**
+ * Normalize a positions API entry, keeping token keys in pipe format
+ */
+export function toBlockchainPosition(view: ChainPositionView): BlockchainPosition {
+  const token0 = view.token0ClassKey ? classKeyToString(view.token0ClassKey) : view.token0 ?? view.token0Symbol ?? '';
+  const token1 = view.token1ClassKey ? classKeyToString(view.token1ClassKey) : view.token1 ?? view.token1Symbol ?? '';
+
+  return {
+    id: view.id ?? view.positionId,
+    positionId: view.positionId ?? view.id,
+    token0,
+    token1,
+    token0Symbol: view.token0Symbol ?? tokenSymbol(token0),
+    token1Symbol: view.token1Symbol ?? tokenSymbol(token1),
+    fee: view.fee,
+    tickLower: view.tickLower,
+    tickUpper: view.tickUpper,
+    liquidity: view.liquidity.toString(),
+    amount0: view.amount0?.toString(),
+    amount1: view.amount1?.toString(),
+    fees0: view.tokensOwed0?.toString(),
+    fees1: view.tokensOwed1?.toString(),
+    inRange: view.inRange
+  };
+}
+
+export class StateReconciler {
+  private readonly source: ChainStateSource;
+  private readonly dependencies: StateReconcilerDependencies;
+  private readonly config: Required<StateReconcilerConfig>;
+
+  private positionRepo: Repository<Position> | null = null;
+  private snapshotRepo: Repository<ReconciliationSnapshotRecord> | null = null;
+  private intervalId: NodeJS.Timeout | null = null;
+  private inFlight: Promise<ReconciliationReport> | null = null;
+  private lastReport: ReconciliationReport | null = null;
+
+  constructor(source: ChainStateSource, dependencies: StateReconcilerDependencies, config: StateReconcilerConfig) {
+    this.source = source;
+    this.dependencies = dependencies;
+    this.config = {
+      intervalMs: 15 * 60 * 1000,
+      balanceTolerancePercent: 1,
+      dustThreshold: 0.000001,
+      ...config
+    };
+  }
+
+  /**
+   * Reconcile now and then on every interval. A failed run is logged, never thrown.
+   */
+  async start(): Promise<ReconciliationReport | null> {
+    const report = await this.reconcile().catch(error => {
+      logger.error('State reconciliation failed:', error);
+      return null;
+    });
+
+    if (!this.intervalId) {
+      this.intervalId = setInterval(() => {
+        this.reconcile().catch(error => logger.error('State reconciliation failed:', error));
+      }, this.config.intervalMs);
+    }
+
+    return report;
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Diff chain state against local records. A call made while a run is in flight shares that run.
+   */
+  async reconcile(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    if (!this.inFlight) {
+      this.inFlight = this.run(options.repair ?? true).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async run(repair: boolean): Promise<ReconciliationReport> {
+    const timestamp = Date.now();
+    const [chainPositions, chainBalances] = await Promise.all([this.source.getPositions(), this.source.getBalances()]);
+    const openPositions = chainPositions.filter(position => safeParseFloat(position.liquidity, 0) > 0);
+
+    const differences = [
+      ...await this.reconcileDatabase(openPositions, repair),
+      ...await this.reconcileCache(openPositions, repair)
+    ];
+
+    const positionStates = toPositionStates(openPositions);
+    const balances = toBalanceMap(chainBalances);
+    const snapshot = await this.getSnapshotRepository().then(repository => repository.findOne({
+      where: { walletAddress: this.config.walletAddress }
+    }));
+    if (snapshot) {
+      differences.push(...await this.reconcileBalances(snapshot, balances, positionStates, repair));
+    }
+
+    if (repair) {
+      const repository = await this.getSnapshotRepository();
+      await repository.save(repository.create({
+        walletAddress: this.config.walletAddress,
+        takenAt: timestamp,
+        balances: Object.fromEntries(balances),
+        positions: positionStates
+      }));
+    }
+
+    const report: ReconciliationReport = {
+      timestamp,
+      walletAddress: this.config.walletAddress,
+      chainPositions: openPositions.length,
+      chainBalances: balances.size,
+      differences,
+      unexplained: differences.filter(difference => !difference.explained).length,
+      repaired: differences.filter(difference => difference.repaired).length,
+      balanceBaseline: !snapshot
+    };
+
+    logger.info(`🔎 State reconciliation: ${differences.length} differences, ${report.unexplained} unexplained, ${report.repaired} repaired`);
+    if (repair && report.unexplained > 0) {
+      await this.raiseAlert(report);
+    }
+
+    this.lastReport = report;
+    return report;
+  }
+
+  /**
+   * Position rows: create rows for untracked chain positions, close rows for positions gone from chain
+   */
+  private async reconcileDatabase(chainPositions: BlockchainPosition[], repair: boolean): Promise<StateDifference[]> {
+    const repository = await this.getPositionRepository();
+    const records = await repository.find({ where: { walletAddress: this.config.walletAddress, isActive: true } });
+    const unmatched = new Set(records);
+    const differences: StateDifference[] = [];
+
+    for (const chain of chainPositions) {
+      const record = [...unmatched].find(candidate => samePosition(candidate, chain));
+      if (!record) {
+        const created = this.createPositionRecord(repository, chain);
+        differences.push(difference('untracked_position', 'database', created.id,
+          `${describe(chain)} is open on chain but has no position record`, undefined, chain.liquidity, false, repair));
+        if (repair) await repository.save(created);
+        continue;
+      }
+
+      unmatched.delete(record);
+      const liquidityChanged = !sameAmount(record.liquidity, chain.liquidity);
+      if (!liquidityChanged && !isStale(record, chain)) continue;
+
+      differences.push(liquidityChanged
+        ? difference('liquidity_mismatch', 'database', record.id,
+          `${describe(chain)} liquidity differs from its position record`, record.liquidity, chain.liquidity, false, repair)
+        : difference('stale_position', 'database', record.id,
+          `${describe(chain)} fees or amounts are behind chain`, undefined, undefined, true, repair));
+      if (repair) {
+        applyChainValues(record, chain);
+        await repository.save(record);
+      }
+    }
+
+    for (const record of unmatched) {
+      differences.push(difference('closed_position', 'database', record.id,
+        `${record.token0Symbol}/${record.token1Symbol} ${record.fee} [${record.tickLower}, ${record.tickUpper}] is tracked but no longer open on chain`,
+        record.liquidity, '0', !(safeParseFloat(record.liquidity, 0) > 0), repair));
+      if (repair) {
+        record.isActive = false;
+        record.liquidity = '0';
+        await repository.save(record);
+      }
+    }
+
+    return differences;
+  }
+
+  /**
+   * LiquidityManager cache: it is rebuilt from chain after a restart, so only missing-on-chain and
+   * liquidity differences are unexplained
+   */
+  private async reconcileCache(chainPositions: BlockchainPosition[], repair: boolean): Promise<StateDifference[]> {
+    const cache = this.dependencies.positionCache;
+    if (!cache) return [];
+
+    const unmatched = new Set(await cache.getAllPositions());
+    const differences: StateDifference[] = [];
+
+    for (const chain of chainPositions) {
+      const cached = [...unmatched].find(candidate => samePosition(candidate, chain));
+      if (cached) unmatched.delete(cached);
+
+      if (!cached) {
+        differences.push(difference('untracked_position', 'liquidity_manager', chainPositionId(chain),
+          `${describe(chain)} is not in the liquidity manager cache`, undefined, chain.liquidity, true, repair));
+      } else if (!sameAmount(cached.liquidity, chain.liquidity)) {
+        differences.push(difference('liquidity_mismatch', 'liquidity_manager', cached.id,
+          `${describe(chain)} liquidity differs from the cached position`, cached.liquidity, chain.liquidity, false, repair));
+      } else if (isStale(cached, chain)) {
+        differences.push(difference('stale_position', 'liquidity_manager', cached.id,
+          `${describe(chain)} cached fees or amounts are behind chain`, undefined, undefined, true, repair));
+      } else {
+        continue;
+      }
+
+      if (repair) cache.syncChainPosition(chain);
+    }
+
+    for (const cached of unmatched) {
+      differences.push(difference('closed_position', 'liquidity_manager', cached.id,
+        `${describe(cached)} is cached but no longer open on chain`,
+        cached.liquidity, '0', !(safeParseFloat(cached.liquidity, 0) > 0), repair));
+      if (repair) cache.removeCachedPosition(cached.id);
+    }
+
+    return differences;
+  }
+
+  /**
+   * Wallet balances: the previous run's balances plus confirmed journaled swaps since then should
+   * match chain. Tokens of positions whose liquidity or owed fees changed are explained by liquidity
+   * being added, removed or collected.
+   */
+  private async reconcileBalances(
+    snapshot: ReconciliationSnapshotRecord,
+    balances: Map<string, number>,
+    positionStates: Record<string, ChainPositionState>,
+    repair: boolean
+  ): Promise<StateDifference[]> {
+    const takenAt = Number(snapshot.takenAt);
+    const expected = new Map(Object.entries(snapshot.balances));
+    for (const [token, change] of await this.journaledChanges(takenAt)) {
+      expected.set(token, (expected.get(token) ?? 0) + change);
+    }
+    const liquidityTokens = liquidityActivityTokens(snapshot.positions, positionStates);
+
+    const differences: StateDifference[] = [];
+    for (const token of new Set([...expected.keys(), ...balances.keys()])) {
+      const expectedAmount = expected.get(token) ?? 0;
+      const actual = balances.get(token) ?? 0;
+      const drift = actual - expectedAmount;
+      const tolerance = Math.max(
+        this.config.dustThreshold,
+        Math.max(Math.abs(expectedAmount), Math.abs(actual)) * this.config.balanceTolerancePercent / 100
+      );
+      if (Math.abs(drift) <= tolerance) continue;
+
+      const explained = liquidityTokens.has(token);
+      differences.push(difference('balance_mismatch', 'wallet', token, explained
+        ? `${token} moved ${formatChange(drift)} while liquidity was added, removed or collected`
+        : `${token} is ${formatChange(drift)} off the balance expected from journaled trades`,
+      expectedAmount.toString(), actual.toString(), explained, repair));
+    }
+
+    return differences;
+  }
+
+  /**
+   * Net token change of confirmed journal trades that settled after `since`
+   */
+  private async journaledChanges(since: number): Promise<Map<string, number>> {
+    const changes = new Map<string, number>();
+    const journal = this.dependencies.tradeJournal;
+    if (!journal) return changes;
+
+    const trades = await journal.find({
+      status: 'CONFIRMED',
+      walletAddress: this.config.walletAddress,
+      from: new Date(since - JOURNAL_LOOKBACK_MS)
+    });
+
+    for (const trade of trades) {
+      if (new Date(trade.updatedAt).getTime() <= since) continue;
+      const tokenIn = tokenSymbol(trade.tokenIn);
+      const tokenOut = tokenSymbol(trade.tokenOut);
+      changes.set(tokenIn, (changes.get(tokenIn) ?? 0) - safeParseFloat(trade.amountIn, 0));
+      changes.set(tokenOut, (changes.get(tokenOut) ?? 0) + safeParseFloat(trade.amountOut ?? trade.quotedAmountOut ?? '0', 0));
+    }
+
+    return changes;
+  }
+
+  private async raiseAlert(report: ReconciliationReport): Promise<void> {
+    const alertSystem = this.dependencies.alertSystem;
+    const unexplained = report.differences.filter(difference => !difference.explained);
+    if (!alertSystem) {
+      logger.warn(`State reconciliation found ${unexplained.length} unexplained differences`);
+      return;
+    }
+
+    await alertSystem.createAlert(
+      'position_risk',
+      unexplained.some(difference => difference.kind === 'balance_mismatch') ? 'error' : 'warning',
+      'Local state drifted from chain',
+      unexplained.map(difference => difference.description).join('; '),
+      { walletAddress: report.walletAddress, differences: unexplained },
+      'state_reconciler'
+    );
+  }
+
+  private createPositionRecord(repository: Repository<Position>, chain: BlockchainPosition): Position {
+    return repository.create({
+      id: chainPositionId(chain),
+      walletAddress: this.config.walletAddress,
+      token0: chain.token0,
+      token1: chain.token1,
+      token0Symbol: chain.token0Symbol ?? tokenSymbol(chain.token0),
+      token1Symbol: chain.token1Symbol ?? tokenSymbol(chain.token1),
+      fee: chain.fee,
+      tickLower: chain.tickLower,
+      tickUpper: chain.tickUpper,
+      minPrice: Math.pow(1.0001, chain.tickLower),
+      maxPrice: Math.pow(1.0001, chain.tickUpper),
+      liquidity: chain.liquidity,
+      amount0: chain.amount0 ?? '0',
+      amount1: chain.amount1 ?? '0',
+      uncollectedFees0: chain.fees0 ?? '0',
+      uncollectedFees1: chain.fees1 ?? '0',
+      inRange: chain.inRange ?? true,
+      isActive: true,
+      metadata: { notes: 'Imported from chain by state reconciliation' }
+    });
+  }
+
+  private async getPositionRepository(): Promise<Repository<Position>> {
+    if (!this.positionRepo) {
+      this.positionRepo = await getPositionRepository();
+    }
+    return this.positionRepo;
+  }
+
+  private async getSnapshotRepository(): Promise<Repository<ReconciliationSnapshotRecord>> {
+    if (!this.snapshotRepo) {
+      this.snapshotRepo = await getReconciliationSnapshotRepository();
+    }
+    return this.snapshotRepo;
+  }
+}
+
+function difference(
+  kind: StateDifferenceKind,
+  store: StateDifference['store'],
+  subject: string,
+  description: string,
+  local: string | undefined,
+  chain: string | undefined,
+  explained: boolean,
+  repaired: boolean
+): StateDifference {
+  return { kind, store, subject, description, local, chain, explained, repaired };
+}
+
+type PositionShape = Pick<BlockchainPosition, 'token0' | 'token1' | 'fee' | 'tickLower' | 'tickUpper'> & { id?: string };
+
+/**
+ * Same position when the ids agree, or on pair, fee tier and tick range
+ */
+function samePosition(local: PositionShape, chain: BlockchainPosition): boolean {
+  const chainId = chain.positionId ?? chain.id;
+  if (chainId && local.id === chainId) return true;
+  return positionKey(local) === positionKey(chain);
+}
+
+function positionKey(position: PositionShape): string {
+  return `${normalizeToken(position.token0)}/${normalizeToken(position.token1)}:${position.fee}:${position.tickLower}:${position.tickUpper}`;
+}
+
+/**
+ * The chain's position id, or a stable id derived from the position key (Position ids are 50 chars)
+ */
+function chainPositionId(chain: BlockchainPosition): string {
+  return chain.positionId ?? chain.id ?? `pos_${createHash('sha256').update(positionKey(chain)).digest('hex').slice(0, 32)}`;
+}
+
+function isStale(local: Pick<LiquidityPosition, 'amount0' | 'amount1' | 'uncollectedFees0' | 'uncollectedFees1'>, chain: BlockchainPosition): boolean {
+  return (chain.fees0 !== undefined && !sameAmount(local.uncollectedFees0, chain.fees0)) ||
+    (chain.fees1 !== undefined && !sameAmount(local.uncollectedFees1, chain.fees1)) ||
+    (chain.amount0 !== undefined && !sameAmount(local.amount0, chain.amount0)) ||
+    (chain.amount1 !== undefined && !sameAmount(local.amount1, chain.amount1));
+}
+
+function applyChainValues(record: Position, chain: BlockchainPosition): void {
+  record.liquidity = chain.liquidity;
+  record.amount0 = chain.amount0 ?? record.amount0;
+  record.amount1 = chain.amount1 ?? record.amount1;
+  record.uncollectedFees0 = chain.fees0 ?? record.uncollectedFees0;
+  record.uncollectedFees1 = chain.fees1 ?? record.uncollectedFees1;
+  record.inRange = chain.inRange ?? record.inRange;
+}
+
+function toPositionStates(positions: BlockchainPosition[]): Record<string, ChainPositionState> {
+  return Object.fromEntries(positions.map(position => [positionKey(position), {
+    token0: tokenSymbol(position.token0),
+    token1: tokenSymbol(position.token1),
+    liquidity: position.liquidity,
+    fees0: position.fees0 ?? '0',
+    fees1: position.fees1 ?? '0'
+  }]));
+}
+
+/**
+ * Tokens of positions opened, closed, resized or collected from between two runs
+ */
+function liquidityActivityTokens(
+  previous: Record<string, ChainPositionState>,
+  current: Record<string, ChainPositionState>
+): Set<string> {
+  const tokens = new Set<string>();
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    const before = previous[key];
+    const after = current[key];
+    const changed = !before || !after ||
+      !sameAmount(before.liquidity, after.liquidity) ||
+      safeParseFloat(after.fees0, 0) < safeParseFloat(before.fees0, 0) ||
+      safeParseFloat(after.fees1, 0) < safeParseFloat(before.fees1, 0);
+    if (changed) {
+      const state = (after ?? before)!;
+      tokens.add(state.token0);
+      tokens.add(state.token1);
+    }
+  }
+  return tokens;
+}
+
+function toBalanceMap(balances: PortfolioBalance[]): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const balance of balances) {
+    const token = tokenSymbol(balance.token);
+    map.set(token, (map.get(token) ?? 0) + balance.amount);
+  }
+  return map;
+}
+
+function sameAmount(a: string | number, b: string | number): boolean {
+  const left = safeParseFloat(a, 0);
+  const right = safeParseFloat(b, 0);
+  return Math.abs(left - right) <= Math.max(Math.abs(left), Math.abs(right)) * 1e-9;
+}
+
+function describe(position: PositionShape): string {
+  return `${tokenSymbol(position.token0)}/${tokenSymbol(position.token1)} ${position.fee} [${position.tickLower}, ${position.tickUpper}]`;
+}
+
+function formatChange(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(6)}`;
+}
+
+function classKeyToString(key: TokenClassKey): string {
+  return `${key.collection}|${key.category}|${key.type}|${key.additionalKey}`;
+}
+
+function normalizeToken(token: string): string {
+  return token.replace(/\$/g, '|');
+}
+
+function tokenSymbol(token: string): string {
+  return token.split(/[|$]/)[0];
+}
@@ -4,14 +4,16 @@
  * Test Script: Dry Run Trading Simulation
  *
  * SAFETY LEVEL: ZERO RISK
- * - Generates transaction payloads but NEVER submits them
- * - Tests all trading logic without actual execution
+ * - Trades through PaperGSwap: live quotes, simulated fills and virtual balances
+ * - Nothing is ever signed or submitted to the chain
  * - Safe to run with real wallet credentials
  */
 
 import { config } from 'dotenv';
 import { validateEnvironment } from '../config/environment';
 import { TradingEngine } from '../trading/TradingEngine';
+import { PaperGSwap } from '../testing/paper-gswap';
+import { createQuoteWrapper } from '../utils/quote-api';
 import { Logger } from '../utils/logger';
 
 config();
@@ -26,9 +28,14 @@ async function dryRunTrading() {
     const env = validateEnvironment();
     logger.info('✅ Environment configuration validated');
 
-    // Initialize Trading Engine
-    const tradingEngine = new TradingEngine(env);
-    logger.info('✅ Trading Engine initialized');
+    // Initialize Trading Engine on a paper wallet
+    const paper = new PaperGSwap({
+      walletAddress: env.wallet.address,
+      balances: { GALA: 10000, GUSDC: 500 },
+      quoteSource: createQuoteWrapper(env.api.baseUrl)
+    });
+    const tradingEngine = new TradingEngine(env, { gswap: paper.asGSwap(), quoteSource: paper.quoteWrapper() });
+    logger.info('✅ Trading Engine initialized on a paper wallet');
 
     // Start the engine (initializes all components)
     await tradingEngine.start();
@@ -60,24 +67,28 @@ async function dryRunTrading() {
     const canTrade = engineStatus.isRunning && !engineStatus.risk.emergencyStop;
     logger.info(`Market Conditions: ${canTrade ? '✅ Favorable for trading' : '❌ Unfavorable'}`);
 
-    // Test 4: Dry Run Arbitrage Detection
-    logger.info('🔍 Test 4: Arbitrage opportunity detection (dry run)...');
+    // Test 4: Paper trade through the full execution path
+    logger.info('🔍 Test 4: Paper trade execution...');
 
     try {
-      // This will analyze opportunities but not execute them
-      logger.info('Scanning for arbitrage opportunities...');
-
-      // Execute one trading cycle in dry run mode
-      // This tests the complete logic without actual transactions
-      logger.info('Executing trading cycle (dry run)...');
+      const trade = await tradingEngine.executeManualTrade({
+        tokenIn: 'GALA|Unit|none|none',
+        tokenOut: 'GUSDC|Unit|none|none',
+        amountIn: '100',
+        slippageTolerance: 0.01
+      });
 
-      // Note: The actual trading cycle execution is internal to TradingEngine
-      // We're just testing that all components are working together
+      logger.info('Paper trade:', {
+        success: trade.success,
+        transactionId: trade.transactionId,
+        error: trade.error,
+        balances: paper.getBalances()
+      });
 
-      logger.info('✅ Trading cycle simulation completed');
+      logger.info('✅ Paper trade completed');
 
     } catch (error) {
-      logger.error('Trading cycle simulation failed:', error);
+      logger.error('Paper trade failed:', error);
     }
 
     // Test 5: Risk Limits Testing
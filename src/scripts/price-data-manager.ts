@@ -6,7 +6,7 @@
  */
 
 import { Command } from 'commander';
-import { priceCollector, timeSeriesDB } from '../data';
+import { priceCollector, timeSeriesDB, datasetTransfer, DatasetType, INTERVAL_TYPES, GapBackfiller, CandleGap } from '../data';
 import { logger } from '../utils/logger';
 import { IntervalType } from '../entities/analytics';
 
@@ -378,6 +378,186 @@ program
     }
   });
 
+// Bulk export
+program
+  .command('export')
+  .description('Export stored price data to a CSV or Parquet file')
+  .requiredOption('-t, --tokens <tokens>', 'Comma-separated list of tokens to export')
+  .requiredOption('-o, --output <file>', 'Output file (.csv or .parquet)')
+  .option('--type <type>', 'Data to export (prices, ohlcv, statistics)', 'ohlcv')
+  .option('-i, --interval <interval>', `Candle interval for OHLCV (${INTERVAL_TYPES.join(',')})`, '1h')
+  .option('--from <date>', 'Start date (ISO 8601)')
+  .option('--to <date>', 'End date (ISO 8601)')
+  .option('-f, --format <format>', 'File format (csv, parquet); defaults to the file extension')
+  .action(async (options) => {
+    try {
+      const type = options.type as DatasetType;
+      if (!['prices', 'ohlcv', 'statistics'].includes(type)) {
+        throw new Error(`Unknown data type: ${options.type} (use prices, ohlcv or statistics)`);
+      }
+
+      await timeSeriesDB.initialize();
+
+      const result = await datasetTransfer.exportDataset(options.output, {
+        type,
+        tokens: options.tokens.split(',').map((t: string) => t.trim()).filter(Boolean),
+        intervalType: parseIntervalOption(options.interval),
+        startTime: options.from ? parseDateOption(options.from, '--from') : undefined,
+        endTime: options.to ? parseDateOption(options.to, '--to') : undefined,
+        format: options.format
+      });
+
+      logger.info(`📦 Exported ${result.rows.toLocaleString()} ${type} rows to ${result.path} (${result.format})`);
+      for (const [token, rows] of Object.entries(result.rowsByToken)) {
+        logger.info(`   ${token}: ${rows.toLocaleString()} rows`);
+      }
+
+    } catch (error) {
+      logger.error('❌ Export failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Bulk import
+program
+  .command('import')
+  .description('Import an external OHLCV file (CSV or Parquet), skipping candles already stored')
+  .argument('<file>', 'CSV or Parquet file with OHLCV candles')
+  .option('-t, --token <token>', 'Token symbol for files without a token/symbol column')
+  .option('-i, --interval <interval>', 'Candle interval for files without an interval column (inferred from spacing otherwise)')
+  .option('-f, --format <format>', 'File format (csv, parquet); defaults to the file extension')
+  .option('--overwrite', 'Replace candles already stored for the same interval')
+  .option('--dry-run', 'Report what would be imported without writing anything')
+  .action(async (file, options) => {
+    try {
+      await timeSeriesDB.initialize();
+
+      const report = await datasetTransfer.importOHLCV(file, {
+        token: options.token,
+        intervalType: options.interval ? parseIntervalOption(options.interval) : undefined,
+        format: options.format,
+        overwrite: options.overwrite === true,
+        dryRun: options.dryRun === true
+      });
+
+      logger.info(`📥 OHLCV Import: ${file}${report.dryRun ? ' (DRY RUN - nothing written)' : ''}`);
+      logger.info('='.repeat(50));
+      logger.info(`   Rows read: ${report.rows.toLocaleString()}`);
+      logger.info(`   ${report.dryRun ? 'Would import' : 'Imported'}: ${report.imported.toLocaleString()}`);
+      logger.info(`   Already stored: ${report.skippedExisting.toLocaleString()}${options.overwrite ? ' (overwritten)' : ''}`);
+      logger.info(`   Duplicates in file: ${report.duplicates.toLocaleString()}`);
+      logger.info(`   Realigned to interval start: ${report.realigned.toLocaleString()}`);
+      logger.info(`   Invalid rows: ${report.invalid.length.toLocaleString()}`);
+      report.invalid.slice(0, 10).forEach(({ row, reason }) => {
+        logger.info(`     row ${row}: ${reason}`);
+      });
+
+      logger.info('\n📈 Series:');
+      report.series.forEach(series => {
+        logger.info(`   ${series.token} ${series.intervalType}: ${series.candles.toLocaleString()} candles, ${new Date(series.from).toISOString()} to ${new Date(series.to).toISOString()}`);
+      });
+
+      logger.info('');
+      logGaps(report.gaps);
+
+    } catch (error) {
+      logger.error('❌ Import failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Gap detection
+program
+  .command('gaps')
+  .description('List missing OHLCV candles per token and interval')
+  .option('-t, --tokens <tokens>', 'Comma-separated list of tokens to check', 'GALA,GUSDC,ETIME')
+  .option('-i, --intervals <intervals>', 'Comma-separated candle intervals', '5m,1h')
+  .option('-h, --hours <hours>', 'Hours of history to check', '48')
+  .action(async (options) => {
+    try {
+      await timeSeriesDB.initialize();
+
+      const backfiller = new GapBackfiller({ lookbackHours: parseInt(options.hours) });
+      const gaps = await backfiller.detectGaps(parseListOption(options.tokens), parseListOption(options.intervals).map(parseIntervalOption));
+
+      logger.info(`🔎 OHLCV Gaps (last ${options.hours} hours)`);
+      logger.info('='.repeat(50));
+      logGaps(gaps);
+
+    } catch (error) {
+      logger.error('❌ Gap check failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Gap backfill
+program
+  .command('backfill')
+  .description('Rebuild missing OHLCV candles from pool trades, interpolating intervals without trades')
+  .option('-t, --tokens <tokens>', 'Comma-separated list of tokens to backfill', 'GALA,GUSDC,ETIME')
+  .option('-i, --intervals <intervals>', 'Comma-separated candle intervals', '5m,1h')
+  .option('-h, --hours <hours>', 'Hours of history to check', '48')
+  .option('--dry-run', 'Report what would be filled without writing anything')
+  .action(async (options) => {
+    try {
+      await timeSeriesDB.initialize();
+
+      const backfiller = new GapBackfiller({ lookbackHours: parseInt(options.hours) });
+      const report = await backfiller.run(parseListOption(options.tokens), parseListOption(options.intervals).map(parseIntervalOption), {
+        dryRun: options.dryRun === true
+      });
+
+      logger.info(`🩹 OHLCV Backfill${report.dryRun ? ' (DRY RUN - nothing written)' : ''}`);
+      logger.info('='.repeat(50));
+      logger.info(`   Gaps: ${report.gaps} (${report.missing.toLocaleString()} missing candles)`);
+      logger.info(`   Reconstructed from trades: ${report.reconstructed.toLocaleString()}`);
+      logger.info(`   Interpolated: ${report.interpolated.toLocaleString()}`);
+      logger.info(`   Left unfilled: ${report.unfilled.toLocaleString()}`);
+      report.results.filter(result => result.error || !result.poolHash).forEach(result => {
+        logger.info(`   ⚠️ ${result.gap.token} ${result.gap.intervalType}: ${result.error || 'no pool found, interpolated only'}`);
+      });
+
+    } catch (error) {
+      logger.error('❌ Backfill failed:', error);
+      process.exit(1);
+    }
+  });
+
+function logGaps(gaps: CandleGap[]): void {
+  if (gaps.length === 0) {
+    logger.info('✅ No gaps found');
+    return;
+  }
+
+  const missing = gaps.reduce((sum, gap) => sum + gap.missing, 0);
+  logger.info(`⚠️ Gaps (${gaps.length}, ${missing.toLocaleString()} missing candles):`);
+  gaps.slice(0, 20).forEach(gap => {
+    logger.info(`   ${gap.token} ${gap.intervalType}: ${new Date(gap.start).toISOString()} to ${new Date(gap.end).toISOString()} (${gap.missing} missing)`);
+  });
+  if (gaps.length > 20) {
+    logger.info(`   ... and ${gaps.length - 20} more`);
+  }
+}
+
+function parseListOption(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseIntervalOption(value: string): IntervalType {
+  if (!INTERVAL_TYPES.includes(value as IntervalType)) {
+    throw new Error(`Unknown interval: ${value} (use ${INTERVAL_TYPES.join(', ')})`);
+  }
+  return value as IntervalType;
+}
+
+function parseDateOption(value: string, option: string): number {
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date for ${option}: ${value}`);
+  }
+  return time;
+}
+
 // Error handling
 program.exitOverride();
 
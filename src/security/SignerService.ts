@@ -9,6 +9,7 @@ import { PayloadSigner, SignablePayload, SignedPayload } from '../utils/signing'
 
 export interface SignerConfig {
   walletAddress: string;
+  privateKeyEnv?: string; // Env var holding this wallet's key (default WALLET_PRIVATE_KEY)
 }
 
 /**
@@ -17,10 +18,12 @@ export interface SignerConfig {
 export class SignerService {
   private signer: PayloadSigner;
   private walletAddress: string;
+  private privateKeyEnv?: string;
   private isInitialized: boolean = false;
 
   constructor(config: SignerConfig) {
     this.walletAddress = config.walletAddress;
+    this.privateKeyEnv = config.privateKeyEnv;
     this.signer = this.initializeSigner();
     this.isInitialized = true;
 
@@ -35,7 +38,8 @@ export class SignerService {
   private initializeSigner(): PayloadSigner {
     // Create signer - it will get private key securely from environment
     return new PayloadSigner({
-      userAddress: this.walletAddress
+      userAddress: this.walletAddress,
+      privateKeyEnv: this.privateKeyEnv
     });
   }
 
@@ -171,6 +175,6 @@ export class SignerService {
 /**
  * Factory function to create signer service
  */
-export function createSignerService(walletAddress: string): SignerService {
-  return new SignerService({ walletAddress });
+export function createSignerService(walletAddress: string, privateKeyEnv?: string): SignerService {
+  return new SignerService({ walletAddress, privateKeyEnv });
 }
\ No newline at end of file
@@ -4,11 +4,11 @@
  */
 
 import { logger } from '../utils/logger';
-import { getConfig, getPrivateKey } from '../config/environment';
+import { BotConfig, getConfig, getPrivateKey, WalletConfig } from '../config/environment';
 
 export class CredentialService {
   private static instance: CredentialService;
-  private cachedAddress: string | null = null;
+  private cachedAddresses: Map<string, string> = new Map();
 
   private constructor() {
     // Private constructor for singleton
@@ -24,18 +24,20 @@ export class CredentialService {
   /**
    * Get the wallet address in the required format for API calls
    * Returns in format: 'eth|0x...' without exposing in logs
+   * @param walletId - Wallet from WALLETS to resolve (defaults to the primary wallet)
    */
-  public getWalletAddress(): string {
-    if (this.cachedAddress) {
-      return this.cachedAddress;
+  public getWalletAddress(walletId: string = 'primary'): string {
+    const cached = this.cachedAddresses.get(walletId);
+    if (cached) {
+      return cached;
     }
 
     try {
       const config = getConfig();
-      const address = config.wallet.address;
+      const address = this.findWallet(config, walletId)?.address;
 
       if (!address) {
-        throw new Error('Wallet address not configured');
+        throw new Error(walletId === 'primary' ? 'Wallet address not configured' : `Wallet "${walletId}" not configured`);
       }
 
       // Validate address format (eth|HEXADDRESS without 0x)
@@ -44,13 +46,13 @@ export class CredentialService {
         throw new Error(`Invalid wallet address format. Expected 'eth|HEXADDRESS' (44 chars), got: ${address.substring(0, 10)}... (${address.length} chars)`);
       }
 
-      this.cachedAddress = address;
+      this.cachedAddresses.set(walletId, address);
 
       // Log only the first 10 and last 4 characters for security
       const maskedAddress = `${address.substring(0, 10)}...${address.substring(address.length - 4)}`;
-      logger.debug('Wallet address initialized', { maskedAddress });
+      logger.debug('Wallet address initialized', { walletId, maskedAddress });
 
-      return this.cachedAddress;
+      return address;
     } catch (error) {
       logger.error('Failed to resolve wallet address', {
         error: error instanceof Error ? error.message : String(error),
@@ -60,25 +62,35 @@ export class CredentialService {
     }
   }
 
+  /**
+   * Ids of every configured wallet, primary first
+   */
+  public getWalletIds(): string[] {
+    const config = getConfig();
+    return config.wallets ? config.wallets.map(wallet => wallet.id ?? 'primary') : ['primary'];
+  }
+
   /**
    * Validate that credentials are properly configured
+   * @param walletId - Wallet from WALLETS to validate (defaults to the primary wallet)
    */
-  public validateCredentials(): boolean {
+  public validateCredentials(walletId: string = 'primary'): boolean {
     try {
       const config = getConfig();
+      const wallet = this.findWallet(config, walletId);
 
-      if (!config.wallet.address) {
+      if (!wallet?.address) {
         return false;
       }
 
       // Validate address format
-      if (!config.wallet.address.startsWith('eth|0x')) {
+      if (!wallet.address.startsWith('eth|0x')) {
         return false;
       }
 
       // Validate private key exists securely without storing it
       try {
-        const privateKeyBuffer = getPrivateKey();
+        const privateKeyBuffer = getPrivateKey(wallet.privateKeyEnv);
         if (!privateKeyBuffer || privateKeyBuffer.length === 0) {
           return false;
         }
@@ -96,9 +108,16 @@ export class CredentialService {
    * Clear cached credentials (for testing or security)
    */
   public clearCache(): void {
-    this.cachedAddress = null;
+    this.cachedAddresses.clear();
     logger.debug('Credential cache cleared');
   }
+
+  private findWallet(config: BotConfig, walletId: string): WalletConfig | undefined {
+    if (walletId === 'primary') {
+      return config.wallet;
+    }
+    return config.wallets?.find(wallet => wallet.id === walletId);
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,295 @@
+/**
+ * Arbitrage Graph
+ * Directed token graph over every discovered pool: one edge per pool and direction, weighted by
+ * -ln(rate after the pool fee), so a profitable cycle of any length is a negative-weight cycle.
+ * Cycles are found with a hop-bounded Bellman-Ford search that only expands tokens relaxed in the
+ * previous round (SPFA-style). After price updates only tokens whose edges changed are searched again.
+ */
+
+import { logger } from '../utils/logger';
+import { PoolData, poolFeeTier } from './pool-discovery';
+
+export interface GraphEdge {
+  from: string; // Token symbol
+  to: string;
+  poolHash: string;
+  feeTier: number;
+  rate: number; // Units of `to` received per unit of `from`, after the pool fee
+  weight: number; // -ln(rate)
+  tvl: number;
+}
+
+export interface ArbitrageCycle {
+  tokens: string[]; // Token symbols, first and last are the same
+  edges: GraphEdge[];
+  hops: number;
+  rateProduct: number; // Output per unit of input around the cycle at spot prices
+  profitPercent: number;
+  minTvl: number; // Smallest pool TVL along the cycle
+}
+
+export interface CycleSearchOptions {
+  maxHops?: number; // Longest cycle to look for (default 6)
+  minProfitPercent?: number; // Spot profit a cycle must exceed (default 0)
+  minTvl?: number; // Ignore pools below this TVL (default 0)
+  startTokens?: string[]; // Only report cycles through these tokens, rotated to start at them
+}
+
+export interface ArbitrageGraphStats {
+  tokens: number;
+  pools: number;
+  edges: number;
+  dirtyTokens: number;
+  cachedCycles: number;
+}
+
+interface CycleCache {
+  optionsKey: string;
+  cycles: Map<string, ArbitrageCycle>;
+}
+
+const DEFAULT_MAX_HOPS = 6;
+const RATE_EPSILON = 1e-12;
+
+export class ArbitrageGraph {
+  private readonly poolEdges: Map<string, GraphEdge[]> = new Map();
+  private readonly adjacency: Map<string, Map<string, GraphEdge>> = new Map();
+  private readonly dirtyTokens: Set<string> = new Set();
+  private cache: CycleCache | null = null;
+
+  constructor(pools: PoolData[] = []) {
+    this.loadPools(pools);
+  }
+
+  /**
+   * Replace the graph with a full pool snapshot; pools missing from it are removed
+   */
+  loadPools(pools: PoolData[]): void {
+    const seen = new Set<string>();
+    for (const pool of pools) {
+      seen.add(pool.poolHash);
+      this.updatePool(pool);
+    }
+    for (const poolHash of Array.from(this.poolEdges.keys())) {
+      if (!seen.has(poolHash)) this.removePool(poolHash);
+    }
+  }
+
+  /**
+   * Insert or reprice one pool. Returns true when any of its edge rates changed.
+   */
+  updatePool(pool: PoolData): boolean {
+    const edges = edgesForPool(pool);
+    if (edges.length === 0) {
+      return this.removePool(pool.poolHash);
+    }
+
+    const previous = this.poolEdges.get(pool.poolHash);
+    const changed = !previous || previous.some((edge, i) => Math.abs(edge.rate - edges[i].rate) > RATE_EPSILON * edge.rate);
+
+    for (const edge of previous ?? []) this.adjacency.get(edge.from)?.delete(edgeId(edge));
+    for (const edge of edges) {
+      if (!this.adjacency.has(edge.from)) this.adjacency.set(edge.from, new Map());
+      this.adjacency.get(edge.from)!.set(edgeId(edge), edge);
+      if (changed) this.dirtyTokens.add(edge.from);
+    }
+    this.poolEdges.set(pool.poolHash, edges);
+
+    return changed;
+  }
+
+  /**
+   * Drop a pool's edges. Removing edges cannot create cycles, so nothing is marked dirty.
+   */
+  removePool(poolHash: string): boolean {
+    const edges = this.poolEdges.get(poolHash);
+    if (!edges) return false;
+
+    for (const edge of edges) {
+      const outgoing = this.adjacency.get(edge.from);
+      outgoing?.delete(edgeId(edge));
+      if (outgoing?.size === 0) this.adjacency.delete(edge.from);
+    }
+    this.poolEdges.delete(poolHash);
+    return true;
+  }
+
+  getTokens(): string[] {
+    return Array.from(this.adjacency.keys()).sort();
+  }
+
+  getEdges(from?: string): GraphEdge[] {
+    if (from) return Array.from(this.adjacency.get(from)?.values() ?? []);
+    return Array.from(this.poolEdges.values()).flat();
+  }
+
+  /**
+   * Find profitable cycles up to `maxHops` long. The first call searches from every token;
+   * later calls with the same options re-price the cycles already known and search again only
+   * from tokens whose outgoing edges changed since the previous call.
+   */
+  findCycles(options: CycleSearchOptions = {}): ArbitrageCycle[] {
+    const maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+    if (!Number.isInteger(maxHops) || maxHops < 2) {
+      throw new Error(`maxHops must be an integer of at least 2, got ${maxHops}`);
+    }
+
+    const minProfitPercent = options.minProfitPercent ?? 0;
+    const minTvl = options.minTvl ?? 0;
+    const startTokens = options.startTokens?.filter(token => this.adjacency.has(token));
+    const optionsKey = JSON.stringify([maxHops, minProfitPercent, minTvl, options.startTokens ?? null]);
+    const incremental = this.cache?.optionsKey === optionsKey;
+
+    const cycles = new Map<string, ArbitrageCycle>();
+    if (incremental) {
+      for (const [key, cycle] of this.cache!.cycles) {
+        const repriced = this.reprice(cycle, minTvl);
+        if (repriced && repriced.profitPercent > minProfitPercent) cycles.set(key, repriced);
+      }
+    }
+
+    // Any new cycle contains a changed edge and therefore passes through that edge's source token.
+    // Cycles restricted to start tokens are searched from those tokens instead.
+    let sources: string[];
+    if (startTokens) {
+      sources = !incremental || this.dirtyTokens.size > 0 ? startTokens : [];
+    } else {
+      sources = incremental ? Array.from(this.dirtyTokens).filter(token => this.adjacency.has(token)) : this.getTokens();
+    }
+
+    const maxWeight = -Math.log(1 + minProfitPercent / 100);
+    for (const source of sources) {
+      for (const cycle of this.searchFrom(source, maxHops, maxWeight, minTvl)) {
+        const rotated = startTokens ? rotateToStart(cycle, startTokens) : cycle;
+        if (rotated) cycles.set(cycleKey(rotated.edges), rotated);
+      }
+    }
+
+    logger.debug(`Arbitrage graph: searched ${sources.length} tokens, ${cycles.size} profitable cycles up to ${maxHops} hops`);
+
+    this.dirtyTokens.clear();
+    this.cache = { optionsKey, cycles };
+
+    return Array.from(cycles.values()).sort((a, b) => b.profitPercent - a.profitPercent);
+  }
+
+  getStats(): ArbitrageGraphStats {
+    return {
+      tokens: this.adjacency.size,
+      pools: this.poolEdges.size,
+      edges: Array.from(this.adjacency.values()).reduce((sum, edges) => sum + edges.size, 0),
+      dirtyTokens: this.dirtyTokens.size,
+      cachedCycles: this.cache?.cycles.size ?? 0
+    };
+  }
+
+  /**
+   * Hop-bounded Bellman-Ford from one token. Round k keeps the cheapest k-edge path found to each
+   * token without revisiting a token or pool; a path back to the source below `maxWeight` is a cycle.
+   */
+  private searchFrom(source: string, maxHops: number, maxWeight: number, minTvl: number): ArbitrageCycle[] {
+    const cycles: ArbitrageCycle[] = [];
+    let previous = new Map<string, { weight: number; path: GraphEdge[] }>([[source, { weight: 0, path: [] }]]);
+
+    for (let hop = 1; hop <= maxHops && previous.size > 0; hop++) {
+      const current = new Map<string, { weight: number; path: GraphEdge[] }>();
+
+      for (const [token, { weight, path }] of previous) {
+        if (token === source && hop > 1) continue; // Closed cycles are not extended
+
+        for (const edge of this.adjacency.get(token)?.values() ?? []) {
+          if (edge.tvl < minTvl) continue;
+          if (edge.to !== source && (hop === maxHops || path.some(step => step.from === edge.to))) continue;
+          if (path.some(step => step.poolHash === edge.poolHash)) continue;
+
+          const candidate = weight + edge.weight;
+          const best = current.get(edge.to);
+          if (!best || candidate < best.weight) {
+            current.set(edge.to, { weight: candidate, path: [...path, edge] });
+          }
+        }
+      }
+
+      const closed = current.get(source);
+      if (closed && closed.weight < maxWeight) {
+        cycles.push(toCycle(closed.path));
+      }
+      previous = current;
+    }
+
+    return cycles;
+  }
+
+  private reprice(cycle: ArbitrageCycle, minTvl: number): ArbitrageCycle | null {
+    const edges: GraphEdge[] = [];
+    for (const edge of cycle.edges) {
+      const current = this.adjacency.get(edge.from)?.get(edgeId(edge));
+      if (!current || current.tvl < minTvl) return null;
+      edges.push(current);
+    }
+    return toCycle(edges);
+  }
+}
+
+function edgesForPool(pool: PoolData): GraphEdge[] {
+  const price0 = parseFloat(pool.token0Price);
+  const price1 = parseFloat(pool.token1Price);
+  if (!(price0 > 0) || !(price1 > 0) || !isFinite(price0) || !isFinite(price1) || pool.token0 === pool.token1) {
+    return [];
+  }
+
+  const feeTier = poolFeeTier(pool);
+  const afterFee = 1 - feeTier / 1_000_000;
+  const edge = (from: string, to: string, rate: number): GraphEdge => ({
+    from,
+    to,
+    poolHash: pool.poolHash,
+    feeTier,
+    rate,
+    weight: -Math.log(rate),
+    tvl: pool.tvl ?? 0
+  });
+
+  return [
+    edge(pool.token0, pool.token1, (price0 / price1) * afterFee),
+    edge(pool.token1, pool.token0, (price1 / price0) * afterFee)
+  ];
+}
+
+function edgeId(edge: GraphEdge): string {
+  return `${edge.poolHash}:${edge.from}`;
+}
+
+function toCycle(edges: GraphEdge[]): ArbitrageCycle {
+  const rateProduct = edges.reduce((product, edge) => product * edge.rate, 1);
+  return {
+    tokens: [...edges.map(edge => edge.from), edges[0].from],
+    edges,
+    hops: edges.length,
+    rateProduct,
+    profitPercent: (rateProduct - 1) * 100,
+    minTvl: Math.min(...edges.map(edge => edge.tvl))
+  };
+}
+
+/**
+ * Rotation-independent key so the same cycle found from different tokens is reported once
+ */
+function cycleKey(edges: GraphEdge[]): string {
+  const ids = edges.map(edgeId);
+  let best = 0;
+  for (let i = 1; i < ids.length; i++) {
+    if (ids[i] < ids[best]) best = i;
+  }
+  return [...ids.slice(best), ...ids.slice(0, best)].join('>');
+}
+
+function rotateToStart(cycle: ArbitrageCycle, startTokens: string[]): ArbitrageCycle | null {
+  for (const token of startTokens) {
+    const index = cycle.edges.findIndex(edge => edge.from === token);
+    if (index >= 0) {
+      return toCycle([...cycle.edges.slice(index), ...cycle.edges.slice(0, index)]);
+    }
+  }
+  return null;
+}
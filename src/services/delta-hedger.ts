@@ -0,0 +1,338 @@
+/**
+ * Delta Hedger
+ * Keeps liquidity positions delta-neutral by holding an offsetting token inventory
+ *
+ * - Token delta of a position comes from its liquidity and tick bounds at the current price
+ * - Each volatile token is hedged by swapping against a quote token (e.g. GUSDC) in its own pool
+ * - A swap is sent only when net exposure drifts beyond a band, and brings it back to zero
+ * - Short inventory is funded from the wallet's own balance of the token, and sells are capped at that balance
+ * - Hedge PnL is marked in the quote token and kept apart from LP fee income
+ * - Hedge books are persisted per wallet, so a restart resumes from the hedges already on
+ */
+
+import { Repository } from 'typeorm';
+import { getHedgeBookRepository } from '../config/database';
+import { HedgeBookRecord } from '../entities/HedgeBookRecord';
+import { logger } from '../utils/logger';
+import { QuoteSource, createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
+import { amountsForLiquidity, tickToSqrtPrice } from '../utils/price-math';
+import { safeParseFloat } from '../utils/safe-parse';
+import { realizedAmountOut } from '../utils/slippage-calculator';
+import { tokenSymbol } from '../utils/token-format';
+import type { SwapExecutor } from '../trading/execution/swap-executor';
+import type { LiquidityPosition } from './liquidity-manager';
+
+export interface HedgeConfig {
+  quoteToken: string; // Token hedges are swapped against
+  deltaBand: number; // Net exposure tolerated before hedging, as a fraction of the LP exposure in that token
+  minTradeValue: number; // Smallest hedge swap worth sending, in quote token
+  slippageTolerance: number;
+}
+
+export interface TokenDelta {
+  token: string;
+  lpAmount: number; // Tokens held by the liquidity positions
+  hedgeAmount: number; // Hedge inventory: negative when the token has been sold against the positions
+  netAmount: number;
+  price: number; // In quote token
+}
+
+export interface HedgeTrade {
+  token: string;
+  side: 'buy' | 'sell';
+  amount: number; // Token amount bought or sold
+  quoteAmount: number; // Quote token paid or received
+  price: number;
+  transactionId?: string;
+  timestamp: number;
+}
+
+export interface HedgePnL {
+  pnl: number; // Quote received minus paid, plus inventory marked at the last price
+  quoteBalance: number;
+  inventoryValue: number;
+  trades: number;
+}
+
+interface HedgeBook {
+  inventory: number;
+  quoteBalance: number;
+  lastPrice: number;
+  trades: HedgeTrade[];
+}
+
+/** Wallet balance of a token, in token units */
+export type HedgeBalanceSource = (token: string) => Promise<number>;
+
+const MAX_STORED_TRADES = 500;
+
+const DEFAULT_CONFIG: HedgeConfig = {
+  quoteToken: 'GUSDC|Unit|none|none',
+  deltaBand: 0.1,
+  minTradeValue: 5,
+  slippageTolerance: 0.01
+};
+
+/**
+ * Tokens a liquidity position holds at the current price (token1 per token0), uncollected fees included
+ */
+export function positionDelta(
+  position: Pick<LiquidityPosition, 'liquidity' | 'tickLower' | 'tickUpper' | 'uncollectedFees0' | 'uncollectedFees1'>,
+  currentPrice: number
+): { amount0: number; amount1: number } {
+  const liquidity = safeParseFloat(position.liquidity, 0);
+  const { amount0, amount1 } = liquidity > 0 && currentPrice > 0
+    ? amountsForLiquidity(Math.sqrt(currentPrice), tickToSqrtPrice(position.tickLower), tickToSqrtPrice(position.tickUpper), liquidity)
+    : { amount0: 0, amount1: 0 };
+
+  return {
+    amount0: amount0 + safeParseFloat(position.uncollectedFees0, 0),
+    amount1: amount1 + safeParseFloat(position.uncollectedFees1, 0)
+  };
+}
+
+export class DeltaHedger {
+  private config: HedgeConfig;
+  private books: Map<string, HedgeBook> = new Map();
+  private repository: Repository<HedgeBookRecord> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private quoteWrapper: QuoteSource;
+
+  constructor(
+    private readonly swapExecutor: Pick<SwapExecutor, 'executeSwap'>,
+    private readonly userAddress: string,
+    config: Partial<HedgeConfig> = {},
+    private readonly getBalance: HedgeBalanceSource = token => defaultBalance(userAddress, token),
+    sources: RuntimeSources = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+  }
+
+  /**
+   * Attach the database and load this wallet's hedge books. Must run before the first rebalance,
+   * otherwise hedges from a previous run are not seen and the same exposure is hedged again.
+   */
+  async open(): Promise<void> {
+    if (this.repository) return;
+
+    this.repository = await getHedgeBookRepository();
+    const records = await this.repository.find({ where: { walletAddress: this.userAddress } });
+
+    for (const record of records) {
+      if (this.books.has(record.token)) continue;
+      this.books.set(record.token, {
+        inventory: safeParseFloat(record.inventory, 0),
+        quoteBalance: safeParseFloat(record.quoteBalance, 0),
+        lastPrice: safeParseFloat(record.lastPrice, 0),
+        trades: record.trades ?? []
+      });
+    }
+
+    // Persist books that changed before the database was attached
+    const loaded = new Set(records.map(record => record.token));
+    for (const token of this.books.keys()) {
+      if (!loaded.has(token)) this.persist(token);
+    }
+
+    if (records.length > 0) {
+      logger.info(`Restored ${records.length} hedge book(s) for ${this.userAddress}`);
+    }
+  }
+
+  /**
+   * Wait for queued writes to land
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Whether a token needs no hedge because it is the quote token itself
+   */
+  isQuoteToken(token: string): boolean {
+    return tokenSymbol(token) === tokenSymbol(this.config.quoteToken);
+  }
+
+  /**
+   * Bring each token's net exposure back to zero where it has drifted beyond the band.
+   * Exposure maps token to the amount held by the liquidity positions being hedged.
+   */
+  async rebalance(exposure: Map<string, number>): Promise<HedgeTrade[]> {
+    const trades: HedgeTrade[] = [];
+
+    for (const token of new Set([...exposure.keys(), ...this.books.keys()])) {
+      if (this.isQuoteToken(token)) continue;
+
+      try {
+        const delta = await this.getDelta(token, exposure.get(token) ?? 0);
+        if (!this.outsideBand(delta)) continue;
+
+        const trade = await this.executeHedge(delta);
+        if (trade) trades.push(trade);
+
+      } catch (error) {
+        logger.error(`Failed to hedge ${tokenSymbol(token)}:`, error);
+      }
+    }
+
+    return trades;
+  }
+
+  /**
+   * Net exposure per token after hedges, at the prices seen by the last rebalance
+   */
+  getDeltas(exposure: Map<string, number>): TokenDelta[] {
+    return [...new Set([...exposure.keys(), ...this.books.keys()])]
+      .filter(token => !this.isQuoteToken(token))
+      .map(token => {
+        const lpAmount = exposure.get(token) ?? 0;
+        const book = this.books.get(token);
+        const hedgeAmount = book?.inventory ?? 0;
+        return { token, lpAmount, hedgeAmount, netAmount: lpAmount + hedgeAmount, price: book?.lastPrice ?? 0 };
+      });
+  }
+
+  /**
+   * Hedge result marked at the last price seen for each token
+   */
+  getPnL(token?: string): HedgePnL {
+    const books = token ? [this.books.get(token)].filter((book): book is HedgeBook => !!book) : [...this.books.values()];
+
+    const quoteBalance = books.reduce((sum, book) => sum + book.quoteBalance, 0);
+    const inventoryValue = books.reduce((sum, book) => sum + book.inventory * book.lastPrice, 0);
+
+    return {
+      pnl: quoteBalance + inventoryValue,
+      quoteBalance,
+      inventoryValue,
+      trades: books.reduce((sum, book) => sum + book.trades.length, 0)
+    };
+  }
+
+  /**
+   * Hedge swaps sent so far, oldest first
+   */
+  getTrades(token?: string): HedgeTrade[] {
+    const books = token ? [this.books.get(token)].filter((book): book is HedgeBook => !!book) : [...this.books.values()];
+    return books.flatMap(book => book.trades).sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private async getDelta(token: string, lpAmount: number): Promise<TokenDelta> {
+    const book = this.getBook(token);
+    const price = await this.getPrice(token);
+    if (price > 0) book.lastPrice = price;
+
+    return {
+      token,
+      lpAmount,
+      hedgeAmount: book.inventory,
+      netAmount: lpAmount + book.inventory,
+      price // 0 when the token cannot be priced right now, which holds off any hedge
+    };
+  }
+
+  private outsideBand(delta: TokenDelta): boolean {
+    if (!(delta.price > 0)) return false;
+    if (Math.abs(delta.netAmount) * delta.price < this.config.minTradeValue) return false;
+    return Math.abs(delta.netAmount) > this.config.deltaBand * Math.abs(delta.lpAmount);
+  }
+
+  private async executeHedge(delta: TokenDelta): Promise<HedgeTrade | null> {
+    const side = delta.netAmount > 0 ? 'sell' : 'buy';
+    let amount = Math.abs(delta.netAmount);
+
+    // Shorts are funded from the wallet, so never sell more of the token than it holds
+    if (side === 'sell') {
+      const balance = await this.getBalance(delta.token);
+      if (balance < amount) {
+        logger.warn(`Hedge sell of ${amount.toFixed(6)} ${tokenSymbol(delta.token)} capped at wallet balance ${balance.toFixed(6)}`);
+        amount = Math.max(balance, 0);
+      }
+      if (amount * delta.price < this.config.minTradeValue) return null;
+    }
+    const quoteAmount = amount * delta.price;
+
+    logger.info(`Hedging ${tokenSymbol(delta.token)}: ${side} ${amount.toFixed(6)} (net delta ${delta.netAmount.toFixed(6)})`);
+
+    const result = await this.swapExecutor.executeSwap({
+      strategy: 'market-making-hedge',
+      tokenIn: side === 'sell' ? delta.token : this.config.quoteToken,
+      tokenOut: side === 'sell' ? this.config.quoteToken : delta.token,
+      amountIn: (side === 'sell' ? amount : quoteAmount).toString(),
+      slippageTolerance: this.config.slippageTolerance,
+      userAddress: this.userAddress
+    });
+
+    if (!result.success) {
+      logger.warn(`Hedge swap for ${tokenSymbol(delta.token)} failed: ${result.error || 'unknown error'}`);
+      return null;
+    }
+
+    const amountOut = realizedAmountOut(result.amountOut, side === 'sell' ? quoteAmount : amount);
+    const trade: HedgeTrade = {
+      token: delta.token,
+      side,
+      amount: side === 'sell' ? amount : amountOut,
+      quoteAmount: side === 'sell' ? amountOut : quoteAmount,
+      price: delta.price,
+      transactionId: result.transactionId,
+      timestamp: Date.now()
+    };
+
+    const book = this.getBook(delta.token);
+    book.inventory += side === 'sell' ? -trade.amount : trade.amount;
+    book.quoteBalance += side === 'sell' ? trade.quoteAmount : -trade.quoteAmount;
+    book.trades.push(trade);
+    this.persist(delta.token);
+
+    return trade;
+  }
+
+  private async getPrice(token: string): Promise<number> {
+    try {
+      const quote = await this.quoteWrapper.quoteExactInput(token, this.config.quoteToken, 1);
+      return safeParseFloat(quote?.outTokenAmount, 0);
+    } catch (error) {
+      logger.warn(`Failed to price ${tokenSymbol(token)} for hedging:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Queue a snapshot of a token's book; writes are serialized so they land in order
+   */
+  private persist(token: string): void {
+    const repository = this.repository;
+    const book = this.books.get(token);
+    if (!repository || !book) return;
+
+    const record = Object.assign(new HedgeBookRecord(), {
+      walletAddress: this.userAddress,
+      token,
+      inventory: String(book.inventory),
+      quoteBalance: String(book.quoteBalance),
+      lastPrice: String(book.lastPrice),
+      trades: book.trades.slice(-MAX_STORED_TRADES)
+    });
+
+    this.writeQueue = this.writeQueue
+      .then(async () => { await repository.save(record); })
+      .catch(error => logger.error(`Failed to persist hedge book for ${tokenSymbol(token)}:`, error));
+  }
+
+  private getBook(token: string): HedgeBook {
+    let book = this.books.get(token);
+    if (!book) {
+      book = { inventory: 0, quoteBalance: 0, lastPrice: 0, trades: [] };
+      this.books.set(token, book);
+    }
+    return book;
+  }
+}
+
+async function defaultBalance(walletAddress: string, token: string): Promise<number> {
+  const { getWalletBalance } = await import('../utils/wallet-balance');
+  return getWalletBalance(walletAddress, token.split(/[|$]/)[0]);
+}
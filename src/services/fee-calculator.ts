@@ -25,6 +25,15 @@ export interface FeeSnapshot {
   feeYield: number; // Daily yield percentage
 }
 
+export interface CompoundingEvent {
+  positionId: string;
+  timestamp: number;
+  amount0: string; // Fee tokens added back to the position, after the rebalancing swap
+  amount1: string;
+  valueUSD: number;
+  gasCostUSD: number;
+}
+
 export interface FeeAnalytics {
   positionId: string;
   totalFeesToken0: string;
@@ -38,6 +47,11 @@ export interface FeeAnalytics {
   optimalCollectionThreshold: number;
   nextCollectionRecommendation: Date | null;
   compoundingEffect: number;
+  compoundedFeesToken0: string; // Fees reinvested into the position by auto-compounding
+  compoundedFeesToken1: string;
+  compoundedFeesUSD: number;
+  compoundCount: number;
+  compoundedAPY: number; // annualizedAPR (simple) compounded at the observed auto-compound frequency
 }
 
 export interface PoolFeeMetrics {
@@ -100,6 +114,7 @@ export interface GlobalFeeMetrics {
 export class FeeCalculator {
   private positionRepo: Repository<Position> | null = null;
   private feeSnapshots: Map<string, FeeSnapshot[]> = new Map();
+  private compoundingEvents: Map<string, CompoundingEvent[]> = new Map();
   private priceCache: Map<string, { price: number; timestamp: number }> = new Map();
   private readonly maxSnapshotsPerPosition = 10000;
   private readonly priceValidityMs = 60000; // 1 minute
@@ -172,6 +187,33 @@ export class FeeCalculator {
     }
   }
 
+  /**
+   * Record fees collected and added back to a position
+   */
+  recordCompounding(event: CompoundingEvent): void {
+    const events = this.compoundingEvents.get(event.positionId) || [];
+    events.push(event);
+
+    // Maintain event limit
+    if (events.length > this.maxSnapshotsPerPosition) {
+      events.splice(0, events.length - this.maxSnapshotsPerPosition);
+    }
+
+    this.compoundingEvents.set(event.positionId, events);
+
+    logger.debug(`Compounding recorded for position ${event.positionId}`, {
+      valueUSD: event.valueUSD.toFixed(6),
+      gasCostUSD: event.gasCostUSD.toFixed(6)
+    });
+  }
+
+  /**
+   * Compounding events for a position, oldest first
+   */
+  getCompoundingHistory(positionId: string): CompoundingEvent[] {
+    return [...(this.compoundingEvents.get(positionId) || [])];
+  }
+
   /**
    * Calculate comprehensive fee analytics for a position
    */
@@ -209,6 +251,10 @@ export class FeeCalculator {
       // Calculate compounding effect
       const compoundingEffect = this.calculateCompoundingEffect(snapshots);
 
+      // Auto-compounded fees and the APY they earn over the simple APR
+      const compounded = this.compoundingEvents.get(positionId) || [];
+      const compoundedAPY = this.calculateCompoundedAPY(annualizedAPR, compounded.length, positionAge);
+
       return {
         positionId,
         totalFeesToken0: position.totalFeesCollected0,
@@ -221,7 +267,12 @@ export class FeeCalculator {
         feeYieldHistory: snapshots.slice(-100), // Last 100 snapshots
         optimalCollectionThreshold: optimalThreshold,
         nextCollectionRecommendation: nextCollection,
-        compoundingEffect
+        compoundingEffect,
+        compoundedFeesToken0: compounded.reduce((sum, e) => sum + parseFloat(e.amount0), 0).toString(),
+        compoundedFeesToken1: compounded.reduce((sum, e) => sum + parseFloat(e.amount1), 0).toString(),
+        compoundedFeesUSD: compounded.reduce((sum, e) => sum + e.valueUSD, 0),
+        compoundCount: compounded.length,
+        compoundedAPY
       };
 
     } catch (error) {
@@ -541,6 +592,17 @@ export class FeeCalculator {
     return (totalFeesUSD / initialValueUSD) / yearsElapsed * 100;
   }
 
+  /**
+   * Compound a simple APR at the frequency fees have actually been reinvested: (1 + APR/n)^n - 1
+   */
+  private calculateCompoundedAPY(simpleAPR: number, compoundCount: number, positionAgeMs: number): number {
+    if (compoundCount === 0 || positionAgeMs <= 0) return simpleAPR;
+
+    const yearsElapsed = positionAgeMs / (365 * 24 * 60 * 60 * 1000);
+    const compoundsPerYear = compoundCount / yearsElapsed;
+    return (Math.pow(1 + simpleAPR / 100 / compoundsPerYear, compoundsPerYear) - 1) * 100;
+  }
+
   /**
    * Calculate optimal collection threshold
    */
@@ -0,0 +1,345 @@
+/**
+ * Fee Compounder
+ * Reinvests collected LP fees into the position that earned them
+ *
+ * - A per-position policy decides whether a position compounds; the fees must clear gas by a margin
+ * - Collected fee tokens are swapped into the ratio the position's range holds at the current price
+ * - Liquidity is increased in the same range and the compounded amounts are recorded with FeeCalculator,
+ *   so fee analytics can report compounded APY next to simple APR
+ * - Per-position policy overrides are persisted per wallet, so they survive a restart
+ */
+
+import { Repository } from 'typeorm';
+import { getCompoundPolicyRepository } from '../config/database';
+import { CompoundPolicyRecord } from '../entities/CompoundPolicyRecord';
+import { logger } from '../utils/logger';
+import { QuoteSource, createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
+import { amountsForLiquidity } from '../utils/price-math';
+import { safeParseFloat } from '../utils/safe-parse';
+import { realizedAmountOut } from '../utils/slippage-calculator';
+import { tokenSymbol } from '../utils/token-format';
+import type { SwapExecutor } from '../trading/execution/swap-executor';
+import type { LiquidityManager } from './liquidity-manager';
+import type { FeeCalculator } from './fee-calculator';
+
+export type CompounderLiquidityManager = Pick<LiquidityManager, 'getPosition' | 'collectFees' | 'increaseLiquidity'>;
+
+export type CompoundOperation = 'collectFees' | 'swap' | 'addLiquidity';
+
+export interface CompoundPolicy {
+  enabled: boolean;
+  minNetProfitUSD: number; // Fees left over after gas before compounding is worth it
+  maxGasRatio: number; // Largest share of the fees gas may take, 0-1
+  minSwapFraction: number; // Skip the ratio swap when it would move less than this share of the fees
+  slippageTolerance: number;
+}
+
+export interface CompoundSwap {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+}
+
+export interface CompoundResult {
+  positionId: string;
+  status: 'compounded' | 'collected_only' | 'skipped' | 'failed';
+  reason?: string;
+  collected?: { amount0: string; amount1: string };
+  swap?: { tokenIn: string; tokenOut: string; amountIn: string; amountOut: string; transactionId?: string };
+  added?: { amount0: string; amount1: string };
+  feesUSD: number;
+  gasCostUSD: number;
+  timestamp: number;
+}
+
+const DEFAULT_POLICY: CompoundPolicy = {
+  enabled: false,
+  minNetProfitUSD: 1,
+  maxGasRatio: 0.5,
+  minSwapFraction: 0.01,
+  slippageTolerance: 0.01
+};
+
+const USD_TOKEN = 'GUSDC|Unit|none|none';
+const MAX_HISTORY = 1000;
+
+/**
+ * Swap that brings fee tokens to the ratio a range holds at the current price (token1 per token0),
+ * or null when they already match it to within minSwapFraction of their value
+ */
+export function planCompoundSwap(
+  amount0: number,
+  amount1: number,
+  currentPrice: number,
+  minPrice: number,
+  maxPrice: number,
+  minSwapFraction: number = DEFAULT_POLICY.minSwapFraction
+): { zeroForOne: boolean; amountIn: number } | null {
+  const totalValue = amount0 * currentPrice + amount1; // In token1
+  if (!(totalValue > 0) || !(currentPrice > 0) || !(maxPrice > minPrice)) return null;
+
+  // Value split of one unit of liquidity: all token0 below the range, all token1 above it
+  const unit = amountsForLiquidity(Math.sqrt(currentPrice), Math.sqrt(minPrice), Math.sqrt(maxPrice), 1);
+  const share1 = unit.amount1 / (unit.amount0 * currentPrice + unit.amount1);
+  const excess1 = amount1 - totalValue * share1;
+
+  if (Math.abs(excess1) < minSwapFraction * totalValue) return null;
+
+  return excess1 > 0
+    ? { zeroForOne: false, amountIn: excess1 }
+    : { zeroForOne: true, amountIn: -excess1 / currentPrice };
+}
+
+export class FeeCompounder {
+  private defaultPolicy: CompoundPolicy;
+  private policies: Map<string, Partial<CompoundPolicy>> = new Map();
+  private repository: Repository<CompoundPolicyRecord> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private history: CompoundResult[] = [];
+  private quoteWrapper: QuoteSource;
+
+  constructor(
+    private readonly liquidityManager: CompounderLiquidityManager,
+    private readonly swapExecutor: Pick<SwapExecutor, 'executeSwap'>,
+    private readonly feeCalculator: Pick<FeeCalculator, 'recordCompounding'>,
+    private readonly userAddress: string,
+    defaultPolicy: Partial<CompoundPolicy> = {},
+    private readonly estimateGasUSD: (operation: CompoundOperation) => Promise<number> = defaultGasEstimate,
+    sources: RuntimeSources = {}
+  ) {
+    this.defaultPolicy = { ...DEFAULT_POLICY, ...defaultPolicy };
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+  }
+
+  /**
+   * Attach the database and load this wallet's policy overrides. Overrides set before this
+   * are kept over the stored ones and written back.
+   */
+  async open(): Promise<void> {
+    if (this.repository) return;
+
+    this.repository = await getCompoundPolicyRepository();
+    const records = await this.repository.find({ where: { walletAddress: this.userAddress } });
+
+    for (const record of records) {
+      if (!this.policies.has(record.positionId)) {
+        this.policies.set(record.positionId, record.policy ?? {});
+      }
+    }
+
+    const loaded = new Set(records.map(record => record.positionId));
+    for (const positionId of this.policies.keys()) {
+      if (!loaded.has(positionId)) this.persist(positionId);
+    }
+
+    if (records.length > 0) {
+      logger.info(`Restored ${records.length} compound polic${records.length === 1 ? 'y' : 'ies'} for ${this.userAddress}`);
+    }
+  }
+
+  /**
+   * Wait for queued writes to land
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Override the default policy for one position
+   */
+  setPolicy(positionId: string, policy: Partial<CompoundPolicy>): CompoundPolicy {
+    this.policies.set(positionId, { ...this.policies.get(positionId), ...policy });
+    this.persist(positionId);
+    return this.getPolicy(positionId);
+  }
+
+  /**
+   * Drop a position's overrides so it follows the default policy again
+   */
+  clearPolicy(positionId: string): void {
+    this.policies.delete(positionId);
+    this.persist(positionId);
+  }
+
+  getPolicy(positionId: string): CompoundPolicy {
+    return { ...this.defaultPolicy, ...this.policies.get(positionId) };
+  }
+
+  isEnabled(positionId: string): boolean {
+    return this.getPolicy(positionId).enabled;
+  }
+
+  /**
+   * Collect a position's fees, swap them to the position's ratio and add them back to its range
+   */
+  async compound(positionId: string): Promise<CompoundResult> {
+    const policy = this.getPolicy(positionId);
+    if (!policy.enabled) {
+      return this.finish(positionId, 'skipped', { reason: 'Auto-compounding disabled for this position' });
+    }
+
+    const position = this.liquidityManager.getPosition(positionId);
+    if (!position) {
+      return this.finish(positionId, 'failed', { reason: `Position not found: ${positionId}` });
+    }
+
+    try {
+      const currentPrice = await this.getPrice(position.token0, position.token1);
+      const token1USD = await this.getUSDPrice(position.token1);
+      if (!(currentPrice > 0) || !(token1USD > 0)) {
+        return this.finish(positionId, 'skipped', { reason: 'Position tokens cannot be priced right now' });
+      }
+      const token0USD = currentPrice * token1USD;
+
+      // Check collection pays for itself, counting a ratio swap as it usually is needed
+      const feesUSD = safeParseFloat(position.uncollectedFees0, 0) * token0USD + safeParseFloat(position.uncollectedFees1, 0) * token1USD;
+      const [collectGas, swapGas, addGas] = await Promise.all([
+        this.estimateGasUSD('collectFees'), this.estimateGasUSD('swap'), this.estimateGasUSD('addLiquidity')
+      ]);
+      const estimatedGas = collectGas + swapGas + addGas;
+
+      if (feesUSD - estimatedGas < policy.minNetProfitUSD || estimatedGas > policy.maxGasRatio * feesUSD) {
+        return this.finish(positionId, 'skipped', {
+          reason: `Fees $${feesUSD.toFixed(2)} do not cover gas $${estimatedGas.toFixed(2)} by the policy margin`,
+          feesUSD,
+          gasCostUSD: 0
+        });
+      }
+
+      const collected = await this.liquidityManager.collectFees({ positionId });
+      let amount0 = safeParseFloat(collected.amount0, 0);
+      let amount1 = safeParseFloat(collected.amount1, 0);
+      let gasCostUSD = collectGas;
+
+      if (amount0 <= 0 && amount1 <= 0) {
+        return this.finish(positionId, 'skipped', { reason: 'No fees collected', collected, feesUSD, gasCostUSD });
+      }
+
+      const plan = planCompoundSwap(amount0, amount1, currentPrice, position.minPrice, position.maxPrice, policy.minSwapFraction);
+      let swap: CompoundResult['swap'];
+
+      if (plan) {
+        const tokenIn = plan.zeroForOne ? position.token0 : position.token1;
+        const tokenOut = plan.zeroForOne ? position.token1 : position.token0;
+        const result = await this.swapExecutor.executeSwap({
+          strategy: 'fee-compounding',
+          tokenIn,
+          tokenOut,
+          amountIn: plan.amountIn.toString(),
+          slippageTolerance: policy.slippageTolerance,
+          userAddress: this.userAddress
+        });
+
+        if (!result.success) {
+          // The collected fees stay in the wallet, as they would without compounding
+          return this.finish(positionId, 'collected_only', {
+            reason: `Ratio swap failed: ${result.error || 'unknown error'}`, collected, feesUSD, gasCostUSD
+          });
+        }
+
+        const expectedOut = plan.zeroForOne ? plan.amountIn * currentPrice : plan.amountIn / currentPrice;
+        const amountOut = realizedAmountOut(result.amountOut, expectedOut);
+        amount0 += plan.zeroForOne ? -plan.amountIn : amountOut;
+        amount1 += plan.zeroForOne ? amountOut : -plan.amountIn;
+        gasCostUSD += swapGas;
+        swap = { tokenIn, tokenOut, amountIn: plan.amountIn.toString(), amountOut: amountOut.toString(), transactionId: result.transactionId };
+      }
+
+      let added: { amount0: string; amount1: string };
+      try {
+        added = await this.liquidityManager.increaseLiquidity({
+          positionId,
+          amount0Desired: Math.max(amount0, 0).toString(),
+          amount1Desired: Math.max(amount1, 0).toString(),
+          slippageTolerance: policy.slippageTolerance
+        });
+      } catch (error) {
+        return this.finish(positionId, 'collected_only', {
+          reason: `Increase liquidity failed: ${error instanceof Error ? error.message : String(error)}`,
+          collected, swap, feesUSD, gasCostUSD
+        });
+      }
+      gasCostUSD += addGas;
+
+      this.feeCalculator.recordCompounding({
+        positionId,
+        timestamp: Date.now(),
+        amount0: added.amount0,
+        amount1: added.amount1,
+        valueUSD: safeParseFloat(added.amount0, 0) * token0USD + safeParseFloat(added.amount1, 0) * token1USD,
+        gasCostUSD
+      });
+
+      logger.info(`✅ Fees compounded into ${positionId}`, { amount0: added.amount0, amount1: added.amount1, gasCostUSD: gasCostUSD.toFixed(2) });
+      return this.finish(positionId, 'compounded', { collected, swap, added, feesUSD, gasCostUSD });
+
+    } catch (error) {
+      logger.error(`Failed to compound fees for ${positionId}:`, error);
+      return this.finish(positionId, 'failed', { reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Compounding attempts, oldest first
+   */
+  getHistory(positionId?: string): CompoundResult[] {
+    return positionId ? this.history.filter(result => result.positionId === positionId) : [...this.history];
+  }
+
+  /**
+   * Queue a write of a position's overrides, or their removal; writes are serialized so they land in order
+   */
+  private persist(positionId: string): void {
+    const repository = this.repository;
+    if (!repository) return;
+
+    const policy = this.policies.get(positionId);
+    const walletAddress = this.userAddress;
+    const write = policy
+      ? async () => { await repository.save(Object.assign(new CompoundPolicyRecord(), { walletAddress, positionId, policy })); }
+      : async () => { await repository.delete({ walletAddress, positionId }); };
+
+    this.writeQueue = this.writeQueue
+      .then(write)
+      .catch(error => logger.error(`Failed to persist compound policy for ${positionId}:`, error));
+  }
+
+  private finish(
+    positionId: string,
+    status: CompoundResult['status'],
+    details: Partial<Omit<CompoundResult, 'positionId' | 'status' | 'timestamp'>>
+  ): CompoundResult {
+    const result: CompoundResult = { positionId, status, feesUSD: 0, gasCostUSD: 0, ...details, timestamp: Date.now() };
+
+    this.history.push(result);
+    if (this.history.length > MAX_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_HISTORY);
+    }
+
+    if (status !== 'compounded') {
+      logger.debug(`Fee compounding ${status} for ${positionId}: ${result.reason}`);
+    }
+    return result;
+  }
+
+  private async getPrice(tokenIn: string, tokenOut: string): Promise<number> {
+    try {
+      const quote = await this.quoteWrapper.quoteExactInput(tokenIn, tokenOut, 1);
+      return safeParseFloat(quote?.outTokenAmount, 0);
+    } catch (error) {
+      logger.warn(`Failed to price ${tokenIn} in ${tokenOut} for compounding:`, error);
+      return 0;
+    }
+  }
+
+  private async getUSDPrice(token: string): Promise<number> {
+    return tokenSymbol(token) === tokenSymbol(USD_TOKEN) ? 1 : this.getPrice(token, USD_TOKEN);
+  }
+}
+
+async function defaultGasEstimate(operation: CompoundOperation): Promise<number> {
+  const { GasEstimator } = await import('../utils/gas-estimator');
+  const estimate = await GasEstimator.estimateGas({ operation, complexity: 'simple', urgency: 'low' });
+  return estimate.totalCostUSD;
+}
@@ -10,16 +10,18 @@ import { QuoteResult } from '../utils/quote-api';
 import { TRADING_CONSTANTS } from '../config/constants';
 import { safeParseFloat } from '../utils/safe-parse';
 import { createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
 import BigNumber from 'bignumber.js';
 import { randomBytes } from 'crypto';
 import { promisify } from 'util';
 import { InputValidator } from '../utils/validation';
+import type { TaxLedger } from '../trading/accounting/tax-lots';
 
 // Type for blockchain position data
 type BlockchainPosition = {
   id?: string; // Blockchain position ID
   positionId?: string; // Alternative position ID
-  tokenId: string;
+  tokenId?: string;
   token0: string;
   token1: string;
   fee: number;
@@ -31,10 +33,20 @@ type BlockchainPosition = {
   fees0?: string;
   fees1?: string;
   tokensOwed0?: string;
-  tokensOwed1?: string
+  tokensOwed1?: string;
+  inRange?: boolean
 };
 import { GasEstimator, GasEstimationOptions } from '../utils/gas-estimator';
 
+// Completed addLiquidityByTicks transaction, as far as increaseLiquidity reads it
+type IncreaseLiquidityReceipt = {
+  txId?: string;
+  Data?: {
+    liquidity?: string | number;
+    amounts?: Array<string | number>;
+  };
+};
+
 const randomBytesAsync = promisify(randomBytes);
 
 export interface LiquidityPosition {
@@ -67,6 +79,13 @@ export interface AddLiquidityParams {
   slippageTolerance?: number;
 }
 
+export interface IncreaseLiquidityParams {
+  positionId: string;
+  amount0Desired: string;
+  amount1Desired: string;
+  slippageTolerance?: number;
+}
+
 export interface RemoveLiquidityParams {
   positionId: string;
   liquidity: string;
@@ -108,14 +127,15 @@ export class LiquidityManager {
   private readonly walletAddress: string;
   private readonly defaultSlippage: number;
   private instanceCounter: number = 0;
+  private taxLedger: TaxLedger | null = null;
 
-  constructor(gswap: GSwap, walletAddress: string) {
+  constructor(gswap: GSwap, walletAddress: string, sources: RuntimeSources = {}) {
     this.gswap = gswap;
     this.walletAddress = walletAddress;
     this.defaultSlippage = TRADING_CONSTANTS.DEFAULT_SLIPPAGE_TOLERANCE;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     logger.info('LiquidityManager initialized');
   }
@@ -201,6 +221,7 @@ export class LiquidityManager {
       };
 
       this.positions.set(positionId, position);
+      this.recordLiquidityEvent('add', position, position.amount0, position.amount1);
 
       logger.info(`✅ Liquidity added successfully: ${positionId}`, {
         amount0: result.amount0,
@@ -283,6 +304,7 @@ export class LiquidityManager {
       };
 
       this.positions.set(positionId, position);
+      this.recordLiquidityEvent('add', position, position.amount0, position.amount1);
 
       logger.info(`✅ Liquidity added by ticks: ${positionId}`, {
         tickLower,
@@ -298,6 +320,94 @@ export class LiquidityManager {
     }
   }
 
+  /**
+   * Add tokens to an existing position, keeping its price range
+   */
+  async increaseLiquidity(params: IncreaseLiquidityParams): Promise<{ liquidity: string; amount0: string; amount1: string }> {
+    try {
+      const position = this.positions.get(params.positionId);
+      if (!position) {
+        throw new Error(`Position not found: ${params.positionId}`);
+      }
+
+      const amount0BN = new BigNumber(params.amount0Desired);
+      const amount1BN = new BigNumber(params.amount1Desired);
+      if (amount0BN.isNaN() || amount1BN.isNaN() || amount0BN.lt(0) || amount1BN.lt(0) || (amount0BN.isZero() && amount1BN.isZero())) {
+        throw new Error(`Invalid amounts: ${params.amount0Desired}, ${params.amount1Desired}`);
+      }
+
+      logger.info('Increasing liquidity', {
+        positionId: params.positionId,
+        amount0Desired: params.amount0Desired,
+        amount1Desired: params.amount1Desired
+      });
+
+      const slippage = params.slippageTolerance || this.defaultSlippage;
+      const oneMinusSlippage = new BigNumber(1).minus(slippage);
+
+      // Estimate gas cost for the addition
+      const gasEstimate = await this.estimateOperationGas('addLiquidity', 'medium');
+      logger.debug('Gas estimate for increase liquidity', {
+        gasLimit: gasEstimate.gasLimit,
+        totalCostUSD: gasEstimate.totalCostUSD
+      });
+
+      // Passing the existing position id adds to that position instead of minting a new one
+      const pending = await this.gswap.positions.addLiquidityByTicks({
+        walletAddress: this.walletAddress,
+        positionId: params.positionId,
+        token0: position.token0,
+        token1: position.token1,
+        fee: position.fee,
+        tickLower: position.tickLower,
+        tickUpper: position.tickUpper,
+        amount0Desired: params.amount0Desired,
+        amount1Desired: params.amount1Desired,
+        amount0Min: amount0BN.times(oneMinusSlippage).toFixed(),
+        amount1Min: amount1BN.times(oneMinusSlippage).toFixed()
+      });
+      const receipt: IncreaseLiquidityReceipt | undefined = await pending?.wait();
+
+      // Validate result before proceeding
+      if (!receipt) {
+        throw new Error('Failed to increase liquidity: API returned no result');
+      }
+
+      // The chain reports the amounts it actually pulled; the desired amounts are the upper bound
+      const result = {
+        liquidity: receipt.Data?.liquidity?.toString() || '0',
+        amount0: receipt.Data?.amounts?.[0]?.toString() || params.amount0Desired,
+        amount1: receipt.Data?.amounts?.[1]?.toString() || params.amount1Desired
+      };
+
+      this.recordLiquidityEvent('add', position, result.amount0 || '0', result.amount1 || '0');
+
+      // Update position liquidity and amounts
+      position.liquidity = new BigNumber(position.liquidity).plus(result.liquidity || '0').toString();
+      position.amount0 = new BigNumber(position.amount0).plus(result.amount0 || '0').toString();
+      position.amount1 = new BigNumber(position.amount1).plus(result.amount1 || '0').toString();
+      position.lastUpdate = Date.now();
+      this.positions.set(params.positionId, position);
+
+      logger.info(`✅ Liquidity increased: ${params.positionId}`, {
+        amount0: result.amount0,
+        amount1: result.amount1,
+        liquidity: position.liquidity,
+        transactionId: receipt.txId
+      });
+
+      return {
+        liquidity: result.liquidity || '0',
+        amount0: result.amount0 || '0',
+        amount1: result.amount1 || '0'
+      };
+
+    } catch (error) {
+      logger.error('Failed to increase liquidity:', error);
+      throw error;
+    }
+  }
+
   /**
    * Remove liquidity from a position
    */
@@ -341,6 +451,9 @@ export class LiquidityManager {
         throw new Error('Failed to remove liquidity: API returned no result');
       }
 
+      this.recordLiquidityEvent('remove', position, result.amount0 || '0', result.amount1 || '0',
+        liquidityBN.div(position.liquidity).toNumber());
+
       // Update position liquidity
       const newLiquidity = new BigNumber(position.liquidity).minus(params.liquidity).toString();
       position.liquidity = newLiquidity;
@@ -407,6 +520,8 @@ export class LiquidityManager {
         throw new Error('Failed to collect fees: API returned no result');
       }
 
+      this.recordLiquidityEvent('fees', position, result.amount0 || '0', result.amount1 || '0');
+
       // Reset collected fees
       position.uncollectedFees0 = '0';
       position.uncollectedFees1 = '0';
@@ -646,6 +761,39 @@ export class LiquidityManager {
     return this.positions.get(positionId) || null;
   }
 
+  /**
+   * Record liquidity adds, removes and fee collections in a cost-basis ledger
+   */
+  setTaxLedger(ledger: TaxLedger | null): void {
+    this.taxLedger = ledger;
+  }
+
+  /**
+   * Cache a position read from chain, refreshing the cached copy when it is already known
+   */
+  syncChainPosition(blockchainPosition: BlockchainPosition): LiquidityPosition {
+    const positionId = this.generateDeterministicPositionId(blockchainPosition);
+    const existing = this.positions.get(positionId);
+    if (existing) {
+      this.updateLocalPositionFromBlockchain(existing, blockchainPosition);
+      return existing;
+    }
+
+    const position = this.createLocalPositionFromBlockchain(blockchainPosition, positionId);
+    position.minPrice = this.tickToPrice(position.tickLower);
+    position.maxPrice = this.tickToPrice(position.tickUpper);
+    position.inRange = blockchainPosition.inRange ?? position.inRange;
+    this.positions.set(positionId, position);
+    return position;
+  }
+
+  /**
+   * Drop a cached position that no longer exists on chain
+   */
+  removeCachedPosition(positionId: string): boolean {
+    return this.positions.delete(positionId);
+  }
+
   /**
    * Calculate optimal position size for capital efficiency
    */
@@ -858,6 +1006,33 @@ export class LiquidityManager {
     };
   }
 
+  /**
+   * Ledger entry for a liquidity operation on a position
+   */
+  private recordLiquidityEvent(
+    kind: 'add' | 'remove' | 'fees',
+    position: LiquidityPosition,
+    amount0: string,
+    amount1: string,
+    liquidityFraction?: number
+  ): void {
+    if (!this.taxLedger) return;
+
+    const input = {
+      positionId: position.id,
+      tokens: [
+        { token: position.token0, amount: safeParseFloat(amount0, 0) },
+        { token: position.token1, amount: safeParseFloat(amount1, 0) }
+      ],
+      walletAddress: this.walletAddress,
+      liquidityFraction
+    };
+
+    if (kind === 'add') this.taxLedger.recordLiquidityAdd(input);
+    else if (kind === 'remove') this.taxLedger.recordLiquidityRemove(input);
+    else this.taxLedger.recordFeeCollection(input);
+  }
+
   // ============================================
   // CRITICAL FIX: Position ID Management Methods
   // ============================================
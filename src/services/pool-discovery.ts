@@ -1,6 +1,10 @@
 import { logger } from '../utils/logger';
 import { ENV } from '../config/environment';
 import { createPoolDetailClient, PoolDetailClient } from '../api/pool-detail-client';
+import { ArbitrageCycle, ArbitrageGraph, CycleSearchOptions } from './arbitrage-graph';
+import { safeParseFloat } from '../utils/safe-parse';
+import type { GalaSwapWebSocketClient } from '../api/websocket-client';
+import type { PoolUpdateEvent } from '../types/galaswap';
 
 export interface PoolData {
   poolPair: string;
@@ -43,12 +47,22 @@ export interface TriangularPath {
   avgFee: number;
 }
 
+/**
+ * Fee tier of a pool in SDK units (hundredths of a basis point, e.g. 3000); the explore API reports percent ("0.3")
+ */
+export function poolFeeTier(pool: Pick<PoolData, 'fee'>): number {
+  const percent = parseFloat(pool.fee);
+  return isFinite(percent) ? Math.round(percent * 10000) : 0;
+}
+
 export class PoolDiscoveryService {
   private pools: PoolData[] = [];
   private lastUpdate: number = 0;
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
   private readonly baseUrl: string;
   private readonly poolDetailClient: PoolDetailClient;
+  private readonly arbitrageGraph = new ArbitrageGraph();
+  private realtimeFeed: Pick<GalaSwapWebSocketClient, 'on' | 'subscribePools'> | null = null;
 
   constructor() {
     // ✅ FIX: Use lazy-loaded ENV instead of calling validateEnvironment() again
@@ -186,6 +200,8 @@ export class PoolDiscoveryService {
 
       this.pools = enhancedPools;
       this.lastUpdate = now;
+      this.arbitrageGraph.loadPools(enhancedPools);
+      this.realtimeFeed?.subscribePools(enhancedPools.map(pool => pool.poolHash));
 
       logger.info(`✅ Successfully fetched ${allPools.length} total pools with enhanced details`);
       this.logPoolSummary();
@@ -370,6 +386,50 @@ export class PoolDiscoveryService {
     return paths.sort((a, b) => b.totalTvl - a.totalTvl);
   }
 
+  /**
+   * Find profitable cycles of any length up to `maxHops` across all cached pools and fee tiers.
+   * Repeated calls only search again from tokens whose pool prices changed since the last call.
+   */
+  findArbitrageCycles(options: CycleSearchOptions = {}): ArbitrageCycle[] {
+    return this.arbitrageGraph.findCycles(options);
+  }
+
+  /**
+   * Apply a live price update to a cached pool and its arbitrage graph edges
+   */
+  updatePoolPrices(poolHash: string, token0Price: number, token1Price: number): boolean {
+    const pool = this.pools.find(p => p.poolHash === poolHash);
+    if (!pool) return false;
+
+    pool.token0Price = token0Price.toString();
+    pool.token1Price = token1Price.toString();
+    return this.arbitrageGraph.updatePool(pool);
+  }
+
+  /**
+   * Keep cached pool prices, and so the arbitrage graph, live from the feed's pool updates.
+   * The cache is shared, so the first feed attached is the one used.
+   */
+  attachRealtimeFeed(feed: Pick<GalaSwapWebSocketClient, 'on' | 'subscribePools'>): void {
+    if (this.realtimeFeed) return;
+
+    this.realtimeFeed = feed;
+    feed.on('pool_update', this.onFeedPoolUpdate);
+    feed.subscribePools(this.pools.map(pool => pool.poolHash));
+  }
+
+  private onFeedPoolUpdate = (event: PoolUpdateEvent): void => {
+    const token0Price = safeParseFloat(event.data?.token0Price, 0);
+    const token1Price = safeParseFloat(event.data?.token1Price, 0);
+    if (token0Price > 0 && token1Price > 0 && isFinite(token0Price) && isFinite(token1Price)) {
+      this.updatePoolPrices(event.data.poolHash, token0Price, token1Price);
+    }
+  };
+
+  getArbitrageGraph(): ArbitrageGraph {
+    return this.arbitrageGraph;
+  }
+
   /**
    * Find the best pool for a token pair (highest TVL)
    */
@@ -486,6 +546,16 @@ export class PoolDiscoveryService {
     return this.pools;
   }
 
+  /**
+   * Replace the cached pools with a known snapshot (e.g. replay backtests)
+   */
+  loadPools(pools: PoolData[]): void {
+    this.pools = pools;
+    this.lastUpdate = Date.now();
+    this.arbitrageGraph.loadPools(pools);
+    logger.info(`📊 Loaded ${pools.length} pools from snapshot`);
+  }
+
   /**
    * Get spot prices from enhanced pool data (avoids separate API calls)
    */
@@ -0,0 +1,13 @@
+/**
+ * Pool Source
+ * Default pool loader for services that take one: the pool discovery cache, fetched when empty.
+ * Pool discovery is imported on first use so those services do not load it until they need pools.
+ */
+
+import type { PoolData } from './pool-discovery';
+
+export async function defaultPoolSource(): Promise<PoolData[]> {
+  const { poolDiscovery } = await import('./pool-discovery');
+  const cached = poolDiscovery.getCachedPools();
+  return cached.length > 0 ? cached : poolDiscovery.fetchAllPools();
+}
@@ -0,0 +1,418 @@
+/**
+ * Position Restructurer
+ * Splits one liquidity position into several weighted ranges and merges adjacent positions into one
+ *
+ * Both run as multi-step operations on top of LiquidityManager primitives
+ * (collect fees, remove liquidity, add liquidity). When a step fails part way through,
+ * the steps already taken are undone so the original positions are restored.
+ */
+
+import { logger } from '../utils/logger';
+import { safeParseFloat } from '../utils/safe-parse';
+import type { LiquidityManager, LiquidityPosition } from './liquidity-manager';
+
+export type RestructureLiquidityManager = Pick<LiquidityManager, 'getPosition' | 'collectFees' | 'removeLiquidity' | 'addLiquidityByPrice'>;
+
+export type RestructureOperation = 'addLiquidity' | 'removeLiquidity' | 'collectFees';
+
+export interface SplitRange {
+  min: number;
+  max: number;
+  allocation: number; // Share of the position's tokens, 0-1; all ranges together must add up to 1
+}
+
+export interface SplitLadder {
+  rungs: number;
+  weighting?: 'uniform' | 'center';
+  minPrice?: number; // Defaults to the lower bound of the position being split
+  maxPrice?: number; // Defaults to the upper bound of the position being split
+  slippageTolerance?: number;
+}
+
+export interface MergeOptions {
+  newMinPrice?: number; // Defaults to the lowest bound of the merged positions
+  newMaxPrice?: number; // Defaults to the highest bound of the merged positions
+  maxGap?: number; // Largest relative gap allowed between neighbouring ranges
+  slippageTolerance?: number;
+}
+
+export interface RestructureStep {
+  type: 'collect' | 'remove' | 'add' | 'rollback_remove' | 'rollback_add';
+  positionId: string;
+  success: boolean;
+  amount0?: string;
+  amount1?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface RestructureResult {
+  operation: 'split' | 'merge';
+  sourcePositionIds: string[];
+  createdPositionIds: string[];
+  steps: RestructureStep[];
+  gasCostUSD: number; // Estimated gas of the steps taken
+}
+
+export class RestructureError extends Error {
+  constructor(
+    message: string,
+    public readonly operation: 'split' | 'merge',
+    public readonly steps: RestructureStep[],
+    public readonly rolledBack: boolean, // False when no step had run yet, or when undoing them failed
+    public readonly restoredPositionIds: string[] = [],
+    public readonly gasCostUSD: number = 0
+  ) {
+    super(message);
+    this.name = 'RestructureError';
+  }
+}
+
+interface RemovedPosition {
+  position: LiquidityPosition;
+  amount0: number;
+  amount1: number;
+}
+
+const ALLOCATION_TOLERANCE = 1e-6;
+const DEFAULT_MAX_GAP = 0.01;
+
+export class PositionRestructurer {
+  constructor(
+    private readonly liquidityManager: RestructureLiquidityManager,
+    private readonly estimateGasUSD: (operation: RestructureOperation) => Promise<number> = defaultGasEstimate
+  ) {}
+
+  /**
+   * Gas for splitting a position: fee collection, one removal and one addition per range
+   */
+  async estimateSplitCost(positionId: string, ranges: SplitRange[]): Promise<number> {
+    const position = this.requirePosition(positionId, 'split');
+    return this.estimateSteps([
+      ...(hasFees(position) ? ['collectFees' as const] : []),
+      'removeLiquidity',
+      ...ranges.map(() => 'addLiquidity' as const)
+    ]);
+  }
+
+  /**
+   * Gas for merging positions: fee collection and removal for each, then one addition
+   */
+  async estimateMergeCost(positionIds: string[]): Promise<number> {
+    const positions = positionIds.map(id => this.requirePosition(id, 'merge'));
+    return this.estimateSteps([
+      ...positions.filter(hasFees).map(() => 'collectFees' as const),
+      ...positions.map(() => 'removeLiquidity' as const),
+      'addLiquidity'
+    ]);
+  }
+
+  /**
+   * Withdraw a position and redeploy its tokens across the given ranges by allocation
+   */
+  async split(positionId: string, ranges: SplitRange[], slippageTolerance?: number): Promise<RestructureResult> {
+    const position = this.requirePosition(positionId, 'split');
+    validateSplitRanges(ranges);
+
+    const steps: RestructureStep[] = [];
+    let removed: RemovedPosition;
+    try {
+      removed = await this.withdraw(position, steps, 'split', slippageTolerance);
+    } catch (error) {
+      throw await this.failure('split', `Failed to split ${positionId}: ${errorMessage(error)}`, steps, false, []);
+    }
+
+    const created: string[] = [];
+    try {
+      for (const range of ranges) {
+        created.push(await this.deposit(position, range.min, range.max, removed.amount0 * range.allocation, removed.amount1 * range.allocation, steps, slippageTolerance));
+      }
+    } catch (error) {
+      // Pull the ranges created so far and put the tokens back into the original range
+      const undone = await this.undoDeposits(created, steps);
+      const restored = undone ? await this.restore([removed], steps, slippageTolerance) : [];
+      throw await this.failure('split', `Failed to split ${positionId}: ${errorMessage(error)}`, steps, undone && restored.length === 1, restored);
+    }
+
+    logger.info(`✅ Position split: ${positionId} → ${created.join(', ')}`);
+    return { operation: 'split', sourcePositionIds: [positionId], createdPositionIds: created, steps, gasCostUSD: await this.stepsGas(steps) };
+  }
+
+  /**
+   * Withdraw adjacent positions on the same pool and redeploy their combined tokens as one range
+   */
+  async merge(positionIds: string[], options: MergeOptions = {}): Promise<RestructureResult> {
+    const positions = [...new Set(positionIds)].map(id => this.requirePosition(id, 'merge'));
+    validateMerge(positions, options.maxGap ?? DEFAULT_MAX_GAP);
+
+    const steps: RestructureStep[] = [];
+    const removed: RemovedPosition[] = [];
+    try {
+      for (const position of positions) {
+        removed.push(await this.withdraw(position, steps, 'merge', options.slippageTolerance));
+      }
+    } catch (error) {
+      const restored = await this.restore(removed, steps, options.slippageTolerance);
+      throw await this.failure('merge', `Failed to merge ${positionIds.join(', ')}: ${errorMessage(error)}`, steps, restored.length === removed.length && removed.length > 0, restored);
+    }
+
+    const first = positions[0];
+    const minPrice = options.newMinPrice ?? Math.min(...positions.map(p => p.minPrice));
+    const maxPrice = options.newMaxPrice ?? Math.max(...positions.map(p => p.maxPrice));
+    const amount0 = removed.reduce((sum, r) => sum + r.amount0, 0);
+    const amount1 = removed.reduce((sum, r) => sum + r.amount1, 0);
+
+    let merged: string;
+    try {
+      merged = await this.deposit(first, minPrice, maxPrice, amount0, amount1, steps, options.slippageTolerance);
+    } catch (error) {
+      const restored = await this.restore(removed, steps, options.slippageTolerance);
+      throw await this.failure('merge', `Failed to merge ${positionIds.join(', ')}: ${errorMessage(error)}`, steps, restored.length === removed.length, restored);
+    }
+
+    logger.info(`✅ Positions merged: ${positions.map(p => p.id).join(', ')} → ${merged}`);
+    return { operation: 'merge', sourcePositionIds: positions.map(p => p.id), createdPositionIds: [merged], steps, gasCostUSD: await this.stepsGas(steps) };
+  }
+
+  /**
+   * Collect fees and remove all liquidity from a position
+   */
+  private async withdraw(
+    position: LiquidityPosition,
+    steps: RestructureStep[],
+    operation: 'split' | 'merge',
+    slippageTolerance?: number
+  ): Promise<RemovedPosition> {
+    let current: 'collect' | 'remove' = 'collect';
+    try {
+      if (hasFees(position)) {
+        const fees = await this.liquidityManager.collectFees({ positionId: position.id });
+        steps.push(step('collect', position.id, true, fees));
+      }
+
+      current = 'remove';
+      const amounts = await this.liquidityManager.removeLiquidity({
+        positionId: position.id,
+        liquidity: position.liquidity,
+        slippageTolerance
+      });
+      const amount0 = safeParseFloat(amounts.amount0, 0);
+      const amount1 = safeParseFloat(amounts.amount1, 0);
+      // Redeploying nothing would open empty ranges and report the restructure as done
+      if (!(amount0 > 0) && !(amount1 > 0)) {
+        throw new Error(`Removing liquidity from ${position.id} returned no tokens`);
+      }
+      steps.push(step('remove', position.id, true, amounts));
+
+      return { position, amount0, amount1 };
+
+    } catch (error) {
+      steps.push(step(current, position.id, false, undefined, error));
+      logger.warn(`${operation} step failed withdrawing ${position.id}: ${errorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  private async deposit(
+    source: LiquidityPosition,
+    minPrice: number,
+    maxPrice: number,
+    amount0: number,
+    amount1: number,
+    steps: RestructureStep[],
+    slippageTolerance?: number,
+    type: 'add' | 'rollback_add' = 'add'
+  ): Promise<string> {
+    try {
+      const positionId = await this.liquidityManager.addLiquidityByPrice({
+        token0: source.token0,
+        token1: source.token1,
+        fee: source.fee,
+        minPrice,
+        maxPrice,
+        amount0Desired: amount0.toString(),
+        amount1Desired: amount1.toString(),
+        slippageTolerance
+      });
+      steps.push(step(type, positionId, true, { amount0: amount0.toString(), amount1: amount1.toString() }));
+      return positionId;
+
+    } catch (error) {
+      steps.push(step(type, `${minPrice}-${maxPrice}`, false, undefined, error));
+      throw error;
+    }
+  }
+
+  /**
+   * Remove positions opened earlier in a failed operation; false if any could not be removed
+   */
+  private async undoDeposits(positionIds: string[], steps: RestructureStep[]): Promise<boolean> {
+    let undone = true;
+
+    for (const positionId of positionIds) {
+      try {
+        const position = this.liquidityManager.getPosition(positionId);
+        if (!position) throw new Error(`Position not found: ${positionId}`);
+
+        const amounts = await this.liquidityManager.removeLiquidity({ positionId, liquidity: position.liquidity });
+        steps.push(step('rollback_remove', positionId, true, amounts));
+      } catch (error) {
+        steps.push(step('rollback_remove', positionId, false, undefined, error));
+        logger.error(`Rollback could not remove ${positionId}:`, error);
+        undone = false;
+      }
+    }
+
+    return undone;
+  }
+
+  /**
+   * Re-open withdrawn positions at their original ranges with the tokens taken out of them
+   */
+  private async restore(removed: RemovedPosition[], steps: RestructureStep[], slippageTolerance?: number): Promise<string[]> {
+    const restored: string[] = [];
+
+    for (const { position, amount0, amount1 } of removed) {
+      try {
+        restored.push(await this.deposit(position, position.minPrice, position.maxPrice, amount0, amount1, steps, slippageTolerance, 'rollback_add'));
+      } catch (error) {
+        logger.error(`Rollback could not restore ${position.id}:`, error);
+      }
+    }
+
+    return restored;
+  }
+
+  private async failure(
+    operation: 'split' | 'merge',
+    message: string,
+    steps: RestructureStep[],
+    rolledBack: boolean,
+    restored: string[]
+  ): Promise<RestructureError> {
+    if (rolledBack) {
+      logger.warn(`${message} (rolled back${restored.length > 0 ? ` to ${restored.join(', ')}` : ''})`);
+    } else {
+      logger.error(`${message} (rollback incomplete, check positions manually)`);
+    }
+    return new RestructureError(message, operation, steps, rolledBack, restored, await this.stepsGas(steps));
+  }
+
+  private requirePosition(positionId: string, operation: 'split' | 'merge'): LiquidityPosition {
+    const position = this.liquidityManager.getPosition(positionId);
+    if (!position) {
+      throw new RestructureError(`Position not found: ${positionId}`, operation, [], false);
+    }
+    return position;
+  }
+
+  private async estimateSteps(operations: RestructureOperation[]): Promise<number> {
+    let total = 0;
+    for (const operation of operations) {
+      total += await this.estimateGasUSD(operation);
+    }
+    return total;
+  }
+
+  private async stepsGas(steps: RestructureStep[]): Promise<number> {
+    return this.estimateSteps(steps.filter(s => s.success).map(s => STEP_OPERATIONS[s.type]));
+  }
+}
+
+/**
+ * Split ranges for a ladder of equal-width rungs between two prices.
+ * 'center' weighting puts more of the position in the rungs nearest the middle.
+ */
+export function buildLadderRanges(minPrice: number, maxPrice: number, rungs: number, weighting: 'uniform' | 'center' = 'uniform'): SplitRange[] {
+  if (!(minPrice > 0) || !(maxPrice > minPrice) || !Number.isInteger(rungs) || rungs < 2) {
+    throw new Error('Ladder needs 0 < minPrice < maxPrice and at least 2 rungs');
+  }
+
+  // Rungs are equal in log price so each covers the same percentage move
+  const ratio = Math.pow(maxPrice / minPrice, 1 / rungs);
+  const weights = Array.from({ length: rungs }, (_, i) =>
+    weighting === 'center' ? Math.min(i + 1, rungs - i) : 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  return weights.map((weight, i) => ({
+    min: minPrice * Math.pow(ratio, i),
+    max: i === rungs - 1 ? maxPrice : minPrice * Math.pow(ratio, i + 1),
+    allocation: weight / totalWeight
+  }));
+}
+
+const STEP_OPERATIONS: Record<RestructureStep['type'], RestructureOperation> = {
+  collect: 'collectFees',
+  remove: 'removeLiquidity',
+  add: 'addLiquidity',
+  rollback_remove: 'removeLiquidity',
+  rollback_add: 'addLiquidity'
+};
+
+function validateSplitRanges(ranges: SplitRange[]): void {
+  if (ranges.length < 2) {
+    throw new RestructureError('A split needs at least two ranges', 'split', [], false);
+  }
+  for (const range of ranges) {
+    if (!(range.min > 0) || !(range.max > range.min) || !(range.allocation > 0)) {
+      throw new RestructureError(`Invalid split range ${range.min}-${range.max} (${range.allocation})`, 'split', [], false);
+    }
+  }
+  const total = ranges.reduce((sum, range) => sum + range.allocation, 0);
+  if (Math.abs(total - 1) > ALLOCATION_TOLERANCE) {
+    throw new RestructureError(`Split allocations add up to ${total}, expected 1`, 'split', [], false);
+  }
+}
+
+function validateMerge(positions: LiquidityPosition[], maxGap: number): void {
+  if (positions.length < 2) {
+    throw new RestructureError('A merge needs at least two positions', 'merge', [], false);
+  }
+
+  const [first] = positions;
+  if (positions.some(p => p.token0 !== first.token0 || p.token1 !== first.token1 || p.fee !== first.fee)) {
+    throw new RestructureError('Only positions in the same pool can be merged', 'merge', [], false);
+  }
+
+  // Ranges must touch or overlap once sorted, so the merged range covers no idle stretch
+  const sorted = [...positions].sort((a, b) => a.minPrice - b.minPrice);
+  let upper = sorted[0].maxPrice;
+  for (const position of sorted.slice(1)) {
+    if (position.minPrice > upper * (1 + maxGap)) {
+      throw new RestructureError(`Positions are not adjacent: gap between ${upper} and ${position.minPrice}`, 'merge', [], false);
+    }
+    upper = Math.max(upper, position.maxPrice);
+  }
+}
+
+function hasFees(position: LiquidityPosition): boolean {
+  return safeParseFloat(position.uncollectedFees0, 0) > 0 || safeParseFloat(position.uncollectedFees1, 0) > 0;
+}
+
+function step(
+  type: RestructureStep['type'],
+  positionId: string,
+  success: boolean,
+  amounts?: { amount0: string; amount1: string },
+  error?: unknown
+): RestructureStep {
+  return {
+    type,
+    positionId,
+    success,
+    amount0: amounts?.amount0,
+    amount1: amounts?.amount1,
+    error: error === undefined ? undefined : errorMessage(error),
+    timestamp: Date.now()
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function defaultGasEstimate(operation: RestructureOperation): Promise<number> {
+  const { GasEstimator } = await import('../utils/gas-estimator');
+  const estimate = await GasEstimator.estimateGas({ operation, complexity: 'medium', urgency: 'normal' });
+  return estimate.totalCostUSD;
+}
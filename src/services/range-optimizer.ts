@@ -0,0 +1,419 @@
+/**
+ * Range Optimizer
+ * Chooses concentrated liquidity tick bounds that maximize expected fees net of divergence loss
+ *
+ * Model, per candidate range and over a holding horizon:
+ * - The pair price follows a driftless log-normal walk with volatility realized from stored candles
+ * - Fees = pool fee rate x daily volume x our share of in-range liquidity x expected time in range
+ * - Divergence loss = expected shortfall of the position against holding the deposited amounts
+ * - Each expected exit from the range costs one rebalance (gas + slippage)
+ */
+
+import { logger } from '../utils/logger';
+import { timeSeriesDB, TimeSeriesDB, INTERVAL_MS } from '../data/storage/timeseries-db';
+import { IntervalType } from '../entities/analytics';
+import { amountsForLiquidity, priceToTick, tickToPrice, tickToSqrtPrice, MIN_TICK, MAX_TICK, TICK_BASE } from '../utils/price-math';
+import type { VolumeGraphClient } from '../api/volume-graph-client';
+import type { PoolData } from './pool-discovery';
+import { tokenSymbol } from '../utils/token-format';
+import { defaultPoolSource } from './pool-source';
+
+export interface RangeOptimizerConfig {
+  horizonHours: number; // Expected holding period before the range is re-evaluated
+  volatilityLookbackHours: number; // Candle history used for realized volatility
+  volatilityInterval: IntervalType;
+  minVolatilitySamples: number; // Fewer candle returns than this falls back to fallbackDailyVolatility
+  fallbackDailyVolatility: number;
+  volumeLookbackHours: number; // Pool volume history averaged into a daily volume
+  minHalfWidth: number; // Narrowest candidate, as a fraction of price on each side
+  maxHalfWidth: number; // Widest candidate
+  candidates: number; // Candidate widths evaluated between the two
+  maxCapitalEfficiency: number; // Cap on liquidity concentration relative to a full-range position
+  rebalanceCostUSD: number; // Gas and slippage paid each time the price leaves the range
+}
+
+export interface RangeOptimizationRequest {
+  token0: string;
+  token1: string;
+  fee: number; // Fee tier in SDK units (e.g. 3000)
+  currentPrice: number; // token1 per token0
+  capitalUSD: number;
+}
+
+export interface RangeMarketInputs {
+  dailyVolatility: number; // Standard deviation of daily log returns of the pair price
+  volatilitySamples: number; // Candle returns behind the estimate (0 = fallback used)
+  dailyVolumeUSD: number;
+  tvlUSD: number;
+  poolHash?: string;
+}
+
+export interface RangeEvaluation {
+  tickLower: number;
+  tickUpper: number;
+  minPrice: number;
+  maxPrice: number;
+  capitalEfficiency: number; // Liquidity per dollar relative to a full-range position
+  timeInRange: number; // Expected fraction of the horizon spent in range, 0-1
+  exitProbability: number; // Chance the price leaves the range within the horizon
+  expectedFees: number; // USD over the horizon
+  expectedDivergenceLoss: number; // USD over the horizon
+  expectedRebalanceCost: number; // USD over the horizon
+  score: number; // Fees minus divergence loss minus rebalance cost
+}
+
+export interface RangeRecommendation extends RangeEvaluation {
+  horizonHours: number;
+  tickSpacing: number;
+  candidatesEvaluated: number;
+  inputs: RangeMarketInputs;
+}
+
+export class RangeOptimizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RangeOptimizationError';
+  }
+}
+
+const DEFAULT_CONFIG: RangeOptimizerConfig = {
+  horizonHours: 24,
+  volatilityLookbackHours: 72,
+  volatilityInterval: '1h',
+  minVolatilitySamples: 12,
+  fallbackDailyVolatility: 0.05,
+  volumeLookbackHours: 72,
+  minHalfWidth: 0.002,
+  maxHalfWidth: 0.9,
+  candidates: 48,
+  maxCapitalEfficiency: 4000,
+  rebalanceCostUSD: 50
+};
+
+// Tick spacing enforced by the pool contract for each fee tier
+const TICK_SPACING: Record<number, number> = {
+  500: 10,
+  3000: 60,
+  10000: 200
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_STEPS = 24; // Points averaged for the expected time in range
+const TERMINAL_STEPS = 121; // Quadrature points for the terminal price distribution
+
+export class RangeOptimizer {
+  private config: RangeOptimizerConfig;
+  private volumeGraphClient: VolumeGraphClient | null;
+
+  constructor(
+    config: Partial<RangeOptimizerConfig> = {},
+    private readonly db: TimeSeriesDB = timeSeriesDB,
+    volumeGraphClient?: VolumeGraphClient,
+    private readonly loadPools: () => Promise<PoolData[]> = defaultPoolSource
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.volumeGraphClient = volumeGraphClient || null;
+  }
+
+  /**
+   * Best range for the pair from current market data
+   */
+  async optimize(request: RangeOptimizationRequest): Promise<RangeRecommendation> {
+    const inputs = await this.getMarketInputs(request);
+    return this.selectRange(request, inputs);
+  }
+
+  /**
+   * Realized volatility, daily volume and TVL for the pool behind a pair and fee tier
+   */
+  async getMarketInputs(request: Pick<RangeOptimizationRequest, 'token0' | 'token1' | 'fee'>): Promise<RangeMarketInputs> {
+    const [volatility, pool] = await Promise.all([
+      this.getRealizedVolatility(request.token0, request.token1),
+      this.findPool(request.token0, request.token1, request.fee)
+    ]);
+
+    if (!pool) {
+      throw new RangeOptimizationError(`No ${tokenSymbol(request.token0)}/${tokenSymbol(request.token1)} pool at fee tier ${request.fee}`);
+    }
+
+    return {
+      dailyVolatility: volatility.dailyVolatility,
+      volatilitySamples: volatility.samples,
+      dailyVolumeUSD: await this.getDailyVolume(pool),
+      tvlUSD: pool.tvl,
+      poolHash: pool.poolHash
+    };
+  }
+
+  /**
+   * Evaluate tick-aligned candidate widths around the current price and return the highest scoring one
+   */
+  selectRange(request: RangeOptimizationRequest, inputs: RangeMarketInputs): RangeRecommendation {
+    if (!(request.currentPrice > 0) || !(request.capitalUSD > 0)) {
+      throw new RangeOptimizationError('Current price and capital must be positive');
+    }
+
+    const tickSpacing = tickSpacingForFee(request.fee);
+    const currentTick = priceToTick(request.currentPrice);
+    const { minHalfWidth, maxHalfWidth, candidates } = this.config;
+
+    const seen = new Set<string>();
+    let best: RangeEvaluation | null = null;
+
+    for (let i = 0; i < candidates; i++) {
+      const halfWidth = minHalfWidth * Math.pow(maxHalfWidth / minHalfWidth, candidates > 1 ? i / (candidates - 1) : 0);
+      const halfTicks = Math.log(1 + halfWidth) / Math.log(TICK_BASE);
+
+      const tickLower = Math.max(alignedMinTick(tickSpacing), Math.floor((currentTick - halfTicks) / tickSpacing) * tickSpacing);
+      const tickUpper = Math.min(alignedMaxTick(tickSpacing), Math.max(tickLower + tickSpacing, Math.ceil((currentTick + halfTicks) / tickSpacing) * tickSpacing));
+
+      const key = `${tickLower}:${tickUpper}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const evaluation = this.evaluateRange(request, inputs, tickLower, tickUpper);
+      if (!best || evaluation.score > best.score) {
+        best = evaluation;
+      }
+    }
+
+    if (!best) {
+      throw new RangeOptimizationError('No candidate ranges to evaluate');
+    }
+
+    logger.debug(`Range for ${tokenSymbol(request.token0)}/${tokenSymbol(request.token1)}: ${best.minPrice.toPrecision(6)} - ${best.maxPrice.toPrecision(6)}`, {
+      dailyVolatility: inputs.dailyVolatility,
+      timeInRange: best.timeInRange,
+      score: best.score
+    });
+
+    return {
+      ...best,
+      horizonHours: this.config.horizonHours,
+      tickSpacing,
+      candidatesEvaluated: seen.size,
+      inputs
+    };
+  }
+
+  /**
+   * Expected fees, divergence loss and rebalance cost of holding a given range over the horizon
+   */
+  evaluateRange(request: RangeOptimizationRequest, inputs: RangeMarketInputs, tickLower: number, tickUpper: number): RangeEvaluation {
+    const horizonDays = this.config.horizonHours / 24;
+    const sigma = Math.max(inputs.dailyVolatility, 1e-9);
+    const price = request.currentPrice;
+    const minPrice = tickToPrice(tickLower);
+    const maxPrice = tickToPrice(tickUpper);
+
+    // Log distance from the current price to each bound
+    const lower = Math.log(minPrice / price);
+    const upper = Math.log(maxPrice / price);
+
+    const capitalEfficiency = Math.min(this.config.maxCapitalEfficiency, capitalEfficiencyOf(price, minPrice, maxPrice));
+    const timeInRange = expectedTimeInRange(lower, upper, sigma, horizonDays);
+    const exitProbability = Math.min(1,
+      2 * (1 - normalCdf(upper / (sigma * Math.sqrt(horizonDays)))) +
+      2 * normalCdf(lower / (sigma * Math.sqrt(horizonDays))));
+
+    // Pool TVL is treated as full-range liquidity; our concentrated capital competes with it for the fees
+    const effectiveCapital = request.capitalUSD * capitalEfficiency;
+    const feeShare = effectiveCapital / (Math.max(inputs.tvlUSD, 0) + effectiveCapital);
+    const feeRate = request.fee / 1000000;
+    const expectedFees = inputs.dailyVolumeUSD * feeRate * feeShare * timeInRange * horizonDays;
+
+    const expectedDivergenceLoss = request.capitalUSD *
+      expectedDivergenceLossRatio(price, tickLower, tickUpper, sigma, horizonDays);
+    const expectedRebalanceCost = exitProbability * this.config.rebalanceCostUSD;
+
+    return {
+      tickLower,
+      tickUpper,
+      minPrice,
+      maxPrice,
+      capitalEfficiency,
+      timeInRange,
+      exitProbability,
+      expectedFees,
+      expectedDivergenceLoss,
+      expectedRebalanceCost,
+      score: expectedFees - expectedDivergenceLoss - expectedRebalanceCost
+    };
+  }
+
+  /**
+   * Standard deviation of daily log returns of token0 priced in token1, from stored candle closes
+   */
+  private async getRealizedVolatility(token0: string, token1: string): Promise<{ dailyVolatility: number; samples: number }> {
+    const { volatilityInterval, volatilityLookbackHours, minVolatilitySamples, fallbackDailyVolatility } = this.config;
+    const endTime = Date.now();
+    const startTime = endTime - volatilityLookbackHours * 60 * 60 * 1000;
+    const options = { intervalType: volatilityInterval, startTime, endTime, orderBy: 'ASC' as const };
+
+    try {
+      const [candles0, candles1] = await Promise.all([
+        this.db.getOHLCV(tokenSymbol(token0), options),
+        this.db.getOHLCV(tokenSymbol(token1), options)
+      ]);
+
+      const closes1 = new Map(candles1.map(candle => [Number(candle.interval_start), candle.getClosePrice()]));
+
+      // Pair price where both legs have a candle; a leg with no history (e.g. an uncollected stablecoin) counts as constant
+      const pairCloses: number[] = [];
+      for (const candle of candles0) {
+        const quote = closes1.size > 0 ? closes1.get(Number(candle.interval_start)) : 1;
+        const close = candle.getClosePrice();
+        if (quote && quote > 0 && close > 0) {
+          pairCloses.push(close / quote);
+        }
+      }
+      if (candles0.length === 0) {
+        pairCloses.push(...candles1.map(candle => candle.getClosePrice()).filter(close => close > 0).map(close => 1 / close));
+      }
+
+      const returns: number[] = [];
+      for (let i = 1; i < pairCloses.length; i++) {
+        returns.push(Math.log(pairCloses[i] / pairCloses[i - 1]));
+      }
+
+      if (returns.length < minVolatilitySamples) {
+        logger.debug(`Only ${returns.length} candle returns for ${tokenSymbol(token0)}/${tokenSymbol(token1)}, using fallback volatility`);
+        return { dailyVolatility: fallbackDailyVolatility, samples: 0 };
+      }
+
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+      const periodsPerDay = DAY_MS / INTERVAL_MS[volatilityInterval];
+
+      return { dailyVolatility: Math.sqrt(variance * periodsPerDay), samples: returns.length };
+
+    } catch (error) {
+      logger.warn(`Failed to load candles for ${tokenSymbol(token0)}/${tokenSymbol(token1)} volatility, using fallback:`, error);
+      return { dailyVolatility: fallbackDailyVolatility, samples: 0 };
+    }
+  }
+
+  /**
+   * Average daily USD volume from the volume graph, falling back to the pool's reported 24h volume
+   */
+  private async getDailyVolume(pool: PoolData): Promise<number> {
+    const endTime = Math.floor(Date.now() / 1000);
+    const startTime = endTime - this.config.volumeLookbackHours * 60 * 60;
+
+    try {
+      const client = await this.getVolumeGraphClient();
+      const buckets = await client.getVolumeData(pool.poolHash, '1h', { startTime, endTime });
+
+      if (buckets.length > 0) {
+        const total = buckets.reduce((sum, bucket) => sum + bucket.volume, 0);
+        const coveredSeconds = Math.max(...buckets.map(bucket => bucket.endTime)) - Math.min(...buckets.map(bucket => bucket.startTime));
+        const days = Math.max(coveredSeconds, endTime - startTime) / 86400;
+        return total / days;
+      }
+    } catch (error) {
+      logger.warn(`Volume graph unavailable for pool ${pool.poolHash.substring(0, 8)}..., using 24h volume:`, error);
+    }
+
+    return pool.volume1d || 0;
+  }
+
+  private async findPool(token0: string, token1: string, fee: number): Promise<PoolData | null> {
+    const { poolFeeTier } = await import('./pool-discovery');
+    const symbols = [tokenSymbol(token0), tokenSymbol(token1)].sort().join('/');
+    const pools = await this.loadPools();
+
+    return pools.find(pool =>
+      [tokenSymbol(pool.token0), tokenSymbol(pool.token1)].sort().join('/') === symbols &&
+      poolFeeTier(pool) === fee) || null;
+  }
+
+  private async getVolumeGraphClient(): Promise<VolumeGraphClient> {
+    if (!this.volumeGraphClient) {
+      const { createVolumeGraphClient } = await import('../api/volume-graph-client');
+      this.volumeGraphClient = createVolumeGraphClient();
+    }
+    return this.volumeGraphClient;
+  }
+}
+
+/**
+ * Tick spacing for a fee tier (defaults to the 0.3% tier's spacing)
+ */
+export function tickSpacingForFee(fee: number): number {
+  return TICK_SPACING[fee] ?? 60;
+}
+
+/**
+ * Expected fraction of the horizon that a driftless log price starting at 0 spends between the two log bounds
+ */
+function expectedTimeInRange(lower: number, upper: number, sigma: number, horizonDays: number): number {
+  let total = 0;
+  for (let i = 1; i <= TIME_STEPS; i++) {
+    const spread = sigma * Math.sqrt(horizonDays * i / TIME_STEPS);
+    total += normalCdf(upper / spread) - normalCdf(lower / spread);
+  }
+  return total / TIME_STEPS;
+}
+
+/**
+ * Expected loss of a range position against holding its deposit, as a fraction of the deposit's value.
+ * The terminal price is log-normal with zero drift in price.
+ */
+function expectedDivergenceLossRatio(price: number, tickLower: number, tickUpper: number, sigma: number, horizonDays: number): number {
+  const sqrtLower = tickToSqrtPrice(tickLower);
+  const sqrtUpper = tickToSqrtPrice(tickUpper);
+  const deposit = amountsForLiquidity(Math.sqrt(price), sqrtLower, sqrtUpper, 1);
+  const depositValue = deposit.amount0 * price + deposit.amount1;
+  if (!(depositValue > 0)) return 0;
+
+  const spread = sigma * Math.sqrt(horizonDays);
+  const drift = -spread * spread / 2;
+  let loss = 0;
+  let weight = 0;
+
+  for (let i = 0; i < TERMINAL_STEPS; i++) {
+    const z = -6 + 12 * i / (TERMINAL_STEPS - 1);
+    const density = Math.exp(-z * z / 2);
+    const terminal = price * Math.exp(drift + spread * z);
+
+    const held = deposit.amount0 * terminal + deposit.amount1;
+    const position = amountsForLiquidity(Math.sqrt(terminal), sqrtLower, sqrtUpper, 1);
+    const provided = position.amount0 * terminal + position.amount1;
+
+    loss += density * (held - provided);
+    weight += density;
+  }
+
+  return Math.max(0, loss / weight / depositValue);
+}
+
+/**
+ * Liquidity per unit of value in the range relative to a full-range position at the same price
+ */
+function capitalEfficiencyOf(price: number, minPrice: number, maxPrice: number): number {
+  const sqrtPrice = Math.sqrt(price);
+  const amounts = amountsForLiquidity(sqrtPrice, Math.sqrt(minPrice), Math.sqrt(maxPrice), 1);
+  const rangeValue = amounts.amount0 * price + amounts.amount1;
+  return rangeValue > 0 ? (2 * sqrtPrice) / rangeValue : 1;
+}
+
+/**
+ * Standard normal CDF (Abramowitz-Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function alignedMinTick(tickSpacing: number): number {
+  return Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+}
+
+function alignedMaxTick(tickSpacing: number): number {
+  return Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
+}
+
+// Export singleton instance
+export const rangeOptimizer = new RangeOptimizer();
@@ -7,6 +7,8 @@
 import { LiquidityManager } from './liquidity-manager';
 import { Position } from '../entities/Position';
 import { FeeCalculator } from './fee-calculator';
+import { RangeOptimizer, rangeOptimizer as defaultRangeOptimizer } from './range-optimizer';
+import { PositionRestructurer, RestructureError, RestructureResult, SplitRange } from './position-restructurer';
 // Unused import removed: FeeOptimization
 import { getPositionRepository } from '../config/database';
 import { logger } from '../utils/logger';
@@ -17,6 +19,7 @@ import { safeParseFloat } from '../utils/safe-parse';
 // import BigNumber from 'bignumber.js';
 import { Repository } from 'typeorm';
 import { createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
 
 export interface RebalanceSignal {
   positionId: string;
@@ -61,6 +64,15 @@ export interface RebalanceAction {
   scheduledFor?: number;
   executedAt?: number;
   status: 'pending' | 'scheduled' | 'executing' | 'completed' | 'failed' | 'cancelled';
+  execution?: RestructureExecution; // Outcome of split and merge actions
+}
+
+export interface RestructureExecution {
+  outcome: 'completed' | 'rolled_back' | 'rollback_failed' | 'rejected';
+  steps: number; // Liquidity operations sent, rollback included
+  createdPositionIds: string[]; // New positions, or the restored originals after a rollback
+  gasCostUSD: number;
+  error?: string;
 }
 
 export interface RebalanceStrategy {
@@ -97,6 +109,11 @@ export interface RebalanceMetrics {
   positionsManaged: number;
   lastRebalanceTime: number;
   upcomingActions: number;
+  splitsExecuted: number;
+  mergesExecuted: number;
+  rolledBackActions: number; // Split/merge actions undone after a step failed
+  unrecoveredActions: number; // Split/merge actions whose rollback also failed; positions need manual attention
+  restructureGasUSD: number; // Estimated gas of split/merge steps, rollbacks included
 }
 
 export interface MarketCondition {
@@ -111,6 +128,8 @@ export interface MarketCondition {
 export class RebalanceEngine {
   private liquidityManager: LiquidityManager;
   private feeCalculator: FeeCalculator;
+  private rangeOptimizer: RangeOptimizer;
+  private restructurer: PositionRestructurer;
   private quoteWrapper: { quoteExactInput: (tokenIn: string, tokenOut: string, amountIn: number | string) => Promise<QuoteResult> }; // Working quote API wrapper
   private positionRepo: Repository<Position> | null = null;
   private isRunning: boolean = false;
@@ -126,12 +145,19 @@ export class RebalanceEngine {
   private readonly marketDataWindow = 24 * 60 * 60 * 1000; // 24 hours
   private readonly defaultExecutionInterval = 30000; // 30 seconds
 
-  constructor(liquidityManager: LiquidityManager, feeCalculator: FeeCalculator) {
+  constructor(
+    liquidityManager: LiquidityManager,
+    feeCalculator: FeeCalculator,
+    rangeOptimizer: RangeOptimizer = defaultRangeOptimizer,
+    sources: RuntimeSources = {}
+  ) {
     this.liquidityManager = liquidityManager;
     this.feeCalculator = feeCalculator;
+    this.rangeOptimizer = rangeOptimizer;
+    this.restructurer = new PositionRestructurer(liquidityManager);
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     this.initializeDefaultStrategies();
     logger.info('RebalanceEngine initialized');
@@ -272,6 +298,15 @@ export class RebalanceEngine {
     return this.actionQueue.filter(a => a.status === 'pending');
   }
 
+  /**
+   * Cancel the pending actions for a position, e.g. once another component has already moved it
+   */
+  cancelPendingActions(positionId: string): number {
+    const cancelled = this.getPendingActions().filter(action => action.positionId === positionId);
+    cancelled.forEach(action => { action.status = 'cancelled'; });
+    return cancelled.length;
+  }
+
   /**
    * Get rebalance metrics
    */
@@ -294,6 +329,8 @@ export class RebalanceEngine {
       ? Math.max(...completed.map(a => a.executedAt || 0))
       : 0;
 
+    const restructures = this.executionHistory.filter(a => a.execution);
+
     return {
       totalRebalances: this.executionHistory.length,
       successfulRebalances: completed.length,
@@ -306,10 +343,64 @@ export class RebalanceEngine {
       strategiesActive: Array.from(this.strategies.values()).filter(s => s.enabled).length,
       positionsManaged: this.activeSignals.size,
       lastRebalanceTime,
-      upcomingActions: this.actionQueue.filter(a => a.status === 'pending').length
+      upcomingActions: this.actionQueue.filter(a => a.status === 'pending').length,
+      splitsExecuted: completed.filter(a => a.actionType === 'split_position').length,
+      mergesExecuted: completed.filter(a => a.actionType === 'merge_positions').length,
+      rolledBackActions: restructures.filter(a => a.execution!.outcome === 'rolled_back').length,
+      unrecoveredActions: restructures.filter(a => a.execution!.outcome === 'rollback_failed').length,
+      restructureGasUSD: restructures.reduce((sum, a) => sum + a.execution!.gasCostUSD, 0)
     };
   }
 
+  /**
+   * Queue splitting a position into weighted ranges (e.g. a ladder from buildLadderRanges)
+   */
+  async queueSplit(
+    positionId: string,
+    splitRanges: SplitRange[],
+    options: { priority?: number; expectedBenefit?: number; maxSlippage?: number } = {}
+  ): Promise<RebalanceAction> {
+    const estimatedCost = await this.restructurer.estimateSplitCost(positionId, splitRanges);
+
+    return this.queueRestructure({
+      positionId,
+      actionType: 'split_position',
+      estimatedCost,
+      parameters: { splitRanges, liquidityPercentage: 100 }
+    }, options);
+  }
+
+  /**
+   * Queue merging adjacent positions in the same pool into one range, by default spanning all of them
+   */
+  async queueMerge(
+    positionIds: string[],
+    options: { newMinPrice?: number; newMaxPrice?: number; priority?: number; expectedBenefit?: number; maxSlippage?: number } = {}
+  ): Promise<RebalanceAction> {
+    const [positionId, ...mergeWithPositions] = positionIds;
+    const estimatedCost = await this.restructurer.estimateMergeCost(positionIds);
+
+    return this.queueRestructure({
+      positionId,
+      actionType: 'merge_positions',
+      estimatedCost,
+      parameters: { mergeWithPositions, newMinPrice: options.newMinPrice, newMaxPrice: options.newMaxPrice }
+    }, options);
+  }
+
+  /**
+   * Run every queued split and merge; they are requested explicitly, so they do not wait for a rebalance signal
+   */
+  async executeQueuedRestructures(): Promise<number> {
+    const queued = this.actionQueue.filter(a =>
+      a.status === 'pending' && (a.actionType === 'split_position' || a.actionType === 'merge_positions'));
+
+    for (const action of queued) {
+      await this.executeRebalanceAction(action);
+    }
+    return queued.length;
+  }
+
   /**
    * Update market conditions
    */
@@ -616,8 +707,7 @@ export class RebalanceEngine {
         case 'low_utilization':
           // Adjust range action
           const currentPrice = signal.trigger.currentPrice;
-          const rangeWidth = (position.maxPrice - position.minPrice) / currentPrice;
-          const newRange = this.calculateOptimalRange(currentPrice, rangeWidth);
+          const { range: newRange, improvement } = await this.selectNewRange(position, currentPrice);
 
           return {
             id: actionId,
@@ -625,7 +715,7 @@ export class RebalanceEngine {
             actionType: 'adjust_range',
             priority: this.calculatePriority(signal),
             estimatedCost: await this.estimateRebalanceCost(position),
-            expectedBenefit: await this.estimateRebalanceBenefit(position, newRange),
+            expectedBenefit: improvement ?? await this.estimateRebalanceBenefit(position, newRange),
             riskScore: this.calculateRiskScore(signal),
             parameters: {
               newMinPrice: newRange.min,
@@ -671,6 +761,37 @@ export class RebalanceEngine {
     }
   }
 
+  /**
+   * New range for a position: the optimizer's pick with its expected gain over the current range,
+   * or the current width re-centred on the price when market data is unavailable
+   */
+  private async selectNewRange(
+    position: Position,
+    currentPrice: number
+  ): Promise<{ range: { min: number; max: number }; improvement?: number }> {
+    try {
+      const request = {
+        token0: position.token0,
+        token1: position.token1,
+        fee: position.fee,
+        currentPrice,
+        capitalUSD: position.currentValueUSD
+      };
+      const inputs = await this.rangeOptimizer.getMarketInputs(request);
+      const optimized = this.rangeOptimizer.selectRange(request, inputs);
+      const current = this.rangeOptimizer.evaluateRange(request, inputs, position.tickLower, position.tickUpper);
+
+      return {
+        range: { min: optimized.minPrice, max: optimized.maxPrice },
+        improvement: Math.max(0, optimized.score - current.score)
+      };
+    } catch (error) {
+      logger.warn(`Range optimizer unavailable for position ${position.id}, keeping its width:`, error);
+      const rangeWidth = (position.maxPrice - position.minPrice) / currentPrice;
+      return { range: this.calculateOptimalRange(currentPrice, rangeWidth) };
+    }
+  }
+
   /**
    * Calculate optimal range around current price
    */
@@ -804,6 +925,12 @@ export class RebalanceEngine {
         case 'close_position':
           success = await this.executePositionClose(action);
           break;
+        case 'split_position':
+          success = await this.executePositionSplit(action);
+          break;
+        case 'merge_positions':
+          success = await this.executePositionMerge(action);
+          break;
         default:
           logger.error(`Unknown action type: ${action.actionType}`);
           success = false;
@@ -892,6 +1019,89 @@ export class RebalanceEngine {
     }
   }
 
+  /**
+   * Execute position split
+   */
+  private async executePositionSplit(action: RebalanceAction): Promise<boolean> {
+    const ranges = action.parameters.splitRanges;
+    if (!ranges || ranges.length < 2) {
+      return false;
+    }
+
+    return this.executeRestructure(action, () =>
+      this.restructurer.split(action.positionId, ranges, action.constraints.maxSlippage));
+  }
+
+  /**
+   * Execute position merge
+   */
+  private async executePositionMerge(action: RebalanceAction): Promise<boolean> {
+    const others = action.parameters.mergeWithPositions;
+    if (!others || others.length === 0) {
+      return false;
+    }
+
+    return this.executeRestructure(action, () =>
+      this.restructurer.merge([action.positionId, ...others], {
+        newMinPrice: action.parameters.newMinPrice,
+        newMaxPrice: action.parameters.newMaxPrice,
+        slippageTolerance: action.constraints.maxSlippage
+      }));
+  }
+
+  /**
+   * Run a multi-step split or merge and record its outcome on the action
+   */
+  private async executeRestructure(action: RebalanceAction, run: () => Promise<RestructureResult>): Promise<boolean> {
+    try {
+      const result = await run();
+      action.execution = {
+        outcome: 'completed',
+        steps: result.steps.length,
+        createdPositionIds: result.createdPositionIds,
+        gasCostUSD: result.gasCostUSD
+      };
+      return true;
+
+    } catch (error) {
+      if (error instanceof RestructureError) {
+        const started = error.steps.some(step => step.success);
+        action.execution = {
+          outcome: !started ? 'rejected' : error.rolledBack ? 'rolled_back' : 'rollback_failed',
+          steps: error.steps.length,
+          createdPositionIds: error.restoredPositionIds,
+          gasCostUSD: error.gasCostUSD,
+          error: error.message
+        };
+      }
+      logger.error(`Failed to execute ${action.actionType}:`, error);
+      return false;
+    }
+  }
+
+  private queueRestructure(
+    action: Pick<RebalanceAction, 'positionId' | 'actionType' | 'estimatedCost' | 'parameters'>,
+    options: { priority?: number; expectedBenefit?: number; maxSlippage?: number }
+  ): RebalanceAction {
+    const queued: RebalanceAction = {
+      ...action,
+      id: this.generateActionId(),
+      priority: options.priority ?? 5,
+      expectedBenefit: options.expectedBenefit ?? 0,
+      riskScore: 0.3, // Several transactions in a row
+      constraints: {
+        maxGasCost: action.estimatedCost * 1.5,
+        minBenefitRatio: 1.2, // 20% minimum benefit over cost
+        maxSlippage: options.maxSlippage ?? 0.01
+      },
+      createdAt: Date.now(),
+      status: 'pending'
+    };
+
+    this.addActionToQueue(queued);
+    return queued;
+  }
+
   /**
    * Move action to history
    */
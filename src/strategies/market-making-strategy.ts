@@ -12,6 +12,11 @@ import { QuoteResult } from '../utils/quote-api';
 // import { TRADING_CONSTANTS, STRATEGY_CONSTANTS } from '../config/constants';
 import { safeParseFloat } from '../utils/safe-parse';
 import { createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
+import { priceToTick } from '../utils/price-math';
+import { RangeOptimizer, RangeOptimizationRequest, RangeRecommendation, rangeOptimizer as defaultRangeOptimizer } from '../services/range-optimizer';
+import { DeltaHedger, HedgeTrade, TokenDelta, positionDelta } from '../services/delta-hedger';
+import type { RebalanceSignal } from '../services/rebalance-engine';
 // import BigNumber from 'bignumber.js';
 
 export interface MarketMakingConfig {
@@ -19,7 +24,8 @@ export interface MarketMakingConfig {
   token1: string;
   fee: number;
   totalCapital: string; // Total capital to deploy
-  rangeWidth: number; // Range width as percentage (e.g., 0.1 = 10%)
+  rangeWidth: number; // Range width as percentage (e.g., 0.1 = 10%), used when the range optimizer has no data
+  optimizeRange?: boolean; // Size ranges from volatility, volume and fee tier (default true)
   spread: number; // Target spread percentage (e.g., 0.002 = 0.2%)
   rebalanceThreshold: number; // Price movement % that triggers rebalance
   autoRebalance: boolean;
@@ -38,6 +44,7 @@ export interface MarketMakingPosition {
   position: Position;
   createdPrice: number;
   targetRange: { min: number; max: number };
+  rangeEstimate?: RangeRecommendation; // Optimizer output the range was chosen from
   isActive: boolean;
   performance: {
     feesEarned: number;
@@ -54,6 +61,9 @@ export interface MarketMakingMetrics {
   apr: number;
   utilization: number;
   impermanentLoss: number;
+  hedgePnL: number; // Hedge swaps marked to market, in the hedge quote token; 0 when not hedging
+  hedgeTrades: number;
+  netDelta: TokenDelta[]; // Token exposure left after hedges
   rebalanceCount: number;
   uptime: number;
   sharpeRatio: number;
@@ -64,6 +74,7 @@ export interface RebalanceAction {
   type: 'create' | 'close' | 'adjust';
   positionId?: string;
   newRange?: { min: number; max: number };
+  rangeEstimate?: RangeRecommendation;
   reason: string;
   priority: 'low' | 'medium' | 'high';
   estimatedCost: number;
@@ -72,6 +83,8 @@ export interface RebalanceAction {
 
 export class MarketMakingStrategy {
   private liquidityManager: LiquidityManager;
+  private rangeOptimizer: RangeOptimizer;
+  private hedger: DeltaHedger | null = null;
   private config: MarketMakingConfig;
   private positions: Map<string, MarketMakingPosition> = new Map();
   private isRunning: boolean = false;
@@ -79,18 +92,25 @@ export class MarketMakingStrategy {
   private lastRebalance: number = 0;
   private priceHistory: Array<{ price: number; timestamp: number }> = [];
   private performanceHistory: Array<{ timestamp: number; value: number; fees: number }> = [];
+  private lastExposure: Map<string, number> = new Map();
   private quoteWrapper: { quoteExactInput: (tokenIn: string, tokenOut: string, amountIn: number | string) => Promise<QuoteResult> }; // Working quote API wrapper
 
   private readonly maxPriceHistory = 1000;
   private readonly maxPerformanceHistory = 10000;
   private readonly rebalanceInterval = 30000; // 30 seconds minimum between rebalances
 
-  constructor(liquidityManager: LiquidityManager, config: MarketMakingConfig) {
+  constructor(
+    liquidityManager: LiquidityManager,
+    config: MarketMakingConfig,
+    rangeOptimizer: RangeOptimizer = defaultRangeOptimizer,
+    sources: RuntimeSources = {}
+  ) {
     this.liquidityManager = liquidityManager;
+    this.rangeOptimizer = rangeOptimizer;
     this.config = config;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     logger.info('MarketMakingStrategy initialized', {
       tokenPair: `${config.token0}/${config.token1}`,
@@ -171,6 +191,11 @@ export class MarketMakingStrategy {
       // Update position performance
       await this.updatePositionPerformance(currentPrice);
 
+      // Offset the token exposure of the positions in hedged mode
+      if (this.hedger) {
+        await this.hedgeDelta(currentPrice);
+      }
+
       // Check for rebalancing opportunities
       if (this.shouldCheckRebalance()) {
         const actions = await this.analyzeRebalanceActions(currentPrice);
@@ -206,7 +231,8 @@ export class MarketMakingStrategy {
       : 0;
 
     const totalIL = activePositions.reduce((sum, p) => sum + p.position.impermanentLoss, 0);
-    const netProfit = totalFeesEarned + totalIL;
+    const hedge = this.hedger?.getPnL();
+    const netProfit = totalFeesEarned + totalIL + (hedge?.pnl ?? 0);
 
     const runTime = this.isRunning ? (Date.now() - this.startTime) / 1000 / 3600 : 0; // hours
     const apr = runTime > 0 && totalValue > 0 ? (netProfit / totalValue) * (365 * 24 / runTime) * 100 : 0;
@@ -221,6 +247,9 @@ export class MarketMakingStrategy {
       apr,
       utilization: avgUtilization,
       impermanentLoss: totalIL,
+      hedgePnL: hedge?.pnl ?? 0,
+      hedgeTrades: hedge?.trades ?? 0,
+      netDelta: this.hedger ? this.hedger.getDeltas(this.lastExposure) : [],
       rebalanceCount,
       uptime,
       sharpeRatio: this.calculateSharpeRatio(),
@@ -228,6 +257,29 @@ export class MarketMakingStrategy {
     };
   }
 
+  /**
+   * Run in hedged mode: keep the positions' token delta offset with swaps through the given hedger
+   */
+  attachHedger(hedger: DeltaHedger): void {
+    this.hedger = hedger;
+    logger.info(`Hedged LP mode enabled for ${this.config.token0}/${this.config.token1}`);
+  }
+
+  /**
+   * Token amounts held by the active positions at the current price
+   */
+  getPositionExposure(currentPrice: number): Map<string, number> {
+    const exposure = new Map<string, number>([[this.config.token0, 0], [this.config.token1, 0]]);
+
+    for (const mmPosition of this.getActivePositions()) {
+      const { amount0, amount1 } = positionDelta(mmPosition.position, currentPrice);
+      exposure.set(this.config.token0, (exposure.get(this.config.token0) ?? 0) + amount0);
+      exposure.set(this.config.token1, (exposure.get(this.config.token1) ?? 0) + amount1);
+    }
+
+    return exposure;
+  }
+
   /**
    * Get strategy positions
    */
@@ -259,6 +311,62 @@ export class MarketMakingStrategy {
     return actions;
   }
 
+  /**
+   * Re-evaluate a position's range when the rebalance engine raises a signal for it.
+   * The position is moved only when the optimized range is expected to beat the current one by more than the move costs.
+   */
+  async handleRebalanceSignal(signal: RebalanceSignal): Promise<RebalanceAction | null> {
+    const mmPosition = this.positions.get(signal.positionId);
+    if (!mmPosition || !mmPosition.isActive || this.config.optimizeRange === false) return null;
+
+    const currentPrice = signal.trigger.currentPrice || await this.getCurrentPrice();
+    if (!currentPrice) return null;
+
+    try {
+      const request = this.rangeRequest(currentPrice, this.getPositionCapital(mmPosition));
+      const inputs = await this.rangeOptimizer.getMarketInputs(request);
+      const optimized = this.rangeOptimizer.selectRange(request, inputs);
+      const current = this.rangeOptimizer.evaluateRange(
+        request,
+        inputs,
+        priceToTick(mmPosition.targetRange.min),
+        priceToTick(mmPosition.targetRange.max)
+      );
+
+      const improvement = optimized.score - current.score;
+      const cost = this.estimateRebalanceCost(mmPosition);
+
+      if (improvement <= cost) {
+        logger.debug(`Range of ${mmPosition.id} kept after ${signal.signalType} signal`, {
+          improvement: improvement.toFixed(2),
+          cost: cost.toFixed(2)
+        });
+        return null;
+      }
+
+      const action: RebalanceAction = {
+        type: 'adjust',
+        positionId: mmPosition.id,
+        newRange: { min: optimized.minPrice, max: optimized.maxPrice },
+        rangeEstimate: optimized,
+        reason: `${signal.signalType} signal: optimized range expected to add $${improvement.toFixed(2)} over ${optimized.horizonHours}h`,
+        priority: signal.urgency === 'critical' || signal.urgency === 'high' ? 'high' : signal.urgency,
+        estimatedCost: cost,
+        expectedBenefit: improvement
+      };
+
+      if (this.config.autoRebalance) {
+        await this.executeRebalanceActions([action]);
+      }
+
+      return action;
+
+    } catch (error) {
+      logger.warn(`Failed to re-evaluate range for ${mmPosition.id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Initialize market making positions
    */
@@ -271,12 +379,13 @@ export class MarketMakingStrategy {
     logger.info(`Initializing positions around price: ${currentPrice.toFixed(6)}`);
 
     // Create main concentrated liquidity position
-    const mainRange = this.calculateOptimalRange(currentPrice, this.config.rangeWidth);
-    const mainPositionId = await this.createPosition('main', mainRange, currentPrice);
+    const { range: mainRange, estimate } = await this.selectRange(currentPrice, this.calculateCapitalAllocation('main'));
+    const mainPositionId = await this.createPosition('main', mainRange, currentPrice, estimate);
 
     logger.info(`✅ Main position created: ${mainPositionId}`, {
       range: `${mainRange.min.toFixed(6)} - ${mainRange.max.toFixed(6)}`,
-      currentPrice: currentPrice.toFixed(6)
+      currentPrice: currentPrice.toFixed(6),
+      expectedTimeInRange: estimate ? `${(estimate.timeInRange * 100).toFixed(1)}%` : undefined
     });
   }
 
@@ -286,7 +395,8 @@ export class MarketMakingStrategy {
   private async createPosition(
     type: 'main' | 'hedge' | 'range_extension',
     range: { min: number; max: number },
-    currentPrice: number
+    currentPrice: number,
+    rangeEstimate?: RangeRecommendation
   ): Promise<string> {
     const capitalAllocation = this.calculateCapitalAllocation(type);
     const amounts = this.calculateOptimalAmounts(capitalAllocation, currentPrice, range);
@@ -319,6 +429,7 @@ export class MarketMakingStrategy {
       position: convertedPosition,
       createdPrice: currentPrice,
       targetRange: range,
+      rangeEstimate,
       isActive: true,
       performance: {
         feesEarned: 0,
@@ -362,6 +473,44 @@ export class MarketMakingStrategy {
     }
   }
 
+  /**
+   * Range for new liquidity: the optimizer's pick, or the static rangeWidth when it is disabled or lacks market data
+   */
+  private async selectRange(
+    currentPrice: number,
+    capitalUSD: number
+  ): Promise<{ range: { min: number; max: number }; estimate?: RangeRecommendation }> {
+    if (this.config.optimizeRange !== false) {
+      try {
+        const estimate = await this.rangeOptimizer.optimize(this.rangeRequest(currentPrice, capitalUSD));
+        return { range: { min: estimate.minPrice, max: estimate.maxPrice }, estimate };
+      } catch (error) {
+        logger.warn(`Range optimizer unavailable, using ${(this.config.rangeWidth * 100).toFixed(1)}% range width:`, error);
+      }
+    }
+
+    return { range: this.calculateOptimalRange(currentPrice, this.config.rangeWidth) };
+  }
+
+  private rangeRequest(currentPrice: number, capitalUSD: number): RangeOptimizationRequest {
+    return {
+      token0: this.config.token0,
+      token1: this.config.token1,
+      fee: this.config.fee,
+      currentPrice,
+      capitalUSD
+    };
+  }
+
+  /**
+   * Capital behind a position, from its tracked value or its allocation before the first valuation
+   */
+  private getPositionCapital(mmPosition: MarketMakingPosition): number {
+    return mmPosition.position.currentValueUSD > 0
+      ? mmPosition.position.currentValueUSD
+      : this.calculateCapitalAllocation(mmPosition.type);
+  }
+
   /**
    * Calculate optimal range around current price
    */
@@ -462,6 +611,22 @@ export class MarketMakingStrategy {
     }
   }
 
+  /**
+   * Swap against the positions' token delta when it drifts outside the hedge band
+   */
+  private async hedgeDelta(currentPrice: number): Promise<HedgeTrade[]> {
+    if (!this.hedger) return [];
+
+    try {
+      this.lastExposure = this.getPositionExposure(currentPrice);
+      return await this.hedger.rebalance(this.lastExposure);
+
+    } catch (error) {
+      logger.error('Failed to hedge market making delta:', error);
+      return [];
+    }
+  }
+
   /**
    * Check if we should analyze for rebalancing
    */
@@ -485,12 +650,13 @@ export class MarketMakingStrategy {
       if (priceChange > this.config.rebalanceThreshold) {
         // Position is significantly out of range
         if (currentPrice < mmPosition.targetRange.min || currentPrice > mmPosition.targetRange.max) {
-          const newRange = this.calculateOptimalRange(currentPrice, this.config.rangeWidth);
+          const { range: newRange, estimate } = await this.selectRange(currentPrice, this.getPositionCapital(mmPosition));
 
           actions.push({
             type: 'adjust',
             positionId: mmPosition.id,
             newRange,
+            rangeEstimate: estimate,
             reason: `Price moved ${(priceChange * 100).toFixed(2)}% from creation price`,
             priority: priceChange > 0.2 ? 'high' : 'medium',
             estimatedCost: this.estimateRebalanceCost(mmPosition),
@@ -527,14 +693,14 @@ export class MarketMakingStrategy {
         switch (action.type) {
           case 'adjust':
             if (action.positionId && action.newRange) {
-              await this.rebalancePosition(action.positionId, action.newRange);
+              await this.rebalancePosition(action.positionId, action.newRange, action.rangeEstimate);
             }
             break;
           case 'create':
             if (action.newRange) {
               const currentPrice = await this.getCurrentPrice();
               if (currentPrice) {
-                await this.createPosition('range_extension', action.newRange, currentPrice);
+                await this.createPosition('range_extension', action.newRange, currentPrice, action.rangeEstimate);
               }
             }
             break;
@@ -558,7 +724,11 @@ export class MarketMakingStrategy {
   /**
    * Rebalance a position to a new range
    */
-  private async rebalancePosition(positionId: string, newRange: { min: number; max: number }): Promise<void> {
+  private async rebalancePosition(
+    positionId: string,
+    newRange: { min: number; max: number },
+    rangeEstimate?: RangeRecommendation
+  ): Promise<void> {
     const mmPosition = this.positions.get(positionId);
     if (!mmPosition) return;
 
@@ -589,6 +759,7 @@ export class MarketMakingStrategy {
         position: convertedNewPosition,
         createdPrice: currentPrice || mmPosition.createdPrice,
         targetRange: newRange,
+        rangeEstimate,
         isActive: true
       };
 
@@ -826,6 +997,7 @@ export class MarketMakingStrategy {
       activePositions: Array.from(this.positions.values()).filter(p => p.isActive).length,
       startTime: this.startTime,
       lastRebalance: this.lastRebalance,
+      hedged: this.hedger !== null,
       uptime: this.isRunning ? Date.now() - this.startTime : 0
     };
   }
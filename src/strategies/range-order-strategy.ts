@@ -2,6 +2,10 @@
  * Range Order Strategy
  * Implements "limit orders" using concentrated liquidity positions
  * Places liquidity in narrow ranges above/below current price for directional trades
+ *
+ * Buy orders rest above the price and fill as it rises through the range; sell orders rest below
+ * and fill as it falls. Orders are good-till-cancelled or good-till-time (GTT), and are withdrawn
+ * once the price has crossed the whole range or a GTT order expires.
  */
 
 import { LiquidityManager, AddLiquidityParams } from '../services/liquidity-manager';
@@ -11,6 +15,10 @@ import { QuoteResult } from '../utils/quote-api';
 import { TRADING_CONSTANTS } from '../config/constants';
 import { safeParseFloat } from '../utils/safe-parse';
 import { createQuoteWrapper } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
+import { amountsForLiquidity } from '../utils/price-math';
+import { TimeInForce } from '../types/trading';
+import { tokenSymbol } from '../utils/token-format';
 // Unused import removed: BigNumber
 
 export interface RangeOrderConfig {
@@ -21,9 +29,11 @@ export interface RangeOrderConfig {
   amount: string;
   targetPrice: number;
   rangeWidth: number; // Percentage width of the range (e.g., 0.1 = 0.1%)
-  autoExecute: boolean; // Auto-remove when target is hit
+  autoExecute: boolean; // Auto-remove once the price has crossed the whole range
   slippageTolerance?: number;
   maxPriceAge?: number; // Maximum age of price data in ms
+  timeInForce?: TimeInForce; // GTC (default) or GTT; resting liquidity cannot be IOC/FOK
+  expiresAt?: number; // GTT only: timestamp after which an unfilled order is withdrawn
 }
 
 export interface RangeOrderStatus {
@@ -36,6 +46,25 @@ export interface RangeOrderStatus {
   executionPrice?: number;
   amountFilled?: string;
   fees?: { amount0: string; amount1: string };
+  fillPercentage: number; // 0-100, share of the resting side converted at the last checked price
+  lastPrice?: number;
+  lastCheckedAt?: number;
+  expiredAt?: number;
+}
+
+export interface RangeOrderBookEntry {
+  orderId: string;
+  pair: string; // e.g. GALA/GUSDC
+  direction: 'buy' | 'sell';
+  targetPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  amount: string;
+  fillPercentage: number;
+  lastPrice?: number;
+  timeInForce: TimeInForce;
+  expiresAt?: number;
+  createdAt: number;
 }
 
 export interface RangeOrderResult {
@@ -55,11 +84,11 @@ export class RangeOrderStrategy {
   private orderCounter = 0; // Counter for unique order IDs
   private quoteWrapper: { quoteExactInput: (tokenIn: string, tokenOut: string, amountIn: number | string) => Promise<QuoteResult> }; // Working quote API wrapper
 
-  constructor(liquidityManager: LiquidityManager) {
+  constructor(liquidityManager: LiquidityManager, sources: RuntimeSources = {}) {
     this.liquidityManager = liquidityManager;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     logger.info('RangeOrderStrategy initialized');
   }
@@ -138,7 +167,9 @@ export class RangeOrderStrategy {
         status: 'active',
         config,
         position: convertedPosition,
-        createdAt: Date.now()
+        createdAt: Date.now(),
+        fillPercentage: 0,
+        lastPrice: currentPrice
       };
 
       this.activeOrders.set(orderId, orderStatus);
@@ -228,6 +259,28 @@ export class RangeOrderStrategy {
     return Array.from(this.activeOrders.values()).filter(order => order.status === status);
   }
 
+  /**
+   * Active orders as a limit order book: grouped by pair, highest target price first
+   */
+  getOrderBook(): RangeOrderBookEntry[] {
+    return this.getOrdersByStatus('active')
+      .map(order => ({
+        orderId: order.orderId,
+        pair: `${tokenSymbol(order.config.token0)}/${tokenSymbol(order.config.token1)}`,
+        direction: order.config.direction,
+        targetPrice: order.config.targetPrice,
+        minPrice: order.position?.minPrice ?? order.config.targetPrice,
+        maxPrice: order.position?.maxPrice ?? order.config.targetPrice,
+        amount: order.config.amount,
+        fillPercentage: order.fillPercentage,
+        lastPrice: order.lastPrice,
+        timeInForce: order.config.timeInForce ?? 'GTC',
+        expiresAt: order.config.expiresAt,
+        createdAt: order.createdAt
+      }))
+      .sort((a, b) => a.pair.localeCompare(b.pair) || b.targetPrice - a.targetPrice);
+  }
+
   /**
    * Check and update order statuses
    */
@@ -251,10 +304,13 @@ export class RangeOrderStrategy {
     activeOrders: number;
     filledOrders: number;
     cancelledOrders: number;
+    expiredOrders: number;
+    partiallyFilledOrders: number; // Active orders the price has moved into
     totalVolume: number;
     successRate: number;
   } {
     const orders = this.getAllOrders();
+    const active = orders.filter(o => o.status === 'active');
     const filled = orders.filter(o => o.status === 'filled');
     const cancelled = orders.filter(o => o.status === 'cancelled');
 
@@ -266,9 +322,11 @@ export class RangeOrderStrategy {
 
     return {
       totalOrders: orders.length,
-      activeOrders: orders.filter(o => o.status === 'active').length,
+      activeOrders: active.length,
       filledOrders: filled.length,
       cancelledOrders: cancelled.length,
+      expiredOrders: orders.filter(o => o.status === 'expired').length,
+      partiallyFilledOrders: active.filter(o => o.fillPercentage > 0).length,
       totalVolume,
       successRate
     };
@@ -302,6 +360,15 @@ export class RangeOrderStrategy {
       return { valid: false, error: 'Range width must be between 0 and 10%' };
     }
 
+    const timeInForce = config.timeInForce ?? 'GTC';
+    if (timeInForce !== 'GTC' && timeInForce !== 'GTT') {
+      return { valid: false, error: `Time in force ${timeInForce} is not supported for range orders (use GTC or GTT)` };
+    }
+
+    if (timeInForce === 'GTT' && !(config.expiresAt && config.expiresAt > Date.now())) {
+      return { valid: false, error: 'GTT orders need an expiry in the future' };
+    }
+
     const validFeeTiers = [TRADING_CONSTANTS.FEE_TIERS.STABLE, TRADING_CONSTANTS.FEE_TIERS.STANDARD, TRADING_CONSTANTS.FEE_TIERS.VOLATILE];
     if (!validFeeTiers.includes(config.fee as 500 | 3000 | 10000)) {
       return { valid: false, error: 'Invalid fee tier' };
@@ -450,18 +517,21 @@ export class RangeOrderStrategy {
         order.config.fee
       );
 
-      if (!currentPrice) return;
+      if (currentPrice) {
+        this.updateFill(order, currentPrice);
+      }
 
-      // Check if price has moved into our range (indicating execution)
-      const priceInRange = currentPrice >= order.position.minPrice && currentPrice <= order.position.maxPrice;
+      // GTT orders are withdrawn at expiry whatever the price, keeping any partial fill
+      if (this.isExpired(order)) {
+        await this.expireOrder(order);
+        return;
+      }
 
-      if (priceInRange && order.config.autoExecute) {
-        // Price is in range - check if we should close the position
-        const shouldExecute = this.shouldExecuteOrder(order, currentPrice);
+      if (!currentPrice) return;
 
-        if (shouldExecute) {
-          await this.executeOrder(order, currentPrice);
-        }
+      // Fully crossed: withdraw before the price can come back through the range and undo the fill
+      if (order.fillPercentage >= 100 && order.config.autoExecute) {
+        await this.executeOrder(order, currentPrice);
       }
 
     } catch (error) {
@@ -470,16 +540,18 @@ export class RangeOrderStrategy {
   }
 
   /**
-   * Determine if order should be executed
+   * Record how far the price has moved through the order's range
    */
-  private shouldExecuteOrder(order: RangeOrderStatus, currentPrice: number): boolean {
-    // For range orders, we typically execute when:
-    // 1. Price reaches the target price
-    // 2. We've collected significant fees
-    // 3. The position has been partially filled
-
-    const targetReached = Math.abs(currentPrice - order.config.targetPrice) / order.config.targetPrice < 0.001; // Within 0.1%
-    return targetReached;
+  private updateFill(order: RangeOrderStatus, currentPrice: number): void {
+    if (!order.position) return;
+
+    order.fillPercentage = rangeOrderFill(order.config.direction, order.position.minPrice, order.position.maxPrice, currentPrice) * 100;
+    order.lastPrice = currentPrice;
+    order.lastCheckedAt = Date.now();
+  }
+
+  private isExpired(order: RangeOrderStatus): boolean {
+    return order.config.timeInForce === 'GTT' && order.config.expiresAt !== undefined && Date.now() >= order.config.expiresAt;
   }
 
   /**
@@ -489,21 +561,7 @@ export class RangeOrderStrategy {
     try {
       logger.info(`Executing range order: ${order.orderId} at price ${executionPrice}`);
 
-      if (!order.position) {
-        throw new Error('No position found for order');
-      }
-
-      // Collect any fees first
-      const fees = await this.liquidityManager.collectFees({
-        positionId: order.position.id
-      });
-
-      // Remove all liquidity
-      const removal = await this.liquidityManager.removeLiquidity({
-        positionId: order.position.id,
-        liquidity: order.position.liquidity,
-        slippageTolerance: order.config.slippageTolerance
-      });
+      const { fees, removal } = await this.withdrawOrder(order);
 
       // Update order status
       order.status = 'filled';
@@ -528,6 +586,54 @@ export class RangeOrderStrategy {
     }
   }
 
+  /**
+   * Withdraw an expired GTT order, partially filled or not
+   */
+  private async expireOrder(order: RangeOrderStatus): Promise<void> {
+    try {
+      logger.info(`Range order ${order.orderId} expired at ${order.fillPercentage.toFixed(1)}% filled, withdrawing`);
+
+      const { fees, removal } = await this.withdrawOrder(order);
+
+      order.status = 'expired';
+      order.expiredAt = Date.now();
+      order.amountFilled = order.config.direction === 'buy' ? removal.amount0 : removal.amount1;
+      order.fees = fees;
+
+      this.activeOrders.set(order.orderId, order);
+
+    } catch (error) {
+      // Left active so the withdrawal is retried on the next status update
+      logger.error(`Failed to withdraw expired order ${order.orderId}:`, error);
+    }
+  }
+
+  /**
+   * Collect fees and remove all liquidity from an order's position
+   */
+  private async withdrawOrder(order: RangeOrderStatus): Promise<{
+    fees: { amount0: string; amount1: string };
+    removal: { amount0: string; amount1: string };
+  }> {
+    if (!order.position) {
+      throw new Error('No position found for order');
+    }
+
+    // Collect any fees first
+    const fees = await this.liquidityManager.collectFees({
+      positionId: order.position.id
+    });
+
+    // Remove all liquidity
+    const removal = await this.liquidityManager.removeLiquidity({
+      positionId: order.position.id,
+      liquidity: order.position.liquidity,
+      slippageTolerance: order.config.slippageTolerance
+    });
+
+    return { fees, removal };
+  }
+
   /**
    * Convert LiquidityPosition to Position for compatibility
    */
@@ -587,4 +693,24 @@ export class RangeOrderStrategy {
       logger.info(`Cleaned up ${cleaned} old range orders`);
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * Share (0-1) of a range order's resting side that has converted at the current price,
+ * from the composition of the order's range. A buy order rests above the price and is fully
+ * crossed once the price is above the range; a sell order rests below it.
+ */
+export function rangeOrderFill(direction: 'buy' | 'sell', minPrice: number, maxPrice: number, currentPrice: number): number {
+  if (!(minPrice > 0) || !(maxPrice > minPrice) || !(currentPrice > 0)) return 0;
+
+  const sqrtLower = Math.sqrt(minPrice);
+  const sqrtUpper = Math.sqrt(maxPrice);
+  // One unit of liquidity: all token0 below the range, all token1 above it
+  const { amount0, amount1 } = amountsForLiquidity(Math.sqrt(currentPrice), sqrtLower, sqrtUpper, 1);
+
+  const fill = direction === 'buy'
+    ? 1 - amount0 / (1 / sqrtLower - 1 / sqrtUpper)
+    : 1 - amount1 / (sqrtUpper - sqrtLower);
+
+  return Math.min(Math.max(fill, 0), 1);
+}
+
@@ -370,6 +370,7 @@ export class WhaleCopyTradingStrategy extends EventEmitter {
 
       // Execute the trade using arbitrage executor
       const tradeResult = await this.swapExecutor.executeSwap({
+        strategy: 'whale-copy-trading',
         tokenIn: signal.signal.tokenIn,
         tokenOut: signal.signal.tokenOut,
         userAddress: this.userAddress,
@@ -453,6 +454,7 @@ export class WhaleCopyTradingStrategy extends EventEmitter {
 
       // Execute reverse trade to close position
       const exitResult = await this.swapExecutor.executeSwap({
+        strategy: 'whale-copy-trading',
         tokenIn: position.tokenOut,
         tokenOut: position.tokenIn,
         userAddress: this.userAddress,
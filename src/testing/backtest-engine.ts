@@ -18,8 +18,22 @@
  */
 
 import { TimeSeriesDB } from '../data/storage/timeseries-db';
-import { PriceHistory } from '../entities/analytics';
+import { PriceHistory, IntervalType } from '../entities/analytics';
+import { TradingConfig, getConfig } from '../config/environment';
+import { MarketAnalysis } from '../monitoring/market-analysis';
+import { PriceTracker } from '../monitoring/price-tracker';
+import { PoolDiscoveryService } from '../services/pool-discovery';
 import { logger } from '../utils/logger';
+import {
+  ReplayClock,
+  ReplayDataSource,
+  ReplayFill,
+  ReplayGSwap,
+  ReplayMarket,
+  ReplayPoolConfig,
+  ReplaySwapExecutor
+} from './replay-gswap';
+import { REPLAY_STRATEGY_FACTORIES, ReplayableStrategy, ReplayStrategyFactory } from './replay-strategies';
 // TRADING_CONSTANTS import removed - not used
 
 interface BacktestStrategy {
@@ -204,6 +218,35 @@ export interface MonthlyPerformance {
   strategy_breakdown: Record<string, number>;
 }
 
+export interface ReplayBacktestConfig {
+  // Time period
+  startTime: number;
+  endTime: number;
+
+  // Capital settings
+  initialCapital: number;
+  walletBalances?: Record<string, number>; // Enforced per-token balances; unlimited when omitted
+
+  // Replay data
+  tokens: string[]; // Token symbols with stored PriceHistory / PriceOHLCV rows
+  dataSource?: ReplayDataSource; // 'history' (default) or 'ohlcv'
+  intervalType?: IntervalType; // OHLCV granularity, defaults to 1h
+
+  // Fill model
+  pools?: ReplayPoolConfig[]; // Defaults to every token pair at defaultLiquidityUsd
+  defaultLiquidityUsd?: number;
+  includeGasCosts: boolean;
+  gasCostUsd?: number; // Per swap
+
+  // Strategy settings
+  strategies: StrategyBacktestConfig[];
+  tradingConfig?: TradingConfig; // Defaults to the live trading config
+  strategyFactories?: Record<string, ReplayStrategyFactory>; // Extends REPLAY_STRATEGY_FACTORIES
+
+  // Performance settings
+  riskFreeRate: number;
+}
+
 export interface MarketCondition {
   timestamp: number;
   condition: 'bull' | 'bear' | 'sideways' | 'volatile' | 'stable';
@@ -234,10 +277,165 @@ export class BacktestEngine {
   private trades: BacktestTrade[] = [];
   private dailyReturns: number[] = [];
   
+  private static readonly REPLAY_GAS_COST_USD = 0.02; // ~1 GALA per swap
+  private static readonly REPLAY_ZERO_LIQUIDITY_IMPACT = 0.05; // Price impact treated as zero liquidity
+
   constructor(timeSeriesDB: TimeSeriesDB) {
     this.timeSeriesDB = timeSeriesDB;
   }
 
+  /**
+   * Replay stored price rows through the production strategy classes.
+   *
+   * Each stored timestamp becomes a tick: the replay clock is set to it, prices are pushed
+   * into a PriceTracker, and every strategy scans against a simulated GSwap whose pools
+   * fill swaps from configured liquidity. Only swaps a strategy actually routes through
+   * its SwapExecutor become trades.
+   */
+  async runReplayBacktest(config: ReplayBacktestConfig): Promise<BacktestResults> {
+    const startTime = Date.now();
+    logger.info(`📼 Starting replay backtest from ${new Date(config.startTime).toISOString()} to ${new Date(config.endTime).toISOString()}`);
+
+    const backtestConfig = this.toBacktestConfig(config);
+    await this.initializeBacktest(backtestConfig);
+
+    const market = await ReplayMarket.load(this.timeSeriesDB, {
+      tokens: config.tokens,
+      startTime: config.startTime,
+      endTime: config.endTime,
+      source: config.dataSource,
+      intervalType: config.intervalType,
+      pools: config.pools,
+      defaultLiquidityUsd: config.defaultLiquidityUsd
+    });
+
+    const timeline = market.getTimeline();
+    if (timeline.length === 0) {
+      throw new Error('No stored price data available for replay period');
+    }
+
+    const gswap = new ReplayGSwap(market, config.walletBalances);
+    const clock = new ReplayClock(timeline[0]);
+    const quoteSource = gswap.quoteSource();
+    const factories = { ...REPLAY_STRATEGY_FACTORIES, ...config.strategyFactories };
+    const gasCostUsd = config.includeGasCosts ? config.gasCostUsd ?? BacktestEngine.REPLAY_GAS_COST_USD : 0;
+    const pendingFills: ReplayFill[] = [];
+    const allTrades: BacktestTrade[] = [];
+
+    market.advanceTo(timeline[0]);
+    const poolDiscovery = new PoolDiscoveryService(); // Keeps the replayed pools out of the live discovery
+    poolDiscovery.loadPools(market.toPoolData());
+
+    const priceTracker = new PriceTracker(gswap, { clock, quoteSource });
+    const marketAnalysis = new MarketAnalysis(priceTracker, gswap.asGSwap(), { clock, quoteSource, poolDiscovery });
+
+    const strategies: Array<{ name: string; instance: ReplayableStrategy }> = [];
+    for (const strategyConfig of config.strategies) {
+      if (!strategyConfig.enabled) continue;
+
+      const factory = factories[strategyConfig.strategyName];
+      if (!factory) {
+        throw new Error(`Strategy ${strategyConfig.strategyName} has no replay factory`);
+      }
+
+      const executor = new ReplaySwapExecutor(gswap, strategyConfig.strategyName, fill => pendingFills.push(fill));
+      const instance = factory({
+        gswap: gswap.asGSwap(),
+        config: config.tradingConfig || getConfig().trading,
+        swapExecutor: executor.asSwapExecutor(),
+        marketAnalysis,
+        clock,
+        quoteSource,
+        poolDiscovery,
+        parameters: strategyConfig.parameters
+      });
+      strategies.push({ name: strategyConfig.strategyName, instance });
+    }
+
+    try {
+      for (let i = 0; i < timeline.length; i++) {
+        const timestamp = timeline[i];
+        clock.set(timestamp);
+        const tick = market.advanceTo(timestamp);
+
+        tick.prices.forEach((price, token) => {
+          priceTracker.applyPriceUpdate({
+            event: 'price_update',
+            data: { token, price: price.toString(), change: 0, volume: (tick.volumes.get(token) || 0).toString() },
+            timestamp
+          });
+        });
+
+        for (const strategy of strategies) {
+          try {
+            // start() runs each strategy's own initial scan, so it stands in for the first tick
+            if (i === 0) {
+              await strategy.instance.start();
+            } else {
+              await strategy.instance.scanForOpportunities();
+            }
+          } catch (error) {
+            logger.warn(`⚠️ Replay tick failed for ${strategy.name}:`, error);
+          }
+        }
+
+        const condition = this.classifyReplayCondition(marketAnalysis);
+        const tickTrades = pendingFills.splice(0).map(fill => this.fillToTrade(fill, gasCostUsd, condition));
+        allTrades.push(...tickTrades);
+        this.updatePortfolioMetrics(tickTrades);
+      }
+    } finally {
+      for (const strategy of strategies) {
+        try {
+          await strategy.instance.stop();
+        } catch (error) {
+          logger.warn(`⚠️ Failed to stop ${strategy.name} after replay:`, error);
+        }
+      }
+    }
+
+    const strategyResults = strategies.map(strategy =>
+      this.calculateStrategyResults(strategy.name, allTrades.filter(trade => trade.strategyName === strategy.name))
+    );
+    const monthlyBreakdown = await this.calculateMonthlyBreakdown(backtestConfig, allTrades);
+
+    logger.info(`✅ Replay backtest completed in ${Date.now() - startTime}ms: ${timeline.length} ticks, ${allTrades.length} trades`);
+
+    return {
+      config: backtestConfig,
+      executionTime: Date.now() - startTime,
+      totalTrades: allTrades.length,
+      totalReturn: this.calculateTotalReturn(),
+      annualizedReturn: this.calculateAnnualizedReturn(backtestConfig),
+      monthlyReturns: monthlyBreakdown.map(month => month.return),
+      winRate: this.calculateWinRate(allTrades),
+      profitFactor: this.calculateProfitFactor(allTrades),
+      averageWin: this.calculateAverageWin(allTrades),
+      averageLoss: this.calculateAverageLoss(allTrades),
+      largestWin: this.calculateLargestWin(allTrades),
+      largestLoss: this.calculateLargestLoss(allTrades),
+      maxDrawdown: this.maxDrawdown,
+      sharpeRatio: this.calculateSharpeRatio(config.riskFreeRate),
+      sortinoRatio: this.calculateSortinoRatio(config.riskFreeRate),
+      calmarRatio: this.calculateCalmarRatio(),
+      beta: 1.0,
+      volatility: this.calculateVolatility(),
+      var95: this.calculateVaR(0.95),
+      expectedShortfall: this.calculateExpectedShortfall(0.95),
+      strategyResults,
+      validationResults: {
+        walkForwardResults: [],
+        monteCarloResults: [],
+        stressTestResults: [],
+        overfittingRisk: 0,
+        statistically_significant: allTrades.length >= 50,
+        confidenceInterval: [0, 0]
+      },
+      trades: allTrades,
+      monthlyBreakdown
+    };
+  }
+
   /**
    * Execute comprehensive backtest with all validation methodologies
    */
@@ -1029,6 +1227,64 @@ export class BacktestEngine {
     };
   }
 
+  // Expand a replay config into the full BacktestConfig reported with results
+  private toBacktestConfig(config: ReplayBacktestConfig): BacktestConfig {
+    return {
+      startTime: config.startTime,
+      endTime: config.endTime,
+      initialCapital: config.initialCapital,
+      maxPositionSize: config.tradingConfig?.maxPositionSize ?? config.initialCapital,
+      riskBudget: 100,
+      slippageModel: 'impact',
+      includeGasCosts: config.includeGasCosts,
+      includeLiquidityConstraints: true,
+      strategies: config.strategies,
+      portfolioMode: true,
+      includeGamingEvents: false,
+      seasonalPatterns: false,
+      crossGameCorrelations: false,
+      walkForwardPeriods: 0,
+      outOfSampleRatio: 0,
+      monteCarloRuns: 0,
+      riskFreeRate: config.riskFreeRate
+    };
+  }
+
+  // Convert a replay fill into a trade, valuing both legs at the tick's oracle prices
+  private fillToTrade(fill: ReplayFill, gasCostUsd: number, condition: BacktestTrade['marketCondition']): BacktestTrade {
+    const amountInUsd = fill.amountInUsd;
+    const quotedOutUsd = fill.amountOut > 0 ? fill.amountOutUsd * (fill.quotedAmountOut / fill.amountOut) : 0;
+
+    return {
+      timestamp: fill.timestamp,
+      strategyName: fill.strategyName,
+      tokenIn: fill.tokenIn,
+      tokenOut: fill.tokenOut,
+      amountIn: amountInUsd,
+      amountOut: fill.amountOutUsd,
+      expectedProfit: amountInUsd > 0 && fill.success ? (quotedOutUsd - amountInUsd) / amountInUsd : 0,
+      actualProfit: amountInUsd > 0 ? ((fill.success ? fill.amountOutUsd - amountInUsd : 0) - gasCostUsd) / amountInUsd : 0,
+      slippage: fill.priceImpact,
+      gasCost: gasCostUsd,
+      executionTime: 0,
+      success: fill.success,
+      failureReason: fill.failureReason,
+      marketCondition: condition,
+      liquidityScore: Math.max(0, 1 - fill.priceImpact / BacktestEngine.REPLAY_ZERO_LIQUIDITY_IMPACT)
+    };
+  }
+
+  // Map the live MarketAnalysis view onto backtest market condition labels
+  private classifyReplayCondition(marketAnalysis: MarketAnalysis): BacktestTrade['marketCondition'] {
+    const condition = marketAnalysis.getMarketCondition();
+    if (!condition) return 'sideways';
+    if (condition.volatility === 'high' || condition.volatility === 'extreme') return 'volatile';
+    if (condition.overall === 'bullish') return 'bull';
+    if (condition.overall === 'bearish') return 'bear';
+    if (condition.volatility === 'low') return 'stable';
+    return 'sideways';
+  }
+
   // Performance calculation methods
   private calculateTotalReturn(): number {
     return (this.currentCapital / this.peakCapital) - 1;
@@ -0,0 +1,906 @@
+/**
+ * Paper GSwap
+ *
+ * Paper-trading exchange behind the GSwap interface, for running the full engine on fake money:
+ * - PaperPool holds V3 concentrated-liquidity state (sqrt price, tick, liquidity ranges) and steps
+ *   swaps across initialized ticks with the tick math in utils/price-math
+ * - PaperGSwap keeps virtual wallet balances and liquidity positions, and fails swaps and
+ *   liquidity operations the way the chain would (balance, slippage, liquidity, tick range)
+ * - Pools are anchored to live quotes in dry-run mode, or to a tape of recorded quotes when replaying
+ */
+
+import { randomUUID } from 'crypto';
+import { GSwap } from '../services/gswap-simple';
+import { TradeRecord } from '../entities/TradeRecord';
+import { TokenClassKey } from '../types/galaswap';
+import { logger } from '../utils/logger';
+import {
+  MAX_TICK,
+  MIN_TICK,
+  amountsForLiquidity,
+  computeSwapStep,
+  liquidityForAmounts,
+  priceToTick,
+  sqrtPriceToTick,
+  tickToSqrtPrice
+} from '../utils/price-math';
+import { QuoteResult, QuoteSource } from '../utils/quote-api';
+import { safeParseFloat } from '../utils/safe-parse';
+import { replaySymbol } from './replay-gswap';
+
+export interface PaperPoolConfig {
+  token0: string; // Token symbol; token0/token1 are re-sorted like the chain sorts them
+  token1: string;
+  fee: number; // Fee tier in hundredths of a bip (500, 3000, 10000)
+  price: number; // token1 per token0
+  liquidity: number; // Market liquidity outside the paper wallet, spread over the full tick range
+}
+
+/**
+ * A quote as seen on the live API; the sqrt prices are the pool's decimal sqrt price (token1 per token0)
+ */
+export interface RecordedQuote {
+  timestamp: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  fee: number;
+  currentSqrtPrice?: number;
+  newSqrtPrice?: number;
+}
+
+export interface PaperGSwapOptions {
+  walletAddress?: string;
+  balances?: Record<string, number>; // Starting balances by symbol
+  pools?: PaperPoolConfig[];
+  quoteSource?: QuoteSource; // Live quotes to anchor pools to (dry-run); omit to trade against configured or replayed pools
+  defaultLiquidity?: number; // Liquidity for pools first seen in a quote that does not reveal it
+}
+
+export interface PaperPosition {
+  positionId: string;
+  owner: string;
+  token0: string;
+  token1: string;
+  fee: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: number;
+  tokensOwed0: number;
+  tokensOwed1: number;
+  createdAt: number;
+}
+
+export interface PaperFill {
+  transactionId: string;
+  timestamp: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  fee: number;
+  priceImpact: number; // Fraction, 0.01 = 1%
+  success: boolean;
+  failureReason?: string;
+}
+
+export interface PaperSwapQuote {
+  amountOut: number;
+  feePaid: number; // In tokenIn
+  sqrtPriceBefore: number;
+  sqrtPriceAfter: number;
+  priceImpact: number; // Fraction, 0.01 = 1%
+}
+
+export class PaperError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'PaperError';
+  }
+}
+
+interface SwapStepFee {
+  tick: number;
+  liquidity: number;
+  fee: number;
+}
+
+const DEFAULT_LIQUIDITY = 1_000_000;
+
+function tokenString(token: string | TokenClassKey): string {
+  return typeof token === 'string'
+    ? token
+    : `${token.collection}|${token.category}|${token.type}|${token.additionalKey}`;
+}
+
+/**
+ * Tick spacing the chain enforces per fee tier
+ */
+export function paperTickSpacing(fee: number): number {
+  switch (fee) {
+    case 500: return 10;
+    case 3000: return 60;
+    case 10000: return 200;
+    default: return 60;
+  }
+}
+
+/**
+ * One V3 pool: full-range market liquidity plus the paper wallet's ranges
+ */
+export class PaperPool {
+  readonly token0: string;
+  readonly token1: string;
+  readonly fee: number;
+  private sqrtPrice: number;
+  private tick: number;
+  private marketLiquidity: number;
+  private positions: PaperPosition[] = [];
+
+  constructor(config: PaperPoolConfig) {
+    const [token0, token1] = [replaySymbol(config.token0), replaySymbol(config.token1)];
+    const inverted = token0 > token1;
+
+    this.token0 = inverted ? token1 : token0;
+    this.token1 = inverted ? token0 : token1;
+    this.fee = config.fee;
+    this.sqrtPrice = Math.sqrt(inverted ? 1 / config.price : config.price);
+    this.tick = sqrtPriceToTick(this.sqrtPrice);
+    this.marketLiquidity = config.liquidity;
+  }
+
+  static key(tokenA: string, tokenB: string, fee: number): string {
+    const [token0, token1] = [replaySymbol(tokenA), replaySymbol(tokenB)].sort();
+    return `${token0}/${token1}/${fee}`;
+  }
+
+  getKey(): string {
+    return `${this.token0}/${this.token1}/${this.fee}`;
+  }
+
+  getSqrtPrice(): number {
+    return this.sqrtPrice;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * token1 per token0
+   */
+  getPrice(): number {
+    return this.sqrtPrice * this.sqrtPrice;
+  }
+
+  /**
+   * Liquidity available to a swap at the current tick
+   */
+  getActiveLiquidity(): number {
+    return this.liquidityAt(this.tick);
+  }
+
+  getMarketLiquidity(): number {
+    return this.marketLiquidity;
+  }
+
+  /**
+   * Move the pool to an observed market state; our own ranges stay on top of the market's liquidity
+   */
+  anchor(sqrtPrice: number, marketLiquidity?: number): void {
+    this.sqrtPrice = sqrtPrice;
+    this.tick = sqrtPriceToTick(sqrtPrice);
+    if (marketLiquidity !== undefined && marketLiquidity >= 0 && isFinite(marketLiquidity)) {
+      this.marketLiquidity = marketLiquidity;
+    }
+  }
+
+  /**
+   * Exact-input quote without moving the pool
+   */
+  quote(tokenIn: string, amountIn: number): PaperSwapQuote {
+    return this.simulate(replaySymbol(tokenIn) === this.token0, amountIn).quote;
+  }
+
+  /**
+   * Exact-input swap: moves the price across ticks and pays fees to in-range paper positions
+   */
+  swap(tokenIn: string, amountIn: number): PaperSwapQuote {
+    const zeroForOne = replaySymbol(tokenIn) === this.token0;
+    const { quote, tick, fees } = this.simulate(zeroForOne, amountIn);
+
+    for (const step of fees) {
+      for (const position of this.positions) {
+        if (position.liquidity > 0 && position.tickLower <= step.tick && step.tick < position.tickUpper) {
+          const share = step.fee * position.liquidity / step.liquidity;
+          if (zeroForOne) position.tokensOwed0 += share;
+          else position.tokensOwed1 += share;
+        }
+      }
+    }
+
+    this.sqrtPrice = quote.sqrtPriceAfter;
+    this.tick = tick;
+    return quote;
+  }
+
+  addPosition(position: PaperPosition): void {
+    this.positions.push(position);
+  }
+
+  removePosition(positionId: string): void {
+    this.positions = this.positions.filter(position => position.positionId !== positionId);
+  }
+
+  private liquidityAt(tick: number): number {
+    let liquidity = tick >= MIN_TICK && tick < MAX_TICK ? this.marketLiquidity : 0;
+    for (const position of this.positions) {
+      if (position.tickLower <= tick && tick < position.tickUpper) {
+        liquidity += position.liquidity;
+      }
+    }
+    return liquidity;
+  }
+
+  private boundaries(): number[] {
+    const ticks = new Set<number>([MIN_TICK, MAX_TICK]);
+    for (const position of this.positions) {
+      if (position.liquidity > 0) {
+        ticks.add(position.tickLower);
+        ticks.add(position.tickUpper);
+      }
+    }
+    return Array.from(ticks).sort((a, b) => a - b);
+  }
+
+  /**
+   * Walk the swap across initialized ticks, one constant-liquidity step at a time
+   */
+  private simulate(zeroForOne: boolean, amountIn: number): { quote: PaperSwapQuote; tick: number; fees: SwapStepFee[] } {
+    if (!(amountIn > 0) || !isFinite(amountIn)) {
+      throw new PaperError(`Invalid amount: ${amountIn}`, 'INVALID_AMOUNT');
+    }
+
+    const feeRate = this.fee / 1_000_000;
+    const boundaries = this.boundaries();
+    const sqrtPriceBefore = this.sqrtPrice;
+    const fees: SwapStepFee[] = [];
+    let sqrtPrice = this.sqrtPrice;
+    let tick = this.tick;
+    let remaining = amountIn;
+    let amountOut = 0;
+    let feePaid = 0;
+
+    while (remaining > 0) {
+      const boundary = zeroForOne
+        ? [...boundaries].reverse().find(b => b <= tick)
+        : boundaries.find(b => b > tick);
+
+      if (boundary === undefined) {
+        throw new PaperError(`Not enough liquidity in ${this.getKey()} to fill ${amountIn}`, 'INSUFFICIENT_LIQUIDITY');
+      }
+
+      const liquidity = this.liquidityAt(tick);
+      const target = tickToSqrtPrice(boundary);
+
+      // Nothing to trade against until the next initialized tick
+      if (liquidity <= 0) {
+        sqrtPrice = target;
+        tick = zeroForOne ? boundary - 1 : boundary;
+        continue;
+      }
+
+      const step = computeSwapStep(sqrtPrice, target, liquidity, remaining, feeRate, true);
+      amountOut += step.amountOut;
+      fees.push({ tick, liquidity, fee: step.feeAmount });
+      feePaid += step.feeAmount;
+
+      if (step.sqrtPriceNext === target) {
+        remaining -= step.amountIn + step.feeAmount;
+        sqrtPrice = target;
+        tick = zeroForOne ? boundary - 1 : boundary;
+      } else {
+        remaining = 0;
+        sqrtPrice = step.sqrtPriceNext;
+        tick = zeroForOne ? Math.max(boundary, sqrtPriceToTick(sqrtPrice)) : Math.min(boundary - 1, sqrtPriceToTick(sqrtPrice));
+      }
+    }
+
+    const midAmountOut = zeroForOne ? amountIn * sqrtPriceBefore * sqrtPriceBefore : amountIn / (sqrtPriceBefore * sqrtPriceBefore);
+
+    return {
+      quote: {
+        amountOut,
+        feePaid,
+        sqrtPriceBefore,
+        sqrtPriceAfter: sqrtPrice,
+        priceImpact: midAmountOut > 0 ? Math.max(0, 1 - amountOut / midAmountOut) : 0
+      },
+      tick,
+      fees
+    };
+  }
+}
+
+/**
+ * Simulated GSwap: the quoting/swaps/assets/pools/positions/events surface the engine calls
+ */
+export class PaperGSwap {
+  private balances: Map<string, number> = new Map();
+  private poolStates: Map<string, PaperPool> = new Map();
+  private openPositions: Map<string, PaperPosition> = new Map();
+  private fills: Map<string, PaperFill> = new Map();
+  private liquidityTransactions: Set<string> = new Set();
+  private recordedQuotes: RecordedQuote[] = [];
+  private tape: RecordedQuote[] = [];
+  private tapeCursor = 0;
+  private txCounter = 0;
+  private readonly walletAddress: string;
+  private readonly defaultLiquidity: number;
+
+  readonly quoting = {
+    quoteExactInput: async (tokenIn: string | TokenClassKey, tokenOut: string | TokenClassKey, amountIn: number | string): Promise<QuoteResult> => {
+      const amount = safeParseFloat(amountIn, 0);
+
+      if (this.options.quoteSource) {
+        const live = await this.options.quoteSource.quoteExactInput(tokenString(tokenIn), tokenString(tokenOut), amount);
+        const recorded: RecordedQuote = {
+          timestamp: Date.now(),
+          tokenIn: replaySymbol(tokenIn),
+          tokenOut: replaySymbol(tokenOut),
+          amountIn: amount,
+          amountOut: safeParseFloat(live.outTokenAmount, 0),
+          fee: live.feeTier || live.fee || 3000,
+          currentSqrtPrice: live.currentPoolSqrtPrice ? safeParseFloat(live.currentPoolSqrtPrice, 0) : undefined,
+          newSqrtPrice: live.newPoolSqrtPrice ? safeParseFloat(live.newPoolSqrtPrice, 0) : undefined
+        };
+        this.recordedQuotes.push(recorded);
+        this.applyQuote(recorded);
+      }
+
+      const { pool, quote } = this.bestPool(tokenIn, tokenOut, amount);
+      return {
+        outTokenAmount: quote.amountOut.toString(),
+        priceImpact: quote.priceImpact * 100,
+        feeTier: pool.fee,
+        fee: pool.fee,
+        currentPoolSqrtPrice: quote.sqrtPriceBefore.toString(),
+        newPoolSqrtPrice: quote.sqrtPriceAfter.toString()
+      };
+    }
+  };
+
+  readonly swaps = {
+    swap: async (
+      tokenIn: string | TokenClassKey,
+      tokenOut: string | TokenClassKey,
+      fee: number,
+      amount: { exactIn: string | number; amountOutMinimum?: string | number },
+      _walletAddress?: string
+    ) => {
+      const fill = this.executeSwap(tokenIn, tokenOut, safeParseFloat(amount.exactIn, 0), safeParseFloat(amount.amountOutMinimum ?? 0, 0), fee);
+      return {
+        transactionId: fill.transactionId,
+        wait: async () => {
+          if (!fill.success) {
+            throw new PaperError(`Swap failed: ${fill.failureReason}`, 'SWAP_FAILED');
+          }
+          return { txId: fill.transactionId, transactionHash: fill.transactionId, status: 'CONFIRMED' };
+        }
+      };
+    }
+  };
+
+  readonly assets = {
+    getUserAssets: async (_walletAddress: string, page: number = 1, limit: number = 20) => {
+      const tokens = Array.from(this.balances.entries())
+        .filter(([, quantity]) => quantity > 0)
+        .map(([symbol, quantity]) => ({ symbol, name: symbol, quantity: quantity.toString(), decimals: 8 }));
+      return {
+        tokens: tokens.slice((page - 1) * limit, page * limit),
+        count: tokens.length
+      };
+    }
+  };
+
+  readonly pools = {
+    getPoolData: async (tokenA: string | TokenClassKey, tokenB: string | TokenClassKey, fee: number) => {
+      const pool = this.poolStates.get(PaperPool.key(replaySymbol(tokenA), replaySymbol(tokenB), fee));
+      if (!pool) {
+        throw new PaperError(`No pool for ${replaySymbol(tokenA)}/${replaySymbol(tokenB)} at fee ${fee}`, 'NO_POOL');
+      }
+      return {
+        token0: pool.token0,
+        token1: pool.token1,
+        fee: pool.fee,
+        sqrtPrice: pool.getSqrtPrice().toString(),
+        tick: pool.getTick(),
+        liquidity: pool.getActiveLiquidity().toString(),
+        tickSpacing: paperTickSpacing(pool.fee)
+      };
+    },
+    /**
+     * Price of tokenA in tokenB from a pool's decimal sqrt price
+     */
+    calculateSpotPrice: (tokenA: string | TokenClassKey, tokenB: string | TokenClassKey, sqrtPrice: string | number): number => {
+      const price = Math.pow(safeParseFloat(sqrtPrice, 0), 2);
+      if (price <= 0) return 0;
+      return replaySymbol(tokenA) <= replaySymbol(tokenB) ? price : 1 / price;
+    }
+  };
+
+  readonly positions = {
+    getUserPositions: async (ownerAddress: string, limit: number = 20, bookmark?: string) => {
+      const owned = Array.from(this.openPositions.values()).filter(position => position.owner === ownerAddress);
+      const start = bookmark ? safeParseFloat(bookmark, 0) : 0;
+      const page = owned.slice(start, start + limit);
+      return {
+        bookmark: start + limit < owned.length ? String(start + limit) : '',
+        positions: page.map(position => this.positionView(position))
+      };
+    },
+    getPositionById: async (ownerAddress: string, positionId: string) => {
+      const position = this.openPositions.get(positionId);
+      return position && position.owner === ownerAddress ? this.positionView(position) : undefined;
+    },
+    addLiquidityByTicks: async (params: {
+      token0: string | TokenClassKey;
+      token1: string | TokenClassKey;
+      fee: number;
+      tickLower: number;
+      tickUpper: number;
+      amount0Desired: string | number;
+      amount1Desired: string | number;
+      amount0Min?: string | number;
+      amount1Min?: string | number;
+      positionId?: string;
+    }) => this.transaction(() => this.mint(params)),
+    addLiquidityByPrice: async (params: {
+      token0: string | TokenClassKey;
+      token1: string | TokenClassKey;
+      fee: number;
+      tickSpacing?: number;
+      minPrice: string | number;
+      maxPrice: string | number;
+      amount0Desired: string | number;
+      amount1Desired: string | number;
+      amount0Min?: string | number;
+      amount1Min?: string | number;
+      positionId?: string;
+    }) => {
+      const spacing = params.tickSpacing || paperTickSpacing(params.fee);
+      const tickLower = Math.floor(priceToTick(safeParseFloat(params.minPrice, 0)) / spacing) * spacing;
+      const tickUpper = Math.ceil(priceToTick(safeParseFloat(params.maxPrice, 0)) / spacing) * spacing;
+      return this.transaction(() => this.mint({ ...params, tickLower, tickUpper }));
+    },
+    removeLiquidity: async (params: {
+      positionId: string;
+      amount: string | number; // Liquidity to burn
+      amount0Min?: string | number;
+      amount1Min?: string | number;
+    }) => this.transaction(() => this.burn(params.positionId, safeParseFloat(params.amount, 0), params.amount0Min, params.amount1Min)),
+    collectPositionFees: async (params: {
+      positionId: string;
+      amount0Requested?: string | number;
+      amount1Requested?: string | number;
+    }) => this.transaction(() => this.collect(params.positionId, params.amount0Requested, params.amount1Requested))
+  };
+
+  readonly events = {
+    wait: async (transactionId: string) => {
+      const fill = this.fills.get(transactionId);
+      if (this.liquidityTransactions.has(transactionId)) {
+        return { txId: transactionId, transactionHash: transactionId, Data: { status: 'CONFIRMED' } };
+      }
+      if (!fill) {
+        throw new PaperError(`Unknown transaction ${transactionId}`, 'UNKNOWN_TX');
+      }
+      if (!fill.success) {
+        throw new PaperError(`Transaction ${transactionId} failed: ${fill.failureReason}`, 'SWAP_FAILED');
+      }
+      return { txId: transactionId, transactionHash: transactionId, Data: { status: 'CONFIRMED' } };
+    },
+    connectEventSocket: async () => undefined,
+    disconnectEventSocket: () => undefined,
+    eventSocketConnected: () => false
+  };
+
+  constructor(private options: PaperGSwapOptions = {}) {
+    this.walletAddress = options.walletAddress || 'eth|0x0000000000000000000000000000000000000000';
+    this.defaultLiquidity = options.defaultLiquidity ?? DEFAULT_LIQUIDITY;
+
+    for (const [token, amount] of Object.entries(options.balances || {})) {
+      this.balances.set(replaySymbol(token), amount);
+    }
+    for (const config of options.pools || []) {
+      this.addPool(config);
+    }
+  }
+
+  /**
+   * Drop-in replacement for the createQuoteWrapper() object held by engine components
+   */
+  quoteWrapper(): { quoteExactInput: PaperGSwap['quoting']['quoteExactInput'] } {
+    return { quoteExactInput: this.quoting.quoteExactInput };
+  }
+
+  /**
+   * View this simulator through the GSwap type the engine and strategies expect
+   */
+  asGSwap(): GSwap {
+    return this as unknown as GSwap;
+  }
+
+  addPool(config: PaperPoolConfig): PaperPool {
+    const pool = new PaperPool(config);
+    this.poolStates.set(pool.getKey(), pool);
+    return pool;
+  }
+
+  getPool(tokenA: string, tokenB: string, fee: number): PaperPool | undefined {
+    return this.poolStates.get(PaperPool.key(tokenA, tokenB, fee));
+  }
+
+  getBalance(token: string | TokenClassKey): number {
+    return this.balances.get(replaySymbol(token)) || 0;
+  }
+
+  getBalances(): Record<string, number> {
+    return Object.fromEntries(this.balances);
+  }
+
+  getFill(transactionId: string): PaperFill | undefined {
+    return this.fills.get(transactionId);
+  }
+
+  getFills(): PaperFill[] {
+    return Array.from(this.fills.values());
+  }
+
+  /**
+   * Live quotes seen so far, in a form loadRecordedQuotes() can replay
+   */
+  getRecordedQuotes(): RecordedQuote[] {
+    return [...this.recordedQuotes];
+  }
+
+  /**
+   * Queue recorded quotes; advanceTo() applies them to the pools in time order
+   */
+  loadRecordedQuotes(quotes: RecordedQuote[]): void {
+    this.tape = [...this.tape.slice(this.tapeCursor), ...quotes].sort((a, b) => a.timestamp - b.timestamp);
+    this.tapeCursor = 0;
+  }
+
+  /**
+   * Apply every queued recorded quote at or before the timestamp; returns how many were applied
+   */
+  advanceTo(timestamp: number): number {
+    let applied = 0;
+    while (this.tapeCursor < this.tape.length && this.tape[this.tapeCursor].timestamp <= timestamp) {
+      this.applyQuote(this.tape[this.tapeCursor++]);
+      applied++;
+    }
+    return applied;
+  }
+
+  /**
+   * Move (or create) the quoted pool to the market state the quote reveals.
+   * The current sqrt price sets the price; the move to the new sqrt price sets the active liquidity.
+   */
+  applyQuote(quote: RecordedQuote): void {
+    const symbolIn = replaySymbol(quote.tokenIn);
+    const symbolOut = replaySymbol(quote.tokenOut);
+    const zeroForOne = symbolIn < symbolOut;
+    const netIn = quote.amountIn * (1 - quote.fee / 1_000_000);
+
+    let sqrtPrice = quote.currentSqrtPrice;
+    if (!sqrtPrice || sqrtPrice <= 0) {
+      if (!(quote.amountIn > 0) || !(quote.amountOut > 0)) return;
+      const executionPrice = quote.amountOut / netIn;
+      sqrtPrice = Math.sqrt(zeroForOne ? executionPrice : 1 / executionPrice);
+    }
+
+    let liquidity: number | undefined;
+    if (quote.newSqrtPrice && quote.newSqrtPrice > 0 && quote.newSqrtPrice !== sqrtPrice && netIn > 0) {
+      liquidity = zeroForOne
+        ? netIn / (1 / quote.newSqrtPrice - 1 / sqrtPrice)
+        : netIn / (quote.newSqrtPrice - sqrtPrice);
+      if (!(liquidity > 0)) liquidity = undefined;
+    }
+
+    const existing = this.poolStates.get(PaperPool.key(symbolIn, symbolOut, quote.fee));
+    if (existing) {
+      existing.anchor(sqrtPrice, liquidity);
+      return;
+    }
+
+    const [token0, token1] = zeroForOne ? [symbolIn, symbolOut] : [symbolOut, symbolIn];
+    this.addPool({ token0, token1, fee: quote.fee, price: sqrtPrice * sqrtPrice, liquidity: liquidity ?? this.defaultLiquidity });
+    logger.debug(`📝 Paper pool ${token0}/${token1}/${quote.fee} created from quote`);
+  }
+
+  /**
+   * Fill a swap against the paper pools, enforcing balance and minimum output
+   */
+  executeSwap(
+    tokenIn: string | TokenClassKey,
+    tokenOut: string | TokenClassKey,
+    amountIn: number,
+    amountOutMinimum: number = 0,
+    fee?: number
+  ): PaperFill {
+    const symbolIn = replaySymbol(tokenIn);
+    const symbolOut = replaySymbol(tokenOut);
+    const fill: PaperFill = {
+      transactionId: `paper-${++this.txCounter}-${randomUUID().slice(0, 8)}`,
+      timestamp: Date.now(),
+      tokenIn: symbolIn,
+      tokenOut: symbolOut,
+      amountIn,
+      amountOut: 0,
+      fee: fee || 0,
+      priceImpact: 0,
+      success: false
+    };
+
+    try {
+      const available = this.getBalance(symbolIn);
+      if (available < amountIn) {
+        throw new PaperError(`Insufficient ${symbolIn} balance: ${available} < ${amountIn}`, 'INSUFFICIENT_BALANCE');
+      }
+
+      const { pool } = this.bestPool(symbolIn, symbolOut, amountIn, fee);
+      const quoted = pool.quote(symbolIn, amountIn);
+      if (quoted.amountOut < amountOutMinimum) {
+        throw new PaperError(`Output ${quoted.amountOut} below minimum ${amountOutMinimum}`, 'SLIPPAGE');
+      }
+
+      const filled = pool.swap(symbolIn, amountIn);
+      this.credit(symbolIn, -amountIn);
+      this.credit(symbolOut, filled.amountOut);
+
+      Object.assign(fill, { amountOut: filled.amountOut, fee: pool.fee, priceImpact: filled.priceImpact, success: true });
+      logger.info(`📝 Paper swap ${amountIn} ${symbolIn} → ${filled.amountOut.toFixed(6)} ${symbolOut} (${fill.transactionId})`);
+    } catch (error) {
+      fill.failureReason = error instanceof Error ? error.message : String(error);
+      logger.warn(`📝 Paper swap ${symbolIn} → ${symbolOut} failed: ${fill.failureReason}`);
+    }
+
+    this.fills.set(fill.transactionId, fill);
+    return fill;
+  }
+
+  private bestPool(
+    tokenIn: string | TokenClassKey,
+    tokenOut: string | TokenClassKey,
+    amountIn: number,
+    fee?: number
+  ): { pool: PaperPool; quote: PaperSwapQuote } {
+    const symbolIn = replaySymbol(tokenIn);
+    const symbolOut = replaySymbol(tokenOut);
+    const [token0, token1] = [symbolIn, symbolOut].sort();
+
+    let best: { pool: PaperPool; quote: PaperSwapQuote } | null = null;
+    let lastError: unknown = null;
+
+    for (const pool of this.poolStates.values()) {
+      if (pool.token0 !== token0 || pool.token1 !== token1 || (fee !== undefined && pool.fee !== fee)) continue;
+      try {
+        const quote = pool.quote(symbolIn, amountIn);
+        if (!best || quote.amountOut > best.quote.amountOut) {
+          best = { pool, quote };
+        }
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    if (!best) {
+      throw lastError || new PaperError(`No pools found for ${symbolIn} → ${symbolOut}`, 'NO_POOL');
+    }
+
+    return best;
+  }
+
+  private mint(params: {
+    token0: string | TokenClassKey;
+    token1: string | TokenClassKey;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    amount0Desired: string | number;
+    amount1Desired: string | number;
+    amount0Min?: string | number;
+    amount1Min?: string | number;
+    positionId?: string;
+  }): { positionId: string; liquidity: string; amount0: string; amount1: string } {
+    const pool = this.poolStates.get(PaperPool.key(replaySymbol(params.token0), replaySymbol(params.token1), params.fee));
+    if (!pool) {
+      throw new PaperError(`No pool for ${replaySymbol(params.token0)}/${replaySymbol(params.token1)} at fee ${params.fee}`, 'NO_POOL');
+    }
+
+    const spacing = paperTickSpacing(params.fee);
+    const { tickLower, tickUpper } = params;
+    if (!(tickLower < tickUpper) || tickLower < MIN_TICK || tickUpper > MAX_TICK ||
+        tickLower % spacing !== 0 || tickUpper % spacing !== 0) {
+      throw new PaperError(`Invalid tick range [${tickLower}, ${tickUpper}] for spacing ${spacing}`, 'INVALID_TICKS');
+    }
+
+    // Desired amounts are given in the caller's token order
+    const inverted = replaySymbol(params.token0) !== pool.token0;
+    const desired0 = safeParseFloat(inverted ? params.amount1Desired : params.amount0Desired, 0);
+    const desired1 = safeParseFloat(inverted ? params.amount0Desired : params.amount1Desired, 0);
+    const min0 = safeParseFloat((inverted ? params.amount1Min : params.amount0Min) ?? 0, 0);
+    const min1 = safeParseFloat((inverted ? params.amount0Min : params.amount1Min) ?? 0, 0);
+
+    const sqrtLower = tickToSqrtPrice(tickLower);
+    const sqrtUpper = tickToSqrtPrice(tickUpper);
+    const liquidity = liquidityForAmounts(pool.getSqrtPrice(), sqrtLower, sqrtUpper, desired0, desired1);
+    if (!(liquidity > 0) || !isFinite(liquidity)) {
+      throw new PaperError('Desired amounts mint no liquidity at the current price', 'ZERO_LIQUIDITY');
+    }
+
+    const { amount0, amount1 } = amountsForLiquidity(pool.getSqrtPrice(), sqrtLower, sqrtUpper, liquidity);
+    if (amount0 < min0 || amount1 < min1) {
+      throw new PaperError(`Deposit ${amount0}/${amount1} below minimum ${min0}/${min1}`, 'SLIPPAGE');
+    }
+    if (this.getBalance(pool.token0) < amount0 || this.getBalance(pool.token1) < amount1) {
+      throw new PaperError(`Insufficient balance to deposit ${amount0} ${pool.token0} and ${amount1} ${pool.token1}`, 'INSUFFICIENT_BALANCE');
+    }
+
+    this.credit(pool.token0, -amount0);
+    this.credit(pool.token1, -amount1);
+
+    const existing = params.positionId ? this.openPositions.get(params.positionId) : undefined;
+    if (existing) {
+      if (existing.tickLower !== tickLower || existing.tickUpper !== tickUpper || PaperPool.key(existing.token0, existing.token1, existing.fee) !== pool.getKey()) {
+        throw new PaperError(`Position ${existing.positionId} has a different pool or range`, 'POSITION_MISMATCH');
+      }
+      existing.liquidity += liquidity;
+      return { positionId: existing.positionId, liquidity: liquidity.toString(), amount0: amount0.toString(), amount1: amount1.toString() };
+    }
+
+    const position: PaperPosition = {
+      positionId: params.positionId || `paper-pos-${randomUUID()}`,
+      owner: this.walletAddress,
+      token0: pool.token0,
+      token1: pool.token1,
+      fee: pool.fee,
+      tickLower,
+      tickUpper,
+      liquidity,
+      tokensOwed0: 0,
+      tokensOwed1: 0,
+      createdAt: Date.now()
+    };
+    this.openPositions.set(position.positionId, position);
+    pool.addPosition(position);
+
+    return { positionId: position.positionId, liquidity: liquidity.toString(), amount0: amount0.toString(), amount1: amount1.toString() };
+  }
+
+  private burn(
+    positionId: string,
+    amount: number,
+    amount0Min?: string | number,
+    amount1Min?: string | number
+  ): { positionId: string; amount0: string; amount1: string } {
+    const { position, pool } = this.requirePosition(positionId);
+    if (!(amount > 0) || amount > position.liquidity * (1 + 1e-9)) {
+      throw new PaperError(`Cannot remove ${amount} liquidity from position holding ${position.liquidity}`, 'INVALID_AMOUNT');
+    }
+
+    const burned = Math.min(amount, position.liquidity);
+    const { amount0, amount1 } = amountsForLiquidity(pool.getSqrtPrice(), tickToSqrtPrice(position.tickLower), tickToSqrtPrice(position.tickUpper), burned);
+    if (amount0 < safeParseFloat(amount0Min ?? 0, 0) || amount1 < safeParseFloat(amount1Min ?? 0, 0)) {
+      throw new PaperError(`Withdrawal ${amount0}/${amount1} below minimum`, 'SLIPPAGE');
+    }
+
+    // Like the chain, withdrawn principal is owed to the position until collected
+    position.liquidity -= burned;
+    position.tokensOwed0 += amount0;
+    position.tokensOwed1 += amount1;
+
+    return { positionId, amount0: amount0.toString(), amount1: amount1.toString() };
+  }
+
+  private collect(
+    positionId: string,
+    amount0Requested?: string | number,
+    amount1Requested?: string | number
+  ): { positionId: string; amount0: string; amount1: string } {
+    const { position, pool } = this.requirePosition(positionId);
+    const amount0 = Math.min(position.tokensOwed0, amount0Requested !== undefined ? safeParseFloat(amount0Requested, 0) : Infinity);
+    const amount1 = Math.min(position.tokensOwed1, amount1Requested !== undefined ? safeParseFloat(amount1Requested, 0) : Infinity);
+
+    position.tokensOwed0 -= amount0;
+    position.tokensOwed1 -= amount1;
+    this.credit(position.token0, amount0);
+    this.credit(position.token1, amount1);
+
+    if (position.liquidity <= 0 && position.tokensOwed0 <= 0 && position.tokensOwed1 <= 0) {
+      this.openPositions.delete(positionId);
+      pool.removePosition(positionId);
+    }
+
+    return { positionId, amount0: amount0.toString(), amount1: amount1.toString() };
+  }
+
+  private requirePosition(positionId: string): { position: PaperPosition; pool: PaperPool } {
+    const position = this.openPositions.get(positionId);
+    const pool = position && this.poolStates.get(PaperPool.key(position.token0, position.token1, position.fee));
+    if (!position || !pool) {
+      throw new PaperError(`Unknown position ${positionId}`, 'UNKNOWN_POSITION');
+    }
+    return { position, pool };
+  }
+
+  /**
+   * Liquidity operations settle immediately; failures surface from wait() like a rejected transaction
+   */
+  private async transaction<T>(operation: () => T): Promise<T & { transactionId: string; wait: () => Promise<{ txId: string; transactionHash: string }> }> {
+    const result = operation();
+    const transactionId = `paper-${++this.txCounter}-${randomUUID().slice(0, 8)}`;
+    this.liquidityTransactions.add(transactionId);
+    return {
+      ...result,
+      transactionId,
+      wait: async () => ({ txId: transactionId, transactionHash: transactionId })
+    };
+  }
+
+  private credit(symbol: string, amount: number): void {
+    this.balances.set(symbol, (this.balances.get(symbol) || 0) + amount);
+  }
+
+  private positionView(position: PaperPosition) {
+    const pool = this.poolStates.get(PaperPool.key(position.token0, position.token1, position.fee));
+    const { amount0, amount1 } = pool
+      ? amountsForLiquidity(pool.getSqrtPrice(), tickToSqrtPrice(position.tickLower), tickToSqrtPrice(position.tickUpper), position.liquidity)
+      : { amount0: 0, amount1: 0 };
+
+    return {
+      positionId: position.positionId,
+      id: position.positionId,
+      token0Symbol: position.token0,
+      token1Symbol: position.token1,
+      fee: position.fee,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      liquidity: position.liquidity.toString(),
+      amount0: amount0.toString(),
+      amount1: amount1.toString(),
+      tokensOwed0: position.tokensOwed0.toString(),
+      tokensOwed1: position.tokensOwed1.toString(),
+      inRange: pool ? position.tickLower <= pool.getTick() && pool.getTick() < position.tickUpper : false
+    };
+  }
+}
+
+/**
+ * Recorded quotes from the trade journal's QUOTED step, for replaying a live session against paper pools
+ */
+export function recordedQuotesFromJournal(records: TradeRecord[]): RecordedQuote[] {
+  const quotes: RecordedQuote[] = [];
+
+  for (const record of records) {
+    const quote = record.quote;
+    if (!quote) continue;
+
+    const quoted = record.transitions?.find(transition => transition.status === 'QUOTED');
+    quotes.push({
+      timestamp: quoted?.timestamp ?? new Date(record.createdAt).getTime(),
+      tokenIn: replaySymbol(record.tokenIn),
+      tokenOut: replaySymbol(record.tokenOut),
+      amountIn: safeParseFloat(record.amountIn, 0),
+      amountOut: safeParseFloat(quote.amountOut as string, 0),
+      fee: safeParseFloat(quote.fee as number, 3000),
+      currentSqrtPrice: safeParseFloat(quote.currentSqrtPrice as string, 0) || undefined,
+      newSqrtPrice: safeParseFloat(quote.newSqrtPrice as string, 0) || undefined
+    });
+  }
+
+  return quotes.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,606 @@
+/**
+ * Replay GSwap Simulator
+ *
+ * Historical market replay for running production strategy classes offline:
+ * - ReplayMarket steps through stored PriceHistory / PriceOHLCV rows tick by tick
+ * - Pools are modeled as constant-product reserves sized from configured USD liquidity
+ * - ReplayGSwap exposes the quoting/swaps/assets/events surface strategies call on GSwap
+ * - ReplaySwapExecutor fills SwapExecutor requests against the simulated pools
+ * - ReplayClock is the Clock handed to replayed components, set to the tick being replayed
+ */
+
+import { TimeSeriesDB } from '../data/storage/timeseries-db';
+import { IntervalType } from '../entities/analytics';
+import { GSwap } from '../services/gswap-simple';
+import { PoolData } from '../services/pool-discovery';
+import { SwapExecutor, SwapRequest, SwapResult, TransactionMonitoringResult } from '../trading/execution/swap-executor';
+import { TokenClassKey } from '../types/galaswap';
+import { logger } from '../utils/logger';
+import { QuoteResult, QuoteSource } from '../utils/quote-api';
+import { Clock } from '../utils/clock';
+import { safeParseFloat } from '../utils/safe-parse';
+
+export type ReplayDataSource = 'history' | 'ohlcv';
+
+export interface ReplayPoolConfig {
+  token0: string; // Token symbol, e.g. 'GALA'
+  token1: string;
+  fee: number; // Fee tier in hundredths of a bip (500, 3000, 10000)
+  liquidityUsd: number; // Total pool depth in USD, split evenly between both sides
+}
+
+export interface ReplayMarketOptions {
+  tokens: string[];
+  startTime: number;
+  endTime: number;
+  source?: ReplayDataSource;
+  intervalType?: IntervalType; // Required granularity when source is 'ohlcv'
+  pools?: ReplayPoolConfig[]; // Defaults to every token pair at defaultLiquidityUsd
+  defaultLiquidityUsd?: number;
+  defaultFee?: number;
+}
+
+export interface ReplayTick {
+  timestamp: number;
+  prices: Map<string, number>; // Symbol -> USD price as of this tick
+  volumes: Map<string, number>;
+}
+
+export interface ReplayQuote {
+  amountOut: number;
+  midAmountOut: number; // Output at oracle prices with no fee or impact
+  fee: number;
+  priceImpact: number; // Fraction, 0.01 = 1%
+}
+
+export interface ReplayFill {
+  transactionId: string;
+  timestamp: number;
+  strategyName: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  quotedAmountOut: number;
+  midAmountOut: number;
+  amountInUsd: number;
+  amountOutUsd: number;
+  fee: number;
+  priceImpact: number;
+  success: boolean;
+  failureReason?: string;
+}
+
+export class ReplayError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+interface PoolState {
+  config: ReplayPoolConfig;
+  reserve0: number;
+  reserve1: number;
+}
+
+interface TimedPrice {
+  timestamp: number;
+  price: number;
+  volume: number;
+}
+
+/**
+ * Reduce any supported token notation ('GALA', 'GALA|Unit|none|none', 'GALA$Unit$none$none') to its symbol
+ */
+export function replaySymbol(token: string | TokenClassKey): string {
+  if (typeof token !== 'string') {
+    return token.collection.toUpperCase();
+  }
+  return token.split(/[|$]/)[0].toUpperCase();
+}
+
+/**
+ * Historical market state advanced one tick at a time
+ */
+export class ReplayMarket {
+  private series: Map<string, TimedPrice[]> = new Map();
+  private cursors: Map<string, number> = new Map();
+  private pools: PoolState[] = [];
+  private timeline: number[] = [];
+  private currentTick: ReplayTick | null = null;
+
+  constructor(series: Map<string, TimedPrice[]>, pools: ReplayPoolConfig[]) {
+    for (const [token, points] of series) {
+      const symbol = replaySymbol(token);
+      this.series.set(symbol, [...points].sort((a, b) => a.timestamp - b.timestamp));
+      this.cursors.set(symbol, -1);
+    }
+
+    this.pools = pools.map(config => ({
+      config: { ...config, token0: replaySymbol(config.token0), token1: replaySymbol(config.token1) },
+      reserve0: 0,
+      reserve1: 0
+    }));
+
+    const timestamps = new Set<number>();
+    this.series.forEach(points => points.forEach(point => timestamps.add(point.timestamp)));
+    this.timeline = Array.from(timestamps).sort((a, b) => a - b);
+  }
+
+  /**
+   * Load a replay market from stored price rows
+   */
+  static async load(db: TimeSeriesDB, options: ReplayMarketOptions): Promise<ReplayMarket> {
+    const source = options.source || 'history';
+    const series = new Map<string, TimedPrice[]>();
+
+    for (const token of options.tokens) {
+      const symbol = replaySymbol(token);
+
+      if (source === 'ohlcv') {
+        const rows = await db.getOHLCV(symbol, {
+          startTime: options.startTime,
+          endTime: options.endTime,
+          intervalType: options.intervalType || '1h',
+          orderBy: 'ASC'
+        });
+        series.set(symbol, rows.map(row => ({
+          timestamp: Number(row.interval_start),
+          price: row.getClosePrice(),
+          volume: row.getVolume()
+        })));
+      } else {
+        const rows = await db.getPriceHistory(symbol, {
+          startTime: options.startTime,
+          endTime: options.endTime,
+          orderBy: 'ASC'
+        });
+        series.set(symbol, rows.map(row => ({
+          timestamp: Number(row.timestamp),
+          price: row.getPriceUsd(),
+          volume: row.getVolume24h() || 0
+        })));
+      }
+
+      logger.info(`📼 Loaded ${series.get(symbol)!.length} ${source} rows for ${symbol}`);
+    }
+
+    const pools = options.pools || ReplayMarket.defaultPools(
+      Array.from(series.keys()),
+      options.defaultLiquidityUsd ?? 100000,
+      options.defaultFee ?? 3000
+    );
+
+    return new ReplayMarket(series, pools);
+  }
+
+  /**
+   * One pool per token pair, used when no explicit pool set is configured
+   */
+  static defaultPools(tokens: string[], liquidityUsd: number, fee: number): ReplayPoolConfig[] {
+    const pools: ReplayPoolConfig[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      for (let j = i + 1; j < tokens.length; j++) {
+        pools.push({ token0: tokens[i], token1: tokens[j], fee, liquidityUsd });
+      }
+    }
+    return pools;
+  }
+
+  getTimeline(): number[] {
+    return this.timeline;
+  }
+
+  getTokens(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  getCurrentTick(): ReplayTick | null {
+    return this.currentTick;
+  }
+
+  /**
+   * Advance the market to a timestamp: update last-known prices and re-anchor pool reserves
+   */
+  advanceTo(timestamp: number): ReplayTick {
+    const prices = new Map<string, number>();
+    const volumes = new Map<string, number>();
+
+    for (const [symbol, points] of this.series) {
+      let cursor = this.cursors.get(symbol)!;
+      while (cursor + 1 < points.length && points[cursor + 1].timestamp <= timestamp) {
+        cursor++;
+      }
+      this.cursors.set(symbol, cursor);
+
+      if (cursor >= 0) {
+        prices.set(symbol, points[cursor].price);
+        volumes.set(symbol, points[cursor].volume);
+      }
+    }
+
+    // Arbitrageurs outside the simulation are assumed to realign pools with the oracle between ticks
+    for (const pool of this.pools) {
+      const price0 = prices.get(pool.config.token0);
+      const price1 = prices.get(pool.config.token1);
+      pool.reserve0 = price0 ? pool.config.liquidityUsd / 2 / price0 : 0;
+      pool.reserve1 = price1 ? pool.config.liquidityUsd / 2 / price1 : 0;
+    }
+
+    this.currentTick = { timestamp, prices, volumes };
+    return this.currentTick;
+  }
+
+  getPriceUsd(token: string | TokenClassKey): number {
+    return this.currentTick?.prices.get(replaySymbol(token)) || 0;
+  }
+
+  /**
+   * Quote an exact-input swap against the deepest-output pool for the pair
+   */
+  quote(tokenIn: string | TokenClassKey, tokenOut: string | TokenClassKey, amountIn: number, fee?: number): ReplayQuote {
+    return this.bestRoute(tokenIn, tokenOut, amountIn, fee).quote;
+  }
+
+  /**
+   * Fill an exact-input swap, moving pool reserves for the rest of the tick
+   */
+  swap(tokenIn: string | TokenClassKey, tokenOut: string | TokenClassKey, amountIn: number, fee?: number): ReplayQuote {
+    const { pool, zeroForOne, quote } = this.bestRoute(tokenIn, tokenOut, amountIn, fee);
+    const amountInAfterFee = amountIn * (1 - quote.fee / 1_000_000);
+
+    if (zeroForOne) {
+      pool.reserve0 += amountInAfterFee;
+      pool.reserve1 -= quote.amountOut;
+    } else {
+      pool.reserve1 += amountInAfterFee;
+      pool.reserve0 -= quote.amountOut;
+    }
+
+    return quote;
+  }
+
+  /**
+   * Pool snapshot in the explore API shape, for seeding pool discovery
+   */
+  toPoolData(): PoolData[] {
+    return this.pools.map(({ config, reserve0, reserve1 }) => {
+      const price0 = this.getPriceUsd(config.token0);
+      const price1 = this.getPriceUsd(config.token1);
+      return {
+        poolPair: `${config.token0}/${config.token1}`,
+        poolHash: `replay-${config.token0}-${config.token1}-${config.fee}`,
+        token0: config.token0,
+        token0Image: '',
+        token1: config.token1,
+        token1Image: '',
+        token0Price: price0.toString(),
+        token1Price: price1.toString(),
+        poolName: `${config.token0}/${config.token1}`,
+        fee: (config.fee / 10000).toString(),
+        fee24h: 0,
+        token0Tvl: reserve0,
+        token0TvlUsd: reserve0 * price0,
+        token1Tvl: reserve1,
+        token1TvlUsd: reserve1 * price1,
+        tvl: config.liquidityUsd,
+        volume1d: 0,
+        volume30d: 0,
+        dayPerTvl: 0,
+        apr1d: 0
+      };
+    });
+  }
+
+  private bestRoute(
+    tokenIn: string | TokenClassKey,
+    tokenOut: string | TokenClassKey,
+    amountIn: number,
+    fee?: number
+  ): { pool: PoolState; zeroForOne: boolean; quote: ReplayQuote } {
+    const symbolIn = replaySymbol(tokenIn);
+    const symbolOut = replaySymbol(tokenOut);
+
+    if (!(amountIn > 0)) {
+      throw new ReplayError(`Invalid amount: ${amountIn}`, 'INVALID_AMOUNT');
+    }
+
+    const candidates = this.pools.filter(pool =>
+      ((pool.config.token0 === symbolIn && pool.config.token1 === symbolOut) ||
+       (pool.config.token0 === symbolOut && pool.config.token1 === symbolIn)) &&
+      (fee === undefined || pool.config.fee === fee)
+    );
+
+    let best: { pool: PoolState; zeroForOne: boolean; quote: ReplayQuote } | null = null;
+
+    for (const pool of candidates) {
+      const zeroForOne = pool.config.token0 === symbolIn;
+      const reserveIn = zeroForOne ? pool.reserve0 : pool.reserve1;
+      const reserveOut = zeroForOne ? pool.reserve1 : pool.reserve0;
+      if (reserveIn <= 0 || reserveOut <= 0) continue;
+
+      const amountInAfterFee = amountIn * (1 - pool.config.fee / 1_000_000);
+      const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+      const midAmountOut = amountIn * (this.getPriceUsd(symbolIn) / this.getPriceUsd(symbolOut));
+      const priceImpact = midAmountOut > 0 ? Math.max(0, 1 - amountOut / midAmountOut) : 0;
+
+      if (!best || amountOut > best.quote.amountOut) {
+        best = { pool, zeroForOne, quote: { amountOut, midAmountOut, fee: pool.config.fee, priceImpact } };
+      }
+    }
+
+    if (!best) {
+      throw new ReplayError(`No pools found for ${symbolIn} → ${symbolOut}`, 'NO_POOL');
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Clock handed to replayed components so time-windowed logic sees historical time
+ */
+export class ReplayClock implements Clock {
+  private current: number;
+
+  constructor(startTime: number) {
+    this.current = startTime;
+  }
+
+  set(timestamp: number): void {
+    this.current = timestamp;
+  }
+
+  now(): number {
+    return this.current;
+  }
+}
+
+/**
+ * Simulated GSwap facade: the subset of the SDK surface strategies and executors call
+ */
+export class ReplayGSwap {
+  private balances: Map<string, number> | null;
+  private txCounter = 0;
+  private fills: Map<string, ReplayFill> = new Map();
+
+  readonly quoting = {
+    quoteExactInput: async (tokenIn: string | TokenClassKey, tokenOut: string | TokenClassKey, amountIn: number | string): Promise<QuoteResult> => {
+      const quote = this.market.quote(tokenIn, tokenOut, safeParseFloat(amountIn, 0));
+      return {
+        outTokenAmount: quote.amountOut.toString(),
+        priceImpact: quote.priceImpact * 100,
+        feeTier: quote.fee,
+        fee: quote.fee
+      };
+    }
+  };
+
+  readonly swaps = {
+    swap: async (
+      tokenIn: string | TokenClassKey,
+      tokenOut: string | TokenClassKey,
+      fee: number,
+      amount: { exactIn: string | number; amountOutMinimum?: string | number },
+      _walletAddress?: string
+    ) => {
+      const fill = this.executeSwap(tokenIn, tokenOut, safeParseFloat(amount.exactIn, 0), safeParseFloat(amount.amountOutMinimum ?? 0, 0), fee);
+      return {
+        transactionId: fill.transactionId,
+        wait: async () => {
+          if (!fill.success) {
+            throw new ReplayError(`Swap failed: ${fill.failureReason}`, 'SWAP_FAILED');
+          }
+          return { txId: fill.transactionId, transactionHash: fill.transactionId, status: 'CONFIRMED' };
+        }
+      };
+    }
+  };
+
+  readonly assets = {
+    getUserAssets: async (_walletAddress: string, _page?: number, _limit?: number) => ({
+      tokens: Array.from(this.balances?.entries() || []).map(([symbol, quantity]) => ({
+        symbol,
+        name: symbol,
+        quantity: quantity.toString()
+      })),
+      count: this.balances?.size || 0
+    })
+  };
+
+  readonly events = {
+    wait: async (transactionId: string) => {
+      const fill = this.fills.get(transactionId);
+      if (!fill) {
+        throw new ReplayError(`Unknown transaction ${transactionId}`, 'UNKNOWN_TX');
+      }
+      return { txId: transactionId, transactionHash: transactionId, status: fill.success ? 'CONFIRMED' : 'FAILED' };
+    },
+    connectEventSocket: async () => undefined,
+    disconnectEventSocket: () => undefined,
+    eventSocketConnected: () => false
+  };
+
+  /**
+   * @param market - Replay market to quote and fill against
+   * @param walletBalances - Optional starting balances by symbol; balances are not enforced when omitted
+   */
+  constructor(private market: ReplayMarket, walletBalances?: Record<string, number>) {
+    this.balances = walletBalances
+      ? new Map(Object.entries(walletBalances).map(([token, amount]) => [replaySymbol(token), amount]))
+      : null;
+  }
+
+  /**
+   * Quote source for components that would otherwise call the quote API
+   */
+  quoteSource(): QuoteSource {
+    return { quoteExactInput: this.quoting.quoteExactInput };
+  }
+
+  /**
+   * View this facade through the GSwap type expected by strategy constructors
+   */
+  asGSwap(): GSwap {
+    return this as unknown as GSwap;
+  }
+
+  getMarket(): ReplayMarket {
+    return this.market;
+  }
+
+  getBalance(token: string): number | null {
+    return this.balances ? this.balances.get(replaySymbol(token)) || 0 : null;
+  }
+
+  getFill(transactionId: string): ReplayFill | undefined {
+    return this.fills.get(transactionId);
+  }
+
+  /**
+   * Fill a swap at the current tick, enforcing minimum output and (optionally) balances
+   */
+  executeSwap(
+    tokenIn: string | TokenClassKey,
+    tokenOut: string | TokenClassKey,
+    amountIn: number,
+    amountOutMinimum: number = 0,
+    fee?: number,
+    strategyName: string = 'unknown'
+  ): ReplayFill {
+    const symbolIn = replaySymbol(tokenIn);
+    const symbolOut = replaySymbol(tokenOut);
+    const transactionId = `replay-${++this.txCounter}`;
+    const timestamp = this.market.getCurrentTick()?.timestamp || Date.now();
+
+    const fill: ReplayFill = {
+      transactionId,
+      timestamp,
+      strategyName,
+      tokenIn: symbolIn,
+      tokenOut: symbolOut,
+      amountIn,
+      amountOut: 0,
+      quotedAmountOut: 0,
+      midAmountOut: 0,
+      amountInUsd: amountIn * this.market.getPriceUsd(symbolIn),
+      amountOutUsd: 0,
+      fee: fee || 0,
+      priceImpact: 0,
+      success: false
+    };
+
+    try {
+      const available = this.getBalance(symbolIn);
+      if (available !== null && available < amountIn) {
+        throw new ReplayError(`Insufficient ${symbolIn} balance: ${available} < ${amountIn}`, 'INSUFFICIENT_BALANCE');
+      }
+
+      const quoted = this.market.quote(symbolIn, symbolOut, amountIn, fee);
+      if (quoted.amountOut < amountOutMinimum) {
+        throw new ReplayError(`Output ${quoted.amountOut} below minimum ${amountOutMinimum}`, 'SLIPPAGE');
+      }
+
+      const filled = this.market.swap(symbolIn, symbolOut, amountIn, fee);
+      if (this.balances) {
+        this.balances.set(symbolIn, (this.balances.get(symbolIn) || 0) - amountIn);
+        this.balances.set(symbolOut, (this.balances.get(symbolOut) || 0) + filled.amountOut);
+      }
+
+      Object.assign(fill, {
+        amountOut: filled.amountOut,
+        quotedAmountOut: quoted.amountOut,
+        midAmountOut: filled.midAmountOut,
+        amountOutUsd: filled.amountOut * this.market.getPriceUsd(symbolOut),
+        fee: filled.fee,
+        priceImpact: filled.priceImpact,
+        success: true
+      });
+    } catch (error) {
+      fill.failureReason = error instanceof Error ? error.message : String(error);
+    }
+
+    this.fills.set(transactionId, fill);
+    return fill;
+  }
+}
+
+/**
+ * SwapExecutor stand-in that fills requests against a ReplayGSwap and reports every fill
+ */
+export class ReplaySwapExecutor {
+  private executedSwaps = 0;
+  private failedSwaps = 0;
+
+  constructor(
+    private gswap: ReplayGSwap,
+    private strategyName: string,
+    private onFill: (fill: ReplayFill) => void
+  ) {}
+
+  async executeSwap(request: SwapRequest): Promise<SwapResult> {
+    const amountIn = safeParseFloat(request.amountIn, 0);
+    const slippageTolerance = request.slippageTolerance ?? 0.01;
+
+    let minimumOut = 0;
+    try {
+      minimumOut = this.gswap.getMarket().quote(request.tokenIn, request.tokenOut, amountIn, request.feeTier).amountOut * (1 - slippageTolerance);
+    } catch {
+      // Let executeSwap record the routing failure
+    }
+
+    const fill = this.gswap.executeSwap(request.tokenIn, request.tokenOut, amountIn, minimumOut, request.feeTier, this.strategyName);
+    this.onFill(fill);
+
+    if (!fill.success) {
+      this.failedSwaps++;
+      return {
+        success: false,
+        error: fill.failureReason,
+        failureReason: fill.failureReason?.includes('minimum') ? 'slippage' : 'execution',
+        executionTime: 0
+      };
+    }
+
+    this.executedSwaps++;
+    return {
+      success: true,
+      transactionId: fill.transactionId,
+      hash: fill.transactionId,
+      amountOut: fill.amountOut.toString(),
+      actualSlippage: fill.quotedAmountOut > 0 ? 1 - fill.amountOut / fill.quotedAmountOut : 0,
+      priceImpact: fill.priceImpact,
+      executionTime: 0,
+      monitoringResult: { status: 'CONFIRMED', monitoringMethod: 'polling' }
+    };
+  }
+
+  async batchExecuteSwaps(requests: SwapRequest[]): Promise<SwapResult[]> {
+    const results: SwapResult[] = [];
+    for (const request of requests) {
+      results.push(await this.executeSwap(request));
+    }
+    return results;
+  }
+
+  async monitorTransaction(transactionId: string): Promise<TransactionMonitoringResult> {
+    const fill = this.gswap.getFill(transactionId);
+    return {
+      status: fill?.success ? 'CONFIRMED' : fill ? 'FAILED' : 'UNKNOWN',
+      errorMessage: fill?.failureReason,
+      monitoringMethod: 'polling'
+    };
+  }
+
+  getExecutionStats(): { executedSwaps: number; failedSwaps: number } {
+    return { executedSwaps: this.executedSwaps, failedSwaps: this.failedSwaps };
+  }
+
+  /**
+   * View this executor through the SwapExecutor type expected by strategy constructors
+   */
+  asSwapExecutor(): SwapExecutor {
+    return this as unknown as SwapExecutor;
+  }
+}
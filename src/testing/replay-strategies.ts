@@ -0,0 +1,57 @@
+/**
+ * Replay Strategy Factories
+ *
+ * Builds the production strategy classes against replay dependencies so
+ * BacktestEngine.runReplayBacktest exercises the exact code we deploy.
+ */
+
+import { PairsCorrelation } from '../analytics/pairs-correlation';
+import { TradingConfig } from '../config/environment';
+import { MarketAnalysis } from '../monitoring/market-analysis';
+import { GSwap } from '../services/gswap-simple';
+import { PoolDiscoveryService } from '../services/pool-discovery';
+import { SwapExecutor } from '../trading/execution/swap-executor';
+import { MultiPathArbitrageStrategy } from '../trading/strategies/multi-path-arbitrage';
+import { StatisticalArbitrageStrategy } from '../trading/strategies/statistical-arbitrage';
+import { TriangleArbitrageStrategy } from '../trading/strategies/triangle-arbitrage';
+import { Clock } from '../utils/clock';
+import { QuoteSource } from '../utils/quote-api';
+
+/**
+ * Lifecycle the replay driver needs from a strategy
+ */
+export interface ReplayableStrategy {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  scanForOpportunities(): Promise<unknown>;
+}
+
+export interface ReplayStrategyContext {
+  gswap: GSwap;
+  config: TradingConfig;
+  swapExecutor: SwapExecutor;
+  marketAnalysis: MarketAnalysis;
+  clock: Clock; // Set to the tick being replayed
+  quoteSource: QuoteSource; // Quotes from the simulated pools
+  poolDiscovery: PoolDiscoveryService; // Holds the simulated pools, apart from the live discovery
+  parameters: Record<string, unknown>;
+}
+
+export type ReplayStrategyFactory = (context: ReplayStrategyContext) => ReplayableStrategy;
+
+/**
+ * Strategies that can be replayed by name from StrategyBacktestConfig.strategyName.
+ * Each takes its clock and quote source through its constructor; strategies that read
+ * wall time or live APIs elsewhere are left out rather than replayed against the present.
+ */
+export const REPLAY_STRATEGY_FACTORIES: Record<string, ReplayStrategyFactory> = {
+  'triangle-arbitrage': ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource, poolDiscovery }) =>
+    new TriangleArbitrageStrategy(gswap, config, swapExecutor, marketAnalysis, {}, { clock, quoteSource, poolDiscovery }),
+  'multi-path-arbitrage': ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource, poolDiscovery }) =>
+    new MultiPathArbitrageStrategy(gswap, config, swapExecutor, marketAnalysis, { clock, quoteSource, poolDiscovery }),
+  'statistical-arbitrage': ({ gswap, config, swapExecutor, marketAnalysis, clock }) =>
+    new StatisticalArbitrageStrategy(gswap, config, swapExecutor, marketAnalysis, undefined, {
+      clock,
+      correlation: new PairsCorrelation(clock)
+    })
+};
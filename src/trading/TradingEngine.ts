@@ -4,31 +4,46 @@
  */
 
 import { GSwap, PrivateKeySigner } from '../services/gswap-simple';
-import { BotConfig } from '../config/environment';
+import { BotConfig, WalletStrategy } from '../config/environment';
 import { CONSTANTS } from '../config/constants';
 import { logger } from '../utils/logger';
 import { PriceTracker } from '../monitoring/price-tracker';
 import { PositionTracker } from '../monitoring/position-tracker';
 import { ArbitrageStrategy } from './strategies/arbitrage';
-import { RangeOrderStrategy } from '../strategies/range-order-strategy';
+import { StrategyOrchestrator } from './strategies/strategy-orchestrator';
+import { RangeOrderStrategy, RangeOrderBookEntry } from '../strategies/range-order-strategy';
 import { MarketMakingStrategy } from '../strategies/market-making-strategy';
 import { LiquidityManager } from '../services/liquidity-manager';
 import { FeeCalculator } from '../services/fee-calculator';
-import { RebalanceEngine } from '../services/rebalance-engine';
+import { RebalanceAction, RebalanceEngine } from '../services/rebalance-engine';
+import { MergeOptions, SplitLadder, buildLadderRanges } from '../services/position-restructurer';
+import { DeltaHedger } from '../services/delta-hedger';
+import { CompoundPolicy, CompoundResult, FeeCompounder } from '../services/fee-compounder';
 import { PositionLimits } from './risk/position-limits';
 import { SlippageProtection } from './risk/slippage';
 import { RiskMonitor } from './risk/risk-monitor';
-import { EmergencyControls } from './risk/emergency-controls';
+import { EmergencyControls, EmergencyStopActiveError } from './risk/emergency-controls';
 import { SwapExecutor } from './execution/swap-executor';
 import { MarketAnalysis } from '../monitoring/market-analysis';
+import { VolumeAnalyzer } from '../monitoring/volume-analyzer';
 import { AlertSystem } from '../monitoring/alerts';
-import { TradingMode } from '../types/trading';
+import { ChainPositionView, ReconcileOptions, ReconciliationReport, StateReconciler, toBlockchainPosition } from '../monitoring/state-reconciler';
+import { GalaSwapWebSocketClient, createWebSocketClient } from '../api/websocket-client';
+import { TimeInForce, TradingMode } from '../types/trading';
 import { detectTradingMode, getTradingModeConfig } from './risk/risk-profiles';
 import { initializeDatabase } from '../config/database';
+import { poolDiscovery } from '../services/pool-discovery';
 import { safeParseFloat } from '../utils/safe-parse';
+import { QuoteSource } from '../utils/quote-api';
+import { RuntimeSources } from '../utils/clock';
 import { BlockchainPosition, PortfolioBalance, MarketCondition, RiskValidationResult, RangeOrder, MarketMakingPosition } from '../types/galaswap';
 // Unused imports removed: LiquidityAnalytics, PositionPerformance, RangeOrderStats, MarketMakingStats, FeeAnalysis, RebalanceRecommendation
 
+export interface TradingEngineOptions {
+  gswap?: GSwap; // Client to trade through instead of the SDK, e.g. PaperGSwap for paper trading
+  quoteSource?: QuoteSource; // Quote source handed to every component in place of their API wrappers
+}
+
 export class TradingEngine {
   private config: BotConfig;
   protected gswap: GSwap;
@@ -41,6 +56,8 @@ export class TradingEngine {
   private swapExecutor: SwapExecutor;
   private marketAnalysis: MarketAnalysis;
   private alertSystem: AlertSystem;
+  private stateReconciler: StateReconciler;
+  private realtimeFeed: GalaSwapWebSocketClient;
 
   // Liquidity Infrastructure
   private liquidityManager: LiquidityManager;
@@ -49,6 +66,9 @@ export class TradingEngine {
   private rebalanceEngine: RebalanceEngine;
   private rangeOrderStrategy: RangeOrderStrategy;
   private marketMakingStrategy: MarketMakingStrategy;
+  private lpHedger: DeltaHedger | null = null;
+  private feeCompounder: FeeCompounder;
+  private strategyOrchestrator: StrategyOrchestrator | null = null;
   private isRunning: boolean = false;
   private tradingMode: TradingMode = TradingMode.MIXED; // Default to mixed
   private enabledStrategies: string[] = [];
@@ -64,41 +84,50 @@ export class TradingEngine {
   private lastDailyReset: Date = new Date();
   private tradingIntervalId: NodeJS.Timeout | null = null;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, options: TradingEngineOptions = {}) {
     this.config = config;
 
-    // Validate private key exists in environment
-    const privateKey = process.env.WALLET_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error('WALLET_PRIVATE_KEY environment variable is required');
+    if (options.gswap) {
+      this.gswap = options.gswap;
+    } else {
+      // Validate private key exists in environment (extra wallets name their own key variable)
+      const privateKeyEnv = config.wallet.privateKeyEnv ?? 'WALLET_PRIVATE_KEY';
+      const privateKey = process.env[privateKeyEnv];
+      if (!privateKey) {
+        throw new Error(`${privateKeyEnv} environment variable is required`);
+      }
+
+      // Initialize GSwap SDK - using simple wrapper with baseUrl override
+      this.gswap = new GSwap({
+        signer: new PrivateKeySigner(privateKey),
+        baseUrl: config.api.baseUrl,
+        walletAddress: config.wallet.address
+      });
     }
 
-    // Initialize GSwap SDK - using simple wrapper with baseUrl override
-    this.gswap = new GSwap({
-      signer: new PrivateKeySigner(privateKey),
-      baseUrl: config.api.baseUrl,
-      walletAddress: config.wallet.address
-    });
+    // A simulated client quotes for every component, including orchestrator strategies
+    const sources: RuntimeSources = { quoteSource: options.quoteSource };
 
     // Initialize core systems
-    this.priceTracker = new PriceTracker(this.gswap);
+    this.priceTracker = new PriceTracker(this.gswap, sources);
     this.positionLimits = new PositionLimits(config.trading, this.gswap);
     this.slippageProtection = new SlippageProtection(config.trading);
     this.riskMonitor = new RiskMonitor(config.trading, this.gswap, this.priceTracker);
 
     // Initialize execution systems
-    this.swapExecutor = new SwapExecutor(this.gswap, this.slippageProtection);
+    this.swapExecutor = new SwapExecutor(this.gswap, this.slippageProtection, sources);
 
     // Initialize emergency controls (must be after execution systems)
     this.emergencyControls = new EmergencyControls(
       config.trading,
       this.gswap,
       this.swapExecutor,
-      this.config.wallet.address // CRITICAL FIX: Pass actual wallet address
+      this.config.wallet.address, // CRITICAL FIX: Pass actual wallet address
+      sources
     );
 
     // Initialize monitoring systems
-    this.marketAnalysis = new MarketAnalysis(this.priceTracker, this.gswap);
+    this.marketAnalysis = new MarketAnalysis(this.priceTracker, this.gswap, sources);
     this.alertSystem = new AlertSystem();
 
     // Initialize trading strategies
@@ -106,15 +135,61 @@ export class TradingEngine {
       this.gswap,
       config.trading,
       this.swapExecutor,
-      this.marketAnalysis
+      this.marketAnalysis,
+      { walletAddress: config.wallet.address, positionLimits: this.positionLimits },
+      sources
     );
 
+    if (config.trading.strategyOrchestrator) {
+      this.strategyOrchestrator = new StrategyOrchestrator(
+        this.gswap,
+        config.trading,
+        this.swapExecutor,
+        this.marketAnalysis,
+        new VolumeAnalyzer(this.priceTracker),
+        this.riskMonitor,
+        undefined,
+        { walletAddress: config.wallet.address, positionLimits: this.positionLimits },
+        sources
+      );
+      // The trading loop already runs ArbitrageStrategy for this wallet
+      this.strategyOrchestrator.setStrategyEnabled('arbitrage', false);
+    }
+
     // Initialize liquidity infrastructure
-    this.liquidityManager = new LiquidityManager(this.gswap, this.config.wallet.address);
-    this.positionTracker = new PositionTracker(this.gswap);
+    this.liquidityManager = new LiquidityManager(this.gswap, this.config.wallet.address, sources);
+    this.liquidityManager.setTaxLedger(this.swapExecutor.getTaxLedger());
+    this.positionTracker = new PositionTracker(this.gswap, sources);
     this.feeCalculator = new FeeCalculator();
-    this.rebalanceEngine = new RebalanceEngine(this.liquidityManager, this.feeCalculator);
-    this.rangeOrderStrategy = new RangeOrderStrategy(this.liquidityManager);
+    this.feeCompounder = new FeeCompounder(this.liquidityManager, this.swapExecutor, this.feeCalculator, this.config.wallet.address, {
+      enabled: CONSTANTS.STRATEGY.FEE_COMPOUNDING.ENABLED,
+      minNetProfitUSD: CONSTANTS.STRATEGY.FEE_COMPOUNDING.MIN_NET_PROFIT_USD,
+      maxGasRatio: CONSTANTS.STRATEGY.FEE_COMPOUNDING.MAX_GAS_RATIO,
+      minSwapFraction: CONSTANTS.STRATEGY.FEE_COMPOUNDING.MIN_SWAP_FRACTION
+    }, undefined, sources);
+    this.rebalanceEngine = new RebalanceEngine(this.liquidityManager, this.feeCalculator, undefined, sources);
+    this.rangeOrderStrategy = new RangeOrderStrategy(this.liquidityManager, sources);
+
+    // Keeps position records, the liquidity cache and balances in line with chain
+    this.stateReconciler = new StateReconciler(
+      {
+        getPositions: () => this.getChainPositions(),
+        getBalances: () => this.fetchTokenBalances()
+      },
+      {
+        positionCache: this.liquidityManager,
+        tradeJournal: this.swapExecutor.getTradeJournal(),
+        alertSystem: this.alertSystem
+      },
+      { walletAddress: config.wallet.address }
+    );
+
+    // Real-time feed: prices, transaction confirmations and position changes
+    this.realtimeFeed = createWebSocketClient(config.api.wsUrl, config.api.baseUrl);
+    this.priceTracker.attachRealtimeFeed(this.realtimeFeed);
+    this.swapExecutor.setRealtimeFeed(this.realtimeFeed);
+    this.positionTracker.attachRealtimeFeed(this.realtimeFeed, config.wallet.address);
+
     // Market making configuration from constants
     const marketMakingConfig = {
       token0: CONSTANTS.STRATEGY.MARKET_MAKING.DEFAULT_TOKEN0,
@@ -132,11 +207,37 @@ export class TradingEngine {
         utilizationTarget: CONSTANTS.STRATEGY.MARKET_MAKING.UTILIZATION_TARGET
       }
     };
-    this.marketMakingStrategy = new MarketMakingStrategy(this.liquidityManager, marketMakingConfig);
+    this.marketMakingStrategy = new MarketMakingStrategy(this.liquidityManager, marketMakingConfig, undefined, sources);
+
+    // Hedged LP mode: offset market making delta with swaps against the quote token (LP_HEDGE_*)
+    const lpHedge = config.trading.lpHedge;
+    if (lpHedge?.enabled ?? CONSTANTS.STRATEGY.MARKET_MAKING.HEDGE_ENABLED) {
+      this.lpHedger = new DeltaHedger(this.swapExecutor, this.config.wallet.address, {
+        quoteToken: lpHedge?.quoteToken ?? CONSTANTS.STRATEGY.MARKET_MAKING.HEDGE_QUOTE_TOKEN,
+        deltaBand: lpHedge?.deltaBand ?? CONSTANTS.STRATEGY.MARKET_MAKING.HEDGE_DELTA_BAND,
+        minTradeValue: lpHedge?.minTradeValue ?? CONSTANTS.STRATEGY.MARKET_MAKING.HEDGE_MIN_TRADE_VALUE
+      }, undefined, sources);
+      this.marketMakingStrategy.attachHedger(this.lpHedger);
+    }
+
+    // A wallet can pin its risk profile instead of deriving it from enabled strategies
+    if (config.wallet.riskMode) {
+      this.setTradingMode(config.wallet.riskMode);
+    }
 
     logger.info('Trading Engine initialized with all components including liquidity infrastructure');
   }
 
+  /**
+   * Open the database, trade journal and tax ledger without starting trading; read-only
+   * commands such as exports use this so they keep working through an emergency stop
+   */
+  async openStores(): Promise<void> {
+    await initializeDatabase();
+    await this.swapExecutor.getTradeJournal().open();
+    await this.swapExecutor.getTaxLedger().open();
+  }
+
   /**
    * Start the trading engine
    */
@@ -165,8 +266,33 @@ export class TradingEngine {
         });
       }
 
-      // Initialize database for position tracking
-      await initializeDatabase();
+      // Initialize database for position tracking, and journal every swap from here on
+      await this.openStores();
+
+      // Restore emergency state and refuse to trade through a persisted stop
+      if (await this.emergencyControls.restoreState()) {
+        const emergency = this.emergencyControls.getEmergencyStatus();
+        throw new EmergencyStopActiveError(emergency.emergencyType, emergency.triggerReason, emergency.triggerTime);
+      }
+
+      // Journal every arbitrage attempt from here on
+      await this.swapExecutor.getArbitrageRecovery().open();
+
+      // Hedges from a previous run must be loaded before market making re-hedges the same exposure
+      await this.lpHedger?.open();
+      await this.feeCompounder.open();
+
+      // Reconcile arbitrage attempts a previous run left between hops, before any strategy trades
+      try {
+        await this.swapExecutor.getArbitrageRecovery().resumeUnfinished({
+          walletAddress: this.config.wallet.address,
+          getBalance: async token => (await this.getTokenBalances())
+            .find(balance => balance.token === token.split(/[|$]/)[0])?.amount ?? 0,
+          getTransactionStatus: async transactionId => (await this.swapExecutor.monitorTransaction(transactionId, 15000)).status
+        });
+      } catch (error) {
+        logger.error('Failed to resume unfinished arbitrage attempts:', error);
+      }
 
       // Connect WebSocket for real-time data (optional - using API polling as primary method)
       try {
@@ -185,6 +311,18 @@ export class TradingEngine {
         });
       }
 
+      // Pool price updates reprice the shared pool cache and its arbitrage graph
+      poolDiscovery.attachRealtimeFeed(this.realtimeFeed);
+
+      // Connect real-time feed (polling remains the fallback while it is down)
+      try {
+        await this.realtimeFeed.connect();
+      } catch (error) {
+        logger.warn('⚠️  Real-time feed unavailable, polling until it reconnects:', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
       // Start price tracking
       await this.priceTracker.start();
 
@@ -194,6 +332,9 @@ export class TradingEngine {
       // Start position tracking
       await this.positionTracker.start();
 
+      // Repair local positions and balances that drifted from chain before any strategy trades on them
+      await this.stateReconciler.start();
+
       // Initialize strategies conditionally based on enabled strategies
       await this.arbitrageStrategy.initialize();
 
@@ -210,7 +351,9 @@ export class TradingEngine {
       } catch (error) {
         logger.warn('Rebalance engine initialization failed, continuing without rebalancing:', error);
       }
-    
+
+      await this.strategyOrchestrator?.start();
+
       // Start trading loops
       this.startTradingLoop();
 
@@ -249,12 +392,19 @@ export class TradingEngine {
       } catch (error) {
         logger.warn('Error stopping rebalance engine:', error);
       }
+
+      try {
+        await this.strategyOrchestrator?.stop();
+      } catch (error) {
+        logger.warn('Error stopping strategy orchestrator:', error);
+      }
     
       // Stop risk monitoring
       this.riskMonitor.stopMonitoring();
 
       // Stop position tracking
       await this.positionTracker.stop();
+      this.stateReconciler.stop();
 
       // Stop price tracking
       await this.priceTracker.stop();
@@ -262,13 +412,20 @@ export class TradingEngine {
       // Stop alert system
       this.alertSystem.destroy();
 
+      // Let pending journal writes land before the database closes
+      await this.swapExecutor.getTradeJournal().flush();
+      await this.swapExecutor.getTaxLedger().flush();
+      await this.feeCompounder.flush();
+      await this.lpHedger?.flush();
+
       // Clear trading interval
       if (this.tradingIntervalId) {
         clearInterval(this.tradingIntervalId);
         this.tradingIntervalId = null;
       }
 
-      // Disconnect WebSocket
+      // Disconnect WebSockets
+      this.realtimeFeed.disconnect();
       GSwap.events.disconnectEventSocket();
 
       this.isRunning = false;
@@ -452,7 +609,9 @@ export class TradingEngine {
       logger.info('✅ Market conditions favorable - proceeding with strategy execution');
 
       // 9. Check and execute liquidity position management
-      await this.executeLiquidityManagement(marketCondition, riskCheck.riskLevel);
+      if (this.isStrategyAllowed('liquidity')) {
+        await this.executeLiquidityManagement(marketCondition, riskCheck.riskLevel);
+      }
 
       // 10. Execute strategies based on market conditions and risk level
       const riskAdjustedExecution = this.shouldExecuteStrategies(marketCondition, riskCheck.riskLevel);
@@ -463,24 +622,24 @@ export class TradingEngine {
         if (marketCondition.overall === 'bullish' && marketCondition.confidence > 70 && riskCheck.riskLevel !== 'high') {
           // Strong bullish trend - favor arbitrage (only if not high risk)
           logger.info('📈 Strong bullish trend detected - executing arbitrage strategy');
-          await this.arbitrageStrategy.execute();
+          await this.runStrategy('arbitrage');
 
           // Also consider market making in stable conditions
           if (marketCondition.volatility === 'low' || marketCondition.volatility === 'medium') {
             logger.info('💼 Stable volatility - adding market making strategy');
-            await this.marketMakingStrategy.execute();
+            await this.runStrategy('market-making');
           }
         } else if (marketCondition.volatility === 'low' && marketCondition.liquidity === 'good' && riskCheck.riskLevel === 'low') {
           // Low volatility, good liquidity, low risk - ideal for concentrated liquidity strategies
           logger.info('🎯 Ideal conditions for concentrated liquidity - executing both strategies');
-          await this.marketMakingStrategy.execute();
-          await this.arbitrageStrategy.execute();
+          await this.runStrategy('market-making');
+          await this.runStrategy('arbitrage');
         } else if (marketCondition.confidence > 50 && riskCheck.riskLevel === 'low') {
           // Balanced conditions, low risk - execute based on volatility
           if (marketCondition.volatility === 'low') {
-            await this.marketMakingStrategy.execute();
+            await this.runStrategy('market-making');
           }
-          await this.arbitrageStrategy.execute();
+          await this.runStrategy('arbitrage');
         } else {
           logger.debug('Conditions not suitable for strategy execution', {
             marketCondition: marketCondition.overall,
@@ -505,6 +664,30 @@ export class TradingEngine {
     }
   }
 
+  /**
+   * Whether this engine's wallet may run a strategy (wallets without a list run everything)
+   */
+  private isStrategyAllowed(strategy: WalletStrategy): boolean {
+    const allowed = this.config.wallet.strategies;
+    return !allowed || allowed.includes(strategy);
+  }
+
+  /**
+   * Execute one of the engine strategies if the wallet allows it
+   */
+  private async runStrategy(strategy: 'arbitrage' | 'market-making'): Promise<void> {
+    if (!this.isStrategyAllowed(strategy)) {
+      logger.debug(`Strategy ${strategy} not enabled for wallet ${this.getWalletId()}`);
+      return;
+    }
+
+    if (strategy === 'arbitrage') {
+      await this.arbitrageStrategy.execute();
+    } else {
+      await this.marketMakingStrategy.execute();
+    }
+  }
+
   /**
    * Execute liquidity position management
    */
@@ -524,11 +707,22 @@ export class TradingEngine {
           logger.info(`Processing ${rebalanceSignals.length} rebalance signals`);
 
           for (const signal of rebalanceSignals) {
+            // Market making positions re-check their range against current volatility and volume; a position
+            // market making has moved is gone, so the rebalance engine must not act on its old id
+            const handled = await this.marketMakingStrategy.handleRebalanceSignal(signal);
+            if (handled) {
+              this.rebalanceEngine.cancelPendingActions(signal.positionId);
+              continue;
+            }
+
             if (signal.urgency === 'high' || (signal.urgency === 'medium' && riskLevel === 'low')) {
               await this.rebalanceEngine.executeRebalance();
             }
           }
         }
+
+        // Splits and merges queued through the control API
+        await this.rebalanceEngine.executeQueuedRestructures();
       }
 
       // Clean up old range orders
@@ -555,6 +749,12 @@ export class TradingEngine {
         const optimization = await this.feeCalculator.generateCollectionOptimization(position.id);
 
         if (optimization && optimization.recommendation === 'collect_now') {
+          // Positions with an auto-compound policy put the fees back into their range
+          if (this.feeCompounder.isEnabled(position.id)) {
+            await this.feeCompounder.compound(position.id);
+            continue;
+          }
+
           logger.info(`Collecting fees for position ${position.id} - Cost/Benefit: ${optimization.costBenefitRatio}`);
 
           await this.liquidityManager.collectFees({
@@ -610,7 +810,9 @@ export class TradingEngine {
     try {
       logger.info('Executing manual trade with risk validation', params);
 
-      // 1. Check emergency stop
+      // 1. Check emergency stop, including one persisted by an earlier run; the trade is journaled
+      await this.openStores();
+      await this.emergencyControls.restoreState();
       if (this.emergencyControls.isEmergencyStopEnabled()) {
         return {
           success: false,
@@ -677,7 +879,8 @@ export class TradingEngine {
       const result = await this.swapExecutor.executeSwap({
         ...params,
         userAddress: this.config.wallet.address,
-        urgency: 'normal'
+        urgency: 'normal',
+        strategy: 'manual'
       });
 
       // 6. Update statistics and record success/failure
@@ -716,6 +919,13 @@ export class TradingEngine {
     }
   }
 
+  /**
+   * Diff chain positions and balances against local state, repairing local records unless `repair` is false
+   */
+  async reconcileState(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    return this.stateReconciler.reconcile(options);
+  }
+
   /**
    * Get portfolio overview
    */
@@ -769,10 +979,22 @@ export class TradingEngine {
    */
   private async getTokenBalances(): Promise<PortfolioBalance[]> {
     try {
-      if (!this.config.wallet?.address) {
-        return [];
-      }
+      return await this.fetchTokenBalances();
+    } catch (error) {
+      logger.error('Error getting token balances:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read wallet balances, throwing when the wallet cannot be read
+   */
+  private async fetchTokenBalances(): Promise<PortfolioBalance[]> {
+    if (!this.config.wallet?.address) {
+      return [];
+    }
 
+    try {
       logger.debug(`🔍 Requesting token balances for wallet: ${this.config.wallet.address}`);
       // Get user assets directly from wallet (not liquidity positions)
       const assetsResponse = await this.gswap.assets.getUserAssets(this.config.wallet.address, 1, 20);
@@ -783,38 +1005,51 @@ export class TradingEngine {
         return [];
       }
 
-      // Convert SDK format to PortfolioBalance format
-      return assetsResponse.tokens
-        .map(token => ({
-          token: token.symbol || token.name,
-          amount: safeParseFloat(token.quantity || '0', 0),
-          valueUSD: 0 // Will be calculated in calculatePortfolioValue
-        }))
-        .filter(balance => balance.amount > 0); // Only include non-zero balances
+      return this.toPortfolioBalances(assetsResponse.tokens);
 
     } catch (error) {
       // Handle API limit errors gracefully
       if (error && typeof error === 'object' && 'message' in error &&
           (error.message as string).includes('400') && (error.message as string).includes('limit')) {
         logger.warn('getUserAssets API limit exceeded, retrying with smaller limit');
-        try {
-          const assetsResponse = await this.gswap.assets.getUserAssets(this.config.wallet.address, 1, 10);
-          return assetsResponse?.tokens?.map(token => ({
-            token: token.symbol || token.name,
-            amount: safeParseFloat(token.quantity || '0', 0),
-            valueUSD: 0
-          })).filter(balance => balance.amount > 0) || [];
-        } catch (retryError) {
-          logger.error('Error getting token balances on retry:', retryError);
-          return [];
-        }
+        const assetsResponse = await this.gswap.assets.getUserAssets(this.config.wallet.address, 1, 10);
+        return this.toPortfolioBalances(assetsResponse?.tokens || []);
       }
 
-      logger.error('Error getting token balances:', error);
-      return [];
+      throw error;
     }
   }
 
+  /**
+   * Convert SDK format to PortfolioBalance format, keeping only non-zero balances
+   */
+  private toPortfolioBalances(tokens: Array<{ symbol?: string; name: string; quantity?: string }>): PortfolioBalance[] {
+    return tokens
+      .map(token => ({
+        token: token.symbol || token.name,
+        amount: safeParseFloat(token.quantity || '0', 0),
+        valueUSD: 0 // Will be calculated in calculatePortfolioValue
+      }))
+      .filter(balance => balance.amount > 0);
+  }
+
+  /**
+   * Read every liquidity position the wallet holds on chain
+   */
+  private async getChainPositions(): Promise<BlockchainPosition[]> {
+    const positions: BlockchainPosition[] = [];
+    let bookmark: string | undefined;
+
+    do {
+      const page: { positions?: ChainPositionView[]; bookmark?: string } =
+        await this.gswap.positions.getUserPositions(this.config.wallet.address, 50, bookmark);
+      positions.push(...(page?.positions || []).map(toBlockchainPosition));
+      bookmark = page?.bookmark || undefined;
+    } while (bookmark);
+
+    return positions;
+  }
+
   /**
    * Calculate total portfolio value (optimized to avoid N+1 queries)
    */
@@ -1252,7 +1487,8 @@ export class TradingEngine {
       market: {
         conditions: this.marketAnalysis?.getMarketCondition() || {},
         prices: this.priceTracker.getAllPrices(),
-        alerts: this.priceTracker.getTriggeredAlerts()
+        alerts: this.priceTracker.getTriggeredAlerts(),
+        feed: this.realtimeFeed.getStats()
       },
       positions: {
         liquidity: this.liquidityManager.getStatus(),
@@ -1309,6 +1545,10 @@ export class TradingEngine {
    */
   async deactivateEmergencyStop(reason: string): Promise<void> {
     logger.warn('Manually deactivating emergency stop:', reason);
+
+    // Load any persisted stop first so clearing it works before start()
+    await initializeDatabase();
+    await this.emergencyControls.restoreState();
     await this.emergencyControls.deactivateEmergencyStop(reason);
   }
 
@@ -1348,6 +1588,20 @@ export class TradingEngine {
     logger.info('Risk configuration updated');
   }
 
+  /**
+   * Get the id of the wallet this engine trades for ('primary' unless configured)
+   */
+  getWalletId(): string {
+    return this.config.wallet.id ?? 'primary';
+  }
+
+  /**
+   * Get the address of the wallet this engine trades for
+   */
+  getWalletAddress(): string {
+    return this.config.wallet.address;
+  }
+
   /**
    * Get GSwap SDK for external access
    */
@@ -1362,6 +1616,13 @@ export class TradingEngine {
     return this.swapExecutor;
   }
 
+  /**
+   * Strategy orchestrator running next to the trading loop, or null unless config.trading.strategyOrchestrator is set
+   */
+  getStrategyOrchestrator(): StrategyOrchestrator | null {
+    return this.strategyOrchestrator;
+  }
+
   /**
    * Enable arbitrage strategy
    */
@@ -1381,6 +1642,10 @@ export class TradingEngine {
    * Update trading mode based on enabled strategies
    */
   private updateTradingMode(): void {
+    if (this.config.wallet.riskMode) {
+      return; // Pinned by wallet configuration
+    }
+
     const previousMode = this.tradingMode;
     const detectedMode = detectTradingMode(this.enabledStrategies);
 
@@ -1492,6 +1757,8 @@ export class TradingEngine {
     rangeWidth: number;
     autoExecute: boolean;
     slippageTolerance?: number;
+    timeInForce?: TimeInForce;
+    expiresAt?: number;
   }): Promise<any> { // eslint-disable-line @typescript-eslint/no-explicit-any
     try {
       logger.info('Placing range order via TradingEngine', config);
@@ -1529,6 +1796,78 @@ export class TradingEngine {
     return this.rangeOrderStrategy.getAllOrders();
   }
 
+  /**
+   * Get active range orders as a limit order book with fill percentages
+   */
+  getRangeOrderBook(): RangeOrderBookEntry[] {
+    return this.rangeOrderStrategy.getOrderBook();
+  }
+
+  /**
+   * Whether this engine's wallet holds a liquidity position
+   */
+  hasLiquidityPosition(positionId: string): boolean {
+    return this.liquidityManager.getPosition(positionId) !== null;
+  }
+
+  /**
+   * Queue splitting a liquidity position into a ladder of ranges; it runs on the next liquidity management cycle
+   */
+  async queuePositionSplit(positionId: string, ladder: SplitLadder): Promise<RebalanceAction> {
+    const position = this.liquidityManager.getPosition(positionId);
+    if (!position) {
+      throw new Error(`Position not found: ${positionId}`);
+    }
+
+    const ranges = buildLadderRanges(ladder.minPrice ?? position.minPrice, ladder.maxPrice ?? position.maxPrice, ladder.rungs, ladder.weighting);
+    return this.rebalanceEngine.queueSplit(positionId, ranges, { maxSlippage: ladder.slippageTolerance });
+  }
+
+  /**
+   * Queue merging adjacent liquidity positions in one pool; it runs on the next liquidity management cycle
+   */
+  async queuePositionMerge(positionIds: string[], options: Omit<MergeOptions, 'maxGap'> = {}): Promise<RebalanceAction> {
+    const missing = positionIds.find(id => !this.hasLiquidityPosition(id));
+    if (missing) {
+      throw new Error(`Position not found: ${missing}`);
+    }
+
+    return this.rebalanceEngine.queueMerge(positionIds, {
+      newMinPrice: options.newMinPrice,
+      newMaxPrice: options.newMaxPrice,
+      maxSlippage: options.slippageTolerance
+    });
+  }
+
+  /**
+   * Get the auto-compound policy in force for one liquidity position
+   */
+  getFeeCompoundPolicy(positionId: string): CompoundPolicy {
+    return this.feeCompounder.getPolicy(positionId);
+  }
+
+  /**
+   * Set the auto-compound policy for one liquidity position; returns the policy now in force
+   */
+  setFeeCompoundPolicy(positionId: string, policy: Partial<CompoundPolicy>): CompoundPolicy {
+    return this.feeCompounder.setPolicy(positionId, policy);
+  }
+
+  /**
+   * Return one liquidity position to the default auto-compound policy
+   */
+  clearFeeCompoundPolicy(positionId: string): CompoundPolicy {
+    this.feeCompounder.clearPolicy(positionId);
+    return this.feeCompounder.getPolicy(positionId);
+  }
+
+  /**
+   * Get auto-compounding attempts, for one position or all
+   */
+  getFeeCompoundHistory(positionId?: string): CompoundResult[] {
+    return this.feeCompounder.getHistory(positionId);
+  }
+
   /**
    * Add a new liquidity position
    */
@@ -0,0 +1,510 @@
+/**
+ * Tax-Lot Accounting
+ * Cost-basis ledger fed by executed swaps and liquidity adds, removes and fee collections. Events
+ * are stored with the USD value of each token leg when it happened, and lots are rebuilt from them
+ * on demand under any cost-basis method (FIFO, LIFO, HIFO or average cost), producing realized
+ * gains per disposal, fee income and unrealized PnL per holding.
+ *
+ * Liquidity deposits are not disposals: the deposited lots' basis moves into the position and
+ * comes back, pro rata to the liquidity removed, as the basis of the tokens withdrawn. Collected
+ * fees are income at their value when collected and become new lots at that basis.
+ */
+
+import { randomUUID } from 'crypto';
+import { Between, FindOptionsWhere, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import { getTaxLedgerRepository } from '../../config/database';
+import { TaxLedgerEventRecord } from '../../entities/TaxLedgerEventRecord';
+import { logger } from '../../utils/logger';
+import { getTokenPriceUsd } from '../execution/trade-sizer';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'hifo', 'average'];
+
+export type LedgerEventKind = 'swap' | 'liquidity_add' | 'liquidity_remove' | 'fee_collection';
+
+/** USD price of a token symbol, or null when it cannot be priced */
+export type TokenPriceSource = (tokenSymbol: string) => number | null;
+
+export interface LedgerLeg {
+  token: string; // Token symbol
+  amount: number;
+  valueUSD: number | null; // Null when the token could not be priced
+}
+
+export interface LedgerEvent {
+  id: string;
+  kind: LedgerEventKind;
+  timestamp: number;
+  walletAddress?: string;
+  positionId?: string;
+  reference?: string;
+  liquidityFraction?: number;
+  sent: LedgerLeg[];
+  received: LedgerLeg[];
+}
+
+export interface TaxLot {
+  token: string;
+  amount: number;
+  costBasisUSD: number;
+  acquiredAt: number;
+  sourceEventId: string;
+}
+
+export interface Disposal {
+  eventId: string;
+  token: string;
+  amount: number;
+  acquiredAt: number | null; // Null for amounts with no lot, e.g. held before the ledger started
+  disposedAt: number;
+  proceedsUSD: number;
+  costBasisUSD: number;
+  gainUSD: number;
+  term: 'short' | 'long';
+  unmatched: boolean;
+  unpriced: boolean;
+}
+
+export interface IncomeEntry {
+  eventId: string;
+  token: string;
+  amount: number;
+  receivedAt: number;
+  valueUSD: number;
+  positionId?: string;
+  unpriced: boolean;
+}
+
+export interface Holding {
+  token: string;
+  amount: number;
+  costBasisUSD: number;
+  priceUSD: number | null;
+  marketValueUSD: number | null;
+  unrealizedUSD: number | null;
+  lots: TaxLot[];
+}
+
+export interface LiquidityBasis {
+  positionId: string;
+  costBasisUSD: number;
+  acquiredAt: number;
+}
+
+export interface TaxReport {
+  method: CostBasisMethod;
+  disposals: Disposal[];
+  income: IncomeEntry[];
+  holdings: Holding[];
+  liquidity: LiquidityBasis[];
+  realizedGainUSD: number;
+  unrealizedGainUSD: number;
+  incomeUSD: number;
+}
+
+export interface TaxReportOptions {
+  from?: Date; // Disposals and income on or after this date; lots always use the full history
+  to?: Date;
+  walletAddress?: string;
+  priceUSD?: TokenPriceSource; // Current prices for unrealized PnL
+}
+
+export interface SwapEventInput {
+  tokenIn: string;
+  amountIn: number;
+  tokenOut: string;
+  amountOut: number;
+  walletAddress?: string;
+  transactionId?: string;
+  timestamp?: number;
+}
+
+export interface LiquidityEventInput {
+  positionId: string;
+  tokens: Array<{ token: string; amount: number }>;
+  walletAddress?: string;
+  reference?: string;
+  liquidityFraction?: number; // Removals only: share of the position's liquidity withdrawn (default all)
+  timestamp?: number;
+}
+
+const LONG_TERM_MS = 365 * 24 * 60 * 60 * 1000;
+const DUST = 1e-12;
+
+/**
+ * Replay ledger events in time order and match disposals to lots with the chosen method
+ */
+export function buildTaxReport(
+  events: LedgerEvent[],
+  method: CostBasisMethod,
+  options: Pick<TaxReportOptions, 'from' | 'to' | 'priceUSD'> = {}
+): TaxReport {
+  const lots = new Map<string, TaxLot[]>();
+  const positions = new Map<string, LiquidityBasis>();
+  const disposals: Disposal[] = [];
+  const income: IncomeEntry[] = [];
+  const from = options.from?.getTime() ?? -Infinity;
+  const to = options.to?.getTime() ?? Infinity;
+
+  const acquire = (lot: TaxLot) => {
+    if (lot.amount <= DUST) return;
+    const tokenLots = lots.get(lot.token) ?? [];
+    tokenLots.push(lot);
+    lots.set(lot.token, tokenLots);
+    if (method === 'average') averageCost(tokenLots);
+  };
+
+  for (const event of [...events].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (event.timestamp > to) break;
+    const inPeriod = event.timestamp >= from;
+
+    switch (event.kind) {
+      case 'swap': {
+        const proceeds = event.received.reduce((sum, leg) => sum + (leg.valueUSD ?? 0), 0);
+        const unpriced = event.received.some(leg => leg.valueUSD === null);
+        for (const leg of event.sent) {
+          const slices = consume(lots.get(leg.token) ?? [], leg.amount, method);
+          for (const slice of slices) {
+            const sliceProceeds = leg.amount > 0 ? proceeds * (slice.amount / leg.amount) / event.sent.length : 0;
+            if (!inPeriod) continue;
+            disposals.push({
+              eventId: event.id,
+              token: leg.token,
+              amount: slice.amount,
+              acquiredAt: slice.acquiredAt,
+              disposedAt: event.timestamp,
+              proceedsUSD: sliceProceeds,
+              costBasisUSD: slice.costBasisUSD,
+              gainUSD: sliceProceeds - slice.costBasisUSD,
+              term: slice.acquiredAt !== null && event.timestamp - slice.acquiredAt > LONG_TERM_MS ? 'long' : 'short',
+              unmatched: slice.acquiredAt === null,
+              unpriced
+            });
+          }
+        }
+        for (const leg of event.received) {
+          acquire({ token: leg.token, amount: leg.amount, costBasisUSD: leg.valueUSD ?? 0, acquiredAt: event.timestamp, sourceEventId: event.id });
+        }
+        break;
+      }
+
+      case 'liquidity_add': {
+        const position = positions.get(event.positionId ?? event.id) ??
+          { positionId: event.positionId ?? event.id, costBasisUSD: 0, acquiredAt: 0 };
+        for (const leg of event.sent) {
+          for (const slice of consume(lots.get(leg.token) ?? [], leg.amount, method)) {
+            position.costBasisUSD += slice.costBasisUSD;
+            // The latest lot date never overstates the holding period
+            position.acquiredAt = Math.max(position.acquiredAt, slice.acquiredAt ?? event.timestamp);
+          }
+        }
+        positions.set(position.positionId, position);
+        break;
+      }
+
+      case 'liquidity_remove': {
+        const positionId = event.positionId ?? event.id;
+        const position = positions.get(positionId);
+        const fraction = Math.min(Math.max(event.liquidityFraction ?? 1, 0), 1);
+        const basis = position ? position.costBasisUSD * fraction : 0;
+        const acquiredAt = position?.acquiredAt || event.timestamp;
+        if (position) {
+          position.costBasisUSD -= basis;
+          if (fraction >= 1) positions.delete(positionId);
+        }
+
+        // Split the returned basis by the USD value of each token withdrawn, evenly when unpriced
+        const legs = event.received.filter(leg => leg.amount > 0);
+        const priced = legs.every(leg => leg.valueUSD !== null && leg.valueUSD > 0);
+        const totalValue = legs.reduce((sum, leg) => sum + (leg.valueUSD ?? 0), 0);
+        for (const leg of legs) {
+          const share = priced && totalValue > 0 ? (leg.valueUSD ?? 0) / totalValue : 1 / legs.length;
+          acquire({ token: leg.token, amount: leg.amount, costBasisUSD: basis * share, acquiredAt, sourceEventId: event.id });
+        }
+        break;
+      }
+
+      case 'fee_collection': {
+        for (const leg of event.received) {
+          if (leg.amount <= 0) continue;
+          if (inPeriod) {
+            income.push({
+              eventId: event.id,
+              token: leg.token,
+              amount: leg.amount,
+              receivedAt: event.timestamp,
+              valueUSD: leg.valueUSD ?? 0,
+              positionId: event.positionId,
+              unpriced: leg.valueUSD === null
+            });
+          }
+          acquire({ token: leg.token, amount: leg.amount, costBasisUSD: leg.valueUSD ?? 0, acquiredAt: event.timestamp, sourceEventId: event.id });
+        }
+        break;
+      }
+    }
+  }
+
+  const holdings: Holding[] = [];
+  for (const [token, tokenLots] of lots) {
+    if (tokenLots.length === 0) continue;
+    const amount = tokenLots.reduce((sum, lot) => sum + lot.amount, 0);
+    const costBasisUSD = tokenLots.reduce((sum, lot) => sum + lot.costBasisUSD, 0);
+    const priceUSD = options.priceUSD?.(token) ?? null;
+    const marketValueUSD = priceUSD !== null ? amount * priceUSD : null;
+    holdings.push({
+      token,
+      amount,
+      costBasisUSD,
+      priceUSD,
+      marketValueUSD,
+      unrealizedUSD: marketValueUSD !== null ? marketValueUSD - costBasisUSD : null,
+      lots: tokenLots.map(lot => ({ ...lot }))
+    });
+  }
+
+  return {
+    method,
+    disposals,
+    income,
+    holdings,
+    liquidity: [...positions.values()],
+    realizedGainUSD: disposals.reduce((sum, disposal) => sum + disposal.gainUSD, 0),
+    unrealizedGainUSD: holdings.reduce((sum, holding) => sum + (holding.unrealizedUSD ?? 0), 0),
+    incomeUSD: income.reduce((sum, entry) => sum + entry.valueUSD, 0)
+  };
+}
+
+/**
+ * Ledger of tax-relevant events, persisted to `tax_ledger_events`
+ */
+export class TaxLedger {
+  private repository: Repository<TaxLedgerEventRecord> | null = null;
+  private events: LedgerEvent[] = []; // Recorded before open attached the database
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly priceUSD: TokenPriceSource;
+
+  constructor(priceUSD: TokenPriceSource = getTokenPriceUsd) {
+    this.priceUSD = priceUSD;
+  }
+
+  /**
+   * Attach the database; events recorded before this are written then and dropped from memory
+   */
+  async open(): Promise<void> {
+    if (!this.repository) {
+      this.repository = await getTaxLedgerRepository();
+      for (const event of this.events) {
+        void this.persist(event);
+      }
+      this.events = [];
+    }
+  }
+
+  /**
+   * Record a confirmed swap. Both legs are valued at the market value of what was received,
+   * falling back to what was sent when the received token has no price.
+   */
+  recordSwap(input: SwapEventInput): LedgerEvent {
+    const tokenIn = tokenSymbol(input.tokenIn);
+    const tokenOut = tokenSymbol(input.tokenOut);
+    const outPrice = this.priceUSD(tokenOut);
+    const inPrice = outPrice === null ? this.priceUSD(tokenIn) : null;
+    const valueUSD = outPrice !== null ? input.amountOut * outPrice : inPrice !== null ? input.amountIn * inPrice : null;
+
+    return this.record({
+      id: randomUUID(),
+      kind: 'swap',
+      timestamp: input.timestamp ?? Date.now(),
+      walletAddress: input.walletAddress,
+      reference: input.transactionId,
+      sent: [{ token: tokenIn, amount: input.amountIn, valueUSD }],
+      received: [{ token: tokenOut, amount: input.amountOut, valueUSD }]
+    });
+  }
+
+  recordLiquidityAdd(input: LiquidityEventInput): LedgerEvent {
+    return this.record({ ...this.liquidityEvent('liquidity_add', input), sent: this.legs(input.tokens), received: [] });
+  }
+
+  recordLiquidityRemove(input: LiquidityEventInput): LedgerEvent {
+    return this.record({ ...this.liquidityEvent('liquidity_remove', input), sent: [], received: this.legs(input.tokens) });
+  }
+
+  recordFeeCollection(input: LiquidityEventInput): LedgerEvent {
+    return this.record({ ...this.liquidityEvent('fee_collection', input), sent: [], received: this.legs(input.tokens) });
+  }
+
+  /**
+   * Ledger events in time order; reads the database once it is attached
+   */
+  async find(query: Pick<TaxReportOptions, 'from' | 'to' | 'walletAddress'> = {}): Promise<LedgerEvent[]> {
+    if (!this.repository) {
+      return this.events.filter(event =>
+        (!query.walletAddress || event.walletAddress === query.walletAddress) &&
+        (!query.from || event.timestamp >= query.from.getTime()) &&
+        (!query.to || event.timestamp <= query.to.getTime()));
+    }
+
+    await this.flush();
+    const where: FindOptionsWhere<TaxLedgerEventRecord> = {};
+    if (query.walletAddress) where.walletAddress = query.walletAddress;
+    if (query.from && query.to) where.timestamp = Between(query.from.getTime(), query.to.getTime());
+    else if (query.from) where.timestamp = MoreThanOrEqual(query.from.getTime());
+    else if (query.to) where.timestamp = LessThanOrEqual(query.to.getTime());
+
+    const records = await this.repository.find({ where, order: { timestamp: 'ASC' } });
+    return records.map(fromRecord);
+  }
+
+  /**
+   * Realized gains, income and holdings under a cost-basis method. Lots are built from the full
+   * history up to `to`; only disposals and income are limited to the period.
+   */
+  async report(method: CostBasisMethod, options: TaxReportOptions = {}): Promise<TaxReport> {
+    const events = await this.find({ to: options.to, walletAddress: options.walletAddress });
+    return buildTaxReport(events, method, { from: options.from, to: options.to, priceUSD: options.priceUSD ?? this.priceUSD });
+  }
+
+  /**
+   * Wait for queued writes to land
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private liquidityEvent(kind: LedgerEventKind, input: LiquidityEventInput): Omit<LedgerEvent, 'sent' | 'received'> {
+    return {
+      id: randomUUID(),
+      kind,
+      timestamp: input.timestamp ?? Date.now(),
+      walletAddress: input.walletAddress,
+      positionId: input.positionId,
+      reference: input.reference,
+      liquidityFraction: input.liquidityFraction
+    };
+  }
+
+  private legs(tokens: LiquidityEventInput['tokens']): LedgerLeg[] {
+    return tokens.map(({ token, amount }) => {
+      const symbol = tokenSymbol(token);
+      const price = this.priceUSD(symbol);
+      return { token: symbol, amount, valueUSD: price !== null ? amount * price : null };
+    });
+  }
+
+  private record(event: LedgerEvent): LedgerEvent {
+    if (!this.repository) this.events.push(event);
+    void this.persist(event);
+    return event;
+  }
+
+  private persist(event: LedgerEvent): Promise<void> {
+    const repository = this.repository;
+    if (!repository) {
+      logger.debug(`Tax ledger (not persisted yet): ${event.kind} ${event.id}`);
+      return Promise.resolve();
+    }
+
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await repository.save(repository.create({
+          ...event,
+          walletAddress: event.walletAddress ?? null,
+          positionId: event.positionId ?? null,
+          reference: event.reference ?? null,
+          liquidityFraction: event.liquidityFraction ?? null
+        }));
+      } catch (error) {
+        logger.error(`Failed to record tax ledger event ${event.id} (${event.kind}):`, error);
+      }
+    });
+
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Disposal rows in the generic crypto tax import layout (Form 8949 columns)
+ */
+export function disposalsToTaxRows(disposals: Disposal[]): Array<Record<string, string | number>> {
+  return disposals.map(disposal => ({
+    'Description': `${formatAmount(disposal.amount)} ${disposal.token}`,
+    'Date Acquired': disposal.acquiredAt !== null ? isoDate(disposal.acquiredAt) : 'VARIOUS',
+    'Date Sold': isoDate(disposal.disposedAt),
+    'Proceeds': disposal.proceedsUSD.toFixed(2),
+    'Cost Basis': disposal.costBasisUSD.toFixed(2),
+    'Gain or Loss': disposal.gainUSD.toFixed(2),
+    'Term': disposal.term === 'long' ? 'Long-term' : 'Short-term',
+    'Notes': [disposal.unmatched ? 'no acquisition lot' : '', disposal.unpriced ? 'unpriced' : ''].filter(Boolean).join('; ')
+  }));
+}
+
+function consume(
+  lots: TaxLot[],
+  amount: number,
+  method: CostBasisMethod
+): Array<{ amount: number; costBasisUSD: number; acquiredAt: number | null }> {
+  const order = [...lots].sort((a, b) =>
+    method === 'lifo' ? b.acquiredAt - a.acquiredAt
+      : method === 'hifo' ? b.costBasisUSD / b.amount - a.costBasisUSD / a.amount
+        : a.acquiredAt - b.acquiredAt);
+
+  const slices: Array<{ amount: number; costBasisUSD: number; acquiredAt: number | null }> = [];
+  let remaining = amount;
+  for (const lot of order) {
+    if (remaining <= DUST) break;
+    const taken = Math.min(lot.amount, remaining);
+    const basis = lot.costBasisUSD * (taken / lot.amount);
+    lot.amount -= taken;
+    lot.costBasisUSD -= basis;
+    remaining -= taken;
+    slices.push({ amount: taken, costBasisUSD: basis, acquiredAt: lot.acquiredAt });
+  }
+
+  const emptied = lots.filter(lot => lot.amount <= DUST);
+  for (const lot of emptied) lots.splice(lots.indexOf(lot), 1);
+
+  if (remaining > DUST) {
+    slices.push({ amount: remaining, costBasisUSD: 0, acquiredAt: null });
+  }
+  return slices;
+}
+
+/**
+ * Spread a token's total cost evenly across its lots; lot dates still drive the holding period
+ */
+function averageCost(lots: TaxLot[]): void {
+  const amount = lots.reduce((sum, lot) => sum + lot.amount, 0);
+  const cost = lots.reduce((sum, lot) => sum + lot.costBasisUSD, 0);
+  for (const lot of lots) {
+    lot.costBasisUSD = amount > 0 ? cost * (lot.amount / amount) : 0;
+  }
+}
+
+function fromRecord(record: TaxLedgerEventRecord): LedgerEvent {
+  return {
+    id: record.id,
+    kind: record.kind,
+    timestamp: Number(record.timestamp), // bigint columns come back as strings
+    walletAddress: record.walletAddress ?? undefined,
+    positionId: record.positionId ?? undefined,
+    reference: record.reference ?? undefined,
+    liquidityFraction: record.liquidityFraction ?? undefined,
+    sent: record.sent,
+    received: record.received
+  };
+}
+
+function tokenSymbol(token: string): string {
+  return token.split(/[|$]/)[0];
+}
+
+function isoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatAmount(amount: number): string {
+  return Number(amount.toFixed(8)).toString();
+}
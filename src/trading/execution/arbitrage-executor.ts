@@ -10,6 +10,7 @@ import { TRADING_CONSTANTS, STRATEGY_CONSTANTS } from '../../config/constants';
 import { calculateMinOutputAmount } from '../../utils/slippage-calculator';
 import type { TokenInfo } from '../../types/galaswap';
 import { createTokenClassKey } from '../../types/galaswap';
+import { estimateRouteGasCost, getTradeSizeCap, optimizeTradeSize, routeQuoter } from './trade-sizer';
 
 export interface ArbitrageResult {
   success: boolean;
@@ -25,8 +26,11 @@ export interface ArbitrageConfig {
   mode: 'full' | 'multi';
   inputAmount?: number;
   feeTier?: number;
+  sizing?: 'fixed' | 'optimal'; // 'optimal' (default) searches the most profitable size up to the position and wallet caps
 }
 
+type PairArbitrageOptions = Pick<ArbitrageConfig, 'inputAmount' | 'sizing'>;
+
 /**
  * Initialize GSwap client with validated environment
  */
@@ -52,6 +56,38 @@ async function initializeGSwap(): Promise<{ gSwap: GSwap; env: ReturnType<typeof
   return { gSwap, env };
 }
 
+/**
+ * Find the round-trip size with the highest net profit, falling back to the base size when no size pays
+ */
+async function findOptimalPairSize(
+  gSwap: GSwap,
+  env: ReturnType<typeof validateEnvironment>,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  baseAmount: number
+): Promise<number> {
+  const quoteRoute = routeQuoter([tokenA.tokenClass, tokenB.tokenClass, tokenA.tokenClass], async (tokenIn, tokenOut, amountIn) => {
+    const quote = await gSwap.quoting.quoteExactInput(createTokenClassKey(tokenIn), createTokenClassKey(tokenOut), amountIn);
+    return quote ? quote.outTokenAmount.toNumber() : null;
+  });
+
+  const maxAmount = await getTradeSizeCap({
+    tokenSymbol: tokenA.symbol,
+    configuredMax: env.trading.maxPositionSize,
+    walletAddress: env.wallet.address
+  });
+  const gasCost = await estimateRouteGasCost(2, tokenA.symbol) ?? 0;
+
+  const sizing = await optimizeTradeSize(quoteRoute, { minAmount: baseAmount / 10, maxAmount, gasCost });
+  if (!sizing) {
+    logger.info(`📏 No profitable size for ${tokenA.symbol} ↔ ${tokenB.symbol} up to ${maxAmount.toFixed(2)}, checking base size`);
+    return baseAmount;
+  }
+
+  logger.info(`📏 Optimal size: ${sizing.amountIn.toFixed(6)} ${tokenA.symbol} (net ${sizing.netProfit.toFixed(6)}, ${sizing.quotesUsed} quotes${sizing.limitedByCap ? ', capped' : ''})`);
+  return sizing.amountIn;
+}
+
 /**
  * Execute a single token pair arbitrage
  */
@@ -60,12 +96,17 @@ async function executePairArbitrage(
   env: ReturnType<typeof validateEnvironment>,
   tokenA: TokenInfo,
   tokenB: TokenInfo,
-  inputAmount: number = TRADING_CONSTANTS.DEFAULT_TRADE_SIZE
+  options: PairArbitrageOptions = {}
 ): Promise<ArbitrageResult> {
   const route = `${tokenA.symbol} ↔ ${tokenB.symbol}`;
   logger.info(`🔄 Testing arbitrage: ${route}`);
 
   try {
+    const baseAmount = options.inputAmount ?? TRADING_CONSTANTS.DEFAULT_TRADE_SIZE;
+    const inputAmount = options.sizing === 'fixed'
+      ? baseAmount
+      : await findOptimalPairSize(gSwap, env, tokenA, tokenB, baseAmount);
+
     // Step 1: Get quotes for both directions - let API auto-discover fee tier (like manual script)
     let quote1;
     let feeTier1: number = TRADING_CONSTANTS.FEE_TIERS.STABLE; // Default fallback
@@ -277,7 +318,7 @@ function generateTokenPairs(): Array<{ tokenA: TokenInfo; tokenB: TokenInfo }> {
 /**
  * Execute full arbitrage (GALA ↔ GUSDC only)
  */
-export async function executeFullArbitrage(): Promise<ArbitrageResult> {
+export async function executeFullArbitrage(options: PairArbitrageOptions = {}): Promise<ArbitrageResult> {
   logger.info('🚀 FULL ARBITRAGE EXECUTION (GALA ↔ GUSDC)');
 
   const { gSwap, env } = await initializeGSwap();
@@ -285,13 +326,13 @@ export async function executeFullArbitrage(): Promise<ArbitrageResult> {
   const gala = TRADING_CONSTANTS.FALLBACK_TOKENS.find(t => t.symbol === 'GALA')!;
   const gusdc = TRADING_CONSTANTS.FALLBACK_TOKENS.find(t => t.symbol === 'GUSDC')!;
 
-  return await executePairArbitrage(gSwap, env, gala, gusdc);
+  return await executePairArbitrage(gSwap, env, gala, gusdc, options);
 }
 
 /**
  * Execute multi-pair arbitrage (all combinations)
  */
-export async function executeMultiArbitrage(): Promise<ArbitrageResult> {
+export async function executeMultiArbitrage(options: PairArbitrageOptions = {}): Promise<ArbitrageResult> {
   logger.info('🌟 MULTI-PAIR ARBITRAGE EXECUTION');
 
   const { gSwap, env } = await initializeGSwap();
@@ -301,7 +342,7 @@ export async function executeMultiArbitrage(): Promise<ArbitrageResult> {
   logger.info(`🔍 Scanning ${pairs.length} token pairs for arbitrage opportunities...`);
 
   for (const pair of pairs) {
-    const result = await executePairArbitrage(gSwap, env, pair.tokenA, pair.tokenB);
+    const result = await executePairArbitrage(gSwap, env, pair.tokenA, pair.tokenB, options);
 
     if (result.success) {
       logger.info(`🎉 Successful arbitrage completed! Stopping multi-pair scan.`);
@@ -326,9 +367,9 @@ export async function executeArbitrage(config: ArbitrageConfig): Promise<Arbitra
   try {
     switch (config.mode) {
       case 'full':
-        return await executeFullArbitrage();
+        return await executeFullArbitrage(config);
       case 'multi':
-        return await executeMultiArbitrage();
+        return await executeMultiArbitrage(config);
       default:
         throw new Error(`Unknown arbitrage mode: ${config.mode}`);
     }
@@ -0,0 +1,225 @@
+/**
+ * Atomic Bundle Execution
+ * Submits every hop of an arbitrage cycle as one signed `batchSwap` bundle so the cycle either
+ * fully executes or fully reverts. Each hop spends the previous hop's quoted output, which is also
+ * that hop's minimum, so nothing is left over in an intermediate token and a price move on any
+ * hop reverts the whole batch. A bundle the backend refuses was never submitted, so callers fall
+ * back to sequential hops; backends that reject the bundle type itself are remembered for a while.
+ */
+
+import { randomBytes } from 'crypto';
+import { logger } from '../../utils/logger';
+import { ENDPOINTS } from '../../api/endpoints';
+import { getTokenDecimals } from '../../utils/slippage-calculator';
+import {
+  BatchSwapPayload,
+  BundleRequest,
+  BundleResponse,
+  TokenClassKey,
+  createTokenClassKey
+} from '../../types/galaswap';
+
+export class AtomicBundleError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+    this.name = 'AtomicBundleError';
+  }
+}
+
+/**
+ * The bundle was refused before submission, so nothing was traded; execute the hops sequentially instead
+ */
+export class BundleRejectedError extends AtomicBundleError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'BundleRejectedError';
+  }
+}
+
+/**
+ * The backend does not accept batched swaps at all
+ */
+export class BundleNotSupportedError extends BundleRejectedError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'BundleNotSupportedError';
+  }
+}
+
+/** Output of a single hop for an input amount, or null when it cannot be quoted */
+export type BundleHopQuoter = (tokenIn: string, tokenOut: string, amountIn: number) => Promise<number | null>;
+
+export interface AtomicHop {
+  tokenIn: string; // Pipe format: Collection|Category|Type|AdditionalKey
+  tokenOut: string;
+  feeTier: number;
+  amountIn: number;
+  expectedOutput: number;
+  amountOutMinimum: number;
+}
+
+export interface AtomicPlanOptions {
+  hopSlippagePercent?: number; // Margin below the last hop's quote before the batch reverts (default 2%)
+  minFinalOutput?: number; // Floor for the last hop, e.g. the input amount so a losing cycle reverts
+}
+
+export interface BundleSigner {
+  signBundleRequest(payload: BatchSwapPayload, operationType: string): Promise<{ signature: string }>;
+}
+
+export interface AtomicBundleExecutorOptions {
+  baseUrl: string;
+  walletAddress: string;
+  timeoutMs?: number; // Bundle submission timeout (default 30s)
+  unsupportedRetryMs?: number; // How long an unsupported backend is skipped (default 1 hour)
+}
+
+const NOT_SUPPORTED_STATUS = [404, 405, 501];
+const NOT_SUPPORTED_PATTERN = /not supported|unsupported|unknown (bundle )?type|invalid (bundle )?type/i;
+
+/**
+ * Quote each hop on the previous hop's quoted output. Intermediate hops must deliver at least what the
+ * next hop spends; only the last hop gets the slippage margin, floored at `minFinalOutput`.
+ * Returns null when a hop cannot be quoted or the last hop cannot clear `minFinalOutput`.
+ */
+export async function planAtomicHops(
+  tokens: string[],
+  feeTiers: number[],
+  inputAmount: number,
+  quoteHop: BundleHopQuoter,
+  options: AtomicPlanOptions = {}
+): Promise<AtomicHop[] | null> {
+  const margin = (options.hopSlippagePercent ?? 2) / 100;
+  const hops: AtomicHop[] = [];
+  let amountIn = inputAmount;
+
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const expectedOutput = await quoteHop(tokens[i], tokens[i + 1], amountIn);
+    if (!expectedOutput || !(expectedOutput > 0)) {
+      logger.debug(`Atomic plan: no quote for hop ${i + 1} ${tokens[i]} → ${tokens[i + 1]}`);
+      return null;
+    }
+
+    const decimals = getTokenDecimals(tokens[i + 1]);
+    const isLastHop = i === tokens.length - 2;
+    let amountOutMinimum = floorTo(isLastHop ? expectedOutput * (1 - margin) : expectedOutput, decimals);
+    if (isLastHop && options.minFinalOutput !== undefined) {
+      if (expectedOutput < options.minFinalOutput) {
+        logger.debug(`Atomic plan: final output ${expectedOutput.toFixed(6)} below floor ${options.minFinalOutput.toFixed(6)}`);
+        return null;
+      }
+      amountOutMinimum = Math.max(amountOutMinimum, options.minFinalOutput);
+    }
+
+    hops.push({ tokenIn: tokens[i], tokenOut: tokens[i + 1], feeTier: feeTiers[i], amountIn, expectedOutput, amountOutMinimum });
+    amountIn = amountOutMinimum;
+  }
+
+  return hops;
+}
+
+/**
+ * Build the unsigned batch payload for a planned cycle
+ */
+export function buildBatchSwapPayload(hops: AtomicHop[], recipient: string): BatchSwapPayload {
+  return {
+    uniqueKey: `galaswap-operation-${randomBytes(16).toString('hex')}`,
+    atomic: true,
+    operations: hops.map(hop => ({
+      tokenIn: toTokenClassKey(hop.tokenIn),
+      tokenOut: toTokenClassKey(hop.tokenOut),
+      fee: hop.feeTier,
+      amount: floorTo(hop.amountIn, getTokenDecimals(hop.tokenIn)).toString(),
+      amountOutMinimum: hop.amountOutMinimum.toString(),
+      recipient
+    }))
+  };
+}
+
+export class AtomicBundleExecutor {
+  private static unsupportedUntil: Map<string, number> = new Map();
+
+  private readonly signer: BundleSigner;
+  private readonly options: Required<AtomicBundleExecutorOptions>;
+
+  constructor(signer: BundleSigner, options: AtomicBundleExecutorOptions) {
+    this.signer = signer;
+    this.options = { timeoutMs: 30000, unsupportedRetryMs: 3600000, ...options };
+  }
+
+  /**
+   * False while the backend is known to reject batched swaps
+   */
+  isSupported(): boolean {
+    return (AtomicBundleExecutor.unsupportedUntil.get(this.options.baseUrl) ?? 0) <= Date.now();
+  }
+
+  /**
+   * Sign and submit the hops as one atomic bundle. Returns the transaction id.
+   * Throws BundleRejectedError when the bundle could not be signed or the backend refused it,
+   * and BundleNotSupportedError when the backend rejects batched swaps altogether.
+   */
+  async submit(hops: AtomicHop[]): Promise<string> {
+    if (!this.isSupported()) {
+      throw new BundleNotSupportedError('Batched swaps are not supported by this backend');
+    }
+
+    const payload = buildBatchSwapPayload(hops, this.options.walletAddress);
+    let signature: string;
+    try {
+      ({ signature } = await this.signer.signBundleRequest(payload, 'batchSwap'));
+    } catch (error) {
+      throw new BundleRejectedError(`Bundle could not be signed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const request: BundleRequest = { payload, type: 'batchSwap', signature, user: this.options.walletAddress };
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}${ENDPOINTS.BUNDLE}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+
+    let body: Partial<BundleResponse> & { message?: string } = {};
+    try {
+      body = await response.json() as typeof body;
+    } catch {
+      // Non-JSON error pages are handled by the status checks below
+    }
+
+    const message = body.data?.message || body.message || response.statusText;
+    if (NOT_SUPPORTED_STATUS.includes(response.status) || (!response.ok && NOT_SUPPORTED_PATTERN.test(message))) {
+      AtomicBundleExecutor.unsupportedUntil.set(this.options.baseUrl, Date.now() + this.options.unsupportedRetryMs);
+      throw new BundleNotSupportedError(`Bundle rejected: ${message}`, response.status);
+    }
+    if (!response.ok || body.error || body.data?.error) {
+      throw new BundleRejectedError(`Bundle rejected: ${message}`, response.status);
+    }
+    if (!body.data?.data) {
+      // Accepted without a transaction id: it may still execute, so running the hops again is not safe
+      throw new AtomicBundleError(`Bundle submission returned no transaction id: ${message}`, response.status);
+    }
+
+    logger.info(`📦 Submitted atomic ${hops.length}-hop bundle: ${body.data.data}`);
+    return body.data.data;
+  }
+
+  /**
+   * Forget that backends rejected batched swaps
+   */
+  static resetSupport(): void {
+    AtomicBundleExecutor.unsupportedUntil.clear();
+  }
+}
+
+/**
+ * Routes use pipe-separated token keys; createTokenClassKey expects the `$` form
+ */
+function toTokenClassKey(token: string): TokenClassKey {
+  return createTokenClassKey(token.replace(/\|/g, '$'));
+}
+
+function floorTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.floor(value * factor) / factor;
+}
@@ -16,8 +16,12 @@ import { CircuitBreaker, CircuitBreakerFactory, CircuitBreakerManager, CircuitBr
 import type { TokenInfo } from '../../types/galaswap';
 import { PrecisionMath, FixedNumber, TOKEN_DECIMALS } from '../../utils/precision-math';
 import { safeParseFixedNumber, safeFixedToNumber } from '../../utils/safe-parse';
-import { getMaxSafeTradeSize } from '../../utils/wallet-balance';
+import { getMaxSafeTradeSize, getWalletBalance } from '../../utils/wallet-balance';
 import { ENV } from '../../config/environment';
+import { poolDiscovery } from '../../services/pool-discovery';
+import type { ArbitrageCycle } from '../../services/arbitrage-graph';
+import { getTradeSizeCap, optimizeTradeSize, routeQuoter } from './trade-sizer';
+import { AtomicBundleExecutor, AtomicHop, BundleRejectedError, planAtomicHops } from './atomic-bundle';
 import {
   recordTradeOutcome,
   recordVolatility,
@@ -107,15 +111,23 @@ export interface ExoticArbitrageResult {
 }
 
 export interface ExoticArbitrageConfig {
-  mode: 'triangular' | 'cross-pair' | 'hunt-execute' | 'multi-hop-4' | 'multi-hop-5' | 'multi-hop-6' | 'comprehensive-triangular' | 'comprehensive-cross-pair' | 'comprehensive-all' | 'parallel';
+  mode: 'triangular' | 'cross-pair' | 'hunt-execute' | 'multi-hop-4' | 'multi-hop-5' | 'multi-hop-6' | 'graph-cycles' | 'comprehensive-triangular' | 'comprehensive-cross-pair' | 'comprehensive-all' | 'parallel';
   inputAmount?: number;
   minProfitThreshold?: number;
-  maxHops?: number;
+  maxHops?: number; // Longest cycle for graph-cycles mode (default: 6)
   specificRoute?: string[];
   useMultiFeeTier?: boolean; // Enable multi-fee-tier optimization (default: true)
   maxParallelRoutes?: number; // Maximum parallel routes for parallel mode (default: 3)
+  executionMode?: RouteExecutionMode; // Triangular and parallel modes: 'atomic' bundles every hop into one transaction (default: 'sequential')
 }
 
+/**
+ * 'atomic' submits every hop in one bundle that fully executes or fully reverts, falling back to
+ * 'sequential' (one swap per hop) when the backend refuses the bundle. Opt-in until the backend
+ * is confirmed to accept the `batchSwap` bundle type.
+ */
+export type RouteExecutionMode = 'atomic' | 'sequential';
+
 /**
  * Initialize GSwap client for exotic arbitrage with secure key handling and circuit breakers
  */
@@ -1225,16 +1237,157 @@ export async function discoverMultiHopOpportunities(
   return opportunities.sort((a, b) => b.profitPercent - a.profitPercent);
 }
 
+/**
+ * Discover GALA cycles of any length up to maxHops from the pool graph
+ *
+ * Unlike the brute-force multi-hop search, which only walks a fixed token list, the arbitrage
+ * graph covers every discovered pool and fee tier, so 4- and 5-hop cycles through less liquid
+ * gaming tokens are found too. Cycles flagged at spot prices are re-quoted hop by hop before
+ * they are reported. With optimalSizing each cycle is traded at the size that maximizes net
+ * profit (up to the position limit and 90% of the wallet balance) instead of inputAmount.
+ */
+export async function discoverGraphCycleOpportunities(
+  inputAmount: number = TRADING_CONSTANTS.DEFAULT_TRADE_SIZE,
+  minProfitThreshold: number = 1.0,
+  maxHops: number = 6,
+  useMultiFeeTier: boolean = true,
+  maxCandidates: number = 10, // Spot-price candidates to verify with live quotes
+  optimalSizing: boolean = true
+): Promise<ExoticRoute[]> {
+  logger.info(`🔍 Discovering arbitrage cycles up to ${maxHops} hops from the pool graph`);
+
+  let candidates: ArbitrageCycle[];
+  try {
+    await poolDiscovery.fetchAllPools();
+    candidates = poolDiscovery.findArbitrageCycles({
+      maxHops,
+      minProfitPercent: minProfitThreshold,
+      startTokens: ['GALA']
+    }).slice(0, maxCandidates);
+  } catch (error) {
+    logger.error('Pool graph cycle search failed:', error);
+    return [];
+  }
+
+  if (candidates.length === 0) {
+    logger.info('🔍 No cycles through GALA are profitable at spot prices');
+    return [];
+  }
+
+  let gSwap: GSwap;
+  let signerService: SignerService;
+  let circuitBreakers: { quote: CircuitBreaker; swap: CircuitBreaker; transaction: CircuitBreaker };
+  try {
+    const initialized = await initializeGSwap();
+    gSwap = initialized.gSwap;
+    signerService = initialized.signerService;
+    circuitBreakers = initialized.circuitBreakers;
+  } catch (error) {
+    logger.error('Failed to initialize GSwap for graph cycle discovery:', error);
+    return [];
+  }
+
+  const opportunities: ExoticRoute[] = [];
+  const startDecimals = getTokenDecimals('GALA');
+
+  try {
+    const maxTradeSize = optimalSizing
+      ? await getTradeSizeCap({ tokenSymbol: 'GALA', configuredMax: ENV.trading.maxPositionSize, walletAddress: ENV.wallet.address, maxBalanceFraction: 0.9 })
+      : inputAmount;
+
+    for (const cycle of candidates) {
+      const symbols = cycle.tokens;
+      const tokens = symbols.map(symbol => `${symbol}|Unit|none|none`);
+      logger.debug(`   Graph cycle ${symbols.join('→')}: ${cycle.profitPercent.toFixed(2)}% at spot`);
+
+      let tradeAmount = inputAmount;
+      if (optimalSizing) {
+        const quoteRoute = routeQuoter(tokens, async (tokenIn, tokenOut, amountIn) =>
+          (await getSmartQuote(useMultiFeeTier, gSwap, circuitBreakers.quote, tokenIn, tokenOut, amountIn))?.outputAmount ?? null);
+        const sizing = await optimizeTradeSize(quoteRoute, {
+          minAmount: inputAmount / 10,
+          maxAmount: maxTradeSize,
+          gasCost: calculateStaticGasWithSafetyMargin(symbols, inputAmount).totalGas
+        });
+        if (sizing) {
+          tradeAmount = sizing.amountIn;
+          logger.debug(`   Sized ${symbols.join('→')} to ${tradeAmount.toFixed(2)} GALA${sizing.limitedByCap ? ' (capped)' : ''}`);
+        }
+      }
+
+      // Re-quote every hop at the live price for the actual input size
+      let amount = tradeAmount;
+      const feeTiers: number[] = [];
+      for (let i = 0; i < tokens.length - 1 && amount > 0; i++) {
+        const quote = await getSmartQuote(useMultiFeeTier, gSwap, circuitBreakers.quote, tokens[i], tokens[i + 1], amount);
+        amount = quote ? quote.outputAmount : 0;
+        if (quote) feeTiers.push(quote.feeTier);
+      }
+      if (!(amount > 0)) continue;
+
+      const inputAmountFixed = PrecisionMath.fromToken(tradeAmount, startDecimals);
+      const finalAmountFixed = PrecisionMath.fromToken(amount, startDecimals);
+      const profitFixed = PrecisionMath.subtract(finalAmountFixed, inputAmountFixed);
+      const gasEstimate = calculateStaticGasWithSafetyMargin(symbols, tradeAmount);
+      const estimatedGasFixed = PrecisionMath.fromToken(gasEstimate.totalGas, startDecimals);
+      const netProfitFixed = PrecisionMath.subtract(profitFixed, estimatedGasFixed);
+      const netProfit = safeFixedToNumber(netProfitFixed);
+      const netProfitPercent = (netProfit / tradeAmount) * 100;
+
+      if (netProfitPercent < minProfitThreshold) {
+        logger.debug(`   ${symbols.join('→')} = ${netProfitPercent.toFixed(2)}% net after live quotes`);
+        continue;
+      }
+
+      opportunities.push({
+        tokens,
+        symbols,
+        inputAmount: tradeAmount,
+        expectedOutput: amount,
+        profitPercent: netProfitPercent,
+        profitAmount: netProfit,
+        estimatedGas: safeFixedToNumber(estimatedGasFixed),
+        netProfit,
+        confidence: netProfitPercent > (minProfitThreshold * 2) ? 'high' :
+                   netProfitPercent > (minProfitThreshold * 1.5) ? 'medium' : 'low',
+        feeTiers,
+        _precisionValues: {
+          inputAmountFixed,
+          expectedOutputFixed: finalAmountFixed,
+          profitAmountFixed: netProfitFixed,
+          estimatedGasFixed,
+          netProfitFixed
+        }
+      });
+
+      logger.info(`   ✅ Found ${cycle.hops}-hop graph cycle: ${symbols.join('→')} (${netProfitPercent.toFixed(2)}%)`);
+    }
+  } finally {
+    signerService.destroy();
+    try {
+      GSwap.events?.disconnectEventSocket();
+    } catch (error) {
+      // Ignore cleanup errors to avoid masking original errors
+    }
+  }
+
+  logger.info(`🔍 Verified ${candidates.length} graph cycles, found ${opportunities.length} profitable opportunities`);
+
+  return opportunities.sort((a, b) => b.profitPercent - a.profitPercent);
+}
+
 /**
  * Execute exotic route with multi-hop trading
  */
-async function executeExoticRoute(route: ExoticRoute): Promise<ExoticArbitrageResult> {
+async function executeExoticRoute(route: ExoticRoute, executionMode: RouteExecutionMode = 'sequential'): Promise<ExoticArbitrageResult> {
   logger.info(`🚀 Executing exotic route: ${route.symbols.join(' → ')}`);
   logger.info(`💰 Expected profit: ${route.profitPercent.toFixed(2)}% (${route.profitAmount.toFixed(6)} GALA)`);
 
   const { gSwap, env, signerService, swapExecutor, circuitBreakers } = await initializeGSwap();
   const transactionIds: string[] = [];
   let currentAmount = route.inputAmount;
+  const recovery = swapExecutor.getArbitrageRecovery();
+  let attemptId: string | null = null;
 
   // Ensure cleanup of signer service and WebSocket connection on function exit
   const cleanup = () => {
@@ -1271,6 +1424,23 @@ async function executeExoticRoute(route: ExoticRoute): Promise<ExoticArbitrageRe
       logger.warn(`⚠️ Executing LOW confidence route - higher risk of failure`);
     }
 
+    if (executionMode === 'atomic') {
+      const atomicResult = await executeAtomicRoute(route, gSwap, env, signerService, swapExecutor, circuitBreakers.quote);
+      if (atomicResult) {
+        cleanup();
+        return atomicResult;
+      }
+      logger.warn('📦 Bundle not accepted, executing hops sequentially');
+    }
+
+    // Journal the attempt so a crash between hops leaves a record of the token we hold
+    try {
+      await recovery.open();
+    } catch (error) {
+      logger.warn('Arbitrage recovery journal unavailable, tracking this attempt in memory only:', error);
+    }
+    attemptId = recovery.beginAttempt(route.tokens[0], route.inputAmount.toString(), route.profitAmount);
+
     // Execute each hop in the route
     for (let i = 0; i < route.tokens.length - 1; i++) {
       const fromToken = route.tokens[i];
@@ -1315,6 +1485,7 @@ async function executeExoticRoute(route: ExoticRoute): Promise<ExoticArbitrageRe
       }
 
       transactionIds.push(txId);
+      recovery.recordHop(attemptId, txId, toToken);
 
       // Apply slippage protection using precision math: use conservative estimate for next hop
       // This prevents compounding slippage across multiple hops
@@ -1418,6 +1589,8 @@ async function executeExoticRoute(route: ExoticRoute): Promise<ExoticArbitrageRe
     logger.info(`   Final amount: ${currentAmount.toFixed(6)} GALA`);
     logger.info(`   Actual profit: ${actualProfit.toFixed(6)} GALA (${actualProfitPercent.toFixed(2)}%)`);
 
+    recovery.completeAttempt(attemptId, currentAmount.toString());
+
     // 📊 PHASE 7: Record successful trade for learning
     await recordTradeOutcome(route, true, actualProfitPercent);
 
@@ -1437,6 +1610,14 @@ async function executeExoticRoute(route: ExoticRoute): Promise<ExoticArbitrageRe
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error(`❌ Exotic arbitrage execution failed:`, errorMessage);
 
+    if (attemptId) {
+      try {
+        await recovery.failAttempt(attemptId, errorMessage);
+      } catch (recoveryError) {
+        logger.error('Arbitrage recovery failed:', recoveryError);
+      }
+    }
+
     // 📊 PHASE 7: Record failed trade for learning
     await recordTradeOutcome(route, false);
 
@@ -1453,13 +1634,157 @@ async function executeExoticRoute(route: ExoticRoute): Promise<ExoticArbitrageRe
   }
 }
 
+/**
+ * Execute a route as one atomic bundle. Returns null when the backend refuses the bundle before
+ * submission, so the caller can fall back to sequential hops; nothing has been traded in that case.
+ */
+async function executeAtomicRoute(
+  route: ExoticRoute,
+  gSwap: GSwap,
+  env: ReturnType<typeof validateEnvironment>,
+  signerService: SignerService,
+  swapExecutor: SwapExecutor,
+  quoteBreaker: CircuitBreaker
+): Promise<ExoticArbitrageResult | null> {
+  const bundleExecutor = new AtomicBundleExecutor(signerService, { baseUrl: env.api.baseUrl, walletAddress: env.wallet.address });
+  if (!bundleExecutor.isSupported()) {
+    return null;
+  }
+
+  // The final hop must return at least the input, so a cycle that turned unprofitable reverts
+  const hops = await planAtomicHops(
+    route.tokens,
+    route.feeTiers,
+    route.inputAmount,
+    async (tokenIn, tokenOut, amountIn) => (await getQuoteWithFeeTier(gSwap, quoteBreaker, tokenIn, tokenOut, amountIn))?.outputAmount ?? null,
+    { hopSlippagePercent: TRADING_CONSTANTS.SAFETY_MARGINS.EXOTIC_ARBITRAGE_EXTRA, minFinalOutput: route.inputAmount }
+  );
+  if (!hops) {
+    await recordTradeOutcome(route, false);
+    return { success: false, route, executedTrades: 0, error: 'Route no longer clears its input amount at live quotes' };
+  }
+
+  for (const [i, hop] of hops.entries()) {
+    logger.info(`📦 Hop ${i + 1}: ${route.symbols[i]} → ${route.symbols[i + 1]} ${hop.amountIn.toFixed(6)} in, min ${hop.amountOutMinimum.toFixed(6)} out`);
+  }
+
+  const startBalance = await getWalletBalance(env.wallet.address, route.symbols[0]);
+
+  let txId: string;
+  try {
+    txId = await bundleExecutor.submit(hops);
+  } catch (error) {
+    if (error instanceof BundleRejectedError) {
+      logger.warn(`📦 ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+
+  const monitoringResult = await swapExecutor.monitorTransaction(txId, 60000);
+  if (monitoringResult.status !== 'CONFIRMED') {
+    await journalBundleHops(swapExecutor, hops, env.wallet.address, txId, monitoringResult);
+    await recordTradeOutcome(route, false);
+    const reverted = monitoringResult.status === 'FAILED';
+    return {
+      success: false,
+      route,
+      executedTrades: 0,
+      transactionIds: [txId],
+      error: reverted
+        ? `Bundle reverted, no hops executed: ${monitoringResult.errorMessage || 'unknown reason'}`
+        : `Bundle ${txId} not confirmed: ${monitoringResult.status}`
+    };
+  }
+
+  // What came back is the change in the start token's balance; the last hop's minimum is a floor on it
+  const floor = hops[hops.length - 1].amountOutMinimum;
+  const endBalance = await getWalletBalance(env.wallet.address, route.symbols[0]);
+  const measured = endBalance - startBalance + route.inputAmount;
+  const balanceKnown = startBalance > 0 && endBalance > 0 && measured >= floor;
+  if (!balanceKnown) {
+    logger.warn(`📦 Could not measure bundle output from wallet balance, reporting the guaranteed minimum`);
+  }
+  const finalAmount = balanceKnown ? measured : floor;
+  const profitAmount = finalAmount - route.inputAmount;
+  const profitPercent = (profitAmount / route.inputAmount) * 100;
+  await journalBundleHops(swapExecutor, hops, env.wallet.address, txId, monitoringResult, finalAmount);
+
+  logger.info(`🎉 ATOMIC ARBITRAGE COMPLETE: ${route.symbols.join(' → ')} (${balanceKnown ? '' : 'at least '}${profitAmount.toFixed(6)} ${route.symbols[0]})`);
+  await recordTradeOutcome(route, true, profitPercent);
+
+  return {
+    success: true,
+    route,
+    executedTrades: hops.length,
+    transactionIds: [txId],
+    profitAmount,
+    profitPercent
+  };
+}
+
+/**
+ * Record a settled bundle's hops in the trade journal, and confirmed ones in the tax ledger, as
+ * executeSwap does for single swaps. An intermediate hop delivered exactly what the next hop spent.
+ */
+async function journalBundleHops(
+  swapExecutor: SwapExecutor,
+  hops: AtomicHop[],
+  walletAddress: string,
+  txId: string,
+  monitoringResult: TransactionMonitoringResult,
+  finalAmount?: number
+): Promise<void> {
+  const journal = swapExecutor.getTradeJournal();
+  const taxLedger = swapExecutor.getTaxLedger();
+  try {
+    await journal.open();
+    await taxLedger.open();
+  } catch (error) {
+    logger.warn('Trade journal unavailable, keeping this bundle in memory only:', error);
+  }
+
+  const confirmed = monitoringResult.status === 'CONFIRMED';
+  for (const [i, hop] of hops.entries()) {
+    const amountOut = i < hops.length - 1 ? hops[i + 1].amountIn : finalAmount;
+    const tradeId = journal.begin({
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+      amountIn: hop.amountIn.toString(),
+      userAddress: walletAddress,
+      strategy: 'exotic-arbitrage'
+    });
+    journal.transition(tradeId, 'SUBMITTED', {
+      quotedAmountOut: hop.expectedOutput.toString(),
+      transactionId: txId
+    }, `hop ${i + 1} of ${hops.length} in bundle`);
+    journal.transition(tradeId, confirmed ? 'CONFIRMED' : 'FAILED', {
+      monitoringResult: { ...monitoringResult },
+      amountOut: confirmed && amountOut !== undefined ? amountOut.toString() : null,
+      error: confirmed ? null : monitoringResult.errorMessage ?? `Bundle ${monitoringResult.status}`
+    });
+
+    if (confirmed && amountOut !== undefined) {
+      taxLedger.recordSwap({
+        tokenIn: hop.tokenIn,
+        amountIn: hop.amountIn,
+        tokenOut: hop.tokenOut,
+        amountOut,
+        walletAddress,
+        transactionId: txId
+      });
+    }
+  }
+}
+
 /**
  * Execute triangular arbitrage
  */
 export async function executeTriangularArbitrage(
   inputAmount: number = TRADING_CONSTANTS.DEFAULT_TRADE_SIZE,
   minProfitThreshold: number = 1.0,
-  useMultiFeeTier: boolean = true
+  useMultiFeeTier: boolean = true,
+  executionMode: RouteExecutionMode = 'sequential'
 ): Promise<ExoticArbitrageResult> {
   logger.info('🔄 TRIANGULAR ARBITRAGE EXECUTION');
 
@@ -1476,7 +1801,7 @@ export async function executeTriangularArbitrage(
   const bestRoute = opportunities[0];
   logger.info(`🎯 Executing best triangular route: ${bestRoute.symbols.join(' → ')}`);
 
-  return await executeExoticRoute(bestRoute);
+  return await executeExoticRoute(bestRoute, executionMode);
 }
 
 /**
@@ -1676,6 +2001,33 @@ async function executeMultiHop6Arbitrage(
   return await executeExoticRoute(bestRoute);
 }
 
+/**
+ * Execute the best GALA cycle found by the pool graph (any length up to maxHops)
+ */
+async function executeGraphCycleArbitrage(
+  inputAmount: number = TRADING_CONSTANTS.DEFAULT_TRADE_SIZE,
+  minProfitThreshold: number = 1.0,
+  maxHops: number = 6,
+  useMultiFeeTier: boolean = true
+): Promise<ExoticArbitrageResult> {
+  logger.info(`🔍 Executing Graph Cycle Arbitrage (up to ${maxHops} hops)`);
+
+  const opportunities = await discoverGraphCycleOpportunities(inputAmount, minProfitThreshold, maxHops, useMultiFeeTier);
+
+  if (opportunities.length === 0) {
+    return {
+      success: false,
+      error: 'No profitable graph cycle arbitrage opportunities found',
+      executedTrades: 0
+    };
+  }
+
+  const bestRoute = opportunities[0];
+  logger.info(`🏆 Best graph cycle: ${bestRoute.symbols.join(' → ')} (${bestRoute.profitPercent.toFixed(2)}%)`);
+
+  return await executeExoticRoute(bestRoute);
+}
+
 /**
  * Execute comprehensive triangular scan across all starting tokens
  */
@@ -1782,7 +2134,8 @@ export async function executeParallelArbitrage(
   inputAmount: number = TRADING_CONSTANTS.DEFAULT_TRADE_SIZE,
   minProfitThreshold: number = 2.0,
   useMultiFeeTier: boolean = true,
-  maxParallelRoutes: number = 3
+  maxParallelRoutes: number = 3,
+  executionMode: RouteExecutionMode = 'sequential'
 ): Promise<ExoticArbitrageResult> {
   logger.info('🎯 PARALLEL ARBITRAGE EXECUTION MODE');
   logger.info(`   Max parallel routes: ${maxParallelRoutes}`);
@@ -1877,7 +2230,7 @@ export async function executeParallelArbitrage(
 
     const route = firstBatch[idx];
     try {
-      const result = await executeExoticRoute(route);
+      const result = await executeExoticRoute(route, executionMode);
       results.push({ status: 'fulfilled', value: result });
 
       // Early abort if balance error to prevent wasting resources
@@ -1964,7 +2317,7 @@ export async function executeExoticArbitrage(config: ExoticArbitrageConfig): Pro
 
     switch (config.mode) {
       case 'triangular':
-        return await executeTriangularArbitrage(inputAmount, config.minProfitThreshold || 1.0, useMultiFeeTier);
+        return await executeTriangularArbitrage(inputAmount, config.minProfitThreshold || 1.0, useMultiFeeTier, config.executionMode);
       case 'cross-pair':
         return await executeCrossPairArbitrage(inputAmount, config.minProfitThreshold || 1.5, useMultiFeeTier);
       case 'hunt-execute':
@@ -1975,6 +2328,8 @@ export async function executeExoticArbitrage(config: ExoticArbitrageConfig): Pro
         return await executeMultiHop5Arbitrage(inputAmount, config.minProfitThreshold || 2.5, useMultiFeeTier);
       case 'multi-hop-6':
         return await executeMultiHop6Arbitrage(inputAmount, config.minProfitThreshold || 3.0, useMultiFeeTier);
+      case 'graph-cycles':
+        return await executeGraphCycleArbitrage(inputAmount, config.minProfitThreshold || 1.0, config.maxHops || 6, useMultiFeeTier);
       case 'comprehensive-triangular':
         return await executeComprehensiveTriangularArbitrage(inputAmount, config.minProfitThreshold || 1.0, useMultiFeeTier);
       case 'comprehensive-cross-pair':
@@ -1982,7 +2337,7 @@ export async function executeExoticArbitrage(config: ExoticArbitrageConfig): Pro
       case 'comprehensive-all':
         return await executeComprehensiveAllArbitrage(inputAmount, config.minProfitThreshold || 1.0, useMultiFeeTier);
       case 'parallel':
-        return await executeParallelArbitrage(inputAmount, config.minProfitThreshold || 2.0, useMultiFeeTier, config.maxParallelRoutes || 3);
+        return await executeParallelArbitrage(inputAmount, config.minProfitThreshold || 2.0, useMultiFeeTier, config.maxParallelRoutes || 3, config.executionMode);
       default:
         throw new Error(`Invalid arbitrage mode: ${config.mode}`);
     }
@@ -21,6 +21,7 @@ import { TradingConfig } from '../../config/environment';
 import { logger } from '../../utils/logger';
 import { TRADING_CONSTANTS } from '../../config/constants';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { Clock, RuntimeSources, systemClock } from '../../utils/clock';
 import { PrecisionMath, TOKEN_DECIMALS } from '../../utils/precision-math';
 import { safeParseFloat, safeFixedToNumber } from '../../utils/safe-parse';
 
@@ -114,15 +115,17 @@ export class PathOptimizer {
   private gswap: GSwap;
   private config: TradingConfig;
   private quoteWrapper: any;
+  private clock: Clock;
   private optimizationConfig: PathOptimizationConfig;
   private liquidityCache: Map<string, LiquidityAnalysis> = new Map();
   private lastCacheUpdate: number = 0;
   private readonly CACHE_TTL = 30000; // 30 seconds
 
-  constructor(gswap: GSwap, config: TradingConfig) {
+  constructor(gswap: GSwap, config: TradingConfig, sources: RuntimeSources = {}) {
     this.gswap = gswap;
     this.config = config;
-    this.quoteWrapper = createQuoteWrapper('https://dex-backend-prod1.defi.gala.com');
+    this.clock = sources.clock ?? systemClock;
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper('https://dex-backend-prod1.defi.gala.com');
 
     // Initialize optimization configuration
     this.optimizationConfig = {
@@ -166,7 +169,7 @@ export class PathOptimizer {
       logger.debug(`Optimizing path: ${path.join('→')} with ${inputAmount} input`);
 
       // Update liquidity cache if stale
-      if (Date.now() - this.lastCacheUpdate > this.CACHE_TTL) {
+      if (this.clock.now() - this.lastCacheUpdate > this.CACHE_TTL) {
         await this.updateLiquidityCache();
       }
 
@@ -802,7 +805,7 @@ export class PathOptimizer {
     try {
       // Simplified liquidity cache update
       // In production, would fetch real liquidity data
-      this.lastCacheUpdate = Date.now();
+      this.lastCacheUpdate = this.clock.now();
       logger.debug('Liquidity cache updated');
     } catch (error) {
       logger.error('Error updating liquidity cache:', error);
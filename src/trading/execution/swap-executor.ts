@@ -11,8 +11,14 @@ import { logger } from '../../utils/logger';
 import { safeParseFloat, safeParseFixedNumber, safeFixedToNumber } from '../../utils/safe-parse';
 import { ApiResponseParser, ResponseValidators } from '../../utils/api-response-parser';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { RuntimeSources } from '../../utils/clock';
 import { PrecisionMath, FixedNumber, TOKEN_DECIMALS } from '../../utils/precision-math';
 import { GasBiddingEngine, OpportunityMetrics, GasBidCalculation } from './gas-bidding';
+import { GalaSwapWebSocketClient } from '../../api/websocket-client';
+import { swapMetrics } from '../../monitoring/bot-metrics';
+import { TradeJournal, hashPayload } from './trade-journal';
+import { ArbitrageRecovery } from '../recovery/arbitrage-recovery';
+import { TaxLedger } from '../accounting/tax-lots';
 import {
   QuoteRequest,
   QuoteResponse,
@@ -40,6 +46,8 @@ export interface SwapRequest {
   timeToExpiration?: number; // Time until opportunity expires (milliseconds)
   competitiveRisk?: 'low' | 'medium' | 'high'; // Competition level for this opportunity
   gasBiddingEnabled?: boolean; // Enable/disable gas bidding for this swap
+  strategy?: string; // Strategy attribution recorded in the trade journal
+  feeTier?: number; // Pool fee tier to route through; the executor picks one when omitted
 }
 
 export interface SwapResult {
@@ -79,6 +87,10 @@ export class SwapExecutor {
   private slippageProtection: SlippageProtection;
   private quoteWrapper: any; // Working quote API wrapper
   private gasBiddingEngine: GasBiddingEngine;
+  private realtimeFeed: GalaSwapWebSocketClient | null = null;
+  private tradeJournal: TradeJournal = new TradeJournal();
+  private taxLedger: TaxLedger = new TaxLedger();
+  private arbitrageRecovery: ArbitrageRecovery | null = null;
   private static testTransactionCounter = 0;
 
   /**
@@ -92,13 +104,13 @@ export class SwapExecutor {
     return `${token.collection}$${token.category}$${token.type}$${token.additionalKey}`;
   }
 
-  constructor(gswap: GSwap, slippageProtection: SlippageProtection) {
+  constructor(gswap: GSwap, slippageProtection: SlippageProtection, sources: RuntimeSources = {}) {
     this.gswap = gswap;
     this.slippageProtection = slippageProtection;
 
     // Initialize working quote wrapper
     const config = getConfig();
-    this.quoteWrapper = createQuoteWrapper(config.api.baseUrl);
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(config.api.baseUrl);
 
     // Initialize gas bidding engine with production-ready configuration
     this.gasBiddingEngine = new GasBiddingEngine({
@@ -123,6 +135,16 @@ export class SwapExecutor {
    * Execute a swap with full protection and monitoring
    */
   async executeSwap(request: SwapRequest): Promise<SwapResult> {
+    const tradeId = this.tradeJournal.begin(request);
+    const result = await this.performSwap(request, tradeId);
+
+    swapMetrics.swaps.inc({ result: result.success ? 'success' : (result.failureReason || 'failure') });
+    swapMetrics.duration.observe(result.executionTime / 1000);
+
+    return result;
+  }
+
+  private async performSwap(request: SwapRequest, tradeId: string): Promise<SwapResult> {
     const startTime = Date.now();
 
     try {
@@ -131,25 +153,33 @@ export class SwapExecutor {
       // Step 1: Get quote
       const quote = await this.getSwapQuote(request);
       if (!isSuccessResponse(quote)) {
-        return {
+        return this.journalRejected(tradeId, {
           success: false,
           error: 'Failed to get swap quote',
           executionTime: Date.now() - startTime,
-        };
+        });
       }
 
       // Step 2: Analyze slippage
       const slippageAnalysis = await this.analyzeSwapSlippage(request, quote);
       const shouldExecute = this.slippageProtection.shouldExecuteTrade(slippageAnalysis);
 
+      this.tradeJournal.transition(tradeId, 'QUOTED', {
+        quote: { ...quote.data },
+        quotedAmountOut: quote.data.amountOut,
+        quotedSlippage: slippageAnalysis.slippagePercent
+      });
+
       if (!shouldExecute.execute) {
-        return {
+        return this.journalRejected(tradeId, {
           success: false,
           error: shouldExecute.reason,
           executionTime: Date.now() - startTime,
-        };
+        });
       }
 
+      swapMetrics.slippage.observe(slippageAnalysis.slippagePercent, { stage: 'quoted' });
+
       // Step 3: Calculate optimal gas bid
       let gasBidCalculation: GasBidCalculation | null = null;
       if (request.gasBiddingEnabled !== false && request.expectedProfitUSD) {
@@ -157,12 +187,12 @@ export class SwapExecutor {
 
         // Validate that the trade is still profitable after gas costs
         if (!gasBidCalculation.profitProtection.isViable) {
-          return {
+          return this.journalRejected(tradeId, {
             success: false,
             error: `Trade not viable after gas costs: ${gasBidCalculation.reasoning}`,
             executionTime: Date.now() - startTime,
             gasBidUsed: gasBidCalculation
-          };
+          });
         }
 
         logger.info('Gas bidding calculation:', {
@@ -178,6 +208,25 @@ export class SwapExecutor {
 
       // Step 5: Execute transaction
       const result = await this.executeSwapTransaction(swapPayload, gasBidCalculation);
+      const submission = {
+        payloadHash: hashPayload(swapPayload),
+        gasBid: gasBidCalculation ? { ...gasBidCalculation } : null
+      };
+
+      if (result.transactionId) {
+        this.tradeJournal.transition(tradeId, 'SUBMITTED', {
+          ...submission,
+          transactionId: result.transactionId,
+          transactionHash: result.hash ?? null
+        });
+      } else {
+        this.tradeJournal.transition(tradeId, 'FAILED', {
+          ...submission,
+          error: result.error ?? null,
+          failureReason: result.failureReason ?? null,
+          executionTime: Date.now() - startTime
+        });
+      }
 
       // Step 6: Monitor execution with clear success/failure reporting
       if (result.success && result.transactionId) {
@@ -210,7 +259,7 @@ export class SwapExecutor {
         profitAfterGas = gasBidCalculation.profitProtection.remainingProfitAfterGas;
       }
 
-      return {
+      const finalResult: SwapResult = {
         ...result,
         executionTime: Date.now() - startTime,
         gasBidUsed: gasBidCalculation || undefined,
@@ -218,16 +267,94 @@ export class SwapExecutor {
         gasBiddingSuccess: gasBidCalculation ? result.success : undefined
       };
 
+      if (result.transactionId) {
+        this.tradeJournal.transition(tradeId, finalResult.success ? 'CONFIRMED' : 'FAILED', {
+          monitoringResult: finalResult.monitoringResult ? { ...finalResult.monitoringResult } : null,
+          amountOut: finalResult.amountOut ?? null,
+          actualSlippage: finalResult.actualSlippage ?? null,
+          actualGasCost: finalResult.actualGasCost ?? null,
+          error: finalResult.error ?? null,
+          failureReason: finalResult.failureReason ?? null,
+          executionTime: finalResult.executionTime
+        });
+      }
+
+      if (finalResult.success && finalResult.transactionId && finalResult.amountOut) {
+        this.taxLedger.recordSwap({
+          tokenIn: this.tokenToString(request.tokenIn),
+          amountIn: safeParseFloat(request.amountIn, 0),
+          tokenOut: this.tokenToString(request.tokenOut),
+          amountOut: safeParseFloat(finalResult.amountOut, 0),
+          walletAddress: request.userAddress,
+          transactionId: finalResult.transactionId
+        });
+      }
+
+      return finalResult;
+
     } catch (error) {
       logger.error('Error executing swap:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const open = this.tradeJournal.getOpenTrade(tradeId);
+      if (open) {
+        // Anything thrown after submission is a failed trade; before it, the trade never left the bot
+        this.tradeJournal.transition(tradeId, open.status === 'SUBMITTED' ? 'FAILED' : 'REJECTED', {
+          error: message,
+          executionTime: Date.now() - startTime
+        });
+      }
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: message,
         executionTime: Date.now() - startTime,
       };
     }
   }
 
+  /**
+   * Close a journal entry for a swap stopped before submission
+   */
+  private journalRejected(tradeId: string, result: SwapResult): SwapResult {
+    this.tradeJournal.transition(tradeId, 'REJECTED', {
+      error: result.error ?? null,
+      failureReason: result.failureReason ?? null,
+      gasBid: result.gasBidUsed ? { ...result.gasBidUsed } : null,
+      executionTime: result.executionTime
+    }, result.error);
+    return result;
+  }
+
+  /**
+   * Journal of every swap this executor has run
+   */
+  getTradeJournal(): TradeJournal {
+    return this.tradeJournal;
+  }
+
+  /**
+   * Cost-basis ledger of every confirmed swap
+   */
+  getTaxLedger(): TaxLedger {
+    return this.taxLedger;
+  }
+
+  /**
+   * Recovery journal shared by the multi-hop arbitrage run through this executor
+   */
+  getArbitrageRecovery(): ArbitrageRecovery {
+    if (!this.arbitrageRecovery) {
+      this.arbitrageRecovery = new ArbitrageRecovery(this.gswap, {}, { swapExecutor: this });
+    }
+    return this.arbitrageRecovery;
+  }
+
+  /**
+   * Transaction events for the client in use: the SDK's are static, simulated clients carry their own
+   */
+  private eventClient(): typeof GSwap.events {
+    return (this.gswap as unknown as { events?: typeof GSwap.events }).events ?? GSwap.events;
+  }
+
   /**
    * Get swap quote with enhanced retry logic and validation
    */
@@ -578,7 +705,7 @@ export class SwapExecutor {
       }
 
       // Determine optimal fee tier with validation
-      const feeTier = await this.selectOptimalFeeTier(this.tokenToString(request.tokenIn), this.tokenToString(request.tokenOut));
+      const feeTier = request.feeTier ?? await this.selectOptimalFeeTier(this.tokenToString(request.tokenIn), this.tokenToString(request.tokenOut));
 
       // Validate fee tier
       const validFees = [500, 3000, 10000];
@@ -1051,13 +1178,9 @@ export class SwapExecutor {
         note: 'PRODUCTION_TEST_MODE - No real transaction executed'
       };
 
-      // Log to console and potentially to file system
+      // The trade itself is recorded in the trade journal by executeSwap
       logger.info('📝 Test Trade Logged:', JSON.stringify(logEntry, null, 2));
 
-      // Could be enhanced to write to a dedicated test trades file
-      // const fs = require('fs');
-      // fs.appendFileSync('test-trades.log', JSON.stringify(logEntry) + '\n');
-
     } catch (error) {
       logger.warn('Failed to log test trade:', error);
     }
@@ -1080,6 +1203,14 @@ export class SwapExecutor {
     return nonRetryableMessages.some(msg => errorMessage.includes(msg));
   }
 
+  /**
+   * Use a WebSocket feed for transaction confirmations. Monitoring falls back to
+   * SDK polling whenever the feed is not connected.
+   */
+  setRealtimeFeed(feed: GalaSwapWebSocketClient | null): void {
+    this.realtimeFeed = feed;
+  }
+
   /**
    * Monitor transaction execution with clear success/failure reporting
    * Returns actionable status information for localhost trading
@@ -1089,9 +1220,66 @@ export class SwapExecutor {
 
     logger.info(`Monitoring transaction: ${transactionId}`);
 
+    if (this.realtimeFeed?.isConnected()) {
+      return this.monitorTransactionViaFeed(this.realtimeFeed, transactionId, timeoutMs, startTime);
+    }
+
+    return this.monitorTransactionViaPolling(transactionId, startTime);
+  }
+
+  /**
+   * Race the WebSocket feed against SDK polling; whichever reports a final status first wins
+   */
+  private async monitorTransactionViaFeed(
+    feed: GalaSwapWebSocketClient,
+    transactionId: string,
+    timeoutMs: number,
+    startTime: number
+  ): Promise<TransactionMonitoringResult> {
+    const feedWait = new AbortController();
+    const viaFeed = feed.waitForTransaction(transactionId, timeoutMs, feedWait.signal).then((event): TransactionMonitoringResult => {
+      const confirmationTime = Date.now() - startTime;
+      const { status, blockNumber, error } = event.data;
+
+      if (status === 'CONFIRMED') {
+        logger.info(`✅ Transaction CONFIRMED: ${transactionId} (${confirmationTime}ms via websocket)`);
+        return { status: 'CONFIRMED', finalStatus: status, confirmationTime, blockNumber, monitoringMethod: 'websocket' };
+      }
+
+      if (status === 'TIMEOUT') {
+        logger.warn(`⏰ Transaction TIMEOUT reported by chain: ${transactionId}`);
+        return { status: 'TIMEOUT', finalStatus: status, errorMessage: error?.message || 'Transaction timed out', monitoringMethod: 'websocket' };
+      }
+
+      logger.error(`❌ Transaction ${status}: ${transactionId} - ${error?.message || 'Unknown failure reason'}`);
+      return {
+        status: 'FAILED',
+        finalStatus: status,
+        confirmationTime,
+        blockNumber,
+        errorMessage: error?.message || `Transaction ${status.toLowerCase()}`,
+        monitoringMethod: 'websocket'
+      };
+    });
+
+    const viaPolling = this.monitorTransactionViaPolling(transactionId, startTime);
+
+    // A feed timeout/disconnect should not win the race against a polling answer
+    const feedOrPolling = viaFeed.catch(() => viaPolling);
+    try {
+      return await Promise.race([feedOrPolling, viaPolling.then(result =>
+        result.status === 'CONFIRMED' ? result : feedOrPolling
+      )]);
+    } finally {
+      // When polling wins, the feed waiter and its timeout would otherwise stay armed until timeoutMs
+      feedWait.abort();
+    }
+  }
+
+  private async monitorTransactionViaPolling(transactionId: string, startTime: number): Promise<TransactionMonitoringResult> {
     try {
       // Use SDK's event system to wait for transaction
-      const statusResponse = await GSwap.events.wait(transactionId);
+      const statusResponse = await this.eventClient().wait(transactionId);
 
       // SDK returns { txId: string, transactionHash: string, Data: any }
       if (statusResponse?.transactionHash) {
@@ -1145,7 +1333,7 @@ export class SwapExecutor {
       logger.info(`Monitoring transaction execution: ${transactionId}`);
 
       // Use SDK's event system to wait for transaction
-      const status = await GSwap.events.wait(transactionId);
+      const status = await this.eventClient().wait(transactionId);
 
       if (status?.transactionHash) {
         const txStatus = 'CONFIRMED'; // SDK wait() only resolves on successful completion
@@ -1184,7 +1372,7 @@ export class SwapExecutor {
     setTimeout(async () => {
       try {
         // SDK doesn't have getTransactionStatus, use wait for final status
-        const status = await GSwap.events.wait(transactionId);
+        const status = await this.eventClient().wait(transactionId);
 
         if (status?.transactionHash) {
           const txStatus = 'CONFIRMED';
@@ -1331,7 +1519,7 @@ export class SwapExecutor {
     try {
       logger.debug(`Analyzing execution results for transaction: ${transactionId}`);
 
-      const status = await GSwap.events.wait(transactionId);
+      const status = await this.eventClient().wait(transactionId);
 
       if (status?.transactionHash) {
         const executionData = status.Data || {};
@@ -1360,7 +1548,8 @@ export class SwapExecutor {
             0.02 // 2% tolerance for analysis
           );
 
-          analysis.slippagePercent = (slippageCheck as any).slippagePercent;
+          analysis.slippagePercent = slippageCheck.actualSlippage;
+          swapMetrics.slippage.observe(slippageCheck.actualSlippage, { stage: 'executed' });
 
           if (slippageCheck.shouldAlert) {
             logger.warn('High execution slippage detected', analysis);
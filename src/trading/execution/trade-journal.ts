@@ -0,0 +1,169 @@
+/**
+ * Trade Journal
+ * Durable record of every swap SwapExecutor runs, written at each lifecycle transition
+ * (requested, quoted, rejected, submitted, confirmed, failed) for tax reporting,
+ * PnL reconciliation and post-mortems
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { Between, FindOptionsWhere, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import { getTradeRepository } from '../../config/database';
+import { TradeRecord, TradeStatus } from '../../entities/TradeRecord';
+import { logger } from '../../utils/logger';
+import type { SwapRequest } from './swap-executor';
+
+export interface TradeJournalQuery {
+  from?: Date;
+  to?: Date;
+  strategy?: string;
+  status?: TradeStatus;
+  walletAddress?: string;
+  limit?: number;
+}
+
+export type TradeRecordChanges = Partial<Omit<TradeRecord, 'id' | 'status' | 'transitions' | 'createdAt' | 'updatedAt'>>;
+
+const TERMINAL_STATUSES: TradeStatus[] = ['REJECTED', 'CONFIRMED', 'FAILED'];
+
+/**
+ * SHA-256 of a payload's JSON form, used to match journal rows to submitted bundles
+ */
+export function hashPayload(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload) ?? '').digest('hex');
+}
+
+export class TradeJournal {
+  private repository: Repository<TradeRecord> | null = null;
+  private openTrades: Map<string, TradeRecord> = new Map();
+  private closedBeforeOpen: TradeRecord[] = []; // Finished before the database was attached
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Attach the database; trades journaled before this are kept in memory and written then
+   */
+  async open(): Promise<void> {
+    if (!this.repository) {
+      this.repository = await getTradeRepository();
+
+      // Persist trades that started, or already finished, before the database was attached
+      for (const record of [...this.closedBeforeOpen, ...this.openTrades.values()]) {
+        void this.persist(record);
+      }
+      this.closedBeforeOpen = [];
+    }
+  }
+
+  isOpen(): boolean {
+    return this.repository !== null;
+  }
+
+  /**
+   * Start a journal entry for a swap request; returns the trade id
+   */
+  begin(request: SwapRequest): string {
+    const now = Date.now();
+    const record = Object.assign(new TradeRecord(), {
+      id: randomUUID(),
+      status: 'REQUESTED' as TradeStatus,
+      strategy: request.strategy ?? null,
+      walletAddress: request.userAddress,
+      tokenIn: tokenKey(request.tokenIn),
+      tokenOut: tokenKey(request.tokenOut),
+      amountIn: request.amountIn,
+      request: JSON.parse(JSON.stringify(request)) as Record<string, unknown>,
+      transitions: [{ status: 'REQUESTED' as TradeStatus, timestamp: now }],
+      createdAt: new Date(now),
+      updatedAt: new Date(now)
+    });
+
+    this.openTrades.set(record.id, record);
+    void this.persist(record);
+
+    return record.id;
+  }
+
+  /**
+   * Move a trade to a new status and merge in what was learned at that step
+   */
+  transition(id: string, status: TradeStatus, changes: TradeRecordChanges = {}, note?: string): void {
+    const record = this.openTrades.get(id);
+    if (!record) {
+      logger.warn(`Trade journal: unknown or already closed trade ${id} (→ ${status})`);
+      return;
+    }
+
+    Object.assign(record, changes, { status, updatedAt: new Date() });
+    record.transitions.push(note ? { status, timestamp: Date.now(), note } : { status, timestamp: Date.now() });
+
+    if (TERMINAL_STATUSES.includes(status)) {
+      this.openTrades.delete(id);
+      if (!this.repository) this.closedBeforeOpen.push(record);
+    }
+
+    void this.persist(record);
+  }
+
+  /**
+   * In-memory view of a trade that has not reached a terminal status
+   */
+  getOpenTrade(id: string): TradeRecord | undefined {
+    return this.openTrades.get(id);
+  }
+
+  /**
+   * Wait for queued writes to land
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Read journaled trades, newest first
+   */
+  async find(query: TradeJournalQuery = {}): Promise<TradeRecord[]> {
+    await this.open();
+    await this.flush();
+
+    const where: FindOptionsWhere<TradeRecord> = {};
+    if (query.strategy) where.strategy = query.strategy;
+    if (query.status) where.status = query.status;
+    if (query.walletAddress) where.walletAddress = query.walletAddress;
+    if (query.from && query.to) where.createdAt = Between(query.from, query.to);
+    else if (query.from) where.createdAt = MoreThanOrEqual(query.from);
+    else if (query.to) where.createdAt = LessThanOrEqual(query.to);
+
+    return this.repository!.find({
+      where,
+      order: { createdAt: 'DESC' },
+      take: query.limit
+    });
+  }
+
+  /**
+   * Queue a snapshot of the record; writes are serialized so transitions land in order
+   */
+  private persist(record: TradeRecord): Promise<void> {
+    const repository = this.repository;
+    if (!repository) {
+      logger.debug(`Trade journal (not persisted yet): ${record.id} ${record.status}`);
+      return Promise.resolve();
+    }
+
+    const snapshot = { ...record, transitions: [...record.transitions] };
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await repository.save(repository.create(snapshot));
+      } catch (error) {
+        logger.error(`Failed to journal trade ${record.id} (${record.status}):`, error);
+      }
+    });
+
+    return this.writeQueue;
+  }
+}
+
+function tokenKey(token: SwapRequest['tokenIn']): string {
+  return typeof token === 'string'
+    ? token
+    : `${token.collection}|${token.category}|${token.type}|${token.additionalKey}`;
+}
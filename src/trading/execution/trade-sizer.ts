@@ -0,0 +1,218 @@
+/**
+ * Trade Sizer
+ * Chooses the input size of an arbitrage route by maximizing net profit over the route's quote
+ * curve instead of trading a fixed amount. Net profit is the slippage-buffered output minus the
+ * input and the route's gas cost; on a concentrated-liquidity curve it rises with size until price
+ * impact eats the edge, so a golden-section search over log(size) finds the peak in a handful of
+ * quotes. The search range is capped by position limits and the wallet's safe trade size.
+ */
+
+import { logger } from '../../utils/logger';
+import type { GasEstimationOptions } from '../../utils/gas-estimator';
+import { poolDiscovery, PoolDiscoveryService } from '../../services/pool-discovery';
+
+/** Final output of a whole route for an input amount, or null when it cannot be quoted */
+export type RouteQuoter = (amountIn: number) => Promise<number | null>;
+
+/** Output of a single hop, or null when it cannot be quoted */
+export type HopQuoter = (tokenIn: string, tokenOut: string, amountIn: number) => Promise<number | null>;
+
+export interface TradeSizingOptions {
+  minAmount: number;
+  maxAmount: number;
+  gasCost: number; // Cost of executing the whole route, in input token units
+  slippageBuffer?: number; // Fraction of the quoted output held back for slippage (default 0.5%)
+  tolerance?: number; // Stop once the search bracket is within this relative width (default 1%)
+  maxQuotes?: number; // Route quotes allowed per solve (default 20)
+}
+
+export interface TradeSizingResult {
+  amountIn: number;
+  expectedOutput: number;
+  grossProfit: number;
+  netProfit: number; // After the slippage buffer and gas
+  netProfitPercent: number;
+  quotesUsed: number;
+  limitedByCap: boolean; // The best size sits at the cap, so more size would still pay
+}
+
+/** The part of PositionLimits that caps trade size */
+export interface TradeSizeLimits {
+  getCurrentLimits(): { maxPositionSize: number };
+}
+
+export interface TradeSizeCapOptions {
+  tokenSymbol: string;
+  configuredMax?: number; // e.g. TradingConfig.maxPositionSize
+  positionLimits?: TradeSizeLimits;
+  walletAddress?: string; // When set, the wallet balance caps the size too
+  maxBalanceFraction?: number; // Share of the wallet balance a trade may use (default 50%)
+}
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+const STABLE_TOKENS = ['GUSDC', 'GUSDT', 'GUSD'];
+
+/**
+ * Find the input size in [minAmount, maxAmount] with the highest net profit.
+ * Returns null when no size in the range is profitable.
+ */
+export async function optimizeTradeSize(
+  quoteRoute: RouteQuoter,
+  options: TradeSizingOptions
+): Promise<TradeSizingResult | null> {
+  const { minAmount, maxAmount, gasCost } = options;
+  const slippageBuffer = options.slippageBuffer ?? 0.005;
+  const tolerance = options.tolerance ?? 0.01;
+  const maxQuotes = options.maxQuotes ?? 20;
+
+  if (!(minAmount > 0) || !(maxAmount > 0)) {
+    return null;
+  }
+
+  const outputs = new Map<number, number | null>();
+  const netProfit = async (logAmount: number): Promise<number> => {
+    const amount = Math.exp(logAmount);
+    if (!outputs.has(amount)) {
+      try {
+        outputs.set(amount, await quoteRoute(amount));
+      } catch (error) {
+        logger.debug(`Sizing quote failed for ${amount}:`, error instanceof Error ? error.message : String(error));
+        outputs.set(amount, null);
+      }
+    }
+    const output = outputs.get(amount);
+    return output && output > 0 ? output * (1 - slippageBuffer) - amount - gasCost : -Infinity;
+  };
+
+  // Golden-section search on log(size): unimodal in size means unimodal in log(size),
+  // and the log scale spends quotes evenly across a range spanning several orders of magnitude
+  let low = Math.log(Math.min(minAmount, maxAmount));
+  let high = Math.log(maxAmount);
+  let left = high - GOLDEN_RATIO * (high - low);
+  let right = low + GOLDEN_RATIO * (high - low);
+  let leftProfit = await netProfit(left);
+  let rightProfit = await netProfit(right);
+
+  while (high - low > Math.log(1 + tolerance) && outputs.size < maxQuotes) {
+    if (leftProfit >= rightProfit) {
+      high = right;
+      right = left;
+      rightProfit = leftProfit;
+      left = high - GOLDEN_RATIO * (high - low);
+      leftProfit = await netProfit(left);
+    } else {
+      low = left;
+      left = right;
+      leftProfit = rightProfit;
+      right = low + GOLDEN_RATIO * (high - low);
+      rightProfit = await netProfit(right);
+    }
+  }
+
+  // The peak may sit at either end of the range, which the interior probes never reach
+  if (outputs.size < maxQuotes) await netProfit(Math.log(maxAmount));
+  if (outputs.size < maxQuotes && minAmount < maxAmount) await netProfit(Math.log(minAmount));
+
+  let best: TradeSizingResult | null = null;
+  for (const [amountIn, expectedOutput] of outputs) {
+    if (!expectedOutput || expectedOutput <= 0) continue;
+
+    const net = expectedOutput * (1 - slippageBuffer) - amountIn - gasCost;
+    if (net > 0 && (!best || net > best.netProfit)) {
+      best = {
+        amountIn,
+        expectedOutput,
+        grossProfit: expectedOutput - amountIn,
+        netProfit: net,
+        netProfitPercent: (net / amountIn) * 100,
+        quotesUsed: outputs.size,
+        limitedByCap: amountIn >= maxAmount / (1 + tolerance)
+      };
+    }
+  }
+
+  if (best) {
+    logger.debug(`Optimal size ${best.amountIn.toFixed(6)}: net ${best.netProfit.toFixed(6)} (${best.netProfitPercent.toFixed(2)}%) after ${outputs.size} quotes`);
+  }
+  return best;
+}
+
+/**
+ * Chain single-hop quotes into a quote for a whole route
+ */
+export function routeQuoter(tokens: string[], quoteHop: HopQuoter): RouteQuoter {
+  return async (amountIn: number) => {
+    let amount: number | null = amountIn;
+    for (let i = 0; i < tokens.length - 1 && amount !== null; i++) {
+      amount = await quoteHop(tokens[i], tokens[i + 1], amount);
+      if (amount !== null && !(amount > 0)) amount = null;
+    }
+    return amount;
+  };
+}
+
+/**
+ * Token sequence of an ExoticRoute or TriangularPath, closed back to the start token
+ */
+export function routeTokens(route: { tokens: readonly string[] }): string[] {
+  const tokens = [...route.tokens];
+  return tokens[tokens.length - 1] === tokens[0] ? tokens : [...tokens, tokens[0]];
+}
+
+/**
+ * Largest size a route may trade: the smallest of the configured maximum, the PositionLimits
+ * maximum position size and the wallet's safe trade size
+ */
+export async function getTradeSizeCap(options: TradeSizeCapOptions): Promise<number> {
+  const caps: number[] = [];
+
+  if (options.configuredMax !== undefined) caps.push(options.configuredMax);
+  if (options.positionLimits) caps.push(options.positionLimits.getCurrentLimits().maxPositionSize);
+  if (options.walletAddress) {
+    const { getMaxSafeTradeSize } = await import('../../utils/wallet-balance');
+    caps.push(await getMaxSafeTradeSize(options.walletAddress, options.tokenSymbol, options.maxBalanceFraction ?? 0.5));
+  }
+
+  const cap = caps.filter(value => isFinite(value)).reduce((min, value) => Math.min(min, value), Infinity);
+  return isFinite(cap) ? Math.max(0, cap) : 0;
+}
+
+/**
+ * Gas cost of executing a route (one swap transaction per hop) in units of the input token.
+ * Returns null when the input token has no known USD price.
+ */
+export async function estimateRouteGasCost(
+  hops: number,
+  tokenSymbol: string,
+  urgency: GasEstimationOptions['urgency'] = 'high',
+  pools: Pick<PoolDiscoveryService, 'getCachedPools'> = poolDiscovery
+): Promise<number | null> {
+  const priceUsd = getTokenPriceUsd(tokenSymbol, pools);
+  if (!priceUsd) return null;
+
+  const { GasEstimator } = await import('../../utils/gas-estimator');
+  const estimate = await GasEstimator.estimateGas({ operation: 'swap', complexity: 'simple', urgency });
+  return (estimate.totalCostUSD * hops) / priceUsd;
+}
+
+/**
+ * USD price of a token from the cached pool data (stablecoins are 1)
+ */
+export function getTokenPriceUsd(
+  tokenSymbol: string,
+  pools: Pick<PoolDiscoveryService, 'getCachedPools'> = poolDiscovery
+): number | null {
+  const symbol = tokenSymbol.split('|')[0];
+  if (STABLE_TOKENS.includes(symbol)) return 1;
+
+  try {
+    for (const pool of pools.getCachedPools()) {
+      const price = pool.token0 === symbol ? parseFloat(pool.token0Price)
+        : pool.token1 === symbol ? parseFloat(pool.token1Price) : NaN;
+      if (price > 0) return price;
+    }
+  } catch (error) {
+    logger.debug('Pool discovery unavailable for gas pricing:', error instanceof Error ? error.message : String(error));
+  }
+  return null;
+}
@@ -1,11 +1,19 @@
 /**
  * Arbitrage Recovery Mechanism
  * HIGH PRIORITY FIX: Recovery system for failed arbitrage attempts
+ *
+ * Attempts and recovery actions are journaled to the database before and after each step, so an
+ * attempt interrupted by a crash is found on the next start, reconciled against wallet balances
+ * and transaction status, and its recovery resumed.
  */
 
+import { In, Repository } from 'typeorm';
 import { logger } from '../../utils/logger';
 import { GSwap } from '../../services/gswap-simple';
-import { RetryHelper } from '../../utils/retry-helper';
+import { getArbitrageAttemptRepository } from '../../config/database';
+import { ArbitrageAttemptRecord } from '../../entities/ArbitrageAttemptRecord';
+import { AlertSystem } from '../../monitoring/alerts';
+import type { SwapExecutor, TransactionMonitoringResult } from '../execution/swap-executor';
 
 export interface ArbitrageAttempt {
   id: string;
@@ -14,6 +22,7 @@ export interface ArbitrageAttempt {
   tokenOut: string;
   amountIn: string;
   expectedProfit: number;
+  transactionIds?: string[]; // Hops submitted so far
   actualResult?: {
     success: boolean;
     amountOut?: string;
@@ -27,6 +36,7 @@ export interface ArbitrageAttempt {
 export interface RecoveryAction {
   type: 'REVERSE_SWAP' | 'EMERGENCY_EXIT' | 'WAIT_AND_RETRY' | 'LIQUIDATE_POSITION';
   executedAt: number;
+  completedAt?: number; // Unset while the action is running; still unset after a crash
   success: boolean;
   details: string;
   error?: string;
@@ -38,8 +48,36 @@ export interface RecoveryConfig {
   maxRecoveryTimeMs: number;
   emergencyExitThreshold: number; // Loss percentage threshold for emergency exit
   circuitBreakerFailures: number; // Consecutive failures before circuit breaker
+  dustThreshold: number; // Intermediate token balance at or below this counts as nothing held
 }
 
+/**
+ * On-chain view used to reconcile journaled attempts after a restart
+ */
+export interface RecoveryReconciler {
+  walletAddress: string;
+  getBalance(token: string): Promise<number>;
+  getTransactionStatus(transactionId: string): Promise<TransactionMonitoringResult['status']>;
+}
+
+/**
+ * Executor that unwinds held tokens, and where attempts left for manual intervention are reported
+ */
+export interface RecoveryDependencies {
+  swapExecutor?: Pick<SwapExecutor, 'executeSwap'>;
+  alertSystem?: Pick<AlertSystem, 'createAlert'>;
+}
+
+export interface RecoveryResumeSummary {
+  unfinished: number;
+  completed: number; // All hops had landed before the crash
+  nothingHeld: number; // Nothing was left to unwind
+  recovered: number;
+  unresolved: number; // Left failed for manual intervention
+}
+
+type ResumePlan = 'completed' | 'nothing-held' | RecoveryAction['type'][];
+
 export class ArbitrageRecovery {
   private gswap: GSwap;
   private config: RecoveryConfig;
@@ -47,19 +85,144 @@ export class ArbitrageRecovery {
   private consecutiveFailures: number = 0;
   private circuitBreakerActive: boolean = false;
   private lastFailureTime: number = 0;
+  private swapExecutor: Pick<SwapExecutor, 'executeSwap'> | null;
+  private alertSystem: Pick<AlertSystem, 'createAlert'>;
+
+  // Wallet view from resumeUnfinished; reverse swaps size themselves from it
+  private reconciler: RecoveryReconciler | null = null;
+
+  // Journal (attached by open, so scripts and tests stay in-memory)
+  private repository: Repository<ArbitrageAttemptRecord> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
 
-  constructor(gswap: GSwap, config?: Partial<RecoveryConfig>) {
+  constructor(gswap: GSwap, config?: Partial<RecoveryConfig>, dependencies: RecoveryDependencies = {}) {
     this.gswap = gswap;
+    this.swapExecutor = dependencies.swapExecutor ?? null;
+    this.alertSystem = dependencies.alertSystem ?? new AlertSystem(false);
     this.config = {
       maxRetryAttempts: 3,
       cooldownPeriodMs: 300000, // 5 minutes
       maxRecoveryTimeMs: 1800000, // 30 minutes
       emergencyExitThreshold: 0.05, // 5% loss threshold
       circuitBreakerFailures: 5,
+      dustThreshold: 0.000001,
       ...config
     };
   }
 
+  /**
+   * Attach the journal; attempts begun before this are written once it is attached
+   */
+  async open(): Promise<void> {
+    if (this.repository) return;
+
+    this.repository = await getArbitrageAttemptRepository();
+    for (const attempt of this.failedAttempts.values()) {
+      void this.persist(attempt);
+    }
+  }
+
+  isOpen(): boolean {
+    return this.repository !== null;
+  }
+
+  /**
+   * Journal an attempt before its first hop is submitted; returns the attempt id.
+   * Until a hop lands the held token is the input token.
+   */
+  beginAttempt(tokenIn: string, amountIn: string, expectedProfit: number): string {
+    const attempt: ArbitrageAttempt = {
+      id: this.generateAttemptId(tokenIn, 'cycle'),
+      timestamp: Date.now(),
+      tokenIn,
+      tokenOut: tokenIn,
+      amountIn,
+      expectedProfit,
+      transactionIds: [],
+      recoveryActions: [],
+      status: 'pending'
+    };
+
+    this.failedAttempts.set(attempt.id, attempt);
+    void this.persist(attempt);
+
+    return attempt.id;
+  }
+
+  /**
+   * Journal a landed hop of a pending attempt and the token it left us holding
+   */
+  recordHop(attemptId: string, transactionId: string | undefined, heldToken: string): void {
+    const attempt = this.failedAttempts.get(attemptId);
+    if (!attempt) {
+      logger.warn(`Arbitrage recovery: unknown attempt ${attemptId}`);
+      return;
+    }
+
+    if (transactionId) attempt.transactionIds = [...(attempt.transactionIds ?? []), transactionId];
+    attempt.tokenOut = heldToken;
+    void this.persist(attempt);
+  }
+
+  /**
+   * Close a pending attempt whose every hop landed
+   */
+  completeAttempt(attemptId: string, amountOut?: string): void {
+    const attempt = this.failedAttempts.get(attemptId);
+    if (!attempt) {
+      logger.warn(`Arbitrage recovery: unknown attempt ${attemptId}`);
+      return;
+    }
+
+    attempt.status = 'successful';
+    attempt.actualResult = { success: true, amountOut };
+    this.consecutiveFailures = 0;
+    void this.persist(attempt);
+  }
+
+  /**
+   * Mark a pending attempt failed and initiate recovery
+   */
+  async failAttempt(attemptId: string, error: string): Promise<void> {
+    const attempt = this.failedAttempts.get(attemptId);
+    if (!attempt) {
+      logger.warn(`Arbitrage recovery: unknown attempt ${attemptId}`);
+      return;
+    }
+
+    attempt.status = 'failed';
+    attempt.actualResult = { success: false, error };
+
+    if (attempt.tokenOut === attempt.tokenIn) {
+      // No hop landed, so nothing is held and there is nothing to unwind
+      attempt.status = 'recovered';
+      this.consecutiveFailures++;
+      this.lastFailureTime = Date.now();
+      await this.persist(attempt);
+      return;
+    }
+
+    await this.handleFailure(attempt);
+  }
+
+  /**
+   * Close a failed attempt that the caller already unwound itself, without running recovery actions
+   */
+  resolveAttempt(attemptId: string, error: string): void {
+    const attempt = this.failedAttempts.get(attemptId);
+    if (!attempt) {
+      logger.warn(`Arbitrage recovery: unknown attempt ${attemptId}`);
+      return;
+    }
+
+    attempt.status = 'recovered';
+    attempt.actualResult = { success: false, error };
+    attempt.tokenOut = attempt.tokenIn;
+    this.consecutiveFailures++;
+    this.lastFailureTime = Date.now();
+    void this.persist(attempt);
+  }
+
   /**
    * Record a failed arbitrage attempt and initiate recovery
    */
@@ -88,6 +251,19 @@ export class ArbitrageRecovery {
     };
 
     this.failedAttempts.set(attemptId, attempt);
+    await this.handleFailure(attempt);
+
+    return attemptId;
+  }
+
+  /**
+   * Journal a failed attempt, then recover it unless the circuit breaker trips
+   */
+  private async handleFailure(attempt: ArbitrageAttempt): Promise<void> {
+    const { id: attemptId, tokenIn, tokenOut, amountIn, expectedProfit } = attempt;
+    const error = attempt.actualResult?.error;
+
+    await this.persist(attempt);
     this.consecutiveFailures++;
     this.lastFailureTime = Date.now();
 
@@ -104,27 +280,24 @@ export class ArbitrageRecovery {
     // Check if circuit breaker should activate
     if (this.consecutiveFailures >= this.config.circuitBreakerFailures) {
       await this.activateCircuitBreaker();
-      return attemptId;
+      return;
     }
 
     // Initiate recovery process
     await this.initiateRecovery(attempt);
-
-    return attemptId;
   }
 
   /**
    * Initiate recovery process for failed arbitrage
    */
-  private async initiateRecovery(attempt: ArbitrageAttempt): Promise<void> {
+  private async initiateRecovery(attempt: ArbitrageAttempt, strategy?: RecoveryAction['type'][]): Promise<void> {
     try {
       // Step 1: Assess the failure and determine recovery strategy
-      const recoveryStrategy = await this.determineRecoveryStrategy(attempt);
+      const recoveryStrategy = strategy ?? await this.determineRecoveryStrategy(attempt);
 
       // Step 2: Execute recovery actions
       for (const actionType of recoveryStrategy) {
         const action = await this.executeRecoveryAction(attempt, actionType);
-        attempt.recoveryActions.push(action);
 
         if (action.success) {
           attempt.status = 'recovered';
@@ -138,19 +311,139 @@ export class ArbitrageRecovery {
         }
       }
 
-      // Step 3: If all recovery actions failed, mark as abandoned
+      // Step 3: If all recovery actions failed, leave the attempt failed for the next restart and raise an alert
       if (attempt.status !== 'recovered') {
-        attempt.status = 'abandoned';
-        logger.error(`❌ Arbitrage recovery failed - position abandoned:`, {
+        attempt.status = 'failed';
+        logger.error(`❌ Arbitrage recovery failed - manual intervention required:`, {
           attemptId: attempt.id,
           actionsAttempted: attempt.recoveryActions.length
         });
+        await this.raiseAlert(attempt);
       }
 
     } catch (error) {
       logger.error(`💥 Error during arbitrage recovery:`, error);
-      attempt.status = 'abandoned';
+      attempt.status = 'failed';
+      await this.raiseAlert(attempt);
+    }
+
+    await this.persist(attempt);
+  }
+
+  private async raiseAlert(attempt: ArbitrageAttempt): Promise<void> {
+    try {
+      await this.alertSystem.createAlert(
+        'position_risk',
+        'critical',
+        'Arbitrage recovery needs manual intervention',
+        `Attempt ${attempt.id} may still hold ${attempt.tokenOut}; no recovery action succeeded`,
+        {
+          attemptId: attempt.id,
+          tokenIn: attempt.tokenIn,
+          heldToken: attempt.tokenOut,
+          actions: attempt.recoveryActions.map(action => ({ type: action.type, details: action.details, error: action.error }))
+        },
+        'arbitrage_recovery'
+      );
+    } catch (error) {
+      logger.error(`Failed to raise recovery alert for ${attempt.id}:`, error);
+    }
+  }
+
+  /**
+   * Load attempts a previous process left unfinished, reconcile each against the wallet and
+   * its transactions, and resume recovery where it is still needed. Run it before any strategy
+   * trades, so reverse swaps do not race new attempts.
+   * Attaches the journal, so every later attempt is persisted too, and keeps the reconciler for
+   * sizing the reverse swaps of later failures.
+   */
+  async resumeUnfinished(reconciler: RecoveryReconciler): Promise<RecoveryResumeSummary> {
+    this.reconciler = reconciler;
+    await this.open();
+    await this.flush();
+
+    // Attempts already in memory belong to this process and are still being handled by their caller
+    const records = (await this.repository!.find({
+      where: { status: In(['pending', 'failed']) },
+      order: { timestamp: 'ASC' }
+    })).filter(record => !this.failedAttempts.has(record.id));
+    const summary: RecoveryResumeSummary = { unfinished: records.length, completed: 0, nothingHeld: 0, recovered: 0, unresolved: 0 };
+
+    for (const record of records) {
+      const attempt = fromRecord(record);
+      this.failedAttempts.set(attempt.id, attempt);
+
+      const plan = await this.planResume(attempt, reconciler);
+      if (plan === 'completed') {
+        attempt.status = 'successful';
+        attempt.actualResult = { success: true };
+        summary.completed++;
+        await this.persist(attempt);
+      } else if (plan === 'nothing-held') {
+        attempt.status = 'recovered';
+        summary.nothingHeld++;
+        await this.persist(attempt);
+      } else {
+        logger.warn(`🔄 Resuming recovery for interrupted arbitrage ${attempt.id}: ${plan.join(' → ')}`);
+        await this.initiateRecovery(attempt, plan);
+        if (attempt.status === 'recovered') summary.recovered++;
+        else summary.unresolved++;
+      }
+    }
+
+    if (records.length > 0) {
+      logger.info('Arbitrage recovery journal reconciled:', summary);
+    }
+    return summary;
+  }
+
+  /**
+   * Decide what an unfinished attempt still needs from the wallet balance of the intermediate
+   * token and the status of its submitted hops
+   */
+  private async planResume(attempt: ArbitrageAttempt, reconciler: RecoveryReconciler): Promise<ResumePlan> {
+    const statuses = await Promise.all((attempt.transactionIds ?? []).map(async transactionId => {
+      try {
+        return await reconciler.getTransactionStatus(transactionId);
+      } catch (error) {
+        logger.warn(`Could not check transaction ${transactionId}:`, error);
+        return 'UNKNOWN' as const;
+      }
+    }));
+
+    // Back on the input token (no hop landed, or the cycle closed): its balance is the wallet's own
+    let held = 0;
+    try {
+      if (attempt.tokenOut !== attempt.tokenIn) held = await reconciler.getBalance(attempt.tokenOut);
+    } catch (error) {
+      // Without a balance assume the worst: we may be holding the intermediate token
+      logger.warn(`Could not check ${attempt.tokenOut} balance for ${attempt.id}:`, error);
+      held = Infinity;
+    }
+
+    const unsettled = statuses.some(status => status === 'PENDING' || status === 'TIMEOUT' || status === 'UNKNOWN');
+    const failedHop = statuses.some(status => status === 'FAILED');
+
+    if (held <= this.config.dustThreshold && !unsettled) {
+      const allLanded = attempt.status === 'pending' && statuses.length > 0 && !failedHop;
+      return allLanded ? 'completed' : 'nothing-held';
+    }
+
+    let plan: RecoveryAction['type'][];
+    if (unsettled) {
+      plan = ['WAIT_AND_RETRY', 'REVERSE_SWAP'];
+    } else if (attempt.status === 'failed' && attempt.actualResult?.error) {
+      plan = await this.determineRecoveryStrategy(attempt);
+    } else {
+      plan = ['REVERSE_SWAP', 'EMERGENCY_EXIT'];
     }
+
+    // An action the crash interrupted is retried first
+    const interrupted = attempt.recoveryActions.find(action => action.completedAt === undefined);
+    if (interrupted) {
+      plan = [interrupted.type, ...plan.filter(type => type !== interrupted.type)];
+    }
+    return plan;
   }
 
   /**
@@ -197,6 +490,12 @@ export class ArbitrageRecovery {
       details: ''
     };
 
+    // Journal the action before it runs so a crash mid-action is visible on restart
+    const interrupted = attempt.recoveryActions.findIndex(previous => previous.type === actionType && previous.completedAt === undefined);
+    if (interrupted >= 0) attempt.recoveryActions.splice(interrupted, 1);
+    attempt.recoveryActions.push(action);
+    await this.persist(attempt);
+
     try {
       switch (actionType) {
         case 'REVERSE_SWAP':
@@ -236,6 +535,9 @@ export class ArbitrageRecovery {
       logger.error(`Recovery action ${actionType} failed:`, error);
     }
 
+    action.completedAt = Date.now();
+    await this.persist(attempt);
+
     return action;
   }
 
@@ -243,58 +545,72 @@ export class ArbitrageRecovery {
    * Execute reverse swap to undo failed arbitrage
    */
   private async executeReverseSwap(attempt: ArbitrageAttempt): Promise<boolean> {
-    try {
-      logger.info(`🔄 Attempting reverse swap for failed arbitrage:`, {
-        attemptId: attempt.id,
-        originalTokenIn: attempt.tokenIn,
-        originalTokenOut: attempt.tokenOut
-      });
+    logger.info(`🔄 Attempting reverse swap for failed arbitrage:`, {
+      attemptId: attempt.id,
+      originalTokenIn: attempt.tokenIn,
+      originalTokenOut: attempt.tokenOut
+    });
 
-      // Check if we have any tokens to reverse
-      // This would require checking actual wallet balances
-      // For now, simulate the logic
-
-      const result = await RetryHelper.withRetry(
-        async () => {
-          // Execute swap from tokenOut back to tokenIn
-          // Note: Swap method not available in current GSwapWrapper
-          // This would use a swap method when available
-          return {
-            success: true,
-            transactionHash: 'mock-tx-hash',
-            amountOut: '1000', // Mock recovery
-            slippageTolerance: 0.02, // Higher slippage for recovery
-            urgency: 'high'
-          };
-        },
-        RetryHelper.getApiRetryOptions('fast'),
-        'reverse-swap'
-      );
+    return this.swapHeldBack(attempt, 0.02, 'normal');
+  }
 
-      return result?.success || false;
+  /**
+   * Execute emergency exit to minimize losses: swap the held token back at any slippage within
+   * the emergency loss threshold
+   */
+  private async executeEmergencyExit(attempt: ArbitrageAttempt): Promise<boolean> {
+    logger.warn(`🚨 Executing emergency exit for failed arbitrage:`, {
+      attemptId: attempt.id
+    });
 
-    } catch (error) {
-      logger.error('Reverse swap failed:', error);
-      return false;
-    }
+    return this.swapHeldBack(attempt, Math.max(0.02, this.config.emergencyExitThreshold), 'high');
   }
 
   /**
-   * Execute emergency exit to minimize losses
+   * Swap the wallet balance of the held intermediate token back to the input token
    */
-  private async executeEmergencyExit(attempt: ArbitrageAttempt): Promise<boolean> {
+  private async swapHeldBack(
+    attempt: ArbitrageAttempt,
+    slippageTolerance: number,
+    urgency: 'normal' | 'high'
+  ): Promise<boolean> {
+    if (attempt.tokenOut === attempt.tokenIn) {
+      return true;
+    }
+    if (!this.swapExecutor || !this.reconciler) {
+      logger.warn(`Cannot unwind ${attempt.id}: no swap executor or wallet balances attached`);
+      return false;
+    }
+
     try {
-      logger.warn(`🚨 Executing emergency exit for failed arbitrage:`, {
-        attemptId: attempt.id
-      });
+      const held = await this.reconciler.getBalance(attempt.tokenOut);
+      if (held <= this.config.dustThreshold) {
+        logger.info(`Nothing left to unwind for ${attempt.id}: ${attempt.tokenOut} balance is ${held}`);
+        return true;
+      }
 
-      // Emergency exit would convert any held tokens to a stable asset
-      // This is a simplified implementation
+      const result = await this.swapExecutor.executeSwap({
+        tokenIn: attempt.tokenOut,
+        tokenOut: attempt.tokenIn,
+        amountIn: held.toString(),
+        slippageTolerance,
+        urgency,
+        userAddress: this.reconciler.walletAddress,
+        strategy: 'arbitrage-recovery'
+      });
 
-      return true; // Placeholder - would implement actual emergency exit logic
+      if (!result.success) {
+        logger.error(`Unwinding ${attempt.id} failed: ${result.error || 'unknown error'}`);
+        return false;
+      }
 
+      if (result.transactionId) {
+        attempt.transactionIds = [...(attempt.transactionIds ?? []), result.transactionId];
+      }
+      attempt.tokenOut = attempt.tokenIn;
+      return true;
     } catch (error) {
-      logger.error('Emergency exit failed:', error);
+      logger.error(`Unwinding ${attempt.id} failed:`, error);
       return false;
     }
   }
@@ -340,10 +656,9 @@ export class ArbitrageRecovery {
         attemptId: attempt.id
       });
 
-      // Liquidation would convert all held tokens to the most liquid/stable asset
-      // This is a simplified implementation
-
-      return true; // Placeholder - would implement actual liquidation logic
+      // Liquidation would convert all held tokens to the most liquid/stable asset; until it
+      // exists the attempt is left for manual intervention
+      return false;
 
     } catch (error) {
       logger.error('Position liquidation failed:', error);
@@ -437,6 +752,35 @@ export class ArbitrageRecovery {
     };
   }
 
+  /**
+   * Wait for queued journal writes to land
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Queue a snapshot of the attempt; writes are serialized so steps land in order.
+   * No-op until open attaches the journal.
+   */
+  private persist(attempt: ArbitrageAttempt): Promise<void> {
+    const repository = this.repository;
+    if (!repository) {
+      return Promise.resolve();
+    }
+
+    const snapshot = toRecord(attempt);
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await repository.save(repository.create(snapshot));
+      } catch (error) {
+        logger.error(`Failed to journal arbitrage attempt ${attempt.id} (${attempt.status}):`, error);
+      }
+    });
+
+    return this.writeQueue;
+  }
+
   /**
    * Generate unique attempt ID
    */
@@ -454,9 +798,39 @@ export class ArbitrageRecovery {
 
     for (const [id, attempt] of this.failedAttempts.entries()) {
       if (attempt.timestamp < cutoffTime &&
-          (attempt.status === 'recovered' || attempt.status === 'abandoned')) {
+          (attempt.status === 'successful' || attempt.status === 'recovered' || attempt.status === 'abandoned')) {
         this.failedAttempts.delete(id);
       }
     }
   }
-}
\ No newline at end of file
+}
+
+function toRecord(attempt: ArbitrageAttempt): ArbitrageAttemptRecord {
+  return Object.assign(new ArbitrageAttemptRecord(), {
+    id: attempt.id,
+    status: attempt.status,
+    timestamp: attempt.timestamp,
+    tokenIn: attempt.tokenIn,
+    tokenOut: attempt.tokenOut,
+    amountIn: attempt.amountIn,
+    expectedProfit: attempt.expectedProfit,
+    transactionIds: [...(attempt.transactionIds ?? [])],
+    actualResult: attempt.actualResult ? { ...attempt.actualResult } : null,
+    recoveryActions: attempt.recoveryActions.map(action => ({ ...action }))
+  });
+}
+
+function fromRecord(record: ArbitrageAttemptRecord): ArbitrageAttempt {
+  return {
+    id: record.id,
+    timestamp: Number(record.timestamp),
+    tokenIn: record.tokenIn,
+    tokenOut: record.tokenOut,
+    amountIn: record.amountIn,
+    expectedProfit: Number(record.expectedProfit),
+    transactionIds: record.transactionIds ?? [],
+    actualResult: record.actualResult ?? undefined,
+    recoveryActions: record.recoveryActions ?? [],
+    status: record.status
+  };
+}
@@ -12,8 +12,12 @@ import { safeParseFloat } from '../../utils/safe-parse';
 import { calculatePriceFromSqrtPriceX96 } from '../../utils/price-math';
 import { createTokenClassKey, FEE_TIERS } from '../../types/galaswap';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { RuntimeSources } from '../../utils/clock';
 import { TRADING_CONSTANTS } from '../../config/constants';
 import { applySafetyMarginWithFloor, getTokenDecimals } from '../../utils/slippage-calculator';
+import { getEmergencyStateRepository } from '../../config/database';
+import { EmergencyStateRecord } from '../../entities/EmergencyStateRecord';
+import { Repository } from 'typeorm';
 
 export interface EmergencyState {
   isEmergencyActive: boolean;
@@ -63,6 +67,38 @@ export interface LiquidationPlan {
   maxSlippage: number;
 }
 
+export interface LiquidationProgress extends LiquidationPlan {
+  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  value: number;
+  error?: string;
+  updatedAt: number;
+}
+
+export interface EmergencyHistoryEntry {
+  timestamp: number;
+  action: string;
+  type: EmergencyType;
+  reason: string;
+  success: boolean;
+}
+
+/**
+ * Thrown when the engine is asked to trade while a persisted emergency stop is active
+ */
+export class EmergencyStopActiveError extends Error {
+  constructor(
+    public emergencyType: EmergencyType,
+    public triggerReason: string,
+    public triggerTime: number
+  ) {
+    super(
+      `Persisted emergency stop is active (${emergencyType}: ${triggerReason}, since ${new Date(triggerTime).toISOString()}). ` +
+      'Run deactivateEmergencyStop before trading again.'
+    );
+    this.name = 'EmergencyStopActiveError';
+  }
+}
+
 export class EmergencyControls {
   private config: TradingConfig;
   private gswap: GSwap;
@@ -79,11 +115,17 @@ export class EmergencyControls {
   private apiFailureCount: number = 0;
   private consecutiveFailures: number = 0;
 
+  // Persistence (attached by restoreState so scripts and tests stay in-memory)
+  private stateRepository: Repository<EmergencyStateRecord> | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private liquidationProgress: LiquidationProgress[] = [];
+
   constructor(
     config: TradingConfig,
     gswap: GSwap,
     swapExecutor: SwapExecutor,
-    walletAddress: string // CRITICAL FIX: Accept wallet address
+    walletAddress: string, // CRITICAL FIX: Accept wallet address
+    sources: RuntimeSources = {}
   ) {
     this.config = config;
     this.gswap = gswap;
@@ -92,7 +134,7 @@ export class EmergencyControls {
     this.alertSystem = new AlertSystem(false); // Disable cleanup timer for tests
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     // Initialize emergency state
     this.emergencyState = {
@@ -172,6 +214,9 @@ export class EmergencyControls {
         success: true
       });
 
+      // Persist before acting so a crash mid-liquidation still restarts stopped
+      await this.persistState();
+
       // Execute emergency actions
       const actions: EmergencyAction[] = [];
 
@@ -197,6 +242,7 @@ export class EmergencyControls {
       actions.push(await this.executeAction('SAFE_MODE', 'System entered safe mode - manual approval required for all actions'));
 
       this.emergencyState.actionsExecuted = actions;
+      await this.persistState();
 
       // Send critical alert
       await this.alertSystem.createAlert(
@@ -219,6 +265,7 @@ export class EmergencyControls {
       logger.error('Critical error during emergency stop:', error);
       // Even if emergency stop fails, ensure trading is halted
       this.isEmergencyStopActive = true;
+      await this.persistState();
     }
   }
 
@@ -426,29 +473,44 @@ export class EmergencyControls {
 
       // Create liquidation plan
       const liquidationPlan = this.createLiquidationPlan(positions);
+      this.liquidationProgress = liquidationPlan.map(plan => ({
+        ...plan,
+        status: 'PENDING',
+        value: 0,
+        updatedAt: Date.now()
+      }));
+      await this.persistState();
 
       let liquidatedCount = 0;
       let totalValue = 0;
       const errors: string[] = [];
 
-      // Execute liquidations in priority order
-      for (const plan of liquidationPlan) {
+      // Execute liquidations in priority order, persisting progress after each step
+      for (const progress of this.liquidationProgress) {
         try {
-          const result = await this.executeLiquidation(plan);
+          const result = await this.executeLiquidation(progress);
           if (result.success) {
             liquidatedCount++;
             totalValue += result.value;
-            logger.info(`Liquidated position: ${plan.token} - $${result.value}`);
+            progress.status = 'COMPLETED';
+            progress.value = result.value;
+            logger.info(`Liquidated position: ${progress.token} - $${result.value}`);
           } else {
-            errors.push(`Failed to liquidate ${plan.token}: ${result.error}`);
+            progress.status = 'FAILED';
+            progress.error = result.error;
+            errors.push(`Failed to liquidate ${progress.token}: ${result.error}`);
           }
         } catch (error) {
-          errors.push(`Error liquidating ${plan.token}: ${error}`);
+          progress.status = 'FAILED';
+          progress.error = error instanceof Error ? error.message : String(error);
+          errors.push(`Error liquidating ${progress.token}: ${error}`);
         }
-      }
 
-      this.emergencyState.totalPositionsLiquidated = liquidatedCount;
-      this.emergencyState.totalValueLiquidated = totalValue;
+        progress.updatedAt = Date.now();
+        this.emergencyState.totalPositionsLiquidated = liquidatedCount;
+        this.emergencyState.totalValueLiquidated = totalValue;
+        await this.persistState();
+      }
 
       const success = liquidatedCount > 0;
       logger.warn(`Emergency liquidation completed: ${liquidatedCount}/${positions.length} positions liquidated for $${totalValue}`);
@@ -576,6 +638,7 @@ export class EmergencyControls {
 
       // Emergency swap to USDC with high slippage tolerance
       const result = await this.swapExecutor.executeSwap({
+        strategy: 'emergency-liquidation',
         tokenIn: plan.token,
         tokenOut: 'USDC',
         amountIn: plan.amount.toString(),
@@ -664,6 +727,7 @@ export class EmergencyControls {
 
       // Use the existing swap executor for emergency market sell
       const result = await this.swapExecutor.executeSwap({
+        strategy: 'emergency-liquidation',
         tokenIn: plan.token,
         tokenOut: outputToken,
         amountIn: plan.amount.toString(),
@@ -854,6 +918,8 @@ export class EmergencyControls {
     this.apiFailureCount = 0;
     this.consecutiveFailures = 0;
 
+    await this.persistState();
+
     await this.alertSystem.systemAlert('emergency_deactivated', {
       reason,
       deactivatedAt: Date.now(),
@@ -871,6 +937,7 @@ export class EmergencyControls {
     this.consecutiveFailures++;
 
     logger.warn(`System error recorded. Count: ${this.systemErrorCount}, Consecutive: ${this.consecutiveFailures}`);
+    void this.persistState();
 
     // Check if emergency threshold reached
     if (this.systemErrorCount >= this.triggers.systemErrorCount && !this.isEmergencyStopActive) {
@@ -886,6 +953,7 @@ export class EmergencyControls {
     this.consecutiveFailures++;
 
     logger.warn(`API failure recorded. Count: ${this.apiFailureCount}, Consecutive: ${this.consecutiveFailures}`);
+    void this.persistState();
 
     // Check if emergency threshold reached
     if (this.apiFailureCount >= this.triggers.apiFailureCount && !this.isEmergencyStopActive) {
@@ -897,19 +965,15 @@ export class EmergencyControls {
    * Record successful operation (reset consecutive failures)
    */
   recordSuccess(): void {
+    if (this.consecutiveFailures === 0) return;
     this.consecutiveFailures = 0;
+    void this.persistState();
   }
 
   /**
    * Emergency action history
    */
-  private emergencyHistory: Array<{
-    timestamp: number;
-    action: string;
-    type: EmergencyType;
-    reason: string;
-    success: boolean;
-  }> = [];
+  private emergencyHistory: EmergencyHistoryEntry[] = [];
 
   /**
    * Get emergency status
@@ -929,6 +993,7 @@ export class EmergencyControls {
     reason: string;
     activatedAt: number;
     consecutiveFailures: number;
+    liquidationProgress: LiquidationProgress[];
   } {
     return {
       ...this.emergencyState,
@@ -945,23 +1010,113 @@ export class EmergencyControls {
       isActive: this.emergencyState.isEmergencyActive,
       reason: this.emergencyState.triggerReason,
       activatedAt: this.emergencyState.triggerTime,
-      consecutiveFailures: this.consecutiveFailures
+      consecutiveFailures: this.consecutiveFailures,
+      liquidationProgress: this.getLiquidationProgress()
     };
   }
 
   /**
    * Get emergency action history
    */
-  getEmergencyHistory(): Array<{
-    timestamp: number;
-    action: string;
-    type: EmergencyType;
-    reason: string;
-    success: boolean;
-  }> {
+  getEmergencyHistory(): EmergencyHistoryEntry[] {
     return [...this.emergencyHistory];
   }
 
+  /**
+   * Get progress of the most recent emergency liquidation
+   */
+  getLiquidationProgress(): LiquidationProgress[] {
+    return this.liquidationProgress.map(progress => ({ ...progress }));
+  }
+
+  /**
+   * Restore persisted state and keep persisting every change from now on.
+   * Returns true when a persisted emergency stop is still active.
+   */
+  async restoreState(): Promise<boolean> {
+    if (!this.stateRepository) {
+      this.stateRepository = await getEmergencyStateRepository();
+
+      const record = await this.stateRepository.findOne({ where: { walletAddress: this.walletAddress } });
+      if (record) {
+        this.applyRecord(record);
+        logger.info('Emergency state restored:', {
+          isEmergencyActive: this.emergencyState.isEmergencyActive,
+          emergencyType: this.emergencyState.emergencyType,
+          historyEntries: this.emergencyHistory.length
+        });
+
+        const interrupted = this.liquidationProgress.filter(progress => progress.status === 'PENDING');
+        if (interrupted.length > 0) {
+          logger.warn(`Emergency liquidation was interrupted with ${interrupted.length} positions pending: ${interrupted.map(p => p.token).join(', ')}`);
+        }
+      }
+    }
+
+    return this.emergencyState.isEmergencyActive;
+  }
+
+  /**
+   * Copy a persisted record into the in-memory state
+   */
+  private applyRecord(record: EmergencyStateRecord): void {
+    this.emergencyState = {
+      isEmergencyActive: record.isEmergencyActive,
+      emergencyType: record.emergencyType,
+      triggerTime: Number(record.triggerTime),
+      triggerReason: record.triggerReason,
+      actionsExecuted: record.actionsExecuted || [],
+      totalPositionsLiquidated: record.totalPositionsLiquidated,
+      totalValueLiquidated: Number(record.totalValueLiquidated),
+      recoveryMode: record.recoveryMode
+    };
+    this.emergencyHistory = record.history || [];
+    this.liquidationProgress = record.liquidationProgress || [];
+    this.systemErrorCount = record.systemErrorCount;
+    this.apiFailureCount = record.apiFailureCount;
+    this.consecutiveFailures = record.consecutiveFailures;
+
+    if (record.isEmergencyActive) {
+      this.isEmergencyStopActive = true;
+    }
+  }
+
+  /**
+   * Write current state to the database (no-op until restoreState attaches a repository).
+   * Writes are serialized so concurrent updates land in order.
+   */
+  private persistState(): Promise<void> {
+    const repository = this.stateRepository;
+    if (!repository) {
+      return Promise.resolve();
+    }
+
+    this.persistQueue = this.persistQueue.then(async () => {
+      try {
+        await repository.save(repository.create({
+          walletAddress: this.walletAddress,
+          isEmergencyActive: this.emergencyState.isEmergencyActive,
+          emergencyType: this.emergencyState.emergencyType,
+          triggerTime: this.emergencyState.triggerTime,
+          triggerReason: this.emergencyState.triggerReason,
+          recoveryMode: this.emergencyState.recoveryMode,
+          totalPositionsLiquidated: this.emergencyState.totalPositionsLiquidated,
+          totalValueLiquidated: this.emergencyState.totalValueLiquidated,
+          systemErrorCount: this.systemErrorCount,
+          apiFailureCount: this.apiFailureCount,
+          consecutiveFailures: this.consecutiveFailures,
+          actionsExecuted: this.emergencyState.actionsExecuted,
+          history: this.emergencyHistory,
+          liquidationProgress: this.liquidationProgress
+        }));
+      } catch (error) {
+        logger.error('Failed to persist emergency state:', error);
+      }
+    });
+
+    return this.persistQueue;
+  }
+
   /**
    * Update emergency triggers
    */
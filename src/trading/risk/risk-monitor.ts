@@ -101,7 +101,7 @@ export class RiskMonitor {
 
     // Initialize risk configuration from environment
     this.riskConfig = {
-      maxDailyLossPercent: safeParseFloat(process.env.MAX_DAILY_LOSS_PERCENT || '0.05', 0.05),
+      maxDailyLossPercent: config.maxDailyLossPercent ?? safeParseFloat(process.env.MAX_DAILY_LOSS_PERCENT || '0.05', 0.05),
       maxTotalLossPercent: safeParseFloat(process.env.MAX_TOTAL_LOSS_PERCENT || '0.15', 0.15),
       maxDrawdownPercent: safeParseFloat(process.env.MAX_DRAWDOWN_PERCENT || '0.10', 0.10),
       maxDailyVolume: safeParseFloat(process.env.MAX_DAILY_VOLUME || '5000', 5000),
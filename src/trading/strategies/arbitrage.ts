@@ -12,7 +12,10 @@ import { MarketAnalysis } from '../../monitoring/market-analysis';
 import { safeParseFloat } from '../../utils/safe-parse';
 import { ArbitrageStatus } from '../../types/galaswap';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { RuntimeSources } from '../../utils/clock';
 import { poolDiscovery, PoolData } from '../../services/pool-discovery';
+import { StrategyAccount, TradingStrategy, TradingStrategyStats } from './trading-strategy';
+import { estimateRouteGasCost, getTradeSizeCap, optimizeTradeSize, routeQuoter } from '../execution/trade-sizer';
 
 export interface ArbitrageOpportunity {
   tokenA: string;
@@ -26,11 +29,12 @@ export interface ArbitrageOpportunity {
   expectedAmountOut: string;
 }
 
-export class ArbitrageStrategy {
+export class ArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
   private marketAnalysis: MarketAnalysis;
+  private account: StrategyAccount; // Wallet and position limits trade sizes are capped by
   private quoteWrapper: any; // Working quote API wrapper
   private isActive: boolean = false;
   private lastScanTime: number = 0;
@@ -51,15 +55,18 @@ export class ArbitrageStrategy {
     gswap: GSwap,
     config: TradingConfig,
     swapExecutor: SwapExecutor,
-    marketAnalysis: MarketAnalysis
+    marketAnalysis: MarketAnalysis,
+    account: StrategyAccount = {},
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
     this.swapExecutor = swapExecutor;
     this.marketAnalysis = marketAnalysis;
+    this.account = account;
 
     // Initialize working quote wrapper
-    this.quoteWrapper = createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com');
 
     logger.info('Arbitrage Strategy initialized');
   }
@@ -111,17 +118,39 @@ export class ArbitrageStrategy {
     }
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
   /**
-   * Execute strategy (called by trading engine)
+   * Find current opportunities without executing them
    */
-  async execute(): Promise<void> {
-    if (!this.isActive) return;
-    await this.scanForOpportunities();
+  async scanOpportunities(): Promise<ArbitrageOpportunity[]> {
+    return this.findArbitrageOpportunities();
+  }
+
+  /**
+   * Execute strategy (called by trading engine) - one pass, no rescheduling
+   */
+  async execute(): Promise<boolean> {
+    if (!this.isActive) return false;
+    const executedBefore = this.executionStats.executedTrades;
+    await this.runScan();
+    return this.executionStats.executedTrades > executedBefore;
   }
 
   private async scanForOpportunities(): Promise<void> {
     if (!this.isActive) return;
 
+    await this.runScan();
+
+    // Schedule next scan
+    if (this.isActive) {
+      setTimeout(() => this.scanForOpportunities(), TRADING_CONSTANTS.ARBITRAGE_SCAN_INTERVAL);
+    }
+  }
+
+  private async runScan(): Promise<void> {
     try {
       logger.info('🔍 Scanning for arbitrage opportunities...');
       const opportunities = await this.findArbitrageOpportunities();
@@ -151,11 +180,6 @@ export class ArbitrageStrategy {
     } catch (error) {
       logger.error('❌ Error scanning for arbitrage opportunities:', error);
     }
-
-    // Schedule next scan
-    if (this.isActive) {
-      setTimeout(() => this.scanForOpportunities(), TRADING_CONSTANTS.ARBITRAGE_SCAN_INTERVAL);
-    }
   }
 
   private async findArbitrageOpportunities(): Promise<ArbitrageOpportunity[]> {
@@ -319,6 +343,7 @@ export class ArbitrageStrategy {
 
       if (isValid) {
         logger.info(`Valid arbitrage: ${currentProfitPercent.toFixed(3)}% profit (${netProfit.toFixed(2)} USD)`);
+        await this.resizeOpportunity(opportunity, baseToken, amountIn, gasInUSD);
       }
 
       return isValid;
@@ -328,37 +353,88 @@ export class ArbitrageStrategy {
     }
   }
 
+  /**
+   * Replace the probe size of a validated opportunity with the size that maximizes net profit
+   */
+  private async resizeOpportunity(
+    opportunity: ArbitrageOpportunity,
+    baseToken: string,
+    probeAmount: number,
+    fallbackGasCost: number
+  ): Promise<void> {
+    try {
+      const gasCost = await estimateRouteGasCost(2, 'GUSDC') ?? fallbackGasCost;
+      const quoteRoute = routeQuoter([baseToken, opportunity.tokenA, baseToken], async (tokenIn, tokenOut, amountIn) => {
+        const quote = await this.quoteWrapper.quoteExactInput(tokenIn, tokenOut, amountIn);
+        return quote?.outTokenAmount ? safeParseFloat(quote.outTokenAmount.toString(), 0) : null;
+      });
+
+      const maxAmount = await getTradeSizeCap({
+        tokenSymbol: 'GUSDC',
+        configuredMax: this.config.maxPositionSize,
+        positionLimits: this.account.positionLimits,
+        walletAddress: this.account.walletAddress
+      });
+      const sizing = await optimizeTradeSize(quoteRoute, { minAmount: probeAmount / 10, maxAmount, gasCost });
+
+      if (sizing && sizing.amountIn !== probeAmount) {
+        opportunity.amountIn = sizing.amountIn.toString();
+        opportunity.expectedAmountOut = sizing.expectedOutput.toString();
+        logger.info(`Sized arbitrage to ${sizing.amountIn.toFixed(2)} GUSDC (net ${sizing.netProfit.toFixed(2)} USD)`);
+      }
+    } catch (error) {
+      logger.warn('Trade sizing failed, keeping probe size:', error);
+    }
+  }
+
   private async executeArbitrage(opportunity: ArbitrageOpportunity): Promise<void> {
+    // Journal the attempt so a crash or failed sell leg leaves a record of the tokenA we hold
+    const recovery = this.swapExecutor.getArbitrageRecovery();
+    const attemptId = recovery.beginAttempt('USDC', opportunity.amountIn, opportunity.profitPotential);
+    const failAttempt = async (error: string) => {
+      try {
+        await recovery.failAttempt(attemptId, error);
+      } catch (recoveryError) {
+        logger.error('Arbitrage recovery failed:', recoveryError);
+      }
+    };
+
     try {
       logger.info(`🎯 Executing arbitrage: ${opportunity.poolA} -> ${opportunity.poolB}`);
       this.executionStats.executedTrades++;
 
       // Execute buy leg
       const buyResult = await this.swapExecutor.executeSwap({
+        strategy: 'arbitrage',
         tokenIn: 'USDC',
         tokenOut: opportunity.tokenA,
         amountIn: opportunity.amountIn,
         slippageTolerance: 0.005,
-        userAddress: 'configured',
+        userAddress: this.account.walletAddress ?? 'configured',
         urgency: 'high'
       });
 
       if (!buyResult.success) {
         logger.error('Arbitrage buy leg failed:', buyResult.error);
+        await failAttempt(buyResult.error || 'buy leg failed');
         return;
       }
+      recovery.recordHop(attemptId, buyResult.transactionId, opportunity.tokenA);
 
       // Execute sell leg
       const sellResult = await this.swapExecutor.executeSwap({
+        strategy: 'arbitrage',
         tokenIn: opportunity.tokenA,
         tokenOut: 'USDC',
         amountIn: buyResult.amountOut || opportunity.expectedAmountOut,
         slippageTolerance: 0.005,
-        userAddress: 'configured',
+        userAddress: this.account.walletAddress ?? 'configured',
         urgency: 'high'
       });
 
       if (sellResult.success) {
+        recovery.recordHop(attemptId, sellResult.transactionId, 'USDC');
+        recovery.completeAttempt(attemptId, sellResult.amountOut);
         this.executionStats.successfulTrades++;
         const profit = safeParseFloat(sellResult.amountOut || '0', 0) - safeParseFloat(opportunity.amountIn, 0);
         this.executionStats.totalProfit += profit;
@@ -366,13 +442,23 @@ export class ArbitrageStrategy {
         logger.info(`✅ Arbitrage completed: ${profit.toFixed(2)} profit`);
       } else {
         logger.error('Arbitrage sell leg failed:', sellResult.error);
+        await failAttempt(sellResult.error || 'sell leg failed');
       }
 
     } catch (error) {
       logger.error('Error executing arbitrage:', error);
+      await failAttempt(error instanceof Error ? error.message : String(error));
     }
   }
 
+  getStats(): TradingStrategyStats {
+    return {
+      totalTrades: this.executionStats.executedTrades,
+      successfulTrades: this.executionStats.successfulTrades,
+      totalProfit: this.executionStats.totalProfit
+    };
+  }
+
   getStatus(): ArbitrageStatus {
     const successRate = this.executionStats.executedTrades > 0
       ? (this.executionStats.successfulTrades / this.executionStats.executedTrades) * 100
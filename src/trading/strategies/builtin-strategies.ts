@@ -0,0 +1,263 @@
+/**
+ * Built-in Strategies
+ *
+ * Definitions for the strategies shipped in this directory, with the orchestrator
+ * scheduling defaults for each. None of them take constructor parameters yet.
+ */
+
+import { StrategyDefinition } from './trading-strategy';
+import { ArbitrageStrategy } from './arbitrage';
+import { SmartArbitrageStrategy } from './smart-arbitrage';
+import { TriangleArbitrageStrategy } from './triangle-arbitrage';
+import { StablecoinArbitrageStrategy } from './stablecoin-arbitrage';
+import { CrossAssetMomentumStrategy } from './cross-asset-momentum';
+import { MultiPathArbitrageStrategy } from './multi-path-arbitrage';
+import { StatisticalArbitrageStrategy } from './statistical-arbitrage';
+import { TimeBasedPatternsStrategy } from './time-based-patterns';
+import { VolumeMomentumStrategy } from './volume-momentum';
+import { EventArbitrageStrategy } from './event-arbitrage';
+import { NFTArbitrageStrategy } from './nft-arbitrage';
+
+export const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  // Basic Arbitrage - Reliable, medium profit
+  {
+    id: 'arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Basic Arbitrage',
+        enabled: true,
+        priority: 6,
+        maxCapitalAllocation: 20, // 20% max
+        riskTolerance: 'low',
+        marketConditions: ['bull', 'bear', 'sideways'],
+        minProfitThreshold: 0.3, // 0.3% minimum
+        cooldownPeriod: 30000, // 30 seconds
+        maxConcurrentTrades: 3
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, walletAddress, positionLimits, clock, quoteSource }) => new ArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, { walletAddress, positionLimits }, { clock, quoteSource }
+    )
+  },
+
+  // Smart Arbitrage - Learning system, adaptive
+  {
+    id: 'smart-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Smart Learning Arbitrage',
+        enabled: true,
+        priority: 8,
+        maxCapitalAllocation: 30,
+        riskTolerance: 'medium',
+        marketConditions: ['bull', 'bear', 'sideways', 'volatile'],
+        minProfitThreshold: 0.4,
+        cooldownPeriod: 45000,
+        maxConcurrentTrades: 2
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource }) => new SmartArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, { clock, quoteSource }
+    )
+  },
+
+  // Triangle Arbitrage - High profit potential, higher complexity
+  {
+    id: 'triangle-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Triangle Arbitrage',
+        enabled: true,
+        priority: 9, // Highest priority due to profit potential
+        maxCapitalAllocation: 25,
+        riskTolerance: 'medium',
+        marketConditions: ['volatile', 'bull', 'bear'],
+        minProfitThreshold: 0.5, // Higher threshold due to complexity
+        cooldownPeriod: 60000,
+        maxConcurrentTrades: 1
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, walletAddress, positionLimits, clock, quoteSource }) => new TriangleArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, { walletAddress, positionLimits }, { clock, quoteSource }
+    )
+  },
+
+  // Stablecoin Arbitrage - Low risk, consistent profits
+  {
+    id: 'stablecoin-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Stablecoin Arbitrage',
+        enabled: true,
+        priority: 7,
+        maxCapitalAllocation: 40, // Largest allocation due to low risk
+        riskTolerance: 'low',
+        marketConditions: ['stable', 'sideways', 'bear'],
+        minProfitThreshold: 0.02, // Very low threshold
+        cooldownPeriod: 10000, // Fast execution
+        maxConcurrentTrades: 5
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource }) => new StablecoinArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, { clock, quoteSource }
+    )
+  },
+
+  // Cross-Asset Momentum - Experimental, high risk/reward
+  {
+    id: 'cross-asset-momentum',
+    configSchema: {
+      defaults: {
+        name: 'Cross-Asset Momentum',
+        enabled: false, // Disabled by default until proven
+        priority: 5,
+        maxCapitalAllocation: 15,
+        riskTolerance: 'high',
+        marketConditions: ['volatile', 'bull', 'bear'],
+        minProfitThreshold: 1.0, // High threshold for experimental strategy
+        cooldownPeriod: 120000, // 2 minute cooldown
+        maxConcurrentTrades: 2
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource }) => new CrossAssetMomentumStrategy(
+      gswap, config, swapExecutor, marketAnalysis, { clock, quoteSource }
+    )
+  },
+
+  // Multi-Path Arbitrage - Advanced arbitrage with highest profit potential
+  {
+    id: 'multi-path-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Multi-Path Arbitrage',
+        enabled: true,
+        priority: 10, // Highest priority due to advanced profit potential
+        maxCapitalAllocation: 35, // Large allocation for high-value opportunities
+        riskTolerance: 'medium',
+        marketConditions: ['volatile', 'bull', 'bear', 'sideways'],
+        minProfitThreshold: 2.0, // Higher threshold for multi-hop complexity
+        cooldownPeriod: 90000, // 90 second cooldown for complex execution
+        maxConcurrentTrades: 1 // Single execution due to complexity
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource }) => new MultiPathArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, { clock, quoteSource }
+    )
+  },
+
+  // Statistical Arbitrage - Pairs trading with mean reversion
+  {
+    id: 'statistical-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Statistical Arbitrage',
+        enabled: true,
+        priority: 8, // High priority for proven statistical methods
+        maxCapitalAllocation: 20, // Moderate allocation for pairs trading
+        riskTolerance: 'medium',
+        marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions
+        minProfitThreshold: 2.0, // 2% minimum for statistical significance
+        cooldownPeriod: 30000, // 30 second cooldown
+        maxConcurrentTrades: 5 // Multiple pairs can trade simultaneously
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, clock, quoteSource }) => new StatisticalArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, undefined, { clock, quoteSource }
+    )
+  },
+
+  // Time-Based Patterns - Gaming ecosystem pattern exploitation
+  {
+    id: 'time-based-patterns',
+    configSchema: {
+      defaults: {
+        name: 'Time-Based Patterns',
+        enabled: true,
+        priority: 7, // High priority for proven gaming patterns
+        maxCapitalAllocation: 15, // Conservative allocation for time-based strategy
+        riskTolerance: 'medium',
+        marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions
+        minProfitThreshold: 1.5, // 1.5% minimum for pattern-based trades
+        cooldownPeriod: 1800000, // 30 minute cooldown (patterns need time to develop)
+        maxConcurrentTrades: 3 // Multiple patterns can be active simultaneously
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis }) => new TimeBasedPatternsStrategy(
+      gswap, config, swapExecutor, marketAnalysis
+    )
+  },
+
+  // Volume Momentum Strategy - Gaming token momentum trading
+  {
+    id: 'volume-momentum',
+    configSchema: {
+      defaults: {
+        name: 'Volume Momentum',
+        enabled: true,
+        priority: 8, // High priority for momentum trading
+        maxCapitalAllocation: 12, // 12% max (matches strategy limit)
+        riskTolerance: 'medium',
+        marketConditions: ['bull', 'bear', 'volatile'], // Momentum works in trending/volatile markets
+        minProfitThreshold: 5.0, // 5% minimum for momentum plays
+        cooldownPeriod: 30000, // 30 second cooldown
+        maxConcurrentTrades: 2 // Matches strategy MAX_CONCURRENT_POSITIONS
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, volumeAnalyzer, riskMonitor }) => new VolumeMomentumStrategy(
+      gswap, config, swapExecutor, marketAnalysis, volumeAnalyzer, riskMonitor
+    )
+  },
+
+  // Event Arbitrage Strategy - Gaming event-driven arbitrage trading
+  {
+    id: 'event-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'Event Arbitrage',
+        enabled: true,
+        priority: 9, // High priority for predictable event patterns
+        maxCapitalAllocation: 15, // 15% max (matches strategy limit)
+        riskTolerance: 'medium',
+        marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions
+        minProfitThreshold: 3.0, // 3% minimum for event-driven trades
+        cooldownPeriod: 14400000, // 4 hour cooldown (events need time to develop)
+        maxConcurrentTrades: 4 // Multiple event positions can be active
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis }) => new EventArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis
+    )
+  },
+
+  // NFT Arbitrage Strategy - Gaming NFT floor price arbitrage
+  {
+    id: 'nft-arbitrage',
+    configSchema: {
+      defaults: {
+        name: 'NFT Floor Price Arbitrage',
+        enabled: true,
+        priority: 8, // High priority for unique gaming NFT opportunities
+        maxCapitalAllocation: 10, // 10% max (matches strategy MAX_TOTAL_NFT_EXPOSURE)
+        riskTolerance: 'high', // NFT markets are inherently high risk
+        marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions with different strategies
+        minProfitThreshold: 10.0, // 10% minimum for NFT arbitrage (matches strategy MIN_PROFIT_THRESHOLD)
+        cooldownPeriod: 300000, // 5 minute cooldown (matches strategy scanInterval)
+        maxConcurrentTrades: 3 // Matches strategy MAX_CONCURRENT_POSITIONS
+      },
+      parameters: {}
+    },
+    create: ({ gswap, config, swapExecutor, marketAnalysis, riskMonitor }) => new NFTArbitrageStrategy(
+      gswap, config, swapExecutor, marketAnalysis, riskMonitor
+    )
+  }
+];
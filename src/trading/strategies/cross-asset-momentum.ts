@@ -22,8 +22,13 @@ import { TRADING_CONSTANTS } from '../../config/constants';
 import { SwapExecutor } from '../execution/swap-executor';
 import { MarketAnalysis } from '../../monitoring/market-analysis';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { RuntimeSources } from '../../utils/clock';
 import { credentialService } from '../../security/credential-service';
 import { poolDiscovery, PoolData } from '../../services/pool-discovery';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
+import { indicatorEngine } from '../../analytics/indicator-engine';
+import { IndicatorSnapshot } from '../../analytics/technical-indicators';
+import { IntervalType } from '../../entities/analytics';
 
 export interface AssetPair {
   assetA: string;
@@ -49,7 +54,7 @@ export interface MomentumIndicators {
   volume: number;
   momentum: number; // Price change %
   volumeWeightedMomentum: number;
-  relativeStrength: number; // vs other assets
+  relativeStrength: number; // RSI / 100 from stored candles, 0-1
   divergenceScore: number; // How much it diverges from correlation
   signal: 'BUY' | 'SELL' | 'HOLD';
   strength: number; // Signal strength 0-1
@@ -90,7 +95,7 @@ export interface MomentumStats {
   currentDrawdown: number;
 }
 
-export class CrossAssetMomentumStrategy {
+export class CrossAssetMomentumStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -116,6 +121,11 @@ export class CrossAssetMomentumStrategy {
   private readonly UPDATE_INTERVAL = 30000; // 30 seconds between updates
   private readonly CORRELATION_PERIOD = 60; // 60-minute correlation window
   private readonly VOLUME_WEIGHT = 0.3; // Volume weight in momentum calculation
+  private readonly INDICATOR_INTERVAL: IntervalType = '5m'; // Candles behind the shared indicators
+  private readonly RSI_OVERBOUGHT = 70; // No new longs above this RSI
+  private readonly RSI_OVERSOLD = 30; // No new shorts below this RSI
+  private readonly HURST_TRENDING = 0.6; // Above this the breakdown is a trend, not a gap that closes
+  private readonly ATR_STOP_MULTIPLIER = 2; // Stops no tighter than 2x ATR
 
   // Risk management
   private readonly MAX_RISK_PERCENTAGE = 2.0; // 2% max risk per trade
@@ -156,7 +166,8 @@ export class CrossAssetMomentumStrategy {
     gswap: GSwap,
     config: TradingConfig,
     swapExecutor: SwapExecutor,
-    marketAnalysis: MarketAnalysis
+    marketAnalysis: MarketAnalysis,
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
@@ -164,7 +175,7 @@ export class CrossAssetMomentumStrategy {
     this.marketAnalysis = marketAnalysis;
     const fullConfig = getConfig();
     this.baseUrl = fullConfig.api.baseUrl;
-    this.quoteWrapper = createQuoteWrapper(this.baseUrl);
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(this.baseUrl);
 
     logger.info('Cross-Asset Momentum Strategy initialized', {
       poolDiscoveryEnabled: true,
@@ -338,6 +349,13 @@ export class CrossAssetMomentumStrategy {
     }
   }
 
+  /**
+   * Discover momentum pairs from pool data
+   */
+  async initialize(): Promise<void> {
+    await this.initializeMomentumPairs();
+  }
+
   /**
    * Start the cross-asset momentum strategy
    */
@@ -351,7 +369,9 @@ export class CrossAssetMomentumStrategy {
     logger.info('📈 Starting Cross-Asset Momentum Strategy');
 
     // Initialize momentum pairs with real pool data
-    await this.initializeMomentumPairs();
+    if (this.pairs.size === 0) {
+      await this.initializeMomentumPairs();
+    }
 
     // Start data collection
     await this.startDataCollection();
@@ -379,6 +399,26 @@ export class CrossAssetMomentumStrategy {
     });
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Current momentum opportunities, without executing them
+   */
+  async scanOpportunities(): Promise<MomentumOpportunity[]> {
+    return this.scanForMomentumOpportunities();
+  }
+
+  /**
+   * Orchestrator cycle - signal monitoring runs on its own loop once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
   /**
    * Start continuous data collection
    */
@@ -620,10 +660,15 @@ export class CrossAssetMomentumStrategy {
 
     try {
       // Calculate momentum indicators
-      const indicators = this.calculateMomentumIndicators(history);
+      const snapshot = await indicatorEngine.getIndicators(asset, this.INDICATOR_INTERVAL).catch(error => {
+        logger.debug(`No stored indicators for ${asset}`, { error });
+        return null;
+      });
+      const indicators = this.calculateMomentumIndicators(history, snapshot);
 
-      // Skip if no clear signal
+      // Skip if no clear signal, or if the asset is trending and the breakdown is unlikely to close
       if (indicators.signal === 'HOLD') return null;
+      if (snapshot?.hurst != null && snapshot.hurst > this.HURST_TRENDING) return null;
 
       // Calculate expected price based on correlation
       const correlationBreakdown = await this.calculateCorrelationBreakdown(pair, asset);
@@ -648,15 +693,19 @@ export class CrossAssetMomentumStrategy {
       const direction: 'LONG' | 'SHORT' =
         correlationBreakdown.deviation > 0 ? 'SHORT' : 'LONG'; // Price too high = SHORT
 
-      // Calculate stop loss and take profit
+      // Calculate stop loss and take profit, widened to the asset's ATR with the same reward to risk
       const currentPrice = history[history.length - 1].price;
+      const atrPercent = snapshot?.atr != null ? (snapshot.atr * this.ATR_STOP_MULTIPLIER / currentPrice) * 100 : 0;
+      const stopPercent = Math.max(this.STOP_LOSS_PERCENTAGE, atrPercent);
+      const takeProfitPercent = stopPercent * (this.TAKE_PROFIT_PERCENTAGE / this.STOP_LOSS_PERCENTAGE);
+
       const stopLoss = direction === 'LONG'
-        ? currentPrice * (1 - this.STOP_LOSS_PERCENTAGE / 100)
-        : currentPrice * (1 + this.STOP_LOSS_PERCENTAGE / 100);
+        ? currentPrice * (1 - stopPercent / 100)
+        : currentPrice * (1 + stopPercent / 100);
 
       const takeProfit = direction === 'LONG'
-        ? currentPrice * (1 + this.TAKE_PROFIT_PERCENTAGE / 100)
-        : currentPrice * (1 - this.TAKE_PROFIT_PERCENTAGE / 100);
+        ? currentPrice * (1 + takeProfitPercent / 100)
+        : currentPrice * (1 - takeProfitPercent / 100);
 
       const expectedReturn = Math.abs(correlationBreakdown.deviation) * positionSize / 100;
 
@@ -685,7 +734,7 @@ export class CrossAssetMomentumStrategy {
   /**
    * Calculate momentum indicators for an asset
    */
-  private calculateMomentumIndicators(history: PricePoint[]): MomentumIndicators {
+  private calculateMomentumIndicators(history: PricePoint[], snapshot: IndicatorSnapshot | null): MomentumIndicators {
     const recent = history.slice(-20); // Last 20 data points
     if (recent.length < 5) {
       return {
@@ -713,8 +762,10 @@ export class CrossAssetMomentumStrategy {
     const volumeWeight = Math.min(2, currentVolume / avgVolume); // Max 2x weight
     const volumeWeightedMomentum = momentum * volumeWeight;
 
-    // Relative strength (simplified)
-    const relativeStrength = Math.max(0, Math.min(1, (momentum + 10) / 20)); // Normalize to 0-1
+    // Relative strength from the shared RSI, falling back to normalized momentum before it has warmed up
+    const relativeStrength = snapshot?.rsi != null
+      ? snapshot.rsi / 100
+      : Math.max(0, Math.min(1, (momentum + 10) / 20));
 
     // Divergence score (momentum vs volume)
     const volumeMomentum = ((currentVolume - avgVolume) / avgVolume) * 100;
@@ -729,6 +780,17 @@ export class CrossAssetMomentumStrategy {
       strength = Math.min(1, Math.abs(volumeWeightedMomentum) / 10); // Normalize to 0-1
     }
 
+    // Skip moves that are already exhausted or that MACD does not confirm
+    const rsi = snapshot?.rsi;
+    const histogram = snapshot?.macd?.histogram;
+    if (
+      (rsi != null && ((signal === 'BUY' && rsi >= this.RSI_OVERBOUGHT) || (signal === 'SELL' && rsi <= this.RSI_OVERSOLD))) ||
+      (histogram != null && ((signal === 'BUY' && histogram <= 0) || (signal === 'SELL' && histogram >= 0)))
+    ) {
+      signal = 'HOLD';
+      strength = 0;
+    }
+
     return {
       price: currentPrice,
       volume: currentVolume,
@@ -894,6 +956,7 @@ export class CrossAssetMomentumStrategy {
 
       // Execute the trade
       const tradeResult = await this.swapExecutor.executeSwap({
+        strategy: 'cross-asset-momentum',
         tokenIn: this.getTokenClass(tokenIn),
         tokenOut: this.getTokenClass(tokenOut),
         amountIn,
@@ -1126,8 +1189,12 @@ export class CrossAssetMomentumStrategy {
   /**
    * Get strategy statistics
    */
-  getStats(): MomentumStats {
-    return { ...this.stats };
+  getStats(): MomentumStats & TradingStrategyStats {
+    return {
+      ...this.stats,
+      totalTrades: this.stats.executedTrades,
+      successfulTrades: this.stats.profitableTrades
+    };
   }
 
   /**
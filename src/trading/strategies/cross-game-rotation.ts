@@ -17,6 +17,7 @@ import {
   GameStage,
   GameRiskProfile
 } from '../../analytics/game-migration-tracker';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
 
 export interface GameAllocation {
   token: string;
@@ -63,7 +64,7 @@ export interface LifecycleConfig {
   description: string;
 }
 
-export class CrossGameRotationStrategy {
+export class CrossGameRotationStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -148,6 +149,13 @@ export class CrossGameRotationStrategy {
     logger.info('CrossGameRotationStrategy initialized');
   }
 
+  /**
+   * Load the starting portfolio allocations
+   */
+  async initialize(): Promise<void> {
+    await this.initializePortfolio();
+  }
+
   /**
    * Start the cross-game rotation strategy
    */
@@ -162,7 +170,9 @@ export class CrossGameRotationStrategy {
       logger.info('Starting cross-game asset rotation strategy');
 
       // Initialize portfolio state
-      await this.initializePortfolio();
+      if (this.currentAllocations.size === 0) {
+        await this.initializePortfolio();
+      }
 
       // Start monitoring loop
       this.startMonitoringLoop();
@@ -179,11 +189,32 @@ export class CrossGameRotationStrategy {
   /**
    * Stop the strategy
    */
-  stop(): void {
+  async stop(): Promise<void> {
     this.isActive = false;
     logger.info('Cross-game rotation strategy stopped');
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Current rotation signals, without rebalancing
+   */
+  async scanOpportunities(): Promise<RotationSignal[]> {
+    const optimization = await this.analyzeRotationOpportunities();
+    return optimization.rotationSignals;
+  }
+
+  /**
+   * Orchestrator cycle - rotation monitoring runs on its own loop once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
   /**
    * Initialize portfolio state
    */
@@ -708,6 +739,14 @@ export class CrossGameRotationStrategy {
     return { ...this.executionStats };
   }
 
+  getStats(): TradingStrategyStats {
+    return {
+      totalTrades: this.executionStats.totalRotations,
+      successfulTrades: this.executionStats.successfulRotations,
+      totalProfit: this.executionStats.profitFromRotations
+    };
+  }
+
   /**
    * Get current allocations
    */
@@ -38,6 +38,7 @@ import { TRADING_CONSTANTS } from '../../config/constants';
 import { priceCollector } from '../../data/price-collector';
 import { gameCalendar, GameEvent, EventType, EventCategory, EventImpactLevel } from '../../data/game-calendar';
 import { EventScheduler, ScheduledEvent } from '../../monitoring/event-scheduler';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
 
 export interface EventPosition {
   id: string;
@@ -101,7 +102,7 @@ export interface EventOpportunity {
   exitWindow: { start: number; end: number };
 }
 
-export class EventArbitrageStrategy {
+export class EventArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -187,6 +188,11 @@ export class EventArbitrageStrategy {
     });
   }
 
+  /**
+   * Nothing to prepare - the event calendar is loaded when the scheduler starts
+   */
+  async initialize(): Promise<void> {}
+
   /**
    * Start the event arbitrage strategy
    */
@@ -250,6 +256,23 @@ export class EventArbitrageStrategy {
     }
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  async scanOpportunities(): Promise<EventOpportunity[]> {
+    return this.scanForEventOpportunities();
+  }
+
+  /**
+   * Orchestrator cycle - event scanning runs on its own schedule once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
   /**
    * Scan for event opportunities
    */
@@ -957,7 +980,14 @@ export class EventArbitrageStrategy {
    * Get strategy statistics
    */
   getStats() {
+    const stats: TradingStrategyStats = {
+      totalTrades: this.stats.totalPositions,
+      successfulTrades: this.stats.successfulPositions,
+      totalProfit: this.stats.totalPnL
+    };
+
     return {
+      ...stats,
       isActive: this.isActive,
       positions: {
         active: this.stats.activePositions,
@@ -23,11 +23,13 @@ import { TRADING_CONSTANTS } from '../../config/constants';
 import { SwapExecutor, SwapRequest, SwapResult } from '../execution/swap-executor';
 import { MarketAnalysis } from '../../monitoring/market-analysis';
 import { PathOptimizer, OptimizedPath, PathRisk } from '../execution/path-optimizer';
-import { createQuoteWrapper } from '../../utils/quote-api';
+import { createLocalQuoteWrapper } from '../../utils/local-quote-engine';
 import { credentialService } from '../../security/credential-service';
-import { poolDiscovery } from '../../services/pool-discovery';
+import { poolDiscovery, PoolDiscoveryService } from '../../services/pool-discovery';
 import { PrecisionMath, TOKEN_DECIMALS } from '../../utils/precision-math';
 import { safeParseFloat, safeFixedToNumber } from '../../utils/safe-parse';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
+import { Clock, RuntimeSources, systemClock } from '../../utils/clock';
 
 export interface MultiPathConfig {
   enabled: boolean;
@@ -126,12 +128,14 @@ export interface MultiPathStats {
   }>;
 }
 
-export class MultiPathArbitrageStrategy {
+export class MultiPathArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
   private marketAnalysis: MarketAnalysis;
   private pathOptimizer: PathOptimizer;
+  private clock: Clock;
+  private poolDiscovery: PoolDiscoveryService;
   private quoteWrapper: any;
   private isActive: boolean = false;
   private lastScanTime: number = 0;
@@ -182,19 +186,22 @@ export class MultiPathArbitrageStrategy {
     gswap: GSwap,
     config: TradingConfig,
     swapExecutor: SwapExecutor,
-    marketAnalysis: MarketAnalysis
+    marketAnalysis: MarketAnalysis,
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
     this.swapExecutor = swapExecutor;
     this.marketAnalysis = marketAnalysis;
+    this.clock = sources.clock ?? systemClock;
+    this.poolDiscovery = sources.poolDiscovery ?? poolDiscovery;
 
     // Initialize path optimizer
-    this.pathOptimizer = new PathOptimizer(gswap, config);
+    this.pathOptimizer = new PathOptimizer(gswap, config, sources);
 
     // Initialize quote wrapper
     const fullConfig = getConfig();
-    this.quoteWrapper = createQuoteWrapper(fullConfig.api.baseUrl);
+    this.quoteWrapper = sources.quoteSource ?? createLocalQuoteWrapper(fullConfig.api.baseUrl, gswap); // Simulated from on-chain pool state; quote API cross-checks
 
     logger.info('Multi-Path Arbitrage Strategy initialized', {
       maxHops: this.strategyConfig.maxHops,
@@ -213,8 +220,8 @@ export class MultiPathArbitrageStrategy {
       logger.info('🔍 Initializing multi-path arbitrage with pool discovery...');
 
       // Fetch available pools and tokens
-      await poolDiscovery.fetchAllPools();
-      this.availableTokens = poolDiscovery.getAvailableTokens();
+      await this.poolDiscovery.fetchAllPools();
+      this.availableTokens = this.poolDiscovery.getAvailableTokens();
 
       // Generate optimal paths using real pool data
       await this.generateOptimalPaths();
@@ -268,49 +275,42 @@ export class MultiPathArbitrageStrategy {
     });
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
   /**
-   * Main execution method - scan for and execute profitable multi-hop arbitrage
+   * Triangular and quadrangular paths, best first, without trading them
    */
-  async scanForOpportunities(): Promise<MultiPathOpportunity[]> {
+  async scanOpportunities(): Promise<MultiPathOpportunity[]> {
     if (!this.isActive) return [];
-
-    const startTime = Date.now();
-    logger.info('🔍 Scanning for multi-path arbitrage opportunities...');
-
     try {
-      const opportunities: MultiPathOpportunity[] = [];
-
-      // Scan triangular paths
-      if (this.strategyConfig.enableTriangular) {
-        const triangular = await this.scanTriangularPaths();
-        opportunities.push(...triangular);
-        this.stats.triangularOpportunities += triangular.length;
-      }
+      return await this.findOpportunities();
+    } catch (error) {
+      logger.error('Error in multi-path arbitrage scan:', error);
+      return [];
+    }
+  }
 
-      // Scan quadrangular paths
-      if (this.strategyConfig.enableQuadrangular) {
-        const quadrangular = await this.scanQuadrangularPaths();
-        opportunities.push(...quadrangular);
-        this.stats.quadrangularOpportunities += quadrangular.length;
-      }
+  /**
+   * Orchestrator cycle - one scan, true when an arbitrage was executed
+   */
+  async execute(): Promise<boolean> {
+    const executedBefore = this.stats.executedArbitrage;
+    await this.scanForOpportunities();
+    return this.stats.executedArbitrage > executedBefore;
+  }
 
-      // Sort by net profit percentage
-      opportunities.sort((a, b) => b.netProfitPercent - a.netProfitPercent);
+  /**
+   * Main execution method - scan for and execute profitable multi-hop arbitrage
+   */
+  async scanForOpportunities(): Promise<MultiPathOpportunity[]> {
+    if (!this.isActive) return [];
 
-      // Filter executable opportunities
+    try {
+      const opportunities = await this.findOpportunities();
       const executableOpportunities = opportunities.filter(opp => opp.isExecutable);
 
-      logger.info(`Found ${executableOpportunities.length} executable multi-path opportunities`, {
-        total: opportunities.length,
-        triangular: opportunities.filter(o => o.pathType === 'triangular').length,
-        quadrangular: opportunities.filter(o => o.pathType === 'quadrangular').length,
-        bestOpportunity: executableOpportunities[0] ? {
-          path: executableOpportunities[0].pathName,
-          netProfitPercent: executableOpportunities[0].netProfitPercent,
-          netProfit: executableOpportunities[0].netProfitAmount
-        } : null
-      });
-
       // Execute best opportunity if profitable
       if (executableOpportunities.length > 0) {
         const best = executableOpportunities[0];
@@ -320,7 +320,7 @@ export class MultiPathArbitrageStrategy {
       }
 
       this.stats.totalOpportunities += opportunities.length;
-      this.lastScanTime = Date.now();
+      this.lastScanTime = this.clock.now();
 
       return opportunities;
 
@@ -330,6 +330,46 @@ export class MultiPathArbitrageStrategy {
     }
   }
 
+  /**
+   * Quote every enabled path type and return them sorted by net profit
+   */
+  private async findOpportunities(): Promise<MultiPathOpportunity[]> {
+    logger.info('🔍 Scanning for multi-path arbitrage opportunities...');
+
+    const opportunities: MultiPathOpportunity[] = [];
+
+    // Scan triangular paths
+    if (this.strategyConfig.enableTriangular) {
+      const triangular = await this.scanTriangularPaths();
+      opportunities.push(...triangular);
+      this.stats.triangularOpportunities += triangular.length;
+    }
+
+    // Scan quadrangular paths
+    if (this.strategyConfig.enableQuadrangular) {
+      const quadrangular = await this.scanQuadrangularPaths();
+      opportunities.push(...quadrangular);
+      this.stats.quadrangularOpportunities += quadrangular.length;
+    }
+
+    // Sort by net profit percentage
+    opportunities.sort((a, b) => b.netProfitPercent - a.netProfitPercent);
+
+    const executableOpportunities = opportunities.filter(opp => opp.isExecutable);
+    logger.info(`Found ${executableOpportunities.length} executable multi-path opportunities`, {
+      total: opportunities.length,
+      triangular: opportunities.filter(o => o.pathType === 'triangular').length,
+      quadrangular: opportunities.filter(o => o.pathType === 'quadrangular').length,
+      bestOpportunity: executableOpportunities[0] ? {
+        path: executableOpportunities[0].pathName,
+        netProfitPercent: executableOpportunities[0].netProfitPercent,
+        netProfit: executableOpportunities[0].netProfitAmount
+      } : null
+    });
+
+    return opportunities;
+  }
+
   /**
    * Generate optimal arbitrage paths from discovered pools
    */
@@ -522,7 +562,7 @@ export class MultiPathArbitrageStrategy {
 
       // Generate opportunity ID
       const pathName = path.join('→');
-      const opportunityId = `${pathType}_${pathName}_${Date.now()}`;
+      const opportunityId = `${pathType}_${pathName}_${this.clock.now()}`;
 
       // Assess risks
       const pathRisk = this.assessPathRisk(optimizedPath, hops);
@@ -553,8 +593,8 @@ export class MultiPathArbitrageStrategy {
         pathRisk,
         executionComplexity,
         rollbackComplexity,
-        timestamp: Date.now(),
-        expirationTime: Date.now() + 300000, // 5 minutes
+        timestamp: this.clock.now(),
+        expirationTime: this.clock.now() + 300000, // 5 minutes
         isExecutable,
         priority: this.calculatePriority(netProfitPercent, pathRisk.overallRisk, executionComplexity),
         competitiveRisk: this.assessCompetitiveRisk(pathName, netProfitPercent)
@@ -629,6 +669,11 @@ export class MultiPathArbitrageStrategy {
       balanceChanges: []
     };
 
+    // Journal the attempt so a crash between hops leaves a record of the token we hold
+    const recovery = this.swapExecutor.getArbitrageRecovery();
+    const startToken = this.getTokenClass(opportunity.hops[0].tokenIn);
+    const attemptId = recovery.beginAttempt(startToken, opportunity.inputAmount.toString(), opportunity.netProfitAmount);
+
     // Record initial balances if monitoring enabled
     const initialBalances: Record<string, number> = {};
     if (this.strategyConfig.balanceMonitoring) {
@@ -646,6 +691,7 @@ export class MultiPathArbitrageStrategy {
         logger.debug(`Executing hop ${i + 1}/${opportunity.hops.length}: ${hop.tokenIn} → ${hop.tokenOut}`);
 
         const swapRequest: SwapRequest = {
+          strategy: 'multi-path-arbitrage',
           tokenIn: this.getTokenClass(hop.tokenIn),
           tokenOut: this.getTokenClass(hop.tokenOut),
           amountIn: hop.amountIn.toString(),
@@ -670,6 +716,7 @@ export class MultiPathArbitrageStrategy {
         if (swapResult.transactionId) {
           result.transactionIds.push(swapResult.transactionId);
         }
+        recovery.recordHop(attemptId, swapResult.transactionId, this.getTokenClass(hop.tokenOut));
 
         // Update amount for next hop based on actual output
         if (i < opportunity.hops.length - 1 && swapResult.amountOut) {
@@ -680,6 +727,7 @@ export class MultiPathArbitrageStrategy {
       // Check if all hops completed successfully
       if (result.executedHops === opportunity.hops.length) {
         result.success = true;
+        recovery.completeAttempt(attemptId);
         this.stats.successfulArbitrage++;
 
         // Calculate actual profit
@@ -736,6 +784,13 @@ export class MultiPathArbitrageStrategy {
           }
         }
 
+        // A completed rollback already unwound the held tokens; otherwise recovery takes over
+        if (result.rollbackSuccess) {
+          recovery.resolveAttempt(attemptId, result.error || `hop ${result.failedHop} failed`);
+        } else {
+          await this.failRecoveryAttempt(attemptId, result.error || `hop ${result.failedHop} failed`);
+        }
+
         // Track worst loss
         const loss = Math.abs(result.actualProfitAmount || 0);
         if (loss > Math.abs(this.stats.worstLoss)) {
@@ -747,6 +802,7 @@ export class MultiPathArbitrageStrategy {
       logger.error('❌ Multi-Path Arbitrage Execution Error:', error);
       result.error = error instanceof Error ? error.message : 'Unknown error';
       this.stats.failedArbitrage++;
+      await this.failRecoveryAttempt(attemptId, result.error);
     }
 
     // Update overall statistics
@@ -756,6 +812,17 @@ export class MultiPathArbitrageStrategy {
     return result;
   }
 
+  /**
+   * Hand a failed attempt to arbitrage recovery
+   */
+  private async failRecoveryAttempt(attemptId: string, error: string): Promise<void> {
+    try {
+      await this.swapExecutor.getArbitrageRecovery().failAttempt(attemptId, error);
+    } catch (recoveryError) {
+      logger.error('Arbitrage recovery failed:', recoveryError);
+    }
+  }
+
   /**
    * Execute rollback strategy for failed multi-hop arbitrage
    */
@@ -781,6 +848,7 @@ export class MultiPathArbitrageStrategy {
 
           // Create reverse swap
           const rollbackRequest: SwapRequest = {
+            strategy: 'multi-path-arbitrage',
             tokenIn: this.getTokenClass(originalHop.tokenOut),
             tokenOut: this.getTokenClass(originalHop.tokenIn),
             amountIn: originalHop.expectedAmountOut.toString(),
@@ -934,8 +1002,12 @@ export class MultiPathArbitrageStrategy {
   /**
    * Get strategy statistics
    */
-  getStats(): MultiPathStats {
-    return { ...this.stats };
+  getStats(): MultiPathStats & TradingStrategyStats {
+    return {
+      ...this.stats,
+      totalTrades: this.stats.executedArbitrage,
+      successfulTrades: this.stats.successfulArbitrage
+    };
   }
 
   /**
@@ -33,6 +33,7 @@ import { NFTMarketplaceClient, NFTArbitrageOpportunity, NFTSale, CraftingRequire
 import { AlertSystem } from '../../monitoring/alerts';
 import { poolDiscovery } from '../../services/pool-discovery';
 import { safeParseFloat } from '../../utils/safe-parse';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
 
 // ===========================================
 // NFT ARBITRAGE TYPES & INTERFACES
@@ -141,7 +142,7 @@ export interface MarketConditionAnalysis {
 // NFT ARBITRAGE STRATEGY CLASS
 // ===========================================
 
-export class NFTArbitrageStrategy {
+export class NFTArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -233,6 +234,11 @@ export class NFTArbitrageStrategy {
     ];
   }
 
+  /**
+   * Nothing to prepare - pools are fetched when the strategy starts
+   */
+  async initialize(): Promise<void> {}
+
   /**
    * Start the NFT arbitrage strategy
    */
@@ -302,6 +308,44 @@ export class NFTArbitrageStrategy {
     });
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Detect opportunities across monitored collections without executing them
+   */
+  async scanOpportunities(): Promise<NFTArbitrageOpportunity[]> {
+    const opportunities: NFTArbitrageOpportunity[] = [];
+
+    for (const contractAddress of this.monitoredCollections) {
+      try {
+        opportunities.push(...await this.nftClient.detectArbitrageOpportunities(contractAddress));
+      } catch (error) {
+        logger.error(`Error scanning collection ${contractAddress}`, { error });
+      }
+    }
+
+    return opportunities;
+  }
+
+  /**
+   * Orchestrator cycle - scanning and position monitoring run on their own loops once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
+  getStats(): TradingStrategyStats {
+    return {
+      totalTrades: this.performance.executedArbitrages,
+      successfulTrades: this.performance.successfulArbitrages,
+      totalProfit: this.performance.totalProfit - this.performance.totalLoss
+    };
+  }
+
   /**
    * Get strategy status and performance
    */
@@ -881,6 +925,7 @@ export class NFTArbitrageStrategy {
 
         // Use existing swap executor for token acquisition
         const swapResult = await this.swapExecutor.executeSwap({
+          strategy: 'nft-arbitrage',
           tokenIn: 'GALA|Unit|none|none', // Base currency
           tokenOut: `${requirement.token}|Unit|none|none`,
           amountIn: (requirement.priceUSD / 0.04).toString(), // Assuming GALA at $0.04
@@ -20,8 +20,10 @@ import { TokenInfo } from '../../types/galaswap';
 import { calculateMinOutputAmount } from '../../utils/slippage-calculator';
 import { validateEnvironment } from '../../config/environment';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { RuntimeSources } from '../../utils/clock';
 import { safeParseFloat } from '../../utils/safe-parse';
 import { poolDiscovery, PoolData } from '../../services/pool-discovery';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
 
 export interface PairMetadata {
   tokenA: string;
@@ -51,7 +53,7 @@ export interface LearningData {
   };
 }
 
-export class SmartArbitrageStrategy {
+export class SmartArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -75,7 +77,8 @@ export class SmartArbitrageStrategy {
     gswap: GSwap,
     config: TradingConfig,
     swapExecutor: SwapExecutor,
-    marketAnalysis: MarketAnalysis
+    marketAnalysis: MarketAnalysis,
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
@@ -83,7 +86,7 @@ export class SmartArbitrageStrategy {
     this.marketAnalysis = marketAnalysis;
 
     // Initialize quote wrapper
-    this.quoteWrapper = createQuoteWrapper(
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(
       process.env.GALASWAP_API_URL || 'https://dex-backend-prod1.defi.gala.com'
     );
 
@@ -96,6 +99,12 @@ export class SmartArbitrageStrategy {
     logger.info('Smart Arbitrage Strategy initialized with learning capabilities');
   }
 
+  async initialize(): Promise<void> {
+    if (Object.keys(this.learningData.pairs).length === 0) {
+      await this.initializePairs();
+    }
+  }
+
   async start(): Promise<void> {
     if (this.isActive) {
       logger.warn('Smart Arbitrage Strategy already running');
@@ -134,6 +143,40 @@ export class SmartArbitrageStrategy {
     logger.info('⏹️ Smart Arbitrage Strategy stopped and learning data saved');
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Quote hot and warm pairs once, without executing or touching learning data
+   */
+  async scanOpportunities(): Promise<Array<{ pair: string; profitPercent: number }>> {
+    const opportunities: Array<{ pair: string; profitPercent: number }> = [];
+
+    for (const pairData of Object.values(this.learningData.pairs)) {
+      if (pairData.priority !== 'hot' && pairData.priority !== 'warm') continue;
+
+      const opportunity = await this.testArbitrageOpportunity(pairData);
+      if (opportunity && opportunity.profitPercent > this.MIN_PROFIT_THRESHOLD) {
+        opportunities.push({
+          pair: `${pairData.tokenASymbol}/${pairData.tokenBSymbol}`,
+          profitPercent: opportunity.profitPercent
+        });
+      }
+    }
+
+    return opportunities.sort((a, b) => b.profitPercent - a.profitPercent);
+  }
+
+  /**
+   * Orchestrator cycle - adaptive per-pair scanning runs on its own timers once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
   private async initializePairs(): Promise<void> {
     logger.info('🔢 Initializing token pairs from pool discovery...');
 
@@ -649,6 +692,14 @@ export class SmartArbitrageStrategy {
     };
   }
 
+  getStats(): TradingStrategyStats {
+    return {
+      totalTrades: this.learningData.globalStats.totalAttemptedTrades,
+      successfulTrades: this.learningData.globalStats.totalSuccessfulTrades,
+      totalProfit: this.learningData.globalStats.totalProfit
+    };
+  }
+
   getTopPerformingPairs(limit: number = 5) {
     return Object.entries(this.learningData.pairs)
       .sort(([,a], [,b]) => b.avgProfitability - a.avgProfitability)
@@ -21,6 +21,7 @@ import { TRADING_CONSTANTS } from '../../config/constants';
 import { SwapExecutor } from '../execution/swap-executor';
 import { MarketAnalysis } from '../../monitoring/market-analysis';
 import { createQuoteWrapper } from '../../utils/quote-api';
+import { RuntimeSources } from '../../utils/clock';
 import { calculateMinOutputAmount, getTokenDecimals } from '../../utils/slippage-calculator';
 import { credentialService } from '../../security/credential-service';
 import { poolDiscovery, PoolData } from '../../services/pool-discovery';
@@ -28,6 +29,7 @@ import { createTransactionAnalyzer, TransactionAnalyzer } from '../../analytics/
 import { createWhaleTracker, WhaleTracker } from '../../analytics/whale-tracker';
 import { createVolumePredictor, VolumePredictor } from '../../analytics/volume-predictor';
 import { getWalletBalance } from '../../utils/wallet-balance';
+import { TradingStrategy } from './trading-strategy';
 
 export interface StablecoinPath {
   stablecoinA: string; // e.g., "GUSDC"
@@ -81,7 +83,7 @@ export interface StablecoinStats {
   hourlyStats: Record<string, { trades: number; profit: number }>;
 }
 
-export class StablecoinArbitrageStrategy {
+export class StablecoinArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -143,14 +145,15 @@ export class StablecoinArbitrageStrategy {
     gswap: GSwap,
     config: TradingConfig,
     swapExecutor: SwapExecutor,
-    marketAnalysis: MarketAnalysis
+    marketAnalysis: MarketAnalysis,
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
     this.swapExecutor = swapExecutor;
     this.marketAnalysis = marketAnalysis;
     const fullConfig = getConfig();
-    this.quoteWrapper = createQuoteWrapper(fullConfig.api.baseUrl);
+    this.quoteWrapper = sources.quoteSource ?? createQuoteWrapper(fullConfig.api.baseUrl);
 
     // Initialize analytics services
     // Transaction analyzer disabled - transaction history API not available on GalaSwap
@@ -278,6 +281,13 @@ export class StablecoinArbitrageStrategy {
     );
   }
 
+  /**
+   * Discover stablecoin paths before the first start
+   */
+  async initialize(): Promise<void> {
+    await this.initializeStablecoinPaths();
+  }
+
   /**
    * Start the stablecoin arbitrage strategy
    */
@@ -328,7 +338,9 @@ export class StablecoinArbitrageStrategy {
     }
 
     // Initialize stablecoin paths
-    await this.initializeStablecoinPaths();
+    if (this.paths.size === 0) {
+      await this.initializeStablecoinPaths();
+    }
 
     // Start continuous monitoring
     this.startContinuousMonitoring();
@@ -358,6 +370,27 @@ export class StablecoinArbitrageStrategy {
     });
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Profitable stablecoin paths, best first, without trading them
+   */
+  async scanOpportunities(): Promise<StablecoinOpportunity[]> {
+    if (!this.isActive) return [];
+    return this.findOpportunities();
+  }
+
+  /**
+   * Orchestrator cycle - one scan, true when a trade was executed
+   */
+  async execute(): Promise<boolean> {
+    const tradesBefore = this.stats.totalTrades;
+    await this.scanForOpportunities();
+    return this.stats.totalTrades > tradesBefore;
+  }
+
   /**
    * Start continuous monitoring loop
    */
@@ -389,6 +422,32 @@ export class StablecoinArbitrageStrategy {
   async scanForOpportunities(): Promise<StablecoinOpportunity[]> {
     if (!this.isActive) return [];
 
+    const opportunities = await this.findOpportunities();
+
+    // Execute the best opportunity with enhanced validation
+    if (opportunities.length > 0) {
+      const best = opportunities[0];
+
+      // Simple validation: check confidence threshold (analytics disabled)
+      if (best.confidence >= this.MIN_CONFIDENCE) {
+        await this.executeStablecoinTrade(best);
+      } else {
+        logger.info('🚫 Opportunity rejected - insufficient confidence', {
+          path: best.path.symbol,
+          confidence: best.confidence.toFixed(2),
+          required: this.MIN_CONFIDENCE
+        });
+      }
+    }
+
+    this.lastScanTime = Date.now();
+    return opportunities;
+  }
+
+  /**
+   * Analyze every active path and rank the profitable ones
+   */
+  private async findOpportunities(): Promise<StablecoinOpportunity[]> {
     const opportunities: StablecoinOpportunity[] = [];
 
     // Whale tracking disabled - transaction history API not available
@@ -426,23 +485,6 @@ export class StablecoinArbitrageStrategy {
       return b.netProfitPercent - a.netProfitPercent;
     });
 
-    // Execute the best opportunity with enhanced validation
-    if (opportunities.length > 0) {
-      const best = opportunities[0];
-
-      // Simple validation: check confidence threshold (analytics disabled)
-      if (best.confidence >= this.MIN_CONFIDENCE) {
-        await this.executeStablecoinTrade(best);
-      } else {
-        logger.info('🚫 Opportunity rejected - insufficient confidence', {
-          path: best.path.symbol,
-          confidence: best.confidence.toFixed(2),
-          required: this.MIN_CONFIDENCE
-        });
-      }
-    }
-
-    this.lastScanTime = Date.now();
     return opportunities;
   }
 
@@ -559,6 +601,17 @@ export class StablecoinArbitrageStrategy {
       confidence: (opportunity.confidence * 100).toFixed(1) + '%'
     });
 
+    // Journal the attempt so a crash or failed second hop leaves a record of the bridge token we hold
+    const recovery = this.swapExecutor.getArbitrageRecovery();
+    const attemptId = recovery.beginAttempt(this.getTokenClass(opportunity.inputToken), opportunity.inputAmount.toString(), opportunity.netProfit);
+    const failAttempt = async (error: string) => {
+      try {
+        await recovery.failAttempt(attemptId, error);
+      } catch (recoveryError) {
+        logger.error('Arbitrage recovery failed:', recoveryError);
+      }
+    };
+
     try {
       // Execute 2-hop trade: inputToken → bridgeToken → outputToken
 
@@ -569,6 +622,7 @@ export class StablecoinArbitrageStrategy {
       });
 
       const hop1Result = await this.swapExecutor.executeSwap({
+        strategy: 'stablecoin-arbitrage',
         tokenIn: this.getTokenClass(opportunity.inputToken),
         tokenOut: this.getTokenClass(opportunity.bridgeToken),
         amountIn: opportunity.inputAmount.toString(),
@@ -581,8 +635,10 @@ export class StablecoinArbitrageStrategy {
           path: opportunity.path.symbol,
           error: hop1Result.error
         });
+        await failAttempt(hop1Result.error || 'hop 1 failed');
         return false;
       }
+      recovery.recordHop(attemptId, hop1Result.transactionId, this.getTokenClass(opportunity.bridgeToken));
 
       const hop1ActualOutput = parseFloat(hop1Result.amountOut || '0');
       logger.info(`✅ Hop 1 complete: received ${hop1ActualOutput} ${opportunity.bridgeToken}`);
@@ -594,6 +650,7 @@ export class StablecoinArbitrageStrategy {
       });
 
       const hop2Result = await this.swapExecutor.executeSwap({
+        strategy: 'stablecoin-arbitrage',
         tokenIn: this.getTokenClass(opportunity.bridgeToken),
         tokenOut: this.getTokenClass(opportunity.outputToken),
         amountIn: hop1ActualOutput.toString(),
@@ -607,8 +664,11 @@ export class StablecoinArbitrageStrategy {
           error: hop2Result.error,
           note: `Stuck with ${hop1ActualOutput} ${opportunity.bridgeToken}`
         });
+        await failAttempt(hop2Result.error || 'hop 2 failed');
         return false;
       }
+      recovery.recordHop(attemptId, hop2Result.transactionId, this.getTokenClass(opportunity.outputToken));
+      recovery.completeAttempt(attemptId, hop2Result.amountOut);
 
       // Calculate actual profit from final output
       const actualOutput = parseFloat(hop2Result.amountOut || '0');
@@ -669,6 +729,7 @@ export class StablecoinArbitrageStrategy {
         stack: error instanceof Error ? error.stack : undefined,
         executionTime: `${Date.now() - startTime}ms`
       });
+      await failAttempt(error instanceof Error ? error.message : String(error));
 
       return false;
     }
@@ -18,11 +18,13 @@ import { TradingConfig } from '../../config/environment';
 import { logger } from '../../utils/logger';
 import { SwapExecutor } from '../execution/swap-executor';
 import { MarketAnalysis } from '../../monitoring/market-analysis';
-import { pairsCorrelation, PairSignal, PairStatistics } from '../../analytics/pairs-correlation';
+import { pairsCorrelation, PairsCorrelation, PairSignal, PairStatistics } from '../../analytics/pairs-correlation';
 import { RiskMonitor } from '../risk/risk-monitor';
 import { safeParseFloat } from '../../utils/safe-parse';
 import { TRADING_CONSTANTS } from '../../config/constants';
 import { timeSeriesDB } from '../../data/storage/timeseries-db';
+import { TradingStrategy } from './trading-strategy';
+import { Clock, RuntimeSources, systemClock } from '../../utils/clock';
 
 export interface StatArbPosition {
   id: string;
@@ -84,12 +86,14 @@ export interface StatArbMetrics {
   lastTradeTime: number;
 }
 
-export class StatisticalArbitrageStrategy {
+export class StatisticalArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
   private marketAnalysis: MarketAnalysis;
   private riskMonitor?: RiskMonitor;
+  private clock: Clock;
+  private correlation: PairsCorrelation; // Shared instance unless a replay supplies one on its own clock
   
   // Strategy state
   private isActive: boolean = false;
@@ -119,13 +123,16 @@ export class StatisticalArbitrageStrategy {
     config: TradingConfig,
     swapExecutor: SwapExecutor,
     marketAnalysis: MarketAnalysis,
-    riskMonitor?: RiskMonitor
+    riskMonitor?: RiskMonitor,
+    sources: RuntimeSources & { correlation?: PairsCorrelation } = {}
   ) {
     this.gswap = gswap;
     this.config = config;
     this.swapExecutor = swapExecutor;
     this.marketAnalysis = marketAnalysis;
     this.riskMonitor = riskMonitor;
+    this.clock = sources.clock ?? systemClock;
+    this.correlation = sources.correlation ?? pairsCorrelation;
     
     this.metrics = {
       totalTrades: 0,
@@ -158,10 +165,10 @@ export class StatisticalArbitrageStrategy {
       logger.info('📊 Initializing Statistical Arbitrage Strategy...');
       
       // Initialize pairs correlation analysis
-      await pairsCorrelation.initialize();
+      await this.correlation.initialize();
       
       // Check if we have sufficient data
-      const monitoringStats = pairsCorrelation.getMonitoringStats();
+      const monitoringStats = this.correlation.getMonitoringStats();
       if (monitoringStats.totalPairs === 0) {
         throw new Error('No trading pairs available for statistical arbitrage');
       }
@@ -223,6 +230,37 @@ export class StatisticalArbitrageStrategy {
     logger.info('🛑 Statistical Arbitrage Strategy stopped');
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Signals that pass the entry checks, without opening positions on them
+   */
+  async scanOpportunities(): Promise<PairSignal[]> {
+    try {
+      const signals = await this.correlation.generateSignals();
+      const actionable: PairSignal[] = [];
+      for (const signal of signals) {
+        if (await this.shouldExecuteSignal(signal)) {
+          actionable.push(signal);
+        }
+      }
+      return actionable;
+    } catch (error) {
+      logger.error('❌ Error scanning for statistical arbitrage opportunities:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Orchestrator cycle - one scan, true when a signal was executed
+   */
+  async execute(): Promise<boolean> {
+    const executedSignals = await this.scanForOpportunities();
+    return executedSignals.length > 0;
+  }
+
   /**
    * Start scanning for opportunities
    */
@@ -235,7 +273,7 @@ export class StatisticalArbitrageStrategy {
         await this.manageActivePositions();
         this.updateMetrics();
         
-        this.lastScanTime = Date.now();
+        this.lastScanTime = this.clock.now();
         
       } catch (error) {
         logger.error('❌ Error in statistical arbitrage scan:', error);
@@ -257,7 +295,7 @@ export class StatisticalArbitrageStrategy {
       logger.debug('🔍 Scanning for statistical arbitrage opportunities...');
       
       // Generate signals from pairs correlation analysis
-      const signals = await pairsCorrelation.generateSignals();
+      const signals = await this.correlation.generateSignals();
       
       if (signals.length === 0) {
         logger.debug('No statistical arbitrage signals found');
@@ -403,7 +441,7 @@ export class StatisticalArbitrageStrategy {
           token1,
           token2,
           type: signal.type as "long_spread" | "short_spread",
-          entryTime: Date.now(),
+          entryTime: this.clock.now(),
           entryZScore: signal.zScore,
           entryRatio: signal.priceRatio,
           
@@ -424,7 +462,7 @@ export class StatisticalArbitrageStrategy {
           halfLife: signal.metadata.halfLife,
           correlation: signal.metadata.correlation,
           
-          lastUpdated: Date.now()
+          lastUpdated: this.clock.now()
         };
         
         this.positions.set(position.id, position);
@@ -432,7 +470,7 @@ export class StatisticalArbitrageStrategy {
         // Update metrics
         this.metrics.totalTrades++;
         this.metrics.activePositions = this.positions.size;
-        this.metrics.lastTradeTime = Date.now();
+        this.metrics.lastTradeTime = this.clock.now();
         
         logger.info(`✅ Statistical arbitrage position opened: ${position.id}`, {
           pair: signal.pair,
@@ -507,7 +545,7 @@ export class StatisticalArbitrageStrategy {
   private async updatePositionData(position: StatArbPosition): Promise<void> {
     try {
       // Get current pair statistics
-      const pairStats = pairsCorrelation.getPairStatistics(position.token1, position.token2);
+      const pairStats = this.correlation.getPairStatistics(position.token1, position.token2);
       
       if (!pairStats) {
         logger.warn(`No current statistics for pair ${position.pairKey}`);
@@ -518,7 +556,7 @@ export class StatisticalArbitrageStrategy {
       position.currentZScore = pairStats.spread.zScore;
       position.currentRatio = pairStats.priceRatio.current;
       position.correlation = pairStats.correlation;
-      position.lastUpdated = Date.now();
+      position.lastUpdated = this.clock.now();
       
       // Calculate unrealized P&L
       position.unrealizedPnL = await this.calculateUnrealizedPnL(position);
@@ -532,7 +570,7 @@ export class StatisticalArbitrageStrategy {
    * Check if a position should be closed
    */
   private async shouldClosePosition(position: StatArbPosition): Promise<boolean> {
-    const now = Date.now();
+    const now = this.clock.now();
     const holdingPeriod = now - position.entryTime;
     
     // 1. Take profit: Z-score returned to mean
@@ -587,7 +625,7 @@ export class StatisticalArbitrageStrategy {
         type: position.type,
         entryZScore: position.entryZScore.toFixed(2),
         exitZScore: position.currentZScore.toFixed(2),
-        holdingPeriod: ((Date.now() - position.entryTime) / (60 * 60 * 1000)).toFixed(1) + 'h',
+        holdingPeriod: ((this.clock.now() - position.entryTime) / (60 * 60 * 1000)).toFixed(1) + 'h',
         unrealizedPnL: position.unrealizedPnL.toFixed(4)
       });
       
@@ -670,7 +708,7 @@ export class StatisticalArbitrageStrategy {
       token,
       type: 'buy',
       amount,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -690,7 +728,7 @@ export class StatisticalArbitrageStrategy {
       token,
       type: 'sell',
       amount,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -819,7 +857,7 @@ export class StatisticalArbitrageStrategy {
     let closedPositions = 0;
     
     for (const position of this.positions.values()) {
-      totalHoldingTime += Date.now() - position.entryTime;
+      totalHoldingTime += this.clock.now() - position.entryTime;
       closedPositions++;
     }
     
@@ -841,7 +879,7 @@ export class StatisticalArbitrageStrategy {
    * Generate unique position ID
    */
   private generatePositionId(): string {
-    return `statarb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `statarb_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -23,32 +23,20 @@ import { SwapExecutor } from '../execution/swap-executor';
 import { MarketAnalysis } from '../../monitoring/market-analysis';
 import { VolumeAnalyzer } from '../../monitoring/volume-analyzer';
 import { RiskMonitor } from '../risk/risk-monitor';
+import { RuntimeSources } from '../../utils/clock';
 import { poolDiscovery } from '../../services/pool-discovery';
 
-// Import all strategies
-import { ArbitrageStrategy } from './arbitrage';
-import { SmartArbitrageStrategy } from './smart-arbitrage';
-import { TriangleArbitrageStrategy } from './triangle-arbitrage';
-import { StablecoinArbitrageStrategy } from './stablecoin-arbitrage';
-import { CrossAssetMomentumStrategy } from './cross-asset-momentum';
-import { MultiPathArbitrageStrategy } from './multi-path-arbitrage';
-import { StatisticalArbitrageStrategy } from './statistical-arbitrage';
-import { TimeBasedPatternsStrategy } from './time-based-patterns';
-import { VolumeMomentumStrategy } from './volume-momentum';
-import { EventArbitrageStrategy } from './event-arbitrage';
-import { NFTArbitrageStrategy } from './nft-arbitrage';
-
-export interface StrategyConfig {
-  name: string;
-  enabled: boolean;
-  priority: number; // 1-10, higher is better
-  maxCapitalAllocation: number; // % of total capital
-  riskTolerance: 'low' | 'medium' | 'high';
-  marketConditions: ('bull' | 'bear' | 'sideways' | 'volatile' | 'stable')[];
-  minProfitThreshold: number; // Minimum profit % to execute
-  cooldownPeriod: number; // MS between executions
-  maxConcurrentTrades: number;
-}
+import {
+  StrategyAccount,
+  StrategyConfig,
+  StrategyDefinition,
+  StrategyDependencies,
+  StrategyParameters,
+  TradingStrategy
+} from './trading-strategy';
+import { StrategyRegistry, createDefaultStrategyRegistry } from './strategy-registry';
+
+export type { StrategyConfig } from './trading-strategy';
 
 export interface StrategyPerformance {
   name: string;
@@ -101,9 +89,13 @@ export class StrategyOrchestrator {
   private isActive: boolean = false;
   private volumeAnalyzer: VolumeAnalyzer;
   private riskMonitor: RiskMonitor;
+  private registry: StrategyRegistry;
+  private account: StrategyAccount;
+  private sources: RuntimeSources;
+  private modulesLoaded: boolean = false; // External modules join once, not on every restart
 
   // Strategy instances
-  private strategies: Map<string, any> = new Map();
+  private strategies: Map<string, TradingStrategy> = new Map();
   private strategyConfigs: Map<string, StrategyConfig> = new Map();
   private strategyPerformance: Map<string, StrategyPerformance> = new Map();
 
@@ -151,7 +143,10 @@ export class StrategyOrchestrator {
     swapExecutor: SwapExecutor,
     marketAnalysis: MarketAnalysis,
     volumeAnalyzer: VolumeAnalyzer,
-    riskMonitor: RiskMonitor
+    riskMonitor: RiskMonitor,
+    registry: StrategyRegistry = createDefaultStrategyRegistry(),
+    account: StrategyAccount = {},
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
@@ -160,8 +155,10 @@ export class StrategyOrchestrator {
 
     this.volumeAnalyzer = volumeAnalyzer;
     this.riskMonitor = riskMonitor;
+    this.registry = registry;
+    this.account = account;
+    this.sources = sources;
     this.initializeStrategies();
-    this.initializeStrategyConfigs();
 
     logger.info('Strategy Orchestrator initialized', {
       totalStrategies: this.strategies.size,
@@ -172,233 +169,87 @@ export class StrategyOrchestrator {
   }
 
   /**
-   * Initialize all strategy instances
+   * Build every registered strategy with its configuration
    */
   private initializeStrategies(): void {
-    // Basic arbitrage
-    this.strategies.set('arbitrage', new ArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Smart learning arbitrage
-    this.strategies.set('smart-arbitrage', new SmartArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Triangle arbitrage
-    this.strategies.set('triangle-arbitrage', new TriangleArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Stablecoin arbitrage
-    this.strategies.set('stablecoin-arbitrage', new StablecoinArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Cross-asset momentum
-    this.strategies.set('cross-asset-momentum', new CrossAssetMomentumStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Multi-path arbitrage (advanced)
-    this.strategies.set('multi-path-arbitrage', new MultiPathArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Statistical arbitrage (pairs trading)
-    this.strategies.set('statistical-arbitrage', new StatisticalArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Time-based patterns strategy
-    this.strategies.set('time-based-patterns', new TimeBasedPatternsStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // Volume Momentum Strategy - Gaming token momentum trading
-    this.strategies.set('volume-momentum', new VolumeMomentumStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis,
-      this.volumeAnalyzer, this.riskMonitor
-    ));
-
-    // Event Arbitrage Strategy - Gaming event-driven trading
-    this.strategies.set('event-arbitrage', new EventArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis
-    ));
-
-    // NFT Arbitrage Strategy - Gaming NFT floor price arbitrage
-    this.strategies.set('nft-arbitrage', new NFTArbitrageStrategy(
-      this.gswap, this.config, this.swapExecutor, this.marketAnalysis, this.riskMonitor
-    ));
+    for (const definition of this.registry.list()) {
+      this.addStrategy(definition);
+    }
 
     logger.info(`Initialized ${this.strategies.size} trading strategies`);
   }
 
   /**
-   * Initialize strategy configurations
+   * Instantiate a strategy and set up its config and performance tracking.
+   * config.strategies[id] may override any StrategyConfig field; other keys are strategy parameters.
    */
-  private initializeStrategyConfigs(): void {
-    // Basic Arbitrage - Reliable, medium profit
-    this.strategyConfigs.set('arbitrage', {
-      name: 'Basic Arbitrage',
-      enabled: true,
-      priority: 6,
-      maxCapitalAllocation: 20, // 20% max
-      riskTolerance: 'low',
-      marketConditions: ['bull', 'bear', 'sideways'],
-      minProfitThreshold: 0.3, // 0.3% minimum
-      cooldownPeriod: 30000, // 30 seconds
-      maxConcurrentTrades: 3
-    });
-
-    // Smart Arbitrage - Learning system, adaptive
-    this.strategyConfigs.set('smart-arbitrage', {
-      name: 'Smart Learning Arbitrage',
-      enabled: true,
-      priority: 8,
-      maxCapitalAllocation: 30,
-      riskTolerance: 'medium',
-      marketConditions: ['bull', 'bear', 'sideways', 'volatile'],
-      minProfitThreshold: 0.4,
-      cooldownPeriod: 45000,
-      maxConcurrentTrades: 2
-    });
-
-    // Triangle Arbitrage - High profit potential, higher complexity
-    this.strategyConfigs.set('triangle-arbitrage', {
-      name: 'Triangle Arbitrage',
-      enabled: true,
-      priority: 9, // Highest priority due to profit potential
-      maxCapitalAllocation: 25,
-      riskTolerance: 'medium',
-      marketConditions: ['volatile', 'bull', 'bear'],
-      minProfitThreshold: 0.5, // Higher threshold due to complexity
-      cooldownPeriod: 60000,
-      maxConcurrentTrades: 1
-    });
-
-    // Stablecoin Arbitrage - Low risk, consistent profits
-    this.strategyConfigs.set('stablecoin-arbitrage', {
-      name: 'Stablecoin Arbitrage',
-      enabled: true,
-      priority: 7,
-      maxCapitalAllocation: 40, // Largest allocation due to low risk
-      riskTolerance: 'low',
-      marketConditions: ['stable', 'sideways', 'bear'],
-      minProfitThreshold: 0.02, // Very low threshold
-      cooldownPeriod: 10000, // Fast execution
-      maxConcurrentTrades: 5
-    });
-
-    // Cross-Asset Momentum - Experimental, high risk/reward
-    this.strategyConfigs.set('cross-asset-momentum', {
-      name: 'Cross-Asset Momentum',
-      enabled: false, // Disabled by default until proven
-      priority: 5,
-      maxCapitalAllocation: 15,
-      riskTolerance: 'high',
-      marketConditions: ['volatile', 'bull', 'bear'],
-      minProfitThreshold: 1.0, // High threshold for experimental strategy
-      cooldownPeriod: 120000, // 2 minute cooldown
-      maxConcurrentTrades: 2
-    });
-
-    // Multi-Path Arbitrage - Advanced arbitrage with highest profit potential
-    this.strategyConfigs.set('multi-path-arbitrage', {
-      name: 'Multi-Path Arbitrage',
-      enabled: true,
-      priority: 10, // Highest priority due to advanced profit potential
-      maxCapitalAllocation: 35, // Large allocation for high-value opportunities
-      riskTolerance: 'medium',
-      marketConditions: ['volatile', 'bull', 'bear', 'sideways'],
-      minProfitThreshold: 2.0, // Higher threshold for multi-hop complexity
-      cooldownPeriod: 90000, // 90 second cooldown for complex execution
-      maxConcurrentTrades: 1 // Single execution due to complexity
-});
-    // Statistical Arbitrage - Pairs trading with mean reversion
-    this.strategyConfigs.set('statistical-arbitrage', {
-      name: 'Statistical Arbitrage',
-      enabled: true,
-      priority: 8, // High priority for proven statistical methods
-      maxCapitalAllocation: 20, // Moderate allocation for pairs trading
-      riskTolerance: 'medium',
-      marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions
-      minProfitThreshold: 2.0, // 2% minimum for statistical significance
-      cooldownPeriod: 30000, // 30 second cooldown
-      maxConcurrentTrades: 5 // Multiple pairs can trade simultaneously
-    });
-
-    // Time-Based Patterns - Gaming ecosystem pattern exploitation
-    this.strategyConfigs.set('time-based-patterns', {
-      name: 'Time-Based Patterns',
-      enabled: true,
-      priority: 7, // High priority for proven gaming patterns
-      maxCapitalAllocation: 15, // Conservative allocation for time-based strategy
-      riskTolerance: 'medium',
-      marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions
-      minProfitThreshold: 1.5, // 1.5% minimum for pattern-based trades
-      cooldownPeriod: 1800000, // 30 minute cooldown (patterns need time to develop)
-      maxConcurrentTrades: 3 // Multiple patterns can be active simultaneously
-    });
+  private addStrategy(definition: StrategyDefinition, parameters: StrategyParameters = {}): void {
+    const { defaults } = definition.configSchema;
+    const overrides: Record<string, unknown> = { ...this.config.strategies?.[definition.id] };
+    const strategyConfig: StrategyConfig = { ...defaults, marketConditions: [...defaults.marketConditions] };
+    const strategyParameters: StrategyParameters = { ...parameters };
+
+    for (const [key, value] of Object.entries(overrides)) {
+      if (key in defaults) {
+        (strategyConfig as unknown as Record<string, unknown>)[key] = value;
+      } else {
+        strategyParameters[key] = value as StrategyParameters[string];
+      }
+    }
 
-    // Volume Momentum Strategy - Gaming token momentum trading
-    this.strategyConfigs.set('volume-momentum', {
-      name: 'Volume Momentum',
-      enabled: true,
-      priority: 8, // High priority for momentum trading
-      maxCapitalAllocation: 12, // 12% max (matches strategy limit)
-      riskTolerance: 'medium',
-      marketConditions: ['bull', 'bear', 'volatile'], // Momentum works in trending/volatile markets
-      minProfitThreshold: 5.0, // 5% minimum for momentum plays
-      cooldownPeriod: 30000, // 30 second cooldown
-      maxConcurrentTrades: 2 // Matches strategy MAX_CONCURRENT_POSITIONS
-    });
+    const dependencies: StrategyDependencies = {
+      ...this.account,
+      ...this.sources,
+      gswap: this.gswap,
+      config: this.config,
+      swapExecutor: this.swapExecutor,
+      marketAnalysis: this.marketAnalysis,
+      volumeAnalyzer: this.volumeAnalyzer,
+      riskMonitor: this.riskMonitor
+    };
 
-    // Event Arbitrage Strategy - Gaming event-driven arbitrage trading
-    this.strategyConfigs.set('event-arbitrage', {
-      name: 'Event Arbitrage',
-      enabled: true,
-      priority: 9, // High priority for predictable event patterns
-      maxCapitalAllocation: 15, // 15% max (matches strategy limit)
-      riskTolerance: 'medium',
-      marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions
-      minProfitThreshold: 3.0, // 3% minimum for event-driven trades
-      cooldownPeriod: 14400000, // 4 hour cooldown (events need time to develop)
-      maxConcurrentTrades: 4 // Multiple event positions can be active
+    this.strategies.set(definition.id, this.registry.create(definition.id, dependencies, strategyParameters));
+    this.strategyConfigs.set(definition.id, strategyConfig);
+    this.strategyPerformance.set(definition.id, {
+      name: strategyConfig.name,
+      totalTrades: 0,
+      successfulTrades: 0,
+      totalProfit: 0,
+      winRate: 0,
+      avgProfitPerTrade: 0,
+      avgExecutionTime: 0,
+      sharpeRatio: 0,
+      maxDrawdown: 0,
+      currentDrawdown: 0,
+      capitalAllocated: 0,
+      lastExecutionTime: 0,
+      activeTrades: 0,
+      riskScore: this.calculateBaseRiskScore(strategyConfig),
+      performanceScore: 50 // Start at neutral
     });
+  }
 
-    // NFT Arbitrage Strategy - Gaming NFT floor price arbitrage
-    this.strategyConfigs.set('nft-arbitrage', {
-      name: 'NFT Floor Price Arbitrage',
-      enabled: true,
-      priority: 8, // High priority for unique gaming NFT opportunities
-      maxCapitalAllocation: 10, // 10% max (matches strategy MAX_TOTAL_NFT_EXPOSURE)
-      riskTolerance: 'high', // NFT markets are inherently high risk
-      marketConditions: ['bull', 'bear', 'sideways', 'volatile'], // Works in all conditions with different strategies
-      minProfitThreshold: 10.0, // 10% minimum for NFT arbitrage (matches strategy MIN_PROFIT_THRESHOLD)
-      cooldownPeriod: 300000, // 5 minute cooldown (matches strategy scanInterval)
-      maxConcurrentTrades: 3 // Matches strategy MAX_CONCURRENT_POSITIONS
-    });
+  /**
+   * Register and build a strategy that is not part of the default registry
+   */
+  registerStrategy(definition: StrategyDefinition, parameters: StrategyParameters = {}): void {
+    this.registry.register(definition);
+    this.addStrategy(definition, parameters);
+    logger.info(`Strategy ${definition.id} registered`);
+  }
 
-    // Initialize performance tracking for each strategy
-    for (const [name, config] of this.strategyConfigs.entries()) {
-      this.strategyPerformance.set(name, {
-        name: config.name,
-        totalTrades: 0,
-        successfulTrades: 0,
-        totalProfit: 0,
-        winRate: 0,
-        avgProfitPerTrade: 0,
-        avgExecutionTime: 0,
-        sharpeRatio: 0,
-        maxDrawdown: 0,
-        currentDrawdown: 0,
-        capitalAllocated: 0,
-        lastExecutionTime: 0,
-        activeTrades: 0,
-        riskScore: this.calculateBaseRiskScore(config),
-        performanceScore: 50 // Start at neutral
-      });
+  /**
+   * Load external strategy modules listed in config.strategyModules
+   */
+  private async loadStrategyModules(): Promise<void> {
+    if (this.modulesLoaded) return;
+    this.modulesLoaded = true;
+
+    for (const specifier of this.config.strategyModules ?? []) {
+      const definitions = await this.registry.loadModule(specifier);
+      for (const definition of definitions) {
+        this.addStrategy(definition);
+      }
     }
   }
 
@@ -420,10 +271,8 @@ export class StrategyOrchestrator {
       // Initialize all strategy instances with pool data
       for (const [strategyName, strategy] of this.strategies) {
         try {
-          if (strategy && typeof strategy.initialize === 'function') {
-            logger.debug(`Initializing ${strategyName} strategy with pool data...`);
-            await strategy.initialize();
-          }
+          logger.debug(`Initializing ${strategyName} strategy with pool data...`);
+          await strategy.initialize();
         } catch (error) {
           logger.warn(`⚠️  Failed to initialize ${strategyName} strategy:`, error);
           // Don't fail the entire orchestrator if one strategy fails
@@ -447,6 +296,9 @@ export class StrategyOrchestrator {
       return;
     }
 
+    // External strategies join before pool discovery so they are initialized with the rest
+    await this.loadStrategyModules();
+
     this.isActive = true;
     logger.info('🎯 Starting Strategy Orchestrator');
 
@@ -476,9 +328,7 @@ export class StrategyOrchestrator {
     // Stop all strategies
     for (const [name, strategy] of this.strategies.entries()) {
       try {
-        if (strategy.stop && typeof strategy.stop === 'function') {
-          await strategy.stop();
-        }
+        await strategy.stop();
       } catch (error) {
         logger.warn(`Error stopping strategy ${name}`, { error });
       }
@@ -667,24 +517,10 @@ export class StrategyOrchestrator {
         const performance = this.strategyPerformance.get(name);
         if (!performance) continue;
 
-        // Get stats from strategy (try both getStats and getStatus methods)
-        let stats: any = {};
-        if (strategy.getStats && typeof strategy.getStats === 'function') {
-          stats = strategy.getStats();
-        } else if (strategy.getStatus && typeof strategy.getStatus === 'function') {
-          const status = strategy.getStatus();
-          // Map getStatus() format to expected stats format
-          stats = {
-            totalTrades: status.opportunities?.executed || 0,
-            executedTrades: status.opportunities?.executed || 0,
-            successfulTrades: status.opportunities?.successful || 0,
-            totalProfit: parseFloat(status.performance?.totalProfit || '0'),
-            avgProfitPerTrade: parseFloat(status.performance?.avgProfitPerTrade || '0')
-          };
-        }
+        const stats = strategy.getStats();
 
         // Update performance metrics
-        performance.totalTrades = stats.totalTrades || stats.executedTrades || performance.totalTrades;
+        performance.totalTrades = stats.totalTrades || performance.totalTrades;
         performance.successfulTrades = stats.successfulTrades || performance.successfulTrades;
         performance.totalProfit = stats.totalProfit || performance.totalProfit;
 
@@ -831,23 +667,8 @@ export class StrategyOrchestrator {
     logger.debug(`Executing strategy: ${config.name}`);
 
     try {
-      // Different strategies have different execution methods
-      let result: any = null;
-
-      if (strategy.scanForOpportunities && typeof strategy.scanForOpportunities === 'function') {
-        result = await strategy.scanForOpportunities();
-      } else if (strategy.execute && typeof strategy.execute === 'function') {
-        result = await strategy.execute();
-      } else if (strategy.start && typeof strategy.start === 'function') {
-        // For strategies that need to be started (like momentum and time-based patterns)
-        if (!strategy.isActive && !strategy.getIsActive?.()) {
-          await strategy.start();
-          return true;
-        }
-      }
-
-      // Check if execution was successful and profitable
-      return result && (Array.isArray(result) ? result.length > 0 : true);
+      // Scan-driven strategies run one pass; loop-driven ones start on their first cycle
+      return await strategy.execute();
 
     } catch (error) {
       logger.error(`Strategy ${strategyName} execution failed`, { error });
@@ -0,0 +1,177 @@
+/**
+ * Strategy Registry
+ *
+ * Holds the StrategyDefinitions the orchestrator can build:
+ * - Built-in strategies are registered by createDefaultStrategyRegistry()
+ * - External modules (private strategies) are loaded by specifier at startup
+ * - Parameters are validated against each definition's config schema
+ */
+
+import { isAbsolute, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { logger } from '../../utils/logger';
+import {
+  StrategyDefinition,
+  StrategyDependencies,
+  StrategyParameters,
+  TradingStrategy
+} from './trading-strategy';
+import { BUILTIN_STRATEGIES } from './builtin-strategies';
+
+export class StrategyRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StrategyRegistryError';
+  }
+}
+
+export class StrategyRegistry {
+  private definitions: Map<string, StrategyDefinition> = new Map();
+
+  /**
+   * Register a strategy definition; ids must be unique
+   */
+  register(definition: StrategyDefinition): void {
+    if (!isStrategyDefinition(definition)) {
+      throw new StrategyRegistryError('Strategy definition must have an id, a configSchema and a create() factory');
+    }
+
+    if (this.definitions.has(definition.id)) {
+      throw new StrategyRegistryError(`Strategy "${definition.id}" is already registered`);
+    }
+
+    this.definitions.set(definition.id, definition);
+    logger.debug(`Registered strategy ${definition.id}`);
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): StrategyDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  list(): StrategyDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Import a strategy module and register what it exports.
+   * Paths are resolved from the working directory; anything else is treated as a package name.
+   * The module exports one definition as `default`, or several as `strategies`.
+   */
+  async loadModule(specifier: string): Promise<StrategyDefinition[]> {
+    const target = specifier.startsWith('.') || isAbsolute(specifier)
+      ? pathToFileURL(resolve(process.cwd(), specifier)).href
+      : specifier;
+
+    let loaded: { default?: unknown; strategies?: unknown };
+    try {
+      loaded = await import(target);
+    } catch (error) {
+      throw new StrategyRegistryError(
+        `Failed to load strategy module "${specifier}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const exported = Array.isArray(loaded.strategies) ? loaded.strategies : [loaded.default];
+    if (exported.length === 0 || !exported.every(isStrategyDefinition)) {
+      throw new StrategyRegistryError(
+        `Strategy module "${specifier}" must export a strategy definition as default or a "strategies" array`
+      );
+    }
+
+    const definitions = exported as StrategyDefinition[];
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+
+    logger.info(`Loaded ${definitions.length} strategies from ${specifier}`, {
+      strategies: definitions.map(definition => definition.id)
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Validate parameters against the definition's schema and fill in defaults.
+   * Unknown parameters are dropped with a warning so shared config blocks stay usable.
+   */
+  resolveParameters(id: string, parameters: StrategyParameters = {}): StrategyParameters {
+    const definition = this.requireDefinition(id);
+    const schema = definition.configSchema.parameters;
+    const resolved: StrategyParameters = {};
+
+    for (const key of Object.keys(parameters)) {
+      if (!(key in schema)) {
+        logger.warn(`Ignoring unknown parameter "${key}" for strategy ${id}`);
+      }
+    }
+
+    for (const [key, spec] of Object.entries(schema)) {
+      const value = parameters[key] ?? spec.default;
+
+      if (value === undefined) {
+        if (spec.required) {
+          throw new StrategyRegistryError(`Strategy ${id} requires parameter "${key}" (${spec.description})`);
+        }
+        continue;
+      }
+
+      if (typeof value !== spec.type) {
+        throw new StrategyRegistryError(
+          `Strategy ${id} parameter "${key}" must be a ${spec.type}, got ${typeof value}`
+        );
+      }
+
+      if (typeof value === 'number') {
+        if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+          throw new StrategyRegistryError(
+            `Strategy ${id} parameter "${key}" must be between ${spec.min ?? '-∞'} and ${spec.max ?? '∞'}, got ${value}`
+          );
+        }
+      }
+
+      resolved[key] = value;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Build a strategy instance with validated parameters
+   */
+  create(id: string, dependencies: StrategyDependencies, parameters: StrategyParameters = {}): TradingStrategy {
+    const definition = this.requireDefinition(id);
+    return definition.create(dependencies, this.resolveParameters(id, parameters));
+  }
+
+  private requireDefinition(id: string): StrategyDefinition {
+    const definition = this.definitions.get(id);
+    if (!definition) {
+      throw new StrategyRegistryError(`Unknown strategy "${id}"`);
+    }
+    return definition;
+  }
+}
+
+function isStrategyDefinition(value: unknown): value is StrategyDefinition {
+  const candidate = value as StrategyDefinition | undefined;
+  return typeof candidate?.id === 'string' &&
+    candidate.id.length > 0 &&
+    typeof candidate.create === 'function' &&
+    typeof candidate.configSchema?.defaults === 'object' &&
+    typeof candidate.configSchema?.parameters === 'object';
+}
+
+/**
+ * Registry preloaded with every built-in strategy
+ */
+export function createDefaultStrategyRegistry(): StrategyRegistry {
+  const registry = new StrategyRegistry();
+  for (const definition of BUILTIN_STRATEGIES) {
+    registry.register(definition);
+  }
+  return registry;
+}
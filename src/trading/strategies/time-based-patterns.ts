@@ -24,6 +24,9 @@ import { TRADING_CONSTANTS } from '../../config/constants';
 import { priceCollector } from '../../data/price-collector';
 import { timeSeriesDB } from '../../data/storage/timeseries-db';
 import { EventScheduler, ScheduledEvent } from '../../monitoring/event-scheduler';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
+import { indicatorEngine } from '../../analytics/indicator-engine';
+import { IntervalType } from '../../entities/analytics';
 
 export interface TimeBasedPattern {
   id: string;
@@ -92,7 +95,7 @@ export interface PatternStatistics {
   lastUpdated: number;
 }
 
-export class TimeBasedPatternsStrategy {
+export class TimeBasedPatternsStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -114,6 +117,11 @@ export class TimeBasedPatternsStrategy {
   private readonly MIN_CONFIDENCE_THRESHOLD = 0.7;
   private readonly MIN_SUCCESS_RATE = 0.6;
   private readonly MAX_PATTERN_AGE_HOURS = 24;
+  private readonly INDICATOR_INTERVAL: IntervalType = '1h'; // Candles behind the shared indicators
+  private readonly RSI_OVERBOUGHT = 70; // Skip long pre-positions above this RSI
+  private readonly RSI_OVERSOLD = 30; // Skip short pre-positions below this RSI
+  private readonly MAX_ENTRY_ZSCORE = 2; // Price already this many deviations toward the move
+  private readonly MIN_SPIKE_BANDWIDTH = 0.04; // Bollinger bandwidth below which large spikes are not expected
 
   constructor(
     gswap: GSwap,
@@ -306,6 +314,11 @@ export class TimeBasedPatternsStrategy {
     }
   }
 
+  /**
+   * Nothing to prepare - patterns are built in the constructor and validated on start
+   */
+  async initialize(): Promise<void> {}
+
   /**
    * Start the time-based patterns strategy
    */
@@ -366,6 +379,27 @@ export class TimeBasedPatternsStrategy {
     }
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Enabled patterns confident enough to be scheduled
+   */
+  async scanOpportunities(): Promise<TimeBasedPattern[]> {
+    return Array.from(this.patterns.values())
+      .filter(pattern => pattern.enabled && pattern.confidenceScore >= this.MIN_CONFIDENCE_THRESHOLD);
+  }
+
+  /**
+   * Orchestrator cycle - pattern events fire from the scheduler once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
   /**
    * Validate historical data availability for patterns
    */
@@ -570,6 +604,11 @@ export class TimeBasedPatternsStrategy {
         return;
       }
 
+      if (!(await this.validateIndicators(pattern, 'GALA'))) {
+        logger.warn(`⚠️ Indicators already reflect the expected move for pattern ${pattern.id}`);
+        return;
+      }
+
       // Calculate position size
       const positionSize = this.calculatePositionSize(pattern);
       if (positionSize <= 0) {
@@ -723,6 +762,46 @@ export class TimeBasedPatternsStrategy {
     return true;
   }
 
+  /**
+   * Check the shared indicators have not already priced in the pattern's move, and that
+   * patterns expecting a large move are not entered while the bands are squeezed
+   */
+  private async validateIndicators(pattern: TimeBasedPattern, token: string): Promise<boolean> {
+    const indicators = await indicatorEngine.getIndicators(token, this.INDICATOR_INTERVAL).catch(error => {
+      logger.debug(`No stored indicators for ${token}`, { error });
+      return null;
+    });
+    if (!indicators) return true; // No candles yet, rely on the other checks
+
+    const expectsRise = pattern.expectedPriceChange > 0;
+    const direction = expectsRise ? 1 : -1;
+    const context = { patternId: pattern.id, expectedChange: pattern.expectedPriceChange };
+
+    if (indicators.rsi != null && (expectsRise ? indicators.rsi >= this.RSI_OVERBOUGHT : indicators.rsi <= this.RSI_OVERSOLD)) {
+      logger.debug('RSI already at the pattern target side', { ...context, rsi: indicators.rsi.toFixed(1) });
+      return false;
+    }
+
+    if (indicators.zScore != null && indicators.zScore * direction >= this.MAX_ENTRY_ZSCORE) {
+      logger.debug('Price already stretched toward the pattern move', { ...context, zScore: indicators.zScore.toFixed(2) });
+      return false;
+    }
+
+    if (
+      Math.abs(pattern.expectedPriceChange) > 0.1 &&
+      indicators.bollinger &&
+      indicators.bollinger.bandwidth < this.MIN_SPIKE_BANDWIDTH
+    ) {
+      logger.debug('Bollinger bands too narrow for a high-change pattern', {
+        ...context,
+        bandwidth: indicators.bollinger.bandwidth.toFixed(4)
+      });
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Calculate position size for a pattern
    */
@@ -1007,7 +1086,14 @@ export class TimeBasedPatternsStrategy {
     const totalSuccesses = totalStats.reduce((sum, stats) => sum + stats.successfulExecutions, 0);
     const totalPnL = totalStats.reduce((sum, stats) => sum + stats.totalPnL, 0);
 
+    const stats: TradingStrategyStats = {
+      totalTrades: totalExecutions,
+      successfulTrades: totalSuccesses,
+      totalProfit: totalPnL
+    };
+
     return {
+      ...stats,
       isActive: this.isActive,
       enabledPatterns: enabledPatterns.length,
       totalPatterns: this.patterns.size,
@@ -0,0 +1,100 @@
+/**
+ * Trading Strategy Contract
+ *
+ * The interface every strategy under src/trading/strategies implements, and the
+ * definition a strategy module exports so StrategyRegistry can build it.
+ */
+
+import { GSwap } from '../../services/gswap-simple';
+import { TradingConfig } from '../../config/environment';
+import { SwapExecutor } from '../execution/swap-executor';
+import { MarketAnalysis } from '../../monitoring/market-analysis';
+import { VolumeAnalyzer } from '../../monitoring/volume-analyzer';
+import { RiskMonitor } from '../risk/risk-monitor';
+import type { TradeSizeLimits } from '../execution/trade-sizer';
+import type { RuntimeSources } from '../../utils/clock';
+
+/**
+ * Orchestrator scheduling settings for a strategy
+ */
+export interface StrategyConfig {
+  name: string;
+  enabled: boolean;
+  priority: number; // 1-10, higher is better
+  maxCapitalAllocation: number; // % of total capital
+  riskTolerance: 'low' | 'medium' | 'high';
+  marketConditions: ('bull' | 'bear' | 'sideways' | 'volatile' | 'stable')[];
+  minProfitThreshold: number; // Minimum profit % to execute
+  cooldownPeriod: number; // MS between executions
+  maxConcurrentTrades: number;
+}
+
+/**
+ * Counters every strategy reports, whatever else its stats contain
+ */
+export interface TradingStrategyStats {
+  totalTrades: number;
+  successfulTrades: number;
+  totalProfit: number;
+  avgExecutionTime?: number;
+}
+
+export type StrategyParameterValue = number | string | boolean;
+
+export interface StrategyParameterSpec {
+  type: 'number' | 'string' | 'boolean';
+  description: string;
+  default?: StrategyParameterValue;
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface StrategyConfigSchema {
+  defaults: StrategyConfig;
+  parameters: Record<string, StrategyParameterSpec>;
+}
+
+export type StrategyParameters = Record<string, StrategyParameterValue>;
+
+/**
+ * The wallet a strategy trades for and the limits its trade sizes must respect
+ */
+export interface StrategyAccount {
+  walletAddress?: string; // The engine's wallet; standalone runs fall back to the configured one
+  positionLimits?: TradeSizeLimits;
+}
+
+/**
+ * Shared services handed to every strategy factory; clock and quoteSource are unset in live runs
+ */
+export interface StrategyDependencies extends StrategyAccount, RuntimeSources {
+  gswap: GSwap;
+  config: TradingConfig;
+  swapExecutor: SwapExecutor;
+  marketAnalysis: MarketAnalysis;
+  volumeAnalyzer: VolumeAnalyzer;
+  riskMonitor: RiskMonitor;
+}
+
+export interface TradingStrategy {
+  /** One-time setup (pool data, pair discovery) before the first start */
+  initialize(): Promise<void>;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+  /** Detect current opportunities without trading on them; only execute() trades */
+  scanOpportunities(): Promise<unknown[]>;
+  /** Run one orchestrated cycle, resolving true when the strategy did something */
+  execute(): Promise<boolean>;
+  getStats(): TradingStrategyStats;
+}
+
+/**
+ * What a strategy module exports (as `default` or in a `strategies` array)
+ */
+export interface StrategyDefinition {
+  id: string;
+  configSchema: StrategyConfigSchema;
+  create(dependencies: StrategyDependencies, parameters: StrategyParameters): TradingStrategy;
+}
@@ -20,10 +20,13 @@ import { TRADING_CONSTANTS } from '../../config/constants';
 import { SwapExecutor } from '../execution/swap-executor';
 import { MarketAnalysis } from '../../monitoring/market-analysis';
 import { calculateArbitrageSlippage } from '../../utils/slippage-calculator';
-import { createQuoteWrapper } from '../../utils/quote-api';
+import { createLocalQuoteWrapper } from '../../utils/local-quote-engine';
 import { credentialService } from '../../security/credential-service';
-import { poolDiscovery, TriangularPath, PoolData } from '../../services/pool-discovery';
+import { poolDiscovery, PoolDiscoveryService, TriangularPath, PoolData } from '../../services/pool-discovery';
 import { liquidityFilter } from '../../utils/liquidity-filter';
+import { StrategyAccount, TradingStrategy, TradingStrategyStats } from './trading-strategy';
+import { Clock, RuntimeSources, systemClock } from '../../utils/clock';
+import { estimateRouteGasCost, getTradeSizeCap, optimizeTradeSize, routeQuoter, routeTokens } from '../execution/trade-sizer';
 
 export interface TriangleArbitragePath {
   tokenA: string; // Start token
@@ -79,11 +82,14 @@ export interface TriangleArbitrageStats {
   apiFailures: number; // Other API errors
 }
 
-export class TriangleArbitrageStrategy {
+export class TriangleArbitrageStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
   private marketAnalysis: MarketAnalysis;
+  private account: StrategyAccount; // Wallet and position limits trade sizes are capped by
+  private clock: Clock;
+  private poolDiscovery: PoolDiscoveryService;
   private quoteWrapper: any;
   private isActive: boolean = false;
   private lastScanTime: number = 0;
@@ -117,14 +123,19 @@ export class TriangleArbitrageStrategy {
     gswap: GSwap,
     config: TradingConfig,
     swapExecutor: SwapExecutor,
-    marketAnalysis: MarketAnalysis
+    marketAnalysis: MarketAnalysis,
+    account: StrategyAccount = {},
+    sources: RuntimeSources = {}
   ) {
     this.gswap = gswap;
     this.config = config;
     this.swapExecutor = swapExecutor;
     this.marketAnalysis = marketAnalysis;
+    this.account = account;
+    this.clock = sources.clock ?? systemClock;
+    this.poolDiscovery = sources.poolDiscovery ?? poolDiscovery;
     const fullConfig = getConfig();
-    this.quoteWrapper = createQuoteWrapper(fullConfig.api.baseUrl);
+    this.quoteWrapper = sources.quoteSource ?? createLocalQuoteWrapper(fullConfig.api.baseUrl, gswap); // Simulated from on-chain pool state; quote API cross-checks
 
     logger.info('Triangle Arbitrage Strategy initialized', {
       minProfitPercent: this.MIN_PROFIT_PERCENT,
@@ -133,6 +144,20 @@ export class TriangleArbitrageStrategy {
     });
   }
 
+  /**
+   * Wallet the triangles trade from: the engine's, or the configured one when run standalone
+   */
+  private getWalletAddress(): string {
+    return this.account.walletAddress ?? credentialService.getWalletAddress();
+  }
+
+  /**
+   * Load pools and triangular paths before the first start
+   */
+  async initialize(): Promise<void> {
+    await this.initializePoolData();
+  }
+
   /**
    * Start the triangle arbitrage strategy
    */
@@ -166,6 +191,32 @@ export class TriangleArbitrageStrategy {
     });
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Executable triangles, best first, without trading them
+   */
+  async scanOpportunities(): Promise<TriangleArbitragePath[]> {
+    if (!this.isActive) return [];
+    try {
+      return await this.findOpportunities();
+    } catch (error) {
+      logger.error('Error in triangle arbitrage scan', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Orchestrator cycle - one scan, true when a triangle was executed
+   */
+  async execute(): Promise<boolean> {
+    const executedBefore = this.stats.executedTrades;
+    await this.scanForOpportunities();
+    return this.stats.executedTrades > executedBefore;
+  }
+
   /**
    * Main execution method - scan for and execute profitable triangles
    */
@@ -174,40 +225,8 @@ export class TriangleArbitrageStrategy {
       return [];
     }
 
-    const startTime = Date.now();
-    logger.info('🔍 Scanning for triangle arbitrage opportunities...');
-
     try {
-      // Generate all possible triangle paths
-      const allPaths = this.generateTrianglePaths();
-      logger.info(`Generated ${allPaths.length} potential triangle paths`);
-
-      // Analyze each path for profitability
-      const opportunities: TriangleArbitragePath[] = [];
-
-      for (const path of allPaths) {
-        try {
-          const opportunity = await this.analyzeTrianglePath(path);
-          if (opportunity && opportunity.isExecutable) {
-            opportunities.push(opportunity);
-          }
-        } catch (error) {
-          logger.warn(`Failed to analyze path ${path.pathName}`, { error });
-        }
-      }
-
-      // Sort opportunities by net profit percentage
-      opportunities.sort((a, b) => b.netProfitPercent - a.netProfitPercent);
-
-      const summary = this.generateAnalysisSummary(allPaths, opportunities);
-      logger.info(`Found ${opportunities.length} profitable triangle opportunities out of ${allPaths.length} paths analyzed`, {
-        bestOpportunity: opportunities[0] ? {
-          path: opportunities[0].pathName,
-          netProfitPercent: opportunities[0].netProfitPercent,
-          netProfit: opportunities[0].netProfit
-        } : null,
-        ...summary
-      });
+      const opportunities = await this.findOpportunities();
 
       // Execute the best opportunity if available
       if (opportunities.length > 0) {
@@ -218,7 +237,7 @@ export class TriangleArbitrageStrategy {
       }
 
       this.stats.totalOpportunities += opportunities.length;
-      this.lastScanTime = Date.now();
+      this.lastScanTime = this.clock.now();
 
       return opportunities;
 
@@ -228,6 +247,46 @@ export class TriangleArbitrageStrategy {
     }
   }
 
+  /**
+   * Analyze every triangle path and return the executable ones, best first
+   */
+  private async findOpportunities(): Promise<TriangleArbitragePath[]> {
+    logger.info('🔍 Scanning for triangle arbitrage opportunities...');
+
+    // Generate all possible triangle paths
+    const allPaths = this.generateTrianglePaths();
+    logger.info(`Generated ${allPaths.length} potential triangle paths`);
+
+    // Analyze each path for profitability
+    const opportunities: TriangleArbitragePath[] = [];
+
+    for (const path of allPaths) {
+      try {
+        const opportunity = await this.analyzeTrianglePath(path);
+        if (opportunity && opportunity.isExecutable) {
+          opportunities.push(opportunity);
+        }
+      } catch (error) {
+        logger.warn(`Failed to analyze path ${path.pathName}`, { error });
+      }
+    }
+
+    // Sort opportunities by net profit percentage
+    opportunities.sort((a, b) => b.netProfitPercent - a.netProfitPercent);
+
+    const summary = this.generateAnalysisSummary(allPaths, opportunities);
+    logger.info(`Found ${opportunities.length} profitable triangle opportunities out of ${allPaths.length} paths analyzed`, {
+      bestOpportunity: opportunities[0] ? {
+        path: opportunities[0].pathName,
+        netProfitPercent: opportunities[0].netProfitPercent,
+        netProfit: opportunities[0].netProfit
+      } : null,
+      ...summary
+    });
+
+    return opportunities;
+  }
+
   /**
    * Initialize pool discovery and load available paths
    */
@@ -235,9 +294,9 @@ export class TriangleArbitrageStrategy {
     try {
       logger.info('🔍 Discovering available pools and tokens...');
 
-      await poolDiscovery.fetchAllPools();
-      this.availableTokens = poolDiscovery.getAvailableTokens();
-      this.triangularPaths = poolDiscovery.findTriangularPaths();
+      await this.poolDiscovery.fetchAllPools();
+      this.availableTokens = this.poolDiscovery.getAvailableTokens();
+      this.triangularPaths = this.poolDiscovery.findTriangularPaths();
 
       logger.info('✅ Pool discovery complete', {
         availableTokens: this.availableTokens.length,
@@ -309,9 +368,71 @@ export class TriangleArbitrageStrategy {
    */
   private async analyzeTrianglePath(
     path: { pathName: string; tokens: [string, string, string] }
+  ): Promise<TriangleArbitragePath | null> {
+    // Probe at the base size first; only cycles with an edge are worth the extra sizing quotes
+    const probe = await this.evaluateTrianglePath(path, this.calculateOptimalPositionSize(path.tokens[0]));
+    if (!probe || probe.grossProfit <= 0) {
+      return probe;
+    }
+
+    const sizedAmount = await this.findOptimalTriangleSize(path, probe);
+    if (sizedAmount === null || Math.abs(sizedAmount - probe.inputAmount) < probe.inputAmount * 0.01) {
+      return probe;
+    }
+
+    const sized = await this.evaluateTrianglePath(path, sizedAmount);
+    return sized && sized.netProfit > probe.netProfit ? sized : probe;
+  }
+
+  /**
+   * Search the input size that maximizes net profit for a cycle, capped by the configured
+   * position size and the wallet's safe trade size
+   */
+  private async findOptimalTriangleSize(
+    path: { pathName: string; tokens: [string, string, string] },
+    probe: TriangleArbitragePath
+  ): Promise<number | null> {
+    const [tokenA] = path.tokens;
+
+    try {
+      const maxAmount = await getTradeSizeCap({
+        tokenSymbol: tokenA,
+        configuredMax: this.config.maxPositionSize,
+        positionLimits: this.account.positionLimits,
+        walletAddress: this.getWalletAddress()
+      });
+      const gasCost = await estimateRouteGasCost(3, tokenA, 'high', this.poolDiscovery) ?? probe.estimatedGasCost;
+
+      const quoteRoute = routeQuoter(routeTokens(path), async (tokenIn, tokenOut, amountIn) =>
+        (await this.getQuote(tokenIn, tokenOut, amountIn))?.outputAmount ?? null);
+      const sizing = await optimizeTradeSize(quoteRoute, {
+        minAmount: probe.inputAmount / 10,
+        maxAmount,
+        gasCost
+      });
+
+      if (sizing) {
+        logger.debug(`Sized ${path.pathName}: ${sizing.amountIn.toFixed(4)} ${tokenA} for ${sizing.netProfit.toFixed(4)} net`, {
+          probeAmount: probe.inputAmount,
+          quotesUsed: sizing.quotesUsed,
+          limitedByCap: sizing.limitedByCap
+        });
+      }
+      return sizing?.amountIn ?? null;
+    } catch (error) {
+      logger.warn(`Failed to size triangle path ${path.pathName}`, { error });
+      return null;
+    }
+  }
+
+  /**
+   * Quote a triangle path at a given input size and assess its profitability
+   */
+  private async evaluateTrianglePath(
+    path: { pathName: string; tokens: [string, string, string] },
+    inputAmount: number
   ): Promise<TriangleArbitragePath | null> {
     const [tokenA, tokenB, tokenC] = path.tokens;
-    const inputAmount = this.calculateOptimalPositionSize(tokenA);
 
     try {
       // Get quotes for each hop
@@ -381,7 +502,7 @@ export class TriangleArbitrageStrategy {
         liquidityRisk,
         executionComplexity,
 
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         isExecutable,
         executionPriority
       };
@@ -408,53 +529,74 @@ export class TriangleArbitrageStrategy {
       profitPercent: opportunity.netProfitPercent
     });
 
+    // Journal the attempt so a crash between hops leaves a record of what we hold
+    const recovery = this.swapExecutor.getArbitrageRecovery();
+    const attemptId = recovery.beginAttempt(this.getTokenClass(opportunity.tokenA), opportunity.inputAmount.toString(), opportunity.netProfit);
+    const failAttempt = async (error: string) => {
+      try {
+        await recovery.failAttempt(attemptId, error);
+      } catch (recoveryError) {
+        logger.error('Arbitrage recovery failed:', recoveryError);
+      }
+    };
+
     try {
       // Execute hop 1: tokenA → tokenB
       const hop1Result = await this.swapExecutor.executeSwap({
+        strategy: 'triangle-arbitrage',
         tokenIn: this.getTokenClass(opportunity.tokenA),
         tokenOut: this.getTokenClass(opportunity.tokenB),
         amountIn: opportunity.inputAmount.toString(),
-        userAddress: credentialService.getWalletAddress(),
+        userAddress: this.getWalletAddress(),
         slippageTolerance: 0.015
       });
 
       if (!hop1Result.success) {
         this.recordFailure('hop1_failed', opportunity);
+        await failAttempt(hop1Result.error || 'hop 1 failed');
         return false;
       }
+      recovery.recordHop(attemptId, hop1Result.transactionId, this.getTokenClass(opportunity.tokenB));
 
       // Execute hop 2: tokenB → tokenC
       const actualHop1Output = parseFloat(hop1Result.amountOut || '0');
       const hop2Result = await this.swapExecutor.executeSwap({
+        strategy: 'triangle-arbitrage',
         tokenIn: this.getTokenClass(opportunity.tokenB),
         tokenOut: this.getTokenClass(opportunity.tokenC),
         amountIn: actualHop1Output.toString(),
-        userAddress: credentialService.getWalletAddress(),
+        userAddress: this.getWalletAddress(),
         slippageTolerance: 0.015
       });
 
       if (!hop2Result.success) {
         this.recordFailure('hop2_failed', opportunity);
+        await failAttempt(hop2Result.error || 'hop 2 failed');
         return false;
       }
+      recovery.recordHop(attemptId, hop2Result.transactionId, this.getTokenClass(opportunity.tokenC));
 
       // Execute hop 3: tokenC → tokenA
       const actualHop2Output = parseFloat(hop2Result.amountOut || '0');
       const hop3Result = await this.swapExecutor.executeSwap({
+        strategy: 'triangle-arbitrage',
         tokenIn: this.getTokenClass(opportunity.tokenC),
         tokenOut: this.getTokenClass(opportunity.tokenA),
         amountIn: actualHop2Output.toString(),
-        userAddress: credentialService.getWalletAddress(),
+        userAddress: this.getWalletAddress(),
         slippageTolerance: 0.015
       });
 
       if (!hop3Result.success) {
         this.recordFailure('hop3_failed', opportunity);
+        await failAttempt(hop3Result.error || 'hop 3 failed');
         return false;
       }
+      recovery.recordHop(attemptId, hop3Result.transactionId, this.getTokenClass(opportunity.tokenA));
 
       // Calculate actual profit
       const finalAmount = parseFloat(hop3Result.amountOut || '0');
+      recovery.completeAttempt(attemptId, hop3Result.amountOut);
       const actualProfit = finalAmount - opportunity.inputAmount;
       const actualProfitPercent = (actualProfit / opportunity.inputAmount) * 100;
 
@@ -481,6 +623,7 @@ export class TriangleArbitrageStrategy {
 
     } catch (error) {
       this.recordFailure('execution_error', opportunity);
+      await failAttempt(error instanceof Error ? error.message : String(error));
       logger.error('❌ Triangle Arbitrage Execution Failed', {
         path: opportunity.pathName,
         error,
@@ -609,7 +752,7 @@ export class TriangleArbitrageStrategy {
   }
 
   /**
-   * Calculate optimal position size based on available balance and risk limits
+   * Base probe size for a cycle; profitable cycles are then resized by the trade sizer
    */
   private calculateOptimalPositionSize(token: string): number {
     // Use reasonable fixed amounts for demo/testing - sufficient for API validation
@@ -721,8 +864,11 @@ export class TriangleArbitrageStrategy {
   /**
    * Get strategy statistics
    */
-  getStats(): TriangleArbitrageStats {
-    return { ...this.stats };
+  getStats(): TriangleArbitrageStats & TradingStrategyStats {
+    return {
+      ...this.stats,
+      totalTrades: this.stats.executedTrades
+    };
   }
 
   /**
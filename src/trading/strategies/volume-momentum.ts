@@ -21,6 +21,10 @@ import { logger } from '../../utils/logger';
 import { safeParseFloat, safeParseFixedNumber, safeFixedToNumber } from '../../utils/safe-parse';
 import { PrecisionMath, TOKEN_DECIMALS } from '../../utils/precision-math';
 import { TRADING_CONSTANTS } from '../../config/constants';
+import { TradingStrategy, TradingStrategyStats } from './trading-strategy';
+import { indicatorEngine } from '../../analytics/indicator-engine';
+import { IndicatorSnapshot } from '../../analytics/technical-indicators';
+import { IntervalType } from '../../entities/analytics';
 
 export interface MomentumPosition {
   id: string;
@@ -78,7 +82,7 @@ export interface StrategyStats {
   lastCircuitBreakerTime: number;
 }
 
-export class VolumeMomentumStrategy {
+export class VolumeMomentumStrategy implements TradingStrategy {
   private gswap: GSwap;
   private config: TradingConfig;
   private swapExecutor: SwapExecutor;
@@ -123,9 +127,11 @@ export class VolumeMomentumStrategy {
   
   // Momentum confirmation thresholds
   private readonly MIN_PRICE_MOVEMENT_PERCENT = 0.01; // 1% price movement
-  private readonly CONFIRMATION_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
   private readonly VOLUME_SUSTAIN_THRESHOLD = 1.5; // 150% of average
   private readonly VOLUME_SUSTAIN_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+  private readonly INDICATOR_INTERVAL: IntervalType = '5m'; // Candles behind the shared indicators; also the confirmation window
+  private readonly RSI_OVERBOUGHT = 80; // Surge already priced in above this RSI
+  private readonly ATR_STOP_MULTIPLIER = 2; // Trailing stops no tighter than 2x ATR
   
   // Statistics
   private stats: StrategyStats = {
@@ -168,6 +174,11 @@ export class VolumeMomentumStrategy {
     });
   }
 
+  /**
+   * Nothing to prepare - the volume analyzer is started on demand in start()
+   */
+  async initialize(): Promise<void> {}
+
   /**
    * Start momentum trading strategy
    */
@@ -231,6 +242,26 @@ export class VolumeMomentumStrategy {
     }
   }
 
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Current momentum signals, without entering positions
+   */
+  async scanOpportunities(): Promise<MomentumSignal[]> {
+    return this.scanForMomentumSignals();
+  }
+
+  /**
+   * Orchestrator cycle - signal processing runs on its own interval once started
+   */
+  async execute(): Promise<boolean> {
+    if (this.isActive) return false;
+    await this.start();
+    return true;
+  }
+
   /**
    * Main strategy execution loop
    */
@@ -302,7 +333,10 @@ export class VolumeMomentumStrategy {
           positionSize: positionSize.percentage,
           positionSizeUSD: positionSize.amountUSD,
           expectedEntry: momentumConfirmed.currentPrice,
-          trailingStopPercent: this.TRAILING_STOPS[volumeSurge.surgeType.toUpperCase() as keyof typeof this.TRAILING_STOPS],
+          trailingStopPercent: Math.max(
+            this.TRAILING_STOPS[volumeSurge.surgeType.toUpperCase() as keyof typeof this.TRAILING_STOPS],
+            momentumConfirmed.atrStopPercent ?? 0
+          ),
           maxHoldTime: this.MAX_HOLD_TIMES[volumeSurge.surgeType.toUpperCase() as keyof typeof this.MAX_HOLD_TIMES],
           signalQuality,
           gameContextBonus: this.calculateGameContextBonus(volumeSurge)
@@ -339,6 +373,7 @@ export class VolumeMomentumStrategy {
     liquidityOk: boolean;
     hasConflicts: boolean;
     currentPrice: number;
+    atrStopPercent?: number; // Trailing stop wide enough for the token's average true range
   }> {
     try {
       // Get current market data
@@ -356,8 +391,24 @@ export class VolumeMomentumStrategy {
         };
       }
       
-      // Check price movement in surge direction within confirmation window
-      const priceMovement = await this.calculateRecentPriceMovement(token, this.CONFIRMATION_WINDOW_MS);
+      // Shared indicators over stored candles; without them the surge cannot be confirmed
+      const indicators = await indicatorEngine.getIndicators(token, this.INDICATOR_INTERVAL).catch(error => {
+        logger.debug(`No stored indicators for ${token}`, { error });
+        return null;
+      });
+      if (!indicators) {
+        return {
+          confirmed: false,
+          reason: `No stored ${this.INDICATOR_INTERVAL} candles`,
+          priceMovement: 0,
+          liquidityOk: false,
+          hasConflicts: false,
+          currentPrice
+        };
+      }
+
+      // Check price movement in surge direction since the last closed candle
+      const priceMovement = ((currentPrice - indicators.close) / indicators.close) * 100;
       const minMovement = this.MIN_PRICE_MOVEMENT_PERCENT * 100;
       
       if (Math.abs(priceMovement) < minMovement) {
@@ -371,6 +422,19 @@ export class VolumeMomentumStrategy {
         };
       }
       
+      // Skip surges the shared indicators show as overextended, fading or below their volume-weighted price
+      const rejection = this.checkIndicators(currentPrice, indicators);
+      if (rejection) {
+        return {
+          confirmed: false,
+          reason: rejection,
+          priceMovement,
+          liquidityOk: false,
+          hasConflicts: false,
+          currentPrice
+        };
+      }
+
       // Check volume sustainability
       const volumeAnalysis = await this.volumeAnalyzer.getTokenAnalysis(token);
       if (!volumeAnalysis) {
@@ -420,7 +484,8 @@ export class VolumeMomentumStrategy {
         priceMovement,
         liquidityOk,
         hasConflicts,
-        currentPrice
+        currentPrice,
+        atrStopPercent: indicators.atr != null ? (indicators.atr * this.ATR_STOP_MULTIPLIER) / currentPrice : 0
       };
 
     } catch (error) {
@@ -612,6 +677,7 @@ export class VolumeMomentumStrategy {
 
       // Prepare swap request with gas bidding for momentum trading
       const swapRequest: SwapRequest = {
+        strategy: 'volume-momentum',
         tokenIn: TRADING_CONSTANTS.TOKENS.GALA,
         tokenOut: this.getTokenClassKey(signal.token),
         amountIn: amountIn.toString(),
@@ -801,6 +867,7 @@ export class VolumeMomentumStrategy {
 
       // Prepare exit swap (reverse the entry)
       const swapRequest: SwapRequest = {
+        strategy: 'volume-momentum',
         tokenIn: this.getTokenClassKey(position.token),
         tokenOut: TRADING_CONSTANTS.TOKENS.GALA,
         amountIn: position.amount.toString(),
@@ -998,12 +1065,20 @@ export class VolumeMomentumStrategy {
     }
   }
 
-  private async calculateRecentPriceMovement(token: string, timeWindow: number): Promise<number> {
-    // Calculate price movement percentage over time window
-    // This would use real price history data
-    const volatilityFactor = Math.random() - 0.5; // -0.5 to 0.5
-    const baseMovement = 1.5; // Base 1.5% movement
-    return baseMovement * volatilityFactor * 2; // ±3% range
+  /**
+   * Reason the shared indicators reject a surge, or null when they support it
+   */
+  private checkIndicators(currentPrice: number, indicators: IndicatorSnapshot): string | null {
+    if (indicators.rsi != null && indicators.rsi >= this.RSI_OVERBOUGHT) {
+      return `RSI ${indicators.rsi.toFixed(1)} at or above ${this.RSI_OVERBOUGHT}, move overextended`;
+    }
+    if (indicators.macd && indicators.macd.histogram <= 0) {
+      return `MACD histogram ${indicators.macd.histogram.toPrecision(3)} not rising`;
+    }
+    if (indicators.vwap != null && currentPrice <= indicators.vwap) {
+      return `Price ${currentPrice} not above VWAP ${indicators.vwap.toPrecision(6)}`;
+    }
+    return null;
   }
 
   private async checkConflictingSignals(token: string): Promise<boolean> {
@@ -1114,6 +1189,14 @@ export class VolumeMomentumStrategy {
     return { ...this.stats };
   }
 
+  getStats(): TradingStrategyStats {
+    return {
+      totalTrades: this.stats.positionsOpened,
+      successfulTrades: this.countProfitableTrades(),
+      totalProfit: this.stats.totalProfit
+    };
+  }
+
   /**
    * Get active positions
    */
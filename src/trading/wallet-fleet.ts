@@ -0,0 +1,319 @@
+/**
+ * Wallet Fleet
+ * Runs one TradingEngine per configured wallet in a single process. Each engine keeps
+ * its own strategies, PositionLimits, RiskProfile and daily loss counters; the fleet
+ * exposes the same control surface as a single engine, aggregated across wallets.
+ */
+
+import { BotConfig, configForWallet } from '../config/environment';
+import { PortfolioBalance } from '../types/galaswap';
+import { logger } from '../utils/logger';
+import { TradingEngine, TradingEngineOptions } from './TradingEngine';
+import type { RangeOrderBookEntry } from '../strategies/range-order-strategy';
+import type { CompoundPolicy, CompoundResult } from '../services/fee-compounder';
+import type { MergeOptions, SplitLadder } from '../services/position-restructurer';
+import type { RebalanceAction } from '../services/rebalance-engine';
+
+export type FleetEngine = Pick<TradingEngine,
+  'start' | 'stop' | 'getStatus' | 'getPortfolio' | 'getRangeOrderBook' | 'getRiskStatus' | 'emergencyStop' |
+  'deactivateEmergencyStop' | 'executeManualTrade' | 'getWalletId' | 'getWalletAddress' | 'hasLiquidityPosition' |
+  'getFeeCompoundPolicy' | 'setFeeCompoundPolicy' | 'clearFeeCompoundPolicy' | 'getFeeCompoundHistory' |
+  'queuePositionSplit' | 'queuePositionMerge' | 'getStrategyOrchestrator' | 'getSwapExecutor'>;
+
+type EnginePortfolio = Awaited<ReturnType<TradingEngine['getPortfolio']>>;
+type EngineStatus = ReturnType<TradingEngine['getStatus']>;
+type EngineRiskStatus = ReturnType<TradingEngine['getRiskStatus']>;
+type ManualTradeParams = Parameters<TradingEngine['executeManualTrade']>[0];
+
+export interface WalletPortfolioSummary {
+  walletId: string;
+  address: string;
+  totalValue: number;
+  pnl: number;
+}
+
+export type FleetPortfolio = EnginePortfolio & { wallets: WalletPortfolioSummary[] };
+export type FleetStatus = EngineStatus & { wallets: Record<string, EngineStatus> };
+export type FleetRiskStatus = EngineRiskStatus & { wallets: Record<string, EngineRiskStatus> };
+
+export class WalletFleet {
+  private engines: Map<string, FleetEngine> = new Map();
+
+  /**
+   * @param engines - One engine per wallet; the first is the primary wallet
+   */
+  constructor(engines: FleetEngine[]) {
+    if (engines.length === 0) {
+      throw new Error('WalletFleet requires at least one engine');
+    }
+
+    for (const engine of engines) {
+      const walletId = engine.getWalletId();
+      if (this.engines.has(walletId)) {
+        throw new Error(`Duplicate wallet id in fleet: ${walletId}`);
+      }
+      this.engines.set(walletId, engine);
+    }
+
+    logger.info(`Wallet fleet initialized with ${engines.length} wallets`, { wallets: this.getWalletIds() });
+  }
+
+  /**
+   * Build an engine for every wallet in the configuration (just the primary when WALLETS is unset)
+   */
+  static fromConfig(
+    config: BotConfig,
+    createEngine: (walletConfig: BotConfig) => FleetEngine = walletConfig => new TradingEngine(walletConfig)
+  ): WalletFleet {
+    const wallets = config.wallets ?? [config.wallet];
+    return new WalletFleet(wallets.map(wallet => createEngine(configForWallet(config, wallet))));
+  }
+
+  /**
+   * Build engines that share one set of options (e.g. a paper exchange) across wallets
+   */
+  static withOptions(config: BotConfig, options: (walletConfig: BotConfig) => TradingEngineOptions): WalletFleet {
+    return WalletFleet.fromConfig(config, walletConfig => new TradingEngine(walletConfig, options(walletConfig)));
+  }
+
+  getWalletIds(): string[] {
+    return Array.from(this.engines.keys());
+  }
+
+  getEngine(walletId: string): FleetEngine | undefined {
+    return this.engines.get(walletId);
+  }
+
+  getEngines(): FleetEngine[] {
+    return Array.from(this.engines.values());
+  }
+
+  getPrimaryEngine(): FleetEngine {
+    return this.engines.values().next().value as FleetEngine;
+  }
+
+  /**
+   * Start every wallet's engine; if one refuses to start the others are stopped again
+   */
+  async start(): Promise<void> {
+    const started: FleetEngine[] = [];
+    try {
+      for (const engine of this.engines.values()) {
+        await engine.start();
+        started.push(engine);
+      }
+    } catch (error) {
+      logger.error('Wallet fleet failed to start, stopping started engines:', error);
+      await Promise.allSettled(started.map(engine => engine.stop()));
+      throw error;
+    }
+  }
+
+  /**
+   * Stop every wallet's engine, reporting the first failure after all have been attempted
+   */
+  async stop(): Promise<void> {
+    const results = await Promise.allSettled(Array.from(this.engines.values()).map(engine => engine.stop()));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Portfolio across all wallets: positions concatenated, balances summed per token
+   */
+  async getPortfolio(): Promise<FleetPortfolio> {
+    const entries = await Promise.all(
+      Array.from(this.engines.entries()).map(async ([walletId, engine]) => ({
+        walletId,
+        address: engine.getWalletAddress(),
+        portfolio: await engine.getPortfolio()
+      }))
+    );
+
+    const balances = new Map<string, PortfolioBalance>();
+    for (const { portfolio } of entries) {
+      for (const balance of portfolio.balances) {
+        const existing = balances.get(balance.token);
+        if (existing) {
+          existing.amount += balance.amount;
+          existing.valueUSD += balance.valueUSD;
+        } else {
+          balances.set(balance.token, { ...balance });
+        }
+      }
+    }
+
+    return {
+      positions: entries.flatMap(({ portfolio }) => portfolio.positions),
+      balances: Array.from(balances.values()),
+      totalValue: entries.reduce((sum, { portfolio }) => sum + portfolio.totalValue, 0),
+      pnl: entries.reduce((sum, { portfolio }) => sum + portfolio.pnl, 0),
+      liquidityPositions: entries.flatMap(({ portfolio }) => portfolio.liquidityPositions),
+      rangeOrders: entries.flatMap(({ portfolio }) => portfolio.rangeOrders),
+      marketMakingPositions: entries.flatMap(({ portfolio }) => portfolio.marketMakingPositions),
+      wallets: entries.map(({ walletId, address, portfolio }) => ({
+        walletId,
+        address,
+        totalValue: portfolio.totalValue,
+        pnl: portfolio.pnl
+      }))
+    };
+  }
+
+  /**
+   * Range orders of every wallet in one book, tagged with the wallet that placed them
+   */
+  getRangeOrderBook(): Array<RangeOrderBookEntry & { walletId: string }> {
+    return Array.from(this.engines.entries())
+      .flatMap(([walletId, engine]) => engine.getRangeOrderBook().map(entry => ({ ...entry, walletId })))
+      .sort((a, b) => a.pair.localeCompare(b.pair) || b.targetPrice - a.targetPrice);
+  }
+
+  /**
+   * Fleet status: the primary wallet's view with performance totalled and per-wallet detail
+   */
+  getStatus(): FleetStatus {
+    const statuses = this.collect(engine => engine.getStatus());
+    const all = Object.values(statuses);
+    const primary = all[0];
+
+    const totalTrades = all.reduce((sum, status) => sum + (status.performance?.totalTrades ?? 0), 0);
+    const successfulTrades = all.reduce((sum, status) => sum + (status.performance?.successfulTrades ?? 0), 0);
+
+    return {
+      ...primary,
+      isRunning: all.some(status => status.isRunning),
+      uptime: Math.max(...all.map(status => status.uptime)),
+      apiHealth: all.every(status => status.apiHealth),
+      performance: {
+        totalTrades,
+        successfulTrades,
+        totalVolume: all.reduce((sum, status) => sum + (status.performance?.totalVolume ?? 0), 0),
+        totalProfit: all.reduce((sum, status) => sum + (status.performance?.totalProfit ?? 0), 0),
+        successRate: (totalTrades > 0 ? (successfulTrades / totalTrades) * 100 : 0).toFixed(2) + '%'
+      },
+      risk: {
+        ...primary.risk,
+        emergencyStop: all.some(status => status.risk?.emergencyStop)
+      },
+      wallets: statuses
+    };
+  }
+
+  /**
+   * Risk status: reports an active emergency stop if any wallet has one
+   */
+  getRiskStatus(): FleetRiskStatus {
+    const statuses = this.collect(engine => engine.getRiskStatus());
+    const all = Object.values(statuses);
+    const stopped = all.find(status => status.emergencyStatus?.isActive);
+
+    return {
+      ...all[0],
+      emergencyStatus: (stopped ?? all[0]).emergencyStatus,
+      wallets: statuses
+    };
+  }
+
+  /**
+   * Emergency stop every wallet
+   */
+  async emergencyStop(reason: string = 'Manual emergency stop', liquidatePositions: boolean = false): Promise<void> {
+    await Promise.all(Array.from(this.engines.values()).map(engine => engine.emergencyStop(reason, liquidatePositions)));
+  }
+
+  /**
+   * Clear the emergency stop on every wallet
+   */
+  async deactivateEmergencyStop(reason: string): Promise<void> {
+    for (const engine of this.engines.values()) {
+      await engine.deactivateEmergencyStop(reason);
+    }
+  }
+
+  /**
+   * Execute a manual trade from one wallet (the primary unless walletId is given)
+   */
+  async executeManualTrade(params: ManualTradeParams & { walletId?: string }): ReturnType<TradingEngine['executeManualTrade']> {
+    const { walletId, ...trade } = params;
+    const engine = walletId ? this.engines.get(walletId) : this.getPrimaryEngine();
+    if (!engine) {
+      return { success: false, error: `Unknown wallet: ${walletId}` };
+    }
+    return engine.executeManualTrade(trade);
+  }
+
+  /**
+   * Whether any wallet holds a liquidity position
+   */
+  hasLiquidityPosition(positionId: string): boolean {
+    return Array.from(this.engines.values()).some(engine => engine.hasLiquidityPosition(positionId));
+  }
+
+  /**
+   * Queue a split or merge on the wallet that holds the positions; merged positions must share a wallet
+   */
+  queuePositionSplit(positionId: string, ladder: SplitLadder): Promise<RebalanceAction> {
+    return this.engineForPosition(positionId).queuePositionSplit(positionId, ladder);
+  }
+
+  queuePositionMerge(positionIds: string[], options?: Omit<MergeOptions, 'maxGap'>): Promise<RebalanceAction> {
+    return this.engineForPosition(positionIds[0]).queuePositionMerge(positionIds, options);
+  }
+
+  /**
+   * Auto-compound policy of a position, from the wallet that holds it
+   */
+  getFeeCompoundPolicy(positionId: string): CompoundPolicy {
+    return this.engineForPosition(positionId).getFeeCompoundPolicy(positionId);
+  }
+
+  setFeeCompoundPolicy(positionId: string, policy: Partial<CompoundPolicy>): CompoundPolicy {
+    return this.engineForPosition(positionId).setFeeCompoundPolicy(positionId, policy);
+  }
+
+  clearFeeCompoundPolicy(positionId: string): CompoundPolicy {
+    return this.engineForPosition(positionId).clearFeeCompoundPolicy(positionId);
+  }
+
+  /**
+   * Auto-compounding attempts for one position, or for every wallet, oldest first
+   */
+  getFeeCompoundHistory(positionId?: string): CompoundResult[] {
+    if (positionId) return this.engineForPosition(positionId).getFeeCompoundHistory(positionId);
+    return Array.from(this.engines.values())
+      .flatMap(engine => engine.getFeeCompoundHistory())
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Orchestrator of the first wallet that runs one; the control API has a single orchestrator to act on
+   */
+  getStrategyOrchestrator(): ReturnType<TradingEngine['getStrategyOrchestrator']> {
+    for (const engine of this.engines.values()) {
+      const orchestrator = engine.getStrategyOrchestrator();
+      if (orchestrator) return orchestrator;
+    }
+    return null;
+  }
+
+  /**
+   * Engine whose wallet holds a position; the primary wallet for positions no engine knows yet
+   */
+  private engineForPosition(positionId: string): FleetEngine {
+    for (const engine of this.engines.values()) {
+      if (engine.hasLiquidityPosition(positionId)) return engine;
+    }
+    return this.getPrimaryEngine();
+  }
+
+  private collect<T>(read: (engine: FleetEngine) => T): Record<string, T> {
+    const result: Record<string, T> = {};
+    for (const [walletId, engine] of this.engines) {
+      result[walletId] = read(engine);
+    }
+    return result;
+  }
+}
@@ -269,9 +269,27 @@ export interface BundleRequest {
 
 export type BundleType =
   | 'swap'
+  | 'batchSwap'
   | 'createPool';
   // addLiquidity, removeLiquidity, collectFees removed - SDK v0.0.7 doesn't support these operations
 
+// One hop of a batched multi-hop swap. Each hop spends exactly `amount` and reverts the
+// whole batch when it would return less than `amountOutMinimum`.
+export interface BatchSwapOperation {
+  tokenIn: TokenClassKey;
+  tokenOut: TokenClassKey;
+  fee: number;
+  amount: string;
+  amountOutMinimum: string;
+  recipient: string; // Format: eth|0x...
+}
+
+export interface BatchSwapPayload {
+  uniqueKey: string;
+  atomic: true; // All operations execute in one transaction or none do
+  operations: BatchSwapOperation[];
+}
+
 export interface BundleResponse extends BaseResponse {
   error: false;
   data: {
@@ -326,6 +344,15 @@ export interface PriceUpdateEvent extends WebSocketEvent {
   };
 }
 
+export interface PoolUpdateEvent extends WebSocketEvent {
+  event: 'pool_update';
+  data: {
+    poolHash: string;
+    token0Price: string;
+    token1Price: string;
+  };
+}
+
 export interface TransactionUpdateEvent extends WebSocketEvent {
   event: 'transaction_update';
   data: {
@@ -0,0 +1,222 @@
+/**
+ * Local Quote Engine Tests
+ * Tick-walking swap simulation and local quoting with remote cross-checks
+ */
+
+import {
+  LocalQuoteEngine,
+  PoolCandidate,
+  createSdkPoolTickSource,
+  initializedTicksFromBitmap,
+  poolStateFromPoolData
+} from '../local-quote-engine';
+import { simulateSwap, V3PoolState } from '../swap-simulator';
+import { tickToSqrtPrice } from '../price-math';
+
+jest.mock('../logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../../services/pool-discovery', () => ({
+  poolDiscovery: { getCachedPools: () => [] }
+}));
+
+const GALA = 'GALA|Unit|none|none';
+const GUSDC = 'GUSDC|Unit|none|none';
+const HASH_3000 = 'a'.repeat(64);
+const HASH_10000 = 'b'.repeat(64);
+
+// A concentrated range [-33000, -31000) of 50k on top of a wide [-40000, -20000) range of 20k, price 0.04
+function galaPool(fee = 3000): V3PoolState {
+  return {
+    token0: 'GALA',
+    token1: 'GUSDC',
+    fee,
+    tickSpacing: 60,
+    sqrtPrice: 0.2,
+    tick: -32191,
+    liquidity: 70000,
+    ticks: [
+      { tick: -40000, liquidityNet: 20000 },
+      { tick: -33000, liquidityNet: 50000 },
+      { tick: -31000, liquidityNet: -50000 },
+      { tick: -20000, liquidityNet: -20000 }
+    ]
+  };
+}
+
+describe('simulateSwap', () => {
+  it('should match the constant-liquidity formula inside one range', () => {
+    const result = simulateSwap(galaPool(), true, 100);
+
+    const netIn = 100 * 0.997;
+    const sqrtAfter = 1 / (1 / 0.2 + netIn / 70000);
+    expect(result.amountOut).toBeCloseTo(70000 * (0.2 - sqrtAfter), 10);
+    expect(result.feePaid).toBeCloseTo(0.3, 10);
+    expect(result.ticksCrossed).toBe(0);
+    expect(result.priceImpact).toBeCloseTo((1 - (sqrtAfter / 0.2) ** 2) * 100, 8);
+  });
+
+  it('should drop liquidity when a swap crosses out of a concentrated range', () => {
+    const pool = galaPool();
+    const boundary = tickToSqrtPrice(-33000);
+    const inFirstRange = 70000 * (1 / boundary - 1 / 0.2) / 0.997;
+
+    const result = simulateSwap(pool, true, inFirstRange + 500);
+
+    const netRest = 500 * 0.997;
+    const sqrtAfter = 1 / (1 / boundary + netRest / 20000);
+    expect(result.ticksCrossed).toBe(1);
+    expect(result.liquidityAfter).toBeCloseTo(20000, 6);
+    expect(result.tickAfter).toBeLessThan(-33000);
+    expect(result.amountOut).toBeCloseTo(70000 * (0.2 - boundary) + 20000 * (boundary - sqrtAfter), 8);
+    expect(result.sqrtPriceAfter).toBeCloseTo(sqrtAfter, 12);
+  });
+
+  it('should price exact output as the inverse of exact input', () => {
+    const pool = galaPool();
+    const exactOut = simulateSwap(pool, false, 25000, false);
+    const exactIn = simulateSwap(pool, false, exactOut.amountIn);
+
+    expect(exactOut.amountOut).toBeCloseTo(25000, 8);
+    expect(exactOut.ticksCrossed).toBeGreaterThan(0);
+    expect(exactIn.amountOut).toBeCloseTo(25000, 6);
+    expect(exactIn.sqrtPriceAfter).toBeCloseTo(exactOut.sqrtPriceAfter, 12);
+  });
+
+  it('should refuse swaps beyond the last initialized tick', () => {
+    expect(() => simulateSwap(galaPool(), true, 1e9)).toThrow('Not enough liquidity');
+  });
+});
+
+describe('LocalQuoteEngine', () => {
+  const candidates: PoolCandidate[] = [
+    { poolHash: HASH_3000, token0: 'GALA', token1: 'GUSDC', fee: 3000 },
+    { poolHash: HASH_10000, token0: 'GALA', token1: 'GUSDC', fee: 10000 }
+  ];
+
+  function setup(remoteOut?: (amountIn: number) => number) {
+    const tickSource = {
+      loadPoolState: jest.fn(async (pool: PoolCandidate) => galaPool(pool.fee))
+    };
+    const remoteQuoter = {
+      quoteExactInput: jest.fn(async (_tokenIn: string, _tokenOut: string, amountIn: number | string) => ({
+        outTokenAmount: String(remoteOut ? remoteOut(Number(amountIn)) : 0)
+      }))
+    };
+    const engine = new LocalQuoteEngine(tickSource, {
+      remoteQuoter,
+      findPools: () => candidates,
+      crossCheckIntervalMs: 60_000
+    });
+    return { engine, tickSource, remoteQuoter };
+  }
+
+  it('should quote locally from the best fee tier and reuse loaded ticks', async () => {
+    const expected = simulateSwap(galaPool(3000), true, 100).amountOut;
+    const { engine, tickSource, remoteQuoter } = setup(() => expected);
+
+    const quote = await engine.quoteExactInput(GALA, GUSDC, 100);
+    await engine.quoteExactInput(GALA, GUSDC, 50);
+
+    expect(Number(quote.outTokenAmount)).toBeCloseTo(expected, 10);
+    expect(quote.feeTier).toBe(3000);
+    expect(tickSource.loadPoolState).toHaveBeenCalledTimes(2); // One load per pool
+    expect(remoteQuoter.quoteExactInput).toHaveBeenCalledTimes(1); // One cross-check per interval
+    expect(engine.getStats()).toMatchObject({ localQuotes: 2, poolLoads: 2, remoteFallbacks: 0 });
+
+    const exactOut = await engine.quoteExactOutput(GUSDC, GALA, 500);
+    expect(Number(exactOut.outTokenAmount)).toBeCloseTo(500, 8);
+    expect(Number(exactOut.inTokenAmount)).toBeGreaterThan(500 * 0.04);
+  });
+
+  it('should reload ticks when the remote cross-check disagrees', async () => {
+    const { engine, tickSource } = setup(amountIn => amountIn * 0.05);
+
+    const local = await engine.quoteExactInput(GALA, GUSDC, 100);
+    const deviation = await engine.crossCheck(GALA, GUSDC, 100, local);
+
+    expect(deviation).toBeGreaterThan(0.01);
+    expect(engine.getStats().crossCheckMismatches).toBeGreaterThanOrEqual(1);
+
+    await engine.quoteExactInput(GALA, GUSDC, 100);
+    expect(tickSource.loadPoolState).toHaveBeenCalledTimes(4);
+  });
+
+  it('should fall back to the quote API when no pool state is available and not retry the pool until the TTL passes', async () => {
+    const { engine, tickSource, remoteQuoter } = setup(() => 3.9);
+    tickSource.loadPoolState.mockRejectedValue(new Error('pool not found'));
+
+    const quote = await engine.quoteExactInput(GALA, GUSDC, 100);
+    await engine.quoteExactInput(GALA, GUSDC, 100);
+
+    expect(quote.outTokenAmount).toBe('3.9');
+    expect(remoteQuoter.quoteExactInput).toHaveBeenCalledWith(GALA, GUSDC, 100);
+    expect(engine.getStats()).toMatchObject({ localQuotes: 0, remoteFallbacks: 2 });
+    expect(tickSource.loadPoolState).toHaveBeenCalledTimes(2); // Once per pool, the second quote used the cached failure
+    await expect(engine.quoteExactOutput(GALA, GUSDC, 1)).rejects.toThrow('No local pool data');
+
+    engine.invalidate();
+    await engine.quoteExactInput(GALA, GUSDC, 100);
+    expect(tickSource.loadPoolState).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('SDK pool state', () => {
+  const pool: PoolCandidate = { poolHash: HASH_3000, token0: 'GALA', token1: 'GUSDC', fee: 3000 };
+
+  // Initialized ticks at -33000 and -31020 around the current tick (-32191), and at -60; spacing 60
+  // Compressed ticks -550 and -517 sit in word -3 (bits 218 and 251), -1 is bit 255 of word -1
+  const bitmap = {
+    '-3': ((1n << 218n) | (1n << 251n)).toString(),
+    '-1': (1n << 255n).toString()
+  };
+
+  it('should decode initialized ticks from the bitmap words', () => {
+    expect(initializedTicksFromBitmap(bitmap, 60)).toEqual([-33000, -31020, -60]);
+    expect(initializedTicksFromBitmap({ '0': '5' }, 10)).toEqual([0, 20]);
+  });
+
+  it('should bound the pool state by the initialized ticks either side of the price', () => {
+    const state = poolStateFromPoolData(pool, { fee: 3000, tickSpacing: 60, sqrtPrice: '0.2', liquidity: '70000', bitmap });
+
+    expect(state).toMatchObject({ token0: 'GALA', token1: 'GUSDC', liquidity: 70000, ticks: [], tickRange: { lower: -33000, upper: -31020 } });
+    expect(simulateSwap(state, true, 100).amountOut).toBeCloseTo(simulateSwap(galaPool(), true, 100).amountOut, 10);
+    expect(() => simulateSwap(state, true, 1e6)).toThrow('beyond the loaded tick data');
+  });
+
+  it('should quote swaps inside the loaded span locally and send larger ones to the quote API', async () => {
+    const getPoolData = jest.fn(async () => ({ fee: 3000, tickSpacing: 60, sqrtPrice: '0.2', liquidity: '70000', bitmap }));
+    const remoteQuoter = { quoteExactInput: jest.fn(async () => ({ outTokenAmount: '1.23' })) };
+    const engine = new LocalQuoteEngine(createSdkPoolTickSource({ getPoolData }), {
+      remoteQuoter,
+      findPools: () => [pool]
+    });
+    engine['lastCrossCheck'].set('GALA/GUSDC', Date.now()); // Keep the cross-check out of the remote call count
+
+    const local = await engine.quoteExactInput(GALA, GUSDC, 100);
+    expect(Number(local.outTokenAmount)).toBeCloseTo(simulateSwap(galaPool(), true, 100).amountOut, 10);
+    expect(getPoolData).toHaveBeenCalledWith(GALA, GUSDC, 3000);
+
+    const remote = await engine.quoteExactInput(GALA, GUSDC, 1e6);
+    expect(remote.outTokenAmount).toBe('1.23');
+    expect(engine.getStats()).toMatchObject({ localQuotes: 1, remoteFallbacks: 1 });
+  });
+  it('should send quotes to the quote API when the pool data has no tick bitmap', async () => {
+    const data = { fee: 3000, tickSpacing: 60, sqrtPrice: '0.2', liquidity: '70000' };
+    const remoteQuoter = { quoteExactInput: jest.fn(async () => ({ outTokenAmount: '1.23' })) };
+    const engine = new LocalQuoteEngine(createSdkPoolTickSource({ getPoolData: jest.fn(async () => data) }), {
+      remoteQuoter,
+      findPools: () => [pool]
+    });
+
+    expect(() => poolStateFromPoolData(pool, data)).toThrow('No tick bitmap');
+    await expect(engine.quoteExactInput(GALA, GUSDC, 100)).resolves.toMatchObject({ outTokenAmount: '1.23' });
+    expect(engine.getStats()).toMatchObject({ localQuotes: 0, remoteFallbacks: 1 });
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Clock
+ * Time, quote and pool sources a component can be handed instead of reading Date.now(), the quote API
+ * and the shared pool discovery. Live runs use the defaults; replay backtests pass the tick being
+ * replayed and the simulated pools.
+ */
+
+import type { QuoteSource } from './quote-api';
+import type { PoolDiscoveryService } from '../services/pool-discovery';
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export interface RuntimeSources {
+  clock?: Clock; // Defaults to systemClock
+  quoteSource?: QuoteSource; // Defaults to the component's own quote API wrapper
+  poolDiscovery?: PoolDiscoveryService; // Defaults to the shared poolDiscovery
+}
@@ -0,0 +1,449 @@
+/**
+ * Local Quote Engine
+ * In-process V3 quoting from on-chain pool state, with the remote quote API kept as a periodic cross-check
+ *
+ * Pool state comes from the SDK's getPoolData: active liquidity, sqrt price and the tick bitmap. The bitmap
+ * says which ticks are initialized but not their liquidityNet, so a swap is simulated only up to the nearest
+ * initialized tick on its side; one that would cross it is priced by the quote API instead.
+ */
+
+import { poolDiscovery, poolFeeTier } from '../services/pool-discovery';
+import { logger } from './logger';
+import { sqrtPriceToTick } from './price-math';
+import { QuoteResult, createQuoteWrapper } from './quote-api';
+import { safeParseFloat } from './safe-parse';
+import { SwapSimulation, SwapSimulationError, V3PoolState, simulateSwap } from './swap-simulator';
+import { tokenSymbol } from './token-format';
+
+export interface PoolTickSource {
+  loadPoolState(pool: PoolCandidate): Promise<V3PoolState>;
+}
+
+type Numeric = string | number | { toString(): string };
+
+/**
+ * Pool state as returned by the SDK's gswap.pools.getPoolData
+ */
+export interface SdkPoolData {
+  fee: number;
+  tickSpacing: number;
+  sqrtPrice: Numeric; // Decimal sqrt price (token1 per token0)
+  liquidity: Numeric; // Active liquidity at the current tick
+  bitmap?: Record<string, Numeric>; // Word position -> 256-bit word of initialized (compressed) ticks
+}
+
+export interface PoolDataReader {
+  getPoolData(token0: string, token1: string, fee: number): Promise<SdkPoolData | null | undefined>;
+}
+
+export interface RemoteQuoter {
+  quoteExactInput(tokenIn: string, tokenOut: string, amountIn: number | string): Promise<QuoteResult>;
+}
+
+export interface PoolCandidate {
+  poolHash: string;
+  token0: string;
+  token1: string;
+  fee: number;
+}
+
+export interface LocalQuoteEngineOptions {
+  remoteQuoter?: RemoteQuoter; // Cross-check source and fallback when a pool cannot be simulated locally
+  findPools?: (symbolA: string, symbolB: string) => PoolCandidate[]; // Defaults to cached pool discovery
+  stateTtlMs?: number; // How long loaded pool state is trusted (default 10s)
+  crossCheckIntervalMs?: number; // Minimum gap between remote cross-checks per pair (default 60s)
+  crossCheckTolerance?: number; // Relative output difference that invalidates local state (default 1%)
+  failureTtlMs?: number; // How long a pool whose state could not be loaded is left to the quote API (default 60s)
+}
+
+export interface ExactOutputQuoteResult extends QuoteResult {
+  inTokenAmount: string;
+}
+
+export interface LocalQuoteStats {
+  localQuotes: number;
+  remoteFallbacks: number;
+  poolLoads: number;
+  crossChecks: number;
+  crossCheckMismatches: number;
+  lastCrossCheckDeviation?: number;
+}
+
+export class LocalQuoteError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'LocalQuoteError';
+  }
+}
+
+interface LoadedPool {
+  state: V3PoolState;
+  loadedAt: number;
+}
+
+/**
+ * Quotes swaps by simulating them against locally cached pool state
+ *
+ * @example
+ * ```typescript
+ * const engine = new LocalQuoteEngine(createSdkPoolTickSource(gswap.pools), { remoteQuoter: createQuoteWrapper(baseUrl) });
+ * const quote = await engine.quoteExactInput('GALA|Unit|none|none', 'GUSDC|Unit|none|none', 100);
+ * ```
+ */
+export class LocalQuoteEngine {
+  private pools: Map<string, LoadedPool> = new Map();
+  private loading: Map<string, Promise<LoadedPool>> = new Map();
+  private failures: Map<string, number> = new Map(); // Pool hash -> when loading it last failed
+  private lastCrossCheck: Map<string, number> = new Map();
+  private readonly stateTtlMs: number;
+  private readonly crossCheckIntervalMs: number;
+  private readonly crossCheckTolerance: number;
+  private readonly failureTtlMs: number;
+  private stats: LocalQuoteStats = {
+    localQuotes: 0,
+    remoteFallbacks: 0,
+    poolLoads: 0,
+    crossChecks: 0,
+    crossCheckMismatches: 0
+  };
+
+  constructor(private tickSource: PoolTickSource, private options: LocalQuoteEngineOptions = {}) {
+    this.stateTtlMs = options.stateTtlMs ?? 10_000;
+    this.crossCheckIntervalMs = options.crossCheckIntervalMs ?? 60_000;
+    this.crossCheckTolerance = options.crossCheckTolerance ?? 0.01;
+    this.failureTtlMs = options.failureTtlMs ?? 60_000;
+  }
+
+  /**
+   * Quote an exact input amount across the pair's pools, returning the best output
+   */
+  async quoteExactInput(tokenIn: string, tokenOut: string, amountIn: number | string): Promise<QuoteResult> {
+    const amount = this.parseAmount(amountIn);
+
+    const best = await this.simulateBest(tokenIn, tokenOut, amount, true);
+    if (!best) {
+      if (!this.options.remoteQuoter) {
+        throw new LocalQuoteError(`No local pool data for ${tokenSymbol(tokenIn)}/${tokenSymbol(tokenOut)}`, 'NO_POOL_DATA');
+      }
+      this.stats.remoteFallbacks++;
+      return this.options.remoteQuoter.quoteExactInput(tokenIn, tokenOut, amountIn);
+    }
+
+    this.stats.localQuotes++;
+    const result = toQuoteResult(best.pool, best.simulation);
+    this.scheduleCrossCheck(tokenIn, tokenOut, amountIn, result);
+    return result;
+  }
+
+  /**
+   * Quote the input needed to receive an exact output amount (local only; the quote API has no exact-out)
+   */
+  async quoteExactOutput(tokenIn: string, tokenOut: string, amountOut: number | string): Promise<ExactOutputQuoteResult> {
+    const amount = this.parseAmount(amountOut);
+    const best = await this.simulateBest(tokenIn, tokenOut, amount, false);
+    if (!best) {
+      throw new LocalQuoteError(`No local pool data for ${tokenSymbol(tokenIn)}/${tokenSymbol(tokenOut)}`, 'NO_POOL_DATA');
+    }
+
+    this.stats.localQuotes++;
+    return {
+      ...toQuoteResult(best.pool, best.simulation),
+      inTokenAmount: best.simulation.amountIn.toString()
+    };
+  }
+
+  /**
+   * Compare a local quote with the remote quote API; a large difference drops the pair's cached pool state
+   * @returns Relative difference of the outputs, or null when no remote quote was available
+   */
+  async crossCheck(tokenIn: string, tokenOut: string, amountIn: number | string, local: QuoteResult): Promise<number | null> {
+    if (!this.options.remoteQuoter) return null;
+
+    this.lastCrossCheck.set(pairKey(tokenIn, tokenOut), Date.now());
+
+    try {
+      const remote = await this.options.remoteQuoter.quoteExactInput(tokenIn, tokenOut, amountIn);
+      const remoteOut = safeParseFloat(remote.outTokenAmount, 0);
+      if (remoteOut <= 0) return null;
+
+      const deviation = Math.abs(safeParseFloat(local.outTokenAmount, 0) - remoteOut) / remoteOut;
+      this.stats.crossChecks++;
+      this.stats.lastCrossCheckDeviation = deviation;
+
+      if (deviation > this.crossCheckTolerance) {
+        this.stats.crossCheckMismatches++;
+        logger.warn(`Local quote for ${tokenSymbol(tokenIn)} → ${tokenSymbol(tokenOut)} differs from remote by ${(deviation * 100).toFixed(2)}%, reloading pool state`, {
+          local: local.outTokenAmount,
+          remote: remote.outTokenAmount
+        });
+        this.invalidatePair(tokenIn, tokenOut);
+      }
+
+      return deviation;
+    } catch (error) {
+      logger.debug('Remote quote cross-check failed:', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Drop cached pool state (and remembered load failures) for one pool, or for every pool
+   */
+  invalidate(poolHash?: string): void {
+    if (poolHash) {
+      this.pools.delete(poolHash);
+      this.failures.delete(poolHash);
+    } else {
+      this.pools.clear();
+      this.failures.clear();
+    }
+  }
+
+  getStats(): LocalQuoteStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Cached pool state, reloaded once it is older than the TTL. A pool that failed to load is not
+   * retried until the failure TTL has passed, so quotes for it go straight to the quote API.
+   */
+  async loadPool(pool: PoolCandidate): Promise<V3PoolState> {
+    const { poolHash } = pool;
+    const cached = this.pools.get(poolHash);
+    if (cached && Date.now() - cached.loadedAt < this.stateTtlMs) {
+      return cached.state;
+    }
+
+    const failedAt = this.failures.get(poolHash);
+    if (failedAt !== undefined && Date.now() - failedAt < this.failureTtlMs) {
+      throw new LocalQuoteError(`State for pool ${poolHash.substring(0, 8)}... failed to load recently`, 'NO_POOL_DATA');
+    }
+
+    // Concurrent quotes for the same pool share one request
+    let pending = this.loading.get(poolHash);
+    if (!pending) {
+      pending = this.tickSource.loadPoolState(pool)
+        .then(state => {
+          const loaded = { state, loadedAt: Date.now() };
+          this.pools.set(poolHash, loaded);
+          this.failures.delete(poolHash);
+          this.stats.poolLoads++;
+          return loaded;
+        })
+        .catch(error => {
+          this.failures.set(poolHash, Date.now());
+          throw error;
+        })
+        .finally(() => this.loading.delete(poolHash));
+      this.loading.set(poolHash, pending);
+    }
+
+    return (await pending).state;
+  }
+
+  private async simulateBest(
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    exactInput: boolean
+  ): Promise<{ pool: V3PoolState; simulation: SwapSimulation } | null> {
+    const symbolIn = tokenSymbol(tokenIn);
+    const symbolOut = tokenSymbol(tokenOut);
+    if (symbolIn === symbolOut) {
+      throw new LocalQuoteError(`Invalid token pair: cannot swap identical tokens (${symbolIn})`, 'VALIDATION_ERROR');
+    }
+
+    const candidates = this.findPools(symbolIn, symbolOut);
+    const loaded = await Promise.all(candidates.map(async candidate => {
+      try {
+        return await this.loadPool(candidate);
+      } catch (error) {
+        logger.debug(`No state for pool ${candidate.poolHash.substring(0, 8)}...:`, error instanceof Error ? error.message : String(error));
+        return null;
+      }
+    }));
+
+    let best: { pool: V3PoolState; simulation: SwapSimulation } | null = null;
+    let poolsWithData = 0;
+    let outsideTickData = false;
+    for (const pool of loaded) {
+      if (!pool) continue;
+      poolsWithData++;
+
+      let simulation: SwapSimulation;
+      try {
+        simulation = simulateSwap(pool, symbolIn === tokenSymbol(pool.token0), amount, exactInput);
+      } catch (error) {
+        // Not enough liquidity in this fee tier, or the swap runs past the ticks we know
+        if (error instanceof SwapSimulationError && error.code === 'OUTSIDE_TICK_DATA') outsideTickData = true;
+        continue;
+      }
+
+      const better = exactInput
+        ? !best || simulation.amountOut > best.simulation.amountOut
+        : !best || simulation.amountIn < best.simulation.amountIn;
+      if (better) best = { pool, simulation };
+    }
+
+    if (poolsWithData === 0 || (!best && outsideTickData)) return null;
+    if (!best) {
+      throw new LocalQuoteError(`Not enough liquidity to ${exactInput ? 'sell' : 'buy'} ${amount} ${exactInput ? symbolIn : symbolOut}`, 'INSUFFICIENT_LIQUIDITY');
+    }
+    return best;
+  }
+
+  private findPools(symbolIn: string, symbolOut: string): PoolCandidate[] {
+    if (this.options.findPools) {
+      return this.options.findPools(symbolIn, symbolOut);
+    }
+
+    try {
+      return poolDiscovery.getCachedPools()
+        .filter(pool =>
+          (tokenSymbol(pool.token0) === symbolIn && tokenSymbol(pool.token1) === symbolOut) ||
+          (tokenSymbol(pool.token0) === symbolOut && tokenSymbol(pool.token1) === symbolIn)
+        )
+        .map(pool => ({ poolHash: pool.poolHash, token0: pool.token0, token1: pool.token1, fee: poolFeeTier(pool) }));
+    } catch (error) {
+      logger.debug('Pool discovery unavailable for local quoting:', error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }
+
+  private invalidatePair(tokenIn: string, tokenOut: string): void {
+    for (const candidate of this.findPools(tokenSymbol(tokenIn), tokenSymbol(tokenOut))) {
+      this.pools.delete(candidate.poolHash);
+    }
+  }
+
+  private scheduleCrossCheck(tokenIn: string, tokenOut: string, amountIn: number | string, local: QuoteResult): void {
+    if (!this.options.remoteQuoter) return;
+
+    const last = this.lastCrossCheck.get(pairKey(tokenIn, tokenOut));
+    if (last !== undefined && Date.now() - last < this.crossCheckIntervalMs) return;
+
+    void this.crossCheck(tokenIn, tokenOut, amountIn, local);
+  }
+
+  private parseAmount(amount: number | string): number {
+    const parsed = Number(amount);
+    if (!(parsed > 0) || !isFinite(parsed)) {
+      throw new LocalQuoteError(`Invalid amount: ${amount} - must be a positive number`, 'VALIDATION_ERROR');
+    }
+    return parsed;
+  }
+}
+
+/**
+ * Initialized ticks in a pool's tick bitmap, ascending. Bit b of word w marks compressed tick
+ * w * 256 + b, i.e. tick (w * 256 + b) * tickSpacing.
+ */
+export function initializedTicksFromBitmap(bitmap: Record<string, Numeric>, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+
+  for (const [wordKey, rawWord] of Object.entries(bitmap)) {
+    let word: bigint;
+    try {
+      word = BigInt(rawWord.toString());
+    } catch {
+      continue;
+    }
+    if (word < 0n) word = BigInt.asUintN(256, word); // Some encoders write the word as a signed int256
+
+    const wordPos = Number(wordKey);
+    for (let bit = 0; word > 0n; bit++, word >>= 1n) {
+      if (word & 1n) ticks.push((wordPos * 256 + bit) * tickSpacing);
+    }
+  }
+
+  return ticks.sort((a, b) => a - b);
+}
+
+/**
+ * Build a simulator pool state from SDK pool data. The state holds no tick crossings: it covers
+ * the span between the initialized ticks either side of the current tick, where liquidity is constant.
+ * Pool data without a tick bitmap is rejected, since the span cannot be bounded without it.
+ */
+export function poolStateFromPoolData(pool: PoolCandidate, data: SdkPoolData): V3PoolState {
+  const sqrtPrice = safeParseFloat(data.sqrtPrice?.toString(), 0);
+  if (!(sqrtPrice > 0)) {
+    throw new LocalQuoteError(`Invalid sqrt price for pool ${pool.poolHash}: ${data.sqrtPrice}`, 'INVALID_POOL');
+  }
+  if (!data.bitmap) {
+    throw new LocalQuoteError(`No tick bitmap for pool ${pool.poolHash}`, 'NO_TICK_DATA');
+  }
+
+  const tick = sqrtPriceToTick(sqrtPrice);
+  const initialized = initializedTicksFromBitmap(data.bitmap, data.tickSpacing);
+  const lower = initialized.filter(initializedTick => initializedTick <= tick).pop();
+  const upper = initialized.find(initializedTick => initializedTick > tick);
+
+  return {
+    token0: tokenSymbol(pool.token0),
+    token1: tokenSymbol(pool.token1),
+    fee: data.fee ?? pool.fee,
+    tickSpacing: data.tickSpacing,
+    sqrtPrice,
+    tick,
+    liquidity: safeParseFloat(data.liquidity?.toString(), 0),
+    ticks: [],
+    tickRange: { lower: lower ?? Number.NEGATIVE_INFINITY, upper: upper ?? Number.POSITIVE_INFINITY }
+  };
+}
+
+/**
+ * Tick source reading pool state through the SDK (gswap.pools)
+ */
+export function createSdkPoolTickSource(pools: PoolDataReader): PoolTickSource {
+  return {
+    async loadPoolState(pool: PoolCandidate): Promise<V3PoolState> {
+      const data = await pools.getPoolData(tokenKey(pool.token0), tokenKey(pool.token1), pool.fee);
+      if (!data) {
+        throw new LocalQuoteError(`No pool data for ${tokenSymbol(pool.token0)}/${tokenSymbol(pool.token1)}/${pool.fee}`, 'NO_POOL_DATA');
+      }
+      return poolStateFromPoolData(pool, data);
+    }
+  };
+}
+
+/**
+ * Drop-in quote wrapper that quotes locally from SDK pool state and falls back to the quote API.
+ * An exchange without a pool reader (e.g. the paper exchange) is quoted by the quote API alone.
+ */
+export function createLocalQuoteWrapper(baseUrl: string, gswap: { pools?: PoolDataReader }, options: LocalQuoteEngineOptions = {}) {
+  const tickSource: PoolTickSource = gswap.pools
+    ? createSdkPoolTickSource(gswap.pools)
+    : { loadPoolState: async () => { throw new LocalQuoteError('Exchange has no pool reader', 'NO_POOL_DATA'); } };
+
+  const engine = new LocalQuoteEngine(tickSource, {
+    remoteQuoter: createQuoteWrapper(baseUrl),
+    ...options
+  });
+
+  return {
+    quoteExactInput: (tokenIn: string, tokenOut: string, amountIn: number | string) =>
+      engine.quoteExactInput(tokenIn, tokenOut, amountIn),
+    quoteExactOutput: (tokenIn: string, tokenOut: string, amountOut: number | string) =>
+      engine.quoteExactOutput(tokenIn, tokenOut, amountOut),
+    engine
+  };
+}
+
+function toQuoteResult(pool: V3PoolState, simulation: SwapSimulation): QuoteResult {
+  return {
+    outTokenAmount: simulation.amountOut.toString(),
+    priceImpact: simulation.priceImpact,
+    feeTier: pool.fee,
+    currentPoolSqrtPrice: simulation.sqrtPriceBefore.toString(),
+    newPoolSqrtPrice: simulation.sqrtPriceAfter.toString(),
+    fee: pool.fee
+  };
+}
+
+function tokenKey(token: string): string {
+  return token.includes('|') ? token : `${token}|Unit|none|none`;
+}
+
+function pairKey(tokenIn: string, tokenOut: string): string {
+  return `${tokenSymbol(tokenIn)}/${tokenSymbol(tokenOut)}`;
+}
@@ -133,4 +133,138 @@ export function calculateSpotPrice(
     logger.error(`Error calculating spot price for ${tokenASymbol}/${tokenBSymbol}:`, error);
     throw new Error(`Failed to calculate spot price for ${tokenASymbol}/${tokenBSymbol}`);
   }
-}
\ No newline at end of file
+}
+/**
+ * V3 tick bounds and the price ratio between adjacent ticks
+ */
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const TICK_BASE = 1.0001;
+
+/**
+ * Decimal sqrt price (token1 per token0) at a tick: 1.0001^(tick / 2)
+ */
+export function tickToSqrtPrice(tick: number): number {
+  return Math.pow(TICK_BASE, tick / 2);
+}
+
+/**
+ * Greatest tick whose sqrt price does not exceed the given decimal sqrt price
+ */
+export function sqrtPriceToTick(sqrtPrice: number): number {
+  if (!(sqrtPrice > 0) || !isFinite(sqrtPrice)) {
+    throw new Error(`Invalid sqrt price: ${sqrtPrice}`);
+  }
+
+  let tick = Math.floor((2 * Math.log(sqrtPrice)) / Math.log(TICK_BASE));
+
+  // Correct floating point error at exact tick boundaries
+  if (tickToSqrtPrice(tick + 1) <= sqrtPrice) tick++;
+  else if (tickToSqrtPrice(tick) > sqrtPrice) tick--;
+
+  return Math.min(MAX_TICK, Math.max(MIN_TICK, tick));
+}
+
+export function tickToPrice(tick: number): number {
+  return Math.pow(TICK_BASE, tick);
+}
+
+export function priceToTick(price: number): number {
+  return sqrtPriceToTick(Math.sqrt(price));
+}
+
+/**
+ * Token amounts held by a liquidity range at the current sqrt price
+ */
+export function amountsForLiquidity(
+  sqrtPrice: number,
+  sqrtPriceLower: number,
+  sqrtPriceUpper: number,
+  liquidity: number
+): { amount0: number; amount1: number } {
+  const current = Math.min(Math.max(sqrtPrice, sqrtPriceLower), sqrtPriceUpper);
+  return {
+    amount0: liquidity * (1 / current - 1 / sqrtPriceUpper),
+    amount1: liquidity * (current - sqrtPriceLower)
+  };
+}
+
+/**
+ * Largest liquidity a range can mint from the desired token amounts at the current sqrt price
+ */
+export function liquidityForAmounts(
+  sqrtPrice: number,
+  sqrtPriceLower: number,
+  sqrtPriceUpper: number,
+  amount0: number,
+  amount1: number
+): number {
+  if (sqrtPrice <= sqrtPriceLower) {
+    return amount0 / (1 / sqrtPriceLower - 1 / sqrtPriceUpper);
+  }
+  if (sqrtPrice >= sqrtPriceUpper) {
+    return amount1 / (sqrtPriceUpper - sqrtPriceLower);
+  }
+  return Math.min(
+    amount0 / (1 / sqrtPrice - 1 / sqrtPriceUpper),
+    amount1 / (sqrtPrice - sqrtPriceLower)
+  );
+}
+
+export interface SwapStep {
+  sqrtPriceNext: number;
+  amountIn: number; // Input consumed by the step, excluding the fee
+  amountOut: number;
+  feeAmount: number;
+}
+
+/**
+ * One constant-liquidity swap step toward a target sqrt price (decimal port of V3 SwapMath).
+ * Exact input spends at most amountRemaining including the fee; exact output buys at most amountRemaining.
+ * The swap direction follows the target: a lower target sells token0 for token1.
+ */
+export function computeSwapStep(
+  sqrtPrice: number,
+  sqrtPriceTarget: number,
+  liquidity: number,
+  amountRemaining: number,
+  feeRate: number,
+  exactInput: boolean
+): SwapStep {
+  const zeroForOne = sqrtPriceTarget < sqrtPrice;
+  const maxIn = zeroForOne
+    ? liquidity * (1 / sqrtPriceTarget - 1 / sqrtPrice)
+    : liquidity * (sqrtPriceTarget - sqrtPrice);
+  const maxOut = zeroForOne
+    ? liquidity * (sqrtPrice - sqrtPriceTarget)
+    : liquidity * (1 / sqrtPrice - 1 / sqrtPriceTarget);
+
+  if (exactInput) {
+    const netRemaining = amountRemaining * (1 - feeRate);
+    if (netRemaining >= maxIn) {
+      return { sqrtPriceNext: sqrtPriceTarget, amountIn: maxIn, amountOut: maxOut, feeAmount: maxIn * feeRate / (1 - feeRate) };
+    }
+
+    const sqrtPriceNext = zeroForOne
+      ? 1 / (1 / sqrtPrice + netRemaining / liquidity)
+      : sqrtPrice + netRemaining / liquidity;
+    return {
+      sqrtPriceNext,
+      amountIn: netRemaining,
+      amountOut: zeroForOne ? liquidity * (sqrtPrice - sqrtPriceNext) : liquidity * (1 / sqrtPrice - 1 / sqrtPriceNext),
+      feeAmount: amountRemaining - netRemaining
+    };
+  }
+
+  if (amountRemaining >= maxOut) {
+    return { sqrtPriceNext: sqrtPriceTarget, amountIn: maxIn, amountOut: maxOut, feeAmount: maxIn * feeRate / (1 - feeRate) };
+  }
+
+  const sqrtPriceNext = zeroForOne
+    ? sqrtPrice - amountRemaining / liquidity
+    : 1 / (1 / sqrtPrice - amountRemaining / liquidity);
+  const amountIn = zeroForOne
+    ? liquidity * (1 / sqrtPriceNext - 1 / sqrtPrice)
+    : liquidity * (sqrtPriceNext - sqrtPrice);
+  return { sqrtPriceNext, amountIn, amountOut: amountRemaining, feeAmount: amountIn * feeRate / (1 - feeRate) };
+}
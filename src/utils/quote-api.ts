@@ -8,6 +8,7 @@ import { logger } from './logger';
 import { safeParseFloat } from './safe-parse';
 import { liquidityFilter } from './liquidity-filter';
 import { normalizeTokenFormat, parseTokenComponents } from './token-format';
+import { apiRequestDuration } from '../monitoring/bot-metrics';
 
 export interface QuoteResult {
   outTokenAmount: string;
@@ -31,6 +32,13 @@ export interface QuoteApiResponse {
   };
 }
 
+/**
+ * Anything that quotes an exact-input swap the way createQuoteWrapper() does
+ */
+export interface QuoteSource {
+  quoteExactInput(tokenIn: string, tokenOut: string, amountIn: number | string): Promise<QuoteResult>;
+}
+
 /**
  * Error classes for differentiated error handling
  */
@@ -235,6 +243,7 @@ export class QuoteApi {
       const url = `${this.baseUrl}/v1/trade/quote?tokenIn=${encodeURIComponent(apiTokenIn)}&tokenOut=${encodeURIComponent(apiTokenOut)}&amountIn=${amountIn}`;
 
       let response: Response;
+      const requestStart = Date.now();
       try {
         // Create timeout signal with fallback for browser compatibility
         const signal = this.createTimeoutSignal(this.timeout);
@@ -247,7 +256,12 @@ export class QuoteApi {
           },
           signal
         });
+        apiRequestDuration.observe((Date.now() - requestStart) / 1000, {
+          endpoint: '/v1/trade/quote',
+          outcome: response.ok ? 'success' : String(response.status)
+        });
       } catch (error) {
+        apiRequestDuration.observe((Date.now() - requestStart) / 1000, { endpoint: '/v1/trade/quote', outcome: 'error' });
         // Handle timeout and network errors
         if (error instanceof Error) {
           if (error.name === 'TimeoutError' || error.message.includes('timeout')) {
@@ -420,7 +434,7 @@ export class QuoteApi {
  * const quote = await quoteWrapper.quoteExactInput(tokenIn, tokenOut, amount);
  * ```
  */
-export function createQuoteWrapper(baseUrl: string) {
+export function createQuoteWrapper(baseUrl: string): QuoteSource {
   const quoteApi = new QuoteApi(baseUrl);
 
   return {
@@ -234,6 +234,11 @@ export class RateLimiterManager {
   }
 }
 
+/**
+ * Limiters for the process's outbound API calls, exported on /metrics
+ */
+export const apiRateLimiters = new RateLimiterManager({ requestsPerSecond: 10, burstLimit: 20 });
+
 /**
  * Exponential backoff calculator
  */
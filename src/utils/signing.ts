@@ -18,6 +18,7 @@ const ec = new EC('secp256k1');
 
 export interface SigningConfig {
   userAddress: string; // User's wallet address
+  privateKeyEnv?: string; // Env var holding this wallet's key (default WALLET_PRIVATE_KEY)
 }
 
 export interface SignablePayload {
@@ -33,15 +34,17 @@ export interface SignedPayload extends SignablePayload {
 
 export class PayloadSigner {
   private userAddress: string;
+  private privateKeyEnv: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private galaChainSdk: any = null; // Will be dynamically loaded
 
   constructor(config: SigningConfig) {
     this.userAddress = config.userAddress;
+    this.privateKeyEnv = config.privateKeyEnv ?? 'WALLET_PRIVATE_KEY';
 
     try {
       // Validate private key is available without storing it
-      const privateKeyBuffer = getPrivateKey();
+      const privateKeyBuffer = getPrivateKey(this.privateKeyEnv);
       const privateKeyHex = privateKeyBuffer.toString('hex');
 
       // Test that we can create a key pair (without storing it)
@@ -108,7 +111,7 @@ export class PayloadSigner {
       logger.debug('Signing with GalaChain SDK');
 
       // Get private key securely without storing it
-      const privateKeyBuffer = getPrivateKey();
+      const privateKeyBuffer = getPrivateKey(this.privateKeyEnv);
 
       // Use GalaChain signatures module
       const signature = this.galaChainSdk.signatures.getSignature(
@@ -194,7 +197,7 @@ export class PayloadSigner {
       }
 
       // Get private key securely and create key pair only when needed
-      const privateKeyBuffer = getPrivateKey();
+      const privateKeyBuffer = getPrivateKey(this.privateKeyEnv);
       const privateKeyHex = privateKeyBuffer.toString('hex');
       const keyPair = ec.keyFromPrivate(privateKeyHex);
 
@@ -283,7 +286,7 @@ export class PayloadSigner {
       const recovery = signature.slice(128, 130);
 
       // Get private key securely and create key pair only when needed
-      const privateKeyBuffer = getPrivateKey();
+      const privateKeyBuffer = getPrivateKey(this.privateKeyEnv);
       const privateKeyHex = privateKeyBuffer.toString('hex');
       const keyPair = ec.keyFromPrivate(privateKeyHex);
 
@@ -317,7 +320,7 @@ export class PayloadSigner {
    */
   getPublicKey(): string {
     // Get private key securely and create key pair only when needed
-    const privateKeyBuffer = getPrivateKey();
+    const privateKeyBuffer = getPrivateKey(this.privateKeyEnv);
     const privateKeyHex = privateKeyBuffer.toString('hex');
     const keyPair = ec.keyFromPrivate(privateKeyHex);
     return keyPair.getPublic('hex');
@@ -6,7 +6,7 @@
 
 import { TRADING_CONSTANTS } from '../config/constants';
 import { PrecisionMath, TOKEN_DECIMALS } from './precision-math';
-import { safeFixedToNumber } from './safe-parse';
+import { safeFixedToNumber, safeParseFloat } from './safe-parse';
 import { logger } from './logger';
 
 /**
@@ -213,4 +213,14 @@ export function applyGasBuffer(gasEstimate: number, bufferMultiplier: number): n
 
   const bufferedGasFixed = PrecisionMath.multiply(gasFixed, bufferFixed);
   return safeFixedToNumber(bufferedGasFixed);
-}
\ No newline at end of file
+}
+
+/**
+ * Amount a completed swap delivered
+ * @param reportedAmountOut - Output reported by the executor, if any
+ * @param expectedAmountOut - Quoted output, used when the executor does not report what came out
+ * @returns Reported output, or the quoted output in its absence
+ */
+export function realizedAmountOut(reportedAmountOut: string | undefined, expectedAmountOut: number): number {
+  return safeParseFloat(reportedAmountOut, expectedAmountOut);
+}
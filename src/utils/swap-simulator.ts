@@ -0,0 +1,160 @@
+/**
+ * V3 Swap Simulator
+ * Walks a concentrated-liquidity swap across initialized ticks using a pool's tick data
+ */
+
+import { MAX_TICK, MIN_TICK, computeSwapStep, sqrtPriceToTick, tickToSqrtPrice } from './price-math';
+
+export interface TickLiquidity {
+  tick: number;
+  liquidityNet: number; // Liquidity added when the price crosses this tick upward
+}
+
+export interface V3PoolState {
+  token0: string;
+  token1: string;
+  fee: number;
+  tickSpacing: number;
+  sqrtPrice: number; // Decimal sqrt price (token1 per token0)
+  tick: number;
+  liquidity: number; // Active liquidity at the current tick
+  ticks: TickLiquidity[]; // Initialized ticks, ascending
+  tickRange?: { lower: number; upper: number }; // Span the tick data covers; unset when it covers every tick
+}
+
+export interface SwapSimulation {
+  zeroForOne: boolean;
+  exactInput: boolean;
+  amountIn: number; // Including the fee
+  amountOut: number;
+  feePaid: number;
+  sqrtPriceBefore: number;
+  sqrtPriceAfter: number;
+  tickAfter: number;
+  liquidityAfter: number;
+  priceImpact: number; // Percent move of the pool price caused by the swap
+  ticksCrossed: number;
+}
+
+export class SwapSimulationError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'SwapSimulationError';
+  }
+}
+
+/**
+ * Simulate an exact-input or exact-output swap without touching the pool state
+ * @param pool - Pool state with its initialized ticks
+ * @param zeroForOne - True when selling token0 for token1
+ * @param amount - Input amount (exact input) or desired output amount (exact output)
+ */
+export function simulateSwap(
+  pool: V3PoolState,
+  zeroForOne: boolean,
+  amount: number,
+  exactInput: boolean = true
+): SwapSimulation {
+  if (!(amount > 0) || !isFinite(amount)) {
+    throw new SwapSimulationError(`Invalid amount: ${amount}`, 'INVALID_AMOUNT');
+  }
+  if (!(pool.sqrtPrice > 0)) {
+    throw new SwapSimulationError(`Invalid pool sqrt price: ${pool.sqrtPrice}`, 'INVALID_POOL');
+  }
+
+  const feeRate = pool.fee / 1_000_000;
+  const ticks = pool.ticks;
+
+  // Next initialized tick in the swap direction: at or below the current tick going down, above it going up
+  let index = zeroForOne
+    ? findLastIndex(ticks, tick => tick.tick <= pool.tick)
+    : ticks.findIndex(tick => tick.tick > pool.tick);
+  if (!zeroForOne && index === -1) index = ticks.length;
+
+  let sqrtPrice = pool.sqrtPrice;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+  let remaining = amount;
+  let amountIn = 0;
+  let amountOut = 0;
+  let feePaid = 0;
+  let ticksCrossed = 0;
+
+  while (remaining > 0) {
+    const next: TickLiquidity | undefined = ticks[index];
+    let nextTick = next ? next.tick : (zeroForOne ? MIN_TICK : MAX_TICK);
+
+    // Liquidity past the loaded span is unknown, so the walk stops at its edge
+    const limit = zeroForOne ? pool.tickRange?.lower : pool.tickRange?.upper;
+    const atLimit = limit !== undefined && (zeroForOne ? nextTick <= limit : nextTick >= limit);
+    if (atLimit) nextTick = limit;
+    const target = tickToSqrtPrice(nextTick);
+
+    if (liquidity > 0) {
+      const step = computeSwapStep(sqrtPrice, target, liquidity, remaining, feeRate, exactInput);
+      amountIn += step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+      feePaid += step.feeAmount;
+
+      if (step.sqrtPriceNext !== target) {
+        sqrtPrice = step.sqrtPriceNext;
+        tick = sqrtPriceToTick(sqrtPrice);
+        if (zeroForOne) tick = Math.max(tick, nextTick);
+        break;
+      }
+
+      remaining -= exactInput ? step.amountIn + step.feeAmount : step.amountOut;
+    }
+
+    sqrtPrice = target;
+    if (atLimit) {
+      throw new SwapSimulationError(
+        `Swap in ${pool.token0}/${pool.token1}/${pool.fee} crosses tick ${nextTick}, beyond the loaded tick data`,
+        'OUTSIDE_TICK_DATA'
+      );
+    }
+    if (!next) {
+      throw new SwapSimulationError(
+        `Not enough liquidity in ${pool.token0}/${pool.token1}/${pool.fee} to ${exactInput ? 'spend' : 'buy'} ${amount}`,
+        'INSUFFICIENT_LIQUIDITY'
+      );
+    }
+
+    // Cross the tick: liquidityNet is added going up and removed going down
+    if (zeroForOne) {
+      liquidity -= next.liquidityNet;
+      tick = nextTick - 1;
+      index--;
+    } else {
+      liquidity += next.liquidityNet;
+      tick = nextTick;
+      index++;
+    }
+    liquidity = Math.max(0, liquidity);
+    ticksCrossed++;
+  }
+
+  const priceBefore = pool.sqrtPrice * pool.sqrtPrice;
+  const priceAfter = sqrtPrice * sqrtPrice;
+
+  return {
+    zeroForOne,
+    exactInput,
+    amountIn,
+    amountOut,
+    feePaid,
+    sqrtPriceBefore: pool.sqrtPrice,
+    sqrtPriceAfter: sqrtPrice,
+    tickAfter: tick,
+    liquidityAfter: liquidity,
+    priceImpact: Math.abs(priceAfter / priceBefore - 1) * 100,
+    ticksCrossed
+  };
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
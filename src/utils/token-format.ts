@@ -58,6 +58,17 @@ export function isGalaChainFormat(token: string): boolean {
   return token.includes('$') && token.split('$').length === 4;
 }
 
+/**
+ * Upper-case symbol (collection) of a token composite key in either format, or of a bare symbol
+ *
+ * @example
+ * tokenSymbol('GALA|Unit|none|none') // 'GALA'
+ * tokenSymbol('gusdc$Unit$none$none') // 'GUSDC'
+ */
+export function tokenSymbol(token: string): string {
+  return token.split(/[|$]/)[0].toUpperCase();
+}
+
 /**
  * Parse token composite key into components
  * Works with both $ and | separators